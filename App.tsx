@@ -1,6 +1,11 @@
 import React, { Suspense, useMemo, useEffect } from 'react';
 import { Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { View } from './types';
+import { REDIRECTS, ROUTES, href, legacyRedirect, pathForView, viewForPath } from './services/routeTable';
+import { routeLoader } from './services/routeLoaders';
+import { getAllKnownTeams } from './services/teamDataService';
+import { useScrollRestoration } from './hooks/useScrollRestoration';
+import { useInjuryNewsAlerts } from './hooks/useInjuryNewsAlerts';
 import LoadingSpinner from './components/LoadingSpinner';
 import MobileBottomNavigation from './components/MobileBottomNavigation';
 import EnhancedNavigation from './components/EnhancedNavigation';
@@ -22,15 +27,16 @@ const PredictionDetail = React.lazy(() => import('./components/PredictionDetail'
 const TodaysPredictions = React.lazy(() => import('./components/TodaysPredictions'));
 const AccuracyDashboard = React.lazy(() => import('./components/AccuracyDashboard'));
 const DisclaimerPage = React.lazy(() => import('./components/DisclaimerPage'));
-const LocalPredictionPage = React.lazy(() => import('./components/LocalPredictionPage'));
 // Scheduler components removed from public site - admin access via AWS Console only
 
 // Wrapper component to handle navigation and provide router context
 const AppContent: React.FC = () => {
   const navigate = useNavigate();
-  const { isLoading } = useAppContext();
+  const { isLoading, teams, fixtures, getTeamDetails, loadLeagueTable, loadLeagueFixtures } = useAppContext();
   const [selectedLeagueFilter, setSelectedLeagueFilter] = React.useState<'all' | any>('all');
 
+  useInjuryNewsAlerts();
+
   // Initialize ML training service on app startup
   useEffect(() => {
     const initializeMLService = async () => {
@@ -45,43 +51,39 @@ const AppContent: React.FC = () => {
     initializeMLService();
   }, []);
 
+  // Route data loaders read through the app's state
+  useEffect(() => {
+    routeLoader.configure({
+      teamNames: () => [...new Set([
+        ...Object.keys(teams),
+        ...fixtures.flatMap(f => [f.homeTeam, f.awayTeam]),
+        ...Object.keys(getAllKnownTeams())
+      ])],
+      getTeamDetails: teamName => getTeamDetails(teamName),
+      loadLeagueTable,
+      loadLeagueFixtures
+    });
+  }, [teams, fixtures, getTeamDetails, loadLeagueTable, loadLeagueFixtures]);
+
   // Helper functions for navigation
   const selectMatch = (match: any) => {
-    navigate(`/match/${match.id}`, { state: { match } });
+    navigate(href('match', { matchId: match.id }), { state: { match } });
   };
 
   const navigateToFixtures = () => {
-    navigate('/fixtures');
+    navigate(href('fixtures'));
   };
 
   const selectTeam = (teamName: string) => {
-    navigate(`/team/${encodeURIComponent(teamName)}`);
+    navigate(href('team', { team: teamName }));
   };
 
   const selectPrediction = (prediction: any) => {
-    navigate('/prediction', { state: { prediction } });
+    navigate(href('predictionPreview'), { state: { prediction } });
   };
 
   const navigateTo = (view: View) => {
-    switch (view) {
-      case View.Dashboard:
-        navigate('/dashboard');
-        break;
-      case View.Fixtures:
-        navigate('/fixtures');
-        break;
-      case View.MyTeams:
-        navigate('/my-teams');
-        break;
-      case View.News:
-        navigate('/news');
-        break;
-      case View.Accuracy:
-        navigate('/accuracy');
-        break;
-      default:
-        navigate('/dashboard');
-    }
+    navigate(pathForView(view));
   };
 
   if (isLoading) {
@@ -97,13 +99,13 @@ const AppContent: React.FC = () => {
     <Routes>
       {/* Hero Landing Page - Root route */}
       <Route
-        path="/"
+        path={ROUTES.home.path}
         element={<HeroLandingPage />}
       />
 
       {/* Dashboard - Main app route */}
       <Route
-        path="/dashboard"
+        path={ROUTES.dashboard.path}
         element={
           <Dashboard
             onSelectMatch={selectMatch}
@@ -117,7 +119,7 @@ const AppContent: React.FC = () => {
 
       {/* Fixtures */}
       <Route
-        path="/fixtures"
+        path={ROUTES.fixtures.path}
         element={
           <Fixtures
             onSelectMatch={selectMatch}
@@ -130,7 +132,7 @@ const AppContent: React.FC = () => {
 
       {/* League Page - Dynamic route */}
       <Route
-        path="/league/:league"
+        path={ROUTES.league.path}
         element={
           <LeaguePage
             onSelectMatch={selectMatch}
@@ -142,74 +144,63 @@ const AppContent: React.FC = () => {
 
       {/* Match Detail - Dynamic route */}
       <Route
-        path="/match/:matchId"
+        path={ROUTES.match.path}
         element={<MatchDetail onSelectTeam={selectTeam} />}
       />
 
       {/* Team Page - Dynamic route */}
       <Route
-        path="/team/:teamName"
+        path={ROUTES.team.path}
         element={<TeamPage onNavigate={navigateTo} />}
       />
 
       {/* My Teams */}
       <Route
-        path="/my-teams"
+        path={ROUTES.myTeams.path}
         element={<MyTeams onSelectTeam={selectTeam} />}
       />
 
       {/* News */}
       <Route
-        path="/news"
+        path={ROUTES.news.path}
         element={<News />}
       />
 
       {/* Prediction Detail */}
       <Route
-        path="/prediction"
+        path={ROUTES.predictionPreview.path}
         element={<PredictionDetail />}
       />
       <Route
-        path="/prediction/:matchId"
+        path={ROUTES.prediction.path}
         element={<PredictionDetail />}
       />
       <Route
-        path="/predictions"
+        path={ROUTES.predictions.path}
         element={<TodaysPredictions />}
       />
 
       {/* Accuracy Dashboard */}
       <Route
-        path="/accuracy"
+        path={ROUTES.accuracy.path}
         element={<AccuracyDashboard />}
       />
 
-      {/* Gemini Flash Prediction */}
-      <Route
-        path="/predictions"
-        element={<LocalPredictionPage />}
-      />
-
       {/* Redirect old routes */}
-      <Route
-        path="/dual-prediction"
-        element={<Navigate to="/predictions" replace />}
-      />
-      <Route
-        path="/local-prediction"
-        element={<Navigate to="/predictions" replace />}
-      />
+      {Object.entries(REDIRECTS).map(([from, to]) => (
+        <Route key={from} path={from} element={<Navigate to={href(to)} replace />} />
+      ))}
 
       {/* Disclaimer Page */}
       <Route
-        path="/disclaimer"
+        path={ROUTES.disclaimer.path}
         element={<DisclaimerPage />}
       />
 
       {/* EventBridge Scheduler removed from public site - admin access via AWS Console only */}
 
       {/* Catch-all route - redirect to dashboard */}
-      <Route path="*" element={<Navigate to="/dashboard" replace />} />
+      <Route path="*" element={<Navigate to={ROUTES.dashboard.path} replace />} />
     </Routes>
   );
 };
@@ -219,19 +210,19 @@ const App: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   
+  useScrollRestoration();
+
+  // Links from the old hash router (/#fixtures, /#match/123, /#team/arsenal)
+  const legacyPath = location.pathname === ROUTES.home.path ? legacyRedirect(location.hash) : null;
+
   // Check if we're on the hero landing page
-  const isHeroPage = location.pathname === '/';
-
-  const currentView = useMemo(() => {
-    if (location.pathname.startsWith('/fixtures')) return View.Fixtures;
-    if (location.pathname.startsWith('/my-teams')) return View.MyTeams;
-    if (location.pathname.startsWith('/news')) return View.News;
-    if (location.pathname.startsWith('/predictions')) return View.Predictions;
-    if (location.pathname.startsWith('/accuracy')) return View.Accuracy;
-    if (location.pathname.startsWith('/dashboard')) return View.Dashboard;
-    // Scheduler removed from public site
-    return View.Dashboard;
-  }, [location.pathname]);
+  const isHeroPage = location.pathname === ROUTES.home.path;
+
+  const currentView = useMemo(() => viewForPath(location.pathname), [location.pathname]);
+
+  if (legacyPath) {
+    return <Navigate to={legacyPath} replace />;
+  }
 
   // Hero page has its own layout
   if (isHeroPage) {
@@ -246,28 +237,7 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col">
       <EnhancedNavigation
-        onNavigate={(view) => {
-          switch (view) {
-            case View.Dashboard:
-              navigate('/dashboard');
-              break;
-            case View.Fixtures:
-              navigate('/fixtures');
-              break;
-            case View.MyTeams:
-              navigate('/my-teams');
-              break;
-            case View.News:
-              navigate('/news');
-              break;
-            case View.Accuracy:
-              navigate('/accuracy');
-              break;
-            // Scheduler removed from public site
-            default:
-              navigate('/dashboard');
-          }
-        }}
+        onNavigate={(view) => navigate(pathForView(view))}
         currentView={currentView}
       />
       
@@ -5,7 +5,10 @@
 
 import React, { useEffect, useState } from 'react';
 import LoadingSpinner from './LoadingSpinner';
-import { fetchDailyAccuracy, fetchAccuracyTrend } from '../services/accuracyService';
+import { fetchDailyAccuracy, fetchAccuracyTrend, getStoredAccuracyData } from '../services/accuracyService';
+import ReliabilityDiagram from './ReliabilityDiagram';
+import PublicLedgerPanel from './PublicLedgerPanel';
+import { PredictionAccuracy } from '../types';
 
 interface AccuracyDashboardProps {
   className?: string;
@@ -16,6 +19,7 @@ export const AccuracyDashboard: React.FC<AccuracyDashboardProps> = ({ className
   const [error, setError] = useState<string | null>(null);
   const [daily, setDaily] = useState<any | null>(null);
   const [trend, setTrend] = useState<any[]>([]);
+  const [accuracyRecords, setAccuracyRecords] = useState<PredictionAccuracy[]>([]);
 
   const safeAccuracyStats = daily ? {
     totalPredictions: daily.processed || 0,
@@ -44,6 +48,7 @@ export const AccuracyDashboard: React.FC<AccuracyDashboardProps> = ({ className
         if (!cancelled) {
           setDaily(d);
           setTrend(tr);
+          setAccuracyRecords(getStoredAccuracyData());
         }
       } catch (e) {
         if (!cancelled) setError('Failed to load accuracy data');
@@ -279,6 +284,20 @@ export const AccuracyDashboard: React.FC<AccuracyDashboardProps> = ({ className
           )}
         </div>
       </div>
+
+      {/* Calibration */}
+      <div className="mt-8">
+        <h3 className="text-lg font-semibold text-white mb-1">Calibration</h3>
+        <p className="text-xs text-gray-400 mb-4">Does a 70% forecast come true 70% of the time? Points on the dashed line are perfectly calibrated.</p>
+        <ReliabilityDiagram records={accuracyRecords} />
+      </div>
+
+      {/* Public ledger */}
+      <div className="mt-8">
+        <h3 className="text-lg font-semibold text-white mb-1">Public Ledger</h3>
+        <p className="text-xs text-gray-400 mb-4">Every prediction is committed to a daily Merkle root chained to the day before. Verify checks a result's prediction against it, unedited and recorded before kickoff.</p>
+        <PublicLedgerPanel records={accuracyRecords} />
+      </div>
     </div>
   );
 };
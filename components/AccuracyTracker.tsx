@@ -1,5 +1,6 @@
 import React from 'react';
-import { AccuracyStats } from '../types';
+import { AccuracyStats, AccuracyMarket } from '../types';
+import { getSettledCount, getAccuracyPercentage } from '../services/accuracyService';
 import PlaceholderChart from './PlaceholderChart';
 
 interface AccuracyTrackerProps {
@@ -7,6 +8,19 @@ interface AccuracyTrackerProps {
   className?: string;
 }
 
+// Hit rates use settled predictions only; void markets are shown separately
+const MARKET_ROWS: { market: AccuracyMarket; label: string; correct: (stats: AccuracyStats) => number }[] = [
+  { market: 'outcome', label: 'Outcomes', correct: s => s.correctOutcomes },
+  { market: 'scoreline', label: 'Scorelines', correct: s => s.correctScorelines },
+  { market: 'btts', label: 'BTTS', correct: s => s.correctBtts },
+  { market: 'goalLine', label: 'Goal Line', correct: s => s.correctGoalLine },
+  { market: 'scoreRange', label: 'Score Range', correct: s => s.correctScoreRange },
+  { market: 'cleanSheet', label: 'Clean Sheets', correct: s => s.correctCleanSheet },
+  { market: 'htft', label: 'HT/FT', correct: s => s.correctHtft },
+  { market: 'firstGoalscorer', label: 'First to Score', correct: s => s.correctFirstGoalscorer },
+  { market: 'corners', label: 'Corners', correct: s => s.correctCorners }
+];
+
 const AccuracyTracker: React.FC<AccuracyTrackerProps> = ({ stats, className = '' }) => {
   if (stats.totalPredictions === 0) {
     return (
@@ -75,47 +89,23 @@ const AccuracyTracker: React.FC<AccuracyTrackerProps> = ({ stats, className = ''
         <h4 className="text-sm font-semibold text-gray-300 mb-2">Prediction Types</h4>
         
         <div className="grid grid-cols-2 gap-2 text-xs">
-          <div className="flex justify-between">
-            <span className="text-gray-400">Outcomes:</span>
-            <span className={getAccuracyColor(getAccuracyPercentage(stats.correctOutcomes, stats.totalPredictions))}>
-              {getAccuracyPercentage(stats.correctOutcomes, stats.totalPredictions)}%
-            </span>
-          </div>
-          
-          <div className="flex justify-between">
-            <span className="text-gray-400">Scorelines:</span>
-            <span className={getAccuracyColor(getAccuracyPercentage(stats.correctScorelines, stats.totalPredictions))}>
-              {getAccuracyPercentage(stats.correctScorelines, stats.totalPredictions)}%
-            </span>
-          </div>
-          
-          <div className="flex justify-between">
-            <span className="text-gray-400">BTTS:</span>
-            <span className={getAccuracyColor(getAccuracyPercentage(stats.correctBtts, stats.totalPredictions))}>
-              {getAccuracyPercentage(stats.correctBtts, stats.totalPredictions)}%
-            </span>
-          </div>
-          
-          <div className="flex justify-between">
-            <span className="text-gray-400">Goal Line:</span>
-            <span className={getAccuracyColor(getAccuracyPercentage(stats.correctGoalLine, stats.totalPredictions))}>
-              {getAccuracyPercentage(stats.correctGoalLine, stats.totalPredictions)}%
-            </span>
-          </div>
-          
-          <div className="flex justify-between">
-            <span className="text-gray-400">Score Range:</span>
-            <span className={getAccuracyColor(getAccuracyPercentage(stats.correctScoreRange, stats.totalPredictions))}>
-              {getAccuracyPercentage(stats.correctScoreRange, stats.totalPredictions)}%
-            </span>
-          </div>
-          
-          <div className="flex justify-between">
-            <span className="text-gray-400">Clean Sheets:</span>
-            <span className={getAccuracyColor(getAccuracyPercentage(stats.correctCleanSheet, stats.totalPredictions))}>
-              {getAccuracyPercentage(stats.correctCleanSheet, stats.totalPredictions)}%
-            </span>
-          </div>
+          {MARKET_ROWS.map(({ market, label, correct }) => {
+            const settled = getSettledCount(stats, market);
+            const voided = stats.totalPredictions - settled;
+            const percentage = getAccuracyPercentage(correct(stats), settled);
+            return (
+              <div key={market} className="flex justify-between" title={voided > 0 ? `${voided} void (no settlement data)` : undefined}>
+                <span className="text-gray-400">{label}:</span>
+                {settled > 0 ? (
+                  <span className={getAccuracyColor(percentage)}>
+                    {percentage}%{voided > 0 && <span className="text-gray-500"> ({settled})</span>}
+                  </span>
+                ) : (
+                  <span className="text-gray-500">void</span>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
 
@@ -147,8 +137,4 @@ const AccuracyTracker: React.FC<AccuracyTrackerProps> = ({ stats, className = ''
   );
 };
 
-const getAccuracyPercentage = (correct: number, total: number): number => {
-  return total > 0 ? Math.round((correct / total) * 100) : 0;
-};
-
 export default AccuracyTracker;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { teamMetadataService } from '../services/teamMetadataService';
 
 interface AdminControlPanelProps {
   isAuthenticated: boolean;
@@ -189,6 +190,60 @@ export const AdminControlPanel: React.FC<AdminControlPanelProps> = ({
             </div>
           </div>
         </div>
+
+        <TeamMetadataOverrides />
+      </div>
+    </div>
+  );
+};
+
+// Admin overrides for the team metadata store (prestige, derbies, ratings, aliases)
+const TeamMetadataOverrides: React.FC = () => {
+  const format = () => JSON.stringify(teamMetadataService.getOverrides(), null, 2);
+  const [draft, setDraft] = useState(format);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const save = () => {
+    try {
+      teamMetadataService.setOverrides(JSON.parse(draft || '{}'));
+      setDraft(format());
+      setMessage({ type: 'success', text: 'Overrides saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Invalid JSON' });
+    }
+  };
+
+  const reset = () => {
+    teamMetadataService.resetOverrides();
+    setDraft(format());
+    setMessage({ type: 'success', text: 'Overrides cleared' });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Team Metadata Overrides</h2>
+      <p className="text-gray-600 text-sm mb-4">
+        Merged over data/team-metadata.json. Teams are keyed by API-Football id, e.g.
+        {' '}<code className="bg-gray-100 px-1 rounded">{'{"teams": {"42": {"prestige": 95}}, "derbies": [{"teams": [42, 47], "intensity": 90}]}'}</code>
+      </p>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={10}
+        spellCheck={false}
+        aria-label="Team metadata overrides JSON"
+        className="w-full font-mono text-sm px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+      />
+      <div className="flex items-center space-x-3 mt-3">
+        <button onClick={save} className="bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 text-sm">
+          Save Overrides
+        </button>
+        <button onClick={reset} className="bg-gray-200 text-gray-800 py-2 px-4 rounded-md hover:bg-gray-300 text-sm">
+          Reset to Defaults
+        </button>
+        {message && (
+          <span className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</span>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { getApiUsage } from '../services/footballApiService';
+import { getApiUsage, getApiQuotaPlan, getApiCacheStats } from '../services/footballApiService';
+import type { QuotaPlan } from '../services/apiQuotaPlanner';
 import { getGeminiApiUsage } from '../services/geminiService';
 
 interface ApiUsageStats {
@@ -28,6 +29,8 @@ const ApiUsageTracker: React.FC<Props> = ({ className = '', compact = false }) =
     football: { callsUsed: 0, callsRemaining: 0, percentageUsed: 0, dailyLimit: 0, isConfigured: false },
     gemini: { totalCalls: 0, callsToday: 0, lastResetDate: '', isConfigured: false }
   });
+  const [plan, setPlan] = useState<QuotaPlan | null>(null);
+  const [cacheStats, setCacheStats] = useState<ReturnType<typeof getApiCacheStats> | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
 
   const refreshUsage = () => {
@@ -39,6 +42,8 @@ const ApiUsageTracker: React.FC<Props> = ({ className = '', compact = false }) =
         football: footballUsage,
         gemini: geminiUsage
       });
+      setPlan(getApiQuotaPlan());
+      setCacheStats(getApiCacheStats());
       setLastUpdated(new Date());
     } catch (error) {
       console.warn('Failed to fetch API usage:', error);
@@ -64,6 +69,11 @@ const ApiUsageTracker: React.FC<Props> = ({ className = '', compact = false }) =
     return 'bg-red-500';
   };
 
+  const percentOfLimit = (calls: number) => (plan && plan.dailyLimit > 0 ? (calls / plan.dailyLimit) * 100 : 0);
+  const cacheHitRate = cacheStats && (cacheStats.fresh + cacheStats.stale + cacheStats.coalesced + cacheStats.misses) > 0
+    ? Math.round(((cacheStats.fresh + cacheStats.stale + cacheStats.coalesced) / (cacheStats.fresh + cacheStats.stale + cacheStats.coalesced + cacheStats.misses)) * 100)
+    : null;
+
   if (compact) {
     return (
       <div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
@@ -91,6 +101,12 @@ const ApiUsageTracker: React.FC<Props> = ({ className = '', compact = false }) =
               </span>
             </div>
           </div>
+          {plan && plan.reserved.total > 0 && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-400">Reserved for kickoffs</span>
+              <span className="text-sm font-bold text-purple-400">{plan.reserved.total.toLocaleString()}</span>
+            </div>
+          )}
           
           {/* Gemini API */}
           <div className="flex items-center justify-between">
@@ -222,6 +238,61 @@ const ApiUsageTracker: React.FC<Props> = ({ className = '', compact = false }) =
         </div>
       </div>
 
+      {/* Today's quota plan vs. actual usage */}
+      {plan && usage.football.isConfigured && (
+        <div className="mt-6 bg-gray-800 rounded-lg p-5">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-white">Today's Football API Plan</h3>
+            <span className="text-xs text-gray-400">
+              {plan.fixturesTracked} fixtures tracked
+              {plan.nextKickoff && ` • next kickoff ${new Date(plan.nextKickoff).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`}
+            </span>
+          </div>
+
+          <div className="relative w-full bg-gray-700 rounded-full h-3 overflow-hidden flex">
+            <div className="h-3 bg-red-500" style={{ width: `${percentOfLimit(plan.usedByPriority.critical + plan.usedByPriority.high)}%` }} title="Used: live, lineups, match data" />
+            <div className="h-3 bg-blue-500" style={{ width: `${percentOfLimit(plan.usedByPriority.normal + plan.usedByPriority.background)}%` }} title="Used: fixtures, tables, teams" />
+            <div className="h-3 bg-purple-500/60" style={{ width: `${percentOfLimit(plan.reserved.total)}%` }} title="Reserved for upcoming kickoffs" />
+            <div className="absolute top-0 h-3 w-0.5 bg-yellow-300" style={{ left: `${percentOfLimit(plan.softLimit)}%` }} title="Soft limit" />
+          </div>
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+            <span><span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-1" />Match-critical used</span>
+            <span><span className="inline-block w-2 h-2 rounded-full bg-blue-500 mr-1" />Background used</span>
+            <span><span className="inline-block w-2 h-2 rounded-full bg-purple-500 mr-1" />Reserved</span>
+            <span><span className="inline-block w-2 h-2 rounded-full bg-yellow-300 mr-1" />Soft limit ({plan.softLimit.toLocaleString()})</span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+            <div>
+              <span className="text-gray-400 block">Live polling</span>
+              <span className="text-white font-bold">{(plan.usedByCategory.live || 0).toLocaleString()}</span>
+              <span className="text-gray-500"> used / {plan.reserved.live.toLocaleString()} planned</span>
+            </div>
+            <div>
+              <span className="text-gray-400 block">Lineups</span>
+              <span className="text-white font-bold">{(plan.usedByCategory.lineups || 0).toLocaleString()}</span>
+              <span className="text-gray-500"> used / {plan.reserved.lineups.toLocaleString()} planned</span>
+            </div>
+            <div>
+              <span className="text-gray-400 block">Post-match</span>
+              <span className="text-white font-bold">{((plan.usedByCategory.events || 0) + (plan.usedByCategory.statistics || 0)).toLocaleString()}</span>
+              <span className="text-gray-500"> used / {plan.reserved.postMatch.toLocaleString()} planned</span>
+            </div>
+            <div>
+              <span className="text-gray-400 block">Free for background</span>
+              <span className="text-white font-bold">{plan.availableForNormal.toLocaleString()}</span>
+            </div>
+          </div>
+
+          {cacheStats && (
+            <div className="border-t border-gray-600 mt-4 pt-3 text-xs text-gray-400">
+              Cache: {cacheHitRate !== null ? `${cacheHitRate}% hit rate` : 'no requests yet'}
+              {' • '}{cacheStats.stale} served stale • {cacheStats.coalesced} coalesced • {cacheStats.entries} entries
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Status Summary */}
       <div className="mt-6 p-4 bg-gray-800 rounded-lg">
         <h4 className="font-bold text-white mb-2">System Status</h4>
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { cloudPredictionService } from '../services/cloudPredictionService';
+import { getDailyPredictions } from '../services/accuracyService';
+import { clientStore } from '../services/clientStore';
 
 interface CloudIntegrityPanelProps {
   className?: string;
@@ -7,7 +9,7 @@ interface CloudIntegrityPanelProps {
 
 const CloudIntegrityPanel: React.FC<CloudIntegrityPanelProps> = ({ className = '' }) => {
   const [cloudStatus, setCloudStatus] = useState<'checking' | 'connected' | 'disconnected'>('checking');
-  const [localStats, setLocalStats] = useState({ predictions: 0, verified: 0 });
+  const [localStats, setLocalStats] = useState({ predictions: 0, verified: 0, ledgered: 0 });
   const [cloudStats, setCloudStats] = useState({ predictions: 0, verified: 0 });
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncResults, setSyncResults] = useState<{ synced: number; failed: number } | null>(null);
@@ -15,6 +17,8 @@ const CloudIntegrityPanel: React.FC<CloudIntegrityPanelProps> = ({ className = '
   useEffect(() => {
     checkCloudStatus();
     loadLocalStats();
+    // Daily predictions may still be loading from IndexedDB on first render
+    clientStore.ready().then(loadLocalStats);
   }, []);
 
   const checkCloudStatus = async () => {
@@ -36,16 +40,18 @@ const CloudIntegrityPanel: React.FC<CloudIntegrityPanelProps> = ({ className = '
 
   const loadLocalStats = () => {
     try {
-      const dailyPredictions = JSON.parse(localStorage.getItem('fixturecast_daily_predictions') || '{}');
+      const dailyPredictions = getDailyPredictions();
       let totalPredictions = 0;
       let totalVerified = 0;
+      let totalLedgered = 0;
 
       Object.values(dailyPredictions).forEach((predictions: any) => {
         totalPredictions += (predictions as any[]).length;
         totalVerified += (predictions as any[]).filter((p: any) => p.verified).length;
+        totalLedgered += (predictions as any[]).filter((p: any) => p.ledgerLeafHash).length;
       });
 
-      setLocalStats({ predictions: totalPredictions, verified: totalVerified });
+      setLocalStats({ predictions: totalPredictions, verified: totalVerified, ledgered: totalLedgered });
     } catch (error) {
       console.warn('Failed to load local stats:', error);
     }
@@ -136,7 +142,7 @@ const CloudIntegrityPanel: React.FC<CloudIntegrityPanelProps> = ({ className = '
               <span className="text-blue-400 font-medium">
                 {(() => {
                   try {
-                    const dailyData = JSON.parse(localStorage.getItem('fixturecast_daily_predictions') || '{}');
+                    const dailyData = getDailyPredictions();
                     let cloudBacked = 0;
                     Object.values(dailyData).forEach((predictions: any) => {
                       cloudBacked += (predictions as any[]).filter((p: any) => p.cloudStored).length;
@@ -149,6 +155,10 @@ const CloudIntegrityPanel: React.FC<CloudIntegrityPanelProps> = ({ className = '
                 })()}
               </span>
             </div>
+            <div className="flex justify-between" title="Committed to the public ledger; verify settled ones on the Accuracy dashboard">
+              <span className="text-gray-300">In Public Ledger:</span>
+              <span className="text-purple-400 font-medium">{localStats.ledgered}</span>
+            </div>
           </div>
         </div>
 
@@ -239,7 +249,7 @@ const CloudIntegrityPanel: React.FC<CloudIntegrityPanelProps> = ({ className = '
           </div>
           <div className="flex items-start space-x-2">
             <span className="text-green-400 mt-0.5">✓</span>
-            <span className="text-gray-300">Complete audit trail</span>
+            <span className="text-gray-300">Complete audit trail in a public Merkle-chained ledger</span>
           </div>
           <div className="flex items-start space-x-2">
             <span className="text-green-400 mt-0.5">✓</span>
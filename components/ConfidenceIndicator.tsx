@@ -1,16 +1,15 @@
 import React, { useState } from 'react';
-import { Prediction, AccuracyStats } from '../types';
+import { Prediction, PredictionAccuracy } from '../types';
 import { calculatePredictionConfidence, getConfidenceColor, getConfidenceBgColor, formatConfidenceDisplay } from '../services/confidenceService';
+import { ConfidenceMarket, ConfidenceModel } from '../services/confidenceModel';
 
 interface ConfidenceIndicatorProps {
   prediction: Prediction;
-  accuracyStats: AccuracyStats;
+  // Settled history, or a model already fitted from it
+  history: PredictionAccuracy[] | ConfidenceModel;
   matchContext?: {
-    league: string;
-    isRivalry?: boolean;
-    isPrimeTime?: boolean;
-    hasRecentForm?: boolean;
-    hasHeadToHead?: boolean;
+    league?: string;
+    market?: ConfidenceMarket;
   };
   size?: 'small' | 'medium' | 'large';
   showPercentage?: boolean;
@@ -20,7 +19,7 @@ interface ConfidenceIndicatorProps {
 
 const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({
   prediction,
-  accuracyStats,
+  history,
   matchContext,
   size = 'medium',
   showPercentage = true,
@@ -29,8 +28,8 @@ const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({
 }) => {
   const [showTooltipState, setShowTooltipState] = useState(false);
   
-  const confidenceAnalysis = calculatePredictionConfidence(prediction, accuracyStats, matchContext);
-  const { percentage, level, color, reason } = confidenceAnalysis;
+  const confidenceAnalysis = calculatePredictionConfidence(prediction, history, matchContext);
+  const { percentage, reason, interval, sampleSize } = confidenceAnalysis;
   
   const sizeClasses = {
     small: 'text-xs px-2 py-1',
@@ -88,7 +87,7 @@ const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({
               {reason}
             </div>
             <div className="mt-2 pt-2 border-t border-gray-700 text-xs text-gray-400">
-              Confidence based on historical prediction accuracy
+              Likely {interval.lower}-{interval.upper}% from {sampleSize} similar settled picks
             </div>
             {/* Tooltip arrow */}
             <div className="absolute top-full left-1/2 transform -translate-x-1/2">
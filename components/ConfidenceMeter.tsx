@@ -1,21 +1,65 @@
 
 import React from 'react';
 import { ConfidenceLevel } from '../types';
+import { getConfidenceBgColor } from '../services/confidenceService';
 
 interface ConfidenceMeterProps {
   level: ConfidenceLevel;
+  // Expected hit rate and its likely range (0-100); without them only the level is shown
+  percentage?: number;
+  interval?: { lower: number; upper: number };
+  sampleSize?: number;
 }
 
-const ConfidenceMeter: React.FC<ConfidenceMeterProps> = ({ level }) => {
+const ConfidenceMeter: React.FC<ConfidenceMeterProps> = ({ level, percentage, interval, sampleSize }) => {
   const levels = [ConfidenceLevel.Low, ConfidenceLevel.Medium, ConfidenceLevel.High];
   const levelIndex = levels.indexOf(level);
-  
+
   const levelColors: { [key in ConfidenceLevel]: string } = {
     [ConfidenceLevel.Low]: 'bg-red-500',
     [ConfidenceLevel.Medium]: 'bg-yellow-500',
     [ConfidenceLevel.High]: 'bg-green-500',
   };
 
+  if (percentage !== undefined && interval) {
+    const lower = Math.max(0, Math.min(100, interval.lower));
+    const upper = Math.max(lower, Math.min(100, interval.upper));
+    const point = Math.max(lower, Math.min(upper, percentage));
+
+    return (
+      <div>
+        <div className="flex justify-between items-baseline mb-2">
+          <span className="text-2xl font-bold text-white">{Math.round(point)}%</span>
+          <span className="text-xs text-gray-400">likely {lower}-{upper}%</span>
+        </div>
+        <div
+          className="relative h-2.5 w-full bg-gray-600 rounded-full"
+          role="meter"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(point)}
+          aria-valuetext={`${Math.round(point)}%, likely between ${lower}% and ${upper}%`}
+        >
+          <div
+            className={`absolute h-full rounded-full opacity-60 ${getConfidenceBgColor(point)}`}
+            style={{ left: `${lower}%`, width: `${upper - lower}%` }} // eslint-disable-line react/forbid-dom-props
+          ></div>
+          <div
+            className="absolute -top-1 h-4 w-1 bg-white rounded"
+            style={{ left: `calc(${point}% - 2px)` }} // eslint-disable-line react/forbid-dom-props
+          ></div>
+        </div>
+        <div className="flex justify-between text-xs mt-2 text-gray-500">
+          <span>0%</span>
+          {sampleSize !== undefined && (
+            <span>{sampleSize} similar settled {sampleSize === 1 ? 'pick' : 'picks'}</span>
+          )}
+          <span>100%</span>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div>
         <div className="flex justify-between items-center w-full">
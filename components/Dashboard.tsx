@@ -16,6 +16,7 @@ import FormTrendsOverview from './FormTrendsOverview';
 // PerformanceDashboard removed from public view - admin monitoring only
 import LoadingSpinner from './LoadingSpinner';
 import AutomatedSystemStatus from './AutomatedSystemStatus';
+import { href } from '../services/routeTable';
 
 interface DashboardProps {
   onSelectMatch: (match: Match) => void;
@@ -333,7 +334,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onSelectMatch, onSelectTeam, navi
               <div className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm font-semibold">New</div>
             </div>
             <button
-              onClick={() => navigate('/accuracy')}
+              onClick={() => navigate(href('accuracy'))}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors duration-200 font-medium text-sm"
             >
               View Accuracy Dashboard
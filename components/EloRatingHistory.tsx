@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { eloRatingService } from '../services/eloRatingService';
+
+interface EloRatingHistoryProps {
+  teamName: string;
+  league?: string;
+  limit?: number;
+  className?: string;
+}
+
+const EloRatingHistory: React.FC<EloRatingHistoryProps> = ({
+  teamName,
+  league,
+  limit = 20,
+  className = ''
+}) => {
+  const history = useMemo(() => eloRatingService.getRatingHistory(teamName, limit), [teamName, limit]);
+  const currentRating = Math.round(eloRatingService.getRating(teamName, league));
+
+  const chart = useMemo(() => {
+    if (history.length < 2) return null;
+    const width = 300;
+    const height = 80;
+    const ratings = history.map(h => h.rating);
+    const min = Math.min(...ratings);
+    const max = Math.max(...ratings);
+    const range = Math.max(1, max - min);
+    const points = ratings.map((r, i) => {
+      const x = (i / (ratings.length - 1)) * width;
+      const y = height - ((r - min) / range) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    return { width, height, points: points.join(' '), min: Math.round(min), max: Math.round(max) };
+  }, [history]);
+
+  return (
+    <div className={`bg-gray-800 rounded-xl p-6 border border-gray-700 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-white">Elo Rating</h3>
+        <div className="text-2xl font-bold text-blue-400">{currentRating}</div>
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-gray-400 text-sm">
+          No finished matches recorded yet - showing the league starting rating.
+        </p>
+      ) : (
+        <>
+          {chart && (
+            <div className="mb-4">
+              <svg
+                viewBox={`0 0 ${chart.width} ${chart.height}`}
+                className="w-full h-20"
+                preserveAspectRatio="none"
+                role="img"
+                aria-label={`Elo rating history for ${teamName}`}
+              >
+                <polyline
+                  points={chart.points}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={2}
+                  className="text-blue-400"
+                />
+              </svg>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Low {chart.min}</span>
+                <span>High {chart.max}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {history.slice().reverse().slice(0, 5).map(point => (
+              <div key={point.matchId} className="flex items-center justify-between p-2 bg-gray-700/50 rounded-lg text-sm">
+                <div className="text-gray-300">
+                  {point.home ? 'vs' : '@'} {point.opponent}
+                  <span className="text-gray-500 ml-2">{point.score}</span>
+                </div>
+                <div className={point.change >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  {point.change >= 0 ? '+' : ''}{point.change.toFixed(1)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EloRatingHistory;
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { AccuracyStats } from '../types';
-import { getLiveAccuracyStats, getTodaysPredictions } from '../services/accuracyService';
+import { getLiveAccuracyStats, getTodaysPredictions, getDailyPredictions, getStoredAccuracyData } from '../services/accuracyService';
+import { clientStore } from '../services/clientStore';
 import { autoPredictionService } from '../services/autoPredictionService';
 import { getTeamData } from '../services/teamDataService';
 import PlaceholderChart from './PlaceholderChart';
@@ -18,6 +19,7 @@ const EnhancedAccuracyTracker: React.FC<EnhancedAccuracyTrackerProps> = ({ class
 
   useEffect(() => {
     loadData();
+    clientStore.ready().then(loadData);
     
     // Refresh data every 30 seconds
     const interval = setInterval(loadData, 30000);
@@ -46,7 +48,7 @@ const EnhancedAccuracyTracker: React.FC<EnhancedAccuracyTrackerProps> = ({ class
         todaysData,
         todaysDataLength: todaysData.length,
         currentDate: new Date().toISOString().split('T')[0],
-        allDailyData: JSON.parse(localStorage.getItem('fixturecast_daily_predictions') || '{}')
+        allDailyData: getDailyPredictions()
       });
     }
     
@@ -70,9 +72,9 @@ const EnhancedAccuracyTracker: React.FC<EnhancedAccuracyTrackerProps> = ({ class
   const handleDebugStorage = () => {
     console.log('🔍 Storage Debug:');
     console.log('📅 Current date:', new Date().toISOString().split('T')[0]);
-    console.log('📊 Daily predictions:', localStorage.getItem('fixturecast_daily_predictions'));
-    console.log('🎯 Accuracy data:', localStorage.getItem('fixturecast_accuracy_data'));
-    console.log('📈 Parsed daily predictions:', JSON.parse(localStorage.getItem('fixturecast_daily_predictions') || '{}'));
+    console.log('🗄️ Client store backend:', clientStore.activeBackend);
+    console.log('📊 Daily predictions:', getDailyPredictions());
+    console.log('🎯 Accuracy data:', getStoredAccuracyData());
     
     const todaysData = getTodaysPredictions();
     console.log('📋 Today\'s predictions from function:', todaysData);
@@ -80,11 +82,12 @@ const EnhancedAccuracyTracker: React.FC<EnhancedAccuracyTrackerProps> = ({ class
     alert('🔍 Storage debug complete! Check the browser console (F12) to see all stored data.');
   };
 
-  const handleClearPredictions = () => {
+  const handleClearPredictions = async () => {
     if (!confirm('⚠️ This will clear all stored predictions and refresh the app. Continue?')) return;
     try {
-      localStorage.removeItem('fixturecast_daily_predictions');
-      localStorage.removeItem('fixturecast_last_prediction_refresh');
+      clientStore.reset('dailyPredictions');
+      clientStore.reset('lastPredictionRefresh');
+      await clientStore.flush();
       console.log('🗑️ Cleared old predictions from storage');
       // Immediate hard refresh to ensure clean state
       window.location.reload();
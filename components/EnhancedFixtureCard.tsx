@@ -7,6 +7,8 @@ import TeamLogo from './TeamLogo';
 import LeagueLogo from './LeagueLogo';
 import MatchStatusIndicator from './MatchStatusIndicator';
 import { useAppContext } from '../contexts/AppContext';
+import { href } from '../services/routeTable';
+import { prefetchHandlers } from './RouteLink';
 
 interface EnhancedFixtureCardProps {
   match: Match;
@@ -80,7 +82,7 @@ const EnhancedFixtureCard: React.FC<EnhancedFixtureCardProps> = ({
   const handlePredictionClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     // Navigate to prediction page with matchId parameter
-    navigate(`/prediction/${match.id}`, { state: { prediction, match } });
+    navigate(href('prediction', { matchId: match.id }), { state: { prediction, match } });
   };
 
   // Get team form display
@@ -115,6 +117,7 @@ const EnhancedFixtureCard: React.FC<EnhancedFixtureCardProps> = ({
         isExpanded ? 'ring-2 ring-blue-500/50' : ''
       }`}
       onClick={handleCardClick}
+      {...prefetchHandlers(href('match', { matchId: match.id }))}
     >
       {/* Match Header */}
       <div className="flex items-center justify-between mb-3">
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { LiveMatch } from '../types';
 import EnhancedLiveMatch from './EnhancedLiveMatch';
 import { getLiveMatches } from '../services/liveMatchService';
+import { realTimeService } from '../services/realTimeService';
 import LoadingSpinner from './LoadingSpinner';
 
 interface EnhancedLiveMatchesListProps {
@@ -39,13 +40,18 @@ const EnhancedLiveMatchesList: React.FC<EnhancedLiveMatchesListProps> = ({
   };
 
   useEffect(() => {
-    fetchLiveMatches();
-    
-    if (autoRefresh) {
-      // Set up polling for live updates every 30 seconds
-      const interval = setInterval(fetchLiveMatches, 30000);
-      return () => clearInterval(interval);
+    if (!autoRefresh) {
+      fetchLiveMatches();
+      return;
     }
+
+    // Server-sent live feed: one shared API poller instead of one per client
+    return realTimeService.subscribeToFeed(matches => {
+      setError(null);
+      setLiveMatches(matches.slice(0, maxMatches));
+      setLastUpdated(new Date());
+      setLoading(false);
+    });
   }, [maxMatches, autoRefresh]);
 
   if (loading) {
@@ -204,7 +210,7 @@ const EnhancedLiveMatchesList: React.FC<EnhancedLiveMatchesListProps> = ({
             <div className="mb-6 p-3 bg-blue-600/10 border border-blue-500/30 rounded-lg">
               <div className="flex items-center justify-center space-x-2 text-sm text-blue-400">
                 <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
-                <span>Live updates every 30 seconds • Real-time scores and events</span>
+                <span>Live updates pushed as they happen • Real-time scores and events</span>
               </div>
             </div>
           )}
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { View } from '../types';
 import { useAppContext } from '../contexts/AppContext';
+import { SearchResult } from '../services/searchService';
+import SearchResults from './SearchResults';
 
 interface EnhancedNavigationProps {
   onNavigate: (view: View) => void;
@@ -22,8 +25,11 @@ const EnhancedNavigation: React.FC<EnhancedNavigationProps> = ({
   currentView,
   className = ''
 }) => {
+  const navigate = useNavigate();
   const { unreadAlertsCount, markAlertsAsRead, refreshRealTimeData } = useAppContext();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
 
 
 
@@ -94,6 +100,20 @@ const EnhancedNavigation: React.FC<EnhancedNavigationProps> = ({
     onNavigate(view);
   }, [onNavigate, markAlertsAsRead]);
 
+  const openSearch = useCallback(() => {
+    setIsMobileMenuOpen(false);
+    setIsSearchOpen(true);
+  }, []);
+
+  const closeSearch = useCallback(() => {
+    setIsSearchOpen(false);
+    setSearchQuery('');
+  }, []);
+
+  const handleSearchResult = useCallback((result: SearchResult) => {
+    navigate(result.url);
+  }, [navigate]);
+
 
 
   // Handle keyboard shortcuts
@@ -118,18 +138,25 @@ const EnhancedNavigation: React.FC<EnhancedNavigationProps> = ({
             handleNavigation(View.MyTeams);
             break;
 
+          case 'k':
+            event.preventDefault();
+            openSearch();
+            break;
+
           case 'r':
             event.preventDefault();
             refreshRealTimeData();
             break;
 
         }
+      } else if (event.key === 'Escape') {
+        closeSearch();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleNavigation, refreshRealTimeData]);
+  }, [handleNavigation, refreshRealTimeData, openSearch, closeSearch]);
 
   return (
     <header className={`bg-gray-800/90 backdrop-blur-md shadow-xl sticky top-0 z-50 border-b border-gray-700/50 ${className}`}>
@@ -192,8 +219,17 @@ const EnhancedNavigation: React.FC<EnhancedNavigationProps> = ({
 
           {/* Enhanced Action Buttons */}
           <div className="hidden lg:flex items-center space-x-3">
-
-
+            {/* Search */}
+            <button
+              onClick={openSearch}
+              className="p-2 text-gray-300 hover:text-white transition-colors duration-200 rounded-lg hover:bg-gray-700/50"
+              title="Search (Ctrl+K)"
+              data-testid="nav-search-button"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+            </button>
 
             {/* Alerts Bell */}
             <div className="relative">
@@ -216,6 +252,15 @@ const EnhancedNavigation: React.FC<EnhancedNavigationProps> = ({
 
           {/* Mobile Menu Button */}
           <div className="lg:hidden flex items-center space-x-2">
+            <button
+              onClick={openSearch}
+              className="p-2 text-gray-300 hover:text-white transition-colors duration-200"
+              aria-label="Search"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+            </button>
             <button
               onClick={() => handleNavigation(View.MyTeams)}
               className="relative p-2 text-gray-300 hover:text-white transition-colors duration-200"
@@ -314,9 +359,23 @@ const EnhancedNavigation: React.FC<EnhancedNavigationProps> = ({
         )}
       </div>
 
-
-
-
+      {/* Global Search */}
+      {isSearchOpen && (
+        <div className="fixed inset-0 z-50 bg-black/60 flex items-start justify-center pt-20 px-4" onClick={closeSearch}>
+          <div className="w-full max-w-xl" onClick={(event) => event.stopPropagation()} data-testid="global-search-modal">
+            <input
+              autoFocus
+              type="search"
+              value={searchQuery}
+              onChange={(event) => setSearchQuery(event.target.value)}
+              placeholder="Search for teams, leagues or matches"
+              aria-label="Search"
+              className="w-full px-4 py-3 mb-2 rounded-lg bg-gray-800 text-white placeholder-gray-400 border border-gray-600 focus:outline-none focus:border-blue-500"
+            />
+            <SearchResults query={searchQuery} onResultClick={handleSearchResult} onClose={closeSearch} />
+          </div>
+        </div>
+      )}
     </header>
   );
 };
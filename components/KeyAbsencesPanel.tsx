@@ -0,0 +1,49 @@
+import React from 'react';
+import { KeyAbsence } from '../types';
+
+interface KeyAbsencesPanelProps {
+  absences?: KeyAbsence[];
+  homeTeam: string;
+  awayTeam: string;
+  className?: string;
+}
+
+const importanceClasses: Record<KeyAbsence['importance'], string> = {
+  critical: 'text-red-300 bg-red-600/20 border-red-500/30',
+  important: 'text-yellow-300 bg-yellow-600/20 border-yellow-500/30',
+  moderate: 'text-gray-300 bg-gray-600/20 border-gray-500/30'
+};
+
+const KeyAbsencesPanel: React.FC<KeyAbsencesPanelProps> = ({ absences, homeTeam, awayTeam, className = '' }) => {
+  if (!absences || absences.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h3 className="text-lg font-semibold text-blue-400 mb-3">🚑 Costliest Absences</h3>
+      <ul className="space-y-2">
+        {absences.slice(0, 3).map(absence => (
+          <li
+            key={`${absence.team}-${absence.player}`}
+            className="flex items-center justify-between gap-3 bg-gray-700/40 border border-gray-600/40 rounded-lg px-3 py-2"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-white truncate">
+                {absence.player}
+                <span className="text-gray-400 font-normal"> · {absence.team === 'home' ? homeTeam : awayTeam}</span>
+              </div>
+              <div className="text-xs text-gray-400 truncate">
+                {absence.position} · {absence.reason}
+                {absence.replacement && <> · likely replaced by {absence.replacement}</>}
+              </div>
+            </div>
+            <span className={`shrink-0 text-xs px-2 py-0.5 rounded border capitalize ${importanceClasses[absence.importance]}`}>
+              {absence.importance}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default KeyAbsencesPanel;
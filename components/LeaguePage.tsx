@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { useParams, useNavigate, Navigate } from 'react-router-dom';
 import { Match, League } from '../types';
 import { useAppContext } from '../contexts/AppContext';
@@ -6,7 +6,12 @@ import LeagueLogo from './LeagueLogo';
 import EnhancedFixtureCard from './EnhancedFixtureCard';
 import MatchStatusIndicator from './MatchStatusIndicator';
 import LoadingSpinner from './LoadingSpinner';
+import SeasonProjection from './SeasonProjection';
 import { colorSystemService } from '../services/colorSystemService';
+import { buildLiveTable } from '../services/leagueTableEngine';
+import { href, leagueFromSlug } from '../services/routeTable';
+import { LeagueRouteData } from '../services/routeLoaders';
+import { useRouteData } from '../hooks/useRouteData';
 
 interface LeaguePageProps {
   onSelectMatch: (match: Match) => void;
@@ -24,62 +29,20 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
   const {
     fixtures,
     leagueTables,
-    loadLeagueFixtures,
-    loadLeagueTable,
+    liveMatchUpdates,
     getPrediction,
     isLoading,
     addToast
   } = useAppContext();
 
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Resolve the slug (or a legacy encoded display name) to a league
+  const league = useMemo(() => (leagueParam ? leagueFromSlug(leagueParam) : null), [leagueParam]);
+  const canonicalPath = league ? href('league', { league }) : null;
 
-  // Validate and normalize league parameter (handles spaces, hyphens, encoding, and diacritics)
-  const league = useMemo(() => {
-    if (!leagueParam) return null;
-
-    const decodeSafe = (v: string) => {
-      try { return decodeURIComponent(v); } catch { return v; }
-    };
-
-    const normalize = (v: string) => decodeSafe(v)
-      .replace(/-/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
-      .toLowerCase();
-
-    const paramNorm = normalize(leagueParam);
-
-    // Direct exact match first
-    const exact = Object.values(League).find(l => l === decodeSafe(leagueParam));
-    if (exact) return exact;
-
-    // Case/diacritic-insensitive match
-    const diacriticInsensitive = Object.values(League).find(l => normalize(l) === paramNorm);
-    if (diacriticInsensitive) return diacriticInsensitive;
-
-    // Common aliases
-    const aliases: Record<string, League> = {
-      'efl championship': League.Championship,
-      'championship': League.Championship,
-      'uefa champions league': League.ChampionsLeague,
-      'champions league': League.ChampionsLeague,
-      'uefa europa league': League.EuropaLeague,
-      'europa league': League.EuropaLeague,
-      'uefa europa conference league': League.EuropaConferenceLeague,
-      'europa conference league': League.EuropaConferenceLeague,
-      'premier league': League.PremierLeague,
-      'la liga': League.LaLiga,
-      'bundesliga': League.Bundesliga,
-      'ligue 1': League.Ligue1,
-      'super lig': League.SuperLig,
-      'sueper lig': League.SuperLig,
-    };
-    if (aliases[paramNorm]) return aliases[paramNorm];
-
-    return null;
-  }, [leagueParam]);
+  // Fixtures and table come from the league route's loader, usually prefetched on hover
+  const routeData = useRouteData<LeagueRouteData>(canonicalPath ?? '');
+  const loading = Boolean(league) && routeData.loading;
+  const error = routeData.error ? 'Failed to load league data. Please try again.' : null;
 
   // Get league fixtures
   const leagueFixtures = useMemo(() => {
@@ -93,6 +56,17 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
     return leagueTables[league];
   }, [leagueTables, league]);
 
+  // Official table re-ranked with in-progress scores ("as it stands")
+  const liveTable = useMemo(() => {
+    if (!league || !leagueTable || leagueTable.length === 0) return null;
+    return buildLiveTable(league, leagueTable, leagueFixtures, liveMatchUpdates);
+  }, [league, leagueTable, leagueFixtures, liveMatchUpdates]);
+
+  const hasLiveMatches = useMemo(
+    () => leagueFixtures.some(f => ['LIVE', 'HT'].includes(liveMatchUpdates[f.id]?.status ?? f.status ?? '')),
+    [leagueFixtures, liveMatchUpdates]
+  );
+
   // Group fixtures by date
   const fixturesByDate = useMemo(() => {
     const groups: { [key: string]: Match[] } = {};
@@ -122,35 +96,13 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
     });
   }, [fixturesByDate]);
 
-  // Load league data on mount
   useEffect(() => {
-    const loadLeagueData = async () => {
-      if (!league) return;
-
-      setLoading(true);
-      setError(null);
-
-      try {
-        // Load fixtures and table in parallel (defensive: functions may be undefined in rare cases)
-        const loaders: Promise<any>[] = [];
-        if (typeof loadLeagueFixtures === 'function') loaders.push(loadLeagueFixtures(league));
-        if (typeof loadLeagueTable === 'function') loaders.push(loadLeagueTable(league));
-        await Promise.all(loaders);
-
-        const count = (leagueFixtures || []).length;
-        if (typeof addToast === 'function') addToast(`Loaded ${count} fixtures for ${league}`, 'success');
-      } catch (err) {
-        console.error('Failed to load league data:', err);
-        setError('Failed to load league data. Please try again.');
-        if (typeof addToast === 'function') addToast('Failed to load league data', 'error');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadLeagueData();
+    if (routeData.error) {
+      console.error('Failed to load league data:', routeData.error);
+      if (typeof addToast === 'function') addToast('Failed to load league data', 'error');
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [league]);
+  }, [routeData.error]);
 
   // Format date header
   const formatDateHeader = (dateString: string): { day: string; date: string; isToday: boolean; isTomorrow: boolean } => {
@@ -174,6 +126,10 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
     return league ? colorSystemService.getLeagueColors(league) : { primary: '#6B7280', secondary: '#374151', accent: '#FFFFFF', text: '#FFFFFF' };
   }, [league]);
 
+  if (league && canonicalPath && leagueParam !== canonicalPath.slice(canonicalPath.lastIndexOf('/') + 1)) {
+    return <Navigate to={canonicalPath} replace />;
+  }
+
   if (!league) {
     return (
       <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col items-center justify-center">
@@ -227,7 +183,7 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
 
             <div className="flex items-center space-x-2">
               <button
-                onClick={() => navigate('/fixtures')}
+                onClick={() => navigate(href('fixtures'))}
                 className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors font-medium"
               >
                 View All Fixtures
@@ -266,12 +222,21 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
           </div>
         ) : (
           <div className="space-y-8">
-            {/* League Table Preview */}
+            {/* Season Outlook (Monte Carlo projection of final positions) */}
             {leagueTable && leagueTable.length > 0 && (
+              <SeasonProjection league={league} table={leagueTable} onSelectTeam={onSelectTeam} />
+            )}
+
+            {/* League Table Preview */}
+            {liveTable && liveTable.length > 0 && (
               <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-xl font-bold text-white">League Table</h2>
-                  <span className="text-sm text-gray-400">Top 5 Teams</span>
+                  {hasLiveMatches ? (
+                    <span className="text-sm text-red-400 font-medium">● Live — as it stands</span>
+                  ) : (
+                    <span className="text-sm text-gray-400">Top 5 Teams</span>
+                  )}
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
@@ -287,21 +252,21 @@ const LeaguePage: React.FC<LeaguePageProps> = ({
                       </tr>
                     </thead>
                     <tbody>
-                      {leagueTable.slice(0, 5).map((team, index) => (
-                        <tr key={team.team.id} className="border-b border-gray-700/50">
-                          <td className="py-2 px-2 text-gray-300">{index + 1}</td>
+                      {liveTable.slice(0, 5).map((team) => (
+                        <tr key={team.teamName} className="border-b border-gray-700/50">
+                          <td className="py-2 px-2 text-gray-300">{team.rank}</td>
                           <td className="py-2 px-2">
                             <button
-                              onClick={() => onSelectTeam(team.team.name)}
+                              onClick={() => onSelectTeam(team.teamName)}
                               className="text-blue-400 hover:text-blue-300 transition-colors font-medium"
                             >
-                              {team.team.name}
+                              {team.teamName}
                             </button>
                           </td>
-                          <td className="text-center py-2 px-2 text-gray-300">{team.all.played}</td>
-                          <td className="text-center py-2 px-2 text-gray-300">{team.all.win}</td>
-                          <td className="text-center py-2 px-2 text-gray-300">{team.all.draw}</td>
-                          <td className="text-center py-2 px-2 text-gray-300">{team.all.lose}</td>
+                          <td className="text-center py-2 px-2 text-gray-300">{team.played}</td>
+                          <td className="text-center py-2 px-2 text-gray-300">{team.won}</td>
+                          <td className="text-center py-2 px-2 text-gray-300">{team.drawn}</td>
+                          <td className="text-center py-2 px-2 text-gray-300">{team.lost}</td>
                           <td className="text-center py-2 px-2 font-semibold text-white">{team.points}</td>
                         </tr>
                       ))}
@@ -5,6 +5,8 @@ import ProbabilityBar from './ProbabilityBar';
 import ConfidenceIndicator from './ConfidenceIndicator';
 import FormTrendIndicator from './FormTrendIndicator';
 import { useAppContext } from '../contexts/AppContext';
+import { prefetchHandlers } from './RouteLink';
+import { href } from '../services/routeTable';
 
 interface MatchCardProps {
   match: Match;
@@ -14,7 +16,7 @@ interface MatchCardProps {
 }
 
 const MatchCard: React.FC<MatchCardProps> = ({ match, onSelectMatch, onSelectTeam, compact = false }) => {
-  const { favoriteTeams, toggleFavoriteTeam, getPrediction, teams, accuracyStats, getTeamForm } = useAppContext();
+  const { favoriteTeams, toggleFavoriteTeam, getPrediction, teams, confidenceModel, getTeamForm } = useAppContext();
   const { homeTeam, awayTeam, league, date } = match;
   
   const prediction = getPrediction(match.id);
@@ -127,6 +129,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onSelectMatch, onSelectTea
             className="text-xs sm:text-sm font-bold text-center text-white pt-2 w-full cursor-pointer hover:text-blue-400 transition-colors duration-200"
             style={{ borderTop: `2px solid ${homeTeamColor}`}} // eslint-disable-line react/forbid-dom-props
             onClick={() => onSelectTeam(homeTeam)}
+            {...prefetchHandlers(href('team', { team: homeTeam }))}
           >
             {homeTeam}
           </h3>
@@ -158,6 +161,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onSelectMatch, onSelectTea
             className="text-sm font-bold text-center text-white pt-2 w-full cursor-pointer hover:text-blue-400 transition-colors duration-200"
             style={{ borderTop: `2px solid ${awayTeamColor}`}} // eslint-disable-line react/forbid-dom-props
             onClick={() => onSelectTeam(awayTeam)}
+            {...prefetchHandlers(href('team', { team: awayTeam }))}
           >
             {awayTeam}
           </h3>
@@ -190,12 +194,8 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onSelectMatch, onSelectTea
           <div className="mt-3 flex justify-center">
             <ConfidenceIndicator
               prediction={prediction}
-              accuracyStats={accuracyStats}
-              matchContext={{
-                league: league,
-                hasRecentForm: true,
-                hasHeadToHead: true
-              }}
+              history={confidenceModel}
+              matchContext={{ league }}
               size="small"
               showPercentage={true}
               showTooltip={true}
@@ -8,7 +8,10 @@ import ConfidenceMeter from './ConfidenceMeter';
 import ConfidenceIndicator from './ConfidenceIndicator';
 import TeamFormChart from './TeamFormChart';
 import KeyFactorsVisualizer from './KeyFactorsVisualizer';
+import KeyAbsencesPanel from './KeyAbsencesPanel';
 import { useAppContext } from '../contexts/AppContext';
+import { calculatePredictionConfidence } from '../services/confidenceService';
+import { href } from '../services/routeTable';
 
 interface MatchDetailProps {
   onSelectTeam: (teamName: string) => void;
@@ -24,9 +27,9 @@ const MatchDetail: React.FC<MatchDetailProps> = ({ onSelectTeam }) => {
 
   // If no match found, redirect to fixtures
   if (!match) {
-    return <Navigate to="/fixtures" replace />;
+    return <Navigate to={href('fixtures')} replace />;
   }
-  const { fetchPrediction, getPrediction, favoriteTeams, toggleFavoriteTeam, teams, accuracyStats, getTeamForm } = useAppContext();
+  const { fetchPrediction, getPrediction, favoriteTeams, toggleFavoriteTeam, teams, confidenceModel, getTeamForm } = useAppContext();
   const [prediction, setPrediction] = useState<Prediction | null>(getPrediction(match.id));
   const [loading, setLoading] = useState(!prediction);
   const [error, setError] = useState<string | null>(null);
@@ -98,6 +101,8 @@ const MatchDetail: React.FC<MatchDetailProps> = ({ onSelectTeam }) => {
       );
     }
 
+    const confidence = calculatePredictionConfidence(prediction, confidenceModel, { league: match.league });
+
     return (
       <div className="space-y-6">
         <div>
@@ -118,16 +123,17 @@ const MatchDetail: React.FC<MatchDetailProps> = ({ onSelectTeam }) => {
             <div className="bg-gray-800 p-4 rounded-lg">
                 <h3 className="text-lg font-semibold text-blue-400 mb-3">Prediction Confidence</h3>
                 <div className="space-y-3">
-                    <ConfidenceMeter level={prediction.confidence} />
+                    <ConfidenceMeter
+                        level={prediction.confidence}
+                        percentage={confidence.percentage}
+                        interval={confidence.interval}
+                        sampleSize={confidence.sampleSize}
+                    />
                     <div className="flex justify-center">
                         <ConfidenceIndicator
                             prediction={prediction}
-                            accuracyStats={accuracyStats}
-                            matchContext={{
-                                league: match.league,
-                                hasRecentForm: true,
-                                hasHeadToHead: true
-                            }}
+                            history={confidenceModel}
+                            matchContext={{ league: match.league }}
                             size="medium"
                             showPercentage={true}
                             showTooltip={true}
@@ -415,6 +421,8 @@ const MatchDetail: React.FC<MatchDetailProps> = ({ onSelectTeam }) => {
           </div>
         )}
 
+        <KeyAbsencesPanel absences={prediction.keyAbsences} homeTeam={homeTeam} awayTeam={awayTeam} />
+
         <div>
             <h3 className="text-lg font-semibold text-blue-400 mb-4">Key Factors Analysis</h3>
             <KeyFactorsVisualizer factors={prediction.keyFactors} />
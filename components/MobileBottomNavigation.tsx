@@ -1,5 +1,7 @@
 import React from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import { useLocation } from 'react-router-dom';
+import RouteLink from './RouteLink';
+import { ROUTES, RouteName } from '../services/routeTable';
 
 const MobileBottomNavigation: React.FC = () => {
   const location = useLocation();
@@ -10,21 +12,21 @@ const MobileBottomNavigation: React.FC = () => {
     return false;
   };
 
-  const navItems = [
-    { path: '/', icon: '🏠', label: 'Home' },
-    { path: '/fixtures', icon: '📅', label: 'Fixtures' },
-    { path: '/my-teams', icon: '⭐', label: 'Teams' },
-    { path: '/accuracy', icon: '📊', label: 'Accuracy' },
-    { path: '/news', icon: '📰', label: 'News' }
+  const navItems: { route: RouteName; path: string; icon: string; label: string }[] = [
+    { route: 'home', path: ROUTES.home.path, icon: '🏠', label: 'Home' },
+    { route: 'fixtures', path: ROUTES.fixtures.path, icon: '📅', label: 'Fixtures' },
+    { route: 'myTeams', path: ROUTES.myTeams.path, icon: '⭐', label: 'Teams' },
+    { route: 'accuracy', path: ROUTES.accuracy.path, icon: '📊', label: 'Accuracy' },
+    { route: 'news', path: ROUTES.news.path, icon: '📰', label: 'News' }
   ];
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-gray-800/95 backdrop-blur-lg border-t border-gray-700 z-50 pb-safe">
       <div className="flex items-center justify-around h-16 px-2">
     {navItems.map((item) => (
-          <Link
+          <RouteLink
             key={item.path}
-            to={item.path}
+            to={item.route}
             className={`flex flex-col items-center justify-center flex-1 py-1 px-2 rounded-lg transition-all duration-200 ${
               isActive(item.path)
                 ? 'text-blue-400 bg-blue-500/10'
@@ -34,7 +36,7 @@ const MobileBottomNavigation: React.FC = () => {
           >
             <span className="text-xl mb-1">{item.icon}</span>
             <span className="text-xs font-medium">{item.label}</span>
-          </Link>
+          </RouteLink>
         ))}
       </div>
     </nav>
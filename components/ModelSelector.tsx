@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { unifiedPredictionService, PredictionModel } from '../services/unifiedPredictionService';
-import { getRateLimitStatus } from '../services/rateLimitService';
+import { predictionProviderRegistry, ProviderStatus } from '../services/predictionProviderRegistry';
 
 interface ModelSelectorProps {
   selectedModel: PredictionModel;
@@ -8,23 +8,18 @@ interface ModelSelectorProps {
   className?: string;
 }
 
+const formatLatency = (ms: number) => ms >= 60000 ? `${Math.round(ms / 60000)}min` : ms >= 1000 ? `${Math.round(ms / 1000)}s` : 'Instant';
+
 const ModelSelector: React.FC<ModelSelectorProps> = ({ 
   selectedModel, 
   onModelChange, 
   className = '' 
 }) => {
-  const [availableModels, setAvailableModels] = useState({ gemini: false, deepseek: false });
-  const [rateLimits, setRateLimits] = useState<Record<string, any>>({});
+  const [statuses, setStatuses] = useState<ProviderStatus[]>([]);
 
   useEffect(() => {
     const updateStatus = () => {
-      const models = unifiedPredictionService.getAvailableModels();
-      setAvailableModels(models);
-      
-      // Get rate limit status
-      const geminiStatus = getRateLimitStatus('gemini');
-      const deepseekStatus = getRateLimitStatus('deepseek');
-      setRateLimits({ gemini: geminiStatus, deepseek: deepseekStatus });
+      setStatuses(unifiedPredictionService.getProviderStatuses());
     };
 
     updateStatus();
@@ -33,38 +28,44 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
     return () => clearInterval(interval);
   }, []);
 
+  const availableCount = statuses.filter(s => s.available).length;
+
   const modelOptions = [
-    { 
-      value: 'gemini' as PredictionModel, 
-      label: 'Gemini 2.5 Flash', 
-      description: 'Fast & reliable',
-      icon: '🔮',
-      available: availableModels.gemini && rateLimits.gemini?.canMakeRequest !== false,
-      speed: 'Fast (15s)',
-      quality: 'High',
-      rateLimit: rateLimits.gemini
+    {
+      value: 'auto' as PredictionModel,
+      label: 'Automatic',
+      description: 'Best available with fallback',
+      icon: '🧭',
+      available: availableCount > 0,
+      configured: true,
+      speed: 'Varies',
+      quality: 'Routed',
+      status: null as ProviderStatus | null
     },
-    { 
-      value: 'deepseek' as PredictionModel, 
-      label: 'DeepSeek V3.1', 
-      description: 'Detailed analysis',
-      icon: '🤖',
-      available: availableModels.deepseek && rateLimits.deepseek?.canMakeRequest !== false,
-      speed: 'Slow (3min)',
-      quality: 'High',
-      rateLimit: rateLimits.deepseek
-    },
-    { 
-      value: 'both' as PredictionModel, 
-      label: 'Both Models', 
-      description: 'Compare results',
+    ...predictionProviderRegistry.list().map(provider => {
+      const status = statuses.find(s => s.id === provider.id) || null;
+      return {
+        value: provider.id as PredictionModel,
+        label: provider.label,
+        description: provider.description,
+        icon: provider.icon,
+        available: !!status?.available,
+        configured: !!status?.configured,
+        speed: formatLatency(provider.expectedLatencyMs),
+        quality: provider.costPerPrediction > 0 ? `~$${provider.costPerPrediction.toFixed(3)}` : 'Free',
+        status
+      };
+    }),
+    {
+      value: 'ensemble' as PredictionModel,
+      label: 'Ensemble',
+      description: 'Weighted consensus of all models',
       icon: '⚖️',
-      available: availableModels.gemini && availableModels.deepseek && 
-                 rateLimits.gemini?.canMakeRequest !== false && 
-                 rateLimits.deepseek?.canMakeRequest !== false,
-      speed: 'Slow (3min)',
+      available: availableCount >= 2,
+      configured: true,
+      speed: 'Slowest model',
       quality: 'Comparison',
-      rateLimit: null
+      status: null as ProviderStatus | null
     }
   ];
 
@@ -92,17 +93,17 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
                 <div>
                   <div className="font-semibold flex items-center space-x-2">
                     <span>{option.label}</span>
-                    {!availableModels[option.value as keyof typeof availableModels] && (
+                    {!option.configured && (
                       <span className="text-xs bg-red-600 px-2 py-1 rounded">Not Configured</span>
                     )}
-                    {option.rateLimit && !option.rateLimit.canMakeRequest && (
+                    {option.status?.rateLimited && (
                       <span className="text-xs bg-orange-600 px-2 py-1 rounded">Rate Limited</span>
                     )}
                   </div>
                   <div className="text-sm text-gray-400">{option.description}</div>
-                  {option.rateLimit && option.rateLimit.waitTimeMs > 0 && (
+                  {option.status && option.status.waitTimeMs > 0 && (
                     <div className="text-xs text-orange-400">
-                      Wait: {Math.ceil(option.rateLimit.waitTimeMs / 1000)}s
+                      Wait: {Math.ceil(option.status.waitTimeMs / 1000)}s
                     </div>
                   )}
                 </div>
@@ -122,27 +123,23 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({
       {/* Configuration Status */}
       <div className="mt-4 p-3 bg-gray-700/50 rounded-md">
         <div className="text-sm text-gray-300 space-y-1">
-          <div className="flex justify-between">
-            <span>Gemini API:</span>
-            <span className={availableModels.gemini ? 'text-green-400' : 'text-red-400'}>
-              {availableModels.gemini ? '✅ Ready' : '❌ Not configured'}
-            </span>
-          </div>
-          <div className="flex justify-between">
-            <span>DeepSeek API:</span>
-            <span className={availableModels.deepseek ? 'text-green-400' : 'text-red-400'}>
-              {availableModels.deepseek ? '✅ Ready' : '❌ Not configured'}
-            </span>
-          </div>
+          {statuses.map(status => (
+            <div key={status.id} className="flex justify-between">
+              <span>{status.label}:</span>
+              <span className={status.available ? 'text-green-400' : 'text-red-400'}>
+                {status.available ? '✅ Ready' : status.configured ? '⏳ Rate limited' : '❌ Not configured'}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
 
       {/* Usage Recommendations */}
       <div className="mt-3 text-xs text-gray-400">
         <div className="font-medium mb-1">💡 Recommendations:</div>
-        <div>• Use <strong>Gemini</strong> for quick predictions</div>
+        <div>• Use <strong>Automatic</strong> to fall back when a model is rate limited</div>
         <div>• Use <strong>DeepSeek</strong> for detailed analysis</div>
-        <div>• Use <strong>Both</strong> to compare and validate</div>
+        <div>• Use <strong>Ensemble</strong> to compare and validate</div>
       </div>
     </div>
   );
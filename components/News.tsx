@@ -1,36 +1,21 @@
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { NewsArticle, View } from '../types';
+import { League, NewsArticle } from '../types';
 import { getFootballNews } from '../services/newsService';
+import { NewsQuery } from '../services/newsModel';
 import LoadingSpinner from './LoadingSpinner';
-import { NEWS_SOURCES } from '../constants';
-import { timeAgo } from '../utils/dateUtils';
+import NewsArticleCard from './NewsArticleCard';
 
-const NewsArticleCard: React.FC<{ article: NewsArticle }> = ({ article }) => {
-    const sourceInfo = NEWS_SOURCES[article.source];
-    
-    return (
-        <a 
-            href={article.link}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="block bg-gray-800 rounded-xl overflow-hidden shadow-lg hover:shadow-blue-500/20 border border-gray-700 hover:border-blue-600 transition-all duration-300 transform hover:-translate-y-1"
-        >
-            <div className="p-5">
-                <div className="flex items-center mb-3">
-                    {sourceInfo?.logo && (
-                        <img src={sourceInfo.logo} alt={`${article.source} logo`} className="h-5 mr-3 brightness-0 invert" />
-                    )}
-                    <span className="text-xs font-semibold text-gray-400 uppercase">{article.source}</span>
-                </div>
-                <h3 className="font-bold text-lg text-white mb-2 leading-tight">{article.title}</h3>
-                <p className="text-gray-300 text-sm mb-4">{article.snippet}</p>
-                <p className="text-xs text-blue-400 font-medium">{timeAgo(article.publishedDate)}</p>
-            </div>
-        </a>
-    );
-};
+const LEAGUE_FILTERS: League[] = [
+    League.PremierLeague,
+    League.LaLiga,
+    League.SerieA,
+    League.Bundesliga,
+    League.Ligue1,
+    League.Championship,
+    League.ChampionsLeague
+];
 
 interface NewsProps {
     onNavigate?: (view: any) => void;
@@ -42,30 +27,63 @@ const News: React.FC<NewsProps> = ({ onNavigate }) => {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [query, setQuery] = useState<string>('');
+    const [search, setSearch] = useState<string>('');
+    const [league, setLeague] = useState<League | 'all'>('all');
+    const [alertsOnly, setAlertsOnly] = useState(false);
+    const [page, setPage] = useState(1);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
 
+    // Search as the user pauses typing, not on every key
     useEffect(() => {
+        const id = setTimeout(() => setSearch(query.trim()), 300);
+        return () => clearTimeout(id);
+    }, [query]);
+
+    const filters: NewsQuery = {
+        q: search || undefined,
+        league: league === 'all' ? undefined : league,
+        alerts: alertsOnly ? 'any' : undefined
+    };
+
+    useEffect(() => {
+        let cancelled = false;
         const fetchNews = async () => {
             setIsLoading(true);
             setError(null);
             try {
-                const newsData = await getFootballNews();
-                setArticles(newsData);
+                const newsPage = await getFootballNews(filters);
+                if (cancelled) return;
+                setArticles(newsPage.articles);
+                setPage(1);
+                setHasMore(newsPage.hasMore);
             } catch (err) {
-                setError("Failed to fetch news. Please try again later.");
+                if (!cancelled) setError("Failed to fetch news. Please try again later.");
                 console.error(err);
             } finally {
-                setIsLoading(false);
+                if (!cancelled) setIsLoading(false);
             }
         };
 
         fetchNews();
-    }, []);
+        return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [search, league, alertsOnly]);
 
-    const filtered = articles.filter(a =>
-        !query.trim() ||
-        a.title.toLowerCase().includes(query.toLowerCase()) ||
-        a.snippet.toLowerCase().includes(query.toLowerCase())
-    );
+    const loadMore = async () => {
+        setIsLoadingMore(true);
+        try {
+            const newsPage = await getFootballNews({ ...filters, page: page + 1 });
+            // Stories can shift between pages while the feed updates
+            setArticles(prev => [...prev, ...newsPage.articles.filter(a => !prev.some(p => p.id === a.id))]);
+            setPage(newsPage.page);
+            setHasMore(newsPage.hasMore);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
 
     const renderContent = () => {
         if (isLoading) {
@@ -81,16 +99,29 @@ const News: React.FC<NewsProps> = ({ onNavigate }) => {
             return <div className="text-center p-8 text-red-400">{error}</div>;
         }
 
-        if (filtered.length === 0) {
+        if (articles.length === 0) {
             return <div className="text-center p-8 text-gray-400">No news articles found.</div>;
         }
 
         return (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filtered.map(article => (
-                    <NewsArticleCard key={article.id} article={article} />
-                ))}
-            </div>
+            <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {articles.map(article => (
+                        <NewsArticleCard key={article.id} article={article} />
+                    ))}
+                </div>
+                {hasMore && (
+                    <div className="text-center mt-8">
+                        <button
+                            onClick={loadMore}
+                            disabled={isLoadingMore}
+                            className="px-6 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-blue-400 font-medium disabled:opacity-50"
+                        >
+                            {isLoadingMore ? 'Loading...' : 'Load more'}
+                        </button>
+                    </div>
+                )}
+            </>
         );
     }
 
@@ -113,13 +144,31 @@ const News: React.FC<NewsProps> = ({ onNavigate }) => {
 
             <section>
                 <h2 className="text-2xl sm:text-3xl font-bold tracking-tight text-white mb-6">Latest Football News</h2>
-                <div className="mb-6 flex items-center">
+                <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3">
                     <input
                         value={query}
                         onChange={(e) => setQuery(e.target.value)}
-                        placeholder="Filter by league, team, or keyword..."
-                        className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Filter by team, player, or keyword..."
+                        className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
+                    <select
+                        value={league}
+                        onChange={(e) => setLeague(e.target.value as League | 'all')}
+                        aria-label="League"
+                        className="px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="all">All leagues</option>
+                        {LEAGUE_FILTERS.map(l => <option key={l} value={l}>{l}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-sm text-gray-300 whitespace-nowrap">
+                        <input
+                            type="checkbox"
+                            checked={alertsOnly}
+                            onChange={(e) => setAlertsOnly(e.target.checked)}
+                            className="rounded border-gray-600 bg-gray-800"
+                        />
+                        Injuries &amp; suspensions
+                    </label>
                 </div>
                 {renderContent()}
             </section>
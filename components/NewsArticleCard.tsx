@@ -0,0 +1,69 @@
+import React from 'react';
+import { NewsArticle } from '../types';
+import { NEWS_SOURCES } from '../constants';
+import { timeAgo } from '../utils/dateUtils';
+import RouteLink from './RouteLink';
+
+interface NewsArticleCardProps {
+    article: NewsArticle;
+    // Team whose page the card is on; its chip is left out
+    currentTeam?: string;
+}
+
+const NewsArticleCard: React.FC<NewsArticleCardProps> = ({ article, currentTeam }) => {
+    const sourceInfo = NEWS_SOURCES[article.source];
+    const teams = (article.teams || []).filter(team => team !== currentTeam);
+
+    return (
+        <div className="bg-gray-800 rounded-xl overflow-hidden shadow-lg hover:shadow-blue-500/20 border border-gray-700 hover:border-blue-600 transition-all duration-300">
+            <div className="p-5">
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center">
+                        {sourceInfo?.logo && (
+                            <img src={sourceInfo.logo} alt={`${article.source} logo`} className="h-5 mr-3 brightness-0 invert" />
+                        )}
+                        <span className="text-xs font-semibold text-gray-400 uppercase">{article.source}</span>
+                    </div>
+                    {article.alert && (
+                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                            article.alert.kind === 'injury' ? 'bg-yellow-900/40 text-yellow-300' : 'bg-red-900/40 text-red-300'
+                        }`}>
+                            {article.alert.kind === 'injury' ? '🚑 Injury' : '🟥 Suspension'}
+                        </span>
+                    )}
+                </div>
+                <a
+                    href={article.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block font-bold text-lg text-white mb-2 leading-tight hover:text-blue-300"
+                >
+                    {article.title}
+                </a>
+                <p className="text-gray-300 text-sm mb-4">{article.snippet}</p>
+                {teams.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        {teams.slice(0, 4).map(team => (
+                            <RouteLink
+                                key={team}
+                                to="team"
+                                params={{ team }}
+                                className="text-xs px-2 py-0.5 rounded-full bg-gray-700 text-gray-200 hover:bg-blue-700"
+                            >
+                                {team}
+                            </RouteLink>
+                        ))}
+                    </div>
+                )}
+                <p className="text-xs text-blue-400 font-medium">
+                    {timeAgo(article.publishedDate)}
+                    {article.syndicatedBy?.length ? (
+                        <span className="text-gray-500"> · Also in {article.syndicatedBy.join(', ')}</span>
+                    ) : null}
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default NewsArticleCard;
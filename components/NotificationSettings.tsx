@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { notificationService, type NotificationSettings, NotificationTopic } from '../services/notificationService';
+import { pushSubscriptionService } from '../services/pushSubscriptionService';
 
 interface NotificationSettingsProps {
   isOpen: boolean;
@@ -12,6 +13,7 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
   const [permissionStatus, setPermissionStatus] = useState(notificationService.getPermissionStatus());
   const [followedTeams, setFollowedTeams] = useState<string[]>([]);
   const [followedLeagues, setFollowedLeagues] = useState<string[]>([]);
+  const [backgroundPush, setBackgroundPush] = useState(pushSubscriptionService.isSubscribed());
 
   useEffect(() => {
     if (isOpen) {
@@ -20,12 +22,14 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
       setPermissionStatus(notificationService.getPermissionStatus());
       setFollowedTeams(notificationService.getFollowedTeams());
       setFollowedLeagues(notificationService.getFollowedLeagues());
+      setBackgroundPush(pushSubscriptionService.isSubscribed());
     }
   }, [isOpen]);
 
   const handlePermissionRequest = async () => {
     const granted = await notificationService.requestPermission();
     setPermissionStatus(notificationService.getPermissionStatus());
+    setBackgroundPush(pushSubscriptionService.isSubscribed());
     
     if (granted) {
       // Show success message
@@ -37,6 +41,16 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
     const newSettings = { ...settings, [key]: value };
     setSettings(newSettings);
     notificationService.updateSettings(newSettings);
+    setTopics(notificationService.getTopics());
+  };
+
+  const handleBackgroundPushToggle = async (enabled: boolean) => {
+    if (enabled) {
+      setBackgroundPush(await pushSubscriptionService.enable());
+    } else {
+      await pushSubscriptionService.disable();
+      setBackgroundPush(false);
+    }
   };
 
   const handleQuietHoursChange = (key: keyof NotificationSettings['quietHours'], value: any) => {
@@ -51,6 +65,7 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
   const handleTopicToggle = (topicId: string, enabled: boolean) => {
     notificationService.updateTopic(topicId, enabled);
     setTopics(notificationService.getTopics());
+    setSettings(notificationService.getSettings());
   };
 
   const handleUnfollowTeam = (teamName: string) => {
@@ -110,6 +125,24 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
                 </button>
               )}
             </div>
+            {permissionStatus.granted && pushSubscriptionService.isSupported() && (
+              <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
+                <div>
+                  <h4 className="font-medium text-gray-900">Background alerts</h4>
+                  <p className="text-sm text-gray-600">Receive alerts for your followed teams even when FixtureCast is closed</p>
+                </div>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={backgroundPush}
+                    onChange={(e) => handleBackgroundPushToggle(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    aria-label="Toggle background alerts"
+                  />
+                  <span className="sr-only">Toggle background alerts</span>
+                </label>
+              </div>
+            )}
           </div>
 
           {/* Notification Types */}
@@ -204,7 +237,7 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ isOpen, onC
               <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
                 <div>
                   <h4 className="font-medium text-gray-900">Enable Quiet Hours</h4>
-                  <p className="text-sm text-gray-600">Pause notifications during specified hours</p>
+                  <p className="text-sm text-gray-600">Pause notifications during specified hours ({Intl.DateTimeFormat().resolvedOptions().timeZone} time)</p>
                 </div>
                 <label className="flex items-center">
                   <input
@@ -3,6 +3,8 @@ import { useLocation, useNavigate, Navigate, useParams } from 'react-router-dom'
 import { getTeamData } from '../services/teamDataService';
 import { View, Match } from '../types';
 import { useAppContext } from '../contexts/AppContext';
+import KeyAbsencesPanel from './KeyAbsencesPanel';
+import { href } from '../services/routeTable';
 
 interface PredictionDetailProps {
   onNavigate?: (view: View) => void;
@@ -36,10 +38,10 @@ const PredictionDetail: React.FC<PredictionDetailProps> = ({ onNavigate }) => {
           setIsGenerating(true);
           await fetchPrediction(match);
           // After generation, navigate to match-detail flow which renders richer view
-          navigate(`/match/${match.id}`, { state: { match } });
+          navigate(href('match', { matchId: match.id }), { state: { match } });
         } catch (e) {
           // Fall back to match detail even if generation failed; it can retry there
-          navigate(`/match/${match.id}`, { state: { match } });
+          navigate(href('match', { matchId: match.id }), { state: { match } });
         } finally {
           setIsGenerating(false);
         }
@@ -237,6 +239,13 @@ const PredictionDetail: React.FC<PredictionDetailProps> = ({ onNavigate }) => {
         </div>
       )}
 
+      {/* Costliest Absences */}
+      {Array.isArray(prediction.prediction?.keyAbsences) && prediction.prediction!.keyAbsences!.length > 0 && (
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <KeyAbsencesPanel absences={prediction.prediction!.keyAbsences} homeTeam={prediction.homeTeam} awayTeam={prediction.awayTeam} />
+        </div>
+      )}
+
       {/* Key Factors Analysis */}
       {Array.isArray(prediction.prediction?.keyFactors) && prediction.prediction!.keyFactors!.length > 0 && (
         <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { LedgerEntry, LedgerVerification } from '../services/predictionLedger';
+import { ledgerVerifier } from '../services/ledgerVerifier';
+import { PredictionAccuracy } from '../types';
+
+interface PublicLedgerPanelProps {
+  records: PredictionAccuracy[];
+  limit?: number;
+}
+
+// How far back the chain is re-checked on load
+const CHAIN_CHECK_DAYS = 30;
+
+const STATUS_STYLES: Record<LedgerVerification['status'], { icon: string; className: string }> = {
+  verified: { icon: '✅', className: 'text-green-400' },
+  mismatch: { icon: '❌', className: 'text-red-400' },
+  invalid: { icon: '❌', className: 'text-red-400' },
+  'not-found': { icon: '⏳', className: 'text-gray-400' }
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+/**
+ * Public ledger status and per-record inclusion checks behind the accuracy figures
+ */
+const PublicLedgerPanel: React.FC<PublicLedgerPanelProps> = ({ records, limit = 10 }) => {
+  const [head, setHead] = useState<LedgerEntry | null>(null);
+  const [chainIntact, setChainIntact] = useState<boolean | null>(null);
+  const [results, setResults] = useState<Record<string, LedgerVerification>>({});
+  const [checking, setChecking] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const latest = await ledgerVerifier.getHead();
+      if (cancelled) return;
+      setHead(latest);
+      if (!latest) return;
+      const since = new Date(Date.now() - CHAIN_CHECK_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      try {
+        const intact = await ledgerVerifier.verifyChainSince(since);
+        if (!cancelled) setChainIntact(intact);
+      } catch {
+        if (!cancelled) setChainIntact(null);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const recent = [...records]
+    .sort((a, b) => (b.matchDate || b.timestamp).localeCompare(a.matchDate || a.timestamp))
+    .slice(0, limit);
+
+  const verify = async (record: PredictionAccuracy) => {
+    const key = record.id || record.matchId;
+    setChecking(key);
+    try {
+      const result = await ledgerVerifier.verifyRecord(record);
+      setResults(previous => ({ ...previous, [key]: result }));
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      {head ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+          <div>
+            <p className="text-gray-400">Latest entry</p>
+            <p className="text-white font-semibold">#{head.index} · {head.date}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Predictions sealed</p>
+            <p className="text-white font-semibold">{head.leafCount}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Merkle root</p>
+            <p className="text-white font-mono text-xs break-all" title={head.merkleRoot}>{shortHash(head.merkleRoot)}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Chain ({CHAIN_CHECK_DAYS} days)</p>
+            <p className={`font-semibold ${chainIntact === false ? 'text-red-400' : 'text-green-400'}`}>
+              {chainIntact === null ? 'Checking…' : chainIntact ? '✅ Intact' : '❌ Broken'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm mb-4">No sealed ledger entries yet.</p>
+      )}
+
+      {recent.length === 0 ? (
+        <p className="text-gray-400 text-sm">No settled predictions on this device to verify yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {recent.map(record => {
+            const key = record.id || record.matchId;
+            const result = results[key];
+            const style = result ? STATUS_STYLES[result.status] : null;
+            return (
+              <li key={key} className="py-2 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{record.homeTeam || 'Home'} vs {record.awayTeam || 'Away'}</p>
+                  {result && style && (
+                    <p className={`text-xs ${style.className}`}>{style.icon} {result.message}</p>
+                  )}
+                </div>
+                <button
+                  onClick={() => verify(record)}
+                  disabled={checking === key}
+                  className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded transition-colors flex-shrink-0"
+                >
+                  {checking === key ? 'Checking…' : 'Verify'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PublicLedgerPanel;
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { PredictionAccuracy } from '../types';
+import { buildCalibrationReport, CalibrationMarket, CALIBRATION_MARKETS } from '../services/calibrationService';
+
+interface ReliabilityDiagramProps {
+  records: PredictionAccuracy[];
+  binCount?: number;
+  className?: string;
+}
+
+const MARKET_LABELS: Record<CalibrationMarket, string> = {
+  '1X2': 'Match Result',
+  BTTS: 'Both Teams to Score',
+  OVER_UNDER: 'Over/Under'
+};
+
+const SIZE = 240;
+const PAD = 28;
+
+const ReliabilityDiagram: React.FC<ReliabilityDiagramProps> = ({ records, binCount = 10, className = '' }) => {
+  const [market, setMarket] = useState<CalibrationMarket>('1X2');
+  const report = useMemo(() => buildCalibrationReport(records, market, binCount), [records, market, binCount]);
+
+  const plot = SIZE - PAD * 2;
+  const toX = (p: number) => PAD + p * plot;
+  const toY = (p: number) => SIZE - PAD - p * plot;
+  const maxCount = Math.max(1, ...report.bins.map(b => b.count));
+  const filled = report.bins.filter(b => b.count > 0);
+
+  return (
+    <div className={`bg-gray-800 rounded-lg p-4 ${className}`}>
+      <div className="flex flex-wrap gap-2 mb-4" role="tablist" aria-label="Calibration market">
+        {CALIBRATION_MARKETS.map(m => (
+          <button
+            key={m}
+            role="tab"
+            aria-selected={market === m}
+            onClick={() => setMarket(m)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              market === m ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {MARKET_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {report.sampleSize === 0 ? (
+        <p className="text-gray-400 text-sm">No settled predictions for this market yet.</p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-6">
+          <svg
+            viewBox={`0 0 ${SIZE} ${SIZE}`}
+            className="w-full max-w-xs"
+            role="img"
+            aria-label={`Reliability diagram for ${MARKET_LABELS[market]}`}
+          >
+            {/* Sample-size bars */}
+            {report.bins.map(bin => bin.count > 0 && (
+              <rect
+                key={`bar-${bin.lower}`}
+                x={toX(bin.lower) + 1}
+                y={SIZE - PAD - (bin.count / maxCount) * (plot * 0.25)}
+                width={plot / report.bins.length - 2}
+                height={(bin.count / maxCount) * (plot * 0.25)}
+                className="fill-gray-600"
+              />
+            ))}
+            {/* Perfect calibration */}
+            <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} className="stroke-gray-500" strokeDasharray="4 4" />
+            <line x1={PAD} y1={SIZE - PAD} x2={SIZE - PAD} y2={SIZE - PAD} className="stroke-gray-500" />
+            <line x1={PAD} y1={PAD} x2={PAD} y2={SIZE - PAD} className="stroke-gray-500" />
+            <polyline
+              points={filled.map(b => `${toX(b.meanPredicted)},${toY(b.observedFrequency)}`).join(' ')}
+              fill="none"
+              className="stroke-blue-400"
+              strokeWidth={2}
+            />
+            {filled.map(b => (
+              <circle key={`pt-${b.lower}`} cx={toX(b.meanPredicted)} cy={toY(b.observedFrequency)} r={3} className="fill-blue-400">
+                <title>{`Forecast ${(b.meanPredicted * 100).toFixed(0)}% → happened ${(b.observedFrequency * 100).toFixed(0)}% (${b.count})`}</title>
+              </circle>
+            ))}
+            <text x={SIZE / 2} y={SIZE - 6} textAnchor="middle" className="fill-gray-400 text-[10px]">Forecast probability</text>
+            <text x={10} y={SIZE / 2} textAnchor="middle" transform={`rotate(-90 10 ${SIZE / 2})`} className="fill-gray-400 text-[10px]">Observed frequency</text>
+          </svg>
+
+          <div className="grid grid-cols-2 gap-3 text-sm flex-1">
+            <div>
+              <p className="text-gray-400">Calibration error (ECE)</p>
+              <p className="text-white font-semibold">{(report.expectedCalibrationError * 100).toFixed(1)}%</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Brier score</p>
+              <p className="text-white font-semibold">{report.decomposition.brierScore.toFixed(3)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Reliability</p>
+              <p className="text-white font-semibold">{report.decomposition.reliability.toFixed(3)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Resolution</p>
+              <p className="text-white font-semibold">{report.decomposition.resolution.toFixed(3)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Uncertainty</p>
+              <p className="text-white font-semibold">{report.decomposition.uncertainty.toFixed(3)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Forecasts</p>
+              <p className="text-white font-semibold">{report.sampleSize}</p>
+            </div>
+            {report.logLossTrend.length > 0 && (
+              <div className="col-span-2">
+                <p className="text-gray-400 mb-1">Weekly log-loss</p>
+                <div className="flex flex-wrap gap-3">
+                  {report.logLossTrend.slice(-6).map(point => (
+                    <div key={point.period} className="text-center">
+                      <div className="text-[10px] text-gray-500">{point.period}</div>
+                      <div className="text-white text-xs font-medium">{point.logLoss.toFixed(3)}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReliabilityDiagram;
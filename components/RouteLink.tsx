@@ -0,0 +1,38 @@
+import React from 'react';
+import { Link, LinkProps } from 'react-router-dom';
+import { RouteName, RouteParamsMap, href } from '../services/routeTable';
+import { routeLoader } from '../services/routeLoaders';
+
+type RouteLinkProps<N extends RouteName> = Omit<LinkProps, 'to'> & {
+  to: N;
+  params?: RouteParamsMap[N];
+};
+
+/**
+ * Prefetch handlers for any element that navigates to `path` on click
+ */
+export const prefetchHandlers = (path: string) => ({
+  onMouseEnter: () => routeLoader.prefetch(path),
+  onFocus: () => routeLoader.prefetch(path),
+  onTouchStart: () => routeLoader.prefetch(path)
+});
+
+/**
+ * Typed link to a route in the route table; loads the page's code and data on hover or focus
+ */
+const RouteLink = <N extends RouteName>({ to, params, onMouseEnter, onFocus, onTouchStart, ...rest }: RouteLinkProps<N>) => {
+  const path = (href as (name: RouteName, params?: object) => string)(to, params);
+  const prefetch = prefetchHandlers(path);
+
+  return (
+    <Link
+      {...rest}
+      to={path}
+      onMouseEnter={(event) => { prefetch.onMouseEnter(); onMouseEnter?.(event); }}
+      onFocus={(event) => { prefetch.onFocus(); onFocus?.(event); }}
+      onTouchStart={(event) => { prefetch.onTouchStart(); onTouchStart?.(event); }}
+    />
+  );
+};
+
+export default RouteLink;
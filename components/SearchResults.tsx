@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { searchService, SearchResult } from '../services/searchService';
+import { HighlightRange } from '../services/searchIndex';
+import { useAppContext } from '../contexts/AppContext';
+import { League } from '../types';
 import LeagueLogo from './LeagueLogo';
 import TeamLogo from './TeamLogo';
 
@@ -16,6 +19,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
   onClose,
   className = ''
 }) => {
+  const { favoriteTeams } = useAppContext();
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [suggestions, setSuggestions] = useState<string[]>([]);
@@ -33,7 +37,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
   const performSearch = async (searchQuery: string) => {
     setIsLoading(true);
     try {
-      const searchResults = searchService.search(searchQuery);
+      const searchResults = searchService.search(searchQuery, undefined, { favoriteTeams });
       setResults(searchResults);
       
       // Save to recent searches
@@ -71,10 +75,30 @@ const SearchResults: React.FC<SearchResultsProps> = ({
       case 'team': return '👥';
       case 'league': return '🏆';
       case 'player': return '👤';
+      case 'coach': return '📋';
+      case 'venue': return '🏟️';
       default: return '🔍';
     }
   };
 
+  // Wraps the matched fragments of `text` in <mark>
+  const highlight = (text: string, ranges: HighlightRange[] = []) => {
+    if (ranges.length === 0) return text;
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, index) => {
+      if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+      parts.push(
+        <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">
+          {text.slice(range.start, range.end)}
+        </mark>
+      );
+      cursor = range.end;
+    });
+    if (cursor < text.length) parts.push(text.slice(cursor));
+    return parts;
+  };
+
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString);
@@ -118,7 +142,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center space-x-2">
                         <h4 className="text-sm font-medium text-gray-900 truncate">
-                          {result.title}
+                          {highlight(result.title, result.highlights?.title)}
                         </h4>
                         {result.type === 'match' && (
                           <div className="flex items-center space-x-1">
@@ -128,12 +152,17 @@ const SearchResults: React.FC<SearchResultsProps> = ({
                           </div>
                         )}
                         {result.type === 'league' && (
-                          <LeagueLogo leagueName={result.id} size="small" />
+                          <LeagueLogo leagueName={result.id as League} size="small" />
                         )}
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
-                        {result.description}
+                        {highlight(result.description, result.highlights?.description)}
                       </p>
+                      {result.alias && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          Also known as {highlight(result.alias.text, result.alias.ranges)}
+                        </p>
+                      )}
                       {result.type === 'match' && result.metadata?.date && (
                         <p className="text-xs text-gray-400 mt-1">
                           {formatDate(result.metadata.date)}
@@ -142,7 +171,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
                     </div>
                     <div className="flex-shrink-0">
                       <span className="text-xs text-gray-400">
-                        {Math.round(result.relevance * 100)}%
+                        {Math.round(Math.min(result.relevance, 1) * 100)}%
                       </span>
                     </div>
                   </div>
@@ -222,9 +251,9 @@ const SearchResults: React.FC<SearchResultsProps> = ({
             <div className="text-xs text-gray-500">
               <p className="font-medium mb-1">Search Tips:</p>
               <ul className="space-y-1">
-                <li>• Search for team names, leagues, or match dates</li>
+                <li>• Search for teams, leagues, players, coaches or stadiums</li>
                 <li>• Use partial matches for better results</li>
-                <li>• Try different spellings if no results found</li>
+                <li>• Accents and small typos are fine ("Fenerbahce", "Bayern Munchen")</li>
               </ul>
             </div>
           </div>
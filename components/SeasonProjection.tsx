@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { League, LeagueTableRow } from '../types';
+import { useAppContext } from '../contexts/AppContext';
+import { seasonSimulationService } from '../services/seasonSimulationService';
+import { SeasonSimulationResult, TeamProjection } from '../services/seasonSimulator';
+import TeamLogo from './TeamLogo';
+
+interface SeasonProjectionProps {
+  league: League;
+  table: LeagueTableRow[];
+  // 'team' shows a single team's outlook; 'league' the full projected table
+  variant?: 'league' | 'team';
+  teamName?: string;
+  onSelectTeam?: (teamName: string) => void;
+}
+
+const formatPct = (p: number) => {
+  if (p <= 0) return '—';
+  if (p < 0.01) return '<1%';
+  if (p > 0.99 && p < 1) return '>99%';
+  return `${Math.round(p * 100)}%`;
+};
+
+const pctClass = (p: number, good: boolean) => {
+  if (p < 0.01) return 'text-gray-500';
+  if (p >= 0.5) return good ? 'text-green-400 font-semibold' : 'text-red-400 font-semibold';
+  return good ? 'text-green-300' : 'text-red-300';
+};
+
+const ordinal = (n: number) => {
+  const r = Math.round(n);
+  const suffix = r % 100 >= 11 && r % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[r % 10] || 'th';
+  return `${r}${suffix}`;
+};
+
+const SeasonProjection: React.FC<SeasonProjectionProps> = ({ league, table, variant = 'league', teamName, onSelectTeam }) => {
+  const { getPrediction } = useAppContext();
+  const [result, setResult] = useState<SeasonSimulationResult | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!table || table.length === 0) return;
+    let cancelled = false;
+    setError(null);
+    setProgress(0);
+
+    seasonSimulationService
+      .simulate(league, table, { getPrediction, onProgress: fraction => !cancelled && setProgress(fraction) })
+      .then(simulation => { if (!cancelled) setResult(simulation); })
+      .catch(err => {
+        console.error('Season simulation failed:', err);
+        if (!cancelled) setError('Could not simulate the rest of the season');
+      });
+
+    return () => { cancelled = true; };
+    // getPrediction identity changes with every prediction update; rerun on table changes only
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [league, table]);
+
+  if (!table || table.length === 0) return null;
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <div>
+        <h2 className="text-xl font-bold text-white">Season Outlook</h2>
+        <p className="text-xs text-gray-400">
+          {result
+            ? `${result.iterations.toLocaleString()} simulations of ${result.fixturesSimulated} remaining fixtures (${result.fixturesFromPredictions} from predictions)`
+            : 'Simulating the rest of the season…'}
+        </p>
+      </div>
+      <span
+        className="text-xs text-gray-500 cursor-help"
+        title="Each remaining fixture is played out from its prediction (or our statistical model) thousands of times; percentages are the share of simulated seasons ending in that zone."
+      >
+        What does this mean?
+      </span>
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        {header}
+        <p className="text-sm text-red-400">⚠️ {error}</p>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        {header}
+        <div className="w-full bg-gray-700 rounded-full h-2" role="progressbar" aria-valuenow={Math.round(progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+          <div className="bg-blue-500 h-2 rounded-full transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  const { zones } = result;
+
+  if (variant === 'team') {
+    const projection: TeamProjection | undefined = result.teams.find(t => t.team === teamName);
+    if (!projection) return null;
+    const likeliest = projection.positionProbabilities.reduce((best, p, i, all) => (p > all[best] ? i : best), 0);
+
+    return (
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        {header}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+          <div className="bg-gray-900/50 rounded-lg p-3 text-center">
+            <div className="text-2xl font-bold text-white">{Math.round(projection.expectedPoints)}</div>
+            <div className="text-xs text-gray-400">Expected points</div>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 text-center">
+            <div className="text-2xl font-bold text-white">{ordinal(likeliest + 1)}</div>
+            <div className="text-xs text-gray-400">Most likely finish</div>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 text-center">
+            <div className={`text-2xl ${pctClass(projection.titleProbability, true)}`}>{formatPct(projection.titleProbability)}</div>
+            <div className="text-xs text-gray-400">Title</div>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 text-center">
+            <div className={`text-2xl ${pctClass(projection.europeanProbability, true)}`}>{formatPct(projection.europeanProbability)}</div>
+            <div className="text-xs text-gray-400">{zones.europeanLabel}</div>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 text-center">
+            <div className={`text-2xl ${pctClass(projection.relegationProbability, false)}`}>{formatPct(projection.relegationProbability)}</div>
+            <div className="text-xs text-gray-400">Relegation</div>
+          </div>
+        </div>
+        <div className="flex items-end h-16 gap-0.5" aria-label="Finishing position distribution">
+          {projection.positionProbabilities.map((p, i) => (
+            <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${ordinal(i + 1)}: ${formatPct(p)}`}>
+              <div
+                className={`w-full rounded-t ${i < zones.european ? 'bg-green-500' : i >= projection.positionProbabilities.length - zones.relegation ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ height: `${Math.max(p > 0 ? 4 : 0, p * 100)}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>1st</span>
+          <span>{ordinal(projection.positionProbabilities.length)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+      {header}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="text-left py-2 px-2 text-gray-400">#</th>
+              <th className="text-left py-2 px-2 text-gray-400">Team</th>
+              <th className="text-center py-2 px-2 text-gray-400" title="Current points">Pts</th>
+              <th className="text-center py-2 px-2 text-gray-400" title="Expected final points">xPts</th>
+              <th className="text-center py-2 px-2 text-gray-400">Title</th>
+              <th className="text-center py-2 px-2 text-gray-400">{zones.europeanLabel}</th>
+              <th className="text-center py-2 px-2 text-gray-400">Relegation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.teams.map((team, index) => (
+              <tr key={team.team} className={`border-b border-gray-700/50 ${team.team === teamName ? 'bg-blue-900/20' : ''}`}>
+                <td className="py-2 px-2 text-gray-300">{index + 1}</td>
+                <td className="py-2 px-2">
+                  <div className="flex items-center space-x-2">
+                    <TeamLogo teamName={team.team} size="small" />
+                    {onSelectTeam ? (
+                      <button onClick={() => onSelectTeam(team.team)} className="text-blue-400 hover:text-blue-300 transition-colors font-medium">
+                        {team.team}
+                      </button>
+                    ) : (
+                      <span className="text-white font-medium">{team.team}</span>
+                    )}
+                  </div>
+                </td>
+                <td className="text-center py-2 px-2 text-gray-300">{team.currentPoints}</td>
+                <td className="text-center py-2 px-2 font-semibold text-white">{team.expectedPoints.toFixed(1)}</td>
+                <td className={`text-center py-2 px-2 ${pctClass(team.titleProbability, true)}`}>{formatPct(team.titleProbability)}</td>
+                <td className={`text-center py-2 px-2 ${pctClass(team.europeanProbability, true)}`}>{formatPct(team.europeanProbability)}</td>
+                <td className={`text-center py-2 px-2 ${pctClass(team.relegationProbability, false)}`}>{formatPct(team.relegationProbability)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonProjection;
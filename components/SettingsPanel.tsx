@@ -20,6 +20,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
   const [notificationSettings, setNotificationSettings] = useState(calendarService.getNotificationSettings());
   const [performanceSettings, setPerformanceSettings] = useState(performanceService.getOptimizationSettings());
   const [accessibilitySettings, setAccessibilitySettings] = useState(themeService.getAccessibilitySettings());
+  const [feedIncludesPredictions, setFeedIncludesPredictions] = useState(true);
+  const [feedStatus, setFeedStatus] = useState<string | null>(null);
 
   // Load settings on mount
   useEffect(() => {
@@ -51,6 +53,19 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     calendarService.updateNotificationSettings(updates);
   }, [notificationSettings]);
 
+  // Subscribe to the followed teams feed; calendars poll it, so reschedules update in place
+  const handleSubscribeFeed = useCallback(async () => {
+    setFeedStatus('Preparing your feed…');
+    try {
+      const url = await calendarService.getFollowedFeedUrl({ predictions: feedIncludesPredictions });
+      window.location.href = url;
+      setFeedStatus('Opened in your calendar app');
+    } catch (error) {
+      console.error('Failed to open calendar feed:', error);
+      setFeedStatus('Could not create the feed, please try again');
+    }
+  }, [feedIncludesPredictions]);
+
   // Handle performance changes
   const handlePerformanceChange = useCallback((updates: Partial<typeof performanceSettings>) => {
     const newSettings = { ...performanceSettings, ...updates };
@@ -267,6 +282,30 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     ))}
                   </div>
                 </div>
+
+                {/* Calendar Feed */}
+                <div className="p-4 bg-gray-700 rounded-lg space-y-3">
+                  <div>
+                    <div className="font-medium text-white">📅 Calendar Feed</div>
+                    <div className="text-sm text-gray-400">Your followed teams and leagues in your calendar, kept up to date when fixtures move</div>
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={feedIncludesPredictions}
+                      onChange={(e) => setFeedIncludesPredictions(e.target.checked)}
+                      className="rounded border-gray-500 bg-gray-600 text-blue-600"
+                    />
+                    <span>Include predictions</span>
+                  </label>
+                  <button
+                    onClick={handleSubscribeFeed}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors duration-200"
+                  >
+                    Subscribe in calendar
+                  </button>
+                  {feedStatus && <div className="text-xs text-gray-400">{feedStatus}</div>}
+                </div>
               </div>
             )}
 
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { Match } from '../types';
 import { schemaService } from '../services/schemaService';
+import { href } from '../services/routeTable';
 
 interface StructuredMatchCardProps {
   match: Match;
@@ -57,19 +58,19 @@ const StructuredMatchCard: React.FC<StructuredMatchCardProps> = ({
       {/* Organizer */}
       <div itemScope itemType="https://schema.org/Organization" style={{ display: 'none' }}>
         <meta itemProp="name" content={match.league.toString()} />
-        <meta itemProp="url" content={`/league/${match.league.toLowerCase().replace(/\s+/g, '-')}`} />
+        <meta itemProp="url" content={href('league', { league: match.league })} />
       </div>
 
       {/* Home Team */}
       <div itemScope itemType="https://schema.org/SportsTeam" style={{ display: 'none' }}>
         <meta itemProp="name" content={match.homeTeam} />
-        <meta itemProp="url" content={`/team/${match.homeTeam.toLowerCase().replace(/\s+/g, '-')}`} />
+        <meta itemProp="url" content={href('team', { team: match.homeTeam })} />
       </div>
 
       {/* Away Team */}
       <div itemScope itemType="https://schema.org/SportsTeam" style={{ display: 'none' }}>
         <meta itemProp="name" content={match.awayTeam} />
-        <meta itemProp="url" content={`/team/${match.awayTeam.toLowerCase().replace(/\s+/g, '-')}`} />
+        <meta itemProp="url" content={href('team', { team: match.awayTeam })} />
       </div>
 
       {/* Sport */}
@@ -77,7 +78,7 @@ const StructuredMatchCard: React.FC<StructuredMatchCardProps> = ({
 
       {/* Offers */}
       <div itemScope itemType="https://schema.org/Offer" style={{ display: 'none' }}>
-        <meta itemProp="url" content={`/match/${match.id}`} />
+        <meta itemProp="url" content={href('match', { matchId: match.id })} />
         <meta itemProp="price" content="0" />
         <meta itemProp="priceCurrency" content="USD" />
         <meta itemProp="availability" content="https://schema.org/InStock" />
@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import { Match } from '../types';
 import { schemaService } from '../services/schemaService';
+import { href } from '../services/routeTable';
 
 interface StructuredMatchPageProps {
   match: Match;
@@ -76,7 +77,7 @@ const StructuredMatchPage: React.FC<StructuredMatchPageProps> = ({ match, childr
           <div itemProp="name" className="text-gray-700">
             {match.league.toString()}
           </div>
-          <a itemProp="url" href={`/league/${match.league.toLowerCase().replace(/\s+/g, '-')}`} className="text-blue-600 hover:text-blue-800">
+          <a itemProp="url" href={href('league', { league: match.league })} className="text-blue-600 hover:text-blue-800">
             View League
           </a>
         </div>
@@ -90,7 +91,7 @@ const StructuredMatchPage: React.FC<StructuredMatchPageProps> = ({ match, childr
               <h3 itemProp="name" className="text-lg font-semibold text-gray-900 mb-2">
                 {match.homeTeam}
               </h3>
-              <a itemProp="url" href={`/team/${match.homeTeam.toLowerCase().replace(/\s+/g, '-')}`} className="text-blue-600 hover:text-blue-800">
+              <a itemProp="url" href={href('team', { team: match.homeTeam })} className="text-blue-600 hover:text-blue-800">
                 View Team
               </a>
             </div>
@@ -100,7 +101,7 @@ const StructuredMatchPage: React.FC<StructuredMatchPageProps> = ({ match, childr
               <h3 itemProp="name" className="text-lg font-semibold text-gray-900 mb-2">
                 {match.awayTeam}
               </h3>
-              <a itemProp="url" href={`/team/${match.awayTeam.toLowerCase().replace(/\s+/g, '-')}`} className="text-blue-600 hover:text-blue-800">
+              <a itemProp="url" href={href('team', { team: match.awayTeam })} className="text-blue-600 hover:text-blue-800">
                 View Team
               </a>
             </div>
@@ -115,7 +116,7 @@ const StructuredMatchPage: React.FC<StructuredMatchPageProps> = ({ match, childr
           <h2 className="text-lg font-semibold text-gray-900 mb-2">Event Details</h2>
           <div className="bg-blue-50 p-4 rounded-lg">
             <div itemProp="url" className="text-blue-600 hover:text-blue-800">
-              <a href={`/match/${match.id}`}>View Match Details</a>
+              <a href={href('match', { matchId: match.id })}>View Match Details</a>
             </div>
             <div itemProp="price" className="text-gray-700">
               Free to watch
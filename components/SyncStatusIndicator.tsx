@@ -5,6 +5,7 @@
 
 import React, { useState } from 'react';
 import { usePredictionSync } from '../hooks/usePredictionSync';
+import { PredictionSyncRecord } from '../services/advancedPredictionSyncService';
 
 interface SyncStatusIndicatorProps {
   className?: string;
@@ -20,13 +21,22 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
     isOnline, 
     pendingSync, 
     conflicts, 
+    conflictQueue,
     errors, 
     forceSync, 
+    resolveConflict,
     clearErrors 
   } = usePredictionSync();
 
   const [isSyncing, setIsSyncing] = useState(false);
   const [showErrorDetails, setShowErrorDetails] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [mergeFailed, setMergeFailed] = useState<string | null>(null);
+
+  const handleResolve = async (matchId: string, strategy: 'local' | 'cloud' | 'merge') => {
+    const resolved = await resolveConflict(matchId, strategy);
+    setMergeFailed(!resolved && strategy === 'merge' ? matchId : null);
+  };
 
   const handleForceSync = async () => {
     setIsSyncing(true);
@@ -88,6 +98,16 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
         </button>
       )}
 
+      {/* Conflict Review Toggle */}
+      {conflicts > 0 && (
+        <button
+          onClick={() => setShowConflicts(!showConflicts)}
+          className="text-xs text-yellow-400 hover:text-yellow-300"
+        >
+          {showConflicts ? 'Hide' : 'Review'} Conflicts
+        </button>
+      )}
+
       {/* Error Details Toggle */}
       {errors.length > 0 && (
         <button
@@ -106,6 +126,34 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
         </div>
       )}
 
+      {/* Conflict Review */}
+      {showConflicts && conflictQueue.length > 0 && (
+        <div className="absolute top-8 right-0 bg-gray-800 border border-gray-600 rounded-lg p-3 shadow-lg z-50 w-80">
+          <h4 className="text-sm font-semibold text-yellow-400 mb-2">Sync Conflicts</h4>
+          <p className="text-xs text-gray-400 mb-2">These predictions were changed on two devices while offline.</p>
+          <div className="space-y-3 max-h-72 overflow-y-auto">
+            {conflictQueue.map(conflict => (
+              <div key={conflict.matchId} className="bg-gray-700 rounded p-2">
+                <div className="text-xs text-white font-medium mb-1">Match {conflict.matchId}</div>
+                {conflict.reason && <div className="text-[11px] text-gray-400 mb-2">{conflict.reason}</div>}
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <ConflictVersion label="This device" record={conflict.localVersion} />
+                  <ConflictVersion label="Other device" record={conflict.cloudVersion} />
+                </div>
+                <div className="flex space-x-1">
+                  <button onClick={() => handleResolve(conflict.matchId, 'local')} className="flex-1 px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-500 text-white">Keep mine</button>
+                  <button onClick={() => handleResolve(conflict.matchId, 'cloud')} className="flex-1 px-2 py-1 text-xs rounded bg-gray-600 hover:bg-gray-500 text-white">Use other</button>
+                  <button onClick={() => handleResolve(conflict.matchId, 'merge')} className="flex-1 px-2 py-1 text-xs rounded bg-gray-600 hover:bg-gray-500 text-white">Merge</button>
+                </div>
+                {mergeFailed === conflict.matchId && (
+                  <div className="text-[11px] text-red-400 mt-1">Merge needs a prediction made before kickoff; pick a version instead.</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Error Details */}
       {showErrorDetails && errors.length > 0 && (
         <div className="absolute top-8 right-0 bg-gray-800 border border-gray-600 rounded-lg p-3 shadow-lg z-50 min-w-64">
@@ -131,5 +179,14 @@ const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
   );
 };
 
+const ConflictVersion: React.FC<{ label: string; record: PredictionSyncRecord }> = ({ label, record }) => (
+  <div className="text-[11px] text-gray-300">
+    <div className="text-gray-400">{label}</div>
+    <div>{record.prediction.predictedScoreline || '—'} · {Math.round(record.prediction.homeWinProbability || 0)}/{Math.round(record.prediction.drawProbability || 0)}/{Math.round(record.prediction.awayWinProbability || 0)}</div>
+    {record.annotations?.note && <div className="truncate" title={record.annotations.note}>📝 {record.annotations.note}</div>}
+    <div className="text-gray-500">{new Date(record.metadata.modified).toLocaleString()}</div>
+  </div>
+);
+
 export default SyncStatusIndicator;
 
@@ -1,34 +1,39 @@
 import React, { useMemo, useState } from 'react';
 import { useParams, useNavigate, Navigate } from 'react-router-dom';
 import { useAppContext } from '../contexts/AppContext';
-import { getTeamData } from '../services/teamDataService';
-import { getTeamDetails } from '../services/footballApiService';
+import { getAllKnownTeams, getTeamData, resolveTeamName } from '../services/teamDataService';
+import { getFootballNews } from '../services/newsService';
+import { href, teamFromParam } from '../services/routeTable';
+import { TeamRouteData, routeLoader } from '../services/routeLoaders';
+import { useRouteData } from '../hooks/useRouteData';
 import TeamLogo from './TeamLogo';
 import MatchCard from './MatchCard';
-import { View, Player, Transfer, Injury, MatchResult } from '../types';
+import { View, Player, Transfer, Injury, MatchResult, League, NewsArticle } from '../types';
 import TeamFormChart from './TeamFormChart';
+import EloRatingHistory from './EloRatingHistory';
 import LoadingSpinner from './LoadingSpinner';
+import SeasonProjection from './SeasonProjection';
+import NewsArticleCard from './NewsArticleCard';
 
 interface TeamPageProps {
   onNavigate: (view: View) => void;
 }
 
 const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
-  const { teamName: encodedTeamName } = useParams<{ teamName: string }>();
+  const { team: teamParam = '' } = useParams<{ team: string }>();
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<'overview' | 'squad' | 'stats' | 'fixtures' | 'transfers'>('overview');
-  const [loading, setLoading] = useState(false);
 
-  // Decode the team name from URL
-  const teamName = encodedTeamName ? decodeURIComponent(encodedTeamName) : '';
+  const { teams, fixtures, favoriteTeams, toggleFavoriteTeam, getTeamForm, addToast, getCachedTeamData, refreshTeamDetails, leagueTables, loadLeagueTable } = useAppContext();
 
-  // If no team name, redirect to fixtures
-  if (!teamName) {
-    return <Navigate to="/fixtures" replace />;
-  }
+  // Resolve the slug from the URL to a team's display name
+  const teamName = useMemo(() => teamFromParam(teamParam, [
+    ...Object.keys(teams),
+    ...fixtures.flatMap(f => [f.homeTeam, f.awayTeam]),
+    ...Object.keys(getAllKnownTeams())
+  ]), [teamParam, teams, fixtures]);
+  const canonicalPath = href('team', { team: teamName });
 
-  const { teams, fixtures, favoriteTeams, toggleFavoriteTeam, getTeamForm, addToast, getTeamDetails, getCachedTeamData, refreshTeamDetails } = useAppContext();
-  
   // Get team data with API enrichment and fallback
   const [teamData, setTeamData] = React.useState(() => {
     // First check if we have cached detailed data
@@ -41,45 +46,52 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
     return teams[teamName] || getTeamData(teamName);
   });
 
+  // Detailed data comes from the team route's loader, usually prefetched when the link was hovered
+  const routeData = useRouteData<TeamRouteData>(canonicalPath);
+  const [refreshing, setRefreshing] = useState(false);
+  const loading = routeData.loading || refreshing;
+
   React.useEffect(() => {
-    let isMounted = true;
-
-    const fetchTeamData = async () => {
-      // Check if we already have detailed data (either cached or previously loaded)
-      const cached = getCachedTeamData(teamName);
-      if (cached && cached.squad && cached.seasonStats) {
-        console.log(`📋 ${teamName} already has comprehensive data`);
-        if (isMounted) {
-          setTeamData(cached);
-        }
-        return;
-      }
-
-      setLoading(true);
-      try {
-        console.log(`🔍 Fetching detailed data for ${teamName}...`);
-        const apiTeam = await getTeamDetails(teamName);
-        if (isMounted && apiTeam) {
-          // Derive league from any fixture containing the team if missing
-          const leagueFromFixtures = fixtures.find(f => f.homeTeam === teamName || f.awayTeam === teamName)?.league;
-          const enrichedData = {
-            ...apiTeam,
-            league: apiTeam.league || leagueFromFixtures || teamData.league
-          };
-          setTeamData(enrichedData);
-          console.log(`✅ Successfully loaded detailed data for ${teamName}`);
-        }
-      } catch (e) {
-        console.error(`❌ Failed to fetch detailed data for ${teamName}:`, e);
-        addToast('Failed to load team details - using available data', 'warning');
-      } finally {
-        if (isMounted) setLoading(false);
-      }
-    };
-
-    fetchTeamData();
-    return () => { isMounted = false; };
-  }, [teamName, fixtures, addToast, getTeamDetails, getCachedTeamData, teamData.league]);
+    const apiTeam = routeData.data?.team;
+    if (!apiTeam) return;
+    // Derive league from any fixture containing the team if missing
+    const leagueFromFixtures = fixtures.find(f => f.homeTeam === teamName || f.awayTeam === teamName)?.league;
+    setTeamData(previous => ({
+      ...apiTeam,
+      league: apiTeam.league || leagueFromFixtures || previous.league
+    }));
+    console.log(`✅ Successfully loaded detailed data for ${teamName}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeData.data]);
+
+  React.useEffect(() => {
+    if (routeData.error) {
+      console.error(`❌ Failed to fetch detailed data for ${teamName}:`, routeData.error);
+      addToast('Failed to load team details - using available data', 'warning');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeData.error]);
+
+  // Stories tagged with this team by the news aggregator
+  const [news, setNews] = useState<NewsArticle[]>([]);
+  React.useEffect(() => {
+    let cancelled = false;
+    getFootballNews({ team: resolveTeamName(teamName), pageSize: 6 })
+      .then(page => { if (!cancelled) setNews(page.articles); })
+      .catch(err => console.warn(`Failed to load news for ${teamName}:`, err));
+    return () => { cancelled = true; };
+  }, [teamName]);
+
+  // Standings for the season outlook; load the league table if we don't have it yet
+  const teamLeague = teamData.league as League | undefined;
+  const leagueTable = teamLeague ? leagueTables[teamLeague] : undefined;
+  React.useEffect(() => {
+    if (teamLeague && !leagueTables[teamLeague] && typeof loadLeagueTable === 'function') {
+      loadLeagueTable(teamLeague).catch(err => console.warn(`Failed to load ${teamLeague} table:`, err));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teamLeague]);
+
   const isFavorite = favoriteTeams.includes(teamName);
   const formAnalysis = getTeamForm(teams[teamName]?.id || 0, teamName);
   
@@ -118,6 +130,14 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
     }
   };
 
+  // Old links used the encoded display name; move them to the slug URL
+  if (!teamParam) {
+    return <Navigate to={href('fixtures')} replace />;
+  }
+  if (teamParam !== canonicalPath.slice(canonicalPath.lastIndexOf('/') + 1)) {
+    return <Navigate to={canonicalPath} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100">
       <div className="container mx-auto px-4 py-6">
@@ -141,17 +161,18 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
             {!loading && (
               <button
                 onClick={async () => {
-                  setLoading(true);
+                  setRefreshing(true);
                   try {
                     const refreshedData = await refreshTeamDetails(teamName);
                     if (refreshedData) {
+                      routeLoader.invalidate(canonicalPath);
                       setTeamData(refreshedData);
                       addToast('Team details refreshed!', 'success');
                     }
                   } catch (error) {
                     addToast('Failed to refresh team details', 'error');
                   } finally {
-                    setLoading(false);
+                    setRefreshing(false);
                   }
                 }}
                 className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
@@ -278,6 +299,11 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
           {/* Overview Tab */}
           {activeTab === 'overview' && (
             <div className="space-y-6">
+              {/* Season Outlook */}
+              {teamLeague && leagueTable && leagueTable.length > 0 && (
+                <SeasonProjection league={teamLeague} table={leagueTable} variant="team" teamName={teamName} />
+              )}
+
               {/* Data Completeness Status */}
               <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
                 <h3 className="text-lg font-bold text-white mb-4">Data Status</h3>
@@ -393,6 +419,18 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
                   </div>
                 </div>
               )}
+
+              {/* Latest News */}
+              {news.length > 0 && (
+                <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+                  <h3 className="text-xl font-bold text-white mb-4">Latest News</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {news.map(article => (
+                      <NewsArticleCard key={article.id} article={article} currentTeam={resolveTeamName(teamName)} />
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -455,6 +493,7 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
           {/* Statistics Tab */}
           {activeTab === 'stats' && (
             <div className="space-y-6">
+              <EloRatingHistory teamName={teamName} league={teamData.league as string | undefined} />
               {teamData.seasonStats && (
                 <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
                   <h3 className="text-xl font-bold text-white mb-6">Season Statistics</h3>
@@ -509,8 +548,8 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
                       <MatchCard
                         key={match.id}
                         match={match}
-                        onSelectMatch={(m) => navigate(`/match/${m.id}`, { state: { match: m } })}
-                        onSelectTeam={(team) => navigate(`/team/${encodeURIComponent(team)}`)}
+                        onSelectMatch={(m) => navigate(href('match', { matchId: m.id }), { state: { match: m } })}
+                        onSelectTeam={(team) => navigate(href('team', { team }))}
                         compact={true}
                       />
                     ))}
@@ -527,8 +566,8 @@ const TeamPage: React.FC<TeamPageProps> = ({ onNavigate }) => {
                       <MatchCard
                         key={match.id}
                         match={match}
-                        onSelectMatch={(m) => navigate(`/match/${m.id}`, { state: { match: m } })}
-                        onSelectTeam={(team) => navigate(`/team/${encodeURIComponent(team)}`)}
+                        onSelectMatch={(m) => navigate(href('match', { matchId: m.id }), { state: { match: m } })}
+                        onSelectTeam={(team) => navigate(href('team', { team }))}
                         compact={true}
                       />
                     ))}
@@ -1,12 +1,13 @@
 import React, { createContext, useState, useCallback, useMemo, useContext, ReactNode, useEffect, useRef } from 'react';
 import { nowLondonDateString, isSameLondonDay } from '../utils/timezone';
-import { Match, Prediction, Toast as ToastType, Alert, PastPrediction, Team, LeagueTableRow, League, AppData, AlertType, PredictionAccuracy, AccuracyStats, LiveMatch, LiveMatchUpdate, ConfidenceLevel } from '../types';
+import { Match, Prediction, Toast as ToastType, Alert, PastPrediction, Team, LeagueTableRow, League, AppData, AlertType, PredictionAccuracy, AccuracyStats, LiveMatch, LiveMatchUpdate, ConfidenceLevel, SettlementResult } from '../types';
 import { getMatchPrediction } from '../services/geminiService';
 import { buildContextForMatch } from '../utils/contextUtils';
 import { getAllKnownTeams, getTeamData } from '../services/teamDataService';
-import { calculatePredictionAccuracy, calculateAccuracyStats, formatAccuracyDisplay, getLiveAccuracyStats, checkAndUpdateMatchResults, getStoredAccuracyData } from '../services/accuracyService';
+import { calculateAccuracyStats, formatAccuracyDisplay, getLiveAccuracyStats, checkAndUpdateMatchResults, getStoredAccuracyData } from '../services/accuracyService';
 import { autoPredictionService } from '../services/autoPredictionService';
 import { getLiveMatches, getLiveMatchUpdates, isMatchLive } from '../services/liveMatchService';
+import { settlePrediction, buildSettlementFromLiveMatch } from '../services/marketSettlement';
 import { getFormAnalysis } from '../services/formAnalysisService';
 import type { FormAnalysis } from '../types';
 import { loadingStateService } from '../services/loadingStateService';
@@ -28,6 +29,10 @@ import {
 } from '../services/footballApiService';
 // // import { generatePredictionsForMatches } from '../services/predictionService';
 import { advancedPredictionSyncService } from '../services/advancedPredictionSyncService';
+import { eloRatingService } from '../services/eloRatingService';
+import { clientStore } from '../services/clientStore';
+import { searchService } from '../services/searchService';
+import { ConfidenceModel, fitConfidenceModel } from '../services/confidenceModel';
 
 interface AppContextType {
     // State
@@ -45,6 +50,7 @@ interface AppContextType {
     lastUpdated: { fixtures?: number; teams?: number; tables?: number };
     accuracyRecords: PredictionAccuracy[];
     accuracyStats: AccuracyStats;
+    confidenceModel: ConfidenceModel;
     liveMatches: LiveMatch[];
     liveMatchUpdates: { [matchId: string]: LiveMatchUpdate };
     teamCache: { [teamName: string]: { data: Team; timestamp: number; expiresAt: number } };
@@ -62,7 +68,7 @@ interface AppContextType {
     addAlert: (alert: Omit<Alert, 'id' | 'timestamp' | 'read'>) => void;
     markAlertsAsRead: () => void;
     loadLeagueTable: (league: League) => Promise<void>;
-    recordPredictionAccuracy: (matchId: string, actualResult: { homeScore: number; awayScore: number }) => void;
+    recordPredictionAccuracy: (matchId: string, actualResult: SettlementResult) => void;
     getAccuracyDisplay: () => string;
     generateTodaysPredictions: () => Promise<{ success: number; failed: number; total: number }>;
     getLiveAccuracyStats: () => AccuracyStats;
@@ -98,7 +104,6 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
     const [alerts, setAlerts] = useState<Alert[]>([]);
     const [toasts, setToasts] = useState<ToastType[]>([]);
     const [predictionCache, setPredictionCache] = useState<{ [matchId: string]: Prediction }>({});
-    const hasLocalStorage = typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
     const [lastUpdated, setLastUpdated] = useState<{ fixtures?: number; teams?: number; tables?: number }>({});
     const [accuracyRecords, setAccuracyRecords] = useState<PredictionAccuracy[]>([]);
     const [accuracyStats, setAccuracyStats] = useState<AccuracyStats>({
@@ -120,31 +125,28 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
     const [teamCache, setTeamCache] = useState<{ [teamName: string]: { data: Team; timestamp: number; expiresAt: number } }>({});
     const [fixtureError, setFixtureError] = useState<string | null>(null);
 
-    // Keys for persistent caches
-    const FIXTURES_CACHE_KEY = 'fixturecast_fixtures_cache_v1';
-    const TABLES_CACHE_KEY = 'fixturecast_tables_cache_v1';
-    const TEAMS_CACHE_KEY = 'fixturecast_teams_cache_v1';
-    const TEAM_CACHE_KEY = 'fixturecast_team_cache_v1';
-    const ACCURACY_CACHE_KEY = 'fixturecast_accuracy_cache_v1';
-
-    // Persist and hydrate prediction cache to avoid re-calling Gemini unnecessarily
+    // Persist and hydrate prediction cache to avoid re-calling Gemini unnecessarily.
+    // Writes wait for the client store so an empty first render can't overwrite stored predictions.
+    const predictionCacheHydrated = useRef(false);
     useEffect(() => {
-        if (!hasLocalStorage) return;
-        try {
-            const raw = window.localStorage.getItem('fixturecast_prediction_cache');
-            if (raw) {
-                const parsed = JSON.parse(raw) as { [matchId: string]: Prediction };
-                setPredictionCache(parsed);
-            }
-        } catch (error) {
-            console.warn('Failed to load prediction cache:', error);
-        }
+        let cancelled = false;
+        const unsubscribe = clientStore.subscribe('predictionCache', cache => setPredictionCache(cache));
+        clientStore.ready().then(() => {
+            if (cancelled) return;
+            setPredictionCache(prev => ({ ...clientStore.get('predictionCache'), ...prev }));
+            predictionCacheHydrated.current = true;
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
     }, []);
 
     useEffect(() => {
-        if (!hasLocalStorage) return;
+        if (!predictionCacheHydrated.current) return;
+        if (clientStore.get('predictionCache') === predictionCache) return;
         try {
-            window.localStorage.setItem('fixturecast_prediction_cache', JSON.stringify(predictionCache));
+            clientStore.set('predictionCache', predictionCache);
         } catch (error) {
             console.warn('Failed to save prediction cache:', error);
         }
@@ -152,41 +154,40 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
 
     const [isLoading, setIsLoading] = useState(true);
 
-    // Hydrate cached fixtures/tables/teams ASAP to avoid empty UI when API budget is exhausted
+    // Hydrate cached fixtures/tables/teams ASAP to avoid empty UI when API budget is exhausted.
+    // Only fills state that is still empty, so data fetched meanwhile is never replaced.
     useEffect(() => {
-        if (!hasLocalStorage) return;
-        try {
-            const fRaw = window.localStorage.getItem(FIXTURES_CACHE_KEY);
-            const tRaw = window.localStorage.getItem(TABLES_CACHE_KEY);
-            const teamsRaw = window.localStorage.getItem(TEAMS_CACHE_KEY);
-            
-            const cachedFixtures: Match[] = fRaw ? JSON.parse(fRaw) : [];
-            const cachedTables: { [key in League]?: LeagueTableRow[] } = tRaw ? JSON.parse(tRaw) : {};
-            const cachedTeams: { [key: string]: Team } = teamsRaw ? JSON.parse(teamsRaw) : {};
-            
-            if (Array.isArray(cachedFixtures) && cachedFixtures.length > 0) {
-                setAppData(prev => ({ ...prev, fixtures: cachedFixtures }));
-            }
-            if (cachedTables && Object.keys(cachedTables).length > 0) {
-                setAppData(prev => ({ ...prev, leagueTables: cachedTables }));
-            }
-            if (cachedTeams && Object.keys(cachedTeams).length > 0) {
-                setAppData(prev => ({ ...prev, teams: cachedTeams }));
-            }
+        let cancelled = false;
+        const hydrate = () => {
+            if (cancelled) return;
+            try {
+                const { fixtures: cachedFixtures, leagueTables: cachedTables, teams: cachedTeams } = clientStore.get('appDataCache');
 
-            // Load accuracy data using the enhanced accuracy service
-            // This will automatically load historical data if needed
-            const accuracyData = getStoredAccuracyData();
-            if (accuracyData && accuracyData.length > 0) {
-                setAccuracyRecords(accuracyData);
-                const stats = calculateAccuracyStats(accuracyData);
-                setAccuracyStats(stats);
-                console.log(`✅ Loaded ${accuracyData.length} accuracy records from enhanced accuracy service`);
+                setAppData(prev => ({
+                    ...prev,
+                    fixtures: prev.fixtures.length === 0 && Array.isArray(cachedFixtures) && cachedFixtures.length > 0 ? cachedFixtures : prev.fixtures,
+                    leagueTables: Object.keys(prev.leagueTables).length === 0 && cachedTables && Object.keys(cachedTables).length > 0 ? cachedTables : prev.leagueTables,
+                    teams: Object.keys(prev.teams).length === 0 && cachedTeams && Object.keys(cachedTeams).length > 0 ? cachedTeams : prev.teams
+                }));
+
+                // Load accuracy data using the enhanced accuracy service
+                // This will automatically load historical data if needed
+                const accuracyData = getStoredAccuracyData();
+                if (accuracyData && accuracyData.length > 0) {
+                    setAccuracyRecords(prev => (prev.length > 0 ? prev : accuracyData));
+                    setAccuracyStats(prev => (prev.totalPredictions > 0 ? prev : calculateAccuracyStats(accuracyData)));
+                    console.log(`✅ Loaded ${accuracyData.length} accuracy records from enhanced accuracy service`);
+                }
+            } catch (error) {
+                console.warn('Failed to load cached data:', error);
             }
-        } catch (error) {
-            console.warn('Failed to load cached data:', error);
-        }
-    }, [hasLocalStorage]);
+        };
+
+        hydrate();
+        clientStore.ready().then(hydrate);
+        clientStore.checkQuota();
+        return () => { cancelled = true; };
+    }, []);
 
     const addToast = useCallback((message: string, type: ToastType['type'] = 'info') => {
         const id = new Date().toISOString() + Math.random();
@@ -223,6 +224,7 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
                                 if (pastPredictionsRes.ok) {
                                     pastPredictions = await pastPredictionsRes.json();
                                     setPastPredictions(pastPredictions);
+                                    eloRatingService.ingestPastPredictions(pastPredictions);
                                 } else {
                                     console.warn('Past predictions fetch non-200:', pastPredictionsRes.status);
                                 }
@@ -429,7 +431,7 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
             }
 
             for (const batch of batches) {
-                if (!hasBudget()) {
+                if (!hasBudget(batch.length, 'teams')) {
                     console.warn('⏸️ API budget reached during team pre-fetching');
                     addToast("API budget reached - some team details may load on demand", "warning");
                     break;
@@ -664,21 +666,26 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
 
     // Persist fixtures/tables/teams caches whenever they change
     useEffect(() => {
-        if (!hasLocalStorage) return;
         try {
-            if (appData.fixtures && appData.fixtures.length > 0) {
-                window.localStorage.setItem(FIXTURES_CACHE_KEY, JSON.stringify(appData.fixtures));
-            }
-            if (appData.leagueTables && Object.keys(appData.leagueTables).length > 0) {
-                window.localStorage.setItem(TABLES_CACHE_KEY, JSON.stringify(appData.leagueTables));
-            }
-            if (appData.teams && Object.keys(appData.teams).length > 0) {
-                window.localStorage.setItem(TEAMS_CACHE_KEY, JSON.stringify(appData.teams));
-            }
+            const hasFixtures = appData.fixtures && appData.fixtures.length > 0;
+            const hasTables = appData.leagueTables && Object.keys(appData.leagueTables).length > 0;
+            const hasTeams = appData.teams && Object.keys(appData.teams).length > 0;
+            if (!hasFixtures && !hasTables && !hasTeams) return;
+
+            clientStore.update('appDataCache', cached => ({
+                fixtures: hasFixtures ? appData.fixtures : cached.fixtures,
+                leagueTables: hasTables ? appData.leagueTables : cached.leagueTables,
+                teams: hasTeams ? appData.teams : cached.teams
+            }));
         } catch (error) {
-            console.warn('Failed to persist cache to localStorage:', error);
+            console.warn('Failed to persist app data cache:', error);
         }
-    }, [appData.fixtures, appData.leagueTables, appData.teams, hasLocalStorage]);
+    }, [appData.fixtures, appData.leagueTables, appData.teams]);
+
+    // Keep the global search index in step with the loaded fixtures and teams
+    useEffect(() => {
+        searchService.indexContent(appData.fixtures, { ...getAllKnownTeams(), ...appData.teams });
+    }, [appData.fixtures, appData.teams]);
 
     // Load a specific league table on-demand and update state
     const loadLeagueTable = useCallback(async (league: League) => {
@@ -877,17 +884,23 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
     }, [predictionCache, pastPredictions, appData.leagueTables]);
 
     // Record prediction accuracy when actual results are available
-    const recordPredictionAccuracy = useCallback((matchId: string, actualResult: { homeScore: number; awayScore: number }) => {
+    const recordPredictionAccuracy = useCallback((matchId: string, result: SettlementResult) => {
         const prediction = predictionCache[matchId];
         if (!prediction) return;
 
-        const accuracy = calculatePredictionAccuracy(prediction, actualResult);
+        // Half-time score and goal events from the live feed settle HT/FT and first scorer
+        const liveMatch = liveMatches.find(match => match.id === matchId);
+        const actualResult: SettlementResult = liveMatch
+            ? { ...buildSettlementFromLiveMatch({ ...liveMatch, homeScore: result.homeScore, awayScore: result.awayScore }), ...result }
+            : result;
+        const { accuracy, voidMarkets } = settlePrediction(prediction, actualResult);
         
         const accuracyRecord: PredictionAccuracy = {
             matchId,
             prediction,
             actualResult,
             accuracy,
+            voidMarkets,
             timestamp: new Date().toISOString()
         };
 
@@ -900,18 +913,16 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
             const stats = calculateAccuracyStats(trimmed);
             setAccuracyStats(stats);
             
-            // Persist to localStorage
-            if (hasLocalStorage) {
-                try {
-                    localStorage.setItem(ACCURACY_CACHE_KEY, JSON.stringify(trimmed));
-                } catch (error) {
-                    console.warn('Failed to save accuracy records:', error);
-                }
+            // Persist to the client store
+            try {
+                clientStore.set('recentAccuracy', trimmed);
+            } catch (error) {
+                console.warn('Failed to save accuracy records:', error);
             }
             
             return trimmed;
         });
-    }, [predictionCache, hasLocalStorage]);
+    }, [predictionCache, liveMatches]);
 
     // Get formatted accuracy display
     const getAccuracyDisplay = useCallback(() => {
@@ -995,7 +1006,8 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
         try {
             // Prevent multiple runs within the same day
             const todayKey = nowLondonDateString();
-            const lastRun = hasLocalStorage ? window.localStorage.getItem('fixturecast_last_prediction_refresh') : null;
+            await clientStore.ready();
+            const lastRun = clientStore.get('lastPredictionRefresh');
             if (lastRun === todayKey) return;
 
             // Fetch predictions for all currently loaded fixtures
@@ -1018,9 +1030,7 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
                 await new Promise(r => setTimeout(r, 200));
             }
 
-            if (hasLocalStorage) {
-                window.localStorage.setItem('fixturecast_last_prediction_refresh', todayKey);
-            }
+            clientStore.set('lastPredictionRefresh', todayKey);
             addToast('Predictions updated for today', 'success');
         } catch (e) {
             console.error('Failed daily predictions refresh', e);
@@ -1049,6 +1059,7 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
     
     const unreadAlertsCount = useMemo(() => (alerts || []).filter(a => !a.read).length, [alerts]);
     const apiUsage = useMemo(() => getApiUsage(), []);
+    const confidenceModel = useMemo(() => fitConfidenceModel(accuracyRecords), [accuracyRecords]);
 
     const addAlert = useCallback((alert: Omit<Alert, 'id' | 'timestamp' | 'read'>) => {
         const newAlert: Alert = {
@@ -1127,6 +1138,7 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
                 
                 if (results.length > 0) {
                     await checkAndUpdateMatchResults(results);
+                    eloRatingService.ingestFinishedFixtures(results);
                     console.log(`✅ Checked ${results.length} completed matches for accuracy updates`);
                 } else {
                     console.log('📝 No new completed matches found');
@@ -1251,6 +1263,7 @@ export const AppProvider: React.FC<{ children: ReactNode; value?: Partial<AppCon
         lastUpdated,
         accuracyRecords,
         accuracyStats,
+        confidenceModel,
         liveMatches,
         liveMatchUpdates,
         teamCache,
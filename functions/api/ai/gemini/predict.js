@@ -1,6 +1,7 @@
 // Cloudflare Pages Function: Gemini prediction proxy
 // Accepts POST with match + optional context, returns structured prediction JSON
 // Uses server-side GEMINI_API_KEY secret; never expose key to client.
+import { promptRegistry, CLIENT_SUPPLIED_SLOTS, formatPromptVersion } from '../../../../services/promptRegistry';
 
 export async function onRequest(context) {
   const { request, env } = context;
@@ -37,7 +38,7 @@ export async function onRequest(context) {
     return new Response(JSON.stringify({ error: 'Invalid JSON body'}), { status: 400, headers: { ...cors, 'Content-Type':'application/json' } });
   }
 
-  const { match, context: matchContext, accuracyStats } = body || {};
+  const { match, context: matchContext, accuracyStats, promptVersion, promptSlots } = body || {};
   if (!match || !match.homeTeam || !match.awayTeam) {
     return new Response(JSON.stringify({ error: 'match object with homeTeam & awayTeam required'}), { status: 400, headers: { ...cors, 'Content-Type':'application/json' } });
   }
@@ -45,7 +46,7 @@ export async function onRequest(context) {
   const start = Date.now();
 
   try {
-    const prompt = buildPrompt(match, matchContext);
+    const { text: prompt, promptVersion: renderedVersion } = buildPrompt(match, matchContext, promptVersion, promptSlots);
     const schema = buildResponseSchema();
 
     const upstreamResp = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${env.GEMINI_API_KEY}` , {
@@ -111,74 +112,26 @@ export async function onRequest(context) {
     normalizeProbabilities(parsed);
     const duration = Date.now() - start;
 
-    return new Response(JSON.stringify({ prediction: parsed, meta: { model: 'gemini-2.5-flash', durationMs: duration, server: 'pages-fn' }}), { status: 200, headers: { ...cors, 'Content-Type':'application/json' } });
+    return new Response(JSON.stringify({ prediction: parsed, meta: { model: 'gemini-2.5-flash', durationMs: duration, server: 'pages-fn', promptVersion: renderedVersion }}), { status: 200, headers: { ...cors, 'Content-Type':'application/json' } });
   } catch (e) {
     return new Response(JSON.stringify({ error: e.message || String(e) }), { status: 500, headers: { ...cors, 'Content-Type':'application/json' } });
   }
 }
 
-function buildPrompt(match, ctx) {
-  const base = `You are an advanced football prediction engine using state-of-the-art modeling techniques. Generate comprehensive predictions with detailed analysis.
-
-MATCH DETAILS
-- League: ${match.league || 'Unknown'}
-- Home Team: ${match.homeTeam}
-- Away Team: ${match.awayTeam}
-- Date: ${match.date}
-
-${ctx ? `CONTEXT DATA:\n${Object.entries(ctx).map(([k,v])=>`- ${k}: ${typeof v==='string'?v:JSON.stringify(v)}`).join('\n')}\n` : ''}
-
-ADVANCED MODELING APPROACH
-Apply these sophisticated techniques in your analysis:
-- ELO rating system with dynamic adjustments for recent form
-- Monte Carlo simulation for scoreline probabilities (consider 1000+ scenarios)
-- Temporal analysis with exponential decay weighting (recent matches weighted higher)
-- Bayesian inference for uncertainty quantification
-- Market efficiency principles (if this were a betting market, what would be fair odds?)
-- Weather/conditions impact on gameplay style
-- Referee tendencies and their impact on match flow
-- Psychological factors (pressure situations, rivalry intensity)
-- Squad rotation and fatigue modeling
-- Tactical matchup analysis (style compatibility)
-
-ENHANCED FEATURE ANALYSIS
-Consider these advanced metrics:
-- Attack/Defense efficiency rates adjusted for opposition quality  
-- xG trends over last 10 matches with opponent adjustment
-- Home advantage quantified by league and specific venue
-- Form momentum (not just W/L/D but performance quality trends)
-- Set-piece effectiveness (corners, free kicks conversion rates)
-- Discipline patterns (cards per game, impact on team shape)
-- Injury impact weighted by player importance (minutes played, key player index)
-- Fixture congestion effects on performance
-
-OUTPUT FORMAT REQUIREMENTS
-Return a JSON object with ALL required fields. Each field must be fully populated:
-
-- homeWinProbability: integer 0-100 (based on sophisticated modeling, not gut feeling)
-- drawProbability: integer 0-100  
-- awayWinProbability: integer 0-100
-- predictedScoreline: string (most likely outcome from Monte Carlo analysis)
-- confidence: string ("High", "Medium", or "Low" based on data quality and model agreement)
-- keyFactors: MANDATORY detailed array. Each object MUST have:
-  * "category": string (e.g., "Form Analysis", "Tactical Matchup", "Key Players", "Historical Trends")  
-  * "points": array of strings with SPECIFIC analysis points (NOT empty, NOT generic)
-  
-CRITICAL: keyFactors "points" arrays must contain specific, actionable insights like:
-  - "Arsenal averages 2.1 goals at home vs Chelsea's 0.8 away defensive record"
-  - "Forest's injury to key striker reduces their scoring threat by 35%"
-  - "Head-to-head shows 7 of last 10 meetings had under 2.5 goals"
-  
-- goalLine: object with "line" (typically 2.5), "overProbability", "underProbability"
-- btts: object with "yesProbability", "noProbability" based on attack/defense rates
-
-Do NOT return empty points arrays or vague statements. Every keyFactor must provide specific, data-driven insights.
-
-Apply rigorous statistical thinking. Consider base rates, regression to the mean, sample sizes, and uncertainty. Provide probabilities that reflect genuine analytical confidence, not artificial precision.
-
-Return ONLY the JSON object, no other text.`;
-  
-  return base;
+// Renders the shared prompt registry template. The client picks the version
+// (deterministic per match) and may only supply the real-time/analytics slots;
+// match and context slots are always rebuilt here.
+function buildPrompt(match, ctx, requestedVersion, clientSlots) {
+  const version = requestedVersion && promptRegistry.get('gemini-match', requestedVersion)
+    ? requestedVersion
+    : promptRegistry.assign('gemini-match', match.id ?? `${match.homeTeam}-${match.awayTeam}`).version;
+
+  const slots = promptRegistry.buildSlots(match, { context: ctx });
+  for (const name of CLIENT_SUPPLIED_SLOTS) {
+    if (typeof clientSlots?.[name] === 'string') slots[name] = clientSlots[name].slice(0, 8000);
+  }
+
+  return { text: promptRegistry.render('gemini-match', version, slots), promptVersion: formatPromptVersion('gemini-match', version) };
 }
 
 function buildResponseSchema() { return {}; }
@@ -0,0 +1,161 @@
+/**
+ * Cloudflare API Route - Live match feed over Server-Sent Events
+ *
+ * One poller per interval fetches /fixtures?live=all, diffs it against the
+ * previous snapshot in KV and appends goal/card/status deltas to the event log.
+ * Every connected browser reads that log, so API quota no longer scales with
+ * the number of clients. Clients resume with Last-Event-ID (or ?lastEventId=).
+ */
+
+import {
+  LIVE_FEED_STATE_KEY,
+  advanceLiveFeed,
+  createLiveFeedState,
+  eventsSince,
+  formatSseEvent,
+  isAllowedLiveFixture,
+  mapLiveFixture,
+  snapshotEvent
+} from '../../../services/liveFeed';
+
+const LOCK_KEY = 'live_feed_poll_lock';
+const POLL_INTERVAL_MS = 15000;   // One API call per interval across all clients
+const CHECK_INTERVAL_MS = 3000;   // How often each stream looks for new events
+const HEARTBEAT_MS = 15000;
+const STREAM_DURATION_MS = 50000; // Close before platform limits; EventSource reconnects with Last-Event-ID
+const RETRY_MS = 2000;
+
+export async function onRequest(context) {
+  const { request, env } = context;
+
+  if (request.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  if (!env.PREDICTIONS_KV || !env.FOOTBALL_API_KEY) {
+    return new Response(JSON.stringify({
+      error: 'Live feed not configured',
+      message: 'PREDICTIONS_KV and FOOTBALL_API_KEY are required'
+    }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const url = new URL(request.url);
+  const resumeFrom = request.headers.get('Last-Event-ID') ?? url.searchParams.get('lastEventId');
+  const parsedResume = resumeFrom !== null && resumeFrom !== '' ? Number(resumeFrom) : null;
+
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  const pump = async () => {
+    let lastSentId = parsedResume;
+    let lastWrite = Date.now();
+    const deadline = Date.now() + STREAM_DURATION_MS;
+    const send = async (text) => {
+      await writer.write(encoder.encode(text));
+      lastWrite = Date.now();
+    };
+
+    try {
+      await send(`retry: ${RETRY_MS}\n\n`);
+
+      while (Date.now() < deadline) {
+        const state = await refreshIfStale(env, await readState(env));
+        const missed = eventsSince(state, lastSentId);
+
+        if (missed === null) {
+          await send(formatSseEvent(snapshotEvent(state)));
+        } else {
+          for (const event of missed) {
+            await send(formatSseEvent(event));
+          }
+        }
+        lastSentId = state.lastEventId;
+
+        if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+          await send(': ping\n\n');
+        }
+        await new Promise(resolve => setTimeout(resolve, CHECK_INTERVAL_MS));
+      }
+    } catch (error) {
+      // Writes fail once the client has gone away
+      console.log('Live feed stream ended:', error.message);
+    } finally {
+      try {
+        await writer.close();
+      } catch {
+        // Already closed by the client
+      }
+    }
+  };
+
+  context.waitUntil(pump());
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+async function readState(env) {
+  try {
+    const stored = await env.PREDICTIONS_KV.get(LIVE_FEED_STATE_KEY);
+    return stored ? JSON.parse(stored) : createLiveFeedState();
+  } catch (error) {
+    console.error('Error reading live feed state:', error);
+    return createLiveFeedState();
+  }
+}
+
+/**
+ * Poll the football API when the snapshot is older than the poll interval.
+ * The KV lock is best effort (KV has no compare-and-set), so two isolates can
+ * occasionally both poll. Deltas carry absolute scores and events are
+ * de-duplicated on the client, so a repeated delta is harmless.
+ */
+async function refreshIfStale(env, state) {
+  const age = state.updatedAt ? Date.now() - Date.parse(state.updatedAt) : Infinity;
+  if (age < POLL_INTERVAL_MS) return state;
+
+  const lock = await env.PREDICTIONS_KV.get(LOCK_KEY);
+  if (lock && Date.now() - Number(lock) < POLL_INTERVAL_MS) return state;
+  await env.PREDICTIONS_KV.put(LOCK_KEY, String(Date.now()), { expirationTtl: 60 });
+
+  const fixtures = await fetchLiveFixtures(env);
+  if (!fixtures) return state;
+
+  const next = advanceLiveFeed(state, fixtures.filter(isAllowedLiveFixture).map(mapLiveFixture));
+  await env.PREDICTIONS_KV.put(LIVE_FEED_STATE_KEY, JSON.stringify(next));
+  console.log(`⚽ Live feed refreshed: ${next.matches.length} matches, ${next.lastEventId - state.lastEventId} new events`);
+  return next;
+}
+
+async function fetchLiveFixtures(env) {
+  try {
+    const response = await fetch('https://v3.football.api-sports.io/fixtures?live=all', {
+      headers: {
+        'x-rapidapi-key': env.FOOTBALL_API_KEY,
+        'x-rapidapi-host': 'v3.football.api-sports.io',
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      console.error(`Live fixtures request failed: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    return Array.isArray(data.response) ? data.response : null;
+  } catch (error) {
+    console.error('Error fetching live fixtures:', error);
+    return null;
+  }
+}
@@ -201,6 +201,7 @@ export async function onRequest(context) {
       'CREATE INDEX IF NOT EXISTS idx_training_records_date ON training_records(prediction_date)',
       'CREATE INDEX IF NOT EXISTS idx_training_records_league ON training_records(league)',
       'CREATE INDEX IF NOT EXISTS idx_training_records_model ON training_records(model_version)',
+      'CREATE INDEX IF NOT EXISTS idx_training_records_prompt ON training_records(prompt_version)',
       'CREATE INDEX IF NOT EXISTS idx_training_records_result ON training_records(actual_result)',
       'CREATE INDEX IF NOT EXISTS idx_model_performance_version ON model_performance(model_version)',
       'CREATE INDEX IF NOT EXISTS idx_feature_importance_version ON feature_importance(model_version, feature_category)'
@@ -1,4 +1,6 @@
 // Cloudflare Pages Function for storing prediction integrity data
+import { appendLedgerLeaf } from '../../../services/predictionLedger';
+
 export async function onRequest(context) {
   const { request, env } = context;
   
@@ -13,6 +15,7 @@ export async function onRequest(context) {
   const resolveKv = (envObj) => {
     if (envObj.PREDICTIONS_KV) return { kv: envObj.PREDICTIONS_KV, name: 'PREDICTIONS_KV' };
     for (const [key, value] of Object.entries(envObj)) {
+      if (key === 'LEDGER_KV') continue; // the ledger never doubles as prediction storage
       if (value && typeof value.get === 'function' && typeof value.put === 'function') {
         return { kv: value, name: key };
       }
@@ -76,7 +79,11 @@ export async function onRequest(context) {
 
     switch (request.method) {
       case 'POST':
-        return await handleStorePrediction(request, kv, corsHeaders);
+        // The X-API-Key ships in the client bundle, so only callers holding the
+        // server-side key may add ledger leaves; anyone else just stores the record
+        const ledgerAuthorized = !!env.PREDICTION_API_KEY
+          && request.headers.get('Authorization') === `Bearer ${env.PREDICTION_API_KEY}`;
+        return await handleStorePrediction(request, kv, corsHeaders, ledgerAuthorized ? env.LEDGER_KV : null);
       
       case 'PUT':
         return await handleVerifyPrediction(request, kv, corsHeaders);
@@ -105,7 +112,7 @@ export async function onRequest(context) {
 }
 
 // Store new prediction
-async function handleStorePrediction(request, kv, corsHeaders) {
+async function handleStorePrediction(request, kv, corsHeaders, ledgerKv) {
   const data = await request.json();
   
   // Validate required fields
@@ -135,6 +142,21 @@ async function handleStorePrediction(request, kv, corsHeaders) {
     integrityHash: await createIntegrityHash(data)
   };
 
+  // Commit to the public ledger (LEDGER_KV binding); the worker seals each day into a Merkle root
+  if (ledgerKv && data.matchDate) {
+    try {
+      const { leaf, leafHash, date } = await appendLedgerLeaf(ledgerKv, {
+        matchId: data.matchId,
+        kickoff: data.matchDate,
+        prediction: data.prediction,
+        source: 'app'
+      });
+      predictionRecord.ledger = { date, leafHash, predictedAt: leaf.predictedAt };
+    } catch (e) {
+      console.warn('⚠️ Ledger append failed:', e.message);
+    }
+  }
+
   // Store in Cloudflare KV
   const kvKey = `prediction:${data.matchId}`;
   await kv.put(kvKey, JSON.stringify(predictionRecord), {
@@ -173,7 +195,8 @@ async function handleStorePrediction(request, kv, corsHeaders) {
     success: true,
     predictionId: predictionRecord.id,
     message: 'Prediction stored successfully',
-    integrityHash: predictionRecord.integrityHash
+    integrityHash: predictionRecord.integrityHash,
+    ledger: predictionRecord.ledger || null
   }), {
     status: 201,
     headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -0,0 +1,101 @@
+/**
+ * Cloudflare API Route - Shared copy of synced predictions
+ *
+ * POST           issues a sync id; a user's devices share it to sync the same records.
+ * GET ?matchId=  returns the record every device reconciles against.
+ * PUT { record } stores it only if its version vector includes every edit
+ * already stored; otherwise 409 with the current record, so a device that
+ * missed another device's edits has to reconcile first (services/syncConflicts.ts).
+ *
+ * GET and PUT need an issued id in X-Sync-Id; records are kept per sync id.
+ */
+
+import { compareVectors, vectorOf } from '../../../services/syncConflicts';
+
+const KEY_PREFIX = 'sync:prediction:';
+const SYNC_ID_PREFIX = 'sync:id:';
+const RECORD_TTL_SECONDS = 90 * 24 * 60 * 60;
+const MAX_BODY_BYTES = 64 * 1024;
+const MATCH_ID_PATTERN = /^[\w-]{1,64}$/;
+const SYNC_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,PUT,POST,OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Sync-Id'
+};
+
+const json = (body, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...cors, 'Content-Type': 'application/json' }
+});
+
+const isRecord = (record) =>
+  record && typeof record === 'object' &&
+  typeof record.matchId === 'string' && MATCH_ID_PATTERN.test(record.matchId) &&
+  record.prediction && typeof record.prediction === 'object' &&
+  record.metadata && typeof record.metadata.deviceId === 'string' &&
+  (!record.metadata.vector || Object.values(record.metadata.vector).every(count => Number.isInteger(count) && count >= 0));
+
+// The request's sync id when it was issued here, else null
+const issuedSyncId = async (request, kv) => {
+  const syncId = request.headers.get('X-Sync-Id') || '';
+  if (!SYNC_ID_PATTERN.test(syncId)) return null;
+  return (await kv.get(`${SYNC_ID_PREFIX}${syncId}`)) ? syncId : null;
+};
+
+export async function onRequest(context) {
+  const { request, env } = context;
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: cors });
+  }
+
+  const kv = env.PREDICTIONS_KV;
+  if (!kv) {
+    return json({ error: 'KV binding missing', message: 'Bind PREDICTIONS_KV in Cloudflare Pages → Settings → Functions' }, 500);
+  }
+
+  if (request.method === 'POST') {
+    const syncId = crypto.randomUUID();
+    await kv.put(`${SYNC_ID_PREFIX}${syncId}`, new Date().toISOString(), { expirationTtl: RECORD_TTL_SECONDS });
+    return json({ syncId }, 201);
+  }
+
+  if (request.method !== 'GET' && request.method !== 'PUT') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const syncId = await issuedSyncId(request, kv);
+  if (!syncId) return json({ error: 'Sync id required', message: 'POST to this endpoint for a sync id and send it in X-Sync-Id' }, 401);
+
+  if (request.method === 'GET') {
+    const matchId = new URL(request.url).searchParams.get('matchId') || '';
+    if (!MATCH_ID_PATTERN.test(matchId)) return json({ error: 'matchId is required' }, 400);
+    const record = await kv.get(`${KEY_PREFIX}${syncId}:${matchId}`, 'json');
+    return record ? json({ record }) : json({ error: 'Not found' }, 404);
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) return json({ error: `Body must be under ${MAX_BODY_BYTES} bytes` }, 413);
+  let record;
+  try {
+    record = JSON.parse(text).record;
+  } catch {
+    return json({ error: 'Body must be JSON' }, 400);
+  }
+  if (!isRecord(record)) return json({ error: 'Invalid sync record' }, 400);
+
+  const key = `${KEY_PREFIX}${syncId}:${record.matchId}`;
+  const current = await kv.get(key, 'json');
+  if (current) {
+    const order = compareVectors(vectorOf(record), vectorOf(current));
+    if (order !== 'after' && order !== 'equal') return json({ error: 'Conflict', current }, 409);
+  }
+
+  const stored = { ...record, syncStatus: { local: false, cloud: true, pending: false, conflicted: false } };
+  await kv.put(key, JSON.stringify(stored), { expirationTtl: RECORD_TTL_SECONDS });
+  // An id in use stays issued as long as its records
+  await kv.put(`${SYNC_ID_PREFIX}${syncId}`, new Date().toISOString(), { expirationTtl: RECORD_TTL_SECONDS });
+  return json({ stored: true, matchId: record.matchId, version: record.metadata.version });
+}
@@ -1,17 +1,25 @@
 // Sitemap API endpoint for Cloudflare Pages
 export async function onRequest(context) {
-  const { request } = context;
-  
+  const { request, env } = context;
+
   try {
     // Import the sitemap generator
     const { sitemapGenerator } = await import('../../utils/sitemapGenerator.ts');
-    
-    // Get matches data (you might want to fetch this from your API)
-    const matches = []; // This would be populated with actual match data
-    
-    // Generate sitemap
-    const sitemap = sitemapGenerator.generateSitemap(matches);
-    
+
+    // Pages written by the prerender step (scripts/prerender.ts), with their lastmod
+    let manifest = null;
+    try {
+      const manifestResponse = await env.ASSETS.fetch(new URL('/prerender-manifest.json', request.url));
+      if (manifestResponse.ok) manifest = await manifestResponse.json();
+    } catch (error) {
+      console.warn('⚠️ Prerender manifest unavailable:', error);
+    }
+
+    // Generate sitemap; without a manifest only the static routes are listed
+    const sitemap = manifest
+      ? sitemapGenerator.generateSitemapFromManifest(manifest)
+      : sitemapGenerator.generateSitemap([]);
+
     return new Response(sitemap, {
       headers: {
         'Content-Type': 'application/xml',
@@ -20,7 +28,7 @@ export async function onRequest(context) {
     });
   } catch (error) {
     console.error('Error generating sitemap:', error);
-    
+
     return new Response('Error generating sitemap', {
       status: 500,
       headers: {
@@ -0,0 +1,39 @@
+/**
+ * React Hook for Injury News Alerts
+ * Turns new injury/suspension stories about favourite teams into InjuryNews alerts
+ */
+
+import { useEffect, useRef } from 'react';
+import { useAppContext } from '../contexts/AppContext';
+import { getNewInjuryAlerts } from '../services/newsService';
+
+// The worker refreshes news every 30 minutes
+const CHECK_INTERVAL = 30 * 60 * 1000;
+
+export const useInjuryNewsAlerts = (): void => {
+  const { favoriteTeams = [], addAlert } = useAppContext();
+  const latest = useRef({ favoriteTeams, addAlert });
+  latest.current = { favoriteTeams, addAlert };
+  const hasFavorites = favoriteTeams.length > 0;
+
+  useEffect(() => {
+    if (!hasFavorites) return;
+    let cancelled = false;
+
+    const check = async () => {
+      try {
+        const alerts = await getNewInjuryAlerts(latest.current.favoriteTeams);
+        if (!cancelled) alerts.forEach(alert => latest.current.addAlert(alert));
+      } catch (error) {
+        console.warn('⚠️ Injury news check failed:', error);
+      }
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [hasFavorites]);
+};
@@ -4,15 +4,17 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { advancedPredictionSyncService, SyncStatus, SyncConflict, PredictionSyncRecord } from '../services/advancedPredictionSyncService';
+import { advancedPredictionSyncService, ConflictStrategy, SyncStatus, SyncConflict, PredictionSyncRecord } from '../services/advancedPredictionSyncService';
 
 export interface UsePredictionSyncReturn {
   syncStatus: SyncStatus;
   isOnline: boolean;
   pendingSync: number;
   conflicts: number;
+  conflictQueue: SyncConflict[];
   errors: string[];
   forceSync: () => Promise<void>;
+  resolveConflict: (matchId: string, strategy: Exclude<ConflictStrategy, 'manual'>) => Promise<boolean>;
   registerConflictResolver: (matchId: string, resolver: (conflict: SyncConflict) => Promise<PredictionSyncRecord>) => void;
   clearErrors: () => void;
 }
@@ -58,6 +60,15 @@ export const usePredictionSync = (): UsePredictionSyncReturn => {
     advancedPredictionSyncService.registerConflictResolver(matchId, resolver);
   }, []);
 
+  const resolveConflict = useCallback(async (matchId: string, strategy: Exclude<ConflictStrategy, 'manual'>) => {
+    try {
+      return !!(await advancedPredictionSyncService.resolveQueuedConflict(matchId, strategy));
+    } catch (error) {
+      setErrors(prev => [...prev, `Conflict resolution failed: ${error.message}`]);
+      return false;
+    }
+  }, []);
+
   const clearErrors = useCallback(() => {
     setErrors([]);
   }, []);
@@ -67,8 +78,10 @@ export const usePredictionSync = (): UsePredictionSyncReturn => {
     isOnline: syncStatus.isOnline,
     pendingSync: syncStatus.pendingSync,
     conflicts: syncStatus.conflicts,
+    conflictQueue: syncStatus.conflictQueue,
     errors,
     forceSync,
+    resolveConflict,
     registerConflictResolver,
     clearErrors
   };
@@ -0,0 +1,38 @@
+/**
+ * React Hook for route data
+ * Reads the data loader result for a path, served from the prefetch cache when warm
+ */
+
+import { useState, useEffect } from 'react';
+import { routeLoader } from '../services/routeLoaders';
+
+export interface RouteDataState<T> {
+  data?: T;
+  loading: boolean;
+  error?: Error;
+}
+
+export const useRouteData = <T>(path: string): RouteDataState<T> => {
+  const [state, setState] = useState<RouteDataState<T>>(() => {
+    const warm = routeLoader.peek<T>(path);
+    return warm !== undefined ? { data: warm, loading: false } : { loading: true };
+  });
+
+  useEffect(() => {
+    let active = true;
+    const warm = routeLoader.peek<T>(path);
+    setState(warm !== undefined ? { data: warm, loading: false } : { loading: true });
+
+    routeLoader.load<T>(path)
+      .then(data => {
+        if (active) setState({ data, loading: false });
+      })
+      .catch(error => {
+        if (active) setState({ loading: false, error: error instanceof Error ? error : new Error(String(error)) });
+      });
+
+    return () => { active = false; };
+  }, [path]);
+
+  return state;
+};
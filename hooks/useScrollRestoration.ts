@@ -0,0 +1,89 @@
+/**
+ * React Hook for scroll restoration
+ * Back/forward returns to where the page was left; new navigations start at the
+ * top, or at the #anchor when the URL has one.
+ */
+
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+const STORAGE_KEY = 'fixturecast_scroll_positions';
+const MAX_ENTRIES = 50;
+// Lazy pages render after the route changes; keep retrying until the page is tall enough
+const RESTORE_ATTEMPTS = 20;
+
+const readPositions = (): Record<string, number> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const savePosition = (key: string, y: number) => {
+  try {
+    const positions = readPositions();
+    delete positions[key];
+    positions[key] = y;
+    const keys = Object.keys(positions);
+    keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES)).forEach(old => delete positions[old]);
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(positions));
+  } catch {
+    // Storage unavailable (private mode); restoration is best effort
+  }
+};
+
+export const useScrollRestoration = (): void => {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const currentKey = useRef(location.key);
+  // Read on every scroll: by the time the route changes, the new page may already have moved the window
+  const lastY = useRef(0);
+
+  useEffect(() => {
+    if ('scrollRestoration' in window.history) window.history.scrollRestoration = 'manual';
+    const onScroll = () => { lastY.current = window.scrollY; };
+    const onPageHide = () => savePosition(currentKey.current, window.scrollY);
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }, []);
+
+  // Remember where the previous entry was left
+  useLayoutEffect(() => {
+    const previousKey = currentKey.current;
+    if (previousKey !== location.key) savePosition(previousKey, lastY.current);
+    currentKey.current = location.key;
+  }, [location.key]);
+
+  useEffect(() => {
+    if (navigationType === 'POP') {
+      const target = readPositions()[location.key];
+      if (target === undefined) return;
+      let attempts = 0;
+      let frame = 0;
+      const restore = () => {
+        const reachable = document.documentElement.scrollHeight - window.innerHeight >= target;
+        if (reachable || ++attempts >= RESTORE_ATTEMPTS) {
+          window.scrollTo(0, target);
+          return;
+        }
+        frame = requestAnimationFrame(restore);
+      };
+      frame = requestAnimationFrame(restore);
+      return () => cancelAnimationFrame(frame);
+    }
+
+    if (location.hash) {
+      const anchor = document.getElementById(decodeURIComponent(location.hash.slice(1)));
+      if (anchor) {
+        anchor.scrollIntoView({ block: 'start' });
+        return;
+      }
+    }
+    window.scrollTo(0, 0);
+  }, [location.key, location.hash, navigationType]);
+};
@@ -58,6 +58,12 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Prerendered pages (scripts/prerender.ts) ship a static summary in #root for
+// crawlers; the app renders over it, and the snapshot's head tags stay until a page replaces them
+if (rootElement.dataset.prerendered) {
+  console.log(`🧊 Mounting over prerendered snapshot of ${rootElement.dataset.prerendered}`);
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
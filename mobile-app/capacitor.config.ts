@@ -9,6 +9,9 @@ const config: CapacitorConfig = {
     androidScheme: 'https'
   },
   plugins: {
+    // The registration token is sent to the cron worker's /push/subscribe as a
+    // 'native' PushSubscriptionRecord (services/pushSubscriptionModel.ts), with
+    // the same topics, follows and quiet hours as web push
     PushNotifications: {
       presentationOptions: ["badge", "sound", "alert"],
     },
@@ -2,6 +2,7 @@
 // This creates a cleanup endpoint and scheduling
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -78,7 +79,7 @@ async function testCurrentStorageStatus(): Promise<boolean> {
     console.log(`   Date: ${health.date}`);
     
     // Test if we can generate new predictions
-    const testResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-chat`);
+    const testResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-chat`, { headers: workerAuthHeaders() });
     const testResult = await testResponse.json();
     
     if (testResult.processedPredictions >= 0) {
@@ -0,0 +1,72 @@
+/**
+ * File storage for API-Football recordings (one JSON file per request) and
+ * the recorder that captures them from the real API.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import {
+  API_FOOTBALL_UPSTREAM,
+  ApiFootballRecording,
+  isRecordable,
+  normalizeEndpoint,
+  normalizeParams,
+  recordingFileName
+} from '../services/apiFootballReplay';
+
+export const DEFAULT_RECORDINGS_DIR = 'tests/fixtures/api-football';
+
+const walk = (dir: string): string[] =>
+  readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? walk(path) : path.endsWith('.json') ? [path] : [];
+  });
+
+export const loadRecordings = (dir: string = DEFAULT_RECORDINGS_DIR): ApiFootballRecording[] => {
+  if (!existsSync(dir)) return [];
+  return walk(dir).flatMap(path => {
+    try {
+      const recording = JSON.parse(readFileSync(path, 'utf-8')) as ApiFootballRecording;
+      return recording.endpoint && recording.body ? [recording] : [];
+    } catch (error) {
+      console.warn(`⚠️ Skipping unreadable recording ${relative(dir, path)}:`, (error as Error).message);
+      return [];
+    }
+  });
+};
+
+export const saveRecording = (dir: string, recording: ApiFootballRecording): string => {
+  const path = join(dir, recordingFileName(recording.endpoint, recording.params));
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(recording, null, 2) + '\n');
+  return path;
+};
+
+/**
+ * Request the real API and save the response when it is one we replay
+ */
+export const recordFromUpstream = async (
+  endpoint: string,
+  params: Record<string, any>,
+  options: { apiKey: string; dir: string; fetchImpl?: typeof fetch; now?: () => number }
+): Promise<{ status: number; body: any; savedTo: string | null }> => {
+  const url = new URL(`${API_FOOTBALL_UPSTREAM}${normalizeEndpoint(endpoint)}`);
+  Object.entries(normalizeParams(params)).forEach(([key, value]) => url.searchParams.append(key, value));
+
+  const response = await (options.fetchImpl || fetch)(url.toString(), {
+    headers: { 'x-apisports-key': options.apiKey, Accept: 'application/json' }
+  });
+  const body = await response.json().catch(() => null);
+  if (!isRecordable(endpoint, response.status, body)) {
+    return { status: response.status, body, savedTo: null };
+  }
+
+  const savedTo = saveRecording(options.dir, {
+    endpoint: normalizeEndpoint(endpoint),
+    params: normalizeParams(params),
+    recordedAt: new Date((options.now || Date.now)()).toISOString(),
+    status: response.status,
+    body
+  });
+  return { status: response.status, body, savedTo };
+};
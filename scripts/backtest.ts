@@ -0,0 +1,93 @@
+#!/usr/bin/env vite-node
+
+/**
+ * Backtest predictors over stored fixtures.
+ *
+ * Usage:
+ *   npm run backtest -- [--from 2024-08-01] [--to 2025-05-31] [--league "Premier League"]
+ *                       [--predictor recorded|elo|dixon-coles|all] [--source gemini/v1]
+ *                       [--past public/data/past-predictions.json] [--training exports/training.json]
+ *                       [--json reports/backtest.json]
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import {
+  runBacktest,
+  formatBacktestReport,
+  fixturesFromPastPredictions,
+  fixturesFromTrainingRecords,
+  mergeFixtures,
+  recordedPredictor,
+  eloPredictor,
+  dixonColesPredictor,
+  BacktestPredictor,
+  BacktestReport
+} from '../services/backtestingService';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const options = (name: string): string[] =>
+  args.flatMap((arg, i) => (arg === `--${name}` && args[i + 1] ? [args[i + 1]] : []));
+
+const readJson = (path: string): any[] => {
+  if (!existsSync(path)) {
+    console.warn(`⚠️ ${path} not found, skipping`);
+    return [];
+  }
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  return Array.isArray(parsed) ? parsed : parsed.records || parsed.predictions || [];
+};
+
+async function main() {
+  const pastPaths = options('past');
+  const trainingPaths = options('training');
+  const fixtures = mergeFixtures(
+    ...(pastPaths.length ? pastPaths : ['public/data/past-predictions.json', 'data/past-predictions.json'])
+      .map(path => fixturesFromPastPredictions(readJson(path))),
+    ...trainingPaths.map(path => fixturesFromTrainingRecords(readJson(path)))
+  );
+
+  if (fixtures.length === 0) {
+    console.error('❌ No settled fixtures found');
+    process.exit(1);
+  }
+
+  const available: Record<string, () => BacktestPredictor> = {
+    recorded: () => recordedPredictor(option('source')),
+    elo: () => eloPredictor(),
+    'dixon-coles': () => dixonColesPredictor()
+  };
+  const requested = option('predictor') || 'all';
+  const names = requested === 'all' ? Object.keys(available) : requested.split(',');
+  const unknown = names.filter(name => !available[name]);
+  if (unknown.length) {
+    console.error(`❌ Unknown predictor(s): ${unknown.join(', ')}. Choose from ${Object.keys(available).join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log(`🔁 Backtesting ${names.join(', ')} over ${fixtures.length} settled fixtures`);
+  const reports: BacktestReport[] = [];
+  for (const name of names) {
+    const report = await runBacktest(fixtures, available[name](), {
+      from: option('from'),
+      to: option('to'),
+      leagues: options('league').length ? options('league') : undefined
+    });
+    reports.push(report);
+    console.log('\n' + formatBacktestReport(report));
+  }
+
+  const jsonPath = option('json');
+  if (jsonPath) {
+    writeFileSync(jsonPath, JSON.stringify(reports, null, 2));
+    console.log(`\n💾 Reports written to ${jsonPath}`);
+  }
+}
+
+main().catch(err => {
+  console.error('Backtest failed:', err);
+  process.exit(1);
+});
@@ -2,6 +2,7 @@
 // Addresses Cloudflare KV storage limit issues
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -50,7 +51,7 @@ async function cleanupOldPredictions(): Promise<StorageCleanupResult> {
     for (const date of datesToClean) {
       try {
         console.log(`   Cleaning predictions for ${date}...`);
-        const response = await fetch(`${WORKER_ENDPOINT}/clear-predictions?date=${date}&confirm=true`);
+        const response = await fetch(`${WORKER_ENDPOINT}/clear-predictions?date=${date}&confirm=true`, { headers: workerAuthHeaders() });
         const result = await response.json();
         
         if (result.success) {
@@ -139,7 +140,7 @@ async function generateFreshPredictionsAfterCleanup(): Promise<boolean> {
   try {
     console.log('🔄 Generating fresh predictions after cleanup...');
     
-    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=deepseek-chat&force=true`);
+    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=deepseek-chat&force=true`, { headers: workerAuthHeaders() });
     const result = await response.json();
     
     if (result.processedPredictions > 0) {
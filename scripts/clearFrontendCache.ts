@@ -2,6 +2,7 @@
 // This addresses the issue of frontend showing old cached prediction data
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 const PAGES_ENDPOINT = 'https://fixturecast.pages.dev';
@@ -18,7 +19,7 @@ async function clearBackendCache(): Promise<CacheClearResult> {
     console.log('🧹 Clearing backend cache...');
     
     // Clear recent predictions list
-    const clearRecentResponse = await fetch(`${WORKER_ENDPOINT}/clear-predictions?date=2025-09-27&confirm=true`);
+    const clearRecentResponse = await fetch(`${WORKER_ENDPOINT}/clear-predictions?date=2025-09-27&confirm=true`, { headers: workerAuthHeaders() });
     const clearResult = await clearRecentResponse.json();
     
     if (clearResult.success) {
@@ -109,7 +110,7 @@ async function regenerateFreshPredictions(): Promise<boolean> {
   try {
     console.log('🔄 Regenerating fresh predictions...');
     
-    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=deepseek-chat&force=true`);
+    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=deepseek-chat&force=true`, { headers: workerAuthHeaders() });
     const result = await response.json();
     
     if (result.processedPredictions > 0) {
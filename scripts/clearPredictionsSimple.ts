@@ -2,6 +2,7 @@
 // This approach works with the current deployed worker
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -21,7 +22,7 @@ async function checkCurrentPredictions(): Promise<any> {
 async function triggerFreshPredictions(): Promise<any> {
   try {
     console.log('🔄 Triggering fresh prediction generation...');
-    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=gemini-1.5-flash&force=true`);
+    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=gemini-1.5-flash&force=true`, { headers: workerAuthHeaders() });
     
     if (!response.ok) {
       throw new Error(`Prediction trigger failed: ${response.status}`);
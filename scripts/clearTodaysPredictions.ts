@@ -2,6 +2,7 @@
 // This allows for fresh manual generation of predictions
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders, CURL_AUTH } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 const CLEAR_ENDPOINT = `${WORKER_ENDPOINT}/clear-predictions`;
@@ -21,7 +22,7 @@ async function clearTodaysPredictions(): Promise<ClearResult> {
   
   try {
     // Call the worker's clear endpoint
-    const response = await fetch(`${CLEAR_ENDPOINT}?date=${today}&confirm=true`);
+    const response = await fetch(`${CLEAR_ENDPOINT}?date=${today}&confirm=true`, { headers: workerAuthHeaders() });
     
     if (!response.ok) {
       throw new Error(`Clear request failed: ${response.status} ${response.statusText}`);
@@ -94,7 +95,7 @@ async function main() {
       console.log('\n🎉 SUCCESS: All predictions cleared successfully!');
       console.log('\n💡 Next steps:');
       console.log('   1. Run manual prediction generation:');
-      console.log(`      curl -s '${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=gemini-1.5-flash'`);
+      console.log(`      curl -s ${CURL_AUTH} '${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=gemini-1.5-flash'`);
       console.log('   2. Monitor the generation process');
       console.log('   3. Verify new predictions are complete and accurate');
     } else {
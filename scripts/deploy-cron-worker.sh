@@ -8,7 +8,7 @@ if [ ! -f "$CFG" ]; then
 fi
 
 echo "Building (vite build if needed) ..."
-# Optional: Only build if dist missing; worker itself is plain JS.
+# Optional: Only build if dist missing; wrangler bundles the worker TypeScript itself.
 if [ ! -d dist ]; then
   if command -v npm >/dev/null 2>&1; then
     npm run build || echo "(Non-fatal) build failed or not required" >&2
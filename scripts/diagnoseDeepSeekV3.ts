@@ -2,6 +2,7 @@
 // Helps identify the correct model name format
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -20,7 +21,7 @@ async function testModelNames(): Promise<void> {
   for (const modelName of modelNames) {
     try {
       console.log(`\n🔍 Testing: ${modelName}`);
-      const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=${modelName}&force=true`);
+      const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=${modelName}&force=true`, { headers: workerAuthHeaders() });
       const result = await response.json();
       
       if (result.processedPredictions > 0) {
@@ -3,6 +3,7 @@
 
 import fetch from 'node-fetch';
 import { Match, Prediction } from '../types';
+import { CURL_AUTH } from './workerAuth';
 
 const FIXTURES_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev/fixtures/today';
 const PREDICTIONS_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev/predictions/today';
@@ -172,12 +173,12 @@ function generateRecommendations(report: DiagnosticReport): string[] {
   
   const criticalMatches = report.diagnostics.filter(d => d.severity === 'critical');
   if (criticalMatches.length > 0) {
-    recommendations.push(`Run: curl -s '${TRIGGER_ENDPOINT}?resume=true&wave=20&model=gemini-1.5-flash' to retry critical predictions`);
+    recommendations.push(`Run: curl -s ${CURL_AUTH} '${TRIGGER_ENDPOINT}?resume=true&wave=20&model=gemini-1.5-flash' to retry critical predictions`);
   }
   
   const warningMatches = report.diagnostics.filter(d => d.severity === 'warning');
   if (warningMatches.length > 0) {
-    recommendations.push(`Consider running: curl -s '${TRIGGER_ENDPOINT}?resume=true&wave=10&model=deepseek-chat' for warning-level improvements`);
+    recommendations.push(`Consider running: curl -s ${CURL_AUTH} '${TRIGGER_ENDPOINT}?resume=true&wave=10&model=deepseek-chat' for warning-level improvements`);
   }
   
   if (report.incompletePredictions === 0) {
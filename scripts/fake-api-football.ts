@@ -0,0 +1,129 @@
+#!/usr/bin/env vite-node
+
+/**
+ * Local stand-in for API-Football.
+ *
+ * Usage:
+ *   npm run api:fake -- [--dir tests/fixtures/api-football] [--port 3002]
+ *                       [--clock 2025-10-18T12:00:00Z] [--running] [--strict]
+ *   npm run api:record -- [--dir tests/fixtures/api-football] [--port 3002]
+ *
+ * Replay mode answers /fixtures, /standings, /teams, /injuries and
+ * /fixtures/headtohead from recorded files. Record mode forwards requests to
+ * the real API (VITE_FOOTBALL_API_KEY / FOOTBALL_API_KEY) and saves the
+ * responses; it sends no CORS headers, so browsers can't call it. It listens
+ * on 127.0.0.1 only. Point the app at it with VITE_API_FOOTBALL_BASE_URL and
+ * the cron worker with API_FOOTBALL_BASE_URL (e.g. http://127.0.0.1:3002).
+ *
+ * Clock control (replay):
+ *   GET  /__replay/clock                       -> { now, running }
+ *   POST /__replay/clock { now?, advanceMs?, running? }
+ *   GET  /__replay/status                      -> recordings loaded and misses
+ */
+
+import 'dotenv/config';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { ApiFootballReplay, ReplayClock, recordingKey } from '../services/apiFootballReplay';
+import { DEFAULT_RECORDINGS_DIR, loadRecordings, recordFromUpstream } from './apiFootballRecordings';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const flag = (name: string) => args.includes(`--${name}`);
+
+const mode = option('mode') === 'record' ? 'record' : 'replay';
+const dir = option('dir') || DEFAULT_RECORDINGS_DIR;
+const port = Number(option('port') || process.env.FAKE_API_PORT || 3002);
+const clockStart = option('clock') || process.env.FAKE_API_CLOCK;
+const apiKey = process.env.VITE_FOOTBALL_API_KEY || process.env.FOOTBALL_API_KEY || '';
+
+// Without --clock the replay runs on real time, i.e. recordings are served as if captured today
+const clock = new ReplayClock(clockStart ? Date.parse(clockStart) : Date.now(), !clockStart || flag('running'));
+let replay = new ApiFootballReplay(loadRecordings(dir), { clock: clock.now, strict: flag('strict'), ignoreParams: ['timezone'] });
+
+// Record mode forwards with the real key, so no other origin may read its answers
+const CORS_HEADERS: Record<string, string> = mode === 'record' ? {} : {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Allow-Headers': '*'
+};
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...CORS_HEADERS,
+    'x-replay-now': new Date(clock.now()).toISOString(),
+    ...headers
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<any> =>
+  new Promise(resolve => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      try { resolve(raw ? JSON.parse(raw) : {}); } catch { resolve({}); }
+    });
+  });
+
+const handleControl = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+  if (path === '/__replay/clock') {
+    if (req.method === 'POST') {
+      const body = await readBody(req);
+      if (body.now) clock.set(Date.parse(body.now));
+      if (typeof body.advanceMs === 'number') clock.advance(body.advanceMs);
+      if (typeof body.running === 'boolean') clock.setRunning(body.running);
+      console.log(`🕒 Replay clock set to ${new Date(clock.now()).toISOString()}`);
+    }
+    return send(res, 200, clock.toJSON());
+  }
+  if (path === '/__replay/status') {
+    return send(res, 200, { mode, dir, recordings: replay.size, misses: replay.misses.slice(-50), clock: clock.toJSON() });
+  }
+  if (path === '/__replay/reload' && req.method === 'POST') {
+    replay = new ApiFootballReplay(loadRecordings(dir), { clock: clock.now, strict: flag('strict'), ignoreParams: ['timezone'] });
+    return send(res, 200, { recordings: replay.size });
+  }
+  return send(res, 404, { error: `Unknown control endpoint ${path}` });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  if (req.method === 'OPTIONS') return send(res, 204, null);
+  if (url.pathname.startsWith('/__replay/')) return handleControl(req, res, url.pathname);
+
+  const params = Object.fromEntries(url.searchParams);
+  try {
+    if (mode === 'record') {
+      const { status, body, savedTo } = await recordFromUpstream(url.pathname, params, { apiKey, dir });
+      console.log(`${savedTo ? '💾' : '↪️'} ${status} ${recordingKey(url.pathname, params)}${savedTo ? ` -> ${savedTo}` : ' (not recorded)'}`);
+      return send(res, status, body);
+    }
+
+    const { status, body, hit } = replay.handle(url.pathname, params);
+    console.log(`${hit ? '✅' : '⚪'} ${status} ${recordingKey(url.pathname, params)}${hit ? '' : ' (no recording)'}`);
+    return send(res, status, body, { 'x-replay': hit ? 'hit' : 'miss' });
+  } catch (error) {
+    console.error('❌ Fake API-Football error:', error);
+    return send(res, 502, { errors: { replay: (error as Error).message } });
+  }
+});
+
+if (mode === 'record' && !apiKey) {
+  console.error('🔴 Record mode needs VITE_FOOTBALL_API_KEY or FOOTBALL_API_KEY');
+  process.exit(1);
+}
+
+// Loopback only: nothing else on the network should reach it, least of all in record mode
+server.listen(port, '127.0.0.1', () => {
+  console.log(`⚽ Fake API-Football (${mode}) on http://127.0.0.1:${port}`);
+  console.log(mode === 'record'
+    ? `💾 Recording responses into ${dir}`
+    : `📼 ${replay.size} recordings from ${dir}, clock ${JSON.stringify(clock.toJSON())}`);
+});
+
+process.on('SIGTERM', () => server.close());
+process.on('SIGINT', () => server.close(() => process.exit(0)));
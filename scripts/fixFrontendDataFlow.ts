@@ -2,6 +2,7 @@
 // Ensures fresh prediction data reaches the frontend
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -28,7 +29,7 @@ async function ensureFreshPredictions(): Promise<number> {
     
     // Generate fresh predictions if none exist
     console.log('🔄 Generating fresh predictions...');
-    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=deepseek-chat&force=true`);
+    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=deepseek-chat&force=true`, { headers: workerAuthHeaders() });
     const result = await response.json();
     
     if (result.processedPredictions > 0) {
@@ -74,7 +75,7 @@ async function testDirectDataAccess(): Promise<string[]> {
     
     // Test 3: Worker trigger endpoint
     try {
-      const triggerResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-chat`);
+      const triggerResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-chat`, { headers: workerAuthHeaders() });
       if (triggerResponse.ok) {
         workingEndpoints.push(`${WORKER_ENDPOINT}/trigger-predictions`);
         console.log('✅ Worker trigger endpoint working');
@@ -2,6 +2,7 @@
 // Identifies and retries incomplete predictions with enhanced validation
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const TRIGGER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev/trigger-predictions';
 const PREDICTION_HEALTH_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev/prediction-health';
@@ -25,7 +26,7 @@ async function triggerPredictionFix(options: FixOptions = {}): Promise<any> {
   console.log(`🔄 Triggering prediction fix: ${url}`);
   
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, { headers: workerAuthHeaders() });
     const result = await response.json();
     return result;
   } catch (error) {
@@ -2,6 +2,7 @@
 // This script uses multiple approaches to ensure fresh predictions
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders, CURL_AUTH } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -11,19 +12,19 @@ async function forceRegeneratePredictions(): Promise<any> {
     
     // Approach 1: Force regeneration with different parameters
     console.log('   Approach 1: Force with different model...');
-    const response1 = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=10&model=deepseek-chat&force=true`);
+    const response1 = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=10&model=deepseek-chat&force=true`, { headers: workerAuthHeaders() });
     const result1 = await response1.json();
     console.log(`   DeepSeek result: ${result1.message || 'Completed'}`);
     
     // Approach 2: Force with Gemini
     console.log('   Approach 2: Force with Gemini...');
-    const response2 = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=15&model=gemini-1.5-flash&force=true`);
+    const response2 = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=15&model=gemini-1.5-flash&force=true`, { headers: workerAuthHeaders() });
     const result2 = await response2.json();
     console.log(`   Gemini result: ${result2.message || 'Completed'}`);
     
     // Approach 3: Force with mixed models
     console.log('   Approach 3: Force with mixed models...');
-    const response3 = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&force=true`);
+    const response3 = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&force=true`, { headers: workerAuthHeaders() });
     const result3 = await response3.json();
     console.log(`   Mixed result: ${result3.message || 'Completed'}`);
     
@@ -115,8 +116,8 @@ async function main() {
       // Manual trigger suggestion
       console.log('\n🎯 MANUAL TRIGGER COMMANDS:');
       console.log('   If you need to manually trigger predictions:');
-      console.log(`   curl -s '${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=gemini-1.5-flash'`);
-      console.log(`   curl -s '${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=10&model=deepseek-chat'`);
+      console.log(`   curl -s ${CURL_AUTH} '${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=20&model=gemini-1.5-flash'`);
+      console.log(`   curl -s ${CURL_AUTH} '${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=10&model=deepseek-chat'`);
       
     } else {
       console.log('❌ Could not verify final status');
@@ -2,6 +2,7 @@
 // This script provides multiple methods to ensure fresh data reaches the frontend
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -11,7 +12,7 @@ async function forceBackendRefresh(): Promise<boolean> {
     
     // Clear all existing predictions
     console.log('   Step 1: Clearing existing predictions...');
-    const clearResponse = await fetch(`${WORKER_ENDPOINT}/clear-predictions?date=2025-09-27&confirm=true`);
+    const clearResponse = await fetch(`${WORKER_ENDPOINT}/clear-predictions?date=2025-09-27&confirm=true`, { headers: workerAuthHeaders() });
     const clearResult = await clearResponse.json();
     
     if (clearResult.success) {
@@ -22,7 +23,7 @@ async function forceBackendRefresh(): Promise<boolean> {
     
     // Generate completely fresh predictions
     console.log('   Step 2: Generating fresh predictions...');
-    const generateResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=30&model=deepseek-chat&force=true`);
+    const generateResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=30&model=deepseek-chat&force=true`, { headers: workerAuthHeaders() });
     const generateResult = await generateResponse.json();
     
     if (generateResult.processedPredictions > 0) {
@@ -0,0 +1,103 @@
+#!/usr/bin/env vite-node
+
+/**
+ * Prerender static snapshots of match, team and league pages into the build.
+ *
+ * Runs after `vite build` and writes dist/match/<id>.html, dist/team/<slug>.html
+ * and dist/league/<slug>.html from the built index.html, plus
+ * dist/prerender-manifest.json and dist/sitemap.xml. Today's fixtures come
+ * from API-Football; without a key only team and league pages are written.
+ *
+ * Usage:
+ *   npm run prerender -- [--dist dist] [--origin https://fixturecast.com] [--date 2026-10-19]
+ *                        [--previous https://www.fixturecast.com/prerender-manifest.json]
+ *
+ * Env: FOOTBALL_API_KEY or VITE_FOOTBALL_API_KEY, API_FOOTBALL_BASE_URL (the
+ * api:fake stand-in), FIXTURECAST_DOMAIN (default origin)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { League, Match } from '../types';
+import { TEAM_DATA } from '../services/teamDataService';
+import { apiFixtureToMatch } from '../services/fixtureMapping';
+import {
+  PrerenderManifest,
+  buildManifest,
+  buildSnapshots,
+  canonicalOrigin,
+  renderSnapshot,
+  snapshotFile
+} from '../services/prerenderService';
+import { sitemapGenerator } from '../utils/sitemapGenerator';
+import { fetchFeaturedLeagueFixtures } from '../worker-cron/src/football';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const distDir = option('dist') || 'dist';
+const origin = option('origin') || process.env.FIXTURECAST_DOMAIN || 'https://fixturecast.com';
+const date = option('date') || new Date().toISOString().slice(0, 10);
+
+async function loadFixtures(): Promise<Match[]> {
+  const apiKey = process.env.FOOTBALL_API_KEY || process.env.VITE_FOOTBALL_API_KEY;
+  const baseUrl = process.env.API_FOOTBALL_BASE_URL;
+  if (!apiKey && !baseUrl) {
+    console.warn('⚠️ No FOOTBALL_API_KEY or API_FOOTBALL_BASE_URL, skipping match pages');
+    return [];
+  }
+  const items = await fetchFeaturedLeagueFixtures(date, { FOOTBALL_API_KEY: apiKey, API_FOOTBALL_BASE_URL: baseUrl });
+  return items.map(item => apiFixtureToMatch(item)).filter((match): match is Match => match !== null);
+}
+
+// The deployed manifest, so unchanged pages keep their lastmod
+async function loadPreviousManifest(): Promise<PrerenderManifest | null> {
+  const source = option('previous') || `${canonicalOrigin(origin)}/prerender-manifest.json`;
+  try {
+    if (existsSync(source)) return JSON.parse(readFileSync(source, 'utf-8'));
+    const response = await fetch(source, { signal: AbortSignal.timeout(10000) });
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.warn(`⚠️ Previous manifest unavailable (${source}), every page gets a fresh lastmod:`, (error as Error).message);
+    return null;
+  }
+}
+
+async function main() {
+  const templatePath = join(distDir, 'index.html');
+  if (!existsSync(templatePath)) {
+    console.error(`❌ ${templatePath} not found, run vite build first`);
+    process.exit(1);
+  }
+  const template = readFileSync(templatePath, 'utf-8');
+
+  let fixtures: Match[] = [];
+  try {
+    fixtures = await loadFixtures();
+  } catch (error) {
+    console.warn('⚠️ Fixture fetch failed, skipping match pages:', (error as Error).message);
+  }
+
+  const pages = buildSnapshots({ origin, fixtures, teams: TEAM_DATA, leagues: Object.values(League) });
+  for (const page of pages) {
+    const file = join(distDir, snapshotFile(page.path));
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, renderSnapshot(template, page));
+  }
+
+  const manifest = await buildManifest(pages, origin, new Date(), await loadPreviousManifest());
+  writeFileSync(join(distDir, 'prerender-manifest.json'), JSON.stringify(manifest, null, 2));
+  writeFileSync(join(distDir, 'sitemap.xml'), sitemapGenerator.generateSitemapFromManifest(manifest));
+
+  const counts = pages.reduce<Record<string, number>>((acc, page) => ({ ...acc, [page.route]: (acc[page.route] || 0) + 1 }), {});
+  const changed = manifest.pages.filter(page => page.lastmod === manifest.generatedAt).length;
+  console.log(`🧊 Prerendered ${pages.length} pages for ${date} (${Object.entries(counts).map(([route, n]) => `${n} ${route}`).join(', ')}); ${changed} changed since the last build`);
+}
+
+main().catch(err => {
+  console.error('❌ Prerender failed:', err);
+  process.exit(1);
+});
@@ -2,6 +2,7 @@
 // Uses available endpoints to check prediction status
 
 import fetch from 'node-fetch';
+import { CURL_AUTH } from './workerAuth';
 
 const PREDICTION_HEALTH_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev/prediction-health';
 const TRIGGER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev/trigger-predictions';
@@ -118,11 +119,11 @@ function analyzeHealthData(health: PredictionHealth): void {
   console.log(`\n💡 RECOMMENDATIONS:`);
   
   if (health.progress.remaining > 0) {
-    console.log(`   🔄 Run: curl -s '${TRIGGER_ENDPOINT}?resume=true&wave=20' to complete remaining predictions`);
+    console.log(`   🔄 Run: curl -s ${CURL_AUTH} '${TRIGGER_ENDPOINT}?resume=true&wave=20' to complete remaining predictions`);
   }
   
   if (health.progress.failures > 0) {
-    console.log(`   🔄 Run: curl -s '${TRIGGER_ENDPOINT}?resume=true&wave=10&model=deepseek-chat' to retry failed predictions`);
+    console.log(`   🔄 Run: curl -s ${CURL_AUTH} '${TRIGGER_ENDPOINT}?resume=true&wave=10&model=deepseek-chat' to retry failed predictions`);
   }
   
   if (health.ratePressure > 2) {
@@ -2,6 +2,7 @@
 // This script tests and implements the newer, more powerful model
 
 import fetch from 'node-fetch';
+import { workerAuthHeaders } from './workerAuth';
 
 const WORKER_ENDPOINT = 'https://fixturecast-cron-worker.btltech.workers.dev';
 
@@ -19,7 +20,7 @@ async function testDeepSeekV3Terminus(): Promise<boolean> {
     console.log('🧪 Testing DeepSeek-V3.1-Terminus model...');
     
     // Test with a small wave to see if the model works
-    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-v3.1-terminus&force=true`);
+    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-v3.1-terminus&force=true`, { headers: workerAuthHeaders() });
     const result = await response.json();
     
     if (result.processedPredictions > 0) {
@@ -41,12 +42,12 @@ async function compareModelPerformance(): Promise<ModelUpgradeResult> {
     
     // Test current model (deepseek-chat)
     console.log('   Testing current model (deepseek-chat)...');
-    const currentResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-chat&force=true`);
+    const currentResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-chat&force=true`, { headers: workerAuthHeaders() });
     const currentResult = await currentResponse.json();
     
     // Test new model (deepseek-v3.1-terminus)
     console.log('   Testing new model (deepseek-v3.1-terminus)...');
-    const newResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-v3.1-terminus&force=true`);
+    const newResponse = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=1&model=deepseek-v3.1-terminus&force=true`, { headers: workerAuthHeaders() });
     const newResult = await newResponse.json();
     
     return {
@@ -81,7 +82,7 @@ async function generatePredictionsWithV3(): Promise<boolean> {
   try {
     console.log('🚀 Generating predictions with DeepSeek-V3.1-Terminus...');
     
-    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=10&model=deepseek-v3.1-terminus&force=true`);
+    const response = await fetch(`${WORKER_ENDPOINT}/trigger-predictions?resume=true&wave=10&model=deepseek-v3.1-terminus&force=true`, { headers: workerAuthHeaders() });
     const result = await response.json();
     
     if (result.processedPredictions > 0) {
@@ -0,0 +1,14 @@
+/**
+ * Auth for the cron worker's mutating routes (trigger-predictions, clear-predictions,
+ * rebuild-daily, trigger-scores, backfill-accuracy). Export PREDICTION_API_KEY first.
+ */
+export const workerAuthHeaders = (): Record<string, string> => {
+  const key = process.env.PREDICTION_API_KEY;
+  if (!key) {
+    console.warn('⚠️ PREDICTION_API_KEY is not set; the worker will answer 401');
+  }
+  return { Authorization: `Bearer ${key || ''}` };
+};
+
+// For printed curl suggestions
+export const CURL_AUTH = `-H "Authorization: Bearer $PREDICTION_API_KEY"`;
@@ -0,0 +1,286 @@
+/**
+ * Absence impact model: how much a team loses from its injured and suspended
+ * players.
+ *
+ * Each absentee is weighed by four things:
+ *  - minutes share: how much of the season they have actually played
+ *  - rating gap: how much worse the best available player in the same
+ *    position is
+ *  - position scarcity: whether enough regulars are left in that position
+ *    to fill a starting XI
+ *  - availability: a doubtful player costs half as much as a confirmed absence
+ *
+ * The costs are split between attack and defence by position. The result is
+ * a pair of multipliers per team: attackAdjustment for goals scored, below 1
+ * when the team is weakened, and defenceAdjustment for goals conceded, above
+ * 1 when it is weakened. There is also a 0-100 impact score for prompts and
+ * training data. When squad statistics are missing, position priors stand in
+ * for minutes and ratings.
+ *
+ * Runtime-neutral: no DOM or storage access, so it can be used by the app and in tests.
+ */
+
+import type { KeyAbsence, Player, Team } from '../types';
+
+export type PositionGroup = 'Goalkeeper' | 'Defender' | 'Midfielder' | 'Attacker';
+
+export type AbsenceImportance = 'critical' | 'important' | 'moderate';
+
+export interface Absentee {
+  playerId?: number;
+  name: string;
+  position?: string;
+  reason: string;
+  kind: 'injury' | 'suspension';
+  doubtful?: boolean;          // Listed as questionable rather than ruled out
+  expectedReturn?: string;
+}
+
+export interface AbsenceImpact {
+  name: string;
+  position: PositionGroup | 'Unknown';
+  reason: string;
+  kind: Absentee['kind'];
+  expectedReturn?: string;
+  importance: AbsenceImportance;
+  minutesShare: number;        // 0-1, relative to the most used player in the squad
+  rating?: number;
+  replacement?: { name: string; rating?: number };
+  scarcity: number;            // 1 (position well covered) to 2 (no regulars left)
+  cost: number;                // Combined attack + defence cost
+  attackCost: number;
+  defenceCost: number;
+}
+
+export interface TeamAbsenceImpact {
+  absences: AbsenceImpact[];   // Costliest first
+  attackAdjustment: number;    // Multiplier on goals scored, <= 1
+  defenceAdjustment: number;   // Multiplier on goals conceded, >= 1
+  totalImpactScore: number;    // 0-100
+  attackingImpact: number;     // 0-100
+  defensiveImpact: number;     // 0-100
+  squadKnown: boolean;
+}
+
+// Starters needed per position in a typical 4-3-3 / 4-4-2
+const XI_NEEDS: Record<PositionGroup, number> = { Goalkeeper: 1, Defender: 4, Midfielder: 3, Attacker: 2 };
+
+// Share of an absence's cost that hurts attack vs defence
+const POSITION_SPLIT: Record<PositionGroup | 'Unknown', { attack: number; defence: number }> = {
+  Goalkeeper: { attack: 0, defence: 1 },
+  Defender: { attack: 0.2, defence: 0.8 },
+  Midfielder: { attack: 0.5, defence: 0.5 },
+  Attacker: { attack: 0.9, defence: 0.1 },
+  Unknown: { attack: 0.5, defence: 0.5 }
+};
+
+// Priors when the squad has no minutes or ratings for a player. Injury lists
+// mostly name first-team players, and reserve goalkeepers are the biggest drop-off.
+const PRIOR_MINUTES_SHARE = 0.7;
+const PRIOR_RATING_GAP: Record<PositionGroup | 'Unknown', number> = {
+  Goalkeeper: 0.8,
+  Defender: 0.45,
+  Midfielder: 0.45,
+  Attacker: 0.45,
+  Unknown: 0.45
+};
+
+const RATING_GAP_SCALE = 1.5;     // A 1.5 rating point drop counts as a full loss
+const BASE_LOSS = 0.15;           // Cost of any absence, even with a like-for-like replacement
+const REGULAR_MINUTES_SHARE = 0.3;
+const DOUBTFUL_WEIGHT = 0.5;
+const ADJUSTMENT_PER_COST = 0.1;
+const MAX_ADJUSTMENT = 0.25;
+const SCORE_PER_COST = 40;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+export const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const positionGroup = (position?: string): PositionGroup | 'Unknown' => {
+  const value = (position || '').toLowerCase();
+  if (value.startsWith('g')) return 'Goalkeeper';
+  if (value.startsWith('d')) return 'Defender';
+  if (value.startsWith('m')) return 'Midfielder';
+  if (value.startsWith('a') || value.startsWith('f')) return 'Attacker';
+  return 'Unknown';
+};
+
+// "M. Salah" on an injury list should find "Mohamed Salah" in the squad
+const sameName = (a: string, b: string): boolean => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  const [leftFirst, ...leftRest] = left.split(' ');
+  const [rightFirst, ...rightRest] = right.split(' ');
+  const leftLast = leftRest.join(' ') || leftFirst;
+  const rightLast = rightRest.join(' ') || rightFirst;
+  return leftLast === rightLast && leftFirst[0] === rightFirst[0];
+};
+
+const findPlayer = (squad: Player[], absentee: Absentee): Player | undefined =>
+  squad.find(player => absentee.playerId !== undefined && player.id === absentee.playerId) ||
+  squad.find(player => sameName(player.name, absentee.name));
+
+/**
+ * Absentees listed on a Team (injuries and suspensions from team details)
+ */
+export const absencesFromTeam = (team: Pick<Team, 'injuries' | 'suspensions'>): Absentee[] => [
+  ...(team.injuries || []).map(injury => ({
+    name: injury.player,
+    reason: injury.type || 'Injury',
+    kind: 'injury' as const,
+    expectedReturn: injury.expectedReturn
+  })),
+  ...(team.suspensions || []).map(suspension => ({
+    name: suspension.player,
+    reason: suspension.reason || 'Suspended',
+    kind: 'suspension' as const,
+    expectedReturn: suspension.expectedReturn
+  }))
+];
+
+/**
+ * Absentees from an API-Football /injuries response. Entries tied to fixtures
+ * older than `maxAgeDays` are past absences and are skipped; a player listed
+ * more than once keeps the most recent entry.
+ */
+export const absencesFromApi = (items: any[], now: Date = new Date(), maxAgeDays = 10): Absentee[] => {
+  const cutoff = now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000;
+  const latest = new Map<string, { absentee: Absentee; at: number }>();
+
+  for (const item of Array.isArray(items) ? items : []) {
+    const name = item?.player?.name;
+    if (!name) continue;
+    const at = Date.parse(item.fixture?.date || '');
+    if (!Number.isNaN(at) && at < cutoff) continue;
+
+    const reason = item.player.reason || item.reason || item.player.type || item.type || 'Injury';
+    const type = String(item.player.type || item.type || '');
+    const absentee: Absentee = {
+      playerId: typeof item.player.id === 'number' ? item.player.id : undefined,
+      name,
+      position: item.player.position,
+      reason,
+      kind: /suspen|red card|yellow card/i.test(reason) ? 'suspension' : 'injury',
+      doubtful: /questionable|doubtful/i.test(type),
+      expectedReturn: item.date || undefined
+    };
+    const key = absentee.playerId !== undefined ? `id:${absentee.playerId}` : `name:${normalizeName(name)}`;
+    const previous = latest.get(key);
+    const stamp = Number.isNaN(at) ? 0 : at;
+    if (!previous || stamp >= previous.at) latest.set(key, { absentee, at: stamp });
+  }
+
+  return [...latest.values()].map(entry => entry.absentee);
+};
+
+const importanceOf = (cost: number): AbsenceImportance => {
+  if (cost >= 0.5) return 'critical';
+  if (cost >= 0.25) return 'important';
+  return 'moderate';
+};
+
+/**
+ * Scores a team's absences against its squad. `squad` may be empty, in which
+ * case every absentee is scored from position priors.
+ */
+export const assessTeamAbsences = (absentees: Absentee[], squad: Player[] = []): TeamAbsenceImpact => {
+  const matched = absentees.map(absentee => ({ absentee, player: findPlayer(squad, absentee) }));
+  const outIds = new Set(matched.filter(m => m.player).map(m => m.player!.id));
+  const available = squad.filter(player => !outIds.has(player.id) && !player.injured);
+
+  const maxMinutes = Math.max(0, ...squad.map(player => player.minutes || 0));
+  const maxAppearances = Math.max(0, ...squad.map(player => player.appearances || 0));
+  const shareOf = (player?: Player): number | undefined => {
+    if (!player) return undefined;
+    if (maxMinutes > 0 && player.minutes !== undefined) return clamp(player.minutes / maxMinutes, 0, 1);
+    if (maxAppearances > 0 && player.appearances !== undefined) return clamp(player.appearances / maxAppearances, 0, 1);
+    return undefined;
+  };
+
+  const absences = matched.map(({ absentee, player }): AbsenceImpact => {
+    const position = positionGroup(player?.position || absentee.position);
+    const minutesShare = shareOf(player) ?? PRIOR_MINUTES_SHARE;
+
+    let ratingGap = PRIOR_RATING_GAP[position];
+    let scarcity = 1;
+    let replacement: AbsenceImpact['replacement'];
+    if (position !== 'Unknown' && squad.length > 0) {
+      const cover = available
+        .filter(candidate => positionGroup(candidate.position) === position)
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0) || (b.minutes || 0) - (a.minutes || 0));
+      const best = cover[0];
+      if (!best) {
+        ratingGap = 1;
+      } else {
+        replacement = { name: best.name, rating: best.rating };
+        if (player?.rating !== undefined && best.rating !== undefined) {
+          ratingGap = clamp((player.rating - best.rating) / RATING_GAP_SCALE, 0, 1);
+        }
+      }
+      const regulars = cover.filter(candidate => (shareOf(candidate) ?? 1) >= REGULAR_MINUTES_SHARE).length;
+      const needed = XI_NEEDS[position];
+      scarcity = 1 + Math.max(0, needed - regulars) / needed;
+    }
+
+    const availability = absentee.doubtful ? DOUBTFUL_WEIGHT : 1;
+    const cost = minutesShare * (BASE_LOSS + (1 - BASE_LOSS) * ratingGap) * scarcity * availability;
+    const split = POSITION_SPLIT[position];
+
+    return {
+      name: player?.name || absentee.name,
+      position,
+      reason: absentee.reason,
+      kind: absentee.kind,
+      expectedReturn: absentee.expectedReturn,
+      importance: importanceOf(cost),
+      minutesShare: round(minutesShare),
+      rating: player?.rating,
+      replacement,
+      scarcity: round(scarcity),
+      cost: round(cost),
+      attackCost: round(cost * split.attack),
+      defenceCost: round(cost * split.defence)
+    };
+  }).sort((a, b) => b.cost - a.cost);
+
+  const sum = (pick: (absence: AbsenceImpact) => number) => absences.reduce((total, absence) => total + pick(absence), 0);
+  const attack = sum(absence => absence.attackCost);
+  const defence = sum(absence => absence.defenceCost);
+  const score = (cost: number) => Math.min(100, Math.round(cost * SCORE_PER_COST));
+
+  return {
+    absences,
+    attackAdjustment: round(1 - Math.min(MAX_ADJUSTMENT, ADJUSTMENT_PER_COST * attack)),
+    defenceAdjustment: round(1 + Math.min(MAX_ADJUSTMENT, ADJUSTMENT_PER_COST * defence)),
+    totalImpactScore: score(attack + defence),
+    attackingImpact: score(attack),
+    defensiveImpact: score(defence),
+    squadKnown: squad.length > 0
+  };
+};
+
+/**
+ * The costliest absences across both teams, for the prediction detail view
+ */
+export const topAbsences = (home: TeamAbsenceImpact, away: TeamAbsenceImpact, limit = 3): KeyAbsence[] =>
+  [
+    ...home.absences.map(absence => ({ absence, team: 'home' as const })),
+    ...away.absences.map(absence => ({ absence, team: 'away' as const }))
+  ]
+    .sort((a, b) => b.absence.cost - a.absence.cost)
+    .slice(0, limit)
+    .map(({ absence, team }) => ({
+      team,
+      player: absence.name,
+      position: absence.position,
+      reason: absence.reason,
+      importance: absence.importance,
+      impact: absence.cost,
+      replacement: absence.replacement?.name
+    }));
@@ -1,3 +1,5 @@
+import { clientStore } from './clientStore';
+
 interface AccessibilitySettings {
   fontSize: 'small' | 'medium' | 'large' | 'extra-large';
   colorScheme: 'default' | 'high-contrast' | 'colorblind-friendly' | 'dark-high-contrast';
@@ -45,10 +47,7 @@ class AccessibilityService {
     }
 
     try {
-      const stored = localStorage.getItem('accessibility-settings');
-      if (stored) {
-        return { ...this.getDefaultSettings(), ...JSON.parse(stored) };
-      }
+      return { ...this.getDefaultSettings(), ...clientStore.get('accessibilitySettings') };
     } catch (error) {
       console.warn('Failed to load accessibility settings:', error);
     }
@@ -144,7 +143,7 @@ class AccessibilityService {
     if (typeof window === 'undefined') return;
 
     try {
-      localStorage.setItem('accessibility-settings', JSON.stringify(this.settings));
+      clientStore.set('accessibilitySettings', { ...this.settings });
     } catch (error) {
       console.warn('Failed to save accessibility settings:', error);
     }
@@ -48,93 +48,19 @@ export const accuracyService = {
   fetchDailyAccuracy,
   fetchAccuracyTrend
 };
-import { Prediction, PredictionAccuracy, AccuracyStats, Match } from '../types';
+import { Prediction, PredictionAccuracy, AccuracyStats, AccuracyMarket, Match, SettlementResult } from '../types';
 import { cloudPredictionService } from './cloudPredictionService';
+import { buildCalibrationReport, loadRecalibrationModels, recalibratePrediction, refreshRecalibrationModels } from './calibrationService';
+import { settlePrediction, getVoidMarkets, buildSettlementResult } from './marketSettlement';
+import { clientStore } from './clientStore';
 
 // Enhanced accuracy tracking with match result fetching
-export const ACCURACY_STORAGE_KEY = 'fixturecast_accuracy_data';
-export const DAILY_PREDICTIONS_KEY = 'fixturecast_daily_predictions';
+// Accuracy records and daily predictions persist in the client store ('accuracyRecords', 'dailyPredictions')
 
 export const calculatePredictionAccuracy = (
   prediction: Prediction,
-  actualResult: { homeScore: number; awayScore: number }
-): PredictionAccuracy['accuracy'] => {
-  const { homeScore, awayScore } = actualResult;
-  const totalGoals = homeScore + awayScore;
-
-  // Determine actual outcome
-  const actualOutcome = homeScore > awayScore ? 'home' : homeScore < awayScore ? 'away' : 'draw';
-  
-  // Determine predicted outcome
-  const predictedOutcome = 
-    prediction.homeWinProbability > prediction.drawProbability && 
-    prediction.homeWinProbability > prediction.awayWinProbability ? 'home' :
-    prediction.awayWinProbability > prediction.drawProbability ? 'away' : 'draw';
-
-  // Calculate accuracy for each prediction type
-  const accuracy = {
-    // Outcome accuracy (Win/Draw/Loss)
-    outcome: actualOutcome === predictedOutcome,
-
-    // Exact scoreline accuracy
-    scoreline: prediction.predictedScoreline === `${homeScore}-${awayScore}`,
-
-    // BTTS accuracy
-    btts: prediction.btts ? (
-      (homeScore > 0 && awayScore > 0) ? 
-        prediction.btts.yesProbability > prediction.btts.noProbability :
-        prediction.btts.noProbability > prediction.btts.yesProbability
-    ) : false,
-
-    // Goal line accuracy (Over/Under 2.5)
-    goalLine: prediction.goalLine ? (
-      totalGoals > prediction.goalLine.line ? 
-        prediction.goalLine.overProbability > prediction.goalLine.underProbability :
-        prediction.goalLine.underProbability > prediction.goalLine.overProbability
-    ) : false,
-
-    // HT/FT accuracy (simplified - would need actual HT score for real accuracy)
-    htft: false, // Placeholder - requires HT score data
-
-    // Score range accuracy
-    scoreRange: prediction.scoreRange ? (
-      totalGoals <= 1 ? prediction.scoreRange.zeroToOne > prediction.scoreRange.twoToThree && 
-                        prediction.scoreRange.zeroToOne > prediction.scoreRange.fourPlus :
-      totalGoals <= 3 ? prediction.scoreRange.twoToThree > prediction.scoreRange.zeroToOne && 
-                        prediction.scoreRange.twoToThree > prediction.scoreRange.fourPlus :
-                        prediction.scoreRange.fourPlus > prediction.scoreRange.zeroToOne && 
-                        prediction.scoreRange.fourPlus > prediction.scoreRange.twoToThree
-    ) : false,
-
-    // First goalscorer accuracy (simplified - would need actual first scorer data)
-    firstGoalscorer: false, // Placeholder - requires first scorer data
-
-    // Clean sheet accuracy
-    cleanSheet: prediction.cleanSheet ? {
-      homeTeam: awayScore === 0 ? 
-        prediction.cleanSheet.homeTeam > (100 - prediction.cleanSheet.homeTeam) :
-        prediction.cleanSheet.homeTeam < (100 - prediction.cleanSheet.homeTeam),
-      awayTeam: homeScore === 0 ? 
-        prediction.cleanSheet.awayTeam > (100 - prediction.cleanSheet.awayTeam) :
-        prediction.cleanSheet.awayTeam < (100 - prediction.cleanSheet.awayTeam)
-    } : { homeTeam: false, awayTeam: false },
-
-    // Corner accuracy (simplified - would need actual corner count)
-    corners: false // Placeholder - requires corner data
-  };
-
-  return {
-    outcome: accuracy.outcome,
-    scoreline: accuracy.scoreline,
-    btts: accuracy.btts,
-    goalLine: accuracy.goalLine,
-    htft: accuracy.htft,
-    scoreRange: accuracy.scoreRange,
-    firstGoalscorer: accuracy.firstGoalscorer,
-    cleanSheet: accuracy.cleanSheet.homeTeam || accuracy.cleanSheet.awayTeam,
-    corners: accuracy.corners
-  };
-};
+  actualResult: SettlementResult
+): PredictionAccuracy['accuracy'] => settlePrediction(prediction, actualResult).accuracy;
 
 export const calculateAccuracyStats = (accuracyRecords: PredictionAccuracy[]): AccuracyStats => {
   if (accuracyRecords.length === 0) {
@@ -165,6 +91,11 @@ export const calculateAccuracyStats = (accuracyRecords: PredictionAccuracy[]): A
   const correctCleanSheet = accuracyRecords.filter(r => r.accuracy.cleanSheet).length;
   const correctCorners = accuracyRecords.filter(r => r.accuracy.corners).length;
 
+  const voidCounts: Partial<Record<AccuracyMarket, number>> = {};
+  accuracyRecords.forEach(r => getVoidMarkets(r).forEach(market => {
+    voidCounts[market] = (voidCounts[market] || 0) + 1;
+  }));
+
   // Calculate recent accuracy
   const last10 = accuracyRecords.slice(-10);
   const last20 = accuracyRecords.slice(-20);
@@ -176,6 +107,14 @@ export const calculateAccuracyStats = (accuracyRecords: PredictionAccuracy[]): A
     last50: last50.length > 0 ? Math.round((last50.filter(r => r.accuracy.outcome).length / last50.length) * 100) : 0
   };
 
+  // 1X2 probability quality alongside hit counts
+  const withCalibration = accuracyRecords.filter(r => r.calibration?.brierScore !== undefined);
+  const calibration = withCalibration.length > 0 ? {
+    brierScore: withCalibration.reduce((sum, r) => sum + (r.calibration!.brierScore || 0), 0) / withCalibration.length,
+    logLoss: withCalibration.reduce((sum, r) => sum + (r.calibration!.logLoss || 0), 0) / withCalibration.length,
+    expectedCalibrationError: buildCalibrationReport(accuracyRecords, '1X2').expectedCalibrationError
+  } : undefined;
+
   return {
     totalPredictions: total,
     correctOutcomes,
@@ -188,7 +127,9 @@ export const calculateAccuracyStats = (accuracyRecords: PredictionAccuracy[]): A
     correctCleanSheet,
     correctCorners,
     recentAccuracy,
-    overallAccuracy: Math.round((correctOutcomes / total) * 100)
+    overallAccuracy: Math.round((correctOutcomes / total) * 100),
+    voidCounts,
+    calibration
   };
 };
 
@@ -196,6 +137,11 @@ export const getAccuracyPercentage = (correct: number, total: number): number =>
   return total > 0 ? Math.round((correct / total) * 100) : 0;
 };
 
+// Predictions that actually settled for a market (void ones excluded)
+export const getSettledCount = (stats: AccuracyStats, market: AccuracyMarket): number => {
+  return Math.max(0, stats.totalPredictions - (stats.voidCounts?.[market] || 0));
+};
+
 export const formatAccuracyDisplay = (stats: AccuracyStats): string => {
   if (stats.totalPredictions === 0) {
     return "Predictions will appear after first matchday";
@@ -257,7 +203,7 @@ export const storeAccuracyData = (accuracyRecord: PredictionAccuracy): void => {
   try {
     const existingData = getStoredAccuracyData();
     const updatedData = [...existingData, accuracyRecord];
-    localStorage.setItem(ACCURACY_STORAGE_KEY, JSON.stringify(updatedData));
+    clientStore.set('accuracyRecords', updatedData);
     console.log('✅ Accuracy data stored:', accuracyRecord);
   } catch (error) {
     console.warn('Failed to store accuracy data:', error);
@@ -272,9 +218,9 @@ const loadMigratedData = (): PredictionAccuracy[] => {
     
     // For now, we'll load the historical data directly from past-predictions.json
     // and convert it to the new format if no accuracy data exists
-    const existingData = localStorage.getItem(ACCURACY_STORAGE_KEY);
+    const existingData = clientStore.get('accuracyRecords');
     
-    if (!existingData || JSON.parse(existingData).length === 0) {
+    if (existingData.length === 0) {
       // Load historical data and convert it
       const historicalData = [
         {
@@ -335,7 +281,7 @@ const loadMigratedData = (): PredictionAccuracy[] => {
       for (const record of historicalData) {
         try {
           // Calculate accuracy using the existing function
-          const accuracy = calculatePredictionAccuracy(record.prediction as any, record.actualResult);
+          const { accuracy, voidMarkets } = settlePrediction(record.prediction as any, record.actualResult);
           const calibration = computeCalibrationMetrics(record.prediction as any, record.actualResult);
 
           const accuracyRecord: PredictionAccuracy = {
@@ -348,6 +294,7 @@ const loadMigratedData = (): PredictionAccuracy[] => {
             prediction: record.prediction as any,
             actualResult: record.actualResult,
             accuracy,
+            voidMarkets,
             calibration,
             timestamp: new Date().toISOString(),
             verified: true,
@@ -362,7 +309,7 @@ const loadMigratedData = (): PredictionAccuracy[] => {
 
       // Store the converted data
       if (accuracyRecords.length > 0) {
-        localStorage.setItem(ACCURACY_STORAGE_KEY, JSON.stringify(accuracyRecords));
+        clientStore.set('accuracyRecords', accuracyRecords);
         console.log(`✅ Successfully loaded ${accuracyRecords.length} historical accuracy records`);
       }
 
@@ -379,8 +326,7 @@ const loadMigratedData = (): PredictionAccuracy[] => {
 // Retrieve stored accuracy data
 export const getStoredAccuracyData = (): PredictionAccuracy[] => {
   try {
-    const stored = localStorage.getItem(ACCURACY_STORAGE_KEY);
-    const existingData = stored ? JSON.parse(stored) : [];
+    const existingData = clientStore.get('accuracyRecords');
     
     // If no existing data, try to load migrated historical data
     if (existingData.length === 0) {
@@ -398,6 +344,10 @@ export const getStoredAccuracyData = (): PredictionAccuracy[] => {
 // Store daily predictions for tracking (with cloud backup)
 export const storeDailyPrediction = async (match: Match, prediction: Prediction): Promise<void> => {
   try {
+    // Apply fitted recalibration (if enabled) so stored probabilities are calibrated
+    prediction = recalibratePrediction(prediction, loadRecalibrationModels());
+    await clientStore.ready();
+
     // Store locally first (immediate)
     const today = new Date().toISOString().split('T')[0];
     const existingData = getDailyPredictions();
@@ -417,6 +367,7 @@ export const storeDailyPrediction = async (match: Match, prediction: Prediction)
       league: match.league,
       matchDate: match.date,
       prediction,
+      promptVersion: prediction.promptVersion,
       predictionTime: new Date().toISOString(),
       verified: false,
       cloudStored: false
@@ -430,6 +381,8 @@ export const storeDailyPrediction = async (match: Match, prediction: Prediction)
       newPredictionData.cloudStored = !!existing.cloudStored;
       newPredictionData.cloudPredictionId = existing.cloudPredictionId;
       newPredictionData.integrityHash = existing.integrityHash;
+      newPredictionData.ledgerDate = existing.ledgerDate;
+      newPredictionData.ledgerLeafHash = existing.ledgerLeafHash;
       
       // Update local record
       existingData[today][existingIndex] = {
@@ -445,7 +398,7 @@ export const storeDailyPrediction = async (match: Match, prediction: Prediction)
       shouldCloudSync = true; // First prediction should sync to cloud
     }
     
-    localStorage.setItem(DAILY_PREDICTIONS_KEY, JSON.stringify(existingData));
+    clientStore.set('dailyPredictions', existingData);
     console.log('✅ Daily prediction stored locally:', newPredictionData);
 
     // Notify UI listeners that a prediction was stored
@@ -475,7 +428,11 @@ export const storeDailyPrediction = async (match: Match, prediction: Prediction)
           updatedData[today][idx].cloudStored = true;
           updatedData[today][idx].cloudPredictionId = cloudResult.predictionId;
           updatedData[today][idx].integrityHash = cloudResult.integrityHash;
-          localStorage.setItem(DAILY_PREDICTIONS_KEY, JSON.stringify(updatedData));
+          if (cloudResult.ledger) {
+            updatedData[today][idx].ledgerDate = cloudResult.ledger.date;
+            updatedData[today][idx].ledgerLeafHash = cloudResult.ledger.leafHash;
+          }
+          clientStore.set('dailyPredictions', updatedData);
         }
         console.log('🔒 Prediction backed up to cloud with integrity hash:', cloudResult.integrityHash);
 
@@ -513,8 +470,7 @@ export const storeDailyPrediction = async (match: Match, prediction: Prediction)
 // Get daily predictions
 export const getDailyPredictions = (): { [date: string]: any[] } => {
   try {
-    const stored = localStorage.getItem(DAILY_PREDICTIONS_KEY);
-    return stored ? JSON.parse(stored) : {};
+    return clientStore.get('dailyPredictions');
   } catch (error) {
     console.warn('Failed to retrieve daily predictions:', error);
     return {};
@@ -535,7 +491,24 @@ export const getLiveAccuracyStats = (): AccuracyStats => {
 };
 
 // Auto-check results for completed matches (with cloud verification)
-export const checkAndUpdateMatchResults = async (matchResults: { id: string; homeScore: number; awayScore: number; status: string }[]): Promise<void> => {
+type FinishedMatchResult = SettlementResult & { id: string; status: string; homeTeamId?: number };
+
+// Fill in first scorer, corners and cards from fixture events and statistics when missing
+const resolveSettlementResult = async (result: FinishedMatchResult): Promise<SettlementResult> => {
+  const settlement = buildSettlementResult(result);
+  if (settlement.firstScoringTeam && settlement.homeCorners !== undefined) return settlement;
+  try {
+    const { getFixtureSettlementData } = await import('./footballApiService');
+    const { events, statistics } = await getFixtureSettlementData(result.id, result.homeTeamId);
+    return buildSettlementResult({ ...result, events, statistics });
+  } catch (error) {
+    console.warn(`Failed to fetch settlement data for ${result.id}:`, error);
+    return settlement;
+  }
+};
+
+export const checkAndUpdateMatchResults = async (matchResults: FinishedMatchResult[]): Promise<void> => {
+  await clientStore.ready();
   const storedData = getStoredAccuracyData();
   const dailyPredictions = getDailyPredictions();
   let hasUpdates = false;
@@ -566,11 +539,9 @@ export const checkAndUpdateMatchResults = async (matchResults: { id: string; hom
     }
     
     if (matchPrediction) {
-      // Calculate accuracy
-      const accuracy = calculatePredictionAccuracy(
-        matchPrediction.prediction,
-        { homeScore: result.homeScore, awayScore: result.awayScore }
-      );
+      // Settle every market; those without result data are void
+      const actualResult = await resolveSettlementResult(result);
+      const { accuracy, voidMarkets } = settlePrediction(matchPrediction.prediction, actualResult);
       
       // Store accuracy record with calibration
       const calibration = computeCalibrationMetrics(
@@ -585,9 +556,13 @@ export const checkAndUpdateMatchResults = async (matchResults: { id: string; hom
         league: matchPrediction.league,
         predictionTime: matchPrediction.predictionTime,
         matchDate: matchPrediction.matchDate,
+        integrityHash: matchPrediction.integrityHash,
+        ledgerDate: matchPrediction.ledgerDate,
+        ledgerLeafHash: matchPrediction.ledgerLeafHash,
         prediction: matchPrediction.prediction,
-        actualResult: { homeScore: result.homeScore, awayScore: result.awayScore },
+        actualResult,
         accuracy,
+        voidMarkets,
         calibration,
         timestamp: new Date().toISOString(),
         verified: true,
@@ -603,7 +578,7 @@ export const checkAndUpdateMatchResults = async (matchResults: { id: string; hom
         if (predictionIndex >= 0) {
           (predictions as any[])[predictionIndex].verified = true;
           (predictions as any[])[predictionIndex].verifiedAt = new Date().toISOString();
-          (predictions as any[])[predictionIndex].actualResult = { homeScore: result.homeScore, awayScore: result.awayScore };
+          (predictions as any[])[predictionIndex].actualResult = actualResult;
           (predictions as any[])[predictionIndex].accuracy = accuracy;
           
           // Try to verify in cloud if it was stored there
@@ -621,7 +596,7 @@ export const checkAndUpdateMatchResults = async (matchResults: { id: string; hom
             }
           }
           
-          localStorage.setItem(DAILY_PREDICTIONS_KEY, JSON.stringify(dailyData));
+          clientStore.set('dailyPredictions', dailyData);
           break;
         }
       }
@@ -638,6 +613,9 @@ export const checkAndUpdateMatchResults = async (matchResults: { id: string; hom
   }
   
   if (hasUpdates) {
+    // Newly settled records feed the recalibration applied to future predictions
+    const models = refreshRecalibrationModels(getStoredAccuracyData());
+    if (models) console.log(`📐 Recalibration refit (${models.method}) on ${Object.keys(models.markets).join(', ')}`);
     console.log('🎯 Accuracy tracking updated with new match results');
   }
 };
@@ -1,4 +1,6 @@
 import { Match, Team } from '../types';
+import { eloRatingService } from './eloRatingService';
+import { teamMetadataService } from './teamMetadataService';
 
 export interface AdvancedMatchAnalytics {
   eloRatings: {
@@ -33,43 +35,19 @@ export interface AdvancedMatchAnalytics {
 export class AdvancedAnalyticsService {
   
   /**
-   * Calculate ELO ratings for teams based on recent performance
+   * Read ELO ratings for both teams from the replayed-results rating engine
    */
-  private calculateEloRatings(homeTeam: string, awayTeam: string): AdvancedMatchAnalytics['eloRatings'] {
-    // Simplified ELO calculation - in reality this would use historical match results
-    // Starting rating: 1500 for average team
-    const baseRating = 1500;
-    
-    // Mock ratings based on team "strength" - would be calculated from actual results
-    const teamRatings: Record<string, number> = {
-      'Arsenal': 1650, 'Chelsea': 1620, 'Manchester City': 1720, 'Liverpool': 1690,
-      'Manchester United': 1580, 'Tottenham': 1560, 'Newcastle': 1540,
-      'Brighton': 1520, 'Aston Villa': 1530, 'West Ham': 1510
-    };
-    
-    const homeElo = teamRatings[homeTeam] || baseRating;
-    const awayElo = teamRatings[awayTeam] || baseRating;
-    const eloDifference = homeElo - awayElo;
-    
-    // Convert ELO difference to win probability using logistic function
-    const winProbabilityFromElo = 1 / (1 + Math.pow(10, -eloDifference / 400));
-    
-    return { homeElo, awayElo, eloDifference, winProbabilityFromElo };
+  private calculateEloRatings(homeTeam: string, awayTeam: string, league?: string): AdvancedMatchAnalytics['eloRatings'] {
+    return eloRatingService.getMatchRatings(homeTeam, awayTeam, league);
   }
   
   /**
    * Analyze form momentum with exponential decay weighting
    */
   private analyzeFormMomentum(homeTeam: string, awayTeam: string): AdvancedMatchAnalytics['formMomentum'] {
-    // Mock form analysis - would use actual recent results
-    // Score based on recent 6 matches with exponential decay
-    const mockFormScores: Record<string, number> = {
-      'Arsenal': 75, 'Chelsea': 65, 'Manchester City': 85, 'Liverpool': 80,
-      'Manchester United': 60, 'Tottenham': 55, 'Newcastle': 70
-    };
-    
-    const homeFormScore = mockFormScores[homeTeam] || 50;
-    const awayFormScore = mockFormScores[awayTeam] || 50;
+    // Form ratings from the team metadata store - would use actual recent results
+    const homeFormScore = teamMetadataService.getRatings(homeTeam).form;
+    const awayFormScore = teamMetadataService.getRatings(awayTeam).form;
     
     let formTrend: 'improving' | 'declining' | 'stable' = 'stable';
     if (Math.abs(homeFormScore - awayFormScore) > 15) {
@@ -83,21 +61,9 @@ export class AdvancedAnalyticsService {
    * Calculate statistical edges based on attack/defense matchups
    */
   private calculateStatisticalEdges(homeTeam: string, awayTeam: string): AdvancedMatchAnalytics['statisticalEdges'] {
-    // Mock statistical ratings - would use actual xG, shots, etc.
-    const attackRatings: Record<string, number> = {
-      'Arsenal': 78, 'Chelsea': 72, 'Manchester City': 88, 'Liverpool': 82,
-      'Manchester United': 68, 'Tottenham': 75, 'Newcastle': 70
-    };
-    
-    const defenseRatings: Record<string, number> = {
-      'Arsenal': 75, 'Chelsea': 70, 'Manchester City': 82, 'Liverpool': 78,
-      'Manchester United': 65, 'Tottenham': 62, 'Newcastle': 73
-    };
-    
-    const homeAttack = attackRatings[homeTeam] || 65;
-    const awayDefense = defenseRatings[awayTeam] || 65;
-    const homeDefense = defenseRatings[homeTeam] || 65;
-    const awayAttack = attackRatings[awayTeam] || 65;
+    // Attack/defence ratings from the team metadata store - would use actual xG, shots, etc.
+    const { attack: homeAttack, defence: homeDefense } = teamMetadataService.getRatings(homeTeam);
+    const { attack: awayAttack, defence: awayDefense } = teamMetadataService.getRatings(awayTeam);
     
     const attackVsDefense = (homeAttack - awayDefense + 100) / 2; // Normalize to 0-100
     const defenseVsAttack = (homeDefense - awayAttack + 100) / 2;
@@ -114,34 +80,16 @@ export class AdvancedAnalyticsService {
    */
   private assessContextualFactors(homeTeam: string, awayTeam: string, league: string): AdvancedMatchAnalytics['contextualFactors'] {
     // Venue advantage varies by league and specific teams
-    const leagueVenueAdvantage: Record<string, number> = {
-      'Premier League': 58, // Home win rate ~45%, so moderate advantage
-      'La Liga': 62,
-      'Serie A': 60,
-      'Bundesliga': 55,
-      'Ligue 1': 59
-    };
-    
-    const venueAdvantage = leagueVenueAdvantage[league] || 55;
+    const venueAdvantage = teamMetadataService.getVenueAdvantage(league);
     
     // Mock rest days advantage
     const restDaysAdvantage: 'home' | 'away' | 'neutral' = 'neutral';
     
     // Pressure index based on league position implications
-    const pressureTeams = ['Manchester United', 'Tottenham', 'Chelsea']; // Teams with high expectations
-    const pressureIndex = pressureTeams.includes(homeTeam) || pressureTeams.includes(awayTeam) ? 70 : 40;
+    const pressureIndex = teamMetadataService.getTeam(homeTeam)?.highExpectations || teamMetadataService.getTeam(awayTeam)?.highExpectations ? 70 : 40;
     
     // Rivalry intensity
-    const rivalries: Record<string, string[]> = {
-      'Arsenal': ['Tottenham', 'Chelsea', 'Manchester United'],
-      'Chelsea': ['Arsenal', 'Tottenham', 'Liverpool'],
-      'Tottenham': ['Arsenal', 'Chelsea'],
-      'Liverpool': ['Manchester United', 'Manchester City', 'Chelsea'],
-      'Manchester United': ['Liverpool', 'Manchester City', 'Arsenal'],
-      'Manchester City': ['Manchester United', 'Liverpool']
-    };
-    
-    const rivalryIntensity = rivalries[homeTeam]?.includes(awayTeam) ? 85 : 25;
+    const rivalryIntensity = teamMetadataService.getRivalryIntensity(homeTeam, awayTeam);
     
     return { venueAdvantage, restDaysAdvantage, pressureIndex, rivalryIntensity };
   }
@@ -157,8 +105,7 @@ export class AdvancedAnalyticsService {
     const dataQuality = 75; // Would be based on actual data availability
     
     // Squad rotation risk - higher for teams in European competitions
-    const europeanTeams = ['Arsenal', 'Chelsea', 'Manchester City', 'Liverpool', 'Manchester United', 'Newcastle'];
-    const squadRotationRisk = europeanTeams.includes(homeTeam) || europeanTeams.includes(awayTeam) ? 40 : 20;
+    const squadRotationRisk = teamMetadataService.getTeam(homeTeam)?.european || teamMetadataService.getTeam(awayTeam)?.european ? 40 : 20;
     
     return { injuryImpact, dataQuality, squadRotationRisk };
   }
@@ -167,7 +114,7 @@ export class AdvancedAnalyticsService {
    * Generate comprehensive advanced analytics for a match
    */
   async generateAdvancedAnalytics(match: Match): Promise<AdvancedMatchAnalytics> {
-    const eloRatings = this.calculateEloRatings(match.homeTeam, match.awayTeam);
+    const eloRatings = this.calculateEloRatings(match.homeTeam, match.awayTeam, match.league);
     const formMomentum = this.analyzeFormMomentum(match.homeTeam, match.awayTeam);
     const statisticalEdges = this.calculateStatisticalEdges(match.homeTeam, match.awayTeam);
     const contextualFactors = this.assessContextualFactors(match.homeTeam, match.awayTeam, match.league);
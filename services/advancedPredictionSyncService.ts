@@ -2,45 +2,91 @@
  * Advanced Cross-Platform Prediction Sync Service
  * Implements offline-first, real-time sync with conflict resolution
  * Ensures predictions are generated once and synced across all platforms
+ *
+ * Conflicts between devices are detected with version vectors and resolved
+ * by the strategies in syncConflicts.ts; those that need a person wait in the
+ * 'syncConflicts' client store collection until resolved from SyncStatusIndicator.
  */
 
 import { Prediction, Match } from '../types';
-import { cloudPredictionService } from './cloudPredictionService';
+import { clientStore } from './clientStore';
+import {
+  ConflictStrategy,
+  PredictionAnnotations,
+  PredictionSyncRecord,
+  SyncConflict,
+  mergeVectors,
+  reconcile,
+  resolveConflict,
+  stampEdit,
+  vectorOf
+} from './syncConflicts';
+
+export type { ConflictStrategy, PredictionAnnotations, PredictionSyncRecord, SyncConflict } from './syncConflicts';
 
 export interface SyncStatus {
   isOnline: boolean;
   lastSyncTime: number;
   pendingSync: number;
   conflicts: number;
+  // Conflicts waiting for manual review, oldest first
+  conflictQueue: SyncConflict[];
   errors: string[];
 }
 
-export interface PredictionSyncRecord {
-  id: string;
-  matchId: string;
-  prediction: Prediction;
-  metadata: {
-    created: number;
-    modified: number;
-    deviceId: string;
-    version: number;
-    checksum: string;
-    platform: 'web' | 'mobile' | 'desktop';
-  };
-  syncStatus: {
-    local: boolean;
-    cloud: boolean;
-    pending: boolean;
-    conflicted: boolean;
-  };
+/**
+ * Where the shared copy of each record lives; push resolves to the record the
+ * cloud holds afterwards, or rejects with `current` when another device got there first
+ */
+export interface SyncTransport {
+  fetch(matchId: string): Promise<PredictionSyncRecord | null>;
+  push(record: PredictionSyncRecord): Promise<{ stored: boolean; current?: PredictionSyncRecord }>;
 }
 
-export interface SyncConflict {
-  matchId: string;
-  localVersion: PredictionSyncRecord;
-  cloudVersion: PredictionSyncRecord;
-  resolution: 'local' | 'cloud' | 'merge' | 'manual';
-}
+const SYNC_ENDPOINT = '/api/predictions/sync';
+
+let pendingSyncId: Promise<string> | null = null;
+
+// The sync id records are kept under, issued by the endpoint on first use
+const syncIdHeader = async (): Promise<Record<string, string>> => {
+  const stored = clientStore.get('syncId');
+  if (stored) return { 'X-Sync-Id': stored };
+
+  pendingSyncId = pendingSyncId || (async () => {
+    const response = await fetch(SYNC_ENDPOINT, { method: 'POST' });
+    if (!response.ok) throw new Error(`Sync id request failed: ${response.status}`);
+    const { syncId } = await response.json();
+    clientStore.set('syncId', syncId);
+    return syncId as string;
+  })().finally(() => { pendingSyncId = null; });
+  return { 'X-Sync-Id': await pendingSyncId };
+};
+
+// An id the endpoint no longer knows is dropped so the next sync asks for a new one
+const checkSyncId = (response: Response): void => {
+  if (response.status === 401) clientStore.set('syncId', null);
+};
+
+const httpTransport: SyncTransport = {
+  async fetch(matchId) {
+    const response = await fetch(`${SYNC_ENDPOINT}?matchId=${encodeURIComponent(matchId)}`, { headers: await syncIdHeader() });
+    if (response.status === 404) return null;
+    checkSyncId(response);
+    if (!response.ok) throw new Error(`Sync fetch failed: ${response.status}`);
+    return (await response.json()).record || null;
+  },
+  async push(record) {
+    const response = await fetch(SYNC_ENDPOINT, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(await syncIdHeader()) },
+      body: JSON.stringify({ record })
+    });
+    if (response.status === 409) return { stored: false, current: (await response.json()).current };
+    checkSyncId(response);
+    if (!response.ok) throw new Error(`Sync push failed: ${response.status}`);
+    return { stored: true };
+  }
+};
 
 export class AdvancedPredictionSyncService {
   private static instance: AdvancedPredictionSyncService;
@@ -52,6 +98,8 @@ export class AdvancedPredictionSyncService {
   private isOnline: boolean = navigator.onLine;
   private syncInProgress: boolean = false;
   private backgroundSyncInterval: number | null = null;
+  private transport: SyncTransport = httpTransport;
+  private lastSyncTime: number = 0;
 
   private constructor() {
     this.deviceId = this.generateDeviceId();
@@ -71,11 +119,11 @@ export class AdvancedPredictionSyncService {
    * Generate unique device identifier for conflict resolution
    */
   private generateDeviceId(): string {
-    const stored = localStorage.getItem('fixturecast_device_id');
+    const stored = clientStore.get('deviceId');
     if (stored) return stored;
     
     const deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('fixturecast_device_id', deviceId);
+    clientStore.set('deviceId', deviceId);
     return deviceId;
   }
 
@@ -143,18 +191,26 @@ export class AdvancedPredictionSyncService {
    * Store prediction with advanced sync capabilities
    */
   public async storePrediction(match: Match, prediction: Prediction): Promise<PredictionSyncRecord> {
+    const now = Date.now();
+    const existing = await this.getLocal(match.id);
+    const metadata: PredictionSyncRecord['metadata'] = {
+      created: existing?.metadata.created || now,
+      modified: now,
+      deviceId: this.deviceId,
+      version: 1,
+      checksum: this.calculateChecksum(prediction),
+      platform: this.platform,
+      generatedAt: now,
+      kickoff: match.date
+    };
     const record: PredictionSyncRecord = {
-      id: `pred_${match.id}_${Date.now()}`,
+      id: existing?.id || `pred_${match.id}_${now}`,
       matchId: match.id,
       prediction,
-      metadata: {
-        created: Date.now(),
-        modified: Date.now(),
-        deviceId: this.deviceId,
-        version: 1,
-        checksum: this.calculateChecksum(prediction),
-        platform: this.platform
-      },
+      annotations: existing?.annotations,
+      annotationStamps: existing?.annotationStamps,
+      // A new prediction on this device supersedes whatever it already held
+      metadata: stampEdit(metadata, existing ? vectorOf(existing) : {}, this.deviceId, now),
       syncStatus: {
         local: true,
         cloud: false,
@@ -165,16 +221,42 @@ export class AdvancedPredictionSyncService {
 
     // Store locally first (offline-first)
     await this.storeLocal(record);
-    
-    // Queue for cloud sync
-    this.syncQueue.add(record.matchId);
-    
+    this.queueSync(record.matchId);
+
+    return record;
+  }
+
+  /**
+   * Edit the user's notes, tags or star on a prediction; each field syncs and merges on its own
+   */
+  public async annotatePrediction(matchId: string, changes: PredictionAnnotations): Promise<PredictionSyncRecord | null> {
+    const existing = await this.getLocal(matchId);
+    if (!existing) return null;
+
+    const now = Date.now();
+    const stamps = { ...existing.annotationStamps };
+    (Object.keys(changes) as (keyof PredictionAnnotations)[]).forEach(field => {
+      stamps[field] = { at: now, deviceId: this.deviceId };
+    });
+    const record: PredictionSyncRecord = {
+      ...existing,
+      annotations: { ...existing.annotations, ...changes },
+      annotationStamps: stamps,
+      metadata: stampEdit(existing.metadata, vectorOf(existing), this.deviceId, now),
+      syncStatus: { ...existing.syncStatus, cloud: false, pending: true }
+    };
+
+    await this.storeLocal(record);
+    this.queueSync(matchId);
+    return record;
+  }
+
+  private queueSync(matchId: string): void {
+    this.syncQueue.add(matchId);
     // Trigger immediate sync if online
     if (this.isOnline) {
       this.triggerSync();
     }
-
-    return record;
   }
 
   /**
@@ -195,9 +277,9 @@ export class AdvancedPredictionSyncService {
     // If not local and online, try cloud
     if (this.isOnline) {
       try {
-        const cloudRecord = await this.getFromCloud(matchId);
+        const cloudRecord = await this.transport.fetch(matchId);
         if (cloudRecord) {
-          await this.storeLocal(cloudRecord);
+          await this.storeLocal({ ...cloudRecord, syncStatus: { local: true, cloud: true, pending: false, conflicted: false } });
           return cloudRecord.prediction;
         }
       } catch (error) {
@@ -209,28 +291,18 @@ export class AdvancedPredictionSyncService {
   }
 
   /**
-   * Store prediction locally with versioning
+   * Store prediction locally; versions are reconciled with the cloud during sync
    */
   private async storeLocal(record: PredictionSyncRecord): Promise<void> {
     const key = `fixturecast_prediction_${record.matchId}`;
-    const existing = await this.getLocal(record.matchId);
-    
-    if (existing) {
-      // Version conflict detection
-      if (existing.metadata.version !== record.metadata.version) {
-        record.syncStatus.conflicted = true;
-        await this.handleConflict(record, existing);
-        return;
-      }
+    try {
+      localStorage.setItem(key, JSON.stringify(record));
+    } catch (error) {
+      console.warn('Failed to store synced prediction:', error);
     }
 
-    localStorage.setItem(key, JSON.stringify(record));
-    
     // Update prediction cache for immediate UI updates
-    const cacheKey = 'fixturecast_prediction_cache';
-    const cache = JSON.parse(localStorage.getItem(cacheKey) || '{}');
-    cache[record.matchId] = record.prediction;
-    localStorage.setItem(cacheKey, JSON.stringify(cache));
+    clientStore.update('predictionCache', cache => ({ ...cache, [record.matchId]: record.prediction }));
   }
 
   /**
@@ -238,51 +310,33 @@ export class AdvancedPredictionSyncService {
    */
   private async getLocal(matchId: string): Promise<PredictionSyncRecord | null> {
     const key = `fixturecast_prediction_${matchId}`;
-    const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) : null;
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
   }
 
   /**
-   * Get prediction from cloud
+   * Sync id this device syncs under; null until the first sync
    */
-  private async getFromCloud(matchId: string): Promise<PredictionSyncRecord | null> {
-    try {
-      const response = await fetch(`/api/predictions/${matchId}`);
-      if (!response.ok) return null;
-      
-      let data;
-      try {
-        data = await response.json();
-      } catch (jsonError) {
-        console.error('❌ Invalid JSON response from prediction API:', jsonError);
-        const responseText = await response.text();
-        console.error('Raw response:', responseText.substring(0, 500));
-        throw new Error(`Invalid JSON response from prediction API: ${jsonError.message}`);
-      }
-      
-      return {
-        id: `cloud_${matchId}`,
-        matchId,
-        prediction: data.numeric_predictions,
-        metadata: {
-          created: new Date(data.meta.last_updated).getTime(),
-          modified: new Date(data.meta.last_updated).getTime(),
-          deviceId: 'cloud',
-          version: 1,
-          checksum: this.calculateChecksum(data.numeric_predictions),
-          platform: 'cloud'
-        },
-        syncStatus: {
-          local: false,
-          cloud: true,
-          pending: false,
-          conflicted: false
-        }
-      };
-    } catch (error) {
-      console.warn('Cloud fetch failed:', error);
-      return null;
-    }
+  public getSyncId(): string | null {
+    return clientStore.get('syncId');
+  }
+
+  /**
+   * Join another device's sync id so both sync the same predictions
+   */
+  public linkSyncId(syncId: string): void {
+    clientStore.set('syncId', syncId.trim());
+  }
+
+  /**
+   * Swap the cloud side (tests simulate other devices through an in-memory transport)
+   */
+  public setTransport(transport: SyncTransport): void {
+    this.transport = transport;
   }
 
   /**
@@ -310,6 +364,7 @@ export class AdvancedPredictionSyncService {
         }
       }
 
+      this.lastSyncTime = Date.now();
       // Notify listeners
       this.notifyListeners();
     } finally {
@@ -318,68 +373,105 @@ export class AdvancedPredictionSyncService {
   }
 
   /**
-   * Sync individual prediction
+   * Sync individual prediction: compare version vectors with the cloud copy,
+   * then pull, push, resolve or queue the conflict for review
    */
-  private async syncPrediction(matchId: string): Promise<void> {
+  private async syncPrediction(matchId: string, retried: boolean = false): Promise<void> {
     const localRecord = await this.getLocal(matchId);
-    if (!localRecord) return;
+    // Nothing to compare while a conflict waits for the user
+    if (localRecord?.syncStatus.conflicted) return;
+
+    const cloudRecord = await this.transport.fetch(matchId);
+    const result = reconcile(localRecord, cloudRecord, { deviceId: this.deviceId });
+    const synced = (record: PredictionSyncRecord): PredictionSyncRecord =>
+      ({ ...record, syncStatus: { local: true, cloud: true, pending: false, conflicted: false } });
+
+    switch (result.action) {
+      case 'none':
+        if (localRecord && !localRecord.syncStatus.cloud) await this.storeLocal(synced(localRecord));
+        return;
+      case 'pull':
+        await this.storeLocal(synced(result.record!));
+        console.log(`⬇️ Pulled newer prediction: ${matchId}`);
+        return;
+      case 'queued':
+        await this.handleConflict(result.conflict!);
+        return;
+    }
+
+    let record = result.record!;
+    if (result.action === 'resolved' && cloudRecord) {
+      record = (await this.applyCustomResolver(localRecord!, cloudRecord)) || record;
+      console.log(`🔀 Resolved sync conflict: ${matchId}`);
+    }
 
-    // Check if already synced
-    if (localRecord.syncStatus.cloud) return;
+    const pushed = await this.transport.push(record);
+    if (!pushed.stored) {
+      // Another device pushed in between; compare against its copy once more
+      await this.storeLocal(record);
+      if (retried) throw new Error('Cloud copy keeps changing');
+      return this.syncPrediction(matchId, true);
+    }
+    await this.storeLocal(synced(record));
+    console.log(`✅ Synced prediction: ${matchId}`);
+  }
 
+  private async applyCustomResolver(local: PredictionSyncRecord, cloud: PredictionSyncRecord): Promise<PredictionSyncRecord | null> {
+    const resolver = this.conflictResolver.get(local.matchId);
+    if (!resolver) return null;
     try {
-      // Upload to cloud
-      const match: Match = {
-        id: matchId,
-        homeTeam: localRecord.prediction.homeTeam || '',
-        awayTeam: localRecord.prediction.awayTeam || '',
-        league: localRecord.prediction.league || 'Unknown',
-        date: new Date().toISOString(),
-        homeTeamId: 0,
-        awayTeamId: 0,
-        status: 'NS',
-        venue: ''
-      };
-
-      await cloudPredictionService.storePrediction(match, localRecord.prediction);
-      
-      // Update local record
-      localRecord.syncStatus.cloud = true;
-      localRecord.syncStatus.pending = false;
-      await this.storeLocal(localRecord);
-
-      console.log(`✅ Synced prediction: ${matchId}`);
+      const resolved = await resolver({ matchId: local.matchId, localVersion: local, cloudVersion: cloud, resolution: 'merge' });
+      // Whatever the resolver returns supersedes both copies
+      const vector = mergeVectors(vectorOf(local), vectorOf(cloud));
+      return { ...resolved, metadata: stampEdit(resolved.metadata, vector, this.deviceId, Date.now()) };
     } catch (error) {
-      console.error(`❌ Sync failed for ${matchId}:`, error);
-      throw error;
+      console.warn(`Conflict resolver for ${local.matchId} failed:`, error);
+      return null;
     }
   }
 
   /**
-   * Handle sync conflicts
+   * Queue a conflict no strategy could settle; the local copy stays as it is until reviewed
    */
-  private async handleConflict(local: PredictionSyncRecord, existing: PredictionSyncRecord): Promise<void> {
-    const conflict: SyncConflict = {
-      matchId: local.matchId,
-      localVersion: local,
-      cloudVersion: existing,
-      resolution: 'local' // Default to local
-    };
-
-    // Check if we have a custom resolver
-    const resolver = this.conflictResolver.get(local.matchId);
-    if (resolver) {
-      const resolved = await resolver(conflict);
-      await this.storeLocal(resolved);
+  private async handleConflict(conflict: SyncConflict): Promise<void> {
+    const custom = await this.applyCustomResolver(conflict.localVersion, conflict.cloudVersion);
+    if (custom) {
+      await this.storeLocal({ ...custom, syncStatus: { ...custom.syncStatus, pending: true, conflicted: false } });
+      this.syncQueue.add(conflict.matchId);
       return;
     }
 
-    // Default conflict resolution: use most recent
-    const useLocal = local.metadata.modified > existing.metadata.modified;
-    const winner = useLocal ? local : existing;
-    
-    winner.syncStatus.conflicted = false;
-    await this.storeLocal(winner);
+    await this.storeLocal({ ...conflict.localVersion, syncStatus: { ...conflict.localVersion.syncStatus, conflicted: true } });
+    clientStore.update('syncConflicts', queue => ({ ...queue, [conflict.matchId]: conflict }));
+    console.warn(`⚠️ Sync conflict needs review: ${conflict.matchId} (${conflict.reason})`);
+  }
+
+  /**
+   * Conflicts waiting for manual review, oldest first
+   */
+  public getConflicts(): SyncConflict[] {
+    return Object.values(clientStore.get('syncConflicts'))
+      .sort((a, b) => (a.detectedAt || 0) - (b.detectedAt || 0));
+  }
+
+  /**
+   * Settle a queued conflict with the user's choice and sync the result
+   */
+  public async resolveQueuedConflict(matchId: string, strategy: Exclude<ConflictStrategy, 'manual'>): Promise<PredictionSyncRecord | null> {
+    const conflict = clientStore.get('syncConflicts')[matchId];
+    if (!conflict) return null;
+
+    const resolved = resolveConflict(conflict, strategy, this.deviceId);
+    if (!resolved) return null;
+
+    await this.storeLocal(resolved);
+    clientStore.update('syncConflicts', queue => {
+      const { [matchId]: _settled, ...rest } = queue;
+      return rest;
+    });
+    this.queueSync(matchId);
+    this.notifyListeners();
+    return resolved;
   }
 
   /**
@@ -436,13 +528,7 @@ export class AdvancedPredictionSyncService {
    * Notify all listeners of sync status
    */
   private notifyListeners(): void {
-    const status: SyncStatus = {
-      isOnline: this.isOnline,
-      lastSyncTime: Date.now(),
-      pendingSync: this.syncQueue.size,
-      conflicts: 0, // TODO: Track conflicts
-      errors: []
-    };
+    const status = this.getSyncStatus();
 
     this.syncListeners.forEach(listener => {
       try {
@@ -457,11 +543,13 @@ export class AdvancedPredictionSyncService {
    * Get current sync status
    */
   public getSyncStatus(): SyncStatus {
+    const conflictQueue = this.getConflicts();
     return {
       isOnline: this.isOnline,
-      lastSyncTime: Date.now(),
+      lastSyncTime: this.lastSyncTime,
       pendingSync: this.syncQueue.size,
-      conflicts: 0,
+      conflicts: conflictQueue.length,
+      conflictQueue,
       errors: []
     };
   }
@@ -0,0 +1,258 @@
+/**
+ * API-Football response cache
+ * Per-endpoint TTL policies, in-flight request coalescing and
+ * stale-while-revalidate over a pluggable persistent backend. Runtime-neutral:
+ * the app backs it with the client store, the cron worker with KV.
+ */
+
+export type ApiCacheCategory =
+  | 'live'
+  | 'lineups'
+  | 'events'
+  | 'statistics'
+  | 'fixtures'
+  | 'standings'
+  | 'teams'
+  | 'squads'
+  | 'injuries'
+  | 'headToHead'
+  | 'transfers'
+  | 'leagues'
+  | 'other';
+
+export interface CachePolicy {
+  ttlMs: number;   // Served as fresh for this long
+  staleMs: number; // Then served stale (while revalidating in the background) for this long
+}
+
+export interface ApiCacheEntry<T = any> {
+  data: T;
+  storedAt: number;
+  category: ApiCacheCategory;
+}
+
+export interface ApiCacheBackend {
+  get(key: string): Promise<ApiCacheEntry | null>;
+  set(key: string, entry: ApiCacheEntry, policy: CachePolicy): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export type ApiCacheStatus = 'fresh' | 'stale' | 'miss' | 'coalesced';
+
+export interface ApiCacheStats {
+  fresh: number;
+  stale: number;
+  misses: number;
+  coalesced: number;
+  revalidations: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CACHE_POLICIES: Record<ApiCacheCategory, CachePolicy> = {
+  live: { ttlMs: 15 * SECOND, staleMs: 15 * SECOND },
+  lineups: { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE },
+  events: { ttlMs: 30 * SECOND, staleMs: MINUTE },
+  statistics: { ttlMs: MINUTE, staleMs: 5 * MINUTE },
+  fixtures: { ttlMs: 30 * MINUTE, staleMs: 6 * HOUR },
+  standings: { ttlMs: HOUR, staleMs: 12 * HOUR },
+  teams: { ttlMs: 12 * HOUR, staleMs: 7 * DAY },
+  squads: { ttlMs: DAY, staleMs: 7 * DAY },
+  injuries: { ttlMs: 6 * HOUR, staleMs: DAY },
+  headToHead: { ttlMs: DAY, staleMs: 7 * DAY },
+  transfers: { ttlMs: DAY, staleMs: 7 * DAY },
+  leagues: { ttlMs: 7 * DAY, staleMs: 30 * DAY },
+  other: { ttlMs: HOUR, staleMs: 6 * HOUR }
+};
+
+/**
+ * Map an API-Football path (optionally with its query string) to a cache category
+ */
+export const categorizeEndpoint = (endpoint: string, params: Record<string, any> = {}): ApiCacheCategory => {
+  const [path, query] = endpoint.split('?');
+  const isLive = params.live !== undefined || /(^|&)live=/.test(query || '');
+  switch (path.replace(/\/+$/, '')) {
+    case '/fixtures': return isLive ? 'live' : 'fixtures';
+    case '/fixtures/lineups': return 'lineups';
+    case '/fixtures/events': return 'events';
+    case '/fixtures/statistics': return 'statistics';
+    case '/fixtures/headtohead': return 'headToHead';
+    case '/standings': return 'standings';
+    case '/teams':
+    case '/teams/statistics': return 'teams';
+    case '/players':
+    case '/players/squads': return 'squads';
+    case '/injuries': return 'injuries';
+    case '/transfers': return 'transfers';
+    case '/leagues': return 'leagues';
+    default: return 'other';
+  }
+};
+
+export const cacheKeyFor = (endpoint: string, params: Record<string, any> = {}): string => `${endpoint}-${JSON.stringify(params)}`;
+
+interface ApiCacheOptions {
+  backend?: ApiCacheBackend | null;
+  policies?: Partial<Record<ApiCacheCategory, CachePolicy>>;
+  useMemory?: boolean; // Keep entries in this process; off means coalescing (and backend) only
+  maxMemoryEntries?: number;
+  now?: () => number;
+}
+
+export interface ApiCacheFetchOptions {
+  forceRefresh?: boolean;
+  // Keeps the background refresh of a stale entry alive after the caller is done (a Worker's ctx.waitUntil)
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+export class ApiCache {
+  private memory = new Map<string, ApiCacheEntry>();
+  private inflight = new Map<string, Promise<any>>();
+  private counters: ApiCacheStats = { fresh: 0, stale: 0, misses: 0, coalesced: 0, revalidations: 0 };
+  private readonly backend: ApiCacheBackend | null;
+  private readonly policies: Record<ApiCacheCategory, CachePolicy>;
+  private readonly useMemory: boolean;
+  private readonly maxMemoryEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: ApiCacheOptions = {}) {
+    this.backend = options.backend ?? null;
+    this.policies = { ...CACHE_POLICIES, ...options.policies };
+    this.useMemory = options.useMemory !== false;
+    this.maxMemoryEntries = options.maxMemoryEntries ?? 500;
+    this.now = options.now || (() => Date.now());
+  }
+
+  policyFor(category: ApiCacheCategory): CachePolicy {
+    return this.policies[category] || this.policies.other;
+  }
+
+  /**
+   * Cached value or the loader's result. Fresh entries are returned as-is;
+   * stale ones are returned immediately while a single background refresh runs;
+   * concurrent misses for the same key share one loader call.
+   */
+  async fetch<T>(
+    key: string,
+    category: ApiCacheCategory,
+    loader: () => Promise<T>,
+    options: ApiCacheFetchOptions = {}
+  ): Promise<{ data: T; status: ApiCacheStatus }> {
+    if (!options.forceRefresh) {
+      const entry = await this.peek(key);
+      if (entry) {
+        const policy = this.policyFor(category);
+        const age = this.now() - entry.storedAt;
+        if (age < policy.ttlMs) {
+          this.counters.fresh++;
+          return { data: entry.data as T, status: 'fresh' };
+        }
+        if (age < policy.ttlMs + policy.staleMs) {
+          this.counters.stale++;
+          const refresh = this.load(key, category, loader).catch(error => {
+            console.warn(`⚠️ Background refresh failed for ${key}:`, error?.message || error);
+          });
+          options.waitUntil?.(refresh);
+          return { data: entry.data as T, status: 'stale' };
+        }
+      }
+    }
+
+    if (this.inflight.has(key)) {
+      this.counters.coalesced++;
+      return { data: await this.inflight.get(key)!, status: 'coalesced' };
+    }
+    this.counters.misses++;
+    return { data: await this.load(key, category, loader), status: 'miss' };
+  }
+
+  /**
+   * Any stored entry regardless of age (for serving stale data when the API fails)
+   */
+  async peek(key: string): Promise<ApiCacheEntry | null> {
+    const cached = this.memory.get(key);
+    if (cached) return cached;
+    if (!this.backend) return null;
+    try {
+      const entry = await this.backend.get(key);
+      if (entry) this.remember(key, entry);
+      return entry;
+    } catch (error) {
+      console.warn('⚠️ API cache backend read failed:', error);
+      return null;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.inflight.clear();
+    this.counters = { fresh: 0, stale: 0, misses: 0, coalesced: 0, revalidations: 0 };
+    await this.backend?.clear?.();
+  }
+
+  stats(): ApiCacheStats & { entries: number; inflight: number } {
+    return { ...this.counters, entries: this.memory.size, inflight: this.inflight.size };
+  }
+
+  private load<T>(key: string, category: ApiCacheCategory, loader: () => Promise<T>): Promise<T> {
+    const existing = this.inflight.get(key);
+    if (existing) return existing;
+
+    const isRevalidation = this.memory.has(key);
+    const request = (async () => {
+      try {
+        const data = await loader();
+        const entry: ApiCacheEntry<T> = { data, storedAt: this.now(), category };
+        this.remember(key, entry);
+        if (isRevalidation) this.counters.revalidations++;
+        try {
+          await this.backend?.set(key, entry, this.policyFor(category));
+        } catch (error) {
+          console.warn('⚠️ API cache backend write failed:', error);
+        }
+        return data;
+      } finally {
+        this.inflight.delete(key);
+      }
+    })();
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  private remember(key: string, entry: ApiCacheEntry): void {
+    if (!this.useMemory) return;
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    // Map iteration order is insertion order: drop the least recently stored
+    while (this.memory.size > this.maxMemoryEntries) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * Minimal KV surface (Cloudflare KVNamespace or the worker's MemoryKV)
+ */
+export interface KVLike {
+  get(key: string, type: 'json'): Promise<any>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+const KV_PREFIX = 'apicache:';
+const KV_MIN_TTL_SECONDS = 60; // Cloudflare's minimum expirationTtl
+
+export class KVCacheBackend implements ApiCacheBackend {
+  constructor(private kv: KVLike) {}
+
+  async get(key: string): Promise<ApiCacheEntry | null> {
+    return (await this.kv.get(KV_PREFIX + key, 'json')) as ApiCacheEntry | null;
+  }
+
+  async set(key: string, entry: ApiCacheEntry, policy: CachePolicy): Promise<void> {
+    const expirationTtl = Math.max(KV_MIN_TTL_SECONDS, Math.ceil((policy.ttlMs + policy.staleMs) / 1000));
+    await this.kv.put(KV_PREFIX + key, JSON.stringify(entry), { expirationTtl });
+  }
+}
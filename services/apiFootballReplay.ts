@@ -0,0 +1,224 @@
+/**
+ * API-Football record/replay
+ * A stand-in for v3.football.api-sports.io that answers from recorded
+ * responses, so the app, the cron worker and Vitest suites run offline against
+ * realistic payloads. Recordings are pinned to the moment they were captured;
+ * the replay clock shifts them by whole days so a recording made on a Saturday
+ * can be served as "today" on any other day (request dates are shifted back to
+ * find the recording, response dates forward to match the clock).
+ *
+ * Runtime-neutral: file I/O and the HTTP listener live in scripts/.
+ */
+
+export const API_FOOTBALL_UPSTREAM = 'https://v3.football.api-sports.io';
+
+// Endpoints the recorder captures; anything else is proxied but not saved
+export const RECORDABLE_ENDPOINTS = ['/fixtures', '/standings', '/teams', '/injuries', '/fixtures/headtohead'];
+
+// Query parameters holding calendar dates (YYYY-MM-DD) that move with the clock
+const DATE_PARAMS = ['date', 'from', 'to'];
+
+export interface ApiFootballRecording {
+  endpoint: string;
+  params: Record<string, string>;
+  recordedAt: string; // ISO timestamp the response was captured
+  status: number;
+  body: any;
+  note?: string;
+}
+
+export interface ReplayResult {
+  status: number;
+  body: any;
+  hit: boolean;
+  recording?: ApiFootballRecording;
+}
+
+export interface ReplayOptions {
+  // Current time as seen by the replay; defaults to each recording's own time (no shifting)
+  clock?: () => number;
+  // Unknown requests get a 404 instead of an empty API envelope
+  strict?: boolean;
+  // Parameters left out of matching (e.g. timezone)
+  ignoreParams?: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_MISSES_KEPT = 200;
+const ISO_DATE = /^(\d{4}-\d{2}-\d{2})(T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const startOfUtcDay = (time: number) => Math.floor(time / DAY_MS) * DAY_MS;
+
+/**
+ * Normalised endpoint ('/api/proxy/fixtures/' -> '/fixtures') so the same
+ * recordings answer direct, Pages-proxy and local-proxy style URLs
+ */
+export const normalizeEndpoint = (path: string): string =>
+  ('/' + path.replace(/^\/+/, '').replace(/^api\/proxy\//, '').replace(/^api\//, '')).replace(/\/+$/, '') || '/';
+
+export const normalizeParams = (params: Record<string, any>, ignore: string[] = []): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(params)
+      .filter(([key, value]) => value !== undefined && value !== null && !ignore.includes(key))
+      .map(([key, value]) => [key, String(value)] as [string, string])
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+
+export const recordingKey = (endpoint: string, params: Record<string, any>, ignore: string[] = []): string =>
+  `${normalizeEndpoint(endpoint)}?${new URLSearchParams(normalizeParams(params, ignore)).toString()}`;
+
+/**
+ * Stable relative file path for a recording, e.g. fixtures/date-2025-10-18_league-39_season-2025.json
+ */
+export const recordingFileName = (endpoint: string, params: Record<string, any>): string => {
+  const dir = normalizeEndpoint(endpoint).slice(1).replace(/\//g, '_') || 'root';
+  const slug = Object.entries(normalizeParams(params))
+    .map(([key, value]) => `${key}-${value}`.replace(/[^a-zA-Z0-9.-]+/g, '-'))
+    .join('_');
+  return `${dir}/${slug || 'all'}.json`;
+};
+
+export const dayOffset = (recordedAt: string, now: number): number =>
+  Math.round((startOfUtcDay(now) - startOfUtcDay(new Date(recordedAt).getTime())) / DAY_MS);
+
+const shiftDateString = (value: string, days: number): string => {
+  const match = ISO_DATE.exec(value);
+  if (!match || days === 0) return value;
+  const day = Date.parse(`${match[1]}T00:00:00Z`);
+  if (Number.isNaN(day)) return value;
+  // Only the calendar date moves; the time and offset text are kept as recorded
+  return new Date(day + days * DAY_MS).toISOString().slice(0, 10) + (match[2] || '');
+};
+
+/**
+ * Moves every ISO date/timestamp string and numeric `timestamp` field in a payload by whole days
+ */
+export const shiftPayloadDates = (value: any, days: number): any => {
+  if (days === 0 || value === null || value === undefined) return value;
+  if (typeof value === 'string') return shiftDateString(value, days);
+  if (Array.isArray(value)) return value.map(item => shiftPayloadDates(item, days));
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      key === 'timestamp' && typeof item === 'number' ? item + days * 86400 : shiftPayloadDates(item, days)
+    ]));
+  }
+  return value;
+};
+
+const shiftParams = (params: Record<string, string>, days: number): Record<string, string> =>
+  Object.fromEntries(Object.entries(params).map(([key, value]) => [key, DATE_PARAMS.includes(key) ? shiftDateString(value, days) : value]));
+
+/**
+ * What API-Football returns for a valid query with no results
+ */
+export const emptyApiEnvelope = (endpoint: string, params: Record<string, any>) => ({
+  get: normalizeEndpoint(endpoint).slice(1),
+  parameters: normalizeParams(params),
+  errors: [],
+  results: 0,
+  paging: { current: 1, total: 1 },
+  response: []
+});
+
+export const isRecordable = (endpoint: string, status: number, body: any): boolean =>
+  RECORDABLE_ENDPOINTS.includes(normalizeEndpoint(endpoint)) &&
+  status === 200 &&
+  !!body &&
+  Array.isArray(body.response) &&
+  !(Array.isArray(body.errors) ? body.errors.length : body.errors && Object.keys(body.errors).length);
+
+export class ApiFootballReplay {
+  private recordings: ApiFootballRecording[] = [];
+  private readonly options: ReplayOptions;
+  readonly misses: string[] = [];
+
+  constructor(recordings: ApiFootballRecording[] = [], options: ReplayOptions = {}) {
+    this.options = options;
+    recordings.forEach(recording => this.add(recording));
+  }
+
+  add(recording: ApiFootballRecording): void {
+    const key = recordingKey(recording.endpoint, recording.params, this.options.ignoreParams);
+    // Newer recordings of the same request replace older ones
+    this.recordings = this.recordings.filter(r => recordingKey(r.endpoint, r.params, this.options.ignoreParams) !== key);
+    this.recordings.push({ ...recording, endpoint: normalizeEndpoint(recording.endpoint), params: normalizeParams(recording.params) });
+  }
+
+  get size(): number {
+    return this.recordings.length;
+  }
+
+  /**
+   * Answer a request from the recordings, shifted to the replay clock
+   */
+  handle(endpoint: string, params: Record<string, any>): ReplayResult {
+    const path = normalizeEndpoint(endpoint);
+    const requested = normalizeParams(params, this.options.ignoreParams);
+    const clock = this.options.clock;
+
+    for (const recording of this.recordings) {
+      if (recording.endpoint !== path) continue;
+      const days = clock ? dayOffset(recording.recordedAt, clock()) : 0;
+      const lookup = recordingKey(path, shiftParams(requested, -days));
+      if (lookup === recordingKey(recording.endpoint, recording.params, this.options.ignoreParams)) {
+        return { status: recording.status, body: shiftPayloadDates(recording.body, days), hit: true, recording };
+      }
+    }
+
+    const key = recordingKey(path, requested);
+    this.misses.push(key);
+    if (this.misses.length > MAX_MISSES_KEPT) this.misses.shift();
+    if (this.options.strict) {
+      return { status: 404, body: { errors: { replay: `No recording for ${key}` } }, hit: false };
+    }
+    return { status: 200, body: emptyApiEnvelope(path, requested), hit: false };
+  }
+
+  /**
+   * A fetch-compatible function answering API-Football URLs (any host) from the recordings
+   */
+  toFetch(): typeof fetch {
+    return (async (input: RequestInfo | URL) => {
+      const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url, 'http://replay.local');
+      const { status, body, hit } = this.handle(url.pathname, Object.fromEntries(url.searchParams));
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'x-replay': hit ? 'hit' : 'miss' }
+      });
+    }) as typeof fetch;
+  }
+}
+
+/**
+ * Mutable clock for the stand-in server: frozen at a moment, or running from it
+ */
+export class ReplayClock {
+  private anchor: number;
+  private startedAt: number;
+
+  constructor(start: number = Date.now(), private running = false, private realNow: () => number = () => Date.now()) {
+    this.anchor = start;
+    this.startedAt = realNow();
+  }
+
+  now = (): number => (this.running ? this.anchor + (this.realNow() - this.startedAt) : this.anchor);
+
+  set(time: number): void {
+    this.anchor = time;
+    this.startedAt = this.realNow();
+  }
+
+  advance(ms: number): void {
+    this.set(this.now() + ms);
+  }
+
+  setRunning(running: boolean): void {
+    this.set(this.now());
+    this.running = running;
+  }
+
+  toJSON() {
+    return { now: new Date(this.now()).toISOString(), running: this.running };
+  }
+}
@@ -0,0 +1,256 @@
+import type { ApiCacheCategory } from './apiCache';
+
+/**
+ * API Quota Planner
+ * Replaces the plain daily call counter with a plan for the day: calls that
+ * matter most near kickoff (lineups, live scores, post-match events and stats)
+ * get budget reserved around today's fixtures, and lower-value calls such as
+ * bulk fixture/team refreshes may only spend what is left after those
+ * reservations. API-Football's daily quota resets at 00:00 UTC.
+ */
+
+export type ApiCallPriority = 'critical' | 'high' | 'normal' | 'background';
+
+export const CATEGORY_PRIORITY: Record<ApiCacheCategory, ApiCallPriority> = {
+  live: 'critical',
+  lineups: 'critical',
+  events: 'high',
+  statistics: 'high',
+  fixtures: 'normal',
+  standings: 'normal',
+  teams: 'normal',
+  injuries: 'normal',
+  squads: 'background',
+  headToHead: 'background',
+  transfers: 'background',
+  leagues: 'background',
+  other: 'background'
+};
+
+export interface QuotaPlannerConfig {
+  dailyLimit: number;
+  softLimitRatio: number;          // Share of the daily limit everything but critical calls may use
+  backgroundShare: number;         // Share of the soft limit background calls may use
+  lineupCallsPerFixture: number;   // Reserved in the hour before kickoff
+  livePollIntervalMinutes: number; // One live-scores call per interval while any match is in play
+  liveWindowMinutes: number;       // Kickoff to full time, including half-time and stoppage
+  postMatchCallsPerFixture: number;
+}
+
+export const DEFAULT_QUOTA_CONFIG: QuotaPlannerConfig = {
+  dailyLimit: 75000,
+  softLimitRatio: 0.8,
+  backgroundShare: 0.5,
+  lineupCallsPerFixture: 2,
+  livePollIntervalMinutes: 1,
+  liveWindowMinutes: 120,
+  postMatchCallsPerFixture: 2
+};
+
+export interface QuotaUsage {
+  date: string; // UTC yyyy-mm-dd
+  byCategory: Partial<Record<ApiCacheCategory, number>>;
+}
+
+export interface QuotaReservations {
+  lineups: number;
+  live: number;
+  postMatch: number;
+  total: number;
+}
+
+export interface QuotaPlan {
+  date: string;
+  dailyLimit: number;
+  softLimit: number;
+  used: number;
+  usedByPriority: Record<ApiCallPriority, number>;
+  usedByCategory: Partial<Record<ApiCacheCategory, number>>;
+  reserved: QuotaReservations;
+  availableForNormal: number;
+  availableForBackground: number;
+  fixturesTracked: number;
+  nextKickoff: string | null;
+}
+
+export interface QuotaPersistence {
+  load(): QuotaUsage | null;
+  save(usage: QuotaUsage): void;
+}
+
+interface TrackedFixture {
+  id: string;
+  kickoff: number;
+}
+
+const MINUTE = 60 * 1000;
+
+const utcDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+const endOfUtcDay = (time: number) => {
+  const d = new Date(time);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+};
+
+export class ApiQuotaPlanner {
+  private usage: QuotaUsage;
+  private fixtures = new Map<string, TrackedFixture>();
+  private readonly config: QuotaPlannerConfig;
+
+  constructor(
+    config: Partial<QuotaPlannerConfig> = {},
+    private persistence: QuotaPersistence | null = null,
+    private now: () => number = () => Date.now()
+  ) {
+    this.config = { ...DEFAULT_QUOTA_CONFIG, ...config };
+    this.usage = { date: utcDate(this.now()), byCategory: {} };
+    this.reload();
+  }
+
+  /**
+   * Re-read persisted usage (e.g. once the client store has hydrated)
+   */
+  reload(): void {
+    const stored = this.persistence?.load();
+    if (stored && stored.date === utcDate(this.now())) {
+      this.usage = { date: stored.date, byCategory: { ...stored.byCategory } };
+    }
+  }
+
+  /**
+   * Track kickoffs so calls around them can be reserved. Safe to call repeatedly.
+   */
+  registerFixtures(fixtures: { id: string | number; date: string }[]): void {
+    fixtures.forEach(fixture => {
+      const kickoff = new Date(fixture.date).getTime();
+      if (!Number.isNaN(kickoff)) this.fixtures.set(String(fixture.id), { id: String(fixture.id), kickoff });
+    });
+    this.pruneFixtures();
+  }
+
+  /**
+   * Whether a call of this category fits the plan without eating into reservations
+   */
+  canSpend(category: ApiCacheCategory, calls = 1): boolean {
+    this.rollover();
+    const used = this.totalUsed();
+    const softLimit = this.softLimit();
+    switch (CATEGORY_PRIORITY[category]) {
+      case 'critical': return used + calls <= this.config.dailyLimit;
+      case 'high': return used + calls <= softLimit;
+      case 'normal': return used + calls <= softLimit - this.getReservations().total;
+      case 'background': return used + calls <= this.backgroundCeiling();
+    }
+  }
+
+  recordCall(category: ApiCacheCategory, calls = 1): void {
+    this.rollover();
+    this.usage.byCategory[category] = (this.usage.byCategory[category] || 0) + calls;
+    this.persist();
+  }
+
+  /**
+   * Calls still needed for the rest of today's fixtures (windows already past are released)
+   */
+  getReservations(): QuotaReservations {
+    const now = this.now();
+    const dayEnd = endOfUtcDay(now);
+    const { lineupCallsPerFixture, liveWindowMinutes, livePollIntervalMinutes, postMatchCallsPerFixture } = this.config;
+    const liveWindow = liveWindowMinutes * MINUTE;
+
+    let lineups = 0;
+    let postMatch = 0;
+    const liveIntervals: [number, number][] = [];
+    this.fixtures.forEach(({ kickoff }) => {
+      if (kickoff > now && kickoff < dayEnd) lineups += lineupCallsPerFixture;
+      const fullTime = kickoff + liveWindow;
+      if (fullTime > now && kickoff < dayEnd) {
+        postMatch += postMatchCallsPerFixture;
+        liveIntervals.push([Math.max(kickoff, now), Math.min(fullTime, dayEnd)]);
+      }
+    });
+
+    // One live poll covers every match in play, so overlapping windows count once
+    let liveMinutes = 0;
+    let coveredUntil = -Infinity;
+    liveIntervals.sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+      const from = Math.max(start, coveredUntil);
+      if (end > from) liveMinutes += (end - from) / MINUTE;
+      coveredUntil = Math.max(coveredUntil, end);
+    });
+    const live = Math.ceil(liveMinutes / livePollIntervalMinutes);
+
+    return { lineups, live, postMatch, total: lineups + live + postMatch };
+  }
+
+  getPlan(): QuotaPlan {
+    this.rollover();
+    const used = this.totalUsed();
+    const reserved = this.getReservations();
+    const usedByPriority: Record<ApiCallPriority, number> = { critical: 0, high: 0, normal: 0, background: 0 };
+    (Object.entries(this.usage.byCategory) as [ApiCacheCategory, number][]).forEach(([category, count]) => {
+      usedByPriority[CATEGORY_PRIORITY[category] || 'background'] += count;
+    });
+    const now = this.now();
+    const upcoming = [...this.fixtures.values()].filter(f => f.kickoff > now).sort((a, b) => a.kickoff - b.kickoff);
+
+    return {
+      date: this.usage.date,
+      dailyLimit: this.config.dailyLimit,
+      softLimit: this.softLimit(),
+      used,
+      usedByPriority,
+      usedByCategory: { ...this.usage.byCategory },
+      reserved,
+      availableForNormal: Math.max(0, this.softLimit() - reserved.total - used),
+      availableForBackground: Math.max(0, this.backgroundCeiling() - used),
+      fixturesTracked: this.fixtures.size,
+      nextKickoff: upcoming.length ? new Date(upcoming[0].kickoff).toISOString() : null
+    };
+  }
+
+  totalUsed(): number {
+    this.rollover();
+    return Object.values(this.usage.byCategory).reduce((sum, count) => sum + (count || 0), 0);
+  }
+
+  reset(): void {
+    this.usage = { date: utcDate(this.now()), byCategory: {} };
+    this.fixtures.clear();
+    this.persist();
+  }
+
+  private softLimit(): number {
+    return Math.floor(this.config.dailyLimit * this.config.softLimitRatio);
+  }
+
+  private backgroundCeiling(): number {
+    return Math.min(
+      this.softLimit() - this.getReservations().total,
+      Math.floor(this.softLimit() * this.config.backgroundShare)
+    );
+  }
+
+  private rollover(): void {
+    const today = utcDate(this.now());
+    if (this.usage.date !== today) {
+      this.usage = { date: today, byCategory: {} };
+      this.pruneFixtures();
+      this.persist();
+    }
+  }
+
+  private pruneFixtures(): void {
+    const cutoff = this.now() - this.config.liveWindowMinutes * MINUTE;
+    this.fixtures.forEach((fixture, id) => {
+      if (fixture.kickoff < cutoff) this.fixtures.delete(id);
+    });
+  }
+
+  private persist(): void {
+    try {
+      this.persistence?.save(this.usage);
+    } catch (error) {
+      console.warn('⚠️ Failed to persist API quota usage:', error);
+    }
+  }
+}
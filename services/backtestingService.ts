@@ -0,0 +1,404 @@
+import { Prediction, Match, PastPrediction, ConfidenceLevel } from '../types';
+import { TrainingRecord } from './mlTrainingDataService';
+import { EloRatingService, EloConfig } from './eloRatingService';
+import { fitDixonColes, predictWithDixonColes, DixonColesOptions, DixonColesParameters } from './dixonColesModel';
+import { buildEloPrediction } from './predictionProviderRegistry';
+
+/**
+ * Backtesting harness
+ * Replays stored fixtures in kickoff order through any predictor. A predictor only
+ * ever sees results that finished before the fixture being predicted, so models
+ * are scored on information that was available at the time.
+ */
+
+export type Outcome = 'home' | 'draw' | 'away';
+
+export interface BacktestOdds {
+  home: number; // Decimal odds
+  draw: number;
+  away: number;
+}
+
+export interface BacktestFixture {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamId?: number;
+  awayTeamId?: number;
+  league: string;
+  date: string; // Kickoff, ISO 8601
+  homeScore: number;
+  awayScore: number;
+  odds?: BacktestOdds;
+  recordedPrediction?: Prediction; // What the live system predicted at the time
+  source?: string;                 // Model/prompt version of the recorded prediction
+}
+
+export interface BacktestPredictor {
+  id: string;
+  label: string;
+  // `history` holds finished fixtures that kicked off before `match`, oldest first
+  predict(match: Match, history: BacktestFixture[], fixture: BacktestFixture): Promise<Prediction | null> | Prediction | null;
+}
+
+export interface BacktestOptions {
+  from?: string;
+  to?: string;
+  leagues?: string[];
+  stake: number;          // Flat stake per bet
+  bookmakerMargin: number; // Overround applied when a fixture has no recorded odds
+}
+
+export interface BacktestMetrics {
+  matches: number;
+  predicted: number;
+  skipped: number;
+  accuracy: number;        // Share of correct 1X2 picks (0-1)
+  brierScore: number;      // Multi-class Brier over home/draw/away (0-2, lower is better)
+  logLoss: number;         // Mean -ln p(actual outcome)
+  bttsAccuracy: number | null;
+  overUnderAccuracy: number | null;
+  staked: number;
+  profit: number;
+  roi: number;             // Profit per unit staked backing the predictor's pick
+  baselineRoi: number;     // Same flat stake always backing the home side
+}
+
+export interface BacktestMatchResult {
+  fixtureId: string;
+  league: string;
+  date: string;
+  outcome: Outcome;
+  pick: Outcome | null;
+  probabilities: { home: number; draw: number; away: number } | null;
+  odds: BacktestOdds;
+  profit: number;
+  error?: string;
+}
+
+export interface BacktestReport {
+  predictorId: string;
+  label: string;
+  from: string | null;
+  to: string | null;
+  generatedAt: string;
+  overall: BacktestMetrics;
+  byLeague: Record<string, BacktestMetrics>;
+  results: BacktestMatchResult[];
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  stake: 1,
+  bookmakerMargin: 0.05
+};
+
+const EPSILON = 1e-6;
+
+export const outcomeOf = (homeScore: number, awayScore: number): Outcome =>
+  homeScore > awayScore ? 'home' : homeScore < awayScore ? 'away' : 'draw';
+
+// ---- Loading stored data ----
+
+export const fixturesFromPastPredictions = (pastPredictions: PastPrediction[]): BacktestFixture[] =>
+  (pastPredictions || [])
+    .filter(p => p?.actualResult && Number.isFinite(p.actualResult.homeScore) && Number.isFinite(p.actualResult.awayScore) && p.date)
+    .map(p => ({
+      id: p.id,
+      homeTeam: p.homeTeam,
+      awayTeam: p.awayTeam,
+      homeTeamId: p.homeTeamId,
+      awayTeamId: p.awayTeamId,
+      league: String(p.league),
+      date: p.date,
+      homeScore: p.actualResult.homeScore,
+      awayScore: p.actualResult.awayScore,
+      recordedPrediction: p.prediction
+    }));
+
+/**
+ * Training records with a settled result. The goal line is left out because
+ * `predictedOver25Yes` is filled from score-range buckets, not an over/under price.
+ */
+export const fixturesFromTrainingRecords = (records: TrainingRecord[]): BacktestFixture[] =>
+  (records || [])
+    .filter(r => Number.isFinite(r?.actualHomeScore) && Number.isFinite(r?.actualAwayScore) && r.matchTimestamp)
+    .map(r => ({
+      id: r.matchId,
+      homeTeam: r.homeTeam,
+      awayTeam: r.awayTeam,
+      homeTeamId: r.homeTeamId,
+      awayTeamId: r.awayTeamId,
+      league: r.league,
+      date: r.matchTimestamp,
+      homeScore: r.actualHomeScore!,
+      awayScore: r.actualAwayScore!,
+      source: [r.aiProvider, r.modelVersion, r.promptVersion].filter(Boolean).join('/'),
+      recordedPrediction: {
+        homeWinProbability: r.predictedHomeWin,
+        drawProbability: r.predictedDraw,
+        awayWinProbability: r.predictedAwayWin,
+        predictedScoreline: Number.isFinite(r.predictedHomeScore) && Number.isFinite(r.predictedAwayScore)
+          ? `${Math.round(r.predictedHomeScore!)}-${Math.round(r.predictedAwayScore!)}`
+          : '',
+        confidence: r.predictionConfidence >= 70 ? ConfidenceLevel.High : r.predictionConfidence >= 50 ? ConfidenceLevel.Medium : ConfidenceLevel.Low,
+        btts: Number.isFinite(r.predictedBttsYes)
+          ? { yesProbability: r.predictedBttsYes!, noProbability: r.predictedBttsNo ?? 100 - r.predictedBttsYes! }
+          : undefined
+      } as Prediction
+    }));
+
+/**
+ * Merge sources, keeping the first fixture seen for each id, ordered by kickoff
+ */
+export const mergeFixtures = (...sources: BacktestFixture[][]): BacktestFixture[] => {
+  const byId = new Map<string, BacktestFixture>();
+  sources.flat().forEach(f => {
+    if (f && !byId.has(f.id)) byId.set(f.id, f);
+  });
+  return Array.from(byId.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// ---- Built-in predictors ----
+
+/**
+ * Replays what the live system predicted, optionally restricted to one model/prompt version
+ */
+export const recordedPredictor = (source?: string): BacktestPredictor => ({
+  id: source ? `recorded:${source}` : 'recorded',
+  label: source ? `Recorded (${source})` : 'Recorded predictions',
+  predict: (_match, _history, fixture) =>
+    !source || fixture.source === source ? fixture.recordedPrediction || null : null
+});
+
+/**
+ * Elo ratings rebuilt from the pre-kickoff history, kept in memory only
+ */
+export const eloPredictor = (config: Partial<EloConfig> = {}): BacktestPredictor => {
+  let ratings = new EloRatingService({ ...config, persist: false });
+  let seen = 0;
+  return {
+    id: 'elo',
+    label: 'Elo Baseline',
+    predict: (match, history) => {
+      if (history.length < seen) {
+        ratings = new EloRatingService({ ...config, persist: false });
+        seen = 0;
+      }
+      if (history.length > seen) {
+        ratings.ingestResults(history.slice(seen));
+        seen = history.length;
+      }
+      return buildEloPrediction(match, ratings);
+    }
+  };
+};
+
+/**
+ * Dixon-Coles refitted whenever the pre-kickoff history grows (once per matchday)
+ */
+export const dixonColesPredictor = (options: Partial<DixonColesOptions> = {}): BacktestPredictor => {
+  let params: DixonColesParameters | null = null;
+  let fittedOn = -1;
+  return {
+    id: 'dixon-coles',
+    label: 'Dixon-Coles',
+    predict: (match, history, fixture) => {
+      if (history.length === 0) return null;
+      if (!params || fittedOn !== history.length) {
+        params = fitDixonColes(history, { ...options, referenceDate: fixture.date });
+        fittedOn = history.length;
+      }
+      return predictWithDixonColes(params, match, options.maxGoals);
+    }
+  };
+};
+
+// ---- Scoring ----
+
+const normalise = (prediction: Prediction): { home: number; draw: number; away: number } | null => {
+  const home = Number(prediction.homeWinProbability);
+  const draw = Number(prediction.drawProbability);
+  const away = Number(prediction.awayWinProbability);
+  const total = home + draw + away;
+  if (![home, draw, away].every(Number.isFinite) || total <= 0) return null;
+  return { home: home / total, draw: draw / total, away: away / total };
+};
+
+/**
+ * Odds for fixtures without recorded prices: the league's outcome frequencies among
+ * earlier results (Laplace smoothed), with a bookmaker margin applied
+ */
+const naiveOdds = (history: BacktestFixture[], league: string, margin: number): BacktestOdds => {
+  const counts = { home: 1, draw: 1, away: 1 };
+  history.filter(f => f.league === league).forEach(f => { counts[outcomeOf(f.homeScore, f.awayScore)]++; });
+  const total = counts.home + counts.draw + counts.away;
+  const price = (n: number) => 1 / ((n / total) * (1 + margin));
+  return { home: price(counts.home), draw: price(counts.draw), away: price(counts.away) };
+};
+
+const summarise = (results: BacktestMatchResult[], fixtures: Map<string, BacktestFixture>, predictions: Map<string, Prediction>, stake: number): BacktestMetrics => {
+  const scored = results.filter(r => r.probabilities);
+  let correct = 0, brier = 0, logLoss = 0, profit = 0, baselineProfit = 0;
+  let bttsTotal = 0, bttsCorrect = 0, ouTotal = 0, ouCorrect = 0;
+
+  for (const r of results) {
+    baselineProfit += r.outcome === 'home' ? stake * (r.odds.home - 1) : -stake;
+  }
+
+  for (const r of scored) {
+    const p = r.probabilities!;
+    if (r.pick === r.outcome) correct++;
+    brier += (['home', 'draw', 'away'] as Outcome[])
+      .reduce((sum, o) => sum + Math.pow(p[o] - (o === r.outcome ? 1 : 0), 2), 0);
+    logLoss += -Math.log(Math.max(EPSILON, p[r.outcome]));
+    profit += r.profit;
+
+    const fixture = fixtures.get(r.fixtureId)!;
+    const prediction = predictions.get(r.fixtureId)!;
+    if (prediction.btts && Number.isFinite(prediction.btts.yesProbability)) {
+      bttsTotal++;
+      const bothScored = fixture.homeScore > 0 && fixture.awayScore > 0;
+      if ((prediction.btts.yesProbability > 50) === bothScored) bttsCorrect++;
+    }
+    if (prediction.goalLine && Number.isFinite(prediction.goalLine.overProbability)) {
+      ouTotal++;
+      const over = fixture.homeScore + fixture.awayScore > (prediction.goalLine.line ?? 2.5);
+      if ((prediction.goalLine.overProbability > 50) === over) ouCorrect++;
+    }
+  }
+
+  const n = scored.length;
+  const staked = n * stake;
+  return {
+    matches: results.length,
+    predicted: n,
+    skipped: results.length - n,
+    accuracy: n ? correct / n : 0,
+    brierScore: n ? brier / n : 0,
+    logLoss: n ? logLoss / n : 0,
+    bttsAccuracy: bttsTotal ? bttsCorrect / bttsTotal : null,
+    overUnderAccuracy: ouTotal ? ouCorrect / ouTotal : null,
+    staked,
+    profit,
+    roi: staked ? profit / staked : 0,
+    baselineRoi: results.length ? baselineProfit / (results.length * stake) : 0
+  };
+};
+
+/**
+ * Run one predictor over the fixtures inside the date range. Fixtures before `from`
+ * still feed the history, so models start the window warmed up.
+ */
+export const runBacktest = async (
+  fixtures: BacktestFixture[],
+  predictor: BacktestPredictor,
+  options: Partial<BacktestOptions> = {}
+): Promise<BacktestReport> => {
+  const opts = { ...DEFAULT_BACKTEST_OPTIONS, ...options };
+  const ordered = mergeFixtures(fixtures);
+  const fromTime = opts.from ? new Date(opts.from).getTime() : -Infinity;
+  const toTime = opts.to ? new Date(opts.to).getTime() : Infinity;
+
+  const results: BacktestMatchResult[] = [];
+  const byId = new Map(ordered.map(f => [f.id, f]));
+  const predictions = new Map<string, Prediction>();
+  let historyEnd = 0;
+
+  for (const fixture of ordered) {
+    const kickoff = new Date(fixture.date).getTime();
+    // Everything that kicked off strictly earlier is known
+    while (historyEnd < ordered.length && new Date(ordered[historyEnd].date).getTime() < kickoff) {
+      historyEnd++;
+    }
+    if (kickoff < fromTime || kickoff > toTime) continue;
+    if (opts.leagues && !opts.leagues.includes(fixture.league)) continue;
+
+    const history = ordered.slice(0, historyEnd);
+    const outcome = outcomeOf(fixture.homeScore, fixture.awayScore);
+    const odds = fixture.odds || naiveOdds(history, fixture.league, opts.bookmakerMargin);
+    const match: Match = {
+      id: fixture.id,
+      homeTeam: fixture.homeTeam,
+      awayTeam: fixture.awayTeam,
+      homeTeamId: fixture.homeTeamId ?? 0,
+      awayTeamId: fixture.awayTeamId ?? 0,
+      league: fixture.league as Match['league'],
+      date: fixture.date
+    };
+
+    const result: BacktestMatchResult = {
+      fixtureId: fixture.id,
+      league: fixture.league,
+      date: fixture.date,
+      outcome,
+      pick: null,
+      probabilities: null,
+      odds,
+      profit: 0
+    };
+
+    try {
+      const prediction = await predictor.predict(match, history, fixture);
+      const probabilities = prediction ? normalise(prediction) : null;
+      if (prediction && probabilities) {
+        const pick = (['home', 'draw', 'away'] as Outcome[])
+          .reduce((best, o) => (probabilities[o] > probabilities[best] ? o : best), 'home' as Outcome);
+        result.probabilities = probabilities;
+        result.pick = pick;
+        result.profit = pick === outcome ? opts.stake * (odds[pick] - 1) : -opts.stake;
+        predictions.set(fixture.id, prediction);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    results.push(result);
+  }
+
+  const leagues = Array.from(new Set(results.map(r => r.league)));
+  const byLeague: Record<string, BacktestMetrics> = {};
+  leagues.forEach(league => {
+    byLeague[league] = summarise(results.filter(r => r.league === league), byId, predictions, opts.stake);
+  });
+
+  return {
+    predictorId: predictor.id,
+    label: predictor.label,
+    from: opts.from || null,
+    to: opts.to || null,
+    generatedAt: new Date().toISOString(),
+    overall: summarise(results, byId, predictions, opts.stake),
+    byLeague,
+    results
+  };
+};
+
+const pct = (value: number | null) => (value === null ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`);
+
+/**
+ * Plain-text summary for the CLI
+ */
+export const formatBacktestReport = (report: BacktestReport): string => {
+  const row = (name: string, m: BacktestMetrics) =>
+    `${name.padEnd(28)} ${String(m.predicted).padStart(5)} ${pct(m.accuracy)} ${m.brierScore.toFixed(3).padStart(6)} ${m.logLoss.toFixed(3).padStart(6)} ${pct(m.bttsAccuracy)} ${pct(m.overUnderAccuracy)} ${pct(m.roi)} ${pct(m.baselineRoi)}`;
+
+  return [
+    `📊 ${report.label} (${report.from || 'start'} → ${report.to || 'end'})`,
+    `${'League'.padEnd(28)} ${'N'.padStart(5)} ${'Acc'.padStart(6)} ${'Brier'.padStart(6)} ${'LogL'.padStart(6)} ${'BTTS'.padStart(6)} ${'O/U'.padStart(6)} ${'ROI'.padStart(6)} ${'Home'.padStart(6)}`,
+    row('All', report.overall),
+    ...Object.entries(report.byLeague)
+      .sort(([, a], [, b]) => b.predicted - a.predicted)
+      .map(([league, metrics]) => row(league, metrics))
+  ].join('\n');
+};
+
+export const backtestingService = {
+  runBacktest,
+  formatBacktestReport,
+  fixturesFromPastPredictions,
+  fixturesFromTrainingRecords,
+  mergeFixtures,
+  recordedPredictor,
+  eloPredictor,
+  dixonColesPredictor
+};
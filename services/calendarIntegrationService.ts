@@ -1,3 +1,5 @@
+import { buildCalendar } from './icalFeed';
+
 interface CalendarEvent {
   title: string;
   description: string;
@@ -126,28 +128,26 @@ class CalendarIntegrationService {
   }
 
   private generateICSContent(event: CalendarEvent): string {
-    const formatDate = (date: Date) => {
-      return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    };
-
-    return [
-      'BEGIN:VCALENDAR',
-      'VERSION:2.0',
-      'PRODID:-//FixtureCast//Match Reminder//EN',
-      'BEGIN:VEVENT',
-      `UID:${this.generateEventId(event)}`,
-      `DTSTART:${formatDate(event.startDate)}`,
-      `DTEND:${formatDate(event.endDate)}`,
-      `SUMMARY:${event.title}`,
-      `DESCRIPTION:${event.description}`,
-      event.location ? `LOCATION:${event.location}` : '',
-      'END:VEVENT',
-      'END:VCALENDAR'
-    ].filter(line => line).join('\r\n');
+    return buildCalendar({
+      name: 'FixtureCast',
+      events: [{
+        uid: this.generateEventId(event),
+        sequence: 0,
+        start: event.startDate,
+        end: event.endDate,
+        summary: event.title,
+        description: event.description,
+        location: event.location,
+        url: event.url,
+        alarms: event.reminder ? [event.reminder.minutes] : undefined
+      }]
+    });
   }
 
+  // Same event, same UID: re-importing updates the existing entry instead of duplicating it
   private generateEventId(event: CalendarEvent): string {
-    return `fixturecast-${event.startDate.getTime()}-${Math.random().toString(36).substr(2, 9)}`;
+    const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `fixturecast-${event.startDate.getTime()}-${slug}@fixturecast.com`;
   }
 
   private openCalendarUrl(url: string): void {
@@ -1,4 +1,9 @@
-import { Match } from '../types';
+import { League, Match } from '../types';
+import { clientStore } from './clientStore';
+import { buildCalendar, matchToFeedEvent } from './icalFeed';
+import { isInQuietHours } from './pushSubscriptionModel';
+import { pushSubscriptionService } from './pushSubscriptionService';
+import { absoluteUrl, href } from './routeTable';
 
 export interface CalendarEvent {
   id: string;
@@ -31,8 +36,8 @@ export interface NotificationSettings {
   reminderMinutes: number[];
   quietHours: {
     enabled: boolean;
-    start: string; // HH:MM format
-    end: string;   // HH:MM format
+    start: string; // HH:MM format, in `timezone`
+    end: string;   // HH:MM format, in `timezone`
   };
   timezone: string;
 }
@@ -46,6 +51,14 @@ export interface PushNotification {
   actions?: NotificationAction[];
 }
 
+export interface CalendarFeedOptions {
+  // Add FixtureCast's prediction to each upcoming fixture's description
+  predictions?: boolean;
+}
+
+const WORKER_BASE = 'https://fixturecast-cron-worker.btltech.workers.dev';
+const FOLLOWS_SYNC_DEBOUNCE_MS = 2000;
+
 export interface NotificationAction {
   action: string;
   title: string;
@@ -55,6 +68,7 @@ export interface NotificationAction {
 class CalendarService {
   private notificationSettings: NotificationSettings;
   private serviceWorkerRegistration: ServiceWorkerRegistration | null = null;
+  private followsSyncTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     this.notificationSettings = this.loadNotificationSettings();
@@ -65,10 +79,12 @@ class CalendarService {
       } catch (error) {
         console.warn('Failed to initialize service worker:', error);
       }
+      // Keep the worker's copy of the follows behind "my teams" feed current
+      clientStore.subscribe('followedItems', () => this.scheduleFollowsSync());
     }
   }
 
-  // Load notification settings from localStorage
+  // Load notification settings from the client store
   private loadNotificationSettings(): NotificationSettings {
     const defaultSettings: NotificationSettings = {
       enabled: true,
@@ -89,10 +105,7 @@ class CalendarService {
     }
 
     try {
-      const saved = localStorage.getItem('fixturecast_notification_settings');
-      if (saved) {
-        return { ...defaultSettings, ...JSON.parse(saved) };
-      }
+      return { ...defaultSettings, ...clientStore.get('calendarNotificationSettings') };
     } catch (error) {
       console.warn('Failed to load notification settings:', error);
     }
@@ -100,12 +113,12 @@ class CalendarService {
     return defaultSettings;
   }
 
-  // Save notification settings to localStorage
+  // Save notification settings to the client store
   private saveNotificationSettings() {
     if (typeof window === 'undefined') return;
     
     try {
-      localStorage.setItem('fixturecast_notification_settings', JSON.stringify(this.notificationSettings));
+      clientStore.set('calendarNotificationSettings', { ...this.notificationSettings });
     } catch (error) {
       console.error('Failed to save notification settings:', error);
     }
@@ -140,6 +153,9 @@ class CalendarService {
     }
 
     const permission = await Notification.requestPermission();
+    if (permission === 'granted') {
+      void pushSubscriptionService.enable();
+    }
     return permission === 'granted';
   }
 
@@ -163,7 +179,7 @@ class CalendarService {
       venue: match.venue || 'TBD',
       timezone: this.notificationSettings.timezone,
       reminders: this.getDefaultReminders(),
-      url: window.location.origin + `#match-${match.id}`
+      url: absoluteUrl(href('match', { matchId: match.id }), window.location.origin)
     };
   }
 
@@ -186,7 +202,7 @@ class CalendarService {
         case 'outlook':
           return await this.addToOutlookCalendar(event);
         case 'apple':
-          return await this.addToAppleCalendar(event);
+          return await this.addToAppleCalendar(match, event);
         default:
           throw new Error('Unsupported calendar provider');
       }
@@ -218,21 +234,83 @@ class CalendarService {
     return true;
   }
 
-  // Add to Apple Calendar
-  private async addToAppleCalendar(event: CalendarEvent): Promise<boolean> {
-    const startTime = event.start.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    const endTime = event.end.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    
-    const appleUrl = `data:text/calendar;charset=utf8,BEGIN:VCALENDAR%0AVERSION:2.0%0ABEGIN:VEVENT%0ADTSTART:${startTime}%0ADTEND:${endTime}%0ASUMMARY:${encodeURIComponent(event.title)}%0ADESCRIPTION:${encodeURIComponent(event.description)}%0ALOCATION:${encodeURIComponent(event.location)}%0AEND:VEVENT%0AEND:VCALENDAR`;
+  // Add to Apple Calendar (an .ics file with the same UID the webcal feeds use)
+  private async addToAppleCalendar(match: Match, event: CalendarEvent): Promise<boolean> {
+    const ics = buildCalendar({
+      name: 'FixtureCast',
+      events: [matchToFeedEvent(match, { url: event.url, alarms: event.reminders.map(reminder => reminder.minutes) })]
+    });
     
     const link = document.createElement('a');
-    link.href = appleUrl;
+    link.href = `data:text/calendar;charset=utf8,${encodeURIComponent(ics)}`;
     link.download = `${event.homeTeam}-vs-${event.awayTeam}.ics`;
     link.click();
     
     return true;
   }
 
+  // Subscribable feed of every fixture for a team (API-Football team id)
+  getTeamFeedUrl(teamId: number, options: CalendarFeedOptions = {}): string {
+    return this.feedUrl({ team: String(teamId) }, options);
+  }
+
+  // Subscribable feed of every fixture in a league
+  getLeagueFeedUrl(league: League, options: CalendarFeedOptions = {}): string {
+    return this.feedUrl({ league }, options);
+  }
+
+  // Subscribable feed of the user's followed teams and leagues; registers the follows with the worker
+  async getFollowedFeedUrl(options: CalendarFeedOptions = {}): Promise<string> {
+    clientStore.set('calendarFeedSubscribed', true);
+    await this.syncFeedFollows();
+    return this.feedUrl({ follows: this.deviceId() }, options);
+  }
+
+  // Send the current follows to the worker; a no-op until a followed feed was requested
+  async syncFeedFollows(): Promise<boolean> {
+    if (!clientStore.get('calendarFeedSubscribed')) return false;
+    const { teams, leagues } = clientStore.get('followedItems');
+    try {
+      const response = await fetch(`${WORKER_BASE}/calendar/follows`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: this.deviceId(), teams, leagues })
+      });
+      if (!response.ok) {
+        console.warn(`⚠️ Calendar follows rejected (${response.status})`);
+        return false;
+      }
+      console.log(`📅 Calendar feed follows synced (${teams.length} teams, ${leagues.length} leagues)`);
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Calendar follows sync failed:', error);
+      return false;
+    }
+  }
+
+  private feedUrl(query: Record<string, string>, options: CalendarFeedOptions): string {
+    const params = new URLSearchParams(query);
+    if (options.predictions) params.set('predictions', 'true');
+    return `${WORKER_BASE.replace(/^https:/, 'webcal:')}/calendar/feed.ics?${params.toString()}`;
+  }
+
+  private scheduleFollowsSync(): void {
+    if (!clientStore.get('calendarFeedSubscribed')) return;
+    if (this.followsSyncTimer) clearTimeout(this.followsSyncTimer);
+    this.followsSyncTimer = setTimeout(() => {
+      this.followsSyncTimer = null;
+      void this.syncFeedFollows();
+    }, FOLLOWS_SYNC_DEBOUNCE_MS);
+  }
+
+  private deviceId(): string {
+    const stored = clientStore.get('deviceId');
+    if (stored) return stored;
+    const deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    clientStore.set('deviceId', deviceId);
+    return deviceId;
+  }
+
   // Send push notification
   async sendNotification(notification: PushNotification): Promise<boolean> {
     if (!this.notificationSettings.enabled) {
@@ -271,23 +349,9 @@ class CalendarService {
     return false;
   }
 
-  // Check if current time is in quiet hours
+  // Check if current time is in quiet hours, on the wall clock of the user's timezone
   private isInQuietHours(): boolean {
-    if (!this.notificationSettings.quietHours.enabled) {
-      return false;
-    }
-
-    const now = new Date();
-    const currentTime = now.toTimeString().slice(0, 5); // HH:MM format
-    const { start, end } = this.notificationSettings.quietHours;
-
-    // Handle overnight quiet hours (e.g., 22:00 to 08:00)
-    if (start > end) {
-      return currentTime >= start || currentTime <= end;
-    }
-
-    // Handle same-day quiet hours (e.g., 12:00 to 14:00)
-    return currentTime >= start && currentTime <= end;
+    return isInQuietHours(this.notificationSettings.quietHours, this.notificationSettings.timezone);
   }
 
   // Schedule match reminder
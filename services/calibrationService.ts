@@ -0,0 +1,429 @@
+import { Prediction, PredictionAccuracy } from '../types';
+import { clientStore } from './clientStore';
+
+/**
+ * Probability calibration
+ * Reliability tables, expected calibration error, Brier decomposition and
+ * log-loss trends per market, plus optional Platt / isotonic recalibration
+ * applied to raw model probabilities before they are stored.
+ */
+
+export type CalibrationMarket = '1X2' | 'BTTS' | 'OVER_UNDER';
+export type RecalibrationMethod = 'platt' | 'isotonic';
+
+export const CALIBRATION_MARKETS: CalibrationMarket[] = ['1X2', 'BTTS', 'OVER_UNDER'];
+
+export interface CalibrationSample {
+  p: number;         // Forecast probability for the event (0-1)
+  y: 0 | 1;          // Whether the event happened
+  date: string;      // Match date (or record timestamp)
+  league?: string;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;    // Average forecast in the bin (0-1)
+  observedFrequency: number; // Share of events that happened (0-1)
+}
+
+export interface BrierDecomposition {
+  brierScore: number;
+  reliability: number;  // Lower is better (calibration error term)
+  resolution: number;   // Higher is better (how far bins move from the base rate)
+  uncertainty: number;  // Base-rate variance, independent of the model
+}
+
+export interface LogLossTrendPoint {
+  period: string;  // YYYY-MM-DD (start of the week)
+  count: number;
+  logLoss: number;
+  brierScore: number;
+}
+
+export interface MarketCalibrationReport {
+  market: CalibrationMarket;
+  sampleSize: number;
+  bins: ReliabilityBin[];
+  expectedCalibrationError: number;
+  decomposition: BrierDecomposition;
+  logLossTrend: LogLossTrendPoint[];
+}
+
+export interface PlattParameters {
+  a: number;
+  b: number;
+}
+
+export interface IsotonicStep {
+  x: number;  // Upper forecast bound of the block
+  y: number;  // Calibrated probability for the block
+}
+
+export interface MarketRecalibrator {
+  method: RecalibrationMethod;
+  sampleSize: number;
+  platt?: PlattParameters;
+  isotonic?: IsotonicStep[];
+}
+
+export interface RecalibrationModels {
+  enabled: boolean;
+  method: RecalibrationMethod;
+  fittedAt: string;
+  markets: Partial<Record<CalibrationMarket, MarketRecalibrator>>;
+}
+
+const EPS = 1e-9;
+
+const clampProbability = (p: number): number => Math.min(1 - EPS, Math.max(EPS, p));
+
+const logit = (p: number): number => {
+  const c = clampProbability(p);
+  return Math.log(c / (1 - c));
+};
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+const outcomeOf = (homeScore: number, awayScore: number): 'home' | 'draw' | 'away' =>
+  homeScore > awayScore ? 'home' : homeScore < awayScore ? 'away' : 'draw';
+
+// Raw (pre-recalibration) probabilities when recalibration was applied at storage time
+const rawProbabilities = (prediction: Prediction) => {
+  const raw = prediction.recalibration?.raw;
+  return {
+    home: raw?.home ?? prediction.homeWinProbability,
+    draw: raw?.draw ?? prediction.drawProbability,
+    away: raw?.away ?? prediction.awayWinProbability,
+    bttsYes: raw?.bttsYes ?? prediction.btts?.yesProbability,
+    over: raw?.over ?? prediction.goalLine?.overProbability
+  };
+};
+
+/**
+ * Turn accuracy records into binary forecast/outcome pairs for a market.
+ * 1X2 is pooled class-wise: every record contributes home, draw and away samples.
+ */
+export const extractCalibrationSamples = (
+  records: PredictionAccuracy[],
+  market: CalibrationMarket,
+  options: { useRaw?: boolean } = {}
+): CalibrationSample[] => {
+  const samples: CalibrationSample[] = [];
+
+  for (const record of records) {
+    if (!record?.prediction || !record.actualResult) continue;
+    const { homeScore, awayScore } = record.actualResult;
+    if (!Number.isFinite(homeScore) || !Number.isFinite(awayScore)) continue;
+
+    const date = record.matchDate || record.timestamp;
+    const league = record.league as string | undefined;
+    const probs = options.useRaw ? rawProbabilities(record.prediction) : {
+      home: record.prediction.homeWinProbability,
+      draw: record.prediction.drawProbability,
+      away: record.prediction.awayWinProbability,
+      bttsYes: record.prediction.btts?.yesProbability,
+      over: record.prediction.goalLine?.overProbability
+    };
+
+    if (market === '1X2') {
+      const total = (probs.home || 0) + (probs.draw || 0) + (probs.away || 0);
+      if (total <= 0) continue;
+      const outcome = outcomeOf(homeScore, awayScore);
+      samples.push({ p: probs.home / total, y: outcome === 'home' ? 1 : 0, date, league });
+      samples.push({ p: probs.draw / total, y: outcome === 'draw' ? 1 : 0, date, league });
+      samples.push({ p: probs.away / total, y: outcome === 'away' ? 1 : 0, date, league });
+    } else if (market === 'BTTS') {
+      if (probs.bttsYes === undefined) continue;
+      samples.push({ p: probs.bttsYes / 100, y: homeScore > 0 && awayScore > 0 ? 1 : 0, date, league });
+    } else {
+      if (probs.over === undefined) continue;
+      const line = record.prediction.goalLine?.line ?? 2.5;
+      samples.push({ p: probs.over / 100, y: homeScore + awayScore > line ? 1 : 0, date, league });
+    }
+  }
+
+  return samples;
+};
+
+export const buildReliabilityTable = (samples: CalibrationSample[], binCount: number = 10): ReliabilityBin[] => {
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    meanPredicted: 0,
+    observedFrequency: 0
+  }));
+
+  for (const sample of samples) {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(sample.p * binCount)));
+    const bin = bins[index];
+    bin.count++;
+    bin.meanPredicted += sample.p;
+    bin.observedFrequency += sample.y;
+  }
+
+  for (const bin of bins) {
+    if (bin.count > 0) {
+      bin.meanPredicted /= bin.count;
+      bin.observedFrequency /= bin.count;
+    }
+  }
+
+  return bins;
+};
+
+export const expectedCalibrationError = (bins: ReliabilityBin[]): number => {
+  const total = bins.reduce((sum, b) => sum + b.count, 0);
+  if (total === 0) return 0;
+  return bins.reduce((sum, b) => sum + (b.count / total) * Math.abs(b.meanPredicted - b.observedFrequency), 0);
+};
+
+/**
+ * Murphy decomposition: Brier ≈ reliability - resolution + uncertainty (exact up to binning)
+ */
+export const decomposeBrierScore = (samples: CalibrationSample[], bins: ReliabilityBin[]): BrierDecomposition => {
+  const n = samples.length;
+  if (n === 0) {
+    return { brierScore: 0, reliability: 0, resolution: 0, uncertainty: 0 };
+  }
+
+  const baseRate = samples.reduce((sum, s) => sum + s.y, 0) / n;
+  const brierScore = samples.reduce((sum, s) => sum + (s.p - s.y) ** 2, 0) / n;
+  let reliability = 0;
+  let resolution = 0;
+
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    reliability += bin.count * (bin.meanPredicted - bin.observedFrequency) ** 2;
+    resolution += bin.count * (bin.observedFrequency - baseRate) ** 2;
+  }
+
+  return {
+    brierScore,
+    reliability: reliability / n,
+    resolution: resolution / n,
+    uncertainty: baseRate * (1 - baseRate)
+  };
+};
+
+const weekStart = (date: string): string => {
+  const d = new Date(date);
+  if (Number.isNaN(d.getTime())) return 'unknown';
+  const day = (d.getUTCDay() + 6) % 7; // Monday = 0
+  d.setUTCDate(d.getUTCDate() - day);
+  return d.toISOString().split('T')[0];
+};
+
+export const computeLogLossTrend = (samples: CalibrationSample[]): LogLossTrendPoint[] => {
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const sample of samples) {
+    const key = weekStart(sample.date);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(sample);
+  }
+
+  return Array.from(groups.entries())
+    .filter(([period]) => period !== 'unknown')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, group]) => ({
+      period,
+      count: group.length,
+      logLoss: group.reduce((sum, s) => {
+        const p = clampProbability(s.p);
+        return sum - (s.y ? Math.log(p) : Math.log(1 - p));
+      }, 0) / group.length,
+      brierScore: group.reduce((sum, s) => sum + (s.p - s.y) ** 2, 0) / group.length
+    }));
+};
+
+export const buildCalibrationReport = (
+  records: PredictionAccuracy[],
+  market: CalibrationMarket,
+  binCount: number = 10
+): MarketCalibrationReport => {
+  const samples = extractCalibrationSamples(records, market);
+  const bins = buildReliabilityTable(samples, binCount);
+  return {
+    market,
+    sampleSize: samples.length,
+    bins,
+    expectedCalibrationError: expectedCalibrationError(bins),
+    decomposition: decomposeBrierScore(samples, bins),
+    logLossTrend: computeLogLossTrend(samples)
+  };
+};
+
+// ---- Recalibration ----
+
+/**
+ * Fit p' = sigmoid(a * logit(p) + b) by Newton-Raphson on the log-likelihood
+ */
+export const fitPlattScaling = (samples: CalibrationSample[], iterations: number = 50): PlattParameters => {
+  let a = 1;
+  let b = 0;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let gA = 0, gB = 0, hAA = 0, hAB = 0, hBB = 0;
+    for (const s of samples) {
+      const x = logit(s.p);
+      const q = sigmoid(a * x + b);
+      const w = q * (1 - q);
+      gA += (q - s.y) * x;
+      gB += (q - s.y);
+      hAA += w * x * x;
+      hAB += w * x;
+      hBB += w;
+    }
+    // Small ridge keeps the Hessian invertible on separable data
+    hAA += 1e-6;
+    hBB += 1e-6;
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-12) break;
+    const dA = (hBB * gA - hAB * gB) / det;
+    const dB = (hAA * gB - hAB * gA) / det;
+    a -= dA;
+    b -= dB;
+    if (Math.abs(dA) < 1e-8 && Math.abs(dB) < 1e-8) break;
+  }
+
+  return { a, b };
+};
+
+/**
+ * Pool-adjacent-violators: monotone non-decreasing step function from forecast to frequency
+ */
+export const fitIsotonicRegression = (samples: CalibrationSample[]): IsotonicStep[] => {
+  const sorted = [...samples].sort((s1, s2) => s1.p - s2.p);
+  const blocks: { sum: number; weight: number; maxX: number }[] = [];
+
+  for (const s of sorted) {
+    blocks.push({ sum: s.y, weight: 1, maxX: s.p });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const prev = blocks[blocks.length - 2];
+      if (prev.sum / prev.weight <= last.sum / last.weight) break;
+      prev.sum += last.sum;
+      prev.weight += last.weight;
+      prev.maxX = last.maxX;
+      blocks.pop();
+    }
+  }
+
+  return blocks.map(block => ({ x: block.maxX, y: block.sum / block.weight }));
+};
+
+export const applyRecalibrator = (p: number, recalibrator: MarketRecalibrator): number => {
+  if (recalibrator.method === 'platt' && recalibrator.platt) {
+    return sigmoid(recalibrator.platt.a * logit(p) + recalibrator.platt.b);
+  }
+  if (recalibrator.method === 'isotonic' && recalibrator.isotonic?.length) {
+    const step = recalibrator.isotonic.find(s => p <= s.x);
+    return step ? step.y : recalibrator.isotonic[recalibrator.isotonic.length - 1].y;
+  }
+  return p;
+};
+
+export const fitRecalibrationModels = (
+  records: PredictionAccuracy[],
+  method: RecalibrationMethod,
+  minSamples: number = 50
+): RecalibrationModels => {
+  const markets: RecalibrationModels['markets'] = {};
+
+  for (const market of CALIBRATION_MARKETS) {
+    const samples = extractCalibrationSamples(records, market, { useRaw: true });
+    if (samples.length < minSamples) continue;
+    markets[market] = method === 'platt'
+      ? { method, sampleSize: samples.length, platt: fitPlattScaling(samples) }
+      : { method, sampleSize: samples.length, isotonic: fitIsotonicRegression(samples) };
+  }
+
+  return { enabled: true, method, fittedAt: new Date().toISOString(), markets };
+};
+
+const toPercent = (p: number): number => Math.round(Math.min(1, Math.max(0, p)) * 1000) / 10;
+
+/**
+ * Adjust raw model probabilities with fitted recalibrators, keeping the raw values
+ * on the prediction so later fits and audits can see what the model said.
+ */
+export const recalibratePrediction = (prediction: Prediction, models: RecalibrationModels | null): Prediction => {
+  if (!models?.enabled || prediction.recalibration) return prediction;
+  const { markets } = models;
+  if (!markets['1X2'] && !markets.BTTS && !markets.OVER_UNDER) return prediction;
+
+  const result: Prediction = { ...prediction };
+  const raw: NonNullable<Prediction['recalibration']>['raw'] = {
+    home: prediction.homeWinProbability,
+    draw: prediction.drawProbability,
+    away: prediction.awayWinProbability
+  };
+
+  if (markets['1X2']) {
+    const total = prediction.homeWinProbability + prediction.drawProbability + prediction.awayWinProbability;
+    if (total > 0) {
+      const home = applyRecalibrator(prediction.homeWinProbability / total, markets['1X2']);
+      const draw = applyRecalibrator(prediction.drawProbability / total, markets['1X2']);
+      const away = applyRecalibrator(prediction.awayWinProbability / total, markets['1X2']);
+      const sum = home + draw + away || 1;
+      result.homeWinProbability = toPercent(home / sum);
+      result.drawProbability = toPercent(draw / sum);
+      result.awayWinProbability = Math.round((100 - result.homeWinProbability - result.drawProbability) * 10) / 10;
+    }
+  }
+
+  if (markets.BTTS && prediction.btts) {
+    raw.bttsYes = prediction.btts.yesProbability;
+    const yes = toPercent(applyRecalibrator(prediction.btts.yesProbability / 100, markets.BTTS));
+    result.btts = { yesProbability: yes, noProbability: Math.round((100 - yes) * 10) / 10 };
+  }
+
+  if (markets.OVER_UNDER && prediction.goalLine) {
+    raw.over = prediction.goalLine.overProbability;
+    const over = toPercent(applyRecalibrator(prediction.goalLine.overProbability / 100, markets.OVER_UNDER));
+    result.goalLine = { ...prediction.goalLine, overProbability: over, underProbability: Math.round((100 - over) * 10) / 10 };
+  }
+
+  result.recalibration = { method: models.method, fittedAt: models.fittedAt, raw };
+  return result;
+};
+
+export const loadRecalibrationModels = (): RecalibrationModels | null => clientStore.get('recalibrationModels');
+
+export const saveRecalibrationModels = (models: RecalibrationModels | null): void => {
+  clientStore.set('recalibrationModels', models);
+};
+
+/**
+ * Refit the recalibrators from settled records and store them for
+ * storeDailyPrediction. Keeps the stored method and on/off switch; until some
+ * market has enough samples the previous models (if any) stay in place.
+ */
+export const refreshRecalibrationModels = (
+  records: PredictionAccuracy[],
+  minSamples: number = 50
+): RecalibrationModels | null => {
+  const previous = loadRecalibrationModels();
+  const fitted = fitRecalibrationModels(records, previous?.method ?? 'platt', minSamples);
+  if (Object.keys(fitted.markets).length === 0) return previous;
+
+  const models = { ...fitted, enabled: previous?.enabled ?? true };
+  saveRecalibrationModels(models);
+  return models;
+};
+
+export const calibrationService = {
+  extractCalibrationSamples,
+  buildReliabilityTable,
+  expectedCalibrationError,
+  decomposeBrierScore,
+  computeLogLossTrend,
+  buildCalibrationReport,
+  fitRecalibrationModels,
+  recalibratePrediction,
+  loadRecalibrationModels,
+  saveRecalibrationModels,
+  refreshRecalibrationModels
+};
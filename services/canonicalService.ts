@@ -62,6 +62,14 @@ class CanonicalService {
     return canonicalUrl;
   }
 
+  // Canonical URL for a path on a given origin, without a window (prerendering)
+  canonicalUrlFor(path: string, origin: string): string {
+    const { protocol, host } = new URL(origin);
+    const apexHost = host.replace(/^www\./, '');
+    const canonicalHost = this.preferredHost === 'www' ? `www.${apexHost}` : apexHost;
+    return `${protocol}//${canonicalHost}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
   // Get the canonical host (www or apex)
   private getCanonicalHost(): string {
     if (typeof window === 'undefined') return '';
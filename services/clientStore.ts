@@ -0,0 +1,782 @@
+import type { League, LeagueTableRow, Match, Prediction, PredictionAccuracy, Team } from '../types';
+import type { NotificationSettings } from './notificationService';
+import type { NotificationSettings as CalendarNotificationSettings } from './calendarService';
+import type { AccessibilitySettings } from './accessibilityService';
+import type { ApiCacheEntry } from './apiCache';
+import type { QuotaUsage } from './apiQuotaPlanner';
+import type { PushRegistration } from './pushSubscriptionService';
+import type { SyncConflict } from './syncConflicts';
+import type { EloResultInput } from './eloRatingService';
+import type { RecalibrationModels } from './calibrationService';
+import type { TeamMetadataOverrides } from './teamMetadataService';
+import type { PromptTemplateId, PromptVariant } from './promptRegistry';
+import type { NewsPage } from './newsModel';
+
+/**
+ * Client Store
+ * Typed, versioned persistence for everything the app keeps on the device.
+ * Each named collection lives in memory (so reads stay synchronous) and is
+ * persisted to IndexedDB, falling back to localStorage where IndexedDB is
+ * unavailable. Collections carry a schema version with migration functions,
+ * import their legacy localStorage keys once, and are trimmed by priority when
+ * the browser reports the storage quota is exhausted.
+ */
+
+export interface StoredEnvelope<T = unknown> {
+  name: string;
+  version: number;
+  updatedAt: number;
+  value: T;
+}
+
+export interface CollectionDefinition<T> {
+  version: number;
+  defaultValue: () => T;
+  // migrations[n] upgrades a value stored at version n - 1 to version n
+  migrations?: Record<number, (value: any) => any>;
+  // Pre-store localStorage keys (exact names, or a filter over all keys) imported on first load
+  legacyKeys?: string[] | ((key: string) => boolean);
+  // Builds a version-1 value from the parsed legacy entries; defaults to the first key's value
+  fromLegacy?: (entries: Record<string, any>) => T | undefined;
+  // Combines a value written before IndexedDB finished loading with the one already stored there
+  merge?: (stored: T, local: T) => T;
+  // Also keep a localStorage copy so the value is available synchronously at startup
+  mirror?: boolean;
+  // Shrinks the value under storage pressure; lower priorities are trimmed first
+  evict?: (value: T) => T;
+  evictionPriority?: number;
+}
+
+export type CollectionDefinitions<S> = { [K in keyof S]: CollectionDefinition<S[K]> };
+
+export interface ClientStoreOptions {
+  dbName?: string;
+  indexedDB?: IDBFactory | null;
+  storage?: () => Storage | null;
+}
+
+type Listener<T> = (value: T) => void;
+
+const OBJECT_STORE = 'collections';
+const FALLBACK_PREFIX = 'fixturecast_store:';
+const QUOTA_PRESSURE_RATIO = 0.9;
+
+const isQuotaError = (error: any): boolean =>
+  !!error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const defaultStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export class ClientStore<S extends Record<string, any>> {
+  private memory = new Map<keyof S, StoredEnvelope>();
+  private importedLegacy = new Set<keyof S>();
+  private dirty = new Set<keyof S>();
+  private listeners = new Map<keyof S, Set<Listener<any>>>();
+  private db: IDBDatabase | null = null;
+  private backend: 'pending' | 'indexeddb' | 'localStorage' = 'pending';
+  private readyPromise: Promise<void> | null = null;
+  private flushPromise: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly dbName: string;
+  private readonly idb: IDBFactory | null;
+  private readonly storage: () => Storage | null;
+
+  constructor(private definitions: CollectionDefinitions<S>, options: ClientStoreOptions = {}) {
+    this.dbName = options.dbName || 'fixturecast-store';
+    this.idb = options.indexedDB !== undefined
+      ? options.indexedDB
+      : (typeof indexedDB === 'undefined' ? null : indexedDB);
+    this.storage = options.storage || defaultStorage;
+  }
+
+  /**
+   * Current value of a collection. Before `ready()` resolves this comes from the
+   * localStorage mirror or legacy keys, so callers that can wait should.
+   */
+  get<K extends keyof S>(name: K): S[K] {
+    return this.load(name).value as S[K];
+  }
+
+  set<K extends keyof S>(name: K, value: S[K]): void {
+    this.memory.set(name, { name: String(name), version: this.definitions[name].version, updatedAt: Date.now(), value });
+    this.dirty.add(name);
+    this.notify(name);
+    this.scheduleFlush();
+  }
+
+  update<K extends keyof S>(name: K, updater: (current: S[K]) => S[K]): S[K] {
+    const next = updater(this.get(name));
+    this.set(name, next);
+    return next;
+  }
+
+  reset<K extends keyof S>(name: K): void {
+    this.set(name, this.definitions[name].defaultValue());
+  }
+
+  subscribe<K extends keyof S>(name: K, listener: Listener<S[K]>): () => void {
+    const set = this.listeners.get(name) || new Set();
+    set.add(listener);
+    this.listeners.set(name, set);
+    return () => set.delete(listener);
+  }
+
+  /**
+   * Opens IndexedDB (once), merges what it holds with anything loaded or written
+   * in the meantime, and retires legacy localStorage keys
+   */
+  ready(): Promise<void> {
+    if (!this.readyPromise) this.readyPromise = this.initialize();
+    return this.readyPromise;
+  }
+
+  get activeBackend(): 'pending' | 'indexeddb' | 'localStorage' {
+    return this.backend;
+  }
+
+  /**
+   * Persist pending writes now
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.ready();
+    while (this.flushPromise) await this.flushPromise;
+    if (this.dirty.size === 0) return;
+
+    const names = [...this.dirty];
+    this.dirty.clear();
+    this.flushPromise = this.persist(names).then(() => undefined).finally(() => { this.flushPromise = null; });
+    await this.flushPromise;
+  }
+
+  /**
+   * Trim evictable collections when the origin is close to its storage quota
+   */
+  async checkQuota(): Promise<boolean> {
+    try {
+      const estimate = await (typeof navigator !== 'undefined' ? navigator.storage?.estimate?.() : undefined);
+      if (!estimate?.quota || !estimate.usage || estimate.usage / estimate.quota < QUOTA_PRESSURE_RATIO) return false;
+    } catch {
+      return false;
+    }
+    const trimmed = this.evictAll();
+    if (trimmed.length > 0) {
+      console.warn(`🧹 Storage near quota, trimmed: ${trimmed.join(', ')}`);
+      await this.flush();
+    }
+    return trimmed.length > 0;
+  }
+
+  private load<K extends keyof S>(name: K): StoredEnvelope {
+    const cached = this.memory.get(name);
+    if (cached) return cached;
+
+    const definition = this.definitions[name];
+    const envelope = this.readFallback(name) || this.readLegacy(name);
+    const loaded: StoredEnvelope = envelope
+      ? this.migrate(name, envelope)
+      : { name: String(name), version: definition.version, updatedAt: 0, value: definition.defaultValue() };
+    this.memory.set(name, loaded);
+    return loaded;
+  }
+
+  private migrate<K extends keyof S>(name: K, envelope: StoredEnvelope): StoredEnvelope {
+    const definition = this.definitions[name];
+    let { version, value } = envelope;
+    try {
+      while (version < definition.version) {
+        const step = definition.migrations?.[version + 1];
+        value = step ? step(value) : value;
+        version++;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to migrate ${String(name)} from v${envelope.version}, resetting:`, error);
+      return { name: String(name), version: definition.version, updatedAt: 0, value: definition.defaultValue() };
+    }
+    if (version > definition.version) {
+      // Written by a newer build; keep it but don't attempt to downgrade
+      console.warn(`⚠️ ${String(name)} is stored at v${version}, newer than v${definition.version}`);
+    }
+    return { ...envelope, version, value };
+  }
+
+  private readFallback<K extends keyof S>(name: K): StoredEnvelope | null {
+    const storage = this.storage();
+    if (!storage) return null;
+    try {
+      const raw = storage.getItem(FALLBACK_PREFIX + String(name));
+      return raw ? JSON.parse(raw) as StoredEnvelope : null;
+    } catch (error) {
+      console.warn(`⚠️ Corrupt stored ${String(name)}, ignoring:`, error);
+      return null;
+    }
+  }
+
+  private legacyKeysFor<K extends keyof S>(name: K, storage: Storage): string[] {
+    const legacy = this.definitions[name].legacyKeys;
+    if (!legacy) return [];
+    if (Array.isArray(legacy)) return legacy;
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key && legacy(key)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private readLegacy<K extends keyof S>(name: K): StoredEnvelope | null {
+    const storage = this.storage();
+    if (!storage) return null;
+    const entries: Record<string, any> = {};
+    for (const key of this.legacyKeysFor(name, storage)) {
+      try {
+        const raw = storage.getItem(key);
+        if (raw === null) continue;
+        try {
+          entries[key] = JSON.parse(raw);
+        } catch {
+          entries[key] = raw; // Plain string values such as ids and dates
+        }
+      } catch (error) {
+        console.warn(`⚠️ Skipping unreadable legacy key ${key}:`, error);
+      }
+    }
+    if (Object.keys(entries).length === 0) return null;
+
+    const definition = this.definitions[name];
+    const value = definition.fromLegacy ? definition.fromLegacy(entries) : Object.values(entries)[0];
+    if (value === undefined) return null;
+    this.importedLegacy.add(name);
+    return { name: String(name), version: 1, updatedAt: 0, value };
+  }
+
+  private async initialize(): Promise<void> {
+    // Load every collection first so legacy keys shared between collections are all imported
+    const names = Object.keys(this.definitions) as (keyof S)[];
+    names.forEach(name => this.load(name));
+
+    this.db = await this.openDatabase();
+    this.backend = this.db ? 'indexeddb' : 'localStorage';
+
+    // Anything imported from legacy keys or written before we were ready needs persisting
+    const pending = new Set<keyof S>([...this.dirty, ...this.importedLegacy]);
+    this.dirty.clear();
+
+    if (this.db) {
+      try {
+        const tx = this.db.transaction(OBJECT_STORE, 'readonly');
+        const records = await requestToPromise(tx.objectStore(OBJECT_STORE).getAll()) as StoredEnvelope[];
+        const found = new Set<keyof S>();
+        for (const record of records) {
+          const name = record.name as keyof S;
+          if (!(name in this.definitions)) continue;
+          found.add(name);
+          if (this.hydrate(name, this.migrate(name, record))) pending.add(name);
+          else pending.delete(name);
+        }
+        // Values only held in localStorage so far (mirrors, earlier fallback mode) move across
+        names.filter(name => !found.has(name) && this.memory.get(name)!.updatedAt > 0).forEach(name => pending.add(name));
+      } catch (error) {
+        console.warn('⚠️ Failed to read client store, using in-memory values:', error);
+      }
+    }
+
+    const persisted = await this.persist([...pending]);
+    this.retireLegacyKeys(persisted);
+    console.log(`🗄️ Client store ready (${this.backend}, ${names.length} collections)`);
+  }
+
+  /**
+   * Adopt the IndexedDB copy unless this session already has newer data for the
+   * collection; returns true when the in-memory result still needs writing back
+   */
+  private hydrate<K extends keyof S>(name: K, stored: StoredEnvelope): boolean {
+    const local = this.memory.get(name);
+    const definition = this.definitions[name];
+    const hasLocalChanges = !!local && (local.updatedAt > stored.updatedAt || this.importedLegacy.has(name));
+
+    if (!hasLocalChanges) {
+      this.memory.set(name, stored);
+      this.notify(name);
+      return false;
+    }
+    if (definition.merge) {
+      this.memory.set(name, { ...stored, updatedAt: Date.now(), value: definition.merge(stored.value as S[K], local!.value as S[K]) });
+      this.notify(name);
+    }
+    return true;
+  }
+
+  private async openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.idb) return null;
+    try {
+      const request = this.idb.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(OBJECT_STORE)) {
+          request.result.createObjectStore(OBJECT_STORE, { keyPath: 'name' });
+        }
+      };
+      return await requestToPromise(request);
+    } catch (error) {
+      console.warn('⚠️ IndexedDB unavailable, falling back to localStorage:', error);
+      return null;
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.backend === 'localStorage') {
+      // No async backend to wait for; write straight through
+      const names = [...this.dirty];
+      this.dirty.clear();
+      this.persistToStorage(names);
+      return;
+    }
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => console.warn('⚠️ Client store flush failed:', error));
+    }, 0);
+  }
+
+  /**
+   * Write collections to the active backend, evicting by priority on quota errors.
+   * Resolves with the names that were persisted.
+   */
+  private async persist(names: (keyof S)[]): Promise<(keyof S)[]> {
+    if (names.length === 0) return [];
+    if (!this.db) return this.persistToStorage(names);
+
+    const pending = new Set(names);
+    const evicted = new Set<keyof S>();
+    for (;;) {
+      try {
+        await this.writeToDatabase([...pending]);
+        this.writeMirrors([...pending]);
+        return [...pending];
+      } catch (error) {
+        const next = isQuotaError(error) ? this.evictNext(evicted) : null;
+        if (!next) {
+          console.error('❌ Failed to persist client store:', error);
+          return [];
+        }
+        pending.add(next);
+      }
+    }
+  }
+
+  private writeToDatabase(names: (keyof S)[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(OBJECT_STORE, 'readwrite');
+      const store = tx.objectStore(OBJECT_STORE);
+      names.forEach(name => store.put(this.memory.get(name)));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private writeMirrors(names: (keyof S)[]): void {
+    const storage = this.storage();
+    if (!storage) return;
+    names.filter(name => this.definitions[name].mirror).forEach(name => {
+      try {
+        storage.setItem(FALLBACK_PREFIX + String(name), JSON.stringify(this.memory.get(name)));
+      } catch (error) {
+        console.warn(`⚠️ Failed to mirror ${String(name)} to localStorage:`, error);
+      }
+    });
+  }
+
+  private persistToStorage(names: (keyof S)[]): (keyof S)[] {
+    const storage = this.storage();
+    if (!storage || names.length === 0) return [];
+
+    const pending = new Set(names);
+    const evicted = new Set<keyof S>();
+    for (;;) {
+      try {
+        // Trimmed collections go first so their smaller copies free space for the rest
+        const order = [...evicted, ...[...pending].filter(name => !evicted.has(name))];
+        order.forEach(name => storage.setItem(FALLBACK_PREFIX + String(name), JSON.stringify(this.memory.get(name))));
+        return order;
+      } catch (error) {
+        const next = isQuotaError(error) ? this.evictNext(evicted) : null;
+        if (!next) {
+          console.error('❌ Failed to persist client store to localStorage:', error);
+          return [];
+        }
+        pending.add(next);
+      }
+    }
+  }
+
+  private evictNext(alreadyEvicted: Set<keyof S>): keyof S | null {
+    const candidates = (Object.keys(this.definitions) as (keyof S)[])
+      .filter(name => this.definitions[name].evict && !alreadyEvicted.has(name))
+      .sort((a, b) => (this.definitions[a].evictionPriority ?? 0) - (this.definitions[b].evictionPriority ?? 0));
+    const name = candidates[0];
+    if (name === undefined) return null;
+
+    alreadyEvicted.add(name);
+    const current = this.load(name);
+    this.memory.set(name, { ...current, updatedAt: Date.now(), value: this.definitions[name].evict!(current.value as S[keyof S]) });
+    this.notify(name);
+    console.warn(`🧹 Storage quota exceeded, trimmed ${String(name)}`);
+    return name;
+  }
+
+  private evictAll(): (keyof S)[] {
+    const evicted = new Set<keyof S>();
+    const trimmed: (keyof S)[] = [];
+    let name: keyof S | null;
+    while ((name = this.evictNext(evicted)) !== null) {
+      trimmed.push(name);
+      this.dirty.add(name);
+    }
+    return trimmed;
+  }
+
+  private retireLegacyKeys(persisted: (keyof S)[]): void {
+    const storage = this.storage();
+    if (!storage) return;
+    const persistedSet = new Set(persisted);
+    for (const name of Object.keys(this.definitions) as (keyof S)[]) {
+      if (!persistedSet.has(name) || !this.importedLegacy.has(name)) continue;
+      this.legacyKeysFor(name, storage).forEach(key => {
+        try { storage.removeItem(key); } catch { /* ignore */ }
+      });
+      this.importedLegacy.delete(name);
+    }
+    // Collections mirrored before switching to IndexedDB no longer need their fallback copy
+    if (this.backend === 'indexeddb') {
+      persisted.filter(name => !this.definitions[name].mirror).forEach(name => {
+        try { storage.removeItem(FALLBACK_PREFIX + String(name)); } catch { /* ignore */ }
+      });
+    }
+  }
+
+  private notify<K extends keyof S>(name: K): void {
+    const value = this.memory.get(name)?.value as S[K];
+    this.listeners.get(name)?.forEach(listener => {
+      try {
+        listener(value);
+      } catch (error) {
+        console.warn(`⚠️ Client store listener for ${String(name)} failed:`, error);
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FixtureCast collections
+// ---------------------------------------------------------------------------
+
+export interface CachedMatchPrediction {
+  prediction: Prediction;
+  timestamp: string;
+  matchId: string;
+}
+
+export interface AppDataCache {
+  fixtures: Match[];
+  leagueTables: { [key in League]?: LeagueTableRow[] };
+  teams: { [key: string]: Team };
+}
+
+export interface FollowedItems {
+  teams: string[];
+  leagues: string[];
+}
+
+export interface CachedNewsPage {
+  data: NewsPage;
+  timestamp: number;
+}
+
+export interface FixtureCastSchema {
+  dailyPredictions: { [date: string]: any[] };
+  accuracyRecords: PredictionAccuracy[];
+  recentAccuracy: PredictionAccuracy[];
+  predictionCache: { [matchId: string]: Prediction };
+  matchPredictions: { [matchId: string]: CachedMatchPrediction };
+  appDataCache: AppDataCache;
+  followedItems: FollowedItems;
+  notificationSettings: Partial<NotificationSettings>;
+  calendarNotificationSettings: Partial<CalendarNotificationSettings>;
+  accessibilitySettings: Partial<AccessibilitySettings>;
+  recentSearches: string[];
+  deviceId: string | null;
+  lastPredictionRefresh: string | null;
+  apiCache: Record<string, ApiCacheEntry>;
+  apiQuota: QuotaUsage | null;
+  pushRegistration: PushRegistration | null;
+  calendarFeedSubscribed: boolean;
+  syncConflicts: { [matchId: string]: SyncConflict };
+  syncId: string | null;
+  seenNewsAlerts: string[] | null;
+  eloResults: EloResultInput[];
+  recalibrationModels: RecalibrationModels | null;
+  teamMetadataOverrides: TeamMetadataOverrides;
+  promptExperiments: Partial<Record<PromptTemplateId, PromptVariant[]>>;
+  newsPages: { [query: string]: CachedNewsPage };
+}
+
+const DAILY_PREDICTION_DAYS_ON_PRESSURE = 30;
+const ACCURACY_RECORDS_ON_PRESSURE = 500;
+const ELO_RESULTS_KEPT = 5000; // DEFAULT_ELO_CONFIG.maxStoredResults
+const ELO_RESULTS_ON_PRESSURE = 1000;
+
+const accuracyKey = (record: PredictionAccuracy) => `${record.matchId}|${record.timestamp}`;
+
+const mergeAccuracyRecords = (stored: PredictionAccuracy[], local: PredictionAccuracy[]): PredictionAccuracy[] => {
+  const seen = new Set(stored.map(accuracyKey));
+  return [...stored, ...local.filter(record => !seen.has(accuracyKey(record)))];
+};
+
+const todayString = () => new Date().toDateString();
+
+const isPlainObject = (value: unknown): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// fixturecast_news_cache held one unfiltered list ({ data: articles, timestamp }); it becomes the '' query's page
+const legacyNewsList = (entry: any): { [query: string]: CachedNewsPage } => {
+  if (!Array.isArray(entry?.data)) return {};
+  const articles = entry.data;
+  return { '': { data: { articles, total: articles.length, page: 1, pageSize: articles.length, hasMore: false, updatedAt: null }, timestamp: Number(entry.timestamp) || 0 } };
+};
+
+export const FIXTURECAST_COLLECTIONS: CollectionDefinitions<FixtureCastSchema> = {
+  dailyPredictions: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_daily_predictions'],
+    merge: (stored, local) => {
+      const merged = { ...stored };
+      for (const [date, predictions] of Object.entries(local)) {
+        const byMatch = new Map((merged[date] || []).map((p: any) => [p.matchId, p]));
+        predictions.forEach((p: any) => byMatch.set(p.matchId, { ...byMatch.get(p.matchId), ...p }));
+        merged[date] = [...byMatch.values()];
+      }
+      return merged;
+    },
+    evict: value => Object.fromEntries(
+      Object.entries(value).sort(([a], [b]) => b.localeCompare(a)).slice(0, DAILY_PREDICTION_DAYS_ON_PRESSURE)
+    ),
+    evictionPriority: 3
+  },
+  accuracyRecords: {
+    version: 1,
+    defaultValue: () => [],
+    legacyKeys: ['fixturecast_accuracy_data'],
+    merge: mergeAccuracyRecords,
+    evict: value => value.slice(-ACCURACY_RECORDS_ON_PRESSURE),
+    evictionPriority: 4
+  },
+  recentAccuracy: {
+    version: 1,
+    defaultValue: () => [],
+    legacyKeys: ['fixturecast_accuracy_cache_v1'],
+    merge: (stored, local) => mergeAccuracyRecords(stored, local).slice(-100),
+    evict: value => value.slice(-20),
+    evictionPriority: 2
+  },
+  predictionCache: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_prediction_cache'],
+    merge: (stored, local) => ({ ...stored, ...local }),
+    evict: () => ({}),
+    evictionPriority: 1
+  },
+  matchPredictions: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: key => key.startsWith('prediction_'),
+    fromLegacy: entries => Object.fromEntries(
+      Object.values(entries)
+        .filter((entry: any) => entry?.matchId && entry.prediction)
+        .map((entry: any) => [entry.matchId, entry])
+    ),
+    merge: (stored, local) => ({ ...stored, ...local }),
+    evict: value => Object.fromEntries(
+      Object.entries(value).filter(([, entry]) => new Date(entry.timestamp).toDateString() === todayString())
+    ),
+    evictionPriority: 0
+  },
+  appDataCache: {
+    version: 1,
+    defaultValue: () => ({ fixtures: [], leagueTables: {}, teams: {} }),
+    legacyKeys: ['fixturecast_fixtures_cache_v1', 'fixturecast_tables_cache_v1', 'fixturecast_teams_cache_v1', 'fixturecast_team_cache_v1'],
+    fromLegacy: entries => ({
+      fixtures: Array.isArray(entries.fixturecast_fixtures_cache_v1) ? entries.fixturecast_fixtures_cache_v1 : [],
+      leagueTables: entries.fixturecast_tables_cache_v1 || {},
+      teams: entries.fixturecast_teams_cache_v1 || {}
+    }),
+    evict: () => ({ fixtures: [], leagueTables: {}, teams: {} }),
+    evictionPriority: 1
+  },
+  followedItems: {
+    version: 1,
+    defaultValue: () => ({ teams: [], leagues: [] }),
+    legacyKeys: ['fixturecast_followed_items'],
+    mirror: true
+  },
+  // Both settings collections import the key the two services used to share (and overwrite)
+  notificationSettings: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_notification_settings'],
+    mirror: true
+  },
+  calendarNotificationSettings: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_notification_settings'],
+    mirror: true
+  },
+  accessibilitySettings: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['accessibility-settings'],
+    mirror: true
+  },
+  recentSearches: {
+    version: 1,
+    defaultValue: () => [],
+    legacyKeys: ['fixturecast_recent_searches'],
+    mirror: true
+  },
+  deviceId: {
+    version: 1,
+    defaultValue: () => null,
+    legacyKeys: ['fixturecast_device_id'],
+    fromLegacy: entries => (entries.fixturecast_device_id ? String(entries.fixturecast_device_id) : undefined),
+    mirror: true
+  },
+  lastPredictionRefresh: {
+    version: 1,
+    defaultValue: () => null,
+    legacyKeys: ['fixturecast_last_prediction_refresh'],
+    fromLegacy: entries => (entries.fixturecast_last_prediction_refresh ? String(entries.fixturecast_last_prediction_refresh) : undefined),
+    mirror: true
+  },
+  // Raw API-Football responses; cheap to refetch, so the first thing dropped under pressure
+  apiCache: {
+    version: 1,
+    defaultValue: () => ({}),
+    merge: (stored, local) => ({ ...stored, ...local }),
+    evict: () => ({}),
+    evictionPriority: -1
+  },
+  apiQuota: {
+    version: 1,
+    defaultValue: () => null,
+    merge: (stored, local) => {
+      if (!stored || !local || stored.date !== local.date) return local || stored;
+      // Calls counted before hydration are added to what was already recorded for the day
+      const byCategory = { ...stored.byCategory };
+      Object.entries(local.byCategory).forEach(([category, count]) => {
+        byCategory[category as keyof typeof byCategory] = (byCategory[category as keyof typeof byCategory] || 0) + (count || 0);
+      });
+      return { date: local.date, byCategory };
+    }
+  },
+  // How this device is reached by push (web subscription or native token)
+  pushRegistration: {
+    version: 1,
+    defaultValue: () => null,
+    mirror: true
+  },
+  // Whether this device's follows back a webcal:// feed that the worker must keep current
+  calendarFeedSubscribed: {
+    version: 1,
+    defaultValue: () => false,
+    mirror: true
+  },
+  // Prediction sync conflicts waiting for the user to pick a version
+  syncConflicts: {
+    version: 1,
+    defaultValue: () => ({}),
+    merge: (stored, local) => ({ ...stored, ...local })
+  },
+  // Issued by /api/predictions/sync; shared by the devices that sync one user's predictions
+  syncId: {
+    version: 1,
+    defaultValue: () => null,
+    mirror: true
+  },
+  // Ids of injury/suspension stories already turned into alerts; null until the first check
+  seenNewsAlerts: {
+    version: 1,
+    defaultValue: () => null,
+    legacyKeys: ['fixturecast_news_alerts_seen'],
+    merge: (stored, local) => (stored || local ? [...new Set([...(local || []), ...(stored || [])])] : null),
+    mirror: true
+  },
+  // Finished results the Elo engine replays, oldest first; too large to mirror
+  eloResults: {
+    version: 1,
+    defaultValue: () => [],
+    legacyKeys: ['fixturecast_elo_results'],
+    fromLegacy: entries => (Array.isArray(entries.fixturecast_elo_results) ? entries.fixturecast_elo_results : undefined),
+    merge: (stored, local) => {
+      const byId = new Map(stored.map(result => [result.id, result]));
+      local.forEach(result => byId.set(result.id, result));
+      return [...byId.values()].sort((a, b) => Date.parse(a.date) - Date.parse(b.date)).slice(-ELO_RESULTS_KEPT);
+    },
+    evict: value => value.slice(-ELO_RESULTS_ON_PRESSURE),
+    evictionPriority: 2
+  },
+  // Fitted by refreshRecalibrationModels and read whenever a prediction is stored
+  recalibrationModels: {
+    version: 1,
+    defaultValue: () => null,
+    legacyKeys: ['fixturecast_recalibration'],
+    fromLegacy: entries => (isPlainObject(entries.fixturecast_recalibration) ? entries.fixturecast_recalibration : undefined),
+    mirror: true
+  },
+  // Admin edits layered over data/team-metadata.json
+  teamMetadataOverrides: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_team_metadata_overrides'],
+    fromLegacy: entries => (isPlainObject(entries.fixturecast_team_metadata_overrides) ? entries.fixturecast_team_metadata_overrides : undefined),
+    mirror: true
+  },
+  // Prompt version weights per template; the registry drops variants it doesn't know
+  promptExperiments: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_prompt_experiments'],
+    fromLegacy: entries => (isPlainObject(entries.fixturecast_prompt_experiments) ? entries.fixturecast_prompt_experiments : undefined),
+    mirror: true
+  },
+  // Worker /news pages keyed by query string; refetched after ten minutes, so cheap to drop
+  newsPages: {
+    version: 1,
+    defaultValue: () => ({}),
+    legacyKeys: ['fixturecast_news_pages', 'fixturecast_news_cache'],
+    fromLegacy: entries => ({
+      ...legacyNewsList(entries.fixturecast_news_cache),
+      ...(isPlainObject(entries.fixturecast_news_pages) ? entries.fixturecast_news_pages : {})
+    }),
+    merge: (stored, local) => ({ ...stored, ...local }),
+    evict: () => ({}),
+    evictionPriority: -1
+  }
+};
+
+export const clientStore = new ClientStore<FixtureCastSchema>(FIXTURECAST_COLLECTIONS);
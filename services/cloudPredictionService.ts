@@ -1,4 +1,5 @@
 import { Match, Prediction, PredictionAccuracy, AccuracyStats } from '../types';
+import { clientStore } from './clientStore';
 
 // Cloud-based prediction integrity service using Cloudflare
 export class CloudPredictionService {
@@ -90,7 +91,13 @@ export class CloudPredictionService {
   /**
    * Store a prediction in the cloud with integrity protection
    */
-  async storePrediction(match: Match, prediction: Prediction): Promise<{ success: boolean; predictionId: string; integrityHash: string }> {
+  async storePrediction(match: Match, prediction: Prediction): Promise<{
+    success: boolean;
+    predictionId: string;
+    integrityHash: string;
+    // Present when the server records predictions in the public ledger
+    ledger?: { date: string; leafHash: string; predictedAt: string } | null;
+  }> {
     const clientFingerprint = this.generateClientFingerprint();
     
     const data = {
@@ -200,7 +207,8 @@ export class CloudPredictionService {
 
     try {
       // Get local daily predictions
-      const localDailyData = JSON.parse(localStorage.getItem('fixturecast_daily_predictions') || '{}');
+      await clientStore.ready();
+      const localDailyData = clientStore.get('dailyPredictions');
       
       for (const [date, predictions] of Object.entries(localDailyData)) {
         for (const pred of predictions as any[]) {
@@ -1,8 +1,11 @@
 /**
  * Color System Service for Sports Fixture App
- * Manages team and league colors with accessibility considerations
+ * Manages team and league colors with accessibility considerations.
+ * Team colours come from the team metadata store.
  */
 
+import { teamMetadataService } from './teamMetadataService';
+
 export interface TeamColors {
   primary: string;
   secondary: string;
@@ -27,235 +30,14 @@ export interface AccessibilityColors {
 }
 
 class ColorSystemService {
-  private teamColors: Map<string, TeamColors> = new Map();
   private leagueColors: Map<string, LeagueColors> = new Map();
   private isDarkMode = false;
 
   constructor() {
-    this.initializeTeamColors();
     this.initializeLeagueColors();
     this.detectDarkMode();
   }
 
-  /**
-   * Initialize team colors with accessibility considerations
-   */
-  private initializeTeamColors(): void {
-    const teamColorData: { [key: string]: TeamColors } = {
-      // Premier League
-      'Manchester United': { 
-        primary: '#DA020E', 
-        secondary: '#FFE500', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#B91C1C'
-      },
-      'Manchester City': { 
-        primary: '#6CABDD', 
-        secondary: '#1C2C5B', 
-        text: '#FFFFFF', 
-        background: '#0A0A0A',
-        border: '#1E40AF'
-      },
-      'Liverpool': { 
-        primary: '#C8102E', 
-        secondary: '#F6EB61', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#B91C1C'
-      },
-      'Arsenal': { 
-        primary: '#EF0107', 
-        secondary: '#9C824A', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#DC2626'
-      },
-      'Chelsea': { 
-        primary: '#034694', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#0A0A0A',
-        border: '#1E40AF'
-      },
-      'Tottenham': { 
-        primary: '#132257', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#0A0A0A',
-        border: '#1E40AF'
-      },
-      'Newcastle': { 
-        primary: '#241F20', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#374151'
-      },
-      'West Ham': { 
-        primary: '#7A263A', 
-        secondary: '#1BB1E7', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#991B1B'
-      },
-
-      // La Liga
-      'Barcelona': { 
-        primary: '#A50044', 
-        secondary: '#004D98', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#BE185D'
-      },
-      'Real Madrid': { 
-        primary: '#FFFFFF', 
-        secondary: '#FEBE10', 
-        text: '#000000', 
-        background: '#0A0A0A',
-        border: '#E5E7EB'
-      },
-      'Atletico Madrid': { 
-        primary: '#CE1126', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#B91C1C'
-      },
-      'Sevilla': { 
-        primary: '#FFFFFF', 
-        secondary: '#000000', 
-        text: '#000000', 
-        background: '#0A0A0A',
-        border: '#E5E7EB'
-      },
-      'Valencia': { 
-        primary: '#FF6600', 
-        secondary: '#000000', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#EA580C'
-      },
-
-      // Serie A
-      'Juventus': { 
-        primary: '#000000', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#374151'
-      },
-      'AC Milan': { 
-        primary: '#FB090B', 
-        secondary: '#000000', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#DC2626'
-      },
-      'Inter Milan': { 
-        primary: '#0068A8', 
-        secondary: '#000000', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#1E40AF'
-      },
-      'Napoli': { 
-        primary: '#0C4CA3', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#1E40AF'
-      },
-      'Roma': { 
-        primary: '#8B0000', 
-        secondary: '#FFD700', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#991B1B'
-      },
-
-      // Bundesliga
-      'Bayern Munich': { 
-        primary: '#DC052D', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#B91C1C'
-      },
-      'Borussia Dortmund': { 
-        primary: '#FDE100', 
-        secondary: '#000000', 
-        text: '#000000', 
-        background: '#1A1A1A',
-        border: '#EAB308'
-      },
-      'RB Leipzig': { 
-        primary: '#DD0031', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#B91C1C'
-      },
-      'Bayer Leverkusen': { 
-        primary: '#E32221', 
-        secondary: '#000000', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#DC2626'
-      },
-
-      // Ligue 1
-      'PSG': { 
-        primary: '#004170', 
-        secondary: '#ED1C24', 
-        text: '#FFFFFF', 
-        background: '#0A0A0A',
-        border: '#1E40AF'
-      },
-      'Marseille': { 
-        primary: '#0066CC', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#1E40AF'
-      },
-      'Lyon': { 
-        primary: '#FFFFFF', 
-        secondary: '#000000', 
-        text: '#000000', 
-        background: '#0A0A0A',
-        border: '#E5E7EB'
-      },
-
-      // Champions League
-      'Ajax': { 
-        primary: '#D2122E', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#B91C1C'
-      },
-      'Porto': { 
-        primary: '#0066CC', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#1E40AF'
-      },
-      'Benfica': { 
-        primary: '#FF0000', 
-        secondary: '#FFFFFF', 
-        text: '#FFFFFF', 
-        background: '#1A1A1A',
-        border: '#DC2626'
-      }
-    };
-
-    Object.entries(teamColorData).forEach(([team, colors]) => {
-      this.teamColors.set(team, colors);
-    });
-  }
-
   /**
    * Initialize league colors with accessibility considerations
    */
@@ -339,7 +121,7 @@ class ColorSystemService {
    * Get team colors with accessibility fallback
    */
   public getTeamColors(teamName: string): TeamColors {
-    const colors = this.teamColors.get(teamName);
+    const colors = teamMetadataService.getColors(teamName);
     if (colors) {
       return this.ensureAccessibility(colors);
     }
@@ -513,7 +295,11 @@ class ColorSystemService {
    * Get all team colors
    */
   public getAllTeamColors(): Map<string, TeamColors> {
-    return new Map(this.teamColors);
+    return new Map(
+      teamMetadataService.getAllTeams()
+        .filter(team => team.colors)
+        .map(team => [team.name, team.colors!] as [string, TeamColors])
+    );
   }
 
   /**
@@ -0,0 +1,275 @@
+/**
+ * Confidence model: how often predictions like this one have actually hit.
+ *
+ * Settled PredictionAccuracy records are counted in nested groups:
+ *  market → top-probability band → probability margin → data quality → league
+ *
+ * The market is 1X2, BTTS or Over/Under. The top-probability band is how
+ * strongly the pick was favoured. The margin is the gap to the next outcome.
+ * Data quality comes from UncertaintyMetrics.
+ *
+ * Each group's hit rate is shrunk toward its parent's estimate by
+ * PRIOR_STRENGTH pseudo-observations. The root of the chain is the pick's own
+ * stated probability, so a thin league or band leans on the wider group and
+ * an empty history falls back to the model's claim. The interval is a normal
+ * approximation to the Beta posterior of the deepest group, so it narrows as
+ * that group collects settled picks.
+ *
+ * Runtime-neutral: no DOM or storage access, so it can be used by the app and in tests.
+ */
+
+import type { AccuracyMarket, Prediction, PredictionAccuracy } from '../types';
+
+export type ConfidenceMarket = '1X2' | 'BTTS' | 'OVER_UNDER';
+
+export type ProbabilityBand = '<40' | '40-50' | '50-60' | '60-70' | '70+';
+export type MarginBand = 'narrow' | 'clear' | 'wide';
+export type DataQualityBand = 'High' | 'Medium' | 'Low' | 'Unknown';
+
+export interface ConfidenceFeatures {
+  market: ConfidenceMarket;
+  topProbability: number;  // Stated probability of the pick (0-100)
+  margin: number;          // Gap to the next most likely outcome (0-100)
+  band: ProbabilityBand;
+  marginBand: MarginBand;
+  dataQuality: DataQualityBand;
+  league: string;
+}
+
+export interface GroupCount {
+  n: number;
+  hits: number;
+}
+
+export interface ConfidenceModel {
+  fittedAt: string;
+  sampleSize: number;
+  // Keyed by the '|'-joined group path, e.g. "1X2|50-60|clear|High|Premier League"
+  groups: Record<string, GroupCount>;
+}
+
+export type ConfidenceLevelName = 'market' | 'band' | 'margin' | 'dataQuality' | 'league';
+
+export interface ConfidenceLevelEstimate {
+  level: ConfidenceLevelName;
+  label: string;
+  n: number;
+  hits: number;
+  estimate: number;  // Shrunk hit rate (0-1)
+}
+
+export interface ConfidenceEstimate {
+  market: ConfidenceMarket;
+  features: ConfidenceFeatures;
+  probability: number;  // Expected hit rate of the pick (0-1)
+  lower: number;
+  upper: number;
+  sampleSize: number;   // Settled picks in the deepest group
+  levels: ConfidenceLevelEstimate[];
+  reasons: string[];
+}
+
+// Pseudo-observations a group borrows from its parent
+export const PRIOR_STRENGTH = 20;
+// Two-sided 80% interval
+export const INTERVAL_Z = 1.2816;
+// Below this many settled picks a group is called thin in the reasons
+export const MIN_GROUP_SAMPLE = 10;
+
+const LEVELS: ConfidenceLevelName[] = ['market', 'band', 'margin', 'dataQuality', 'league'];
+
+const MARKET_LABELS: Record<ConfidenceMarket, string> = {
+  '1X2': 'match result',
+  BTTS: 'BTTS',
+  OVER_UNDER: 'over/under'
+};
+
+const MARKET_ACCURACY: Record<ConfidenceMarket, AccuracyMarket> = {
+  '1X2': 'outcome',
+  BTTS: 'btts',
+  OVER_UNDER: 'goalLine'
+};
+
+export const probabilityBand = (topProbability: number): ProbabilityBand => {
+  if (topProbability < 40) return '<40';
+  if (topProbability < 50) return '40-50';
+  if (topProbability < 60) return '50-60';
+  if (topProbability < 70) return '60-70';
+  return '70+';
+};
+
+export const marginBand = (margin: number): MarginBand => {
+  if (margin < 10) return 'narrow';
+  if (margin < 25) return 'clear';
+  return 'wide';
+};
+
+/**
+ * The pick a prediction makes in a market and how strongly it is favoured.
+ * Returns null when the prediction has no usable probabilities for the market.
+ */
+export const extractConfidenceFeatures = (
+  prediction: Prediction,
+  market: ConfidenceMarket,
+  league?: string
+): ConfidenceFeatures | null => {
+  let probabilities: number[];
+  if (market === '1X2') {
+    probabilities = [prediction.homeWinProbability, prediction.drawProbability, prediction.awayWinProbability];
+  } else if (market === 'BTTS') {
+    const yes = prediction.btts?.yesProbability;
+    probabilities = yes === undefined ? [] : [yes, 100 - yes];
+  } else {
+    const over = prediction.goalLine?.overProbability;
+    probabilities = over === undefined ? [] : [over, 100 - over];
+  }
+
+  if (probabilities.length === 0 || !probabilities.every(Number.isFinite)) return null;
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  if (total <= 0) return null;
+
+  // Rounded to 0.1 so float noise cannot push a pick across a band edge
+  const [top, second] = probabilities.map(p => Math.round((p / total) * 1000) / 10).sort((a, b) => b - a);
+  return {
+    market,
+    topProbability: top,
+    margin: top - second,
+    band: probabilityBand(top),
+    marginBand: marginBand(top - second),
+    dataQuality: prediction.uncertaintyMetrics?.dataQuality ?? 'Unknown',
+    league: league || 'Unknown'
+  };
+};
+
+const groupPath = (features: ConfidenceFeatures): string[] => [
+  features.market,
+  features.band,
+  features.marginBand,
+  features.dataQuality,
+  features.league
+];
+
+/**
+ * Count settled picks per group. Void markets and records without a pick in
+ * the market are left out.
+ */
+export const fitConfidenceModel = (records: PredictionAccuracy[], now: Date = new Date()): ConfidenceModel => {
+  const groups: Record<string, GroupCount> = {};
+  let sampleSize = 0;
+
+  for (const record of records) {
+    if (!record?.prediction || !record.accuracy) continue;
+
+    for (const market of Object.keys(MARKET_ACCURACY) as ConfidenceMarket[]) {
+      const accuracyMarket = MARKET_ACCURACY[market];
+      if (record.voidMarkets?.includes(accuracyMarket)) continue;
+      const hit = record.accuracy[accuracyMarket];
+      if (typeof hit !== 'boolean') continue;
+
+      const features = extractConfidenceFeatures(record.prediction, market, record.league);
+      if (!features) continue;
+
+      const path = groupPath(features);
+      for (let depth = 1; depth <= path.length; depth++) {
+        const key = path.slice(0, depth).join('|');
+        const group = groups[key] || (groups[key] = { n: 0, hits: 0 });
+        group.n++;
+        if (hit) group.hits++;
+      }
+      sampleSize++;
+    }
+  }
+
+  return { fittedAt: now.toISOString(), sampleSize, groups };
+};
+
+const levelLabel = (level: ConfidenceLevelName, features: ConfidenceFeatures): string => {
+  switch (level) {
+    case 'market': return `all ${MARKET_LABELS[features.market]} picks`;
+    case 'band': return `${features.band}% favourites`;
+    case 'margin': return `a ${features.marginBand} margin`;
+    case 'dataQuality': return `${features.dataQuality.toLowerCase()} data quality`;
+    case 'league': return features.league;
+  }
+};
+
+const percent = (p: number): string => `${Math.round(p * 100)}%`;
+
+const buildReasons = (features: ConfidenceFeatures, levels: ConfidenceLevelEstimate[]): string[] => {
+  const [market, , margin, quality, league] = levels;
+  const marketLabel = MARKET_LABELS[features.market];
+
+  if (market.n === 0) {
+    return [`No settled ${marketLabel} picks yet, so this is the model's own ${Math.round(features.topProbability)}%`];
+  }
+
+  const reasons: string[] = [];
+  if (margin.n > 0) {
+    reasons.push(
+      `${margin.hits}/${margin.n} ${marketLabel} picks with a ${features.band}% favourite and ${levelLabel('margin', features)} hit`
+    );
+  } else {
+    reasons.push(
+      `No ${marketLabel} picks with a ${features.band}% favourite and ${levelLabel('margin', features)} yet; leaning on ${market.hits}/${market.n} overall`
+    );
+  }
+
+  if (features.dataQuality !== 'Unknown' && quality.n >= MIN_GROUP_SAMPLE) {
+    const shift = quality.estimate - margin.estimate;
+    if (Math.abs(shift) >= 0.03) {
+      reasons.push(`${features.dataQuality} data quality picks run ${shift > 0 ? 'above' : 'below'} that (${percent(quality.hits / quality.n)})`);
+    }
+  }
+
+  if (features.league !== 'Unknown') {
+    reasons.push(
+      league.n >= MIN_GROUP_SAMPLE
+        ? `${features.league}: ${league.hits}/${league.n} similar picks hit`
+        : `only ${league.n} similar ${features.league} picks, so the league adds little`
+    );
+  }
+
+  return reasons;
+};
+
+/**
+ * Expected hit rate and interval for a prediction's pick in one market.
+ * Returns null when the prediction has no pick in that market.
+ */
+export const estimateConfidence = (
+  model: ConfidenceModel,
+  prediction: Prediction,
+  options: { market?: ConfidenceMarket; league?: string } = {}
+): ConfidenceEstimate | null => {
+  const market = options.market || '1X2';
+  const features = extractConfidenceFeatures(prediction, market, options.league);
+  if (!features) return null;
+
+  const path = groupPath(features);
+  const levels: ConfidenceLevelEstimate[] = [];
+  let prior = features.topProbability / 100;
+  let n = 0;
+
+  path.forEach((_, index) => {
+    const group = model.groups[path.slice(0, index + 1).join('|')] || { n: 0, hits: 0 };
+    const estimate = (group.hits + PRIOR_STRENGTH * prior) / (group.n + PRIOR_STRENGTH);
+    const level = LEVELS[index];
+    levels.push({ level, label: levelLabel(level, features), n: group.n, hits: group.hits, estimate });
+    prior = estimate;
+    n = group.n;
+  });
+
+  const probability = prior;
+  const halfWidth = INTERVAL_Z * Math.sqrt((probability * (1 - probability)) / (n + PRIOR_STRENGTH + 1));
+
+  return {
+    market,
+    features,
+    probability,
+    lower: Math.max(0, probability - halfWidth),
+    upper: Math.min(1, probability + halfWidth),
+    sampleSize: n,
+    levels,
+    reasons: buildReasons(features, levels)
+  };
+};
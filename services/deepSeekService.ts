@@ -1,7 +1,9 @@
 import { Prediction, Match, ConfidenceLevel, PredictionContext } from '../types';
 import { calculatePredictionConfidence } from './confidenceService';
-import { storeDailyPrediction } from './accuracyService';
+import { getStoredAccuracyData, storeDailyPrediction } from './accuracyService';
 import { withRateLimit } from './rateLimitService';
+import { mlTrainingDataService } from './mlTrainingDataService';
+import { promptRegistry } from './promptRegistry';
 
 // Use environment variable for API key
 const apiKey = (import.meta as any).env?.VITE_DEEPSEEK_API_KEY || (import.meta as any).env?.DEEPSEEK_API_KEY;
@@ -104,131 +106,9 @@ export const getDeepSeekMatchPrediction = async (match: Match, context?: Predict
       headToHeadSnippet: context?.headToHeadSnippet || 'None',
     });
 
-    // Build context prompt
-    const contextPrompt = context ? `
-MATCH CONTEXT DATA:
-${context.leagueTableSnippet ? `- League Table: ${context.leagueTableSnippet}` : ''}
-${context.homeTeamFormSnippet ? `- ${match.homeTeam} Recent Form: ${context.homeTeamFormSnippet}` : ''}
-${context.awayTeamFormSnippet ? `- ${match.awayTeam} Recent Form: ${context.awayTeamFormSnippet}` : ''}
-${context.headToHeadSnippet ? `- Head-to-Head: ${context.headToHeadSnippet}` : ''}
-${context.homeTeamStatsSnippet ? `- ${match.homeTeam} Season Stats: ${context.homeTeamStatsSnippet}` : ''}
-${context.awayTeamStatsSnippet ? `- ${match.awayTeam} Season Stats: ${context.awayTeamStatsSnippet}` : ''}
-${context.bttsHistoricSnippet ? `- BTTS History: ${context.bttsHistoricSnippet}` : ''}
-${context.homeTeamInjuriesSnippet ? `- ${match.homeTeam} Injuries: ${context.homeTeamInjuriesSnippet}` : ''}
-${context.awayTeamInjuriesSnippet ? `- ${match.awayTeam} Injuries: ${context.awayTeamInjuriesSnippet}` : ''}
-    ` : '';
+    // Render the registry prompt version assigned to this match
+    const { text: prompt, promptVersion } = promptRegistry.prepare('deepseek-match', match, { context });
     
-    console.log(`📝 Generated DeepSeek context prompt:`, contextPrompt || 'No context data available');
-    
-    const prompt = `
-You are an advanced football prediction AI using the DeepSeek-V3.1-Terminus reasoning model. Generate a detailed, probabilistic prediction for this football match.
-
-**REASONING APPROACH:**
-1. Analyze all available data systematically
-2. Consider statistical patterns, team form, head-to-head records
-3. Apply probabilistic reasoning to all market predictions
-4. Ensure all probability sets sum to 100%
-5. Provide detailed reasoning for confidence levels
-
-**MATCH DETAILS:**
-- League: ${match.league}
-- Home Team: ${match.homeTeam}
-- Away Team: ${match.awayTeam}
-- Date: ${new Date(match.date).toISOString()}
-
-${contextPrompt}
-
-**REQUIRED OUTPUT:**
-Return a JSON object with the following structure (ensure all probabilities are integers that sum to 100%):
-
-{
-  "homeWinProbability": <0-100>,
-  "drawProbability": <0-100>,
-  "awayWinProbability": <0-100>,
-  "predictedScoreline": "<score like 2-1>",
-  "confidence": "<Low|Medium|High>",
-  "keyFactors": [
-    {
-      "category": "Statistical Analysis",
-      "points": ["Point 1", "Point 2", "Point 3"]
-    },
-    {
-      "category": "Form Analysis", 
-      "points": ["Point 1", "Point 2"]
-    },
-    {
-      "category": "Tactical Insights",
-      "points": ["Point 1", "Point 2"]
-    },
-    {
-      "category": "Risk Factors",
-      "points": ["Point 1", "Point 2"]
-    }
-  ],
-  "goalLine": {
-    "line": 2.5,
-    "overProbability": <0-100>,
-    "underProbability": <0-100>
-  },
-  "btts": {
-    "yesProbability": <0-100>,
-    "noProbability": <0-100>
-  },
-  "htft": {
-    "homeHome": <0-100>,
-    "homeDraw": <0-100>,
-    "homeAway": <0-100>,
-    "drawHome": <0-100>,
-    "drawDraw": <0-100>,
-    "drawAway": <0-100>,
-    "awayHome": <0-100>,
-    "awayDraw": <0-100>,
-    "awayAway": <0-100>
-  },
-  "scoreRange": {
-    "zeroToOne": <0-100>,
-    "twoToThree": <0-100>,
-    "fourPlus": <0-100>
-  },
-  "firstGoalscorer": {
-    "homeTeam": <0-100>,
-    "awayTeam": <0-100>,
-    "noGoalscorer": <0-100>
-  },
-  "cleanSheet": {
-    "homeTeam": <0-100>,
-    "awayTeam": <0-100>
-  },
-  "corners": {
-    "over": <0-100>,
-    "under": <0-100>
-  },
-  "expectedGoals": {
-    "homeXg": <decimal like 1.8>,
-    "awayXg": <decimal like 1.2>
-  },
-  "modelWeights": {
-    "statistical": <0-100>,
-    "tactical": <0-100>,
-    "form": <0-100>,
-    "historical": <0-100>
-  },
-  "uncertaintyMetrics": {
-    "predictionVariance": <0-100>,
-    "dataQuality": "<High|Medium|Low>",
-    "modelAgreement": <0-100>
-  }
-}
-
-**CRITICAL REQUIREMENTS:**
-- All probability pairs/sets must sum to exactly 100
-- Use realistic football scorelines (0-0 to 5-5 range)
-- Base confidence on data quality and model agreement
-- Provide substantive analysis in keyFactors
-- Consider injury impacts, form trends, and tactical matchups
-- Return ONLY valid JSON, no additional text
-`;
-
     // Generate AI prediction with rate limiting
     const response = await withRateLimit('deepseek', async () => {
       // Reset daily counter if needed
@@ -264,19 +144,19 @@ Return a JSON object with the following structure (ensure all probabilities are
       predictionData.awayWinProbability = 100 - predictionData.homeWinProbability - predictionData.drawProbability;
     }
 
-    // Calculate and set confidence based on DeepSeek's internal metrics
-    // Use the confidence from DeepSeek's response or calculate a fallback
+    // Confidence from how often similar settled picks have hit; before any
+    // have settled, fall back to DeepSeek's own uncertainty metrics
     let calculatedConfidence: ConfidenceLevel;
     
-    if (accuracyStats && typeof accuracyStats === 'object' && 'overallAccuracy' in accuracyStats) {
-      const confidenceAnalysis = calculatePredictionConfidence({
-        ...predictionData,
-        homeTeam: match.homeTeam,
-        awayTeam: match.awayTeam,
-        league: match.league,
-        date: match.date
-      } as Prediction, accuracyStats);
+    const history = getStoredAccuracyData();
+    if (history.length > 0) {
+      const confidenceAnalysis = calculatePredictionConfidence(predictionData as Prediction, history, {
+        league: match.league
+      });
       calculatedConfidence = confidenceAnalysis.level;
+      predictionData.confidencePercentage = confidenceAnalysis.percentage;
+      predictionData.confidenceReason = confidenceAnalysis.reason;
+      predictionData.confidenceInterval = confidenceAnalysis.interval;
     } else {
       // Fallback confidence calculation based on prediction variance
       const variance = predictionData.uncertaintyMetrics?.predictionVariance || 50;
@@ -292,6 +172,7 @@ Return a JSON object with the following structure (ensure all probabilities are
     }
     
     predictionData.confidence = calculatedConfidence;
+    predictionData.promptVersion = promptVersion;
 
     console.log(`📊 DeepSeek prediction complete for ${match.homeTeam} vs ${match.awayTeam}:`, {
       outcome: `${predictionData.homeWinProbability}% / ${predictionData.drawProbability}% / ${predictionData.awayWinProbability}%`,
@@ -311,6 +192,13 @@ Return a JSON object with the following structure (ensure all probabilities are
       }
     }
 
+    // Collect ML training data so DeepSeek prompts are attributed alongside Gemini
+    try {
+      await mlTrainingDataService.collectTrainingData(match, predictionData as Prediction, undefined, 'deepseek');
+    } catch (mlError) {
+      console.warn('Failed to collect ML training data:', mlError);
+    }
+
     return predictionData as Prediction;
     
   } catch (error: any) {
@@ -0,0 +1,375 @@
+import { Prediction, Match, ConfidenceLevel, HTFTPrediction } from '../types';
+import { eloRatingService, EloResultInput } from './eloRatingService';
+
+/**
+ * Dixon-Coles statistical model
+ * Fits per-team attack/defence strengths and a home advantage from stored results
+ * (time-weighted, with shrinkage toward league average), then derives every market
+ * from the low-score-corrected Poisson score matrix. Fully offline and deterministic.
+ */
+
+export interface DixonColesOptions {
+  timeDecay: number;      // ξ per day; 0.0019 halves a result's weight after ~1 year
+  referenceDate?: string; // Weights are relative to this date (defaults to the latest result)
+  iterations: number;
+  tolerance: number;
+  priorMatches: number;   // Pseudo-matches at league-average strength (shrinkage)
+  maxGoals: number;       // Score matrix size (0..maxGoals per side)
+}
+
+export interface DixonColesParameters {
+  attack: Record<string, number>;  // Expected goals scored vs an average defence (away venue)
+  defence: Record<string, number>; // Multiplier on opponent goals; 1 = average, higher = leakier
+  homeAdvantage: number;           // Multiplier on home expected goals
+  rho: number;                     // Low-score dependence correction
+  averageGoals: number;            // Weighted goals per team per match
+  matchCount: number;
+  teamMatchCounts: Record<string, number>;
+  fittedAt: string;
+}
+
+export type ScoreMatrix = number[][]; // [homeGoals][awayGoals] → probability
+
+export const DEFAULT_DIXON_COLES_OPTIONS: DixonColesOptions = {
+  timeDecay: 0.0019,
+  iterations: 200,
+  tolerance: 1e-7,
+  priorMatches: 3,
+  maxGoals: 10
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HALF_TIME_SHARE = 0.45; // Share of goals scored before the break
+
+export const poissonProbability = (k: number, lambda: number): number => {
+  let factorial = 1;
+  for (let i = 2; i <= k; i++) factorial *= i;
+  return Math.exp(-lambda) * Math.pow(lambda, k) / factorial;
+};
+
+// Dixon-Coles τ adjustment for 0-0, 1-0, 0-1 and 1-1
+export const lowScoreCorrection = (homeGoals: number, awayGoals: number, lambda: number, mu: number, rho: number): number => {
+  if (homeGoals === 0 && awayGoals === 0) return 1 - lambda * mu * rho;
+  if (homeGoals === 0 && awayGoals === 1) return 1 + lambda * rho;
+  if (homeGoals === 1 && awayGoals === 0) return 1 + mu * rho;
+  if (homeGoals === 1 && awayGoals === 1) return 1 - rho;
+  return 1;
+};
+
+export const buildScoreMatrix = (lambda: number, mu: number, rho: number = 0, maxGoals: number = 10): ScoreMatrix => {
+  const matrix: ScoreMatrix = [];
+  let total = 0;
+  for (let h = 0; h <= maxGoals; h++) {
+    matrix[h] = [];
+    for (let a = 0; a <= maxGoals; a++) {
+      const p = Math.max(0, poissonProbability(h, lambda) * poissonProbability(a, mu) * lowScoreCorrection(h, a, lambda, mu, rho));
+      matrix[h][a] = p;
+      total += p;
+    }
+  }
+  // Renormalise for truncation and the τ correction
+  for (let h = 0; h <= maxGoals; h++) {
+    for (let a = 0; a <= maxGoals; a++) {
+      matrix[h][a] /= total;
+    }
+  }
+  return matrix;
+};
+
+// Round a probability set to whole percentages that sum to exactly 100
+const toPercentages = (values: number[]): number[] => {
+  const total = values.reduce((sum, v) => sum + v, 0) || 1;
+  const scaled = values.map(v => (v / total) * 100);
+  const floored = scaled.map(Math.floor);
+  let remainder = 100 - floored.reduce((sum, v) => sum + v, 0);
+  const order = scaled.map((v, i) => ({ i, frac: v - Math.floor(v) })).sort((x, y) => y.frac - x.frac);
+  for (const { i } of order) {
+    if (remainder <= 0) break;
+    floored[i]++;
+    remainder--;
+  }
+  return floored;
+};
+
+const halfTimeFullTime = (lambda: number, mu: number, maxGoals: number = 6): HTFTPrediction => {
+  const outcome = (h: number, a: number) => (h > a ? 'home' : h < a ? 'away' : 'draw');
+  const cells: Record<string, number> = {};
+  const first = (k: number, rate: number) => poissonProbability(k, rate * HALF_TIME_SHARE);
+  const second = (k: number, rate: number) => poissonProbability(k, rate * (1 - HALF_TIME_SHARE));
+
+  for (let hh = 0; hh <= maxGoals; hh++) {
+    for (let ha = 0; ha <= maxGoals; ha++) {
+      const pHalf = first(hh, lambda) * first(ha, mu);
+      const ht = outcome(hh, ha);
+      for (let sh = 0; sh <= maxGoals; sh++) {
+        for (let sa = 0; sa <= maxGoals; sa++) {
+          const key = `${ht}-${outcome(hh + sh, ha + sa)}`;
+          cells[key] = (cells[key] || 0) + pHalf * second(sh, lambda) * second(sa, mu);
+        }
+      }
+    }
+  }
+
+  const keys: [keyof HTFTPrediction, string][] = [
+    ['homeHome', 'home-home'], ['homeDraw', 'home-draw'], ['homeAway', 'home-away'],
+    ['drawHome', 'draw-home'], ['drawDraw', 'draw-draw'], ['drawAway', 'draw-away'],
+    ['awayHome', 'away-home'], ['awayDraw', 'away-draw'], ['awayAway', 'away-away']
+  ];
+  const percentages = toPercentages(keys.map(([, cell]) => cells[cell] || 0));
+  const result = {} as HTFTPrediction;
+  keys.forEach(([key], i) => { result[key] = percentages[i]; });
+  return result;
+};
+
+/**
+ * Every market in the Prediction shape, derived from one score matrix
+ */
+export const predictionFromScoreMatrix = (matrix: ScoreMatrix, lambda: number, mu: number): Prediction => {
+  let home = 0, draw = 0, away = 0, under25 = 0, btts = 0;
+  let zeroToOne = 0, twoToThree = 0, fourPlus = 0, homeClean = 0, awayClean = 0;
+  let best = { h: 0, a: 0, p: -1 };
+
+  matrix.forEach((row, h) => row.forEach((p, a) => {
+    if (h > a) home += p; else if (h === a) draw += p; else away += p;
+    const total = h + a;
+    if (total <= 2) under25 += p;
+    if (h > 0 && a > 0) btts += p;
+    if (total <= 1) zeroToOne += p; else if (total <= 3) twoToThree += p; else fourPlus += p;
+    if (a === 0) homeClean += p;
+    if (h === 0) awayClean += p;
+    if (p > best.p) best = { h, a, p };
+  }));
+
+  const [homeWinProbability, drawProbability, awayWinProbability] = toPercentages([home, draw, away]);
+  const [overProbability, underProbability] = toPercentages([1 - under25, under25]);
+  const [yesProbability, noProbability] = toPercentages([btts, 1 - btts]);
+  const [zo, tt, fp] = toPercentages([zeroToOne, twoToThree, fourPlus]);
+  const noGoal = matrix[0][0];
+  const [firstHome, firstAway, firstNone] = toPercentages([
+    (1 - noGoal) * lambda / (lambda + mu),
+    (1 - noGoal) * mu / (lambda + mu),
+    noGoal
+  ]);
+  const top = Math.max(home, draw, away);
+
+  return {
+    homeWinProbability,
+    drawProbability,
+    awayWinProbability,
+    predictedScoreline: `${best.h}-${best.a}`,
+    confidence: top >= 0.55 ? ConfidenceLevel.High : top >= 0.42 ? ConfidenceLevel.Medium : ConfidenceLevel.Low,
+    goalLine: { line: 2.5, overProbability, underProbability },
+    btts: { yesProbability, noProbability },
+    htft: halfTimeFullTime(lambda, mu),
+    scoreRange: { zeroToOne: zo, twoToThree: tt, fourPlus: fp },
+    firstGoalscorer: { homeTeam: firstHome, awayTeam: firstAway, noGoalscorer: firstNone },
+    cleanSheet: { homeTeam: Math.round(homeClean * 100), awayTeam: Math.round(awayClean * 100) },
+    expectedGoals: { homeXg: Math.round(lambda * 100) / 100, awayXg: Math.round(mu * 100) / 100 },
+    modelWeights: { xgboost: 0, poisson: 100, neuralNet: 0, bayesian: 0 }
+  };
+};
+
+/**
+ * Fit attack/defence strengths (Maher-style iterative maximum likelihood with time
+ * weights and shrinkage), then the Dixon-Coles ρ by a bounded line search.
+ */
+export const fitDixonColes = (
+  results: EloResultInput[],
+  options: Partial<DixonColesOptions> = {}
+): DixonColesParameters => {
+  const opts = { ...DEFAULT_DIXON_COLES_OPTIONS, ...options };
+  const valid = results.filter(r =>
+    r.homeTeam && r.awayTeam && Number.isFinite(r.homeScore) && Number.isFinite(r.awayScore)
+  );
+
+  const latest = valid.reduce((max, r) => Math.max(max, new Date(r.date).getTime() || 0), 0);
+  const reference = opts.referenceDate ? new Date(opts.referenceDate).getTime() : latest;
+  const weighted = valid
+    .map(r => {
+      const ageDays = Math.max(0, (reference - (new Date(r.date).getTime() || reference)) / DAY_MS);
+      return { ...r, w: Math.exp(-opts.timeDecay * ageDays) };
+    })
+    .filter(r => r.w > 1e-6 && new Date(r.date).getTime() <= reference);
+
+  const teams = Array.from(new Set(weighted.flatMap(r => [r.homeTeam, r.awayTeam])));
+  const teamMatchCounts: Record<string, number> = {};
+  weighted.forEach(r => {
+    teamMatchCounts[r.homeTeam] = (teamMatchCounts[r.homeTeam] || 0) + 1;
+    teamMatchCounts[r.awayTeam] = (teamMatchCounts[r.awayTeam] || 0) + 1;
+  });
+
+  const totalWeight = weighted.reduce((sum, r) => sum + r.w, 0);
+  const averageGoals = totalWeight > 0
+    ? weighted.reduce((sum, r) => sum + r.w * (r.homeScore + r.awayScore), 0) / (2 * totalWeight)
+    : 1.35;
+
+  const attack: Record<string, number> = {};
+  const defence: Record<string, number> = {};
+  teams.forEach(t => { attack[t] = averageGoals; defence[t] = 1; });
+  let homeAdvantage = 1.25;
+  const prior = opts.priorMatches;
+
+  for (let iter = 0; iter < opts.iterations; iter++) {
+    let maxChange = 0;
+
+    // Attack: goals scored over expected goals given opponents' defence
+    const attackNum: Record<string, number> = {};
+    const attackDen: Record<string, number> = {};
+    teams.forEach(t => { attackNum[t] = prior * averageGoals; attackDen[t] = prior; });
+    for (const r of weighted) {
+      attackNum[r.homeTeam] += r.w * r.homeScore;
+      attackDen[r.homeTeam] += r.w * defence[r.awayTeam] * homeAdvantage;
+      attackNum[r.awayTeam] += r.w * r.awayScore;
+      attackDen[r.awayTeam] += r.w * defence[r.homeTeam];
+    }
+    teams.forEach(t => {
+      const next = attackNum[t] / attackDen[t];
+      maxChange = Math.max(maxChange, Math.abs(next - attack[t]));
+      attack[t] = next;
+    });
+
+    // Defence: goals conceded over opponents' attack
+    const defenceNum: Record<string, number> = {};
+    const defenceDen: Record<string, number> = {};
+    teams.forEach(t => { defenceNum[t] = prior * averageGoals; defenceDen[t] = prior * averageGoals; });
+    for (const r of weighted) {
+      defenceNum[r.awayTeam] += r.w * r.homeScore;
+      defenceDen[r.awayTeam] += r.w * attack[r.homeTeam] * homeAdvantage;
+      defenceNum[r.homeTeam] += r.w * r.awayScore;
+      defenceDen[r.homeTeam] += r.w * attack[r.awayTeam];
+    }
+    teams.forEach(t => {
+      const next = defenceNum[t] / defenceDen[t];
+      maxChange = Math.max(maxChange, Math.abs(next - defence[t]));
+      defence[t] = next;
+    });
+
+    // Identifiability: mean defence of 1, scale moved into attack
+    if (teams.length > 0) {
+      const meanDefence = teams.reduce((sum, t) => sum + defence[t], 0) / teams.length;
+      teams.forEach(t => { defence[t] /= meanDefence; attack[t] *= meanDefence; });
+    }
+
+    // Home advantage
+    let homeNum = 0, homeDen = 0;
+    for (const r of weighted) {
+      homeNum += r.w * r.homeScore;
+      homeDen += r.w * attack[r.homeTeam] * defence[r.awayTeam];
+    }
+    if (homeDen > 0 && homeNum > 0) {
+      const next = homeNum / homeDen;
+      maxChange = Math.max(maxChange, Math.abs(next - homeAdvantage));
+      homeAdvantage = next;
+    }
+
+    if (maxChange < opts.tolerance) break;
+  }
+
+  // ρ: maximise the τ part of the likelihood (the Poisson part does not depend on it)
+  const tauLogLikelihood = (rho: number): number => {
+    let ll = 0;
+    for (const r of weighted) {
+      if (r.homeScore > 1 || r.awayScore > 1) continue;
+      const lambda = attack[r.homeTeam] * defence[r.awayTeam] * homeAdvantage;
+      const mu = attack[r.awayTeam] * defence[r.homeTeam];
+      const tau = lowScoreCorrection(r.homeScore, r.awayScore, lambda, mu, rho);
+      if (tau <= 0) return -Infinity;
+      ll += r.w * Math.log(tau);
+    }
+    return ll;
+  };
+
+  let rho = 0;
+  let bestLl = tauLogLikelihood(0);
+  for (let candidate = -0.25; candidate <= 0.25 + 1e-9; candidate += 0.005) {
+    const ll = tauLogLikelihood(candidate);
+    if (ll > bestLl + 1e-12) {
+      bestLl = ll;
+      rho = Math.round(candidate * 1000) / 1000;
+    }
+  }
+
+  return {
+    attack,
+    defence,
+    homeAdvantage,
+    rho,
+    averageGoals,
+    matchCount: weighted.length,
+    teamMatchCounts,
+    fittedAt: new Date().toISOString()
+  };
+};
+
+export const expectedGoalsFor = (
+  params: DixonColesParameters,
+  homeTeam: string,
+  awayTeam: string
+): { lambda: number; mu: number } => {
+  const attackOf = (t: string) => params.attack[t] ?? params.averageGoals;
+  const defenceOf = (t: string) => params.defence[t] ?? 1;
+  return {
+    lambda: attackOf(homeTeam) * defenceOf(awayTeam) * params.homeAdvantage,
+    mu: attackOf(awayTeam) * defenceOf(homeTeam)
+  };
+};
+
+export const predictWithDixonColes = (
+  params: DixonColesParameters,
+  match: Pick<Match, 'homeTeam' | 'awayTeam'>,
+  maxGoals: number = DEFAULT_DIXON_COLES_OPTIONS.maxGoals
+): Prediction => {
+  const { lambda, mu } = expectedGoalsFor(params, match.homeTeam, match.awayTeam);
+  const prediction = predictionFromScoreMatrix(buildScoreMatrix(lambda, mu, params.rho, maxGoals), lambda, mu);
+
+  const homeMatches = params.teamMatchCounts[match.homeTeam] || 0;
+  const awayMatches = params.teamMatchCounts[match.awayTeam] || 0;
+  const fewest = Math.min(homeMatches, awayMatches);
+  const dataQuality: 'High' | 'Medium' | 'Low' = fewest >= 15 ? 'High' : fewest >= 5 ? 'Medium' : 'Low';
+  const relative = (value: number) => (value / params.averageGoals).toFixed(2);
+
+  return {
+    ...prediction,
+    confidence: dataQuality === 'Low' ? ConfidenceLevel.Low : prediction.confidence,
+    keyFactors: [{
+      category: 'Dixon-Coles Model',
+      points: [
+        `${match.homeTeam} attack ${relative(params.attack[match.homeTeam] ?? params.averageGoals)}, defence ${(params.defence[match.homeTeam] ?? 1).toFixed(2)} (${homeMatches} results)`,
+        `${match.awayTeam} attack ${relative(params.attack[match.awayTeam] ?? params.averageGoals)}, defence ${(params.defence[match.awayTeam] ?? 1).toFixed(2)} (${awayMatches} results)`,
+        `Home advantage ×${params.homeAdvantage.toFixed(2)}, low-score correction ρ=${params.rho}`
+      ]
+    }],
+    uncertaintyMetrics: {
+      predictionVariance: Math.round(Math.min(100, 100 / Math.sqrt(1 + fewest))),
+      dataQuality,
+      modelAgreement: 100
+    }
+  };
+};
+
+/**
+ * Keeps a fitted model over the shared results store and refits when new results arrive
+ */
+export class DixonColesService {
+  private params: DixonColesParameters | null = null;
+  private fittedOn = '';
+
+  constructor(private options: Partial<DixonColesOptions> = {}) {}
+
+  getParameters(): DixonColesParameters {
+    const results = eloRatingService.getResults();
+    const signature = `${results.length}:${results[results.length - 1]?.id || ''}`;
+    if (!this.params || this.fittedOn !== signature) {
+      this.params = fitDixonColes(results, this.options);
+      this.fittedOn = signature;
+      console.log(`📐 Dixon-Coles fitted on ${this.params.matchCount} results (ρ=${this.params.rho})`);
+    }
+    return this.params;
+  }
+
+  predictMatch(match: Pick<Match, 'homeTeam' | 'awayTeam'>): Prediction {
+    return predictWithDixonColes(this.getParameters(), match, this.options.maxGoals);
+  }
+}
+
+export const dixonColesService = new DixonColesService();
@@ -0,0 +1,389 @@
+import { League, PastPrediction } from '../types';
+import { getFinishedFixtures, FinishedFixture } from './footballApiService';
+import { clientStore } from './clientStore';
+
+/**
+ * Elo rating engine
+ * Replays finished results (API fixtures + stored prediction history) into
+ * per-team ratings with home advantage, goal-difference K scaling,
+ * between-season regression and per-league starting ratings.
+ */
+
+export interface EloConfig {
+  kFactor: number;            // Base K for a one-goal (or drawn) result
+  homeAdvantage: number;      // Rating points added to the home side when computing expectations
+  seasonRegression: number;   // Share of distance to the league baseline removed per new season (0-1)
+  defaultRating: number;      // Rating for teams in leagues without a configured start
+  leagueStartingRatings: Partial<Record<League, number>>;
+  calendarYearLeagues: League[]; // Leagues whose seasons run January-December
+  maxStoredResults: number;
+  persist: boolean;           // Keep results in the client store (eloResults); false keeps the engine in memory only
+}
+
+export interface EloResultInput {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  date: string; // ISO 8601
+  league?: League | string | null;
+}
+
+export interface EloHistoryPoint {
+  matchId: string;
+  date: string;
+  season: number;
+  opponent: string;
+  home: boolean;
+  score: string;       // From this team's perspective, e.g. "2-1"
+  ratingBefore: number;
+  rating: number;
+  change: number;
+}
+
+export interface TeamEloRecord {
+  team: string;
+  rating: number;
+  league?: League | string;
+  season: number;
+  matchesPlayed: number;
+  lastMatchDate?: string;
+  history: EloHistoryPoint[];
+}
+
+export interface EloMatchRatings {
+  homeElo: number;
+  awayElo: number;
+  eloDifference: number;
+  winProbabilityFromElo: number; // Expected home score including home advantage (0-1)
+}
+
+const UEFA_COMPETITIONS: string[] = [
+  League.ChampionsLeague,
+  League.EuropaLeague,
+  League.EuropaConferenceLeague,
+  League.AFCChampionsLeague,
+  League.CopaLibertadores
+];
+
+const FINISHED_STATUSES = ['FT', 'AET', 'PEN', 'finished', 'completed'];
+
+export const DEFAULT_ELO_CONFIG: EloConfig = {
+  kFactor: 20,
+  homeAdvantage: 65,
+  seasonRegression: 0.2,
+  defaultRating: 1400,
+  leagueStartingRatings: {
+    [League.PremierLeague]: 1600,
+    [League.LaLiga]: 1580,
+    [League.Bundesliga]: 1570,
+    [League.SerieA]: 1570,
+    [League.Ligue1]: 1540,
+    [League.PrimeiraLiga]: 1500,
+    [League.Eredivisie]: 1500,
+    [League.BelgianProLeague]: 1470,
+    [League.SuperLig]: 1460,
+    [League.ScottishPremiership]: 1430,
+    [League.GreekSuperLeague1]: 1420,
+    [League.Championship]: 1480,
+    [League.LeagueOne]: 1400,
+    [League.LeagueTwo]: 1340,
+    [League.Bundesliga2]: 1450,
+    [League.SerieB]: 1430,
+    [League.SegundaDivision]: 1440,
+    [League.Ligue2]: 1420,
+    [League.LigaPortugal2]: 1360,
+    [League.BrasileiraoSerieA]: 1500,
+    [League.ArgentineLigaProfesional]: 1470,
+    [League.LigaMX]: 1450,
+    [League.MLS]: 1420,
+    [League.ALeague]: 1360,
+    [League.ColombiaPrimeraA]: 1400,
+    [League.ChilePrimeraDivision]: 1380,
+    [League.ChampionsLeague]: 1560,
+    [League.EuropaLeague]: 1500,
+    [League.EuropaConferenceLeague]: 1450
+  },
+  calendarYearLeagues: [
+    League.BrasileiraoSerieA,
+    League.ArgentineLigaProfesional,
+    League.MLS,
+    League.NWSL,
+    League.ColombiaPrimeraA,
+    League.ChilePrimeraDivision,
+    League.CopaLibertadores
+  ],
+  maxStoredResults: 5000,
+  persist: true
+};
+
+// Goal-difference multiplier (World Football Elo convention)
+export const goalDifferenceMultiplier = (goalDifference: number): number => {
+  const gd = Math.abs(goalDifference);
+  if (gd <= 1) return 1;
+  if (gd === 2) return 1.5;
+  return (11 + gd) / 8;
+};
+
+export const expectedScore = (ratingA: number, ratingB: number): number => {
+  return 1 / (1 + Math.pow(10, -(ratingA - ratingB) / 400));
+};
+
+export class EloRatingService {
+  private config: EloConfig;
+  private results: EloResultInput[] = [];
+  private teams: Map<string, TeamEloRecord> = new Map();
+  private loaded = false;
+
+  constructor(config: Partial<EloConfig> = {}) {
+    this.config = {
+      ...DEFAULT_ELO_CONFIG,
+      ...config,
+      leagueStartingRatings: { ...DEFAULT_ELO_CONFIG.leagueStartingRatings, ...(config.leagueStartingRatings || {}) }
+    };
+  }
+
+  /**
+   * Season a match belongs to (European seasons start in July)
+   */
+  getSeason(date: string, league?: League | string | null): number {
+    const d = new Date(date);
+    const year = d.getUTCFullYear();
+    if (league && this.config.calendarYearLeagues.includes(league as League)) {
+      return year;
+    }
+    return d.getUTCMonth() + 1 >= 7 ? year : year - 1;
+  }
+
+  getStartingRating(league?: League | string | null): number {
+    if (!league) return this.config.defaultRating;
+    return this.config.leagueStartingRatings[league as League] ?? this.config.defaultRating;
+  }
+
+  /**
+   * Add finished results and rebuild ratings. Results are de-duplicated by match id,
+   * so replaying the same source repeatedly is safe.
+   */
+  ingestResults(results: EloResultInput[]): number {
+    this.ensureLoaded();
+    const known = new Set(this.results.map(r => r.id));
+    const fresh = results.filter(r =>
+      r && r.id && r.homeTeam && r.awayTeam && r.date &&
+      Number.isFinite(r.homeScore) && Number.isFinite(r.awayScore) &&
+      !known.has(r.id)
+    );
+
+    if (fresh.length === 0) return 0;
+
+    this.results = [...this.results, ...fresh]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .slice(-this.config.maxStoredResults);
+
+    this.rebuild();
+    this.persist();
+    // In-memory engines (backtests) ingest one fixture at a time; only the app's engine reports
+    if (this.config.persist) console.log(`📈 Elo: ingested ${fresh.length} new results (${this.results.length} total)`);
+    return fresh.length;
+  }
+
+  ingestFinishedFixtures(fixtures: FinishedFixture[]): number {
+    return this.ingestResults(
+      fixtures
+        .filter(f => FINISHED_STATUSES.includes(f.status) && f.homeTeam && f.awayTeam && f.date)
+        .map(f => ({
+          id: f.id,
+          homeTeam: f.homeTeam!,
+          awayTeam: f.awayTeam!,
+          homeScore: f.homeScore,
+          awayScore: f.awayScore,
+          date: f.date!,
+          league: f.league
+        }))
+    );
+  }
+
+  ingestPastPredictions(pastPredictions: PastPrediction[]): number {
+    return this.ingestResults(
+      pastPredictions
+        .filter(p => p.actualResult)
+        .map(p => ({
+          id: p.id,
+          homeTeam: p.homeTeam,
+          awayTeam: p.awayTeam,
+          homeScore: p.actualResult.homeScore,
+          awayScore: p.actualResult.awayScore,
+          date: p.date,
+          league: p.league
+        }))
+    );
+  }
+
+  /**
+   * Fetch recently finished fixtures from the football API and replay them
+   */
+  async syncFromFinishedFixtures(daysBack: number = 3): Promise<number> {
+    try {
+      const fixtures = await getFinishedFixtures(daysBack);
+      return this.ingestFinishedFixtures(fixtures);
+    } catch (error) {
+      console.warn('Elo sync from finished fixtures failed:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Stored finished results in chronological order (shared with other models)
+   */
+  getResults(): EloResultInput[] {
+    this.ensureLoaded();
+    return [...this.results];
+  }
+
+  getRating(team: string, league?: League | string | null): number {
+    this.ensureLoaded();
+    return this.teams.get(team)?.rating ?? this.getStartingRating(league);
+  }
+
+  getTeamRecord(team: string): TeamEloRecord | null {
+    this.ensureLoaded();
+    return this.teams.get(team) || null;
+  }
+
+  getRatingHistory(team: string, limit?: number): EloHistoryPoint[] {
+    const history = this.getTeamRecord(team)?.history || [];
+    return limit ? history.slice(-limit) : [...history];
+  }
+
+  /**
+   * Ratings table, optionally restricted to one league, strongest first
+   */
+  getRankings(league?: League | string): TeamEloRecord[] {
+    this.ensureLoaded();
+    return Array.from(this.teams.values())
+      .filter(t => !league || t.league === league)
+      .sort((a, b) => b.rating - a.rating);
+  }
+
+  getMatchRatings(homeTeam: string, awayTeam: string, league?: League | string | null): EloMatchRatings {
+    const homeElo = Math.round(this.getRating(homeTeam, league));
+    const awayElo = Math.round(this.getRating(awayTeam, league));
+    return {
+      homeElo,
+      awayElo,
+      eloDifference: homeElo - awayElo,
+      winProbabilityFromElo: expectedScore(homeElo + this.config.homeAdvantage, awayElo)
+    };
+  }
+
+  reset(): void {
+    this.results = [];
+    this.teams.clear();
+    this.loaded = true;
+    this.persist();
+  }
+
+  private rebuild(): void {
+    this.teams.clear();
+    for (const result of this.results) {
+      this.applyResult(result);
+    }
+  }
+
+  private getOrCreateTeam(team: string, league: League | string | null | undefined, season: number): TeamEloRecord {
+    let record = this.teams.get(team);
+    const isContinental = !!league && UEFA_COMPETITIONS.includes(league);
+
+    if (!record) {
+      record = {
+        team,
+        rating: this.getStartingRating(league),
+        league: isContinental ? undefined : (league || undefined),
+        season,
+        matchesPlayed: 0,
+        history: []
+      };
+      this.teams.set(team, record);
+      return record;
+    }
+
+    // Domestic league wins over continental competition for baseline purposes
+    if (league && !isContinental) {
+      record.league = league;
+    }
+
+    if (season > record.season) {
+      const baseline = this.getStartingRating(record.league);
+      const keep = Math.pow(1 - this.config.seasonRegression, season - record.season);
+      record.rating = baseline + (record.rating - baseline) * keep;
+      record.season = season;
+    }
+
+    return record;
+  }
+
+  private applyResult(result: EloResultInput): void {
+    const season = this.getSeason(result.date, result.league);
+    const home = this.getOrCreateTeam(result.homeTeam, result.league, season);
+    const away = this.getOrCreateTeam(result.awayTeam, result.league, season);
+
+    const expectedHome = expectedScore(home.rating + this.config.homeAdvantage, away.rating);
+    const actualHome = result.homeScore > result.awayScore ? 1 : result.homeScore === result.awayScore ? 0.5 : 0;
+    const k = this.config.kFactor * goalDifferenceMultiplier(result.homeScore - result.awayScore);
+    const change = k * (actualHome - expectedHome);
+
+    const homeBefore = home.rating;
+    const awayBefore = away.rating;
+    home.rating = homeBefore + change;
+    away.rating = awayBefore - change;
+
+    home.matchesPlayed++;
+    away.matchesPlayed++;
+    home.lastMatchDate = result.date;
+    away.lastMatchDate = result.date;
+
+    home.history.push({
+      matchId: result.id,
+      date: result.date,
+      season,
+      opponent: result.awayTeam,
+      home: true,
+      score: `${result.homeScore}-${result.awayScore}`,
+      ratingBefore: homeBefore,
+      rating: home.rating,
+      change
+    });
+    away.history.push({
+      matchId: result.id,
+      date: result.date,
+      season,
+      opponent: result.homeTeam,
+      home: false,
+      score: `${result.awayScore}-${result.homeScore}`,
+      ratingBefore: awayBefore,
+      rating: away.rating,
+      change: -change
+    });
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.config.persist) return;
+    this.adopt(clientStore.get('eloResults'));
+    // Results hydrated from IndexedDB (or merged with them) arrive after the first read
+    clientStore.subscribe('eloResults', results => this.adopt(results));
+  }
+
+  private adopt(results: EloResultInput[]): void {
+    if (results === this.results || !Array.isArray(results)) return;
+    this.results = results.slice(-this.config.maxStoredResults);
+    this.rebuild();
+  }
+
+  private persist(): void {
+    if (this.config.persist) clientStore.set('eloResults', this.results);
+  }
+}
+
+export const eloRatingService = new EloRatingService();
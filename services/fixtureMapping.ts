@@ -0,0 +1,116 @@
+import { League, Match } from '../types';
+import { resolveTeamName } from './teamDataService';
+
+/**
+ * API-Football fixtures as the app's Match objects. Shared by footballApiService
+ * (what Fixtures.tsx renders) and the cron worker's calendar feeds, so both
+ * agree on team names, leagues and statuses.
+ *
+ * Runtime-neutral: no DOM or Workers APIs.
+ */
+
+// League IDs mapping for API-Football.com
+export const LEAGUE_IDS = {
+  'Premier League': 39,
+  'La Liga': 140,
+  'Serie A': 135,
+  'Bundesliga': 78,
+  'Ligue 1': 61,
+  'UEFA Champions League': 2,
+  'UEFA Europa League': 3,
+  'UEFA Europa Conference League': 848,
+  'EFL Championship': 40,
+  'EFL League One': 41,
+  'EFL League Two': 42,
+  'Brasileirão Série A': 71,
+  'Argentine Liga Profesional': 128,
+  'Eredivisie': 88,
+  'Primeira Liga': 94,
+  'Scottish Premiership': 179,
+  // Newly added leagues
+  'Süper Lig': 203, // Turkey Super Lig
+  'Liga MX': 262,    // Mexico Liga MX
+  'Major League Soccer': 253, // USA MLS
+  // Second divisions (IDs according to API-Football)
+  '2. Bundesliga': 79,
+  'Ligue 2': 62,
+  'Serie B': 136,
+  'Segunda División': 141,
+  'Liga Portugal 2': 97,
+  // Additional top divisions
+  'Belgian Pro League': 144,
+  'A-League': 188,
+  'Super League 1': 197,
+  'Primera A': 279,
+  'Primera División': 265,
+  'FA WSL': 100,
+  'NWSL': 254,
+  'AFC Champions League': 11,
+  'Copa Libertadores': 13
+};
+
+// The parts of an API-Football /fixtures item read here
+export interface ApiFootballFixture {
+  fixture: {
+    id: number;
+    date: string;
+    venue?: { name?: string | null; city?: string | null };
+    status?: { short?: string };
+  };
+  league: { id: number; name: string };
+  teams: { home: { id?: number; name: string }; away: { id?: number; name: string } };
+  goals?: { home: number | null; away: number | null };
+}
+
+// Resolve an API league ID back to our League enum value (null for untracked competitions)
+export const getLeagueById = (leagueId: number): League | null => {
+  const entry = Object.entries(LEAGUE_IDS).find(([, id]) => id === leagueId);
+  return entry ? (entry[0] as League) : null;
+};
+
+/**
+ * API-Football short status codes as Match statuses
+ */
+export const toMatchStatus = (short?: string): Match['status'] => {
+  switch (short) {
+    case '1H': case '2H': case 'ET': case 'P': case 'BT': case 'LIVE': return 'LIVE';
+    case 'HT': return 'HT';
+    case 'FT': case 'AET': case 'PEN': return 'FT';
+    case 'CANC': return 'CANC';
+    case 'PST': return 'POSTP';
+    case 'SUSP': case 'INT': return 'SUSP';
+    case 'ABD': return 'abandoned';
+    case 'TBD': return 'TBD';
+    default: return 'NS';
+  }
+};
+
+/**
+ * One fixture as a Match; `league` overrides the league looked up from the
+ * fixture (for competitions outside LEAGUE_IDS). Null for malformed items.
+ */
+export const apiFixtureToMatch = (item: ApiFootballFixture, league?: League): Match | null => {
+  if (!item?.fixture || !item.teams?.home || !item.teams?.away) return null;
+
+  // Partial payloads without a status stay without one rather than reading as not started
+  const status = item.fixture.status?.short ? toMatchStatus(item.fixture.status.short) : undefined;
+  const started = status === 'LIVE' || status === 'HT' || status === 'FT';
+  return {
+    id: item.fixture.id.toString(),
+    homeTeam: resolveTeamName(item.teams.home.name),
+    awayTeam: resolveTeamName(item.teams.away.name),
+    homeTeamId: item.teams.home.id,
+    awayTeamId: item.teams.away.id,
+    league: league || getLeagueById(item.league?.id) || (item.league?.name as League),
+    date: item.fixture.date,
+    venue: item.fixture.venue?.name || undefined,
+    status,
+    ...(started && item.goals ? { homeScore: item.goals.home ?? 0, awayScore: item.goals.away ?? 0 } : {})
+  };
+};
+
+/**
+ * API-Football season for a date: European seasons start in August
+ */
+export const seasonForDate = (date: Date = new Date()): number =>
+  date.getUTCMonth() + 1 >= 8 ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
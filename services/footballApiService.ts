@@ -1,7 +1,12 @@
-import { Match, Team, LeagueTableRow, League, Player, TeamSeasonStats, MatchResult, Transfer, Injury } from '../types';
+import { Match, Team, LeagueTableRow, League, Player, TeamSeasonStats, MatchResult, Transfer, Injury, MatchEvent, FixtureStatistics } from '../types';
 import { nowLondonDateString, formatDateYYYYMMDDLondon, isSameLondonDay } from '../utils/timezone';
 import { resolveTeamName, getTeamData, isKnownTeam } from './teamDataService';
 import { errorTrackingService } from './errorTrackingService';
+import { mapFixtureEvents } from './liveFeed';
+import { ApiCache, ApiCacheBackend, ApiCacheCategory, ApiCacheEntry, CACHE_POLICIES, cacheKeyFor, categorizeEndpoint } from './apiCache';
+import { ApiQuotaPlanner } from './apiQuotaPlanner';
+import { clientStore } from './clientStore';
+import { LEAGUE_IDS, apiFixtureToMatch, getLeagueById } from './fixtureMapping';
 
 // API-Football.com configuration
 const API_BASE_URL = 'https://v3.football.api-sports.io';
@@ -10,6 +15,8 @@ const VERCEL_API_BASE = '/api/proxy'; // Vercel serverless function
 const CLOUDFLARE_API_BASE = '/api/proxy'; // Cloudflare Pages function
 const DIRECT_BASE_URL = 'https://v3.football.api-sports.io';
 const CORS_PROXY_URL = 'https://api.allorigins.win/raw?url=';
+// Local API-Football stand-in (npm run api:fake) for offline development; dev builds only
+const LOCAL_API_BASE_URL = !((import.meta as any).env?.PROD) ? (import.meta as any).env?.VITE_API_FOOTBALL_BASE_URL : undefined;
 // Simplified and robust API key detection
 const API_KEY = (() => {
   const defaultKey = '89e32953fd6a91a630144cf150bcf151';
@@ -76,14 +83,23 @@ console.log('🔍 Football API Key check:', {
   keyLength: API_KEY?.length || 0
 });
 
-// API usage tracking
-let apiCallCount = 0;
+// API usage tracking: a daily plan that keeps budget back for kickoff-critical calls
 const MAX_DAILY_CALLS = 75000;
 const BUDGET_SOFT_LIMIT_PERCENT = 0.8; // More conservative to stay under quota
 
-export const hasBudget = (estimatedCalls: number = 1): boolean => {
-  const budget = (apiCallCount + estimatedCalls) <= Math.floor(MAX_DAILY_CALLS * BUDGET_SOFT_LIMIT_PERCENT);
-  console.log(`🔍 Budget check: ${apiCallCount}/${Math.floor(MAX_DAILY_CALLS * BUDGET_SOFT_LIMIT_PERCENT)} calls used, ${budget ? 'HAS' : 'NO'} budget for ${estimatedCalls} more calls`);
+const quotaPlanner = new ApiQuotaPlanner(
+  { dailyLimit: MAX_DAILY_CALLS, softLimitRatio: BUDGET_SOFT_LIMIT_PERCENT },
+  {
+    load: () => clientStore.get('apiQuota'),
+    save: usage => clientStore.set('apiQuota', usage)
+  }
+);
+clientStore.ready().then(() => quotaPlanner.reload());
+
+export const hasBudget = (estimatedCalls: number = 1, category: ApiCacheCategory = 'fixtures'): boolean => {
+  const budget = quotaPlanner.canSpend(category, estimatedCalls);
+  const plan = quotaPlanner.getPlan();
+  console.log(`🔍 Budget check: ${plan.used}/${plan.softLimit} calls used (${plan.reserved.total} reserved), ${budget ? 'HAS' : 'NO'} budget for ${estimatedCalls} more ${category} calls`);
   return budget;
 };
 
@@ -114,46 +130,6 @@ const getCurrentSeason = (): number => {
   return fallbackSeason;
 };
 
-// League IDs mapping for API-Football.com
-const LEAGUE_IDS = {
-  'Premier League': 39,
-  'La Liga': 140,
-  'Serie A': 135,
-  'Bundesliga': 78,
-  'Ligue 1': 61,
-  'UEFA Champions League': 2,
-  'UEFA Europa League': 3,
-  'UEFA Europa Conference League': 848,
-  'EFL Championship': 40,
-  'EFL League One': 41,
-  'EFL League Two': 42,
-  'Brasileirão Série A': 71,
-  'Argentine Liga Profesional': 128,
-  'Eredivisie': 88,
-  'Primeira Liga': 94,
-  'Scottish Premiership': 179,
-  // Newly added leagues
-  'Süper Lig': 203, // Turkey Super Lig
-  'Liga MX': 262,    // Mexico Liga MX
-  'Major League Soccer': 253, // USA MLS
-  // Second divisions (IDs according to API-Football)
-  '2. Bundesliga': 79,
-  'Ligue 2': 62,
-  'Serie B': 136,
-  'Segunda División': 141,
-  'Liga Portugal 2': 97,
-  // Additional top divisions
-  'Belgian Pro League': 144,
-  'A-League': 188,
-  'Super League 1': 197,
-  'Primera A': 279,
-  'Primera División': 265,
-  'FA WSL': 100,
-  'NWSL': 254,
-  'AFC Champions League': 11,
-  'Copa Libertadores': 13
-};
-
 // Optional country hints to disambiguate dynamic league lookups
 const LEAGUE_COUNTRIES: Record<string, string> = {
   'Premier League': 'England',
@@ -246,31 +222,70 @@ const findLeagueIdByName = async (leagueName: string): Promise<number | null> =>
   }
 };
 
-// Cache for API data - optimized for 7500 daily calls
-const cache = new Map<string, { data: any, timestamp: number }>();
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour for fixtures and tables with higher budget
-const TEAM_CACHE_DURATION = 12 * 60 * 60 * 1000; // 12 hours for team data
+// Cache for API data: per-endpoint TTLs, persisted through the client store so it survives reloads
+const MAX_PERSISTED_RESPONSES = 200;
+
+const clientStoreCacheBackend: ApiCacheBackend = {
+  get: async key => {
+    await clientStore.ready();
+    return clientStore.get('apiCache')[key] || null;
+  },
+  set: async (key, entry) => {
+    const now = Date.now();
+    clientStore.update('apiCache', responses => {
+      const kept = Object.entries({ ...responses, [key]: entry })
+        .filter(([, cached]) => {
+          const policy = CACHE_POLICIES[cached.category] || CACHE_POLICIES.other;
+          return now - cached.storedAt < policy.ttlMs + policy.staleMs;
+        })
+        .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+        .slice(0, MAX_PERSISTED_RESPONSES);
+      return Object.fromEntries(kept) as Record<string, ApiCacheEntry>;
+    });
+  },
+  clear: async () => clientStore.reset('apiCache')
+};
+
+const apiCache = new ApiCache({ backend: clientStoreCacheBackend });
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 const MAX_RETRIES = 3;
 const INITIAL_BACKOFF_MS = 1000; // 1s base backoff
 
 // Helper function to make API requests
-export const makeApiRequest = async (endpoint: string, params: Record<string, any> = {}): Promise<any> => {
+export const makeApiRequest = async (
+  endpoint: string,
+  params: Record<string, any> = {},
+  options: { forceRefresh?: boolean } = {}
+): Promise<any> => {
   console.log(`🌐 Making API request to ${endpoint} with params:`, params);
   if (!API_KEY) {
     console.error('🔴 API Key not configured');
     throw new Error('API-Football.com key not configured');
   }
 
-  const cacheKey = `${endpoint}-${JSON.stringify(params)}`;
-  
-  // Check cache first with appropriate duration
-  const cached = cache.get(cacheKey);
-  const cacheDuration = endpoint.includes('/teams') ? TEAM_CACHE_DURATION : CACHE_DURATION;
-  if (cached && (Date.now() - cached.timestamp) < cacheDuration) {
-    console.log(`Using cached data for ${endpoint}`);
-    return cached.data;
+  const cacheKey = cacheKeyFor(endpoint, params);
+  const category = categorizeEndpoint(endpoint, params);
+
+  try {
+    const { data, status } = await apiCache.fetch(cacheKey, category, () => fetchFromApi(endpoint, params, category), options);
+    if (status !== 'miss') console.log(`Using ${status} cached data for ${endpoint}`);
+    return data;
+  } catch (err: any) {
+    // Final failure: serve stale cache if available
+    const cached = await apiCache.peek(cacheKey);
+    if (cached) {
+      console.warn(`🟡 Returning STALE cache for ${endpoint} due to error: ${err?.message || err}`);
+      return cached.data;
+    }
+    throw err;
+  }
+};
+
+// Network request with retries; the cache above decides whether this runs
+const fetchFromApi = async (endpoint: string, params: Record<string, any>, category: ApiCacheCategory): Promise<any> => {
+  if (!quotaPlanner.canSpend(category)) {
+    throw new Error(`API budget: ${category} calls are over today's plan`);
   }
 
   // Choose the appropriate API endpoint based on environment
@@ -279,7 +294,15 @@ export const makeApiRequest = async (endpoint: string, params: Record<string, an
   const fetchOptions: RequestInit = { headers };
   let platform: 'LOCAL' | 'CLOUDFLARE' | 'VERCEL' | 'DIRECT' = 'LOCAL';
 
-  if (isCloudflare || (isProduction && !isVercel)) {
+  if (LOCAL_API_BASE_URL) {
+    // Use the local record/replay server
+    apiUrl = new URL(`${String(LOCAL_API_BASE_URL).replace(/\/+$/, '')}${endpoint}`);
+    Object.entries(params).forEach(([key, value]) => {
+      apiUrl.searchParams.append(key, value.toString());
+    });
+    platform = 'LOCAL';
+    console.log(`🔍 Using local API-Football stand-in: ${apiUrl.toString()}`);
+  } else if (isCloudflare || (isProduction && !isVercel)) {
     // Use Cloudflare Pages function
     apiUrl = new URL(`${CLOUDFLARE_API_BASE}${endpoint}`, window.location.origin);
     Object.entries(params).forEach(([key, value]) => {
@@ -338,9 +361,8 @@ export const makeApiRequest = async (endpoint: string, params: Record<string, an
           throw new Error('Invalid API payload');
         }
 
-        apiCallCount++;
-        console.log(`✅ API call #${apiCallCount}/${MAX_DAILY_CALLS} via ${platform} - ${endpoint}`);
-        cache.set(cacheKey, { data, timestamp: Date.now() });
+        quotaPlanner.recordCall(category);
+        console.log(`✅ API call #${quotaPlanner.totalUsed()}/${MAX_DAILY_CALLS} via ${platform} - ${endpoint}`);
         // Structured API log
         try {
           const elapsed = Date.now() - startedAt;
@@ -386,14 +408,7 @@ export const makeApiRequest = async (endpoint: string, params: Record<string, an
         continue;
       }
 
-      // Final failure: serve stale cache if available
-      if (cached) {
-        console.warn(`🟡 Returning STALE cache for ${endpoint} due to error: ${msg}`);
-        return cached.data;
-      }
-
-      // No cache to fall back to
-      console.error('🔴 API request failed (no cache fallback):', msg);
+      console.error('🔴 API request failed:', msg);
       // Map common errors to clearer messages
       if (/CORS/i.test(msg)) throw new Error('CORS error: API access blocked');
       if (isNetwork) throw new Error('Network error: Check connectivity or proxy');
@@ -500,21 +515,9 @@ export const getUpcomingFixtures = async (league: League, limit: number = 10): P
       return [];
     }
 
-    const fixtures = data.response.map((fixture: any) => {
-      if (!fixture.fixture || !fixture.teams || !fixture.teams.home || !fixture.teams.away) {
-        return null;
-      }
-
-      return {
-        id: fixture.fixture.id.toString(),
-        homeTeam: resolveTeamName(fixture.teams.home.name),
-        awayTeam: resolveTeamName(fixture.teams.away.name),
-        homeTeamId: fixture.teams.home.id,
-        awayTeamId: fixture.teams.away.id,
-        league: league,
-        date: fixture.fixture.date
-      };
-    }).filter((f: any) => f !== null);
+    const fixtures = data.response
+      .map((fixture: any) => apiFixtureToMatch(fixture, league))
+      .filter((f: Match | null): f is Match => f !== null);
 
     return fixtures.slice(0, limit);
   } catch (error) {
@@ -523,8 +526,26 @@ export const getUpcomingFixtures = async (league: League, limit: number = 10): P
   }
 };
 
+export { getLeagueById };
+
+export interface FinishedFixture {
+  id: string;
+  homeScore: number;
+  awayScore: number;
+  status: string;
+  // Team and competition details (used by rating engines replaying results)
+  homeTeam?: string;
+  awayTeam?: string;
+  homeTeamId?: number;
+  awayTeamId?: number;
+  league?: League | null;
+  date?: string;
+  homeScoreHT?: number;
+  awayScoreHT?: number;
+}
+
 // Get finished fixtures for accuracy checking
-export const getFinishedFixtures = async (daysBack: number = 3): Promise<{ id: string; homeScore: number; awayScore: number; status: string }[]> => {
+export const getFinishedFixtures = async (daysBack: number = 3): Promise<FinishedFixture[]> => {
   try {
     const endDate = new Date();
     const startDate = new Date();
@@ -546,11 +567,19 @@ export const getFinishedFixtures = async (daysBack: number = 3): Promise<{ id: s
       return [];
     }
     
-    const finishedMatches = data.response.map((fixture: any) => ({
+    const finishedMatches: FinishedFixture[] = data.response.map((fixture: any) => ({
       id: fixture.fixture.id.toString(),
       homeScore: fixture.goals.home || 0,
       awayScore: fixture.goals.away || 0,
-      status: fixture.fixture.status.short
+      status: fixture.fixture.status.short,
+      homeTeam: fixture.teams?.home?.name ? resolveTeamName(fixture.teams.home.name) : undefined,
+      awayTeam: fixture.teams?.away?.name ? resolveTeamName(fixture.teams.away.name) : undefined,
+      homeTeamId: fixture.teams?.home?.id,
+      awayTeamId: fixture.teams?.away?.id,
+      league: fixture.league?.id ? getLeagueById(fixture.league.id) : null,
+      date: fixture.fixture.date,
+      homeScoreHT: fixture.score?.halftime?.home ?? undefined,
+      awayScoreHT: fixture.score?.halftime?.away ?? undefined
     }));
     
     console.log(`📊 Found ${finishedMatches.length} finished matches in last ${daysBack} days`);
@@ -562,6 +591,56 @@ export const getFinishedFixtures = async (daysBack: number = 3): Promise<{ id: s
   }
 };
 
+// Goal, card and VAR events for a finished fixture
+export const getFixtureEvents = async (fixtureId: string, homeTeamId?: number): Promise<MatchEvent[]> => {
+  // Without a home id, the first team listed in the events is not reliable
+  if (!homeTeamId) return [];
+
+  const data = await makeApiRequest('/fixtures/events', { fixture: fixtureId });
+  if (!Array.isArray(data.response)) return [];
+
+  return mapFixtureEvents(fixtureId, data.response, homeTeamId);
+};
+
+// Corner and card totals for a finished fixture
+export const getFixtureStatistics = async (fixtureId: string, homeTeamId?: number): Promise<FixtureStatistics | null> => {
+  const data = await makeApiRequest('/fixtures/statistics', { fixture: fixtureId });
+  if (!Array.isArray(data.response) || data.response.length < 2) return null;
+
+  const home = data.response.find((t: any) => t.team?.id === homeTeamId) || data.response[0];
+  const away = data.response.find((t: any) => t !== home);
+  // Cards report null for none; corners report null when not tracked
+  const stat = (team: any, type: string, nullAsZero = false): number | undefined => {
+    const value = team?.statistics?.find((s: any) => s.type === type)?.value;
+    if (value === null && nullAsZero) return 0;
+    return typeof value === 'number' ? value : undefined;
+  };
+
+  return {
+    homeCorners: stat(home, 'Corner Kicks'),
+    awayCorners: stat(away, 'Corner Kicks'),
+    homeYellowCards: stat(home, 'Yellow Cards', true),
+    awayYellowCards: stat(away, 'Yellow Cards', true),
+    homeRedCards: stat(home, 'Red Cards', true),
+    awayRedCards: stat(away, 'Red Cards', true)
+  };
+};
+
+// Events and statistics for settling first-scorer, corner and card markets
+export const getFixtureSettlementData = async (fixtureId: string, homeTeamId?: number): Promise<{
+  events: MatchEvent[];
+  statistics: FixtureStatistics | null;
+}> => {
+  const [events, statistics] = await Promise.allSettled([
+    getFixtureEvents(fixtureId, homeTeamId),
+    getFixtureStatistics(fixtureId, homeTeamId)
+  ]);
+  return {
+    events: events.status === 'fulfilled' ? events.value : [],
+    statistics: statistics.status === 'fulfilled' ? statistics.value : null
+  };
+};
+
 // Get TODAY'S fixtures specifically for a league
 export const getTodaysFixtures = async (league: League): Promise<Match[]> => {
   let leagueId = getLeagueId(league);
@@ -581,22 +660,11 @@ export const getTodaysFixtures = async (league: League): Promise<Match[]> => {
       return [];
     }
 
-    const fixtures = data.response.map((fixture: any) => {
-      if (!fixture.fixture || !fixture.teams || !fixture.teams.home || !fixture.teams.away) {
-        return null;
-      }
+    const fixtures = data.response
+      .map((fixture: any) => apiFixtureToMatch(fixture, league))
+      .filter((f: Match | null): f is Match => f !== null);
 
-      return {
-        id: fixture.fixture.id.toString(),
-        homeTeam: resolveTeamName(fixture.teams.home.name),
-        awayTeam: resolveTeamName(fixture.teams.away.name),
-        homeTeamId: fixture.teams.home.id,
-        awayTeamId: fixture.teams.away.id,
-        league: league,
-        date: fixture.fixture.date
-      };
-    }).filter((f: any) => f !== null);
-    
+    quotaPlanner.registerFixtures(fixtures);
     return fixtures;
   } catch (error) {
     console.error(`Failed to fetch today's fixtures for ${league}:`, error);
@@ -677,22 +745,11 @@ export const getAllUpcomingFixtures = async (): Promise<Match[]> => {
           if (data.response && data.response.length > 0) {
             console.log(`🏆 FOUND ${data.response.length} ${comp.name} games TODAY!`);
             const fixtures = data.response.map((fixture: any) => {
+              const match = apiFixtureToMatch(fixture, comp.name as League);
               // Validate fixture structure
-              if (!fixture.fixture || !fixture.teams || !fixture.teams.home || !fixture.teams.away) {
-                console.error(`❌ Invalid fixture structure for ${comp.name}:`, fixture);
-                return null;
-              }
-
-              return {
-                id: fixture.fixture.id.toString(),
-                homeTeam: resolveTeamName(fixture.teams.home.name),
-                awayTeam: resolveTeamName(fixture.teams.away.name),
-                homeTeamId: fixture.teams.home.id,
-                awayTeamId: fixture.teams.away.id,
-                league: comp.name as any,
-                date: fixture.fixture.date
-              };
-            }).filter((f: any) => f !== null);
+              if (!match) console.error(`❌ Invalid fixture structure for ${comp.name}:`, fixture);
+              return match;
+            }).filter((f: Match | null): f is Match => f !== null);
             todaysFixtures.push(...fixtures);
           }
         } catch (error) {
@@ -752,6 +809,8 @@ export const getAllUpcomingFixtures = async (): Promise<Match[]> => {
     });
     
     const todaysCount = uniqueFixtures.filter(f => isSameLondonDay(new Date(f.date), now)).length;
+    // Reserve lineups/live/post-match calls around these kickoffs
+    quotaPlanner.registerFixtures(uniqueFixtures);
     
     console.log(`🎯 getAllUpcomingFixtures complete:`, {
       todaysGames: todaysCount,
@@ -799,7 +858,7 @@ export const getAllTeams = async (): Promise<{ [key: string]: Team }> => {
     const allTeams: { [key: string]: Team } = {};
     for (let i = 0; i < leagueIds.length; i++) {
       const leagueId = leagueIds[i];
-      if (!hasBudget()) {
+      if (!hasBudget(1, 'teams')) {
         console.warn('API budget soft limit reached; skipping remaining leagues for teams');
         break;
       }
@@ -1288,7 +1347,7 @@ export const getAllLeagueTables = async (): Promise<{ [key in League]?: LeagueTa
   try {
     const allTables: { [key in League]?: LeagueTableRow[] } = {};
     for (const league of featuredLeagues) {
-      if (!hasBudget()) {
+      if (!hasBudget(1, 'standings')) {
         console.warn('API budget soft limit reached; skipping remaining leagues for tables');
         break;
       }
@@ -1351,6 +1410,37 @@ export const getInjuries = async (teamId: number, leagueId: number): Promise<any
   }
 };
 
+// Get season minutes, appearances and average rating for a team's players (first page, ~20 most used)
+export const getSquadPlayerStats = async (teamId: number, leagueId: number): Promise<Player[]> => {
+  try {
+    const data = await makeApiRequest('/players', {
+      team: teamId,
+      league: leagueId,
+      season: getCurrentSeason()
+    });
+
+    return (data.response || []).map((entry: any) => {
+      const games = entry.statistics?.[0]?.games || {};
+      const rating = parseFloat(games.rating);
+      return {
+        id: entry.player?.id,
+        name: entry.player?.name,
+        position: games.position,
+        age: entry.player?.age || 0,
+        nationality: entry.player?.nationality,
+        photo: entry.player?.photo,
+        injured: entry.player?.injured || undefined,
+        rating: Number.isFinite(rating) ? rating : undefined,
+        minutes: games.minutes ?? undefined,
+        appearances: games.appearences ?? undefined
+      };
+    });
+  } catch (error) {
+    console.error(`Failed to fetch player stats for team ${teamId}:`, error);
+    return [];
+  }
+};
+
 // Get team statistics for better predictions
 export const getTeamStats = async (teamId: number, leagueId: number): Promise<any> => {
   try {
@@ -1393,18 +1483,25 @@ export const getRecentTeamForm = async (teamId: number): Promise<Array<'W' | 'D'
   }
 };
 
-export const getApiUsage = () => ({
-  callsUsed: apiCallCount,
-  callsRemaining: MAX_DAILY_CALLS - apiCallCount,
-  percentageUsed: Math.round((apiCallCount / MAX_DAILY_CALLS) * 100),
-  dailyLimit: MAX_DAILY_CALLS,
-  isConfigured: !!API_KEY
-});
+export const getApiUsage = () => {
+  const callsUsed = quotaPlanner.totalUsed();
+  return {
+    callsUsed,
+    callsRemaining: MAX_DAILY_CALLS - callsUsed,
+    percentageUsed: Math.round((callsUsed / MAX_DAILY_CALLS) * 100),
+    dailyLimit: MAX_DAILY_CALLS,
+    isConfigured: !!API_KEY
+  };
+};
+
+// Today's quota plan (reservations around kickoffs vs. calls made) and cache hit rates
+export const getApiQuotaPlan = () => quotaPlanner.getPlan();
+export const getApiCacheStats = () => apiCache.stats();
 
 // Clear cache (useful for testing)
 export const clearCache = (): void => {
-  cache.clear();
-  apiCallCount = 0;
+  apiCache.clear();
+  quotaPlanner.reset();
   console.log('API cache cleared and usage reset');
 };
 
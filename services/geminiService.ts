@@ -4,11 +4,13 @@
 // interface but no longer imports the Gemini SDK directly.
 import { Prediction, Match, PredictionContext } from '../types';
 import { calculatePredictionConfidence } from './confidenceService';
-import { storeDailyPrediction } from './accuracyService';
-import { withRateLimit } from './rateLimitService';
+import { getStoredAccuracyData, storeDailyPrediction } from './accuracyService';
+import { withRateLimit, rateLimitManager } from './rateLimitService';
+import { dixonColesService } from './dixonColesModel';
 import { advancedAnalyticsService } from './advancedAnalyticsService';
 import { realTimeDataService } from './realTimeDataService';
 import { mlTrainingDataService } from './mlTrainingDataService';
+import { promptRegistry, CLIENT_SUPPLIED_SLOTS } from './promptRegistry';
 
 const GEMINI_RETRY = 2; // kept for potential retry logic of proxy failures
 const PROXY_ENDPOINT = '/api/ai/gemini/predict';
@@ -38,7 +40,7 @@ const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 // No fallback: predictions require Gemini API key
 
-// We no longer define a schema client-side; server handles prompt & parsing.
+// We no longer define a schema client-side; server renders the registry prompt & parses.
 
 export const getMatchPrediction = async (match: Match, context?: PredictionContext, accuracyStats?: any): Promise<Prediction> => {
   // Detect environment: use DeepSeek for local dev, Gemini for Worker/production
@@ -54,6 +56,19 @@ export const getMatchPrediction = async (match: Match, context?: PredictionConte
     return getDeepSeekMatchPrediction(match, context, accuracyStats);
   }
 
+  // Offline statistical fallback while Gemini is rate limited
+  if (!rateLimitManager.getStatus('gemini').canMakeRequest) {
+    console.log('📐 Gemini rate limited - using offline Dixon-Coles model');
+    return dixonColesService.predictMatch(match);
+  }
+
+  return getGeminiMatchPrediction(match, context, accuracyStats);
+};
+
+// Always use the Gemini proxy, regardless of environment (used by the provider registry)
+export const getGeminiMatchPrediction = async (match: Match, context?: PredictionContext, accuracyStats?: any): Promise<Prediction> => {
+  const isTestEnv = !!((typeof process !== 'undefined' && (process.env?.VITEST || process.env?.NODE_ENV === 'test')) || (import.meta as any)?.vitest);
+
   console.log('🔮 Using Gemini proxy endpoint for Worker/production prediction generation');
   
   try {
@@ -88,99 +103,16 @@ export const getMatchPrediction = async (match: Match, context?: PredictionConte
       awayTeamInjuriesSnippet: context?.awayTeamInjuriesSnippet || 'None'
     });
 
-    const contextPrompt = (context && (context.leagueTableSnippet || context.homeTeamFormSnippet || context.awayTeamFormSnippet || context.headToHeadSnippet)) ? `
-      **Current Context (for enhanced analysis):**
-      ${context.leagueTableSnippet ? `\n- Current League Standings: ${context.leagueTableSnippet}` : ''}
-      ${context.homeTeamFormSnippet ? `\n- ${match.homeTeam} Recent Form (Last 5): ${context.homeTeamFormSnippet}` : ''}
-      ${context.awayTeamFormSnippet ? `\n- ${match.awayTeam} Recent Form (Last 5): ${context.awayTeamFormSnippet}` : ''}
-      ${context.headToHeadSnippet ? `\n- Head-to-Head: ${context.headToHeadSnippet}` : ''}
-      ${context.homeTeamStatsSnippet ? `\n- ${match.homeTeam} Season Stats: ${context.homeTeamStatsSnippet}` : ''}
-      ${context.awayTeamStatsSnippet ? `\n- ${match.awayTeam} Season Stats: ${context.awayTeamStatsSnippet}` : ''}
-      ${context.bttsHistoricSnippet ? `\n- BTTS History: ${context.bttsHistoricSnippet}` : ''}
-      ${context.homeTeamInjuriesSnippet ? `\n- ${match.homeTeam} Injuries: ${context.homeTeamInjuriesSnippet}` : ''}
-      ${context.awayTeamInjuriesSnippet ? `\n- ${match.awayTeam} Injuries: ${context.awayTeamInjuriesSnippet}` : ''}
-      
-      ${analyticsContext}
-      ${realTimePrompt}
-    ` : `${analyticsContext}${realTimePrompt}`;
-    
-    console.log(`📝 Generated enhanced context prompt:`, contextPrompt || 'No context data available');
-    
-    const prompt = `
-You are a football prediction engine that generates detailed, on-demand predictions for a single, user-selected fixture inside the "My Teams" tab. This must never run automatically.
-
-REAL-TIME DATA INTEGRATION PRIORITY
-- Leverage comprehensive real-time data from API-Football including: live team statistics, injury/suspension updates, recent form analysis, head-to-head trends, venue-specific performance, motivation factors, and contextual match pressures
-- Prioritize real-time data over historical averages when available (indicated by data quality scores)
-- Adjust prediction confidence based on data freshness and completeness
-- Weight recent performances more heavily than season averages for teams showing clear momentum shifts
-- Factor in key player absences with position-specific impact calculations
-
-DATA SOURCE POLICY
-- Use API-Football ONLY for all real-time and historical data (fixtures, teams, standings, stats, H2H, injuries/suspensions, lineups, venues, schedules). Do not use any other data source. Do not infer unavailable data.
-- All timestamps in outputs must map to the API-Football fixture timestamp and season identifiers when available in context. If missing, mark as Not available and degrade confidence.
-- When enhanced real-time data is available (quality score >70%), prioritize it over basic context snippets
-
-ENHANCED REAL-TIME INPUTS (from API-Football + Analysis)
-- **Live Team Performance**: Attack/defense strength ratings, xG differentials, recent goal trends, venue-specific form
-- **Squad Status Intelligence**: Key player availability, positional impact scores, tactical formation changes due to absences
-- **Momentum Analysis**: Weighted recent form with exponential decay, streak analysis, psychological factors
-- **Advanced H2H Analytics**: Goal variance patterns, BTTS trends, venue-specific historical performance, recent encounter context
-- **Contextual Factors**: Rest days analysis, fixture congestion impact, motivation assessment, pressure situations
-- **Data Quality Metrics**: Real-time assessment of prediction confidence based on data completeness and freshness
-
-ADVANCED MODELING (Enhanced Ensemble with Real-Time Integration)
-- **Dynamic ELO System**: Real-time rating adjustments based on recent results, injury impacts, and momentum shifts
-- **Monte Carlo Simulation**: Enhanced with real-time player availability and tactical adjustment factors
-- **Form-Weighted Neural Networks**: Exponential decay weighting (0.9^days_ago) with injury impact modifiers
-- **Market Efficiency Analysis**: Compare to betting odds when available, detect value opportunities
-- **Bayesian Hierarchical Modeling**: League-specific effects with real-time parameter updates
-- **Injury Impact Modeling**: Position-specific absence effects on team performance metrics
-- **Venue Intelligence**: Home advantage calculations with weather, crowd, and travel factors
-
-ENHANCED FEATURE ENGINEERING WITH REAL-TIME DATA
-- **Performance Metrics**: Real-time attack/defense strength, momentum-adjusted xG, shot conversion trends
-- **Defensive Intelligence**: Live clean sheet probability, defensive fragility under pressure
-- **Form Dynamics**: Weighted form analysis with recency bias, confidence intervals
-- **Matchup Intelligence**: Style compatibility analysis, pace differential impacts
-- **Squad Rotation Intelligence**: Fatigue modeling, key player dependency analysis
-- **Psychological Profiling**: Pressure situation performance, momentum psychology, derby effects
-- **Seasonal Context**: Performance by month, fixture congestion effects, squad depth utilization
-
-ENHANCED PIPELINE WITH REAL-TIME PRIORITY
-1) **Real-Time Data Assessment**: Evaluate data quality score and adjust modeling approach accordingly
-2) **Multi-Model Generation with Live Weights**: 
-   - ELO-based probability baseline with real-time adjustments
-   - Monte Carlo simulation with injury/suspension factors
-   - Form momentum analysis with psychological weighting
-   - Market efficiency comparison with live odds integration
-   - Bayesian uncertainty quantification with data quality factors
-3) **Dynamic Ensemble Weighting**: Adjust model weights based on real-time data availability and quality
-4) **Real-Time Probability Calibration**: Isotonic regression with recency weighting
-5) **Adaptive Confidence Scoring**: Multi-factor confidence adjusted by data freshness and completeness
-6) **Live Risk Assessment**: Dynamic variance modeling for high-uncertainty scenarios
-7) **Enhanced Market Coverage**: Real-time correlation analysis for secondary markets
-
-POST-PROCESSING RULES
-- Normalize every probability set to 100% (1X2, BTTS, O/U, HT/FT). Ensure Poisson scoreline probabilities integrate to 1 and are consistent with expected goals and outcome probabilities. Round sensibly while maintaining normalization.
-- **Real-Time Confidence Adjustment**: Degrade gracefully with sparse or missing real-time inputs. When data quality <50%, increase uncertainty bands by 15-25% and explicitly state data limitations.
-- **Dynamic Key Factors**: Prioritize real-time insights (injuries, form, momentum) over static analysis when quality score >70%
-
-MATCH
-- League: ${match.league}
-- Home Team: ${match.homeTeam}
-- Away Team: ${match.awayTeam}
-- Date: ${new Date(match.date).toISOString()}
-
-CONTEXT (provided)
-${contextPrompt}
-
-OUTPUT FORMAT
--- The JSON output MUST always include a "keyFactors" array with real-time insights prioritized when available. Include data quality assessment in reasoning.
--- When real-time data quality >70%, emphasize live analysis (injuries, momentum, recent form). When <50%, note data limitations and increase uncertainty.
--- Return ONLY JSON per the provided response schema (no extra keys, no Markdown, no prose outside JSON). Then, after the JSON, provide concise reasoning notes sections (plain text), as described.
--- You MUST serialize the JSON to match the response schema supplied by the system (do not invent fields). If some inputs are not available, still produce calibrated outputs and reflect uncertainty.
-`;
+    // Bucket the match into a prompt version; the proxy renders the same template server-side
+    const assignment = promptRegistry.assign('gemini-match', match.id);
+    const slots = promptRegistry.buildSlots(match, {
+      context,
+      realTimeContext,
+      realTimeSummary: realTimePrompt,
+      analyticsSummary: analyticsContext
+    });
+    const promptSlots = Object.fromEntries(CLIENT_SUPPLIED_SLOTS.map(name => [name, slots[name]]));
+    console.log(`🧪 Using prompt ${assignment.promptVersion} (bucket ${assignment.bucket.toFixed(3)})`);
 
     // Generate AI prediction with rate limiting and retry
     const response = await withRateLimit('gemini', async () => {
@@ -188,7 +120,7 @@ OUTPUT FORMAT
       const r = await fetch(PROXY_ENDPOINT, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ match, context, accuracyStats })
+        body: JSON.stringify({ match, context, accuracyStats, promptVersion: assignment.version, promptSlots })
       });
       if (!r.ok) {
         let bodyText = await r.text();
@@ -219,6 +151,8 @@ OUTPUT FORMAT
     }, GEMINI_RETRY + 1);
 
     const predictionData = response.prediction || response;
+    predictionData.promptVersion = response.meta?.promptVersion || assignment.promptVersion;
+    if (realTimeContext.keyAbsences?.length) predictionData.keyAbsences = realTimeContext.keyAbsences;
 
     // Guarantee keyFactors is always present and populated (never undefined or empty)
     if (!Array.isArray(predictionData.keyFactors) || predictionData.keyFactors.length === 0) {
@@ -347,17 +281,13 @@ OUTPUT FORMAT
       predictionData.uncertaintyMetrics.modelAgreement = Math.max(0, Math.min(100, predictionData.uncertaintyMetrics.modelAgreement || 75));
     }
 
-    // Add confidence percentage if accuracy stats are available
-    if (accuracyStats) {
-      const confidenceAnalysis = calculatePredictionConfidence(predictionData, accuracyStats, {
-        league: match.league,
-        hasRecentForm: !!context?.homeTeamFormSnippet,
-        hasHeadToHead: !!context?.headToHeadSnippet
-      });
-      
-      predictionData.confidencePercentage = confidenceAnalysis.percentage;
-      predictionData.confidenceReason = confidenceAnalysis.reason;
-    }
+    // Confidence from how often similar settled picks have hit
+    const confidenceAnalysis = calculatePredictionConfidence(predictionData, getStoredAccuracyData(), {
+      league: match.league
+    });
+    predictionData.confidencePercentage = confidenceAnalysis.percentage;
+    predictionData.confidenceReason = confidenceAnalysis.reason;
+    predictionData.confidenceInterval = confidenceAnalysis.interval;
 
     // Auto-store prediction for accuracy tracking (only if it's for today's match)
     const matchDate = new Date(match.date);
@@ -379,7 +309,7 @@ OUTPUT FORMAT
         match,
         predictionData as Prediction,
         realTimeContext,
-        isLocalDevelopment ? 'deepseek' : 'gemini'
+        'gemini'
       );
       console.log(`🤖 ML training data collected: ${match.homeTeam} vs ${match.awayTeam}`);
     } catch (mlError) {
@@ -0,0 +1,217 @@
+import { Match } from '../types';
+
+/**
+ * iCalendar (RFC 5545) output for fixtures: single-event downloads in the app
+ * and the subscribable webcal:// feeds served by the cron worker.
+ *
+ * Every fixture keeps one UID for its lifetime, so calendars update the
+ * existing event when a fixture is rescheduled instead of adding a copy.
+ * SEQUENCE rises whenever kickoff moves or the fixture is called off, and
+ * cancelled or postponed fixtures stay in the feed as STATUS:CANCELLED.
+ *
+ * Runtime-neutral: no DOM or Workers APIs.
+ */
+
+export const MATCH_DURATION_MINUTES = 120;
+const PRODID = '-//FixtureCast//Fixtures//EN';
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+export interface CalendarFeedEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  categories?: string[];
+  // Minutes before start for a display alarm
+  alarms?: number[];
+}
+
+export interface CalendarFeed {
+  name: string;
+  description?: string;
+  // How often subscribed clients should poll
+  refreshMinutes?: number;
+  events: CalendarFeedEvent[];
+}
+
+export interface CalendarPredictionSummary {
+  outcome?: string;
+  score?: string;
+  confidence?: number;
+}
+
+export interface FixtureEventOptions {
+  sequence?: number;
+  tv?: string[];
+  prediction?: CalendarPredictionSummary | null;
+  url?: string;
+  alarms?: number[];
+}
+
+// Per-fixture state a feed remembers between requests to derive SEQUENCE
+export interface FixtureSequence {
+  kickoff: string;
+  cancelled: boolean;
+  sequence: number;
+}
+
+export const fixtureUid = (fixtureId: string | number) => `fixture-${fixtureId}@fixturecast.com`;
+
+export const isCalledOff = (status: Match['status']) =>
+  status === 'CANC' || status === 'POSTP' || status === 'cancelled' || status === 'postponed' || status === 'abandoned';
+
+export const formatIcsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+export const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into 75-octet lines joined by CRLF + space,
+ * without cutting a multi-byte character in half
+ */
+export const foldIcsLine = (line: string): string => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const eventLines = (event: CalendarFeedEvent, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`);
+  lines.push(`STATUS:${event.status || 'CONFIRMED'}`);
+  // Busy time for matches the user will actually watch; called-off ones don't block the day
+  lines.push(`TRANSP:${event.status === 'CANCELLED' ? 'TRANSPARENT' : 'OPAQUE'}`);
+  if (event.status !== 'CANCELLED') {
+    for (const minutes of event.alarms || []) {
+      lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeIcsText(event.summary)}`, `TRIGGER:-PT${minutes}M`, 'END:VALARM');
+    }
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * A complete VCALENDAR document with CRLF line endings
+ */
+export const buildCalendar = (feed: CalendarFeed, now: Date = new Date()): string => {
+  const stamp = formatIcsDate(now);
+  const refresh = `PT${feed.refreshMinutes ?? 60}M`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(feed.name)}`,
+    ...(feed.description ? [`X-WR-CALDESC:${escapeIcsText(feed.description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+    ...feed.events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+const predictionLine = (prediction: CalendarPredictionSummary): string | null => {
+  const details = [
+    prediction.score,
+    typeof prediction.confidence === 'number' ? `${Math.round(prediction.confidence)}% confidence` : null
+  ].filter(Boolean);
+  if (!prediction.outcome && !details.length) return null;
+  return `🔮 Prediction: ${prediction.outcome || 'Score'}${details.length ? ` (${details.join(', ')})` : ''}`;
+};
+
+/**
+ * A fixture as a calendar event: TV and venue details, the final score once
+ * played and, when given, the FixtureCast prediction in the description
+ */
+export const matchToFeedEvent = (match: Match, options: FixtureEventOptions = {}): CalendarFeedEvent => {
+  const start = new Date(match.date);
+  const calledOff = isCalledOff(match.status);
+  const finished = match.status === 'FT' && typeof match.homeScore === 'number' && typeof match.awayScore === 'number';
+
+  const title = finished
+    ? `${match.homeTeam} ${match.homeScore}-${match.awayScore} ${match.awayTeam}`
+    : `${match.homeTeam} vs ${match.awayTeam}`;
+  const prefix = match.status === 'POSTP' || match.status === 'postponed' ? 'POSTPONED: ' : calledOff ? 'CANCELLED: ' : '';
+
+  const description = [
+    `🏆 ${match.league}`,
+    match.venue ? `🏟️ ${match.venue}` : null,
+    options.tv?.length ? `📺 ${options.tv.join(', ')}` : null,
+    match.status === 'TBD' ? '⏰ Kick-off time to be confirmed' : null,
+    options.prediction && !finished && !calledOff ? predictionLine(options.prediction) : null,
+    options.url || null
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: fixtureUid(match.id),
+    sequence: options.sequence ?? 0,
+    start,
+    end: new Date(start.getTime() + MATCH_DURATION_MINUTES * 60 * 1000),
+    summary: `${prefix}⚽ ${title}`,
+    description,
+    location: match.venue,
+    url: options.url,
+    status: calledOff ? 'CANCELLED' : match.status === 'TBD' ? 'TENTATIVE' : 'CONFIRMED',
+    categories: [String(match.league)],
+    alarms: options.alarms
+  };
+};
+
+/**
+ * Next SEQUENCE for each fixture given what the feed last served: bumped when
+ * kickoff moves or the fixture is called off or reinstated. `changed` is false
+ * when nothing needs persisting.
+ */
+export const nextSequences = (
+  previous: Record<string, FixtureSequence>,
+  matches: Match[]
+): { sequences: Record<string, FixtureSequence>; changed: boolean } => {
+  const sequences: Record<string, FixtureSequence> = { ...previous };
+  let changed = false;
+  for (const match of matches) {
+    const kickoff = new Date(match.date).toISOString();
+    const cancelled = isCalledOff(match.status);
+    const before = previous[match.id];
+    if (!before) {
+      sequences[match.id] = { kickoff, cancelled, sequence: 0 };
+      changed = true;
+    } else if (before.kickoff !== kickoff || before.cancelled !== cancelled) {
+      sequences[match.id] = { kickoff, cancelled, sequence: before.sequence + 1 };
+      changed = true;
+    }
+  }
+  return { sequences, changed };
+};
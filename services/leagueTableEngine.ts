@@ -0,0 +1,397 @@
+import { League, LeagueTableRow, LiveMatchUpdate, Match } from '../types';
+import { resolveTeamName } from './teamDataService';
+
+/**
+ * League table engine
+ * Rebuilds standings from match results (optionally on top of an official
+ * baseline table) and in-progress LiveMatchUpdate scores, ranking teams with
+ * each competition's tiebreak rules. Output uses the LeagueTableRow shape,
+ * with both the flat fields and the API-style `team`/`all` objects populated.
+ */
+
+export type TiebreakCriterion =
+  | 'goalDifference'
+  | 'goalsFor'
+  | 'wins'
+  | 'awayGoalsFor'
+  | 'awayWins'
+  | 'headToHeadPoints'
+  | 'headToHeadGoalDifference'
+  | 'headToHeadGoalsFor'
+  | 'headToHeadAwayGoals';
+
+export interface LeagueTableRules {
+  pointsForWin: number;
+  pointsForDraw: number;
+  // Applied in order after points; head-to-head criteria only consider matches among the tied teams
+  tiebreakers: TiebreakCriterion[];
+  // 'groups': teams are ranked within groups (UEFA group stage)
+  format: 'league' | 'groups';
+  // Split-season formats: after `afterGames` each half is ranked separately and teams cannot cross over
+  split?: { afterGames: number; topSize: number };
+}
+
+export interface TableBuildOptions {
+  // Official standings the matches are added on top of (e.g. before today's live games)
+  baseline?: LeagueTableRow[];
+  liveUpdates?: Record<string, LiveMatchUpdate>;
+  includeLive?: boolean; // Count in-progress scores "as it stands" (default true)
+  deductions?: Record<string, number>; // Points deducted per team, applied on top of results
+  groups?: Record<string, string[]>; // Group membership for 'groups' competitions; inferred from fixtures otherwise
+  rules?: Partial<LeagueTableRules>;
+}
+
+interface TeamRecord {
+  name: string;
+  id: number;
+  logo: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  awayGoalsFor: number;
+  awayWins: number;
+  points: number;
+  baselineRank?: number;
+}
+
+interface CountedMatch {
+  home: string;
+  away: string;
+  homeGoals: number;
+  awayGoals: number;
+  date: string;
+}
+
+const STANDARD_RULES: LeagueTableRules = {
+  pointsForWin: 3,
+  pointsForDraw: 1,
+  tiebreakers: ['goalDifference', 'goalsFor'],
+  format: 'league'
+};
+
+const HEAD_TO_HEAD_FIRST: TiebreakCriterion[] = ['headToHeadPoints', 'headToHeadGoalDifference', 'goalDifference', 'goalsFor'];
+
+const UEFA_GROUP_RULES: LeagueTableRules = {
+  ...STANDARD_RULES,
+  format: 'groups',
+  tiebreakers: ['headToHeadPoints', 'headToHeadGoalDifference', 'headToHeadGoalsFor', 'goalDifference', 'goalsFor', 'awayGoalsFor', 'wins', 'awayWins']
+};
+
+export const LEAGUE_TABLE_RULES: Partial<Record<League, LeagueTableRules>> = {
+  [League.PremierLeague]: { ...STANDARD_RULES, tiebreakers: ['goalDifference', 'goalsFor', 'headToHeadPoints', 'headToHeadAwayGoals'] },
+  [League.Championship]: { ...STANDARD_RULES, tiebreakers: ['goalDifference', 'goalsFor', 'headToHeadPoints', 'headToHeadGoalDifference'] },
+  [League.LaLiga]: { ...STANDARD_RULES, tiebreakers: HEAD_TO_HEAD_FIRST },
+  [League.SegundaDivision]: { ...STANDARD_RULES, tiebreakers: HEAD_TO_HEAD_FIRST },
+  [League.SerieA]: { ...STANDARD_RULES, tiebreakers: [...HEAD_TO_HEAD_FIRST, 'wins'] },
+  [League.SerieB]: { ...STANDARD_RULES, tiebreakers: HEAD_TO_HEAD_FIRST },
+  [League.Bundesliga]: { ...STANDARD_RULES, tiebreakers: ['goalDifference', 'goalsFor', 'headToHeadPoints', 'headToHeadAwayGoals', 'awayGoalsFor'] },
+  [League.Ligue1]: { ...STANDARD_RULES, tiebreakers: ['goalDifference', 'headToHeadPoints', 'headToHeadGoalDifference', 'headToHeadGoalsFor', 'goalsFor'] },
+  [League.ScottishPremiership]: { ...STANDARD_RULES, split: { afterGames: 33, topSize: 6 } },
+  [League.ChampionsLeague]: UEFA_GROUP_RULES,
+  [League.EuropaLeague]: UEFA_GROUP_RULES,
+  [League.EuropaConferenceLeague]: UEFA_GROUP_RULES
+};
+
+export const getLeagueTableRules = (league: League, overrides: Partial<LeagueTableRules> = {}): LeagueTableRules => ({
+  ...(LEAGUE_TABLE_RULES[league] || STANDARD_RULES),
+  ...overrides
+});
+
+const FINISHED_STATUSES = new Set(['FT', 'finished', 'completed']);
+const LIVE_STATUSES = new Set(['LIVE', 'HT']);
+
+const emptyRecord = (name: string, id = 0, logo = ''): TeamRecord => ({
+  name, id, logo, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, awayGoalsFor: 0, awayWins: 0, points: 0
+});
+
+/**
+ * Matches that count towards the table, with live scores overlaid
+ */
+const collectMatches = (matches: Match[], options: TableBuildOptions): CountedMatch[] => {
+  const includeLive = options.includeLive !== false;
+  const counted: CountedMatch[] = [];
+  for (const match of matches) {
+    const live = options.liveUpdates?.[match.id];
+    const status = live?.status ?? match.status;
+    const homeGoals = live?.homeScore ?? match.homeScore;
+    const awayGoals = live?.awayScore ?? match.awayScore;
+    if (typeof homeGoals !== 'number' || typeof awayGoals !== 'number') continue;
+
+    const countable = status === undefined || FINISHED_STATUSES.has(status) || (includeLive && LIVE_STATUSES.has(status));
+    if (!countable) continue;
+
+    counted.push({
+      home: resolveTeamName(match.homeTeam),
+      away: resolveTeamName(match.awayTeam),
+      homeGoals,
+      awayGoals,
+      date: match.date
+    });
+  }
+  return counted.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+const applyMatch = (records: Map<string, TeamRecord>, m: CountedMatch, rules: LeagueTableRules) => {
+  const home = records.get(m.home) ?? emptyRecord(m.home);
+  const away = records.get(m.away) ?? emptyRecord(m.away);
+  records.set(m.home, home);
+  records.set(m.away, away);
+
+  home.played++; away.played++;
+  home.goalsFor += m.homeGoals; home.goalsAgainst += m.awayGoals;
+  away.goalsFor += m.awayGoals; away.goalsAgainst += m.homeGoals;
+  away.awayGoalsFor += m.awayGoals;
+
+  if (m.homeGoals > m.awayGoals) {
+    home.won++; away.lost++; home.points += rules.pointsForWin;
+  } else if (m.homeGoals < m.awayGoals) {
+    away.won++; home.lost++; away.awayWins++; away.points += rules.pointsForWin;
+  } else {
+    home.drawn++; away.drawn++; home.points += rules.pointsForDraw; away.points += rules.pointsForDraw;
+  }
+};
+
+const fromBaseline = (row: LeagueTableRow): TeamRecord => {
+  const name = resolveTeamName(row.teamName || row.team?.name || '');
+  const goalsFor = row.all?.goals?.for ?? 0;
+  const goalsAgainst = row.all?.goals?.against ?? goalsFor - (row.goalDifference ?? 0);
+  return {
+    ...emptyRecord(name, row.team?.id ?? 0, row.team?.logo ?? ''),
+    played: row.played ?? row.all?.played ?? 0,
+    won: row.won ?? row.all?.win ?? 0,
+    drawn: row.drawn ?? row.all?.draw ?? 0,
+    lost: row.lost ?? row.all?.lose ?? 0,
+    goalsFor,
+    goalsAgainst,
+    points: row.points ?? 0,
+    baselineRank: row.rank
+  };
+};
+
+const criterionValue = (
+  criterion: TiebreakCriterion,
+  team: TeamRecord,
+  tied: Set<string>,
+  matches: CountedMatch[],
+  rules: LeagueTableRules
+): number => {
+  switch (criterion) {
+    case 'goalDifference': return team.goalsFor - team.goalsAgainst;
+    case 'goalsFor': return team.goalsFor;
+    case 'wins': return team.won;
+    case 'awayGoalsFor': return team.awayGoalsFor;
+    case 'awayWins': return team.awayWins;
+  }
+
+  // Head-to-head mini-league among the currently tied teams
+  let points = 0, goalsFor = 0, goalsAgainst = 0, awayGoals = 0;
+  for (const m of matches) {
+    if (!tied.has(m.home) || !tied.has(m.away)) continue;
+    if (m.home === team.name) {
+      goalsFor += m.homeGoals; goalsAgainst += m.awayGoals;
+      points += m.homeGoals > m.awayGoals ? rules.pointsForWin : m.homeGoals === m.awayGoals ? rules.pointsForDraw : 0;
+    } else if (m.away === team.name) {
+      goalsFor += m.awayGoals; goalsAgainst += m.homeGoals; awayGoals += m.awayGoals;
+      points += m.awayGoals > m.homeGoals ? rules.pointsForWin : m.homeGoals === m.awayGoals ? rules.pointsForDraw : 0;
+    }
+  }
+  switch (criterion) {
+    case 'headToHeadPoints': return points;
+    case 'headToHeadGoalDifference': return goalsFor - goalsAgainst;
+    case 'headToHeadGoalsFor': return goalsFor;
+    case 'headToHeadAwayGoals': return awayGoals;
+  }
+  return 0;
+};
+
+const isHeadToHead = (criterion: TiebreakCriterion): boolean => criterion.startsWith('headToHead');
+
+/**
+ * Order teams by points, then each tiebreaker in turn. Tied groups are split
+ * recursively so head-to-head criteria are recomputed for the remaining subset.
+ * On top of an official baseline the earlier meetings are unknown, so a tie
+ * that reaches a head-to-head criterion keeps the official order instead.
+ */
+const rankTeams = (
+  teams: TeamRecord[],
+  criteria: TiebreakCriterion[],
+  matches: CountedMatch[],
+  rules: LeagueTableRules,
+  hasBaseline = false
+): TeamRecord[] => {
+  const resolve = (group: TeamRecord[], remaining: TiebreakCriterion[]): TeamRecord[] => {
+    if (group.length <= 1) return group;
+    if (remaining.length === 0 || (hasBaseline && isHeadToHead(remaining[0]))) {
+      // Unbroken ties keep the official order when we have one, else alphabetical
+      return [...group].sort((a, b) => (a.baselineRank ?? Infinity) - (b.baselineRank ?? Infinity) || a.name.localeCompare(b.name));
+    }
+    const [criterion, ...rest] = remaining;
+    const tied = new Set(group.map(t => t.name));
+    const buckets = new Map<number, TeamRecord[]>();
+    for (const team of group) {
+      const value = criterionValue(criterion, team, tied, matches, rules);
+      buckets.set(value, [...(buckets.get(value) || []), team]);
+    }
+    return [...buckets.entries()]
+      .sort(([a], [b]) => b - a)
+      .flatMap(([, bucket]) => (bucket.length === group.length ? resolve(bucket, rest) : resolve(bucket, criteria)));
+  };
+
+  const byPoints = new Map<number, TeamRecord[]>();
+  teams.forEach(team => byPoints.set(team.points, [...(byPoints.get(team.points) || []), team]));
+  return [...byPoints.entries()]
+    .sort(([a], [b]) => b - a)
+    .flatMap(([, bucket]) => resolve(bucket, criteria));
+};
+
+const toRows = (ranked: TeamRecord[], startRank = 1): LeagueTableRow[] =>
+  ranked.map((team, i) => ({
+    rank: startRank + i,
+    teamName: team.name,
+    played: team.played,
+    won: team.won,
+    drawn: team.drawn,
+    lost: team.lost,
+    goalDifference: team.goalsFor - team.goalsAgainst,
+    points: team.points,
+    team: { id: team.id, name: team.name, logo: team.logo },
+    all: { played: team.played, win: team.won, draw: team.drawn, lose: team.lost, goals: { for: team.goalsFor, against: team.goalsAgainst } }
+  }));
+
+const buildRecords = (matches: CountedMatch[], rules: LeagueTableRules, baseline?: LeagueTableRow[]): Map<string, TeamRecord> => {
+  const records = new Map<string, TeamRecord>();
+  baseline?.forEach(row => {
+    const record = fromBaseline(row);
+    if (record.name) records.set(record.name, record);
+  });
+  matches.forEach(m => applyMatch(records, m, rules));
+  return records;
+};
+
+const applyDeductions = (records: Map<string, TeamRecord>, deductions: Record<string, number> = {}) => {
+  for (const [team, points] of Object.entries(deductions)) {
+    const record = records.get(resolveTeamName(team));
+    if (record) record.points -= points;
+  }
+};
+
+/**
+ * Split-season ranking: halves are fixed by the standings once every team has
+ * played `afterGames`, then ranked separately (top half always above bottom half)
+ */
+const rankWithSplit = (
+  records: Map<string, TeamRecord>,
+  matches: CountedMatch[],
+  rules: LeagueTableRules,
+  options: TableBuildOptions
+): TeamRecord[] | null => {
+  const split = rules.split!;
+  const teams = [...records.values()];
+  if (teams.length === 0 || teams.some(t => t.played < split.afterGames)) return null;
+
+  let topHalf: Set<string>;
+  if (options.baseline?.length) {
+    // Official tables already list the top half first once the split applies
+    const ordered = teams.filter(t => t.baselineRank !== undefined).sort((a, b) => a.baselineRank! - b.baselineRank!);
+    topHalf = new Set(ordered.slice(0, split.topSize).map(t => t.name));
+  } else {
+    // Replay each team's first `afterGames` results to find the standings at the split
+    const playedAtSplit = new Map<string, number>();
+    const preSplit = matches.filter(m => {
+      const home = playedAtSplit.get(m.home) || 0;
+      const away = playedAtSplit.get(m.away) || 0;
+      if (home >= split.afterGames || away >= split.afterGames) return false;
+      playedAtSplit.set(m.home, home + 1);
+      playedAtSplit.set(m.away, away + 1);
+      return true;
+    });
+    const atSplit = buildRecords(preSplit, rules);
+    applyDeductions(atSplit, options.deductions);
+    topHalf = new Set(rankTeams([...atSplit.values()], rules.tiebreakers, preSplit, rules).slice(0, split.topSize).map(t => t.name));
+  }
+
+  const hasBaseline = !!options.baseline?.length;
+  return [
+    ...rankTeams(teams.filter(t => topHalf.has(t.name)), rules.tiebreakers, matches, rules, hasBaseline),
+    ...rankTeams(teams.filter(t => !topHalf.has(t.name)), rules.tiebreakers, matches, rules, hasBaseline)
+  ];
+};
+
+/**
+ * Group membership from the fixtures themselves: teams connected by matches share a group
+ */
+const inferGroups = (teams: string[], matches: CountedMatch[]): Record<string, string[]> => {
+  const parent = new Map(teams.map(t => [t, t]));
+  const find = (t: string): string => (parent.get(t) === t ? t : find(parent.get(t)!));
+  matches.forEach(m => parent.set(find(m.home), find(m.away)));
+
+  const components = new Map<string, string[]>();
+  teams.forEach(t => components.set(find(t), [...(components.get(find(t)) || []), t]));
+  const ordered = [...components.values()].sort((a, b) => [...a].sort()[0].localeCompare([...b].sort()[0]));
+  return Object.fromEntries(ordered.map((members, i) => [`Group ${String.fromCharCode(65 + i)}`, members]));
+};
+
+/**
+ * Standings per group for group-stage competitions
+ */
+export const buildGroupTables = (league: League, matches: Match[], options: TableBuildOptions = {}): Record<string, LeagueTableRow[]> => {
+  const rules = getLeagueTableRules(league, options.rules);
+  const counted = collectMatches(matches, options);
+  const records = buildRecords(counted, rules, options.baseline);
+  applyDeductions(records, options.deductions);
+
+  const hasBaseline = !!options.baseline?.length;
+
+  // Groups can only be read off a full set of fixtures; a baseline with a few
+  // live matches on top (or no matches at all) says nothing about membership
+  if (!options.groups && (hasBaseline || counted.length === 0)) {
+    return records.size > 0 ? { Table: toRows(rankTeams([...records.values()], rules.tiebreakers, counted, rules, hasBaseline)) } : {};
+  }
+
+  const groups = options.groups
+    ? Object.fromEntries(Object.entries(options.groups).map(([group, members]) => [group, members.map(resolveTeamName)]))
+    : inferGroups([...records.keys()], counted);
+
+  const tables: Record<string, LeagueTableRow[]> = {};
+  for (const [group, members] of Object.entries(groups)) {
+    const teams = members.map(name => records.get(name) ?? emptyRecord(name));
+    tables[group] = toRows(rankTeams(teams, rules.tiebreakers, counted, rules, hasBaseline));
+  }
+  return tables;
+};
+
+/**
+ * Rebuild a competition's standings from results and live scores
+ */
+export const buildLeagueTable = (league: League, matches: Match[], options: TableBuildOptions = {}): LeagueTableRow[] => {
+  const rules = getLeagueTableRules(league, options.rules);
+  if (rules.format === 'groups') {
+    return Object.values(buildGroupTables(league, matches, options)).flat();
+  }
+
+  const counted = collectMatches(matches, options);
+  const records = buildRecords(counted, rules, options.baseline);
+  applyDeductions(records, options.deductions);
+
+  const ranked = (rules.split && rankWithSplit(records, counted, rules, options))
+    || rankTeams([...records.values()], rules.tiebreakers, counted, rules, !!options.baseline?.length);
+  return toRows(ranked);
+};
+
+/**
+ * Official table plus any in-progress matches, as it stands right now. With
+ * nothing in progress the official table is returned as is.
+ */
+export const buildLiveTable = (
+  league: League,
+  baseline: LeagueTableRow[],
+  fixtures: Match[],
+  liveUpdates: Record<string, LiveMatchUpdate>
+): LeagueTableRow[] => {
+  const inProgress = fixtures.filter(f => f.league === league && LIVE_STATUSES.has(liveUpdates[f.id]?.status ?? f.status ?? ''));
+  if (inProgress.length === 0) return baseline;
+  return buildLeagueTable(league, inProgress, { baseline, liveUpdates, includeLive: true });
+};
@@ -0,0 +1,127 @@
+import { PredictionAccuracy } from '../types';
+import {
+  LedgerEntry,
+  LedgerLeaf,
+  LedgerProof,
+  LedgerVerification,
+  canonicalInclusion,
+  verifyChain,
+  verifyPredictionInclusion
+} from './predictionLedger';
+
+/**
+ * Client-side checks of the public prediction ledger. The worker only serves
+ * proofs and chain entries; every hash is recomputed here, so a verified
+ * record does not depend on trusting the server's answer.
+ */
+
+const WORKER_BASE = 'https://fixturecast-cron-worker.btltech.workers.dev';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+class LedgerVerifier {
+  private results = new Map<string, LedgerVerification>();
+
+  private async getJson<T>(path: string): Promise<T | null> {
+    const response = await fetch(`${WORKER_BASE}${path}`, { headers: { 'Accept': 'application/json' } });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Ledger request failed: ${response.status}`);
+    return response.json();
+  }
+
+  // Days whose sealed entry may hold the record: the one the server reported, else around its prediction time
+  private candidateDates(record: PredictionAccuracy): string[] {
+    if (record.ledgerDate) return [record.ledgerDate];
+    const predicted = Date.parse(record.predictionTime || '');
+    if (Number.isNaN(predicted)) return [];
+    return [isoDay(predicted), isoDay(predicted + DAY_MS), isoDay(predicted - DAY_MS)];
+  }
+
+  /**
+   * Newest sealed entry, or null when the ledger is empty or unreachable
+   */
+  async getHead(): Promise<LedgerEntry | null> {
+    try {
+      return (await this.getJson<{ head: LedgerEntry | null }>('/ledger/head'))?.head || null;
+    } catch (error) {
+      console.warn('⚠️ Ledger head unavailable:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Checks the head and every entry back to `until` link up
+   */
+  async verifyChainSince(until: string): Promise<boolean> {
+    const chain = await this.getJson<{ entries: LedgerEntry[] }>(`/ledger/chain?until=${until}`);
+    return !!chain?.entries.length && verifyChain(chain.entries);
+  }
+
+  /**
+   * A different prediction for the match recorded on a later day but still
+   * before kickoff; only the last one before kickoff counts, and app leaves
+   * never replace one the worker recorded
+   */
+  private async laterPrediction(leaf: LedgerLeaf): Promise<LedgerLeaf | null> {
+    const kickoffDate = leaf.kickoff.slice(0, 10);
+    for (let time = Date.parse(leaf.predictedAt.slice(0, 10)) + DAY_MS; isoDay(time) <= kickoffDate; time += DAY_MS) {
+      const proof = await this.getJson<LedgerProof>(`/ledger/proof?date=${isoDay(time)}&matchId=${encodeURIComponent(leaf.matchId)}`);
+      const rivals = proof?.proofs.filter(item => leaf.source !== 'worker' || item.leaf.source === 'worker') || [];
+      const later = canonicalInclusion(rivals, leaf.matchId);
+      if (later && Date.parse(later.leaf.predictedAt) < Date.parse(later.leaf.kickoff) && later.leaf.predictionDigest !== leaf.predictionDigest) {
+        return later.leaf;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Proves a settled prediction was recorded unedited before kickoff and was
+   * not replaced by another one before kickoff
+   */
+  async verifyRecord(record: PredictionAccuracy): Promise<LedgerVerification> {
+    const cacheKey = `${record.matchId}:${record.ledgerLeafHash || record.predictionTime || ''}`;
+    const cached = this.results.get(cacheKey);
+    if (cached) return cached;
+
+    let result: LedgerVerification | null = null;
+    try {
+      for (const date of this.candidateDates(record)) {
+        const proof = await this.getJson<LedgerProof>(`/ledger/proof?date=${date}&matchId=${encodeURIComponent(record.matchId)}`);
+        if (!proof) continue;
+        const chain = await this.getJson<{ entries: LedgerEntry[] }>(`/ledger/chain?until=${proof.entry.date}`);
+        result = await verifyPredictionInclusion(record, proof, chain?.entries || []);
+        if (result.status !== 'mismatch') break;
+      }
+
+      const later = result?.status === 'verified' && result.leaf ? await this.laterPrediction(result.leaf) : null;
+      if (result && later) {
+        result = {
+          ...result,
+          status: 'mismatch',
+          checks: { ...result.checks, predictionMatches: false },
+          message: `A different prediction for this match was recorded on ${later.predictedAt.slice(0, 10)}, before kickoff; only the last one counts`
+        };
+      }
+    } catch (error) {
+      console.warn('⚠️ Ledger verification failed:', error);
+      return {
+        status: 'not-found',
+        checks: { predictionMatches: false, inclusion: false, entryIntact: false, chainIntact: false, beforeKickoff: false },
+        message: 'The ledger could not be reached; try again later'
+      };
+    }
+
+    result = result || await verifyPredictionInclusion(record, null);
+    // Days still waiting to be sealed can turn up later (including ones that
+    // replace this prediction), so only final answers are kept
+    const kickoffSealed = !result.leaf || result.leaf.kickoff.slice(0, 10) < isoDay(Date.now());
+    if (result.status !== 'not-found' && kickoffSealed) this.results.set(cacheKey, result);
+    return result;
+  }
+}
+
+// Export singleton instance
+export const ledgerVerifier = new LedgerVerifier();
@@ -0,0 +1,235 @@
+import { LiveMatch, LiveMatchUpdate, MatchEvent } from '../types';
+import { resolveTeamName } from './teamDataService';
+import { isLeagueAllowed, isTeamAllowed } from './whitelistService';
+
+/**
+ * Live feed
+ * Shared by the /api/live/stream Pages Function and the browser client.
+ * The server polls API-Football once, diffs the live snapshot against the
+ * previous one and appends goal, card and status deltas to a numbered event
+ * log; clients apply those deltas and resume from their Last-Event-ID.
+ */
+
+export const LIVE_FEED_STATE_KEY = 'live_feed_state';
+export const LIVE_FEED_MAX_EVENTS = 200;
+
+const LIVE_STATUSES = ['LIVE', 'HT', '1H', '2H', 'ET', 'BT', 'P'];
+
+export type LiveFeedEventType = 'snapshot' | 'match' | 'goal' | 'card' | 'status' | 'removed';
+
+export type LiveFeedScore = Omit<LiveMatchUpdate, 'events'>;
+
+export interface LiveFeedEvent {
+  id: number;
+  type: LiveFeedEventType;
+  timestamp: string;
+  matchId?: string;
+  matches?: LiveMatch[]; // snapshot
+  match?: LiveMatch;     // match: newly live fixture
+  score?: LiveFeedScore; // goal, card, status: the match state after the change
+  event?: MatchEvent;    // goal, card: the new event (absent when the score moved before the event arrived)
+}
+
+export interface LiveFeedState {
+  lastEventId: number;
+  updatedAt: string | null;
+  matches: LiveMatch[];
+  events: LiveFeedEvent[];
+}
+
+export const createLiveFeedState = (): LiveFeedState => ({ lastEventId: 0, updatedAt: null, matches: [], events: [] });
+
+const eventPeriod = (elapsed: number, comments?: string | null): MatchEvent['period'] => {
+  if (comments === 'Penalty Shootout') return 'PEN';
+  if (elapsed <= 45) return '1H';
+  if (elapsed <= 90) return '2H';
+  return 'ET';
+};
+
+/**
+ * Goal, card and VAR events from an API-Football events array
+ */
+export const mapFixtureEvents = (fixtureId: string, events: any[], homeTeamId: number): MatchEvent[] =>
+  events
+    .filter((event: any) => ['Goal', 'Card', 'Var'].includes(event.type))
+    .map((event: any, index: number): MatchEvent => {
+      const elapsed = (event.time?.elapsed || 0) + (event.time?.extra || 0);
+      const isHome = event.team?.id === homeTeamId;
+      // API-Football lists own goals under the scoring player's team
+      const creditedHome = event.detail === 'Own Goal' ? !isHome : isHome;
+      return {
+        id: `${fixtureId}-${index}`,
+        type: event.type === 'Goal' ? 'goal' : event.type === 'Card' ? 'card' : 'var',
+        minute: elapsed,
+        period: eventPeriod(event.time?.elapsed || 0, event.comments),
+        team: creditedHome ? 'home' : 'away',
+        player: event.player?.name || '',
+        description: `${event.detail || event.type}${event.player?.name ? ` - ${event.player.name}` : ''}`,
+        timestamp: new Date().toISOString(),
+        detail: event.detail
+      };
+    });
+
+export const isAllowedLiveFixture = (fixture: any): boolean =>
+  LIVE_STATUSES.includes(fixture.fixture?.status?.short) &&
+  isLeagueAllowed(fixture.league?.name || '') &&
+  isTeamAllowed(fixture.teams?.home?.name || '') &&
+  isTeamAllowed(fixture.teams?.away?.name || '');
+
+/**
+ * LiveMatch from an API-Football /fixtures?live=all entry
+ */
+export const mapLiveFixture = (fixture: any): LiveMatch => {
+  const id = fixture.fixture.id.toString();
+  const short = fixture.fixture.status.short;
+  return {
+    id,
+    homeTeam: resolveTeamName(fixture.teams.home.name),
+    awayTeam: resolveTeamName(fixture.teams.away.name),
+    homeTeamId: fixture.teams.home.id,
+    awayTeamId: fixture.teams.away.id,
+    league: fixture.league.name as any,
+    date: fixture.fixture.date,
+    status: short === 'HT' || short === 'BT' ? 'HT' : 'LIVE',
+    homeScore: fixture.goals.home || 0,
+    awayScore: fixture.goals.away || 0,
+    homeScoreHT: fixture.score?.halftime?.home ?? undefined,
+    awayScoreHT: fixture.score?.halftime?.away ?? undefined,
+    minute: fixture.fixture.status.elapsed || undefined,
+    period: short === '1H' ? '1H' : short === '2H' ? '2H' : short === 'ET' ? 'ET' : short === 'P' ? 'PEN' : undefined,
+    venue: fixture.fixture.venue?.name,
+    referee: fixture.fixture.referee,
+    events: Array.isArray(fixture.events) ? mapFixtureEvents(id, fixture.events, fixture.teams.home.id) : [],
+    lastUpdated: new Date().toISOString()
+  };
+};
+
+export const toLiveFeedScore = (match: LiveMatch): LiveFeedScore => ({
+  matchId: match.id,
+  status: match.status,
+  homeScore: match.homeScore,
+  awayScore: match.awayScore,
+  minute: match.minute,
+  period: match.period,
+  lastUpdated: match.lastUpdated
+});
+
+// Index-based event ids shift when the API corrects an event, so compare content
+const eventKey = (event: MatchEvent): string => `${event.type}|${event.minute}|${event.team}|${event.player}|${event.detail || ''}`;
+
+type LiveFeedDelta = Omit<LiveFeedEvent, 'id' | 'timestamp'>;
+
+/**
+ * Deltas between two live snapshots, in the order clients should apply them
+ */
+export const diffLiveMatches = (previous: LiveMatch[], next: LiveMatch[]): LiveFeedDelta[] => {
+  const deltas: LiveFeedDelta[] = [];
+  const before = new Map(previous.map(match => [match.id, match]));
+  const nextIds = new Set(next.map(match => match.id));
+
+  next.forEach(match => {
+    const old = before.get(match.id);
+    if (!old) {
+      deltas.push({ type: 'match', matchId: match.id, match });
+      return;
+    }
+
+    const score = toLiveFeedScore(match);
+    const known = new Set((old.events || []).map(eventKey));
+    const added = (match.events || []).filter(event => !known.has(eventKey(event)));
+    const goals = added.filter(event => event.type === 'goal');
+
+    goals.forEach(event => deltas.push({ type: 'goal', matchId: match.id, score, event }));
+    if (goals.length === 0 && (match.homeScore !== old.homeScore || match.awayScore !== old.awayScore)) {
+      deltas.push({ type: 'goal', matchId: match.id, score });
+    }
+    added
+      .filter(event => event.type === 'card')
+      .forEach(event => deltas.push({ type: 'card', matchId: match.id, score, event }));
+
+    if (match.status !== old.status || match.period !== old.period || match.minute !== old.minute) {
+      deltas.push({ type: 'status', matchId: match.id, score });
+    }
+  });
+
+  previous
+    .filter(match => !nextIds.has(match.id))
+    .forEach(match => deltas.push({ type: 'removed', matchId: match.id }));
+
+  return deltas;
+};
+
+/**
+ * Append the deltas for a new snapshot to the event log, keeping the newest events
+ */
+export const advanceLiveFeed = (
+  state: LiveFeedState,
+  next: LiveMatch[],
+  timestamp = new Date().toISOString(),
+  maxEvents = LIVE_FEED_MAX_EVENTS
+): LiveFeedState => {
+  let lastEventId = state.lastEventId;
+  const added = diffLiveMatches(state.matches, next).map(delta => ({ ...delta, id: ++lastEventId, timestamp }));
+  return {
+    lastEventId,
+    updatedAt: timestamp,
+    matches: next,
+    events: [...state.events, ...added].slice(-maxEvents)
+  };
+};
+
+/**
+ * Events a client resuming from lastEventId has missed, or null when it needs a snapshot
+ * (first connection, ids older than the retained log, or a log that was reset)
+ */
+export const eventsSince = (state: LiveFeedState, lastEventId: number | null): LiveFeedEvent[] | null => {
+  if (lastEventId === null || !Number.isFinite(lastEventId) || lastEventId > state.lastEventId) return null;
+  const oldest = state.events[0]?.id ?? state.lastEventId + 1;
+  if (lastEventId < oldest - 1) return null;
+  return state.events.filter(event => event.id > lastEventId);
+};
+
+export const snapshotEvent = (state: LiveFeedState): LiveFeedEvent => ({
+  id: state.lastEventId,
+  type: 'snapshot',
+  timestamp: state.updatedAt || new Date().toISOString(),
+  matches: state.matches
+});
+
+export const formatSseEvent = (event: LiveFeedEvent): string =>
+  `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Apply a feed event to the client's live matches, keyed by match id
+ */
+export const applyLiveFeedEvent = (matches: Map<string, LiveMatch>, event: LiveFeedEvent): Map<string, LiveMatch> => {
+  switch (event.type) {
+    case 'snapshot':
+      matches.clear();
+      (event.matches || []).forEach(match => matches.set(match.id, match));
+      break;
+    case 'match':
+      if (event.match) matches.set(event.match.id, event.match);
+      break;
+    case 'removed':
+      if (event.matchId) matches.delete(event.matchId);
+      break;
+    default: {
+      const match = event.matchId ? matches.get(event.matchId) : undefined;
+      if (!match || !event.score) break;
+      const events = match.events || [];
+      const alreadyApplied = event.event && events.some(e => eventKey(e) === eventKey(event.event!));
+      matches.set(match.id, {
+        ...match,
+        status: event.score.status,
+        homeScore: event.score.homeScore,
+        awayScore: event.score.awayScore,
+        minute: event.score.minute,
+        period: event.score.period,
+        lastUpdated: event.score.lastUpdated,
+        events: event.event && !alreadyApplied ? [...events, event.event] : events
+      });
+    }
+  }
+  return matches;
+};
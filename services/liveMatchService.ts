@@ -1,7 +1,7 @@
 import { LiveMatch, LiveMatchUpdate, MatchEvent } from '../types';
-import { resolveTeamName } from './teamDataService';
 import { makeApiRequest } from './footballApiService';
 import { isLeagueAllowed, isTeamAllowed } from './whitelistService';
+import { isAllowedLiveFixture, mapLiveFixture } from './liveFeed';
 
 // League allow list moved to whitelistService for single source of truth
 
@@ -14,48 +14,10 @@ export const getLiveMatches = async (): Promise<LiveMatch[]> => {
       return [];
     }
     
-    // Transform API response to LiveMatch format
+    // Transform API response to LiveMatch format (same mapping as the server-side live feed)
     const liveMatches: LiveMatch[] = response.response
-      .filter((fixture: any) => {
-        // Filter for live status
-        const isLiveStatus = fixture.fixture.status.short === 'LIVE' ||
-                            fixture.fixture.status.short === 'HT' ||
-                            fixture.fixture.status.short === '1H' ||
-                            fixture.fixture.status.short === '2H';
-
-        // Strict league and team allow list checks
-        const leagueName = fixture.league?.name || '';
-        const leagueAllowed = isLeagueAllowed(leagueName);
-
-        const homeAllowed = isTeamAllowed(fixture.teams?.home?.name || '');
-        const awayAllowed = isTeamAllowed(fixture.teams?.away?.name || '');
-
-        // Reduced logging - only log when in development
-        if (isLiveStatus && (!leagueAllowed || !homeAllowed || !awayAllowed) && process.env.NODE_ENV === 'development') {
-          console.info(
-            `ℹ️ Filtering match (not in whitelist): ${leagueName} - ${fixture.teams?.home?.name} vs ${fixture.teams?.away?.name}`
-          );
-        }
-
-        return isLiveStatus && leagueAllowed && homeAllowed && awayAllowed;
-      })
-      .map((fixture: any) => ({
-        id: fixture.fixture.id.toString(),
-        homeTeam: resolveTeamName(fixture.teams.home.name),
-        awayTeam: resolveTeamName(fixture.teams.away.name),
-        league: fixture.league.name as any,
-        date: fixture.fixture.date,
-        status: fixture.fixture.status.short as LiveMatch['status'],
-        homeScore: fixture.goals.home || 0,
-        awayScore: fixture.goals.away || 0,
-        minute: fixture.fixture.status.elapsed || undefined,
-        period: fixture.fixture.status.short === '1H' ? '1H' :
-                fixture.fixture.status.short === '2H' ? '2H' : undefined,
-        venue: fixture.fixture.venue?.name,
-        referee: fixture.fixture.referee,
-        events: [], // TODO: Fetch match events if needed
-        lastUpdated: new Date().toISOString()
-      }));
+      .filter(isAllowedLiveFixture)
+      .map(mapLiveFixture);
     
     return liveMatches;
   } catch (error) {
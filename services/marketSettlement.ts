@@ -0,0 +1,221 @@
+import {
+  Prediction,
+  PredictionAccuracy,
+  AccuracyMarket,
+  SettlementResult,
+  FixtureStatistics,
+  LiveMatch,
+  MatchEvent,
+  HTFTPrediction
+} from '../types';
+
+/**
+ * Market settlement
+ * Builds the extended result record for a finished match and settles every
+ * prediction market against it. A market is void when the prediction did not
+ * include it or the result has no data for it, so it never counts as a miss.
+ */
+
+export const ACCURACY_MARKETS: AccuracyMarket[] = [
+  'outcome', 'scoreline', 'btts', 'goalLine', 'htft',
+  'scoreRange', 'firstGoalscorer', 'cleanSheet', 'corners'
+];
+
+// Markets that could never be settled before HT, event and statistics data were stored
+const LEGACY_VOID_MARKETS: AccuracyMarket[] = ['htft', 'firstGoalscorer', 'corners'];
+
+const CORNER_LINE = 9.5;
+
+export interface MarketSettlement {
+  accuracy: PredictionAccuracy['accuracy'];
+  voidMarkets: AccuracyMarket[];
+}
+
+type Side = 'home' | 'draw' | 'away';
+
+const sideOf = (home: number, away: number): Side => (home > away ? 'home' : home < away ? 'away' : 'draw');
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Strictly highest option; ties settle as a miss like the existing 1X2 logic
+const pickOf = <K extends string>(options: Record<K, number>): K | null => {
+  const entries = (Object.entries(options) as [K, number][]).filter(([, v]) => Number.isFinite(v));
+  if (entries.length === 0) return null;
+  entries.sort((a, b) => b[1] - a[1]);
+  return entries.length > 1 && entries[0][1] === entries[1][1] ? null : entries[0][0];
+};
+
+const HTFT_KEYS: Record<`${Side}-${Side}`, keyof HTFTPrediction> = {
+  'home-home': 'homeHome', 'home-draw': 'homeDraw', 'home-away': 'homeAway',
+  'draw-home': 'drawHome', 'draw-draw': 'drawDraw', 'draw-away': 'drawAway',
+  'away-home': 'awayHome', 'away-draw': 'awayDraw', 'away-away': 'awayAway'
+};
+
+/**
+ * Settle all markets of a prediction against the extended result record
+ */
+export const settlePrediction = (prediction: Prediction, result: SettlementResult): MarketSettlement => {
+  const { homeScore, awayScore } = result;
+  const totalGoals = homeScore + awayScore;
+  const voidMarkets: AccuracyMarket[] = [];
+  const settle = (market: AccuracyMarket, value: boolean | null): boolean => {
+    if (value === null) {
+      voidMarkets.push(market);
+      return false;
+    }
+    return value;
+  };
+
+  const actualOutcome = sideOf(homeScore, awayScore);
+  const predictedOutcome =
+    prediction.homeWinProbability > prediction.drawProbability &&
+    prediction.homeWinProbability > prediction.awayWinProbability ? 'home' :
+    prediction.awayWinProbability > prediction.drawProbability ? 'away' : 'draw';
+
+  const btts = prediction.btts
+    ? (homeScore > 0 && awayScore > 0
+      ? prediction.btts.yesProbability > prediction.btts.noProbability
+      : prediction.btts.noProbability > prediction.btts.yesProbability)
+    : null;
+
+  const goalLine = prediction.goalLine
+    ? (totalGoals > prediction.goalLine.line
+      ? prediction.goalLine.overProbability > prediction.goalLine.underProbability
+      : prediction.goalLine.underProbability > prediction.goalLine.overProbability)
+    : null;
+
+  let htft: boolean | null = null;
+  if (prediction.htft && isCount(result.homeScoreHT) && isCount(result.awayScoreHT)) {
+    const actual = HTFT_KEYS[`${sideOf(result.homeScoreHT, result.awayScoreHT)}-${actualOutcome}`];
+    htft = pickOf(prediction.htft as unknown as Record<keyof HTFTPrediction, number>) === actual;
+  }
+
+  let scoreRange: boolean | null = null;
+  if (prediction.scoreRange) {
+    const actual = totalGoals <= 1 ? 'zeroToOne' : totalGoals <= 3 ? 'twoToThree' : 'fourPlus';
+    scoreRange = pickOf({
+      zeroToOne: prediction.scoreRange.zeroToOne,
+      twoToThree: prediction.scoreRange.twoToThree,
+      fourPlus: prediction.scoreRange.fourPlus
+    }) === actual;
+  }
+
+  // A goalless match settles "first to score" without event data
+  const firstScorer = totalGoals === 0 ? 'none' : result.firstScoringTeam;
+  let firstGoalscorer: boolean | null = null;
+  if (prediction.firstGoalscorer && firstScorer) {
+    const actual = firstScorer === 'home' ? 'homeTeam' : firstScorer === 'away' ? 'awayTeam' : 'noGoalscorer';
+    firstGoalscorer = pickOf({
+      homeTeam: prediction.firstGoalscorer.homeTeam,
+      awayTeam: prediction.firstGoalscorer.awayTeam,
+      noGoalscorer: prediction.firstGoalscorer.noGoalscorer
+    }) === actual;
+  }
+
+  const cleanSheet = prediction.cleanSheet
+    ? (awayScore === 0
+      ? prediction.cleanSheet.homeTeam > (100 - prediction.cleanSheet.homeTeam)
+      : prediction.cleanSheet.homeTeam < (100 - prediction.cleanSheet.homeTeam)) ||
+      (homeScore === 0
+        ? prediction.cleanSheet.awayTeam > (100 - prediction.cleanSheet.awayTeam)
+        : prediction.cleanSheet.awayTeam < (100 - prediction.cleanSheet.awayTeam))
+    : null;
+
+  let corners: boolean | null = null;
+  if (prediction.corners && isCount(result.homeCorners) && isCount(result.awayCorners)) {
+    const over = result.homeCorners + result.awayCorners > CORNER_LINE;
+    corners = over ? prediction.corners.over > prediction.corners.under : prediction.corners.under > prediction.corners.over;
+  }
+
+  return {
+    accuracy: {
+      outcome: actualOutcome === predictedOutcome,
+      scoreline: prediction.predictedScoreline === `${homeScore}-${awayScore}`,
+      btts: settle('btts', btts),
+      goalLine: settle('goalLine', goalLine),
+      htft: settle('htft', htft),
+      scoreRange: settle('scoreRange', scoreRange),
+      firstGoalscorer: settle('firstGoalscorer', firstGoalscorer),
+      cleanSheet: settle('cleanSheet', cleanSheet),
+      corners: settle('corners', corners)
+    },
+    voidMarkets
+  };
+};
+
+/**
+ * Void markets of a stored record. Records settled before void tracking existed
+ * hard-coded HT/FT, first scorer and corners to false, so those count as void.
+ */
+export const getVoidMarkets = (record: PredictionAccuracy): AccuracyMarket[] => {
+  if (record.voidMarkets) return record.voidMarkets;
+  return LEGACY_VOID_MARKETS.filter(market => !record.accuracy?.[market]);
+};
+
+/**
+ * Team that scored first, from goal events in match order (shoot-out kicks excluded)
+ */
+export const findFirstScoringTeam = (events: MatchEvent[] = []): 'home' | 'away' | null => {
+  const periodOrder: Record<MatchEvent['period'], number> = { '1H': 0, '2H': 1, ET: 2, PEN: 3 };
+  const goals = events
+    .filter(e => e.type === 'goal' && e.period !== 'PEN' && !/missed/i.test(e.detail || ''))
+    .sort((a, b) => periodOrder[a.period] - periodOrder[b.period] || a.minute - b.minute);
+  return goals[0]?.team ?? null;
+};
+
+/**
+ * Extended result record from the final score plus whatever HT, event and statistics data exist
+ */
+export const buildSettlementResult = (source: {
+  homeScore: number;
+  awayScore: number;
+  homeScoreHT?: number | null;
+  awayScoreHT?: number | null;
+  events?: MatchEvent[];
+  statistics?: FixtureStatistics | null;
+}): SettlementResult => {
+  const result: SettlementResult = { homeScore: source.homeScore, awayScore: source.awayScore };
+
+  if (isCount(source.homeScoreHT) && isCount(source.awayScoreHT)) {
+    result.homeScoreHT = source.homeScoreHT;
+    result.awayScoreHT = source.awayScoreHT;
+  }
+
+  if (source.homeScore + source.awayScore === 0) {
+    result.firstScoringTeam = 'none';
+  } else {
+    const first = findFirstScoringTeam(source.events);
+    if (first) result.firstScoringTeam = first;
+  }
+
+  const stats = source.statistics;
+  if (stats && isCount(stats.homeCorners) && isCount(stats.awayCorners)) {
+    result.homeCorners = stats.homeCorners;
+    result.awayCorners = stats.awayCorners;
+  }
+
+  if (stats && (isCount(stats.homeYellowCards) || isCount(stats.homeRedCards))) {
+    result.cards = {
+      home: (stats.homeYellowCards || 0) + (stats.homeRedCards || 0),
+      away: (stats.awayYellowCards || 0) + (stats.awayRedCards || 0)
+    };
+  } else if (source.events?.length) {
+    const cards = source.events.filter(e => e.type === 'card');
+    result.cards = {
+      home: cards.filter(e => e.team === 'home').length,
+      away: cards.filter(e => e.team === 'away').length
+    };
+  }
+
+  return result;
+};
+
+export const buildSettlementFromLiveMatch = (match: LiveMatch, statistics?: FixtureStatistics | null): SettlementResult =>
+  buildSettlementResult({
+    homeScore: match.homeScore,
+    awayScore: match.awayScore,
+    homeScoreHT: match.homeScoreHT,
+    awayScoreHT: match.awayScoreHT,
+    events: match.events,
+    statistics
+  });
@@ -1,202 +1,7 @@
 import { Match, League, LeagueTableRow } from '../types';
+import { teamMetadataService } from './teamMetadataService';
 
-// TEAM PRESTIGE SCORES - Biggest teams get highest priority
-const TEAM_PRESTIGE_SCORES: { [teamName: string]: number } = {
-  // Tier 1: Global Superpowers (90-100 points)
-  'Manchester United': 100,
-  'Real Madrid': 100,
-  'Barcelona': 95,
-  'Liverpool': 95,
-  'Bayern Munich': 95,
-  'Manchester City': 90,
-  'Arsenal': 90,
-  'Chelsea': 90,
-  'Juventus': 90,
-  'AC Milan': 90,
-  'Inter': 90,
-  'Paris Saint Germain': 90,
-  
-  // Tier 2: Elite European Teams (75-85 points)
-  'Tottenham': 85,
-  'Atletico Madrid': 85,
-  'Borussia Dortmund': 85,
-  'Napoli': 80,
-  'Newcastle': 80,
-  'West Ham': 75,
-  'Aston Villa': 75,
-  'Brighton': 75,
-  'Sevilla': 75,
-  'Valencia': 75,
-  'Villarreal': 75,
-  'Athletic Club': 75,
-  'Real Sociedad': 75,
-  'Roma': 75,
-  'Lazio': 75,
-  'Atalanta': 75,
-  'Fiorentina': 75,
-  'RB Leipzig': 75,
-  'Bayer Leverkusen': 75,
-  'Eintracht Frankfurt': 75,
-  'Lyon': 75,
-  'Marseille': 75,
-  'Monaco': 75,
-  
-  // Tier 3: Strong Teams (50-70 points)
-  'Everton': 70,
-  'Leicester': 70,
-  'Crystal Palace': 65,
-  'Fulham': 65,
-  'Brentford': 65,
-  'Wolves': 65,
-  'Nottingham Forest': 65,
-  'Bournemouth': 60,
-  'Sheffield United': 55,
-  'Burnley': 55,
-  'Luton': 50,
-  'Real Betis': 70,
-  'Getafe': 60,
-  'Real Valladolid': 55,
-  'Osasuna': 55,
-  'Bologna': 65,
-  'Torino': 60,
-  'Genoa': 55,
-  'Lecce': 50,
-  'Werder Bremen': 65,
-  'Union Berlin': 60,
-  'Freiburg': 60,
-  'Hoffenheim': 55,
-  'Augsburg': 50,
-  'Lille': 65,
-  'Rennes': 60,
-  'Nice': 60,
-  'Montpellier': 55,
-  'Strasbourg': 50,
-  
-  // Add more teams as needed - default is 30 points for unlisted teams
-};
-
-// LEAGUE MULTIPLIERS - Simple league importance
-const LEAGUE_MULTIPLIERS: Partial<{ [key in League]: number }> = {
-  [League.ChampionsLeague]: 1.5,
-  [League.PremierLeague]: 1.3,
-  [League.LaLiga]: 1.2,
-  [League.SerieA]: 1.2,
-  [League.Bundesliga]: 1.2,
-  [League.Ligue1]: 1.1,
-  [League.EuropaLeague]: 1.1,
-  [League.EuropaConferenceLeague]: 1.0,
-  [League.Championship]: 0.7,
-};
-
-// Major rivalries (add more as needed)
-const RIVALRIES: { [key: string]: string[] } = {
-  // Premier League
-  'Manchester United': ['Manchester City', 'Liverpool', 'Arsenal', 'Chelsea', 'Leeds United'],
-  'Manchester City': ['Manchester United', 'Liverpool'],
-  'Liverpool': ['Manchester United', 'Manchester City', 'Everton', 'Chelsea'],
-  'Arsenal': ['Tottenham', 'Chelsea', 'Manchester United'],
-  'Chelsea': ['Arsenal', 'Tottenham', 'Liverpool', 'Manchester United'],
-  'Tottenham': ['Arsenal', 'Chelsea'],
-  'Everton': ['Liverpool'],
-  'Newcastle': ['Sunderland', 'Middlesbrough'],
-  'West Ham': ['Tottenham', 'Chelsea', 'Millwall'],
-  'Aston Villa': ['Birmingham City'],
-  'Leicester': ['Nottingham Forest', 'Derby County'],
-  'Nottingham Forest': ['Leicester', 'Derby County'],
-  'Southampton': ['Portsmouth'],
-  'Brighton': ['Crystal Palace'],
-  'Crystal Palace': ['Brighton'],
-  'Brentford': ['Fulham', 'QPR'],
-  'Fulham': ['Brentford', 'QPR', 'Chelsea'],
-  'Wolves': ['West Bromwich Albion', 'Birmingham City'],
-  'Bournemouth': ['Southampton'],
-  'Ipswich': ['Norwich City'],
-  
-  // La Liga
-  'Real Madrid': ['Barcelona', 'Atletico Madrid', 'Sevilla'],
-  'Barcelona': ['Real Madrid', 'Espanyol', 'Atletico Madrid'],
-  'Atletico Madrid': ['Real Madrid', 'Barcelona'],
-  'Sevilla': ['Real Betis', 'Real Madrid'],
-  'Real Betis': ['Sevilla'],
-  'Valencia': ['Villarreal', 'Levante'],
-  'Villarreal': ['Valencia'],
-  'Athletic Club': ['Real Sociedad'],
-  'Real Sociedad': ['Athletic Club'],
-  
-  // Serie A
-  'Juventus': ['Inter', 'AC Milan', 'Torino', 'Napoli'],
-  'Inter': ['AC Milan', 'Juventus', 'Napoli'],
-  'AC Milan': ['Inter', 'Juventus', 'Napoli'],
-  'Napoli': ['Juventus', 'Inter', 'AC Milan', 'Roma'],
-  'Roma': ['Lazio', 'Napoli'],
-  'Lazio': ['Roma'],
-  'Atalanta': ['Inter', 'AC Milan'],
-  'Fiorentina': ['Juventus', 'Inter', 'AC Milan'],
-  'Bologna': ['Inter', 'AC Milan'],
-  'Torino': ['Juventus'],
-  
-  // Bundesliga
-  'Bayern Munich': ['Borussia Dortmund', 'RB Leipzig', '1860 Munich'],
-  'Borussia Dortmund': ['Bayern Munich', 'Schalke 04', 'RB Leipzig'],
-  'RB Leipzig': ['Bayern Munich', 'Borussia Dortmund'],
-  'Bayer Leverkusen': ['Cologne'],
-  'Eintracht Frankfurt': ['Mainz 05'],
-  'Hoffenheim': ['Stuttgart'],
-  'Freiburg': ['Stuttgart'],
-  'Augsburg': ['1860 Munich'],
-  'Werder Bremen': ['Hamburg'],
-  'Stuttgart': ['Hoffenheim', 'Freiburg'],
-  
-  // Ligue 1
-  'Paris Saint Germain': ['Marseille', 'Lyon', 'Monaco'],
-  'Marseille': ['Paris Saint Germain', 'Lyon', 'Monaco'],
-  'Lyon': ['Paris Saint Germain', 'Marseille', 'Saint-Etienne'],
-  'Monaco': ['Paris Saint Germain', 'Marseille', 'Nice'],
-  'Lille': ['Lens', 'Lyon'],
-  'Lens': ['Lille'],
-  'Nice': ['Monaco', 'Marseille'],
-  'Rennes': ['Nantes'],
-  'Montpellier': ['Nimes'],
-  'Strasbourg': ['Metz'],
-  
-  // Primeira Liga (Portugal)
-  'Benfica': ['Porto', 'Sporting CP'],
-  'Porto': ['Benfica', 'Sporting CP'],
-  'Sporting CP': ['Benfica', 'Porto'],
-  'Braga': ['Vitória Guimarães'],
-  'Vitória Guimarães': ['Braga'],
-  
-  // Süper Lig (Turkey)
-  'Galatasaray': ['Fenerbahçe', 'Beşiktaş'],
-  'Fenerbahçe': ['Galatasaray', 'Beşiktaş'],
-  'Beşiktaş': ['Galatasaray', 'Fenerbahçe'],
-  'Trabzonspor': ['Fenerbahçe'],
-  'Başakşehir': ['Galatasaray', 'Fenerbahçe'],
-  
-  // Liga MX (Mexico)
-  'Club América': ['Guadalajara', 'Cruz Azul', 'UNAM'],
-  'Guadalajara': ['Club América', 'Atlas'],
-  'Cruz Azul': ['Club América', 'UNAM'],
-  'UNAM': ['Club América', 'Cruz Azul'],
-  'Tigres UANL': ['Monterrey'],
-  'Monterrey': ['Tigres UANL'],
-  'Santos Laguna': ['Monterrey'],
-  'Pachuca': ['Toluca'],
-  'Toluca': ['Pachuca'],
-  'León': ['Pachuca'],
-  
-  // Major League Soccer (MLS)
-  'LA Galaxy': ['LAFC', 'San Jose Earthquakes'],
-  'LAFC': ['LA Galaxy'],
-  'Seattle Sounders': ['Portland Timbers', 'Vancouver Whitecaps'],
-  'Portland Timbers': ['Seattle Sounders', 'Vancouver Whitecaps'],
-  'New York City FC': ['New York Red Bulls'],
-  'New York Red Bulls': ['New York City FC', 'DC United'],
-  'Atlanta United': ['Orlando City'],
-  'Inter Miami': ['Orlando City'],
-  'Toronto FC': ['Montreal Impact', 'Vancouver Whitecaps'],
-  'Vancouver Whitecaps': ['Seattle Sounders', 'Portland Timbers', 'Toronto FC']
-};
+// Prestige, league multipliers and derbies live in the team metadata store (data/team-metadata.json)
 
 // Prime time scoring (weekend matches and UK evening kickoffs get higher scores)
 const getPrimeTimeScore = (match: Match): number => {
@@ -267,18 +72,11 @@ const getTableContextScore = (match: Match, leagueTables: { [key in League]?: Le
   return score;
 };
 
-// Check if teams are rivals
-const isRivalry = (homeTeam: string, awayTeam: string): boolean => {
-  const homeRivals = RIVALRIES[homeTeam] || [];
-  const awayRivals = RIVALRIES[awayTeam] || [];
-  
-  return homeRivals.includes(awayTeam) || awayRivals.includes(homeTeam);
-};
+const homeSide = (match: Match) => ({ id: match.homeTeamId, name: match.homeTeam });
+const awaySide = (match: Match) => ({ id: match.awayTeamId, name: match.awayTeam });
 
-// Get team prestige score
-const getTeamPrestigeScore = (teamName: string): number => {
-  return TEAM_PRESTIGE_SCORES[teamName] || 30; // Default 30 for unlisted teams
-};
+// Check if teams are rivals
+const isRivalry = (match: Match): boolean => teamMetadataService.areRivals(homeSide(match), awaySide(match));
 
 // Main scoring function - SIMPLIFIED to prioritize biggest teams
 export const scoreMatch = (
@@ -286,16 +84,16 @@ export const scoreMatch = (
   leagueTables: { [key in League]?: LeagueTableRow[] } = {}
 ): number => {
   // Base score is the sum of both teams' prestige scores
-  const homeTeamScore = getTeamPrestigeScore(match.homeTeam);
-  const awayTeamScore = getTeamPrestigeScore(match.awayTeam);
+  const homeTeamScore = teamMetadataService.getPrestige(homeSide(match));
+  const awayTeamScore = teamMetadataService.getPrestige(awaySide(match));
   let totalScore = homeTeamScore + awayTeamScore;
   
   // Apply league multiplier
-  const leagueMultiplier = LEAGUE_MULTIPLIERS[match.league] || 1.0;
+  const leagueMultiplier = teamMetadataService.getLeagueMultiplier(match.league);
   totalScore = totalScore * leagueMultiplier;
   
   // Big rivalry bonus (still important for El Clasico, etc.)
-  if (isRivalry(match.homeTeam, match.awayTeam)) {
+  if (isRivalry(match)) {
     totalScore += 50;
   }
   
@@ -362,12 +160,12 @@ export const getMatchScoreBreakdown = (
   match: Match, 
   leagueTables: { [key in League]?: LeagueTableRow[] } = {}
 ) => {
-  const homeTeamScore = getTeamPrestigeScore(match.homeTeam);
-  const awayTeamScore = getTeamPrestigeScore(match.awayTeam);
+  const homeTeamScore = teamMetadataService.getPrestige(homeSide(match));
+  const awayTeamScore = teamMetadataService.getPrestige(awaySide(match));
   const baseScore = homeTeamScore + awayTeamScore;
-  const leagueMultiplier = LEAGUE_MULTIPLIERS[match.league] || 1.0;
+  const leagueMultiplier = teamMetadataService.getLeagueMultiplier(match.league);
   const leagueAdjustedScore = baseScore * leagueMultiplier;
-  const rivalryScore = isRivalry(match.homeTeam, match.awayTeam) ? 50 : 0;
+  const rivalryScore = isRivalry(match) ? 50 : 0;
   const weekendBonus = (new Date(match.date).getDay() === 0 || new Date(match.date).getDay() === 6) ? 10 : 0;
   const totalScore = Math.round(leagueAdjustedScore + rivalryScore + weekendBonus);
   
@@ -1,4 +1,4 @@
-import { Prediction, Match } from '../types';
+import { Prediction, Match, League } from '../types';
 import { RealTimeDataContext } from './realTimeDataService';
 
 // Cloudflare D1 Database types
@@ -14,6 +14,7 @@ interface D1PreparedStatement {
   bind(...values: any[]): D1PreparedStatement;
   first(): Promise<any>;
   run(): Promise<any>;
+  all(): Promise<{ results: any[] }>;
 }
 
 // ML Training Data Collection Service
@@ -138,9 +139,33 @@ export interface ModelPerformance {
   ligue1Accuracy: number;
   highQualityAccuracy: number;
   lowQualityAccuracy: number;
+  // Same metrics split by TrainingRecord.promptVersion ("unversioned" for older records)
+  byPromptVersion: Record<string, PromptVersionPerformance>;
   createdAt: string;
 }
 
+export interface PromptVersionPerformance {
+  promptVersion: string;
+  totalPredictions: number;
+  correct1x2Predictions: number;
+  correctBttsPredictions: number;
+  correctOver25Predictions: number;
+  accuracy1x2: number;
+  accuracyBtts: number;
+  accuracyOver25: number;
+  avgPredictionConfidence: number;
+  avgBrierScore: number;
+}
+
+const UNVERSIONED_PROMPT = 'unversioned';
+
+// Records with a known result, as needed for performance scoring
+type ScoredRecord = Pick<TrainingRecord,
+  'league' | 'promptVersion' | 'predictedHomeWin' | 'predictedDraw' | 'predictedAwayWin' |
+  'predictedBttsYes' | 'predictedOver25Yes' | 'predictionConfidence' | 'dataQualityOverall' |
+  'actualResult' | 'actualBtts' | 'actualOver25'
+>;
+
 class MLTrainingDataService {
   private currentModelVersion = 'v1.0.0';
   private isD1Available = false;
@@ -331,7 +356,7 @@ class MLTrainingDataService {
       awayAttackStrength: realTimeContext?.awayTeamDetailedStats?.attackStrength || 0,
       awayDefenseStrength: realTimeContext?.awayTeamDetailedStats?.defenseStrength || 0,
       
-      // Injury impact
+      // Injury impact (absenceImpactModel score, 0-100)
       homeInjuryImpact: realTimeContext?.homeTeamAbsences?.totalImpactScore || 0,
       awayInjuryImpact: realTimeContext?.awayTeamAbsences?.totalImpactScore || 0,
       homeKeyPlayersOut: realTimeContext?.homeTeamAbsences?.keyPlayersOut?.length || 0,
@@ -384,6 +409,7 @@ class MLTrainingDataService {
       // Model context
       modelVersion: this.currentModelVersion,
       aiProvider,
+      promptVersion: prediction.promptVersion,
       keyFactorsCount: prediction.keyFactors?.length || 0,
       
       createdAt: now
@@ -405,11 +431,13 @@ class MLTrainingDataService {
         form_data_completeness, h2h_data_depth, predicted_home_win, predicted_draw,
         predicted_away_win, predicted_btts_yes, predicted_btts_no, predicted_over25_yes,
         predicted_over25_no, predicted_home_score, predicted_away_score,
-        prediction_confidence, model_version, ai_provider, key_factors_count, created_at
+        prediction_confidence, model_version, ai_provider, key_factors_count, created_at,
+        prompt_version
       ) VALUES (
         ?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18, ?19,
         ?20, ?21, ?22, ?23, ?24, ?25, ?26, ?27, ?28, ?29, ?30, ?31, ?32, ?33, ?34, ?35, ?36,
-        ?37, ?38, ?39, ?40, ?41, ?42, ?43, ?44, ?45, ?46, ?47, ?48, ?49, ?50, ?51, ?52, ?53, ?54
+        ?37, ?38, ?39, ?40, ?41, ?42, ?43, ?44, ?45, ?46, ?47, ?48, ?49, ?50, ?51, ?52, ?53, ?54,
+        ?55
       )
     `);
 
@@ -429,7 +457,8 @@ class MLTrainingDataService {
       record.predictedDraw, record.predictedAwayWin, record.predictedBttsYes,
       record.predictedBttsNo, record.predictedOver25Yes, record.predictedOver25No,
       record.predictedHomeScore, record.predictedAwayScore, record.predictionConfidence,
-      record.modelVersion, record.aiProvider, record.keyFactorsCount, record.createdAt
+      record.modelVersion, record.aiProvider, record.keyFactorsCount, record.createdAt,
+      record.promptVersion ?? null
     ).run();
   }
 
@@ -477,13 +506,137 @@ class MLTrainingDataService {
   }
 
   private async getD1Performance(days: number): Promise<ModelPerformance | null> {
-    // Implementation for querying D1 performance data
-    return null;
+    const { results } = await ML_TRAINING_DB.prepare(`
+      SELECT league, prompt_version, predicted_home_win, predicted_draw, predicted_away_win,
+             predicted_btts_yes, predicted_over25_yes, prediction_confidence, data_quality_overall,
+             actual_result, actual_btts, actual_over25
+      FROM training_records
+      WHERE actual_result IS NOT NULL AND prediction_date >= DATE('now', ?1)
+    `).bind(`-${days} days`).all();
+
+    const records: ScoredRecord[] = (results || []).map(row => ({
+      league: row.league,
+      promptVersion: row.prompt_version ?? undefined,
+      predictedHomeWin: row.predicted_home_win,
+      predictedDraw: row.predicted_draw,
+      predictedAwayWin: row.predicted_away_win,
+      predictedBttsYes: row.predicted_btts_yes ?? undefined,
+      predictedOver25Yes: row.predicted_over25_yes ?? undefined,
+      predictionConfidence: row.prediction_confidence,
+      dataQualityOverall: row.data_quality_overall,
+      actualResult: row.actual_result,
+      actualBtts: row.actual_btts === null ? undefined : !!row.actual_btts,
+      actualOver25: row.actual_over25 === null ? undefined : !!row.actual_over25
+    }));
+
+    return this.summarizePerformance(records, days);
   }
 
   private async getLocalStoragePerformance(days: number): Promise<ModelPerformance | null> {
-    // Implementation for local storage performance analysis
-    return null;
+    if (typeof localStorage === 'undefined') return null;
+
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const records: ScoredRecord[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith('ml_training_')) continue;
+      try {
+        const record = JSON.parse(localStorage.getItem(key)!) as TrainingRecord;
+        if (record.actualResult && record.predictionDate >= cutoff) {
+          records.push(record);
+        }
+      } catch {
+        // Skip corrupt entries
+      }
+    }
+
+    return this.summarizePerformance(records, days);
+  }
+
+  private summarizePerformance(records: ScoredRecord[], days: number): ModelPerformance | null {
+    if (records.length === 0) return null;
+
+    const overall = this.scoreRecords(records);
+    const leagueAccuracy = (league: League) => this.scoreRecords(records.filter(r => r.league === league)).accuracy1x2;
+
+    const groups = new Map<string, ScoredRecord[]>();
+    for (const record of records) {
+      const version = record.promptVersion || UNVERSIONED_PROMPT;
+      groups.set(version, [...(groups.get(version) || []), record]);
+    }
+    const byPromptVersion: Record<string, PromptVersionPerformance> = {};
+    for (const [promptVersion, group] of groups) {
+      byPromptVersion[promptVersion] = { promptVersion, ...this.scoreRecords(group) };
+    }
+
+    const now = new Date();
+    const start = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const scoredMarkets = [overall.accuracy1x2, overall.accuracyBtts, overall.accuracyOver25];
+
+    return {
+      id: `perf_${this.currentModelVersion}_${now.getTime()}`,
+      modelVersion: this.currentModelVersion,
+      testPeriodStart: start.toISOString().split('T')[0],
+      testPeriodEnd: now.toISOString().split('T')[0],
+      totalPredictions: overall.totalPredictions,
+      correct1x2Predictions: overall.correct1x2Predictions,
+      correctBttsPredictions: overall.correctBttsPredictions,
+      correctOver25Predictions: overall.correctOver25Predictions,
+      accuracy1x2: overall.accuracy1x2,
+      accuracyBtts: overall.accuracyBtts,
+      accuracyOver25: overall.accuracyOver25,
+      overallAccuracy: scoredMarkets.reduce((sum, v) => sum + v, 0) / scoredMarkets.length,
+      avgPredictionConfidence: overall.avgPredictionConfidence,
+      // 1 = stated confidence matches the observed 1X2 hit rate
+      confidenceCalibration: 1 - Math.abs(overall.avgPredictionConfidence / 100 - overall.accuracy1x2),
+      avgBrierScore: overall.avgBrierScore,
+      premierLeagueAccuracy: leagueAccuracy(League.PremierLeague),
+      laLigaAccuracy: leagueAccuracy(League.LaLiga),
+      serieAAccuracy: leagueAccuracy(League.SerieA),
+      bundesligaAccuracy: leagueAccuracy(League.Bundesliga),
+      ligue1Accuracy: leagueAccuracy(League.Ligue1),
+      highQualityAccuracy: this.scoreRecords(records.filter(r => r.dataQualityOverall >= 70)).accuracy1x2,
+      lowQualityAccuracy: this.scoreRecords(records.filter(r => r.dataQualityOverall < 50)).accuracy1x2,
+      byPromptVersion,
+      createdAt: now.toISOString()
+    };
+  }
+
+  private scoreRecords(records: ScoredRecord[]) {
+    let correct1x2 = 0;
+    let bttsScored = 0, correctBtts = 0;
+    let over25Scored = 0, correctOver25 = 0;
+    let brierTotal = 0, confidenceTotal = 0;
+
+    for (const r of records) {
+      const probs = { H: r.predictedHomeWin / 100, D: r.predictedDraw / 100, A: r.predictedAwayWin / 100 };
+      const predicted = probs.H >= probs.D && probs.H >= probs.A ? 'H' : probs.A >= probs.D ? 'A' : 'D';
+      if (predicted === r.actualResult) correct1x2++;
+      brierTotal += (['H', 'D', 'A'] as const).reduce((sum, o) => sum + (probs[o] - (o === r.actualResult ? 1 : 0)) ** 2, 0);
+      confidenceTotal += r.predictionConfidence || 0;
+
+      if (r.predictedBttsYes !== undefined && r.actualBtts !== undefined) {
+        bttsScored++;
+        if ((r.predictedBttsYes >= 50) === r.actualBtts) correctBtts++;
+      }
+      if (r.predictedOver25Yes !== undefined && r.actualOver25 !== undefined) {
+        over25Scored++;
+        if ((r.predictedOver25Yes >= 50) === r.actualOver25) correctOver25++;
+      }
+    }
+
+    const n = records.length;
+    return {
+      totalPredictions: n,
+      correct1x2Predictions: correct1x2,
+      correctBttsPredictions: correctBtts,
+      correctOver25Predictions: correctOver25,
+      accuracy1x2: n ? correct1x2 / n : 0,
+      accuracyBtts: bttsScored ? correctBtts / bttsScored : 0,
+      accuracyOver25: over25Scored ? correctOver25 / over25Scored : 0,
+      avgPredictionConfidence: n ? confidenceTotal / n : 0,
+      avgBrierScore: n ? brierTotal / n : 0
+    };
   }
 }
 
@@ -0,0 +1,393 @@
+/**
+ * Football news aggregation: feed parsing, syndication dedupe, team/league
+ * tagging and injury/suspension detection.
+ *
+ * The cron worker fetches NEWS_FEEDS, runs every item through parseFeed and
+ * NewsTagger, and merges the result into the stored list with mergeArticles;
+ * the /news route answers with queryNews. Stories run by several outlets are
+ * kept once, under the outlet that published first.
+ *
+ * Runtime-neutral: no DOM or storage access (feeds are parsed without DOMParser).
+ */
+
+import { League, NewsAlert, NewsArticle, NewsSource, Team } from '../types';
+import { TEAM_DATA, getTeamAliases } from './teamDataService';
+import { foldText } from './searchIndex';
+
+export interface NewsFeed {
+  url: string;
+  source: NewsSource;
+}
+
+export const NEWS_FEEDS: NewsFeed[] = [
+  { url: 'https://feeds.bbci.co.uk/sport/football/rss.xml', source: 'BBC Sport' },
+  { url: 'https://www.espn.com/espn/rss/soccer/news', source: 'ESPN' },
+  { url: 'https://www.skysports.com/rss/12040', source: 'Sky Sports' },
+  { url: 'https://www.nbcsports.com/soccer/rss', source: 'NBC Sports' },
+  { url: 'https://sports.beinsports.com/en/rss', source: 'BeIN Sports' },
+  { url: 'https://www.goal.com/feeds/en/news', source: 'Goal.com' },
+  { url: 'https://feeds.feedburner.com/thefalse9', source: 'The False 9' },
+  { url: 'https://www.football365.com/feed', source: 'Football365' },
+  { url: 'https://feeds.feedburner.com/talkSPORTFootball', source: 'talkSPORT' },
+  { url: 'https://www.givemesport.com/rss', source: 'GiveMeSport' },
+  { url: 'https://www.fourfourtwo.com/news/rss', source: 'FourFourTwo' },
+  { url: 'https://talksport.com/football/rss/', source: 'TalkSport Football' },
+  { url: 'https://theathletic.com/rss/', source: 'The Athletic' },
+  { url: 'https://www.transfermarkt.com/rss/news', source: 'Transfermarkt' },
+  { url: 'https://www.football-italia.net/rss.xml', source: 'Football Italia' },
+  { url: 'https://www.marca.com/futbol.rss', source: 'Marca' },
+  { url: 'https://www.sport.es/es/rss/futbol/', source: 'Sport.es' },
+  { url: 'https://feeds.feedburner.com/mundodeportivo/futbol', source: 'Mundo Deportivo' },
+  { url: 'https://www.football.london/rss.xml', source: 'Football London' },
+  { url: 'https://www.90min.com/rss', source: '90min' },
+  { url: 'https://rss.cnn.com/rss/edition_football.rss', source: 'CNN Sports' }
+];
+
+const SNIPPET_LENGTH = 200;
+// Same story from two outlets: this share of headline words in common, published this close together
+const SYNDICATION_SIMILARITY = 0.7;
+const SYNDICATION_WINDOW_MS = 48 * 60 * 60 * 1000;
+const MIN_HEADLINE_WORDS = 4;
+
+export const NEWS_PAGE_SIZE = 20;
+export const MAX_NEWS_PAGE_SIZE = 50;
+
+// ---------------------------------------------------------------------------
+// Feed parsing (RSS 2.0 and Atom)
+// ---------------------------------------------------------------------------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', ndash: '–', mdash: '—', hellip: '…'
+};
+
+export const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const stripCdata = (value: string): string => value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+
+// Text of the first <tag> in an item, with CDATA unwrapped and entities decoded
+const tagText = (block: string, ...tags: string[]): string => {
+  for (const tag of tags) {
+    const found = block.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (found) return decodeEntities(stripCdata(found[1])).trim();
+  }
+  return '';
+};
+
+// Descriptions are often HTML (escaped or in CDATA): drop the markup, keep the words
+const plainText = (html: string): string =>
+  decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const truncate = (text: string, length: number): string => {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), length * 0.6)).trimEnd()}…`;
+};
+
+const itemLink = (block: string): string => {
+  const rss = tagText(block, 'link');
+  if (rss) return rss;
+  // Atom: <link rel="alternate" href="..."/>, the first alternate or untyped link
+  const links = [...block.matchAll(/<link\b([^>]*)\/?>/gi)].map(found => found[1]);
+  const alternate = links.find(attrs => !/rel="(?!alternate)/i.test(attrs));
+  return decodeEntities(alternate?.match(/href="([^"]+)"/i)?.[1] ?? '');
+};
+
+/**
+ * Items of an RSS or Atom document. Items without a title or a link are
+ * dropped; an unparseable date falls back to `now`.
+ */
+export const parseFeed = (xml: string, source: NewsSource, now: Date = new Date()): NewsArticle[] => {
+  const blocks = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) ?? [];
+  const articles: NewsArticle[] = [];
+  for (const block of blocks) {
+    const title = plainText(tagText(block, 'title'));
+    const link = itemLink(block);
+    if (!title || !/^https?:\/\//i.test(link)) continue;
+
+    const published = Date.parse(tagText(block, 'pubDate', 'published', 'updated', 'dc:date'));
+    articles.push({
+      id: articleId(link),
+      title,
+      link,
+      snippet: truncate(plainText(tagText(block, 'description', 'summary', 'content:encoded', 'content')), SNIPPET_LENGTH),
+      source,
+      publishedDate: new Date(Number.isNaN(published) ? now.getTime() : published).toISOString()
+    });
+  }
+  return articles;
+};
+
+// ---------------------------------------------------------------------------
+// Identity and syndication
+// ---------------------------------------------------------------------------
+
+/**
+ * The article URL without tracking parameters, fragment, "www." or a trailing slash
+ */
+export const canonicalLink = (link: string): string => {
+  try {
+    const url = new URL(link);
+    const params = [...url.searchParams.entries()].filter(([key]) => !/^(utm_|at_|ito$|cmpid$|ocid$)/i.test(key));
+    const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+    return `${url.hostname.replace(/^www\./, '').toLowerCase()}${url.pathname.replace(/\/+$/, '')}${query}`;
+  } catch {
+    return link.trim();
+  }
+};
+
+// FNV-1a, enough to key a few hundred URLs
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const articleId = (link: string): string => `news-${hashString(canonicalLink(link))}`;
+
+const HEADLINE_STOPWORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'at', 'as', 'is', 'vs', 'v', 'with', 'after', 'by', 'from']);
+
+const headlineWords = (title: string): Set<string> =>
+  new Set((foldText(title).match(/[a-z0-9]+/g) ?? []).filter(word => !HEADLINE_STOPWORDS.has(word)));
+
+/**
+ * Whether two headlines are the same story told by different outlets
+ */
+export const isSameStory = (a: NewsArticle, b: NewsArticle): boolean => {
+  if (canonicalLink(a.link) === canonicalLink(b.link)) return true;
+  if (Math.abs(Date.parse(a.publishedDate) - Date.parse(b.publishedDate)) > SYNDICATION_WINDOW_MS) return false;
+  const wordsA = headlineWords(a.title);
+  const wordsB = headlineWords(b.title);
+  if (wordsA.size < MIN_HEADLINE_WORDS || wordsB.size < MIN_HEADLINE_WORDS) return false;
+  let shared = 0;
+  wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+  return shared / (wordsA.size + wordsB.size - shared) >= SYNDICATION_SIMILARITY;
+};
+
+const byNewest = (a: NewsArticle, b: NewsArticle) => Date.parse(b.publishedDate) - Date.parse(a.publishedDate);
+
+/**
+ * Merge freshly fetched articles into the stored list: syndicated copies fold
+ * into the earliest telling of the story, entries older than `retentionMs`
+ * are dropped and at most `limit` are kept, newest first. `added` holds the
+ * stories that were not stored before.
+ */
+export const mergeArticles = (
+  stored: NewsArticle[],
+  fresh: NewsArticle[],
+  now: Date,
+  retentionMs: number,
+  limit: number
+): { articles: NewsArticle[]; added: NewsArticle[] } => {
+  const cutoff = now.getTime() - retentionMs;
+  const merged = stored.filter(article => Date.parse(article.publishedDate) >= cutoff).map(article => ({ ...article }));
+  const knownIds = new Set(merged.map(article => article.id));
+  const added: NewsArticle[] = [];
+
+  // Oldest first, so the original lands before its copies
+  for (const article of [...fresh].sort((a, b) => -byNewest(a, b))) {
+    if (Date.parse(article.publishedDate) < cutoff) continue;
+    const existing = merged.find(candidate => isSameStory(candidate, article));
+    if (!existing) {
+      const entry = { ...article };
+      merged.push(entry);
+      if (!knownIds.has(entry.id)) added.push(entry);
+      continue;
+    }
+    if (existing.id === article.id || existing.source === article.source) continue;
+    // A copy published earlier than what we hold becomes the original
+    if (Date.parse(article.publishedDate) < Date.parse(existing.publishedDate)) {
+      const { id, title, link, snippet, source, publishedDate } = article;
+      existing.syndicatedBy = [existing.source, ...(existing.syndicatedBy ?? [])].filter(s => s !== source);
+      Object.assign(existing, { id, title, link, snippet, source, publishedDate });
+    } else if (!existing.syndicatedBy?.includes(article.source)) {
+      existing.syndicatedBy = [...(existing.syndicatedBy ?? []), article.source];
+    }
+  }
+
+  const articles = merged.sort(byNewest).slice(0, limit);
+  return { articles, added: added.filter(article => articles.includes(article)) };
+};
+
+// ---------------------------------------------------------------------------
+// Entity tagging and alert detection
+// ---------------------------------------------------------------------------
+
+// Ways leagues are written in headlines, beyond their names
+const LEAGUE_KEYWORDS: Partial<Record<League, string[]>> = {
+  [League.PremierLeague]: ['epl'],
+  [League.LaLiga]: ['laliga'],
+  [League.Championship]: ['championship'],
+  [League.LeagueOne]: ['league one'],
+  [League.LeagueTwo]: ['league two'],
+  [League.ChampionsLeague]: ['champions league', 'ucl'],
+  [League.EuropaLeague]: ['europa league'],
+  [League.EuropaConferenceLeague]: ['conference league'],
+  [League.BrasileiraoSerieA]: ['brasileirao'],
+  [League.MLS]: ['mls'],
+  [League.SuperLig]: ['super lig']
+};
+
+const SUSPENSION = /\b(suspen\w*|banned|ban for|(\w+[- ])?match ban|red card|sent off|disciplinary)\b/;
+const INJURY = /\b(injur\w*|hamstring|groin|calf|knee|ankle|acl|ligament|fractur\w*|broken (leg|foot|ankle|arm)|surgery|sidelined|ruled out|out for (the season|weeks|months)|fitness (doubt|concern|blow|test)|concussion|muscle (problem|strain|injury))\b/;
+// Good news about an injury, or bans that are not about players
+const NOT_AN_ABSENCE = /\b(returns? from injury|back from injury|back in training|returns? to training|injury boost|fit again|recovered|overturned|rescinded|transfer ban|fans? ban\w*|stadium ban)\b/;
+
+/**
+ * Injury or suspension story, judged from the headline
+ */
+export const detectAlertKind = (title: string): NewsAlert['kind'] | null => {
+  const text = foldText(title);
+  if (NOT_AN_ABSENCE.test(text)) return null;
+  if (SUSPENSION.test(text)) return 'suspension';
+  if (INJURY.test(text)) return 'injury';
+  return null;
+};
+
+interface Phrase {
+  words: string[];
+  team?: string;
+  league?: League;
+}
+
+/**
+ * Tags articles with the TEAM_DATA teams (by name or alias) and the leagues
+ * they mention. Longer names win, so "Inter Milan" is Inter rather than Milan.
+ */
+export class NewsTagger {
+  private phrases = new Map<string, Phrase[]>();
+  private teamLeagues = new Map<string, League>();
+
+  constructor(teams: { [key: string]: Team } = TEAM_DATA) {
+    const leagues = new Set<string>(Object.values(League));
+    Object.entries(teams).forEach(([name, team]) => {
+      if (team?.league && leagues.has(team.league)) this.teamLeagues.set(name, team.league as League);
+      [name, ...getTeamAliases(name)].forEach(text => this.addPhrase(text, { team: name }));
+    });
+    (Object.values(League) as League[]).forEach(league => {
+      const names: string[] = [league, league.replace(/^EFL /, ''), ...(LEAGUE_KEYWORDS[league] ?? [])];
+      names.forEach(text => this.addPhrase(text, { league }));
+    });
+    this.phrases.forEach(list => list.sort((a, b) => b.words.length - a.words.length));
+  }
+
+  private addPhrase(text: string, target: Omit<Phrase, 'words'>) {
+    const words = foldText(text).match(/[a-z0-9]+/g) ?? [];
+    // One- and two-letter names are too ambiguous to find in prose
+    if (!words.length || (words.length === 1 && words[0].length < 3)) return;
+    const list = this.phrases.get(words[0]) ?? [];
+    if (!list.some(phrase => phrase.words.join(' ') === words.join(' '))) list.push({ words, ...target });
+    this.phrases.set(words[0], list);
+  }
+
+  /**
+   * Teams and leagues named in a piece of text, in order of appearance
+   */
+  entities(text: string): { teams: string[]; leagues: League[] } {
+    const words = foldText(text).match(/[a-z0-9]+/g) ?? [];
+    const teams: string[] = [];
+    const leagues: League[] = [];
+    for (let i = 0; i < words.length; i++) {
+      const phrase = (this.phrases.get(words[i]) ?? []).find(candidate =>
+        candidate.words.every((word, offset) => words[i + offset] === word)
+      );
+      if (!phrase) continue;
+      if (phrase.team && !teams.includes(phrase.team)) teams.push(phrase.team);
+      if (phrase.league && !leagues.includes(phrase.league)) leagues.push(phrase.league);
+      i += phrase.words.length - 1;
+    }
+    return { teams, leagues };
+  }
+
+  tag(article: NewsArticle): NewsArticle {
+    const headline = this.entities(article.title);
+    const body = this.entities(article.snippet);
+    const teams = [...new Set([...headline.teams, ...body.teams])];
+    const leagues = [...new Set([
+      ...headline.leagues,
+      ...body.leagues,
+      ...teams.map(team => this.teamLeagues.get(team)).filter((league): league is League => !!league)
+    ])];
+
+    const kind = detectAlertKind(article.title);
+    // Headlines lead with the club missing the player ("Arsenal sweat on Saka before Liverpool trip");
+    // without one there, only a snippet about a single team is specific enough
+    const alertTeams = headline.teams.length ? headline.teams.slice(0, 1) : teams.length === 1 ? teams : [];
+    const tagged: NewsArticle = { ...article, teams, leagues };
+    delete tagged.alert;
+    if (kind && alertTeams.length) tagged.alert = { kind, teams: alertTeams };
+    return tagged;
+  }
+}
+
+let defaultTagger: NewsTagger | null = null;
+
+export const tagArticle = (article: NewsArticle): NewsArticle =>
+  (defaultTagger ??= new NewsTagger()).tag(article);
+
+// ---------------------------------------------------------------------------
+// Querying
+// ---------------------------------------------------------------------------
+
+export interface NewsQuery {
+  team?: string;
+  league?: League | string;
+  alerts?: NewsAlert['kind'] | 'any';  // Only injury/suspension stories
+  q?: string;                          // Words in the headline or snippet
+  since?: string;                      // ISO date-time, exclusive
+  page?: number;                       // 1-based
+  pageSize?: number;
+}
+
+export interface NewsPage {
+  articles: NewsArticle[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  updatedAt: string | null;
+}
+
+const sameName = (a: string, b: string) => foldText(a) === foldText(b);
+
+/**
+ * Filter (every given criterion must hold) and paginate stored articles
+ */
+export const queryNews = (articles: NewsArticle[], query: NewsQuery = {}, updatedAt: string | null = null): NewsPage => {
+  const terms = query.q ? foldText(query.q).match(/[a-z0-9]+/g) ?? [] : [];
+  const since = query.since ? Date.parse(query.since) : NaN;
+
+  const matching = articles.filter(article => {
+    if (query.team && !article.teams?.some(team => sameName(team, query.team!))) return false;
+    if (query.league && !article.leagues?.some(league => sameName(league, query.league!))) return false;
+    if (query.alerts && (!article.alert || (query.alerts !== 'any' && article.alert.kind !== query.alerts))) return false;
+    if (!Number.isNaN(since) && Date.parse(article.publishedDate) <= since) return false;
+    if (terms.length) {
+      const text = foldText(`${article.title} ${article.snippet}`);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+
+  const pageSize = Math.min(MAX_NEWS_PAGE_SIZE, Math.max(1, query.pageSize ?? NEWS_PAGE_SIZE));
+  const page = Math.max(1, query.page ?? 1);
+  const start = (page - 1) * pageSize;
+  return {
+    articles: matching.slice(start, start + pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < matching.length,
+    updatedAt
+  };
+};
@@ -1,4 +1,7 @@
 import { Match } from '../types';
+import { clientStore } from './clientStore';
+import { isInQuietHours } from './pushSubscriptionModel';
+import { pushSubscriptionService } from './pushSubscriptionService';
 
 export interface NotificationPermission {
   granted: boolean;
@@ -11,12 +14,13 @@ export interface NotificationSettings {
   lineupPosted: boolean;
   goals: boolean;
   fullTime: boolean;
+  predictions: boolean;
   teamFollowed: boolean;
   leagueFollowed: boolean;
   quietHours: {
     enabled: boolean;
-    start: string; // HH:MM format
-    end: string;   // HH:MM format
+    start: string; // HH:MM format, in the user's timezone
+    end: string;   // HH:MM format, in the user's timezone
   };
 }
 
@@ -33,6 +37,7 @@ class NotificationService {
     lineupPosted: true,
     goals: true,
     fullTime: true,
+    predictions: true,
     teamFollowed: true,
     leagueFollowed: false,
     quietHours: {
@@ -47,10 +52,22 @@ class NotificationService {
     { id: 'lineup-posted', name: 'Lineup Posted', description: 'Get notified when team lineups are announced', enabled: true },
     { id: 'goals', name: 'Goals', description: 'Get notified when goals are scored', enabled: true },
     { id: 'full-time', name: 'Full Time', description: 'Get notified when matches end', enabled: true },
+    { id: 'predictions', name: 'Predictions', description: 'Get notified when predictions for your teams are ready', enabled: true },
     { id: 'team-followed', name: 'Followed Teams', description: 'Get notified about your followed teams', enabled: true },
     { id: 'league-followed', name: 'Followed Leagues', description: 'Get notified about your followed leagues', enabled: false }
   ];
 
+  // Topics are stored as the settings flags the push subscription reads
+  private static readonly TOPIC_SETTINGS: Record<string, keyof NotificationSettings> = {
+    'match-start': 'matchStart',
+    'lineup-posted': 'lineupPosted',
+    'goals': 'goals',
+    'full-time': 'fullTime',
+    'predictions': 'predictions',
+    'team-followed': 'teamFollowed',
+    'league-followed': 'leagueFollowed'
+  };
+
   private followedTeams: string[] = [];
   private followedLeagues: string[] = [];
 
@@ -92,6 +109,10 @@ class NotificationService {
 
     try {
       const permission = await Notification.requestPermission();
+      if (permission === 'granted') {
+        // Background delivery for when the tab is closed
+        void pushSubscriptionService.enable();
+      }
       return permission === 'granted';
     } catch (error) {
       console.error('Error requesting notification permission:', error);
@@ -305,55 +326,23 @@ class NotificationService {
 
   // Get notification topics
   getTopics(): NotificationTopic[] {
-    return [...this.topics];
+    return this.topics.map(topic => {
+      const setting = NotificationService.TOPIC_SETTINGS[topic.id];
+      return { ...topic, enabled: setting ? this.settings[setting] === true : topic.enabled };
+    });
   }
 
   // Update topic settings
   updateTopic(topicId: string, enabled: boolean): void {
-    const topic = this.topics.find(t => t.id === topicId);
-    if (topic) {
-      topic.enabled = enabled;
-      this.saveSettings();
+    const setting = NotificationService.TOPIC_SETTINGS[topicId];
+    if (setting) {
+      this.updateSettings({ [setting]: enabled } as Partial<NotificationSettings>);
     }
   }
 
-  // Check if it's quiet hours
+  // Check if it's quiet hours (the same rule the push worker applies)
   private isQuietHours(): boolean {
-    if (!this.settings.quietHours.enabled) return false;
-
-    const now = new Date();
-    const currentTime = now.getHours() * 60 + now.getMinutes();
-    const startTime = this.parseTime(this.settings.quietHours.start);
-    const endTime = this.parseTime(this.settings.quietHours.end);
-
-    if (startTime <= endTime) {
-      return currentTime >= startTime && currentTime <= endTime;
-    } else {
-      // Quiet hours span midnight
-      return currentTime >= startTime || currentTime <= endTime;
-    }
-  }
-
-  // Parse time string (HH:MM) to minutes
-  private parseTime(timeString: string): number {
-    if (!timeString || typeof timeString !== 'string') {
-      console.warn('Invalid time string provided to parseTime:', timeString);
-      return 0;
-    }
-
-    const parts = timeString.split(':');
-    if (parts.length !== 2) {
-      console.warn('Invalid time format, expected HH:MM:', timeString);
-      return 0;
-    }
-
-    const [hours, minutes] = parts.map(Number);
-    if (isNaN(hours) || isNaN(minutes) || hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
-      console.warn('Invalid time values in parseTime:', timeString);
-      return 0;
-    }
-
-    return hours * 60 + minutes;
+    return isInQuietHours(this.settings.quietHours, Intl.DateTimeFormat().resolvedOptions().timeZone);
   }
 
   // Initialize service worker
@@ -375,48 +364,42 @@ class NotificationService {
     }
   }
 
-  // Load settings from localStorage
+  // Load settings from the client store
   private loadSettings(): void {
     try {
-      const saved = localStorage.getItem('fixturecast_notification_settings');
-      if (saved) {
-        this.settings = { ...this.settings, ...JSON.parse(saved) };
-      }
+      this.settings = { ...this.settings, ...clientStore.get('notificationSettings') };
     } catch (error) {
       console.warn('Failed to load notification settings:', error);
     }
   }
 
-  // Save settings to localStorage
+  // Save settings to the client store
   private saveSettings(): void {
     try {
-      localStorage.setItem('fixturecast_notification_settings', JSON.stringify(this.settings));
+      clientStore.set('notificationSettings', { ...this.settings });
     } catch (error) {
       console.error('Failed to save notification settings:', error);
     }
   }
 
-  // Load followed items from localStorage
+  // Load followed items from the client store
   private loadFollowedItems(): void {
     try {
-      const saved = localStorage.getItem('fixturecast_followed_items');
-      if (saved) {
-        const data = JSON.parse(saved);
-        this.followedTeams = data.teams || [];
-        this.followedLeagues = data.leagues || [];
-      }
+      const data = clientStore.get('followedItems');
+      this.followedTeams = data.teams || [];
+      this.followedLeagues = data.leagues || [];
     } catch (error) {
       console.warn('Failed to load followed items:', error);
     }
   }
 
-  // Save followed items to localStorage
+  // Save followed items to the client store
   private saveFollowedItems(): void {
     try {
-      localStorage.setItem('fixturecast_followed_items', JSON.stringify({
-        teams: this.followedTeams,
-        leagues: this.followedLeagues
-      }));
+      clientStore.set('followedItems', {
+        teams: [...this.followedTeams],
+        leagues: [...this.followedLeagues]
+      });
     } catch (error) {
       console.error('Failed to save followed items:', error);
     }
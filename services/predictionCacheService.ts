@@ -1,4 +1,5 @@
 import { Match, Prediction } from '../types';
+import { clientStore } from './clientStore';
 
 /**
  * Smart prediction caching service
@@ -19,8 +20,9 @@ export class PredictionCacheService {
    */
   async getExistingPrediction(matchId: string): Promise<Prediction | null> {
     try {
-      // First check local storage for quick access
-      const localPrediction = this.getFromLocalStorage(matchId);
+      // First check the client store for quick access
+      await clientStore.ready();
+      const localPrediction = this.getFromStore(matchId);
       if (localPrediction) {
         console.log(`🎯 Found cached prediction locally for match ${matchId}`);
         return localPrediction;
@@ -39,7 +41,7 @@ export class PredictionCacheService {
         if (data.prediction) {
           console.log(`🎯 Found cached prediction in cloud for match ${matchId}`);
           // Cache locally for faster future access
-          this.saveToLocalStorage(matchId, data.prediction.prediction);
+          this.saveToStore(matchId, data.prediction.prediction);
           return data.prediction.prediction;
         }
       }
@@ -56,8 +58,8 @@ export class PredictionCacheService {
    */
   async savePrediction(match: Match, prediction: Prediction): Promise<void> {
     try {
-      // Save to local storage immediately
-      this.saveToLocalStorage(match.id, prediction);
+      // Save to the client store immediately
+      this.saveToStore(match.id, prediction);
 
       // Save to cloud storage (existing logic will handle this)
       const payload = {
@@ -127,12 +129,10 @@ export class PredictionCacheService {
     return false;
   }
 
-  private getFromLocalStorage(matchId: string): Prediction | null {
+  private getFromStore(matchId: string): Prediction | null {
     try {
-      const key = `prediction_${matchId}`;
-      const stored = localStorage.getItem(key);
-      if (stored) {
-        const data = JSON.parse(stored);
+      const data = clientStore.get('matchPredictions')[matchId];
+      if (data) {
         // Check if prediction is for today
         const predictionDate = new Date(data.timestamp).toDateString();
         const today = new Date().toDateString();
@@ -141,26 +141,23 @@ export class PredictionCacheService {
           return data.prediction;
         } else {
           // Remove old prediction
-          localStorage.removeItem(key);
+          clientStore.update('matchPredictions', ({ [matchId]: _stale, ...rest }) => rest);
         }
       }
     } catch (error) {
-      console.warn('Error reading from localStorage:', error);
+      console.warn('Error reading cached prediction:', error);
     }
     return null;
   }
 
-  private saveToLocalStorage(matchId: string, prediction: Prediction): void {
+  private saveToStore(matchId: string, prediction: Prediction): void {
     try {
-      const key = `prediction_${matchId}`;
-      const data = {
-        prediction,
-        timestamp: new Date().toISOString(),
-        matchId
-      };
-      localStorage.setItem(key, JSON.stringify(data));
+      clientStore.update('matchPredictions', cache => ({
+        ...cache,
+        [matchId]: { prediction, timestamp: new Date().toISOString(), matchId }
+      }));
     } catch (error) {
-      console.warn('Error saving to localStorage:', error);
+      console.warn('Error caching prediction:', error);
     }
   }
 
@@ -0,0 +1,284 @@
+/**
+ * Append-only, tamper-evident ledger of predictions.
+ *
+ * Every stored prediction becomes a leaf committing to the fixture, its
+ * kickoff, the server time it was recorded and a digest of the prediction
+ * itself. Once a day is over the cron worker seals that day's leaves into a
+ * Merkle root and chains it to the previous day's entry, so rewriting any
+ * past prediction changes a root and breaks every later link.
+ *
+ * Hashes (SHA-256, lowercase hex), reproducible without this code:
+ *   leaf  = H("\x00" + canonical JSON of the leaf)
+ *   node  = H("\x01" + left hex + right hex); an unpaired node moves up unchanged
+ *   entry = H(canonical JSON of the entry without entryHash)
+ * Canonical JSON is JSON with object keys sorted and undefined values dropped.
+ *
+ * Runtime-neutral: WebCrypto only, so it runs in the app, Pages Functions and the worker.
+ */
+
+export const LEDGER_LEAF_PREFIX = 'ledger:leaf:';
+export const LEDGER_DAY_PREFIX = 'ledger:day:';
+export const LEDGER_HEAD_KEY = 'ledger:head';
+export const LEDGER_GENESIS_HASH = '0'.repeat(64);
+
+// Leaves only need to outlive the sealing of their day
+const LEAF_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const ledgerLeafKey = (date: string, leafHash: string) => `${LEDGER_LEAF_PREFIX}${date}:${leafHash}`;
+export const ledgerDayKey = (date: string) => `${LEDGER_DAY_PREFIX}${date}`;
+
+export interface LedgerLeaf {
+  matchId: string;
+  kickoff: string;          // ISO time of the fixture
+  predictedAt: string;      // Server time the prediction was recorded
+  predictionDigest: string; // H(canonical JSON of the prediction)
+  source: 'app' | 'worker';
+}
+
+export interface LedgerEntry {
+  index: number;
+  date: string;             // UTC day whose leaves this entry seals
+  leafCount: number;
+  merkleRoot: string;
+  previousHash: string;
+  previousDate: string | null;
+  sealedAt: string;
+  entryHash: string;
+}
+
+export interface LedgerDay {
+  entry: LedgerEntry;
+  leaves: LedgerLeaf[];
+}
+
+export interface MerkleStep {
+  position: 'left' | 'right'; // Side the sibling sits on
+  hash: string;
+}
+
+export interface LedgerInclusion {
+  leaf: LedgerLeaf;
+  leafIndex: number;
+  path: MerkleStep[];
+}
+
+export interface LedgerProof {
+  entry: LedgerEntry;
+  proofs: LedgerInclusion[];
+}
+
+export type LedgerVerificationStatus = 'verified' | 'mismatch' | 'invalid' | 'not-found';
+
+export interface LedgerVerification {
+  status: LedgerVerificationStatus;
+  checks: {
+    predictionMatches: boolean;
+    inclusion: boolean;
+    entryIntact: boolean;
+    chainIntact: boolean;
+    beforeKickoff: boolean;
+  };
+  leaf?: LedgerLeaf;
+  entry?: LedgerEntry;
+  message: string;
+}
+
+// The parts of a KV namespace the ledger uses
+export interface LedgerKV {
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  list(options?: { prefix?: string; limit?: number; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+const encoder = new TextEncoder();
+
+const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+  }
+  return value;
+};
+
+/**
+ * JSON with sorted keys; values go through JSON first so a record that was
+ * stored and reloaded hashes the same as the original
+ */
+export const canonicalJson = (value: unknown): string => {
+  const plain = JSON.stringify(value);
+  return plain === undefined ? 'null' : JSON.stringify(sortKeys(JSON.parse(plain)));
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const predictionDigest = (prediction: unknown): Promise<string> => sha256Hex(canonicalJson(prediction));
+
+export const leafHash = (leaf: LedgerLeaf): Promise<string> => sha256Hex(`\x00${canonicalJson(leaf)}`);
+
+const nodeHash = (left: string, right: string): Promise<string> => sha256Hex(`\x01${left}${right}`);
+
+const nextLevel = async (level: string[]): Promise<string[]> => {
+  const next: string[] = [];
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? await nodeHash(level[i], level[i + 1]) : level[i]);
+  }
+  return next;
+};
+
+/**
+ * Merkle root over leaf hashes in order; an empty day hashes the empty string
+ */
+export const merkleRoot = async (leafHashes: string[]): Promise<string> => {
+  if (!leafHashes.length) return sha256Hex('');
+  let level = leafHashes;
+  while (level.length > 1) level = await nextLevel(level);
+  return level[0];
+};
+
+export const merkleProof = async (leafHashes: string[], index: number): Promise<MerkleStep[]> => {
+  const path: MerkleStep[] = [];
+  let level = leafHashes;
+  let position = index;
+  while (level.length > 1) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) path.push({ position: sibling < position ? 'left' : 'right', hash: level[sibling] });
+    level = await nextLevel(level);
+    position = Math.floor(position / 2);
+  }
+  return path;
+};
+
+export const verifyMerkleProof = async (hash: string, path: MerkleStep[], root: string): Promise<boolean> => {
+  let current = hash;
+  for (const step of path) {
+    current = step.position === 'left' ? await nodeHash(step.hash, current) : await nodeHash(current, step.hash);
+  }
+  return current === root;
+};
+
+export const entryHash = (entry: Omit<LedgerEntry, 'entryHash'> & { entryHash?: string }): Promise<string> => {
+  const { entryHash: _own, ...content } = entry;
+  return sha256Hex(canonicalJson(content));
+};
+
+/**
+ * Deterministic leaf order within a day: recording time, then hash
+ */
+export const sortLeaves = async (leaves: LedgerLeaf[]): Promise<{ leaves: LedgerLeaf[]; hashes: string[] }> => {
+  const hashed = await Promise.all(leaves.map(async leaf => ({ leaf, hash: await leafHash(leaf) })));
+  hashed.sort((a, b) => a.leaf.predictedAt.localeCompare(b.leaf.predictedAt) || a.hash.localeCompare(b.hash));
+  return { leaves: hashed.map(item => item.leaf), hashes: hashed.map(item => item.hash) };
+};
+
+/**
+ * Entries newest first, each intact and pointing at the next one
+ */
+export const verifyChain = async (entries: LedgerEntry[]): Promise<boolean> => {
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if ((await entryHash(entry)) !== entry.entryHash) return false;
+    const older = entries[i + 1];
+    if (older && (entry.previousHash !== older.entryHash || entry.previousDate !== older.date || entry.index !== older.index + 1)) return false;
+    if (!older && entry.index === 0 && entry.previousHash !== LEDGER_GENESIS_HASH) return false;
+  }
+  return true;
+};
+
+/**
+ * Records a leaf for a stored prediction; returns the leaf and its hash.
+ * Leaves live under their own keys, so concurrent writers never collide.
+ */
+export async function appendLedgerLeaf(
+  kv: LedgerKV,
+  input: { matchId: string | number; kickoff: string; prediction: unknown; source: LedgerLeaf['source'] },
+  now: Date = new Date()
+): Promise<{ leaf: LedgerLeaf; leafHash: string; date: string }> {
+  const leaf: LedgerLeaf = {
+    matchId: String(input.matchId),
+    kickoff: new Date(input.kickoff).toISOString(),
+    predictedAt: now.toISOString(),
+    predictionDigest: await predictionDigest(input.prediction),
+    source: input.source
+  };
+  const hash = await leafHash(leaf);
+  const date = leaf.predictedAt.slice(0, 10);
+  await kv.put(ledgerLeafKey(date, hash), JSON.stringify(leaf), { expirationTtl: LEAF_TTL_SECONDS });
+  return { leaf, leafHash: hash, date };
+}
+
+/**
+ * The leaf that stands for a match within a day: the last one recorded before
+ * kickoff (or the last one at all when none were). An earlier leaf for the
+ * match counts as replaced and never verifies on its own; otherwise recording
+ * every outcome would prove them all. Once the worker has recorded the match,
+ * only its leaves count, so an app leaf recorded later cannot displace it.
+ */
+export const canonicalInclusion = (proofs: LedgerInclusion[], matchId: string | number): LedgerInclusion | null => {
+  const recorded = proofs.filter(item => item.leaf.matchId === String(matchId));
+  const fromWorker = recorded.filter(item => item.leaf.source === 'worker');
+  const forMatch = fromWorker.length ? fromWorker : recorded;
+  const beforeKickoff = forMatch.filter(item => Date.parse(item.leaf.predictedAt) < Date.parse(item.leaf.kickoff));
+  const candidates = beforeKickoff.length ? beforeKickoff : forMatch;
+  return candidates.reduce<LedgerInclusion | null>((latest, item) =>
+    !latest || item.leaf.predictedAt > latest.leaf.predictedAt
+      || (item.leaf.predictedAt === latest.leaf.predictedAt && item.leafIndex > latest.leafIndex) ? item : latest, null);
+};
+
+const failed = (
+  status: LedgerVerificationStatus,
+  message: string,
+  checks: Partial<LedgerVerification['checks']> = {},
+  extra: Partial<LedgerVerification> = {}
+): LedgerVerification => ({
+  status,
+  message,
+  checks: { predictionMatches: false, inclusion: false, entryIntact: false, chainIntact: false, beforeKickoff: false, ...checks },
+  ...extra
+});
+
+/**
+ * Checks a stored prediction against the ledger: that an unedited copy of it
+ * is the match's canonical leaf in a sealed day, that the day's entry is
+ * intact and chained to the later entries given (newest first, ending at the
+ * proof's entry), and that it was recorded before kickoff
+ */
+export async function verifyPredictionInclusion(
+  record: { matchId: string | number; prediction: unknown },
+  proof: LedgerProof | null,
+  chain: LedgerEntry[] = proof ? [proof.entry] : []
+): Promise<LedgerVerification> {
+  if (!proof || !proof.proofs.length) return failed('not-found', 'No sealed ledger entry holds this prediction yet');
+
+  const inclusion = canonicalInclusion(proof.proofs, record.matchId);
+  if (!inclusion) return failed('not-found', 'No sealed ledger entry holds this prediction yet');
+
+  const digest = await predictionDigest(record.prediction);
+  if (inclusion.leaf.predictionDigest !== digest) {
+    const replaced = proof.proofs.some(item => item.leaf.matchId === String(record.matchId) && item.leaf.predictionDigest === digest);
+    return failed('mismatch', replaced
+      ? 'A different prediction for this match was recorded later, before kickoff; only the last one counts'
+      : 'The ledger holds a different prediction for this match; this copy was changed after it was recorded', {}, { entry: proof.entry });
+  }
+
+  const included = await verifyMerkleProof(await leafHash(inclusion.leaf), inclusion.path, proof.entry.merkleRoot);
+  const entryIntact = (await entryHash(proof.entry)) === proof.entry.entryHash;
+  const chainIntact = chain.length > 0 && chain[chain.length - 1].entryHash === proof.entry.entryHash && await verifyChain(chain);
+  const beforeKickoff = Date.parse(inclusion.leaf.predictedAt) < Date.parse(inclusion.leaf.kickoff);
+  const checks = { predictionMatches: true, inclusion: included, entryIntact, chainIntact, beforeKickoff };
+  const extra = { leaf: inclusion.leaf, entry: proof.entry };
+
+  if (!included || !entryIntact || !chainIntact) {
+    return failed('invalid', 'The inclusion proof or ledger chain does not check out', checks, extra);
+  }
+  if (!beforeKickoff) {
+    return failed('invalid', 'The prediction was recorded after kickoff', checks, extra);
+  }
+  return { status: 'verified', checks, message: `Recorded ${inclusion.leaf.predictedAt}, sealed in ledger entry #${proof.entry.index} (${proof.entry.date})`, ...extra };
+}
@@ -0,0 +1,291 @@
+import { Prediction, Match, PredictionContext, ConfidenceLevel } from '../types';
+import { getGeminiMatchPrediction } from './geminiService';
+import { getDeepSeekApiUsage } from './deepSeekService';
+import { rateLimitManager } from './rateLimitService';
+import { eloRatingService, EloRatingService } from './eloRatingService';
+import { dixonColesService, poissonProbability } from './dixonColesModel';
+
+/**
+ * Prediction provider registry
+ * Every prediction source (LLM or local model) registers behind one interface,
+ * and a routing policy decides which providers serve a request.
+ */
+
+export type PredictionProviderId = 'gemini' | 'deepseek' | 'dixon-coles' | 'elo' | (string & {});
+
+export type PredictionMarket =
+  | '1X2' | 'goalLine' | 'btts' | 'htft' | 'scoreRange' | 'firstGoalscorer'
+  | 'cleanSheet' | 'corners' | 'expectedGoals' | 'keyFactors';
+
+export interface ProviderCapabilities {
+  markets: PredictionMarket[];
+  requiresNetwork: boolean;
+  usesContext: boolean;       // Whether PredictionContext snippets influence the output
+  deterministic: boolean;     // Same inputs always give the same prediction
+}
+
+export interface PredictionProvider {
+  id: PredictionProviderId;
+  label: string;
+  description: string;
+  icon: string;
+  capabilities: ProviderCapabilities;
+  costPerPrediction: number;   // USD estimate per call (0 for local models)
+  rateLimitKey?: string;       // Key in rateLimitManager, when the provider is rate limited
+  expectedLatencyMs: number;
+  ensembleWeight: number;      // Relative weight in the consensus
+  isConfigured(): boolean;
+  predict(match: Match, context?: PredictionContext, accuracyStats?: any): Promise<Prediction>;
+}
+
+export interface ProviderStatus {
+  id: PredictionProviderId;
+  label: string;
+  configured: boolean;
+  rateLimited: boolean;
+  available: boolean;
+  waitTimeMs: number;
+}
+
+export type RoutingStrategy = 'single' | 'fallback' | 'ensemble';
+
+export interface RoutingPolicy {
+  strategy: RoutingStrategy;
+  primary: PredictionProviderId;
+  fallbacks: PredictionProviderId[];
+  ensemble: PredictionProviderId[];
+}
+
+export interface ResolvedRoute {
+  strategy: RoutingStrategy;
+  providers: PredictionProvider[]; // Ordered: primary first
+}
+
+const isLocalDevelopment = (): boolean => {
+  const isTestEnv = !!((typeof process !== 'undefined' && (process.env?.VITEST || process.env?.NODE_ENV === 'test')) || (import.meta as any)?.vitest);
+  return !isTestEnv && typeof window !== 'undefined' && window.location.hostname === 'localhost';
+};
+
+export class PredictionProviderRegistry {
+  private providers: Map<PredictionProviderId, PredictionProvider> = new Map();
+  private policy: RoutingPolicy | null = null;
+
+  register(provider: PredictionProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: PredictionProviderId): void {
+    this.providers.delete(id);
+  }
+
+  get(id: PredictionProviderId): PredictionProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): PredictionProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getStatus(id: PredictionProviderId): ProviderStatus | null {
+    const provider = this.providers.get(id);
+    if (!provider) return null;
+
+    const configured = provider.isConfigured();
+    const rateStatus = provider.rateLimitKey ? rateLimitManager.getStatus(provider.rateLimitKey) : null;
+    const rateLimited = !!rateStatus && !rateStatus.canMakeRequest;
+
+    return {
+      id: provider.id,
+      label: provider.label,
+      configured,
+      rateLimited,
+      available: configured && !rateLimited,
+      waitTimeMs: rateStatus?.waitTimeMs || 0
+    };
+  }
+
+  getAllStatuses(): ProviderStatus[] {
+    return this.list().map(p => this.getStatus(p.id)!);
+  }
+
+  isAvailable(id: PredictionProviderId): boolean {
+    return !!this.getStatus(id)?.available;
+  }
+
+  /**
+   * Default routing: DeepSeek leads in local development when configured, Gemini otherwise.
+   * Local models are always last in line because they never fail for network reasons.
+   */
+  getDefaultPolicy(): RoutingPolicy {
+    const deepSeekFirst = isLocalDevelopment() && !!this.get('deepseek')?.isConfigured();
+    const primary: PredictionProviderId = deepSeekFirst ? 'deepseek' : 'gemini';
+    const remote = this.list().filter(p => p.capabilities.requiresNetwork && p.id !== primary).map(p => p.id);
+    const local = this.list().filter(p => !p.capabilities.requiresNetwork && p.id !== primary).map(p => p.id);
+
+    return {
+      strategy: 'fallback',
+      primary,
+      fallbacks: [...remote, ...local],
+      ensemble: this.list().map(p => p.id)
+    };
+  }
+
+  getPolicy(): RoutingPolicy {
+    return this.policy || this.getDefaultPolicy();
+  }
+
+  setPolicy(policy: RoutingPolicy | null): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Pick the providers that will serve a request. Unavailable providers are skipped,
+   * so a blocked primary falls straight through to the next candidate.
+   */
+  resolveRoute(policy: RoutingPolicy = this.getPolicy()): ResolvedRoute {
+    const pick = (ids: PredictionProviderId[]) => Array.from(new Set(ids))
+      .map(id => this.get(id))
+      .filter((p): p is PredictionProvider => !!p && this.isAvailable(p.id));
+
+    if (policy.strategy === 'ensemble') {
+      return { strategy: 'ensemble', providers: pick(policy.ensemble) };
+    }
+    if (policy.strategy === 'single') {
+      return { strategy: 'single', providers: pick([policy.primary]) };
+    }
+    return { strategy: 'fallback', providers: pick([policy.primary, ...policy.fallbacks]) };
+  }
+}
+
+// ---- Built-in providers ----
+
+const LLM_MARKETS: PredictionMarket[] = [
+  '1X2', 'goalLine', 'btts', 'htft', 'scoreRange', 'firstGoalscorer',
+  'cleanSheet', 'corners', 'expectedGoals', 'keyFactors'
+];
+
+export const geminiProvider: PredictionProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  description: 'Fast & reliable',
+  icon: '🔮',
+  capabilities: { markets: LLM_MARKETS, requiresNetwork: true, usesContext: true, deterministic: false },
+  costPerPrediction: 0.002,
+  rateLimitKey: 'gemini',
+  expectedLatencyMs: 15000,
+  ensembleWeight: 1,
+  // Gemini is proxied server-side; the server enforces real availability
+  isConfigured: () => true,
+  predict: (match, context, accuracyStats) => getGeminiMatchPrediction(match, context, accuracyStats)
+};
+
+export const deepSeekProvider: PredictionProvider = {
+  id: 'deepseek',
+  label: 'DeepSeek V3.1',
+  description: 'Detailed analysis',
+  icon: '🤖',
+  capabilities: { markets: LLM_MARKETS, requiresNetwork: true, usesContext: true, deterministic: false },
+  costPerPrediction: 0.004,
+  rateLimitKey: 'deepseek',
+  expectedLatencyMs: 180000,
+  ensembleWeight: 1,
+  isConfigured: () => getDeepSeekApiUsage().isConfigured,
+  predict: async (match, context, accuracyStats) => {
+    const { getDeepSeekMatchPrediction } = await import('./deepSeekService');
+    return getDeepSeekMatchPrediction(match, context, accuracyStats);
+  }
+};
+
+/**
+ * Elo baseline: expected score from the rating engine mapped to 1X2, with
+ * independent Poisson goals for the goal line. Deterministic and offline.
+ */
+export const buildEloPrediction = (match: Match, ratingService: EloRatingService = eloRatingService): Prediction => {
+  const ratings = ratingService.getMatchRatings(match.homeTeam, match.awayTeam, match.league);
+  const expectedHome = ratings.winProbabilityFromElo;
+
+  // Draws are most likely between evenly matched sides
+  const draw = Math.max(0.12, 0.3 - 0.45 * Math.abs(expectedHome - 0.5));
+  const home = Math.max(0.02, expectedHome - draw / 2);
+  const away = Math.max(0.02, 1 - home - draw);
+  const total = home + draw + away;
+
+  const homeXg = Math.max(0.3, 1.35 + (expectedHome - 0.5) * 2.2);
+  const awayXg = Math.max(0.3, 1.15 - (expectedHome - 0.5) * 2.2);
+  let underProbability = 0;
+  for (let h = 0; h <= 2; h++) {
+    for (let a = 0; a <= 2 - h; a++) {
+      underProbability += poissonProbability(h, homeXg) * poissonProbability(a, awayXg);
+    }
+  }
+  const bttsYes = (1 - Math.exp(-homeXg)) * (1 - Math.exp(-awayXg));
+
+  const homeWinProbability = Math.round((home / total) * 100);
+  const awayWinProbability = Math.round((away / total) * 100);
+  const top = Math.max(home, draw, away) / total;
+
+  return {
+    homeWinProbability,
+    drawProbability: 100 - homeWinProbability - awayWinProbability,
+    awayWinProbability,
+    predictedScoreline: `${Math.round(homeXg)}-${Math.round(awayXg)}`,
+    confidence: top >= 0.55 ? ConfidenceLevel.High : top >= 0.42 ? ConfidenceLevel.Medium : ConfidenceLevel.Low,
+    keyFactors: [{
+      category: 'Elo Ratings',
+      points: [
+        `${match.homeTeam} ${ratings.homeElo} vs ${match.awayTeam} ${ratings.awayElo}`,
+        `Expected home score ${(expectedHome * 100).toFixed(1)}% including home advantage`
+      ]
+    }],
+    goalLine: {
+      line: 2.5,
+      overProbability: Math.round((1 - underProbability) * 100),
+      underProbability: Math.round(underProbability * 100)
+    },
+    btts: {
+      yesProbability: Math.round(bttsYes * 100),
+      noProbability: 100 - Math.round(bttsYes * 100)
+    },
+    expectedGoals: {
+      homeXg: Math.round(homeXg * 100) / 100,
+      awayXg: Math.round(awayXg * 100) / 100
+    }
+  };
+};
+
+export const dixonColesProvider: PredictionProvider = {
+  id: 'dixon-coles',
+  label: 'Dixon-Coles',
+  description: 'Offline score model',
+  icon: '📐',
+  capabilities: {
+    markets: ['1X2', 'goalLine', 'btts', 'htft', 'scoreRange', 'firstGoalscorer', 'cleanSheet', 'expectedGoals', 'keyFactors'],
+    requiresNetwork: false,
+    usesContext: false,
+    deterministic: true
+  },
+  costPerPrediction: 0,
+  expectedLatencyMs: 50,
+  ensembleWeight: 0.75,
+  isConfigured: () => true,
+  predict: async (match) => dixonColesService.predictMatch(match)
+};
+
+export const eloProvider: PredictionProvider = {
+  id: 'elo',
+  label: 'Elo Baseline',
+  description: 'Offline rating model',
+  icon: '📈',
+  capabilities: { markets: ['1X2', 'goalLine', 'btts', 'expectedGoals', 'keyFactors'], requiresNetwork: false, usesContext: false, deterministic: true },
+  costPerPrediction: 0,
+  expectedLatencyMs: 5,
+  ensembleWeight: 0.5,
+  isConfigured: () => true,
+  predict: async (match) => buildEloPrediction(match)
+};
+
+export const predictionProviderRegistry = new PredictionProviderRegistry();
+predictionProviderRegistry.register(geminiProvider);
+predictionProviderRegistry.register(deepSeekProvider);
+predictionProviderRegistry.register(dixonColesProvider);
+predictionProviderRegistry.register(eloProvider);
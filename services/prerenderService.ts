@@ -0,0 +1,229 @@
+/**
+ * Build-time prerendering of match, team and league pages.
+ *
+ * Crawlers and link-preview bots often never run the SPA, so the runtime
+ * JSON-LD from `schemaService` / `structuredDataUtils` never reaches them.
+ * `buildSnapshots` describes a static page per fixture, team and league
+ * (title, description, canonical URL, Open Graph / Twitter tags, JSON-LD and a
+ * plain HTML summary), and `renderSnapshot` writes one into the built
+ * index.html. The SPA mounts over the summary on load; the head tags stay until
+ * the page replaces them.
+ *
+ * Each snapshot carries a hash of its content, so the manifest keeps a page's
+ * previous `lastmod` when a rebuild produced the same content and the sitemap
+ * reports when a page actually changed.
+ *
+ * Runtime-neutral: used by scripts/prerender.ts and the sitemap Pages Function.
+ */
+
+import { League, Match, Team } from '../types';
+import { canonicalService } from './canonicalService';
+import { sha256Hex } from './predictionLedger';
+import { RouteName, href } from './routeTable';
+import { schemaService } from './schemaService';
+
+export interface PrerenderedPage {
+  route: RouteName;
+  path: string;
+  title: string;
+  description: string;
+  canonical: string;
+  image?: string;
+  jsonLd: string[];   // <script type="application/ld+json"> tags
+  body: string;       // Static summary rendered inside #root
+}
+
+export interface PrerenderManifestEntry {
+  path: string;
+  route: RouteName;
+  hash: string;
+  lastmod: string;
+}
+
+export interface PrerenderManifest {
+  generatedAt: string;
+  origin: string;     // Canonical origin the paths belong to
+  pages: PrerenderManifestEntry[];
+}
+
+export interface PrerenderInput {
+  origin: string;
+  fixtures: Match[];
+  teams: Record<string, Team>;
+  leagues: League[];
+}
+
+const SITE_NAME = 'FixtureCast';
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const kickOff = (match: Match): string =>
+  new Date(match.date).toLocaleString('en-GB', {
+    weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: 'UTC', timeZoneName: 'short'
+  });
+
+const score = (match: Match): string =>
+  match.homeScore !== undefined && match.awayScore !== undefined ? `${match.homeScore}-${match.awayScore}` : 'vs';
+
+const fixtureList = (matches: Match[]): string =>
+  matches.length === 0
+    ? '<p>No fixtures today.</p>'
+    : `<ul>${matches.map(match =>
+        `<li><a href="${href('match', { matchId: match.id })}">${escapeHtml(match.homeTeam)} ${score(match)} ${escapeHtml(match.awayTeam)}</a> · <time datetime="${escapeHtml(match.date)}">${kickOff(match)}</time></li>`
+      ).join('')}</ul>`;
+
+const snapshotBody = (heading: string, ...sections: string[]): string =>
+  `<main class="container mx-auto px-4 py-8 text-gray-100"><h1 class="text-3xl font-bold mb-4">${escapeHtml(heading)}</h1>${sections.join('')}</main>`;
+
+export const matchSnapshot = (match: Match, origin: string, teams: Record<string, Team> = {}): PrerenderedPage => {
+  const path = href('match', { matchId: match.id });
+  const title = `${match.homeTeam} vs ${match.awayTeam} Prediction · ${match.league} | ${SITE_NAME}`;
+  return {
+    route: 'match',
+    path,
+    title,
+    description: `${match.homeTeam} vs ${match.awayTeam} in the ${match.league}, kick-off ${kickOff(match)}. Form, team news and AI match prediction.`,
+    canonical: canonicalService.canonicalUrlFor(path, origin),
+    image: teams[match.homeTeam]?.logo,
+    jsonLd: [schemaService.generateJsonLdScript(match), schemaService.generateEventJsonLdScript(match)],
+    body: snapshotBody(
+      `${match.homeTeam} ${score(match)} ${match.awayTeam}`,
+      `<p><a href="${href('league', { league: match.league })}">${escapeHtml(match.league)}</a> · <time datetime="${escapeHtml(match.date)}">${kickOff(match)}</time>${match.venue ? ` · ${escapeHtml(match.venue)}` : ''}</p>`,
+      `<p><a href="${href('team', { team: match.homeTeam })}">${escapeHtml(match.homeTeam)}</a> · <a href="${href('team', { team: match.awayTeam })}">${escapeHtml(match.awayTeam)}</a></p>`
+    )
+  };
+};
+
+export const teamSnapshot = (teamName: string, team: Team | undefined, fixtures: Match[], origin: string): PrerenderedPage => {
+  const path = href('team', { team: teamName });
+  const teamFixtures = fixtures.filter(match => match.homeTeam === teamName || match.awayTeam === teamName);
+  const league = team?.league ? ` in the ${team.league}` : '';
+  const facts = [
+    team?.league && `<a href="${href('league', { league: String(team.league) })}">${escapeHtml(String(team.league))}</a>`,
+    team?.venue && escapeHtml(team.venue),
+    team?.founded && `Founded ${team.founded}`
+  ].filter(Boolean);
+  return {
+    route: 'team',
+    path,
+    title: `${teamName} Fixtures, Form & Predictions | ${SITE_NAME}`,
+    description: `${teamName} fixtures, recent form, squad and AI match predictions${league}.`,
+    canonical: canonicalService.canonicalUrlFor(path, origin),
+    image: team?.logo,
+    jsonLd: [schemaService.generateTeamSchema(teamName, teamFixtures)],
+    body: snapshotBody(teamName, facts.length ? `<p>${facts.join(' · ')}</p>` : '', fixtureList(teamFixtures))
+  };
+};
+
+export const leagueSnapshot = (league: League, fixtures: Match[], teams: Record<string, Team>, origin: string): PrerenderedPage => {
+  const path = href('league', { league });
+  const leagueFixtures = fixtures.filter(match => match.league === league);
+  const leagueTeams = Object.keys(teams).filter(name => teams[name].league === league).sort();
+  return {
+    route: 'league',
+    path,
+    title: `${league} Fixtures, Table & Predictions | ${SITE_NAME}`,
+    description: `${league} fixtures, live table and AI match predictions for every game.`,
+    canonical: canonicalService.canonicalUrlFor(path, origin),
+    jsonLd: [schemaService.generateLeagueSchema(league, leagueFixtures)],
+    body: snapshotBody(
+      league,
+      fixtureList(leagueFixtures),
+      leagueTeams.length
+        ? `<h2 class="text-xl font-semibold mt-6 mb-2">Teams</h2><ul>${leagueTeams.map(name => `<li><a href="${href('team', { team: name })}">${escapeHtml(name)}</a></li>`).join('')}</ul>`
+        : ''
+    )
+  };
+};
+
+/**
+ * Snapshots for today's fixtures, every known team and each league; team names
+ * that only appear in fixtures get a page too
+ */
+export const canonicalOrigin = (origin: string): string =>
+  canonicalService.canonicalUrlFor('/', origin).replace(/\/$/, '');
+
+export const buildSnapshots = ({ origin, fixtures, teams, leagues }: PrerenderInput): PrerenderedPage[] => {
+  // JSON-LD URLs use the canonical host, like the canonical tags
+  schemaService.setBaseUrl(canonicalOrigin(origin));
+
+  const teamNames = new Set([...Object.keys(teams), ...fixtures.flatMap(match => [match.homeTeam, match.awayTeam])]);
+  const pages = [
+    ...fixtures.map(match => matchSnapshot(match, origin, teams)),
+    ...[...teamNames].map(name => teamSnapshot(name, teams[name], fixtures, origin)),
+    ...[...new Set(leagues)].map(league => leagueSnapshot(league, fixtures, teams, origin))
+  ];
+
+  // Aliased names can share a slug; the first page for a path wins
+  const seen = new Set<string>();
+  return pages.filter(page => !seen.has(page.path) && seen.add(page.path));
+};
+
+const headTags = (page: PrerenderedPage): string => {
+  const meta = (attr: 'name' | 'property', key: string, content: string) =>
+    `<meta ${attr}="${key}" content="${escapeHtml(content)}" />`;
+  return [
+    meta('name', 'description', page.description),
+    `<link rel="canonical" href="${escapeHtml(page.canonical)}" />`,
+    meta('property', 'og:type', page.route === 'match' ? 'article' : 'website'),
+    meta('property', 'og:site_name', SITE_NAME),
+    meta('property', 'og:title', page.title),
+    meta('property', 'og:description', page.description),
+    meta('property', 'og:url', page.canonical),
+    ...(page.image ? [meta('property', 'og:image', page.image)] : []),
+    meta('name', 'twitter:card', 'summary'),
+    meta('name', 'twitter:title', page.title),
+    meta('name', 'twitter:description', page.description),
+    ...(page.image ? [meta('name', 'twitter:image', page.image)] : []),
+    ...page.jsonLd
+  ].join('\n    ');
+};
+
+/**
+ * The built index.html with the page's head tags and summary; the scripts stay,
+ * so the SPA boots as usual
+ */
+export const renderSnapshot = (template: string, page: PrerenderedPage): string => {
+  if (!/<div id="root"><\/div>/.test(template) || !template.includes('</head>')) {
+    throw new Error('Template needs an empty <div id="root"></div> and a </head>');
+  }
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, '')
+    .replace('</head>', `  <title>${escapeHtml(page.title)}</title>\n    ${headTags(page)}\n  </head>`)
+    .replace('<div id="root"></div>', () => `<div id="root" data-prerendered="${escapeHtml(page.path)}">${page.body}</div>`);
+};
+
+/**
+ * Output file for a path: '/match/123' → 'match/123.html', which Pages serves
+ * at the extensionless URL
+ */
+export const snapshotFile = (path: string): string => `${path.replace(/^\/+/, '')}.html`;
+
+export const snapshotHash = (page: PrerenderedPage): Promise<string> =>
+  sha256Hex(JSON.stringify([page.title, page.description, page.canonical, page.image ?? '', page.jsonLd, page.body]));
+
+/**
+ * Manifest for this build; pages whose content hash matches the previous
+ * build keep their lastmod
+ */
+export const buildManifest = async (
+  pages: PrerenderedPage[],
+  origin: string,
+  generatedAt: Date,
+  previous?: PrerenderManifest | null
+): Promise<PrerenderManifest> => {
+  const earlier = new Map((previous?.pages ?? []).map(entry => [entry.path, entry]));
+  const now = generatedAt.toISOString();
+  const entries = await Promise.all(pages.map(async (page): Promise<PrerenderManifestEntry> => {
+    const hash = await snapshotHash(page);
+    const before = earlier.get(page.path);
+    return { path: page.path, route: page.route, hash, lastmod: before?.hash === hash ? before.lastmod : now };
+  }));
+  return { generatedAt: now, origin: canonicalOrigin(origin), pages: entries };
+};
@@ -0,0 +1,445 @@
+import { Match, PredictionContext } from '../types';
+import type { RealTimeDataContext } from './realTimeDataService';
+import { clientStore } from './clientStore';
+
+// Prompt Registry
+// Named, versioned prompt templates for LLM predictions. Each match is bucketed
+// deterministically into one version per template so accuracy can be attributed
+// to the prompt that produced it (see TrainingRecord.promptVersion).
+// Shared by the client services and the Gemini Pages Function, so keep it free
+// of runtime imports other than the dependency-free client store.
+
+export type PromptTemplateId = 'gemini-match' | 'deepseek-match';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string;
+  description: string;
+  createdAt: string;
+  // Text with {{slot}} placeholders; unknown slots render as empty strings
+  text: string;
+}
+
+export interface PromptVariant {
+  version: string;
+  weight: number;
+}
+
+export interface PromptAssignment {
+  templateId: PromptTemplateId;
+  version: string;
+  promptVersion: string; // "<templateId>@<version>", as recorded on predictions
+  bucket: number; // 0-1, stable per template + match
+}
+
+export interface RenderedPrompt extends PromptAssignment {
+  text: string;
+}
+
+export type PromptSlots = Record<string, string>;
+
+export interface PromptSlotSources {
+  context?: PredictionContext;
+  realTimeContext?: RealTimeDataContext;
+  // Pre-formatted blocks (realTimeDataService.formatForPrompt, advancedAnalyticsService.formatAnalyticsForPrompt)
+  realTimeSummary?: string;
+  analyticsSummary?: string;
+}
+
+// Slots the Gemini proxy accepts from the client; match and context slots are rebuilt server-side
+export const CLIENT_SUPPLIED_SLOTS = ['realTimeSummary', 'analyticsSummary', 'dataQuality', 'homeAbsences', 'awayAbsences'] as const;
+
+const GEMINI_OUTPUT_FORMAT = `OUTPUT FORMAT REQUIREMENTS
+Return a JSON object with ALL required fields. Each field must be fully populated:
+
+- homeWinProbability: integer 0-100 (based on sophisticated modeling, not gut feeling)
+- drawProbability: integer 0-100
+- awayWinProbability: integer 0-100
+- predictedScoreline: string (most likely outcome from Monte Carlo analysis)
+- confidence: string ("High", "Medium", or "Low" based on data quality and model agreement)
+- keyFactors: MANDATORY detailed array. Each object MUST have:
+  * "category": string (e.g., "Form Analysis", "Tactical Matchup", "Key Players", "Historical Trends")
+  * "points": array of strings with SPECIFIC analysis points (NOT empty, NOT generic)
+
+CRITICAL: keyFactors "points" arrays must contain specific, actionable insights like:
+  - "Arsenal averages 2.1 goals at home vs Chelsea's 0.8 away defensive record"
+  - "Forest's injury to key striker reduces their scoring threat by 35%"
+  - "Head-to-head shows 7 of last 10 meetings had under 2.5 goals"
+
+- goalLine: object with "line" (typically 2.5), "overProbability", "underProbability"
+- btts: object with "yesProbability", "noProbability" based on attack/defense rates
+
+Do NOT return empty points arrays or vague statements. Every keyFactor must provide specific, data-driven insights.
+
+Apply rigorous statistical thinking. Consider base rates, regression to the mean, sample sizes, and uncertainty. Provide probabilities that reflect genuine analytical confidence, not artificial precision.
+
+Return ONLY the JSON object, no other text.`;
+
+const TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'gemini-match',
+    version: 'v1',
+    description: 'Original proxy prompt: match details, raw context entries and modeling checklist',
+    createdAt: '2025-09-01',
+    text: `You are an advanced football prediction engine using state-of-the-art modeling techniques. Generate comprehensive predictions with detailed analysis.
+
+MATCH DETAILS
+- League: {{league}}
+- Home Team: {{homeTeam}}
+- Away Team: {{awayTeam}}
+- Date: {{date}}
+
+{{contextData}}
+
+ADVANCED MODELING APPROACH
+Apply these sophisticated techniques in your analysis:
+- ELO rating system with dynamic adjustments for recent form
+- Monte Carlo simulation for scoreline probabilities (consider 1000+ scenarios)
+- Temporal analysis with exponential decay weighting (recent matches weighted higher)
+- Bayesian inference for uncertainty quantification
+- Market efficiency principles (if this were a betting market, what would be fair odds?)
+- Weather/conditions impact on gameplay style
+- Referee tendencies and their impact on match flow
+- Psychological factors (pressure situations, rivalry intensity)
+- Squad rotation and fatigue modeling
+- Tactical matchup analysis (style compatibility)
+
+ENHANCED FEATURE ANALYSIS
+Consider these advanced metrics:
+- Attack/Defense efficiency rates adjusted for opposition quality
+- xG trends over last 10 matches with opponent adjustment
+- Home advantage quantified by league and specific venue
+- Form momentum (not just W/L/D but performance quality trends)
+- Set-piece effectiveness (corners, free kicks conversion rates)
+- Discipline patterns (cards per game, impact on team shape)
+- Injury impact weighted by player importance (minutes played, key player index)
+- Fixture congestion effects on performance
+
+${GEMINI_OUTPUT_FORMAT}`
+  },
+  {
+    id: 'gemini-match',
+    version: 'v2',
+    description: 'Real-time first: labelled context snippets, analytics and API-Football real-time block with data-quality rules',
+    createdAt: '2025-10-01',
+    text: `You are an advanced football prediction engine. Real-time API-Football data takes priority over historical averages whenever its quality score is high.
+
+MATCH DETAILS
+- League: {{league}}
+- Home Team: {{homeTeam}}
+- Away Team: {{awayTeam}}
+- Date: {{date}}
+
+CONTEXT (provided)
+{{contextSnippets}}
+{{analyticsSummary}}
+{{realTimeSummary}}
+
+REAL-TIME DATA RULES
+- Real-time data quality: {{dataQuality}}
+- Key absences ({{homeTeam}}): {{homeAbsences}}
+- Key absences ({{awayTeam}}): {{awayAbsences}}
+- When quality is above 70%, weight injuries, momentum and recent form over season averages
+- When quality is below 50%, widen uncertainty, lower confidence and say which data was missing
+- Do not infer data that is not in the context above
+
+MODELING
+- ELO baseline adjusted for recent form and absences
+- Poisson/Monte Carlo scorelines consistent with the 1X2 probabilities and expected goals
+- Bayesian shrinkage towards league base rates for small samples
+- Home advantage by league and venue; fixture congestion and rest days
+
+${GEMINI_OUTPUT_FORMAT}`
+  },
+  {
+    id: 'deepseek-match',
+    version: 'v1',
+    description: 'Original local-development DeepSeek prompt with inline JSON schema',
+    createdAt: '2025-09-01',
+    text: `You are an advanced football prediction AI using the DeepSeek-V3.1-Terminus reasoning model. Generate a detailed, probabilistic prediction for this football match.
+
+**REASONING APPROACH:**
+1. Analyze all available data systematically
+2. Consider statistical patterns, team form, head-to-head records
+3. Apply probabilistic reasoning to all market predictions
+4. Ensure all probability sets sum to 100%
+5. Provide detailed reasoning for confidence levels
+
+**MATCH DETAILS:**
+- League: {{league}}
+- Home Team: {{homeTeam}}
+- Away Team: {{awayTeam}}
+- Date: {{date}}
+
+MATCH CONTEXT DATA:
+{{contextSnippets}}
+
+**REQUIRED OUTPUT:**
+Return a JSON object with the following structure (ensure all probabilities are integers that sum to 100%):
+
+{
+  "homeWinProbability": <0-100>,
+  "drawProbability": <0-100>,
+  "awayWinProbability": <0-100>,
+  "predictedScoreline": "<score like 2-1>",
+  "confidence": "<Low|Medium|High>",
+  "keyFactors": [
+    {
+      "category": "Statistical Analysis",
+      "points": ["Point 1", "Point 2", "Point 3"]
+    },
+    {
+      "category": "Form Analysis",
+      "points": ["Point 1", "Point 2"]
+    },
+    {
+      "category": "Tactical Insights",
+      "points": ["Point 1", "Point 2"]
+    },
+    {
+      "category": "Risk Factors",
+      "points": ["Point 1", "Point 2"]
+    }
+  ],
+  "goalLine": {
+    "line": 2.5,
+    "overProbability": <0-100>,
+    "underProbability": <0-100>
+  },
+  "btts": {
+    "yesProbability": <0-100>,
+    "noProbability": <0-100>
+  },
+  "htft": {
+    "homeHome": <0-100>,
+    "homeDraw": <0-100>,
+    "homeAway": <0-100>,
+    "drawHome": <0-100>,
+    "drawDraw": <0-100>,
+    "drawAway": <0-100>,
+    "awayHome": <0-100>,
+    "awayDraw": <0-100>,
+    "awayAway": <0-100>
+  },
+  "scoreRange": {
+    "zeroToOne": <0-100>,
+    "twoToThree": <0-100>,
+    "fourPlus": <0-100>
+  },
+  "firstGoalscorer": {
+    "homeTeam": <0-100>,
+    "awayTeam": <0-100>,
+    "noGoalscorer": <0-100>
+  },
+  "cleanSheet": {
+    "homeTeam": <0-100>,
+    "awayTeam": <0-100>
+  },
+  "corners": {
+    "over": <0-100>,
+    "under": <0-100>
+  },
+  "expectedGoals": {
+    "homeXg": <decimal like 1.8>,
+    "awayXg": <decimal like 1.2>
+  },
+  "modelWeights": {
+    "statistical": <0-100>,
+    "tactical": <0-100>,
+    "form": <0-100>,
+    "historical": <0-100>
+  },
+  "uncertaintyMetrics": {
+    "predictionVariance": <0-100>,
+    "dataQuality": "<High|Medium|Low>",
+    "modelAgreement": <0-100>
+  }
+}
+
+**CRITICAL REQUIREMENTS:**
+- All probability pairs/sets must sum to exactly 100
+- Use realistic football scorelines (0-0 to 5-5 range)
+- Base confidence on data quality and model agreement
+- Provide substantive analysis in keyFactors
+- Consider injury impacts, form trends, and tactical matchups
+- Return ONLY valid JSON, no additional text`
+  }
+];
+
+// Traffic split per template; weights are relative and need not sum to 100
+const DEFAULT_EXPERIMENTS: Record<PromptTemplateId, PromptVariant[]> = {
+  'gemini-match': [
+    { version: 'v1', weight: 50 },
+    { version: 'v2', weight: 50 }
+  ],
+  'deepseek-match': [{ version: 'v1', weight: 100 }]
+};
+
+export const formatPromptVersion = (templateId: PromptTemplateId, version: string): string => `${templateId}@${version}`;
+
+/**
+ * FNV-1a 32-bit hash mapped to [0, 1). Stable across runtimes, so the browser
+ * and the Pages Function agree on a match's bucket.
+ */
+export const hashToUnit = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+const formatDate = (date: string): string => {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? date : parsed.toISOString();
+};
+
+const formatAbsences = (absences?: RealTimeDataContext['homeTeamAbsences']): string => {
+  if (!absences || absences.keyPlayersOut.length === 0) return 'None reported';
+  const players = absences.keyPlayersOut.map(p => `${p.name} (${p.position}, ${p.importance})`).join(', ');
+  const adjustments = absences.attackAdjustment !== undefined && absences.defenceAdjustment !== undefined
+    ? ` (goals scored x${absences.attackAdjustment.toFixed(2)}, conceded x${absences.defenceAdjustment.toFixed(2)})`
+    : '';
+  return `${players}; impact score ${absences.totalImpactScore}${adjustments}`;
+};
+
+class PromptRegistry {
+  private experiments: Record<PromptTemplateId, PromptVariant[]> = { ...DEFAULT_EXPERIMENTS };
+
+  constructor() {
+    this.loadExperiments();
+  }
+
+  list(templateId?: PromptTemplateId): PromptTemplate[] {
+    return TEMPLATES.filter(t => !templateId || t.id === templateId);
+  }
+
+  get(templateId: PromptTemplateId, version: string): PromptTemplate | undefined {
+    return TEMPLATES.find(t => t.id === templateId && t.version === version);
+  }
+
+  getExperiment(templateId: PromptTemplateId): PromptVariant[] {
+    return this.experiments[templateId].map(v => ({ ...v }));
+  }
+
+  /**
+   * Override the traffic split for a template (persisted locally). Set a single
+   * variant to pin every match to one version.
+   */
+  setExperiment(templateId: PromptTemplateId, variants: PromptVariant[]): void {
+    if (variants.length === 0 || variants.every(v => v.weight <= 0)) {
+      throw new Error(`Prompt experiment for ${templateId} needs at least one positive weight`);
+    }
+    const unknown = variants.find(v => !this.get(templateId, v.version));
+    if (unknown) {
+      throw new Error(`Unknown prompt version ${formatPromptVersion(templateId, unknown.version)}`);
+    }
+    this.experiments[templateId] = variants.map(v => ({ version: v.version, weight: Math.max(0, v.weight) }));
+    this.saveExperiments();
+  }
+
+  resetExperiments(): void {
+    this.experiments = { ...DEFAULT_EXPERIMENTS };
+    this.saveExperiments();
+  }
+
+  /**
+   * Deterministically bucket a match into one of the template's variants
+   */
+  assign(templateId: PromptTemplateId, matchId: string | number): PromptAssignment {
+    const variants = this.experiments[templateId].filter(v => v.weight > 0);
+    const total = variants.reduce((sum, v) => sum + v.weight, 0);
+    const bucket = hashToUnit(`${templateId}:${matchId}`);
+
+    let cumulative = 0;
+    let chosen = variants[variants.length - 1];
+    for (const variant of variants) {
+      cumulative += variant.weight / total;
+      if (bucket < cumulative) {
+        chosen = variant;
+        break;
+      }
+    }
+
+    return { templateId, version: chosen.version, promptVersion: formatPromptVersion(templateId, chosen.version), bucket };
+  }
+
+  /**
+   * Fill the template slots from the match, PredictionContext and RealTimeDataContext
+   */
+  buildSlots(match: Pick<Match, 'league' | 'homeTeam' | 'awayTeam' | 'date'>, sources: PromptSlotSources = {}): PromptSlots {
+    const { context, realTimeContext } = sources;
+    const snippet = (label: string, value?: string) => (value ? `- ${label}: ${value}` : '');
+
+    const contextSnippets = context
+      ? [
+          snippet('League Table', context.leagueTableSnippet),
+          snippet(`${match.homeTeam} Recent Form`, context.homeTeamFormSnippet),
+          snippet(`${match.awayTeam} Recent Form`, context.awayTeamFormSnippet),
+          snippet('Head-to-Head', context.headToHeadSnippet),
+          snippet(`${match.homeTeam} Season Stats`, context.homeTeamStatsSnippet),
+          snippet(`${match.awayTeam} Season Stats`, context.awayTeamStatsSnippet),
+          snippet('BTTS History', context.bttsHistoricSnippet),
+          snippet(`${match.homeTeam} Injuries`, context.homeTeamInjuriesSnippet),
+          snippet(`${match.awayTeam} Injuries`, context.awayTeamInjuriesSnippet)
+        ].filter(Boolean).join('\n')
+      : '';
+
+    const contextEntries = context ? Object.entries(context) : [];
+    const contextData = contextEntries.length > 0
+      ? `CONTEXT DATA:\n${contextEntries.map(([k, v]) => `- ${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`).join('\n')}\n`
+      : '';
+
+    return {
+      league: match.league || 'Unknown',
+      homeTeam: match.homeTeam,
+      awayTeam: match.awayTeam,
+      date: formatDate(match.date),
+      contextSnippets: contextSnippets || 'No context data available',
+      contextData,
+      analyticsSummary: sources.analyticsSummary || '',
+      realTimeSummary: sources.realTimeSummary || '',
+      dataQuality: realTimeContext ? `${realTimeContext.dataQuality.overall}%` : 'Not available',
+      homeAbsences: formatAbsences(realTimeContext?.homeTeamAbsences),
+      awayAbsences: formatAbsences(realTimeContext?.awayTeamAbsences)
+    };
+  }
+
+  render(templateId: PromptTemplateId, version: string, slots: PromptSlots): string {
+    const template = this.get(templateId, version);
+    if (!template) {
+      throw new Error(`Unknown prompt version ${formatPromptVersion(templateId, version)}`);
+    }
+    return template.text
+      .replace(/\{\{(\w+)\}\}/g, (_, name: string) => slots[name] ?? '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Assign a version for the match and render it in one step
+   */
+  prepare(templateId: PromptTemplateId, match: Match, sources: PromptSlotSources = {}): RenderedPrompt {
+    const assignment = this.assign(templateId, match.id);
+    const text = this.render(templateId, assignment.version, this.buildSlots(match, sources));
+    console.log(`🧪 Prompt ${assignment.promptVersion} for ${match.homeTeam} vs ${match.awayTeam} (bucket ${assignment.bucket.toFixed(3)})`);
+    return { ...assignment, text };
+  }
+
+  private loadExperiments(): void {
+    const stored = clientStore.get('promptExperiments');
+    for (const templateId of Object.keys(DEFAULT_EXPERIMENTS) as PromptTemplateId[]) {
+      const variants = stored[templateId];
+      if (Array.isArray(variants) && variants.some(v => v.weight > 0) && variants.every(v => this.get(templateId, v.version))) {
+        this.experiments[templateId] = variants;
+      }
+    }
+  }
+
+  private saveExperiments(): void {
+    clientStore.set('promptExperiments', { ...this.experiments });
+  }
+}
+
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,231 @@
+/**
+ * Push subscription model shared by the app (web push and the Capacitor
+ * native shell) and the cron worker that fans notifications out.
+ *
+ * A subscription is one device: how to reach it (a Web Push endpoint or a
+ * native token), which topics it wants, which teams and leagues it follows,
+ * and its quiet hours, which are evaluated in the device's own timezone.
+ *
+ * Runtime-neutral: no DOM or Workers APIs beyond Intl.
+ */
+
+export type PushTopic =
+  | 'match-start'
+  | 'lineup-posted'
+  | 'goals'
+  | 'full-time'
+  | 'predictions'
+  | 'match-reminders'
+  | 'news';
+
+export const PUSH_TOPICS: PushTopic[] = ['match-start', 'lineup-posted', 'goals', 'full-time', 'predictions', 'match-reminders', 'news'];
+
+export type PushTransport = 'webpush' | 'native';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:MM in the subscriber's timezone
+  end: string;   // HH:MM in the subscriber's timezone
+}
+
+export interface PushSubscriptionRecord {
+  id: string; // Device id, stable across re-subscribes
+  transport: PushTransport;
+  // Web Push (PushSubscription.toJSON())
+  endpoint?: string;
+  keys?: { p256dh: string; auth: string };
+  // Capacitor PushNotifications registration token (FCM / APNs)
+  token?: string;
+  platform?: 'web' | 'android' | 'ios';
+  topics: PushTopic[];
+  followedTeams: string[];
+  followedLeagues: string[];
+  // When true only events for followed teams or leagues are delivered
+  followedOnly: boolean;
+  quietHours: QuietHours;
+  timezone: string;
+  reminderMinutes?: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Something worth telling subscribers about, produced by the worker
+ */
+export interface PushEvent {
+  topic: PushTopic;
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+  teams: string[];
+  league?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Payload the service worker's push handler (public/sw.js) renders
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag?: string;
+  data: Record<string, unknown>;
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '08:00' };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MAX_FOLLOWED = 200;
+const MAX_NAME_LENGTH = 100;
+
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Minutes since midnight on the wall clock of a timezone (UTC when unknown)
+ */
+export const minutesInTimeZone = (timezone: string, now: Date = new Date()): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: isValidTimeZone(timezone) ? timezone : 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  return value('hour') * 60 + value('minute');
+};
+
+const parseTime = (time: string): number | null => {
+  const match = TIME_PATTERN.exec(time || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Whether quiet hours are in force for someone in `timezone`. Start is
+ * inclusive and end exclusive; a window whose start is after its end spans midnight.
+ */
+export const isInQuietHours = (quietHours: QuietHours | undefined, timezone: string, now: Date = new Date()): boolean => {
+  if (!quietHours?.enabled) return false;
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const current = minutesInTimeZone(timezone, now);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Whether an event should reach a subscription (ignoring quiet hours)
+ */
+export const matchesSubscription = (subscription: PushSubscriptionRecord, event: PushEvent): boolean => {
+  if (!subscription.topics.includes(event.topic)) return false;
+  // Events about no team in particular (e.g. news) go to everyone on the topic
+  if (!subscription.followedOnly || (!event.teams.length && !event.league)) return true;
+
+  const teams = new Set(subscription.followedTeams.map(normalizeName));
+  const leagues = new Set(subscription.followedLeagues.map(normalizeName));
+  return event.teams.some(team => teams.has(normalizeName(team))) || (!!event.league && leagues.has(normalizeName(event.league)));
+};
+
+export const toPushPayload = (event: PushEvent): PushPayload => ({
+  title: event.title,
+  body: event.body,
+  tag: event.tag,
+  data: { ...event.data, topic: event.topic, url: event.url || '/' }
+});
+
+export class PushSubscriptionError extends Error {
+  constructor(public field: string, message: string) {
+    super(message);
+    this.name = 'PushSubscriptionError';
+  }
+}
+
+const stringList = (value: unknown, field: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new PushSubscriptionError(field, `${field} must be an array of strings`);
+  }
+  if (value.length > MAX_FOLLOWED) throw new PushSubscriptionError(field, `${field} holds at most ${MAX_FOLLOWED} entries`);
+  return Array.from(new Set(value.map(item => item.trim().slice(0, MAX_NAME_LENGTH)).filter(Boolean)));
+};
+
+/**
+ * Validates an untrusted subscription body (e.g. POST /push/subscribe) and
+ * returns a normalised record; throws PushSubscriptionError naming the bad field
+ */
+export const validateSubscription = (
+  input: any,
+  now: Date = new Date(),
+  existing?: PushSubscriptionRecord | null
+): PushSubscriptionRecord => {
+  if (!input || typeof input !== 'object') throw new PushSubscriptionError('body', 'Subscription must be a JSON object');
+
+  const id = input.id;
+  if (typeof id !== 'string' || !/^[\w.-]{8,128}$/.test(id)) {
+    throw new PushSubscriptionError('id', 'id must be 8-128 letters, digits, dots, dashes or underscores');
+  }
+
+  const transport: PushTransport = input.transport === 'native' ? 'native' : 'webpush';
+  let endpoint: string | undefined;
+  let keys: PushSubscriptionRecord['keys'];
+  let token: string | undefined;
+  if (transport === 'webpush') {
+    if (typeof input.endpoint !== 'string' || !/^https:\/\//.test(input.endpoint)) {
+      throw new PushSubscriptionError('endpoint', 'endpoint must be an https URL');
+    }
+    if (typeof input.keys?.p256dh !== 'string' || typeof input.keys?.auth !== 'string') {
+      throw new PushSubscriptionError('keys', 'keys.p256dh and keys.auth are required for web push');
+    }
+    endpoint = input.endpoint;
+    keys = { p256dh: input.keys.p256dh, auth: input.keys.auth };
+  } else {
+    if (typeof input.token !== 'string' || !input.token) {
+      throw new PushSubscriptionError('token', 'token is required for native push');
+    }
+    token = input.token;
+  }
+
+  const topics = stringList(input.topics, 'topics');
+  const unknown = topics.filter(topic => !PUSH_TOPICS.includes(topic as PushTopic));
+  if (unknown.length) throw new PushSubscriptionError('topics', `Unknown topics: ${unknown.join(', ')}`);
+
+  const quietHours: QuietHours = { ...DEFAULT_QUIET_HOURS, ...(input.quietHours || {}) };
+  if (parseTime(quietHours.start) === null || parseTime(quietHours.end) === null) {
+    throw new PushSubscriptionError('quietHours', 'quietHours.start and quietHours.end must be HH:MM');
+  }
+
+  const timezone = typeof input.timezone === 'string' && input.timezone ? input.timezone : 'UTC';
+  if (!isValidTimeZone(timezone)) throw new PushSubscriptionError('timezone', `Unknown timezone ${timezone}`);
+
+  const reminderMinutes = Array.isArray(input.reminderMinutes)
+    ? input.reminderMinutes.filter((m: unknown) => Number.isInteger(m) && (m as number) > 0 && (m as number) <= 24 * 60).slice(0, 5)
+    : undefined;
+
+  return {
+    id,
+    transport,
+    endpoint,
+    keys,
+    token,
+    platform: ['web', 'android', 'ios'].includes(input.platform) ? input.platform : transport === 'webpush' ? 'web' : undefined,
+    topics: topics as PushTopic[],
+    followedTeams: stringList(input.followedTeams, 'followedTeams'),
+    followedLeagues: stringList(input.followedLeagues, 'followedLeagues'),
+    followedOnly: input.followedOnly === true,
+    quietHours: { enabled: !!quietHours.enabled, start: quietHours.start, end: quietHours.end },
+    timezone,
+    reminderMinutes,
+    createdAt: existing?.createdAt || now.toISOString(),
+    updatedAt: now.toISOString()
+  };
+};
@@ -0,0 +1,220 @@
+import { clientStore } from './clientStore';
+import type { NotificationSettings } from './notificationService';
+import type { NotificationSettings as CalendarNotificationSettings } from './calendarService';
+import { DEFAULT_QUIET_HOURS, PushSubscriptionRecord, PushTopic } from './pushSubscriptionModel';
+
+/**
+ * Registers this device with the cron worker's push registry so kick-offs,
+ * goals, results and new predictions arrive with the app closed.
+ *
+ * One record per device, built from the same settings the in-page
+ * notificationService and calendarService keep in the client store: topics,
+ * followed teams and leagues, quiet hours and timezone. The browser is
+ * reached through Web Push (VAPID); the Capacitor shell registers its
+ * PushNotifications token against the same record instead.
+ */
+
+const WORKER_BASE = 'https://fixturecast-cron-worker.btltech.workers.dev';
+const SYNC_DEBOUNCE_MS = 2000;
+
+export interface PushRegistration {
+  transport: PushSubscriptionRecord['transport'];
+  endpoint?: string;
+  keys?: { p256dh: string; auth: string };
+  token?: string;
+  platform?: PushSubscriptionRecord['platform'];
+}
+
+// The parts of @capacitor/push-notifications used here, read from the native bridge
+interface CapacitorPushPlugin {
+  requestPermissions(): Promise<{ receive: string }>;
+  register(): Promise<void>;
+  addListener(event: 'registration', listener: (token: { value: string }) => void): Promise<unknown> | unknown;
+}
+
+const capacitor = (): { isNativePlatform?: () => boolean; getPlatform?: () => string; Plugins?: { PushNotifications?: CapacitorPushPlugin } } | undefined =>
+  typeof window !== 'undefined' ? (window as any).Capacitor : undefined;
+
+const localTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const urlBase64ToUint8Array = (value: string): Uint8Array => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+/**
+ * Topics, follows and quiet hours for this device from the stored settings.
+ * Unset values follow the services' own defaults.
+ */
+export const buildSubscriptionPreferences = (
+  notification: Partial<NotificationSettings>,
+  calendar: Partial<CalendarNotificationSettings>,
+  followed: { teams: string[]; leagues: string[] }
+): Pick<PushSubscriptionRecord, 'topics' | 'followedTeams' | 'followedLeagues' | 'followedOnly' | 'quietHours' | 'timezone' | 'reminderMinutes'> => {
+  const topics: PushTopic[] = [];
+  if (notification.matchStart !== false) topics.push('match-start');
+  if (notification.lineupPosted !== false) topics.push('lineup-posted');
+  if (notification.goals !== false) topics.push('goals');
+  if (notification.fullTime !== false) topics.push('full-time');
+  if (notification.predictions !== false) topics.push('predictions');
+  if (calendar.enabled !== false && calendar.matchReminders !== false) topics.push('match-reminders');
+  if (calendar.enabled !== false && calendar.newsAlerts === true) topics.push('news');
+
+  // Quiet hours set in either settings screen apply to every push
+  const quietHours = notification.quietHours?.enabled ? notification.quietHours
+    : calendar.quietHours?.enabled ? calendar.quietHours
+    : notification.quietHours || calendar.quietHours || DEFAULT_QUIET_HOURS;
+
+  return {
+    topics,
+    followedTeams: notification.teamFollowed !== false ? followed.teams : [],
+    followedLeagues: notification.leagueFollowed === true ? followed.leagues : [],
+    // Match events only for what the user follows; news goes to everyone on the topic
+    followedOnly: true,
+    quietHours: { enabled: !!quietHours.enabled, start: quietHours.start, end: quietHours.end },
+    timezone: calendar.timezone || localTimeZone(),
+    reminderMinutes: calendar.reminderMinutes
+  };
+};
+
+class PushSubscriptionService {
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+    // Re-register whenever topics, follows or quiet hours change
+    (['notificationSettings', 'calendarNotificationSettings', 'followedItems'] as const).forEach(name => {
+      clientStore.subscribe(name, () => this.scheduleSync());
+    });
+  }
+
+  isSupported(): boolean {
+    if (capacitor()?.isNativePlatform?.()) return !!capacitor()?.Plugins?.PushNotifications;
+    return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window;
+  }
+
+  isSubscribed(): boolean {
+    return !!clientStore.get('pushRegistration');
+  }
+
+  /**
+   * Subscribe this device (asks for permission if needed) and register it with the worker
+   */
+  async enable(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    try {
+      const registration = capacitor()?.isNativePlatform?.() ? await this.registerNative() : await this.registerWebPush();
+      if (!registration) return false;
+      clientStore.set('pushRegistration', registration);
+      return await this.sync();
+    } catch (error) {
+      console.warn('⚠️ Push subscription failed:', error);
+      return false;
+    }
+  }
+
+  async disable(): Promise<void> {
+    const id = this.deviceId();
+    clientStore.set('pushRegistration', null);
+    try {
+      const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+      await (await registration?.pushManager?.getSubscription())?.unsubscribe();
+    } catch (error) {
+      console.warn('⚠️ Failed to drop the browser push subscription:', error);
+    }
+    try {
+      await fetch(`${WORKER_BASE}/push/unsubscribe`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id })
+      });
+    } catch (error) {
+      console.warn('⚠️ Push unsubscribe request failed:', error);
+    }
+  }
+
+  /**
+   * Send the current preferences to the worker; a no-op until enable() succeeded
+   */
+  async sync(): Promise<boolean> {
+    const registration = clientStore.get('pushRegistration');
+    if (!registration) return false;
+
+    const preferences = buildSubscriptionPreferences(
+      clientStore.get('notificationSettings'),
+      clientStore.get('calendarNotificationSettings'),
+      clientStore.get('followedItems')
+    );
+    try {
+      const response = await fetch(`${WORKER_BASE}/push/subscribe`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: this.deviceId(), ...registration, ...preferences })
+      });
+      if (!response.ok) {
+        console.warn(`⚠️ Push registry rejected the subscription (${response.status})`);
+        return false;
+      }
+      console.log(`🔔 Push subscription synced (${preferences.topics.length} topics)`);
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Push subscription sync failed:', error);
+      return false;
+    }
+  }
+
+  private scheduleSync(): void {
+    if (!this.isSubscribed()) return;
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.sync();
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  private deviceId(): string {
+    const stored = clientStore.get('deviceId');
+    if (stored) return stored;
+    const deviceId = `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    clientStore.set('deviceId', deviceId);
+    return deviceId;
+  }
+
+  private async registerWebPush(): Promise<PushRegistration | null> {
+    if (Notification.permission !== 'granted' && (await Notification.requestPermission()) !== 'granted') return null;
+
+    const response = await fetch(`${WORKER_BASE}/push/vapid-public-key`);
+    if (!response.ok) {
+      console.warn('⚠️ Push is not configured on the worker');
+      return null;
+    }
+    const { publicKey } = await response.json();
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = (await registration.pushManager.getSubscription()) ||
+      await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(publicKey) });
+
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys?.auth) return null;
+    return { transport: 'webpush', endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth }, platform: 'web' };
+  }
+
+  private async registerNative(): Promise<PushRegistration | null> {
+    const plugin = capacitor()?.Plugins?.PushNotifications;
+    if (!plugin || (await plugin.requestPermissions()).receive !== 'granted') return null;
+
+    const token = await new Promise<string>(resolve => {
+      plugin.addListener('registration', ({ value }) => resolve(value));
+      void plugin.register();
+    });
+    const platform = capacitor()?.getPlatform?.();
+    return { transport: 'native', token, platform: platform === 'ios' || platform === 'android' ? platform : undefined };
+  }
+}
+
+export const pushSubscriptionService = new PushSubscriptionService();
@@ -1,13 +1,15 @@
-import { Match, PredictionContext } from '../types';
+import { KeyAbsence, Match, PredictionContext } from '../types';
 import { 
   getTeamStats, 
   getInjuries, 
   getHeadToHead, 
   getRecentTeamForm,
   getTeamDetails,
+  getSquadPlayerStats,
   getApiUsage,
   hasBudget 
 } from './footballApiService';
+import { TeamAbsenceImpact, absencesFromApi, assessTeamAbsences, topAbsences } from './absenceImpactModel';
 
 export interface RealTimeDataContext {
   // Enhanced team statistics
@@ -59,10 +61,15 @@ export interface RealTimeDataContext {
       importance: 'critical' | 'important' | 'moderate';
       reason: string;
       expectedReturn?: string;
+      impact?: number;
+      minutesShare?: number;
+      replacement?: string;
     }>;
     totalImpactScore: number;
     defensiveImpact: number;
     attackingImpact: number;
+    attackAdjustment?: number;  // Multiplier on goals scored from absenceImpactModel
+    defenceAdjustment?: number; // Multiplier on goals conceded
   };
 
   awayTeamAbsences: {
@@ -72,12 +79,20 @@ export interface RealTimeDataContext {
       importance: 'critical' | 'important' | 'moderate';
       reason: string;
       expectedReturn?: string;
+      impact?: number;
+      minutesShare?: number;
+      replacement?: string;
     }>;
     totalImpactScore: number;
     defensiveImpact: number;
     attackingImpact: number;
+    attackAdjustment?: number;  // Multiplier on goals scored from absenceImpactModel
+    defenceAdjustment?: number; // Multiplier on goals conceded
   };
 
+  // Costliest absences across both teams, for the prediction detail view
+  keyAbsences?: KeyAbsence[];
+
   // Advanced head-to-head analysis
   historicalMatchups: {
     totalGames: number;
@@ -147,7 +162,7 @@ export interface RealTimeDataContext {
 class RealTimeDataService {
   private apiUsageTracker = {
     callsThisSession: 0,
-    maxCallsPerPrediction: 8 // Conservative limit
+    maxCallsPerPrediction: 10 // Conservative limit
   };
 
   /**
@@ -181,7 +196,9 @@ class RealTimeDataService {
         awayTeamInjuries,
         headToHeadData,
         homeTeamForm,
-        awayTeamForm
+        awayTeamForm,
+        homeSquad,
+        awaySquad
       ] = await Promise.all([
         this.fetchWithFallback(() => getTeamStats(homeTeamId, leagueId), {}),
         this.fetchWithFallback(() => getTeamStats(awayTeamId, leagueId), {}),
@@ -189,15 +206,22 @@ class RealTimeDataService {
         this.fetchWithFallback(() => getInjuries(awayTeamId, leagueId), []),
         this.fetchWithFallback(() => getHeadToHead(homeTeamId, awayTeamId), []),
         this.fetchWithFallback(() => getRecentTeamForm(homeTeamId), []),
-        this.fetchWithFallback(() => getRecentTeamForm(awayTeamId), [])
+        this.fetchWithFallback(() => getRecentTeamForm(awayTeamId), []),
+        this.fetchWithFallback(() => getSquadPlayerStats(homeTeamId, leagueId), []),
+        this.fetchWithFallback(() => getSquadPlayerStats(awayTeamId, leagueId), [])
       ]);
 
+      // Weigh absences against each squad's minutes and ratings
+      const homeAbsenceImpact = assessTeamAbsences(absencesFromApi(homeTeamInjuries), Array.isArray(homeSquad) ? homeSquad : []);
+      const awayAbsenceImpact = assessTeamAbsences(absencesFromApi(awayTeamInjuries), Array.isArray(awaySquad) ? awaySquad : []);
+
       // Process and analyze the gathered data
       const enhancedContext: RealTimeDataContext = {
         homeTeamDetailedStats: this.processTeamStats(homeTeamStats, 'home'),
         awayTeamDetailedStats: this.processTeamStats(awayTeamStats, 'away'),
-        homeTeamAbsences: this.analyzeTeamAbsences(homeTeamInjuries, match.homeTeam),
-        awayTeamAbsences: this.analyzeTeamAbsences(awayTeamInjuries, match.awayTeam),
+        homeTeamAbsences: this.summarizeAbsences(homeAbsenceImpact),
+        awayTeamAbsences: this.summarizeAbsences(awayAbsenceImpact),
+        keyAbsences: topAbsences(homeAbsenceImpact, awayAbsenceImpact),
         historicalMatchups: this.analyzeHeadToHead(headToHeadData, homeTeamId, awayTeamId),
         formAnalysis: {
           homeTeamMomentum: this.analyzeFormMomentum(homeTeamForm, homeTeamStats),
@@ -254,26 +278,25 @@ class RealTimeDataService {
   }
 
   /**
-   * Analyze team injuries and suspensions for impact assessment
+   * Shape a team's absence impact for the context and prompts
    */
-  private analyzeTeamAbsences(injuryData: any[], teamName: string): any {
-    const injuries = Array.isArray(injuryData) ? injuryData : [];
-    
-    const keyPlayersOut = injuries.map(injury => ({
-      name: injury.player?.name || 'Unknown Player',
-      position: injury.player?.position || 'Unknown',
-      importance: this.assessPlayerImportance(injury.player, injury.type),
-      reason: injury.reason || injury.type || 'Injury',
-      expectedReturn: injury.date || undefined
-    }));
-
-    const totalImpactScore = this.calculateInjuryImpactScore(keyPlayersOut);
-    
+  private summarizeAbsences(impact: TeamAbsenceImpact): RealTimeDataContext['homeTeamAbsences'] {
     return {
-      keyPlayersOut,
-      totalImpactScore,
-      defensiveImpact: this.calculatePositionalImpact(keyPlayersOut, ['Defender', 'Goalkeeper']),
-      attackingImpact: this.calculatePositionalImpact(keyPlayersOut, ['Attacker', 'Midfielder'])
+      keyPlayersOut: impact.absences.map(absence => ({
+        name: absence.name,
+        position: absence.position,
+        importance: absence.importance,
+        reason: absence.reason,
+        expectedReturn: absence.expectedReturn,
+        impact: absence.cost,
+        minutesShare: absence.minutesShare,
+        replacement: absence.replacement?.name
+      })),
+      totalImpactScore: impact.totalImpactScore,
+      defensiveImpact: impact.defensiveImpact,
+      attackingImpact: impact.attackingImpact,
+      attackAdjustment: impact.attackAdjustment,
+      defenceAdjustment: impact.defenceAdjustment
     };
   }
 
@@ -509,7 +532,9 @@ class RealTimeDataService {
       keyPlayersOut: [],
       totalImpactScore: 0,
       defensiveImpact: 0,
-      attackingImpact: 0
+      attackingImpact: 0,
+      attackAdjustment: 1,
+      defenceAdjustment: 1
     };
   }
 
@@ -586,39 +611,11 @@ class RealTimeDataService {
     return total > 0 ? Math.round(((wins * 3 + draws) / (total * 3)) * 100) : 50;
   }
 
-  private assessPlayerImportance(player: any, injuryType: string): 'critical' | 'important' | 'moderate' {
-    // Simple assessment based on position and injury type
-    const position = player?.position?.toLowerCase() || '';
-    
-    if (position.includes('goalkeeper')) return 'critical';
-    if (position.includes('defender') || position.includes('midfielder')) return 'important';
-    if (position.includes('attacker') || position.includes('forward')) return 'important';
-    
-    return 'moderate';
-  }
-
-  private calculateInjuryImpactScore(players: any[]): number {
-    return players.reduce((score, player) => {
-      switch (player.importance) {
-        case 'critical': return score + 30;
-        case 'important': return score + 20;
-        case 'moderate': return score + 10;
-        default: return score;
-      }
-    }, 0);
-  }
-
-  private calculatePositionalImpact(players: any[], positions: string[]): number {
-    return players
-      .filter(player => positions.some(pos => player.position.includes(pos)))
-      .reduce((impact, player) => {
-        switch (player.importance) {
-          case 'critical': return impact + 25;
-          case 'important': return impact + 15;
-          case 'moderate': return impact + 8;
-          default: return impact;
-        }
-      }, 0);
+  private formatAbsenceAdjustments(absences: RealTimeDataContext['homeTeamAbsences']): string {
+    if (absences.attackAdjustment === undefined || absences.defenceAdjustment === undefined) return '';
+    const costliest = absences.keyPlayersOut[0];
+    const lead = costliest ? `, costliest: ${costliest.name} (${costliest.position}${costliest.replacement ? `, replaced by ${costliest.replacement}` : ''})` : '';
+    return `  Goals scored x${absences.attackAdjustment.toFixed(2)}, goals conceded x${absences.defenceAdjustment.toFixed(2)}${lead}\n`;
   }
 
   private calculateGoalVariance(matches: any[]): number {
@@ -747,9 +744,11 @@ class RealTimeDataService {
       prompt += `\n**Injury/Suspension Impact:**\n`;
       if (context.homeTeamAbsences.keyPlayersOut.length > 0) {
         prompt += `- Home Team Impact Score: ${context.homeTeamAbsences.totalImpactScore} (${context.homeTeamAbsences.keyPlayersOut.length} players out)\n`;
+        prompt += this.formatAbsenceAdjustments(context.homeTeamAbsences);
       }
       if (context.awayTeamAbsences.keyPlayersOut.length > 0) {
         prompt += `- Away Team Impact Score: ${context.awayTeamAbsences.totalImpactScore} (${context.awayTeamAbsences.keyPlayersOut.length} players out)\n`;
+        prompt += this.formatAbsenceAdjustments(context.awayTeamAbsences);
       }
     }
     
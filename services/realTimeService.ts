@@ -1,4 +1,8 @@
-import { Match } from '../types';
+import { Match, LiveMatch } from '../types';
+import { LiveFeedEvent, applyLiveFeedEvent } from './liveFeed';
+
+export const LIVE_FEED_URL = '/api/live/stream';
+const FALLBACK_POLL_MS = 30000;
 
 // Real-time match status types
 export type MatchStatus = 'live' | 'ht' | 'ft' | 'upcoming' | 'postponed' | 'cancelled';
@@ -96,59 +100,113 @@ export interface TeamForm {
   losses: number;
 }
 
+const toMatchStatus = (status: LiveMatch['status']): MatchStatus => {
+  switch (status) {
+    case 'LIVE': return 'live';
+    case 'HT': return 'ht';
+    case 'NS': case 'TBD': return 'upcoming';
+    case 'POSTP': case 'postponed': return 'postponed';
+    case 'CANC': case 'cancelled': case 'abandoned': return 'cancelled';
+    default: return 'ft';
+  }
+};
+
+const toLiveMatchData = (match: LiveMatch): LiveMatchData => ({
+  matchId: match.id,
+  status: toMatchStatus(match.status),
+  minute: match.minute,
+  homeScore: match.homeScore,
+  awayScore: match.awayScore,
+  isLive: match.status === 'LIVE' || match.status === 'HT',
+  lastUpdated: match.lastUpdated,
+  events: match.events
+});
+
 class RealTimeService {
   private liveMatches: Map<string, LiveMatchData> = new Map();
+  private feedMatches: Map<string, LiveMatch> = new Map();
   private matchContexts: Map<string, MatchContext> = new Map();
   private updateInterval: NodeJS.Timeout | null = null;
+  private eventSource: EventSource | null = null;
+  private lastEventId: string | null = null;
   private listeners: Set<(matches: LiveMatchData[]) => void> = new Set();
+  private feedListeners: Set<(matches: LiveMatch[], event?: LiveFeedEvent) => void> = new Set();
 
-  constructor() {
-    this.startRealTimeUpdates();
+  // Start real-time updates when the first listener subscribes
+  private startRealTimeUpdates() {
+    if (this.eventSource || this.updateInterval) return;
+
+    if (typeof EventSource === 'undefined') {
+      this.startPolling();
+      return;
+    }
+
+    const url = this.lastEventId ? `${LIVE_FEED_URL}?lastEventId=${encodeURIComponent(this.lastEventId)}` : LIVE_FEED_URL;
+    const source = new EventSource(url);
+    this.eventSource = source;
+
+    source.onmessage = (message: MessageEvent) => {
+      try {
+        this.lastEventId = message.lastEventId || this.lastEventId;
+        this.applyFeedEvent(JSON.parse(message.data));
+      } catch (error) {
+        console.error('Failed to apply live feed event:', error);
+      }
+    };
+
+    // EventSource reconnects by itself (sending Last-Event-ID); CLOSED means the
+    // endpoint is unavailable, e.g. the Vite dev server without Pages Functions
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        console.warn('⚠️ Live feed unavailable, falling back to polling');
+        source.close();
+        this.eventSource = null;
+        this.startPolling();
+      }
+    };
   }
 
-  // Start real-time updates
-  private startRealTimeUpdates() {
-    // Update every 30 seconds
+  private startPolling() {
     this.updateInterval = setInterval(() => {
       this.updateLiveMatches();
-    }, 30000);
+    }, FALLBACK_POLL_MS);
 
     // Initial update
     this.updateLiveMatches();
   }
 
-  // Update live matches data
+  private stopRealTimeUpdates() {
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+  }
+
+  // Fallback: poll the football API directly
   private async updateLiveMatches() {
     try {
-      // Simulate fetching live data (replace with actual API calls)
-      const liveData = await this.fetchLiveMatchData();
-      
-      // Update internal state
-      liveData.forEach(match => {
-        this.liveMatches.set(match.matchId, match);
-      });
-
-      // Notify listeners
-      this.notifyListeners();
+      const { getLiveMatches } = await import('./liveMatchService');
+      const matches = await getLiveMatches();
+      this.applyFeedEvent({ id: 0, type: 'snapshot', timestamp: new Date().toISOString(), matches });
     } catch (error) {
       console.error('Failed to update live matches:', error);
     }
   }
 
-  // Simulate fetching live match data
-  private async fetchLiveMatchData(): Promise<LiveMatchData[]> {
-    // TODO: Implement real API integration for live match data
-    const liveMatches: LiveMatchData[] = [];
-    
-    console.log('🔄 Fetching live matches from API...');
-    // Add actual API calls here when ready
-    
-    return liveMatches;
-  }
-
-
+  private applyFeedEvent(event: LiveFeedEvent) {
+    applyLiveFeedEvent(this.feedMatches, event);
 
+    this.liveMatches.clear();
+    this.feedMatches.forEach(match => {
+      this.liveMatches.set(match.id, toLiveMatchData(match));
+    });
 
+    this.notifyListeners(event);
+  }
 
   // Get live matches
   getLiveMatches(): LiveMatchData[] {
@@ -287,11 +345,36 @@ class RealTimeService {
   // Subscribe to live updates
   subscribe(listener: (matches: LiveMatchData[]) => void) {
     this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
+    this.startRealTimeUpdates();
+    return () => {
+      this.listeners.delete(listener);
+      this.stopIfIdle();
+    };
+  }
+
+  // Subscribe to full live matches plus the feed event that changed them
+  subscribeToFeed(listener: (matches: LiveMatch[], event?: LiveFeedEvent) => void) {
+    this.feedListeners.add(listener);
+    if (this.feedMatches.size > 0) listener(this.getFeedMatches());
+    this.startRealTimeUpdates();
+    return () => {
+      this.feedListeners.delete(listener);
+      this.stopIfIdle();
+    };
+  }
+
+  getFeedMatches(): LiveMatch[] {
+    return Array.from(this.feedMatches.values());
+  }
+
+  private stopIfIdle() {
+    if (this.listeners.size === 0 && this.feedListeners.size === 0) {
+      this.stopRealTimeUpdates();
+    }
   }
 
   // Notify all listeners
-  private notifyListeners() {
+  private notifyListeners(event?: LiveFeedEvent) {
     const matches = this.getLiveMatches();
     this.listeners.forEach(listener => {
       try {
@@ -300,6 +383,15 @@ class RealTimeService {
         console.error('Error in live match listener:', error);
       }
     });
+
+    const feedMatches = this.getFeedMatches();
+    this.feedListeners.forEach(listener => {
+      try {
+        listener(feedMatches, event);
+      } catch (error) {
+        console.error('Error in live feed listener:', error);
+      }
+    });
   }
 
   // Get TV broadcasters for a match
@@ -322,12 +414,11 @@ class RealTimeService {
 
   // Cleanup
   destroy() {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = null;
-    }
+    this.stopRealTimeUpdates();
     this.listeners.clear();
+    this.feedListeners.clear();
     this.liveMatches.clear();
+    this.feedMatches.clear();
     this.matchContexts.clear();
   }
 }
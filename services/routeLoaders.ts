@@ -0,0 +1,124 @@
+/**
+ * Per-route code and data loading.
+ *
+ * Every route has a chunk (its lazily loaded page component) and optionally a
+ * data loader. `prefetch(path)` runs both ahead of navigation, e.g. on link
+ * hover, and `load(path)` returns the same cached promise when the page mounts.
+ * Back/forward navigation within the TTL is therefore served from the cache.
+ * Data loaders use the app's own state functions, registered by AppContent
+ * through `configure`.
+ */
+
+import { League, Team } from '../types';
+import { RouteName, leagueFromSlug, matchRoute, teamFromParam } from './routeTable';
+
+export interface RouteLoaderContext {
+  teamNames: () => string[];
+  getTeamDetails: (teamName: string) => Promise<Team | null>;
+  loadLeagueTable: (league: League) => Promise<void>;
+  loadLeagueFixtures: (league: League) => Promise<void>;
+}
+
+export interface TeamRouteData {
+  teamName: string;
+  team: Team | null;
+}
+
+export interface LeagueRouteData {
+  league: League | null;
+}
+
+type DataLoader = (params: Record<string, string>, context: RouteLoaderContext) => Promise<unknown>;
+
+// Same import() calls as the React.lazy components in App.tsx, so Vite serves one chunk
+export const ROUTE_CHUNKS: Record<RouteName, () => Promise<unknown>> = {
+  home: () => import('../components/HeroLandingPage'),
+  dashboard: () => import('../components/Dashboard'),
+  fixtures: () => import('../components/Fixtures'),
+  league: () => import('../components/LeaguePage'),
+  match: () => import('../components/MatchDetail'),
+  team: () => import('../components/TeamPage'),
+  myTeams: () => import('../components/MyTeams'),
+  news: () => import('../components/News'),
+  prediction: () => import('../components/PredictionDetail'),
+  predictionPreview: () => import('../components/PredictionDetail'),
+  predictions: () => import('../components/TodaysPredictions'),
+  accuracy: () => import('../components/AccuracyDashboard'),
+  disclaimer: () => import('../components/DisclaimerPage')
+};
+
+// Match pages are left out on purpose: generating a prediction spends AI quota,
+// so it only happens once the user actually opens the match
+const DATA_LOADERS: Partial<Record<RouteName, DataLoader>> = {
+  team: async (params, context): Promise<TeamRouteData> => {
+    const teamName = teamFromParam(params.team, context.teamNames());
+    return { teamName, team: await context.getTeamDetails(teamName) };
+  },
+  league: async (params, context): Promise<LeagueRouteData> => {
+    const league = leagueFromSlug(params.league);
+    if (league) await Promise.all([context.loadLeagueFixtures(league), context.loadLeagueTable(league)]);
+    return { league };
+  }
+};
+
+const DATA_TTL_MS = 5 * 60 * 1000;
+
+class RouteLoader {
+  private context: RouteLoaderContext | null = null;
+  private cache = new Map<string, { promise: Promise<unknown>; loadedAt: number; value?: unknown }>();
+
+  configure(context: RouteLoaderContext): void {
+    this.context = context;
+  }
+
+  /**
+   * Loads a path's chunk and data, reusing a recent load of the same path
+   */
+  load<T = unknown>(path: string): Promise<T | undefined> {
+    const route = matchRoute(path);
+    if (!route) return Promise.resolve(undefined);
+
+    const cached = this.cache.get(path);
+    if (cached && Date.now() - cached.loadedAt < DATA_TTL_MS) return cached.promise as Promise<T | undefined>;
+
+    const loader = DATA_LOADERS[route.name];
+    const context = this.context;
+    const entry: { promise: Promise<unknown>; loadedAt: number; value?: unknown } = { promise: Promise.resolve(undefined), loadedAt: Date.now() };
+    entry.promise = Promise.all([
+      ROUTE_CHUNKS[route.name](),
+      loader && context ? loader(route.params, context) : undefined
+    ]).then(([, data]) => {
+      entry.value = data;
+      return data;
+    }).catch(error => {
+      // Failed loads are retried on the next visit
+      this.cache.delete(path);
+      throw error;
+    });
+    // Loads made before the app registered its context have no data to reuse
+    if (!loader || context) this.cache.set(path, entry);
+    return entry.promise as Promise<T | undefined>;
+  }
+
+  /**
+   * Warms a path before navigation; errors surface when the page loads it
+   */
+  prefetch(path: string): void {
+    this.load(path).catch(error => console.warn(`⚠️ Prefetch failed for ${path}:`, error));
+  }
+
+  /**
+   * Data already loaded for a path, for rendering without a loading state
+   */
+  peek<T = unknown>(path: string): T | undefined {
+    const cached = this.cache.get(path);
+    return cached && Date.now() - cached.loadedAt < DATA_TTL_MS ? cached.value as T | undefined : undefined;
+  }
+
+  invalidate(path?: string): void {
+    if (path) this.cache.delete(path);
+    else this.cache.clear();
+  }
+}
+
+export const routeLoader = new RouteLoader();
@@ -0,0 +1,206 @@
+/**
+ * The app's route table: every URL the app serves, its typed params and how it
+ * appears in the sitemap.
+ *
+ * The table is the only source of URLs: <Routes> in App.tsx, typed links
+ * (`href`), the sitemap, and share links in notifications and calendar feeds are
+ * all built from it. Team and league params are slugs ("manchester-united"),
+ * resolved back to display names with `resolveSlug` / `leagueFromSlug`.
+ * Hash URLs from the old hash router (`/#fixtures`, `/#match/123`, `/#match-123`,
+ * `/#team/arsenal`) map to their path equivalents with `legacyRedirect`.
+ *
+ * Runtime-neutral: shared by the app, the sitemap Pages Function and the worker.
+ */
+
+import { League, View } from '../types';
+
+export interface RouteParamsMap {
+  home: {};
+  dashboard: {};
+  fixtures: {};
+  league: { league: string };
+  match: { matchId: string | number };
+  team: { team: string };
+  myTeams: {};
+  news: {};
+  prediction: { matchId: string | number };
+  predictionPreview: {};
+  predictions: {};
+  accuracy: {};
+  disclaimer: {};
+}
+
+export type RouteName = keyof RouteParamsMap;
+
+// Routes that take no params, so href(name) needs nothing else
+export type StaticRouteName = { [N in RouteName]: {} extends RouteParamsMap[N] ? N : never }[RouteName];
+
+export type ChangeFrequency = 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+
+export interface RouteDefinition {
+  path: string;                 // react-router pattern
+  view?: View;                  // Navigation tab the route belongs to
+  sitemap?: { changefreq: ChangeFrequency; priority: number };
+}
+
+export const ROUTES: Record<RouteName, RouteDefinition> = {
+  home: { path: '/', sitemap: { changefreq: 'daily', priority: 1.0 } },
+  dashboard: { path: '/dashboard', view: View.Dashboard, sitemap: { changefreq: 'daily', priority: 0.9 } },
+  fixtures: { path: '/fixtures', view: View.Fixtures, sitemap: { changefreq: 'hourly', priority: 0.9 } },
+  league: { path: '/league/:league', sitemap: { changefreq: 'daily', priority: 0.8 } },
+  match: { path: '/match/:matchId', view: View.Fixtures, sitemap: { changefreq: 'daily', priority: 0.8 } },
+  team: { path: '/team/:team', sitemap: { changefreq: 'weekly', priority: 0.7 } },
+  myTeams: { path: '/my-teams', view: View.MyTeams, sitemap: { changefreq: 'weekly', priority: 0.7 } },
+  news: { path: '/news', view: View.News, sitemap: { changefreq: 'daily', priority: 0.8 } },
+  prediction: { path: '/prediction/:matchId', view: View.Predictions },
+  predictionPreview: { path: '/prediction', view: View.Predictions }, // Prediction passed in navigation state
+  predictions: { path: '/predictions', view: View.Predictions, sitemap: { changefreq: 'hourly', priority: 0.8 } },
+  accuracy: { path: '/accuracy', view: View.Accuracy, sitemap: { changefreq: 'daily', priority: 0.7 } },
+  disclaimer: { path: '/disclaimer', sitemap: { changefreq: 'yearly', priority: 0.3 } }
+};
+
+// Old paths kept working as redirects
+export const REDIRECTS: Record<string, StaticRouteName> = {
+  '/dual-prediction': 'predictions',
+  '/local-prediction': 'predictions'
+};
+
+// Params that are display names in the app and slugs in URLs
+const SLUG_PARAMS = new Set(['team', 'league']);
+
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+const decodeSafe = (value: string): string => {
+  try { return decodeURIComponent(value); } catch { return value; }
+};
+
+/**
+ * Typed link builder: href('team', { team: 'Manchester United' }) → '/team/manchester-united'
+ */
+export const href = <N extends RouteName>(name: N, ...[params]: {} extends RouteParamsMap[N] ? [RouteParamsMap[N]?] : [RouteParamsMap[N]]): string =>
+  ROUTES[name].path.replace(/:(\w+)/g, (_, key: string) => {
+    const value = String((params as Record<string, string | number> | undefined)?.[key] ?? '');
+    return SLUG_PARAMS.has(key) ? slugify(value) : encodeURIComponent(value);
+  });
+
+export const absoluteUrl = (path: string, origin: string): string => `${origin.replace(/\/+$/, '')}${path}`;
+
+export interface RouteMatch<N extends RouteName = RouteName> {
+  name: N;
+  params: Record<string, string>;
+}
+
+const compiled = (Object.keys(ROUTES) as RouteName[]).map(name => {
+  const keys: string[] = [];
+  const pattern = ROUTES[name].path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { name, keys, regex: new RegExp(`^${pattern}/?$`) };
+});
+
+/**
+ * The route a pathname belongs to, with decoded params
+ */
+export const matchRoute = (pathname: string): RouteMatch | null => {
+  for (const route of compiled) {
+    const found = route.regex.exec(pathname);
+    if (found) {
+      const params = Object.fromEntries(route.keys.map((key, i) => [key, decodeSafe(found[i + 1])]));
+      return { name: route.name, params };
+    }
+  }
+  return null;
+};
+
+/**
+ * Navigation tab to highlight for a pathname
+ */
+export const viewForPath = (pathname: string): View => {
+  const route = matchRoute(pathname);
+  return (route && ROUTES[route.name].view) || View.Dashboard;
+};
+
+/**
+ * Path for a navigation tab; views that need params fall back to the dashboard
+ */
+export const pathForView = (view: View): string => {
+  const name = (Object.keys(ROUTES) as RouteName[]).find(key => ROUTES[key].view === view && !ROUTES[key].path.includes(':'));
+  return name ? ROUTES[name].path : ROUTES.dashboard.path;
+};
+
+// Hash fragments the hash router understood
+const LEGACY_VIEWS: Record<string, RouteName> = {
+  dashboard: 'dashboard',
+  fixtures: 'fixtures',
+  predictions: 'predictions',
+  news: 'news',
+  accuracy: 'accuracy',
+  myteams: 'myTeams',
+  'my-teams': 'myTeams'
+};
+
+/**
+ * Path a legacy hash URL should redirect to, or null when the hash is not one
+ */
+export const legacyRedirect = (hash: string): string | null => {
+  const fragment = decodeSafe(hash.replace(/^#\/?/, ''));
+  if (!fragment) return null;
+
+  const view = LEGACY_VIEWS[fragment.toLowerCase()];
+  if (view) return ROUTES[view].path;
+
+  const entity = /^(match|prediction|team|league)[/-](.+)$/i.exec(fragment);
+  if (!entity) return null;
+  const [, kind, value] = entity;
+  switch (kind.toLowerCase()) {
+    case 'match': return href('match', { matchId: value });
+    case 'prediction': return href('prediction', { matchId: value });
+    case 'team': return href('team', { team: value });
+    default: return href('league', { league: value });
+  }
+};
+
+/**
+ * The candidate whose slug matches `param`. Accepts slugs and legacy
+ * URL-encoded display names ("Manchester%20United").
+ */
+export const resolveSlug = <T extends string>(param: string, candidates: Iterable<T>): T | undefined => {
+  const slug = slugify(decodeSafe(param));
+  if (!slug) return undefined;
+  for (const candidate of candidates) {
+    if (slugify(candidate) === slug) return candidate;
+  }
+  return undefined;
+};
+
+/**
+ * Display name for a team param: a known team whose slug matches, otherwise the
+ * param itself (legacy encoded names) or the slug with its words capitalised
+ */
+export const teamFromParam = (param: string, candidates: Iterable<string>): string => {
+  const known = resolveSlug(param, candidates);
+  if (known) return known;
+  const decoded = decodeSafe(param);
+  if (/[A-Z\s]/.test(decoded)) return decoded;
+  return decoded.split('-').filter(Boolean).map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+};
+
+const LEAGUE_ALIASES: Record<string, League> = {
+  'efl-championship': League.Championship,
+  'championship': League.Championship,
+  'champions-league': League.ChampionsLeague,
+  'europa-league': League.EuropaLeague,
+  'europa-conference-league': League.EuropaConferenceLeague,
+  'conference-league': League.EuropaConferenceLeague,
+  'sueper-lig': League.SuperLig
+};
+
+export const leagueFromSlug = (param: string): League | null =>
+  resolveSlug(param, Object.values(League)) || LEAGUE_ALIASES[slugify(decodeSafe(param))] || null;
@@ -1,4 +1,5 @@
 import { Match, League } from '../types';
+import { absoluteUrl, href } from './routeTable';
 
 export interface SchemaSportsEvent {
   '@context': string;
@@ -104,6 +105,11 @@ class SchemaService {
     this.baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
   }
 
+  // Origin for absolute URLs when there is no window (build-time prerendering)
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
   // Generate Schema.org SportsEvent markup for a match
   generateSportsEventSchema(match: Match): SchemaSportsEvent {
     const matchDate = new Date(match.date);
@@ -146,7 +152,7 @@ class SchemaService {
       ],
       offers: {
         '@type': 'Offer',
-        url: `${this.baseUrl}/match/${match.id}`,
+        url: absoluteUrl(href('match', { matchId: match.id }), this.baseUrl),
         price: '0',
         priceCurrency: 'USD',
         availability: 'https://schema.org/InStock',
@@ -217,7 +223,7 @@ class SchemaService {
       },
       offers: {
         '@type': 'Offer',
-        url: `${this.baseUrl}/match/${match.id}`,
+        url: absoluteUrl(href('match', { matchId: match.id }), this.baseUrl),
         price: '0',
         priceCurrency: 'USD',
         availability: 'https://schema.org/InStock',
@@ -283,12 +289,12 @@ class SchemaService {
 
   // Get league URL
   private getLeagueUrl(league: League): string {
-    return `${this.baseUrl}/league/${league.toLowerCase().replace(/\s+/g, '-')}`;
+    return absoluteUrl(href('league', { league }), this.baseUrl);
   }
 
   // Get team URL
   private getTeamUrl(teamName: string): string {
-    return `${this.baseUrl}/team/${teamName.toLowerCase().replace(/\s+/g, '-')}`;
+    return absoluteUrl(href('team', { team: teamName }), this.baseUrl);
   }
 
   // Get sport type based on league
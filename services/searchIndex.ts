@@ -0,0 +1,240 @@
+/**
+ * Fuzzy, accent-insensitive full-text index.
+ *
+ * Text is folded before matching: lower-cased, with diacritics stripped and a
+ * few letters spelled out ("Fenerbahçe" → "fenerbahce", "Weißwasser" →
+ * "weisswasser"). A query word matches an indexed word exactly, as a prefix
+ * (for typing) or within a small edit distance (1 edit up to 5 letters, 2
+ * beyond; transpositions count as one). Every query word has to match
+ * somewhere in a document.
+ *
+ * Folding keeps a map back to the original characters, so hits carry
+ * highlight ranges into the title, the description or the alias that matched.
+ *
+ * Runtime-neutral: no DOM or storage access.
+ */
+
+export interface SearchDocument {
+  id: string;
+  title: string;
+  description?: string;
+  aliases?: string[];     // Other names, searchable but only shown when they matched
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;            // Exclusive, in the original (unfolded) string
+}
+
+export interface SearchHit<T extends SearchDocument> {
+  doc: T;
+  score: number;
+  highlights: { title: HighlightRange[]; description: HighlightRange[] };
+  alias?: { text: string; ranges: HighlightRange[] };
+}
+
+type Field = 'title' | 'description' | 'alias';
+
+const FIELD_WEIGHTS: Record<Field, number> = { title: 1, alias: 0.9, description: 0.4 };
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.85;
+const FUZZY_SCORE = 0.7;
+const FUZZY_STEP = 0.2;          // Lost per extra edit
+const PHRASE_BONUS = 0.3;        // Whole query appears in the title
+const MIN_FUZZY_LENGTH = 4;
+
+// Letters that do not decompose into a base letter plus a combining mark
+const SPELLED_OUT: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'ł': 'l', 'ı': 'i', 'þ': 'th'
+};
+
+interface FoldedText {
+  text: string;
+  offsets: number[];     // offsets[i]: index in the original of folded char i; one extra entry for the end
+}
+
+const foldWithOffsets = (value: string): FoldedText => {
+  let text = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const lower = value[i].toLowerCase();
+    const folded = SPELLED_OUT[lower] ?? lower.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    for (const char of folded) {
+      text += char;
+      offsets.push(i);
+    }
+  }
+  offsets.push(value.length);
+  return { text, offsets };
+};
+
+export const foldText = (value: string): string => foldWithOffsets(value).text;
+
+/**
+ * Edit distance with adjacent transpositions; stops early once it exceeds `max`
+ */
+export const editDistance = (a: string, b: string, max: number = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedEdits = (length: number): number => (length < MIN_FUZZY_LENGTH ? 0 : length <= 5 ? 1 : 2);
+
+/**
+ * How well a folded query word matches a folded indexed word, 0 when it does
+ * not; `length` is how many leading characters of the word matched
+ */
+const matchWord = (query: string, word: string): { score: number; length: number } => {
+  if (word === query) return { score: EXACT_SCORE, length: word.length };
+  if (word.startsWith(query)) return { score: PREFIX_SCORE, length: query.length };
+
+  const max = allowedEdits(query.length);
+  if (max === 0) return { score: 0, length: 0 };
+  const whole = editDistance(query, word, max);
+  // A typo in a word still being typed: compare against the word's start
+  const partial = word.length > query.length ? editDistance(query, word.slice(0, query.length), max) : max + 1;
+  const distance = Math.min(whole, partial);
+  if (distance > max) return { score: 0, length: 0 };
+  const score = FUZZY_SCORE - FUZZY_STEP * (distance - 1);
+  return whole <= partial ? { score, length: word.length } : { score: score * 0.9, length: query.length };
+};
+
+interface Posting {
+  doc: number;
+  field: Field;
+  alias: number;         // Index into aliases, -1 for other fields
+  start: number;         // Folded offsets of the word
+  end: number;
+}
+
+interface IndexedDocument<T> {
+  doc: T;
+  folded: { title: FoldedText; description: FoldedText; aliases: FoldedText[] };
+}
+
+const WORD = /[a-z0-9]+/g;
+
+const mergeRanges = (ranges: HighlightRange[]): HighlightRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+};
+
+export class SearchIndex<T extends SearchDocument> {
+  private docs: IndexedDocument<T>[] = [];
+  private vocabulary = new Map<string, Posting[]>();
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get vocabularySize(): number {
+    return this.vocabulary.size;
+  }
+
+  clear(): void {
+    this.docs = [];
+    this.vocabulary.clear();
+  }
+
+  add(doc: T): void {
+    const index = this.docs.length;
+    const folded = {
+      title: foldWithOffsets(doc.title),
+      description: foldWithOffsets(doc.description ?? ''),
+      aliases: (doc.aliases ?? []).map(foldWithOffsets)
+    };
+    this.docs.push({ doc, folded });
+
+    const addWords = (text: string, field: Field, alias: number) => {
+      for (const found of text.matchAll(WORD)) {
+        const postings = this.vocabulary.get(found[0]) ?? [];
+        postings.push({ doc: index, field, alias, start: found.index!, end: found.index! + found[0].length });
+        this.vocabulary.set(found[0], postings);
+      }
+    };
+    addWords(folded.title.text, 'title', -1);
+    addWords(folded.description.text, 'description', -1);
+    folded.aliases.forEach((alias, i) => addWords(alias.text, 'alias', i));
+  }
+
+  search(query: string, limit: number = 20): SearchHit<T>[] {
+    const foldedQuery = foldText(query).trim();
+    const terms = [...new Set(foldedQuery.match(WORD) ?? [])];
+    if (terms.length === 0) return [];
+
+    // Best weighted match per document for each query word
+    const perTerm = terms.map(term => {
+      const best = new Map<number, { score: number; postings: { posting: Posting; length: number }[] }>();
+      this.vocabulary.forEach((postings, word) => {
+        const { score, length } = matchWord(term, word);
+        if (score === 0) return;
+        for (const posting of postings) {
+          const weighted = score * FIELD_WEIGHTS[posting.field];
+          const current = best.get(posting.doc);
+          if (!current || weighted > current.score) best.set(posting.doc, { score: weighted, postings: [{ posting, length }] });
+          else if (weighted === current.score) current.postings.push({ posting, length });
+        }
+      });
+      return best;
+    });
+
+    const hits: SearchHit<T>[] = [];
+    perTerm[0].forEach((_, docIndex) => {
+      if (!perTerm.every(best => best.has(docIndex))) return;
+      const indexed = this.docs[docIndex];
+      const matches = perTerm.map(best => best.get(docIndex)!);
+      let score = matches.reduce((sum, match) => sum + match.score, 0) / terms.length;
+      if (terms.length > 1 && indexed.folded.title.text.includes(terms.join(' '))) score += PHRASE_BONUS;
+      hits.push({ doc: indexed.doc, score, ...this.highlight(indexed, matches.flatMap(match => match.postings)) });
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private highlight(indexed: IndexedDocument<T>, postings: { posting: Posting; length: number }[]): Pick<SearchHit<T>, 'highlights' | 'alias'> {
+    const toOriginal = (folded: FoldedText, start: number, length: number): HighlightRange => ({
+      start: folded.offsets[start],
+      end: folded.offsets[start + length - 1] + 1
+    });
+    const ranges = (field: Field, alias = -1) => mergeRanges(postings
+      .filter(({ posting }) => posting.field === field && posting.alias === alias)
+      .map(({ posting, length }) => {
+        const folded = field === 'alias' ? indexed.folded.aliases[alias] : indexed.folded[field];
+        return toOriginal(folded, posting.start, Math.min(length, posting.end - posting.start));
+      }));
+
+    const title = ranges('title');
+    const description = ranges('description');
+    // Aliases are only shown when a query word matched through one
+    const aliasPosting = postings.find(({ posting }) => posting.field === 'alias');
+    const alias = aliasPosting
+      ? { text: indexed.doc.aliases![aliasPosting.posting.alias], ranges: ranges('alias', aliasPosting.posting.alias) }
+      : undefined;
+    return { highlights: { title, description }, ...(alias ? { alias } : {}) };
+  }
+}
@@ -1,18 +1,26 @@
 /**
  * Search Service for Sports Fixture App
- * Handles search functionality across matches, teams, leagues, and players
+ * Handles search functionality across matches, teams, leagues, players, coaches and venues
  */
 
-import { Match, League } from '../types';
+import { Match, League, Team } from '../types';
+import { clientStore } from './clientStore';
+import { href } from './routeTable';
+import { HighlightRange, SearchDocument, SearchIndex, foldText } from './searchIndex';
+import { getTeamAliases } from './teamDataService';
 
-interface SearchResult {
-  type: 'match' | 'team' | 'league' | 'player';
+export type SearchResultType = 'match' | 'team' | 'league' | 'player' | 'coach' | 'venue';
+
+export interface SearchResult {
+  type: SearchResultType;
   id: string;
   title: string;
   description: string;
   url: string;
   relevance: number;
   metadata?: any;
+  highlights?: { title: HighlightRange[]; description: HighlightRange[] };
+  alias?: { text: string; ranges: HighlightRange[] };   // Other name the query matched
 }
 
 interface SearchFilters {
@@ -26,123 +34,150 @@ interface SearchFilters {
   status?: 'upcoming' | 'live' | 'finished';
 }
 
+// Ranking context that changes between searches
+export interface SearchBoosts {
+  favoriteTeams?: string[];
+  now?: Date;
+}
+
+interface IndexedResult extends SearchDocument {
+  result: Omit<SearchResult, 'relevance'>;
+  relevance: number;       // Base weight of the result type
+  teams: string[];         // Teams the result belongs to, for the followed-team boost
+}
+
+const FAVORITE_BOOST = 0.5;
+const LIVE_BOOST = 0.6;
+const KICKOFF_BOOST = 0.5;         // For a match about to start, fading out over the window
+const KICKOFF_WINDOW_HOURS = 48;
+const FINISHED_PENALTY = 0.2;
+
 class SearchService {
-  private searchIndex: Map<string, SearchResult[]> = new Map();
+  private searchIndex = new SearchIndex<IndexedResult>();
   private isIndexed = false;
 
   /**
-   * Index searchable content
+   * Index matches, teams, leagues and each team's players, coach and venue
    */
-  public indexContent(fixtures: Match[], teams: { [key: string]: any }): void {
+  public indexContent(fixtures: Match[], teams: { [key: string]: Team }): void {
     this.searchIndex.clear();
     this.isIndexed = false;
 
+    const add = (result: Omit<SearchResult, 'relevance'>, relevance: number, teamNames: string[], aliases: string[] = []) =>
+      this.searchIndex.add({ id: `${result.type}-${result.id}`, title: result.title, description: result.description, aliases, result, relevance, teams: teamNames });
+
     try {
       // Index matches
       fixtures.forEach(match => {
-        const matchResult: SearchResult = {
+        add({
           type: 'match',
           id: match.id,
           title: `${match.homeTeam} vs ${match.awayTeam}`,
-          description: `${match.league} • ${new Date(match.date).toLocaleDateString()}`,
-          url: `#match/${match.id}`,
-          relevance: 1.0,
+          description: [match.league, new Date(match.date).toLocaleDateString(), match.venue].filter(Boolean).join(' • '),
+          url: href('match', { matchId: match.id }),
           metadata: {
             homeTeam: match.homeTeam,
             awayTeam: match.awayTeam,
             league: match.league,
             date: match.date,
-            status: match.status
+            status: match.status,
+            venue: match.venue
           }
-        };
-
-        this.addToIndex(matchResult);
+        }, 1.0, [match.homeTeam, match.awayTeam], [...getTeamAliases(match.homeTeam), ...getTeamAliases(match.awayTeam)]);
       });
 
-      // Index teams
-      Object.keys(teams).forEach(teamName => {
-        const teamResult: SearchResult = {
+      // Index teams with their squads, coaches and grounds
+      const venues = new Set<string>();
+      Object.entries(teams).forEach(([teamName, team]) => {
+        add({
           type: 'team',
           id: teamName,
           title: teamName,
-          description: 'Team',
-          url: `#team/${teamName}`,
-          relevance: 0.9,
-          metadata: {
-            name: teamName,
-            type: 'team'
-          }
-        };
+          description: [team?.league, team?.country].filter(Boolean).join(' • ') || 'Team',
+          url: href('team', { team: teamName }),
+          metadata: { name: teamName, type: 'team', league: team?.league }
+        }, 0.9, [teamName], [...getTeamAliases(teamName), ...(team?.fullName && team.fullName !== teamName ? [team.fullName] : [])]);
+
+        team?.squad?.forEach(player => {
+          add({
+            type: 'player',
+            id: `${teamName}-${player.id}`,
+            title: player.name,
+            description: `${player.position} • ${teamName}`,
+            url: href('team', { team: teamName }),
+            metadata: { team: teamName, position: player.position, number: player.number, nationality: player.nationality }
+          }, 0.7, [teamName]);
+        });
 
-        this.addToIndex(teamResult);
+        if (team?.coach?.name) {
+          add({
+            type: 'coach',
+            id: `${teamName}-coach`,
+            title: team.coach.name,
+            description: `Head coach • ${teamName}`,
+            url: href('team', { team: teamName }),
+            metadata: { team: teamName, nationality: team.coach.nationality }
+          }, 0.7, [teamName]);
+        }
+
+        if (team?.venue && !venues.has(foldText(team.venue))) {
+          venues.add(foldText(team.venue));
+          add({
+            type: 'venue',
+            id: team.venue,
+            title: team.venue,
+            description: [teamName, team.city, team.capacity ? `${team.capacity.toLocaleString()} seats` : ''].filter(Boolean).join(' • '),
+            url: href('team', { team: teamName }),
+            metadata: { team: teamName, city: team.city, capacity: team.capacity }
+          }, 0.6, [teamName]);
+        }
+      });
+
+      // Grounds that only appear on fixtures
+      fixtures.forEach(match => {
+        if (!match.venue || venues.has(foldText(match.venue))) return;
+        venues.add(foldText(match.venue));
+        add({
+          type: 'venue',
+          id: match.venue,
+          title: match.venue,
+          description: `Home of ${match.homeTeam}`,
+          url: href('team', { team: match.homeTeam }),
+          metadata: { team: match.homeTeam }
+        }, 0.6, [match.homeTeam]);
       });
 
       // Index leagues
-      const uniqueLeagues = [...new Set(fixtures.map(f => f.league))];
+      const uniqueLeagues = [...new Set([
+        ...fixtures.map(f => f.league),
+        ...Object.values(teams).map(team => team?.league).filter((league): league is League => Boolean(league))
+      ])];
       uniqueLeagues.forEach(league => {
-        const leagueResult: SearchResult = {
+        add({
           type: 'league',
           id: league,
           title: league,
           description: 'League',
-          url: `#league/${league}`,
-          relevance: 0.8,
+          url: href('league', { league }),
           metadata: {
             name: league,
             type: 'league'
           }
-        };
-
-        this.addToIndex(leagueResult);
+        }, 0.8, []);
       });
 
       this.isIndexed = true;
-      console.log('Search index created with', this.searchIndex.size, 'entries');
+      console.log(`🔎 Search index created with ${this.searchIndex.size} entries (${this.searchIndex.vocabularySize} words)`);
     } catch (error) {
       console.error('Failed to index content:', error);
     }
   }
 
   /**
-   * Add item to search index
-   */
-  private addToIndex(result: SearchResult): void {
-    const words = this.extractSearchableWords(result.title, result.description);
-    
-    words.forEach(word => {
-      if (!this.searchIndex.has(word)) {
-        this.searchIndex.set(word, []);
-      }
-      this.searchIndex.get(word)!.push(result);
-    });
-  }
-
-  /**
-   * Extract searchable words from text
+   * Search for content, typo- and accent-tolerant; followed teams and matches
+   * about to kick off rank higher
    */
-  private extractSearchableWords(title: string, description: string): string[] {
-    const text = `${title} ${description}`.toLowerCase();
-    const words = text
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 2)
-      .map(word => word.trim());
-
-    // Add partial matches for better search
-    const partialWords: string[] = [];
-    words.forEach(word => {
-      for (let i = 3; i <= word.length; i++) {
-        partialWords.push(word.substring(0, i));
-      }
-    });
-
-    return [...new Set([...words, ...partialWords])];
-  }
-
-  /**
-   * Search for content
-   */
-  public search(query: string, filters?: SearchFilters): SearchResult[] {
+  public search(query: string, filters?: SearchFilters, boosts: SearchBoosts = {}): SearchResult[] {
     if (!this.isIndexed) {
       console.warn('Search index not ready');
       return [];
@@ -153,50 +188,45 @@ class SearchService {
     }
 
     try {
-      const searchTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
-      const results = new Map<string, SearchResult>();
-
-      // Search for each term
-      searchTerms.forEach(term => {
-        this.searchIndex.forEach((items, word) => {
-          if (word.includes(term)) {
-            items.forEach(item => {
-              const key = `${item.type}-${item.id}`;
-              if (!results.has(key)) {
-                results.set(key, { ...item });
-              }
-              
-              // Boost relevance for exact matches
-              const currentResult = results.get(key)!;
-              if (word === term) {
-                currentResult.relevance += 0.5;
-              } else if (word.startsWith(term)) {
-                currentResult.relevance += 0.3;
-              } else {
-                currentResult.relevance += 0.1;
-              }
-            });
-          }
-        });
+      const favorites = new Set((boosts.favoriteTeams ?? []).map(foldText));
+      const now = (boosts.now ?? new Date()).getTime();
+
+      let results: SearchResult[] = this.searchIndex.search(query, 100).map(hit => {
+        let relevance = hit.score * hit.doc.relevance;
+        if (hit.doc.teams.some(team => favorites.has(foldText(team)))) {
+          relevance += FAVORITE_BOOST;
+        }
+        if (hit.doc.result.type === 'match') {
+          relevance += this.kickoffBoost(hit.doc.result.metadata, now);
+        }
+        return { ...hit.doc.result, relevance, highlights: hit.highlights, ...(hit.alias ? { alias: hit.alias } : {}) };
       });
 
       // Apply filters
-      let filteredResults = Array.from(results.values());
-
       if (filters) {
-        filteredResults = this.applyFilters(filteredResults, filters);
+        results = this.applyFilters(results, filters);
       }
 
       // Sort by relevance
-      filteredResults.sort((a, b) => b.relevance - a.relevance);
+      results.sort((a, b) => b.relevance - a.relevance);
 
-      return filteredResults.slice(0, 20); // Limit to top 20 results
+      return results.slice(0, 20); // Limit to top 20 results
     } catch (error) {
       console.error('Search failed:', error);
       return [];
     }
   }
 
+  private kickoffBoost(match: { date?: string; status?: string } | undefined, now: number): number {
+    if (!match?.date) return 0;
+    if (match.status === 'LIVE' || match.status === 'HT') return LIVE_BOOST;
+    const hoursToKickoff = (new Date(match.date).getTime() - now) / 3_600_000;
+    if (hoursToKickoff >= 0 && hoursToKickoff <= KICKOFF_WINDOW_HOURS) {
+      return KICKOFF_BOOST * (1 - hoursToKickoff / KICKOFF_WINDOW_HOURS);
+    }
+    return hoursToKickoff < 0 ? -FINISHED_PENALTY : 0;
+  }
+
   /**
    * Apply search filters
    */
@@ -250,7 +280,7 @@ class SearchService {
   }
 
   /**
-   * Get search suggestions
+   * Get search suggestions: titles of the best matches so far
    */
   public getSuggestions(query: string, limit: number = 5): string[] {
     if (!query.trim() || !this.isIndexed) {
@@ -258,15 +288,12 @@ class SearchService {
     }
 
     const suggestions = new Set<string>();
-    const queryLower = query.toLowerCase();
-
-    this.searchIndex.forEach((items, word) => {
-      if (word.startsWith(queryLower) && suggestions.size < limit) {
-        suggestions.add(word);
-      }
-    });
+    for (const hit of this.searchIndex.search(query, limit * 2)) {
+      suggestions.add(hit.doc.title);
+      if (suggestions.size >= limit) break;
+    }
 
-    return Array.from(suggestions).slice(0, limit);
+    return Array.from(suggestions);
   }
 
   /**
@@ -288,12 +315,11 @@ class SearchService {
   }
 
   /**
-   * Get recent searches from localStorage
+   * Get recent searches from the client store
    */
   public getRecentSearches(): string[] {
     try {
-      const recent = localStorage.getItem('fixturecast_recent_searches');
-      return recent ? JSON.parse(recent) : [];
+      return [...clientStore.get('recentSearches')];
     } catch (error) {
       console.error('Failed to get recent searches:', error);
       return [];
@@ -307,7 +333,7 @@ class SearchService {
     try {
       const recent = this.getRecentSearches();
       const updated = [query, ...recent.filter(q => q !== query)].slice(0, 10);
-      localStorage.setItem('fixturecast_recent_searches', JSON.stringify(updated));
+      clientStore.set('recentSearches', updated);
     } catch (error) {
       console.error('Failed to save recent search:', error);
     }
@@ -318,7 +344,7 @@ class SearchService {
    */
   public clearRecentSearches(): void {
     try {
-      localStorage.removeItem('fixturecast_recent_searches');
+      clientStore.reset('recentSearches');
     } catch (error) {
       console.error('Failed to clear recent searches:', error);
     }
@@ -330,8 +356,8 @@ class SearchService {
   public getSearchStats(): { indexed: boolean; totalItems: number; totalWords: number } {
     return {
       indexed: this.isIndexed,
-      totalItems: Array.from(this.searchIndex.values()).flat().length,
-      totalWords: this.searchIndex.size
+      totalItems: this.searchIndex.size,
+      totalWords: this.searchIndex.vocabularySize
     };
   }
 
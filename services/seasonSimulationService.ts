@@ -0,0 +1,176 @@
+import { League, LeagueTableRow, Match, Prediction } from '../types';
+import { resolveTeamName } from './teamDataService';
+import { dixonColesService } from './dixonColesModel';
+import {
+  simulateSeason,
+  DEFAULT_SIMULATION_ITERATIONS,
+  SeasonSimulationInput,
+  SeasonSimulationResult,
+  SimulationFixture,
+  SimulationTeam
+} from './seasonSimulator';
+import type { SeasonSimulationMessage, SeasonSimulationRequest } from '../workers/seasonSimulation.worker';
+
+// Season Simulation Service
+// Gathers the current table, remaining fixtures and their predictions on the main
+// thread, then hands the Monte Carlo run to a Web Worker. Falls back to running
+// inline where workers are unavailable (tests, SSR).
+
+export interface SeasonSimulationOptions {
+  getPrediction?: (matchId: string) => Prediction | null | undefined;
+  fixtures?: Match[]; // Remaining fixtures; fetched from API-Football when omitted
+  iterations?: number;
+  seed?: number;
+  force?: boolean; // Ignore the cached result
+  onProgress?: (fraction: number) => void;
+}
+
+interface PendingRun {
+  resolve: (result: SeasonSimulationResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_REMAINING_FIXTURES = 1000;
+const FALLBACK_XG = { home: 1.45, away: 1.15 };
+
+class SeasonSimulationService {
+  private cache = new Map<string, { result: SeasonSimulationResult; expiresAt: number }>();
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRun>();
+
+  /**
+   * Normalise API standings (flat or nested `all` shape) into simulator teams
+   */
+  toSimulationTeams(table: LeagueTableRow[]): SimulationTeam[] {
+    return table.map(row => {
+      const name = row.teamName || row.team?.name || '';
+      const goalsFor = row.all?.goals?.for ?? 0;
+      const goalDifference = row.goalDifference ?? (row.all ? row.all.goals.for - row.all.goals.against : 0);
+      return {
+        name: resolveTeamName(name),
+        points: row.points || 0,
+        played: row.played ?? row.all?.played ?? 0,
+        goalDifference: goalDifference || 0,
+        goalsFor
+      };
+    }).filter(team => team.name);
+  }
+
+  /**
+   * Stored prediction when we have one, otherwise the offline Dixon-Coles model
+   */
+  toSimulationFixture(match: Match, prediction?: Prediction | null): SimulationFixture {
+    const source = prediction ? 'prediction' : 'model';
+    const p = prediction || dixonColesService.predictMatch(match);
+    return {
+      id: match.id,
+      homeTeam: match.homeTeam,
+      awayTeam: match.awayTeam,
+      homeWin: p.homeWinProbability,
+      draw: p.drawProbability,
+      awayWin: p.awayWinProbability,
+      homeXg: p.expectedGoals?.homeXg || FALLBACK_XG.home,
+      awayXg: p.expectedGoals?.awayXg || FALLBACK_XG.away,
+      source
+    };
+  }
+
+  async simulate(league: League, table: LeagueTableRow[], options: SeasonSimulationOptions = {}): Promise<SeasonSimulationResult> {
+    const teams = this.toSimulationTeams(table);
+    const cacheKey = `${league}:${teams.map(t => `${t.name}=${t.played}/${t.points}`).join(',')}`;
+    const cached = this.cache.get(cacheKey);
+    if (!options.force && cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const remaining = options.fixtures ?? await this.fetchRemainingFixtures(league);
+    const input: SeasonSimulationInput = {
+      league,
+      table: teams,
+      fixtures: remaining.map(match => this.toSimulationFixture(match, options.getPrediction?.(match.id))),
+      iterations: options.iterations ?? DEFAULT_SIMULATION_ITERATIONS,
+      seed: options.seed
+    };
+
+    let result: SeasonSimulationResult | null = null;
+    try {
+      result = await this.runInWorker(input, options.onProgress);
+    } catch (error) {
+      console.warn('⚠️ Season simulation worker failed, running inline:', error);
+    }
+    if (!result) {
+      result = simulateSeason(input, (done, total) => options.onProgress?.(done / total));
+    }
+
+    console.log(`🎲 Simulated ${league} ${result.iterations}x over ${result.fixturesSimulated} fixtures in ${result.durationMs}ms`);
+    this.cache.set(cacheKey, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    return result;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchRemainingFixtures(league: League): Promise<Match[]> {
+    const { getUpcomingFixtures } = await import('./footballApiService');
+    return getUpcomingFixtures(league, MAX_REMAINING_FIXTURES);
+  }
+
+  // Resolves null when no worker can be used so the caller runs inline
+  private async runInWorker(input: SeasonSimulationInput, onProgress?: (fraction: number) => void): Promise<SeasonSimulationResult | null> {
+    const worker = this.getWorker();
+    if (!worker) return null;
+
+    const id = this.nextRequestId++;
+    return new Promise<SeasonSimulationResult>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      const request: SeasonSimulationRequest = { id, input };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (this.workerFailed || typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('../workers/seasonSimulation.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      this.workerFailed = true;
+      console.warn('⚠️ Failed to start season simulation worker:', error);
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<SeasonSimulationMessage>) => {
+      const message = event.data;
+      const run = this.pending.get(message.id);
+      if (!run) return;
+
+      if (message.type === 'progress') {
+        run.onProgress?.(message.completed / message.total);
+        return;
+      }
+      this.pending.delete(message.id);
+      if (message.type === 'result') run.resolve(message.result);
+      else run.reject(new Error(message.message));
+    };
+
+    this.worker.onerror = (event) => {
+      // A crashed worker fails every queued run; callers fall back to inline
+      this.workerFailed = true;
+      this.worker?.terminate();
+      this.worker = null;
+      const error = new Error(event.message || 'Season simulation worker crashed');
+      this.pending.forEach(run => run.reject(error));
+      this.pending.clear();
+    };
+
+    return this.worker;
+  }
+}
+
+export const seasonSimulationService = new SeasonSimulationService();
@@ -0,0 +1,235 @@
+import { League } from '../types';
+
+/**
+ * Monte Carlo season simulator
+ * Plays out the remaining fixtures thousands of times from per-match 1X2
+ * probabilities and expected goals, re-ranks the table each run and counts
+ * finishing positions. Pure and dependency-free so it runs unchanged inside
+ * the season simulation Web Worker (see workers/seasonSimulation.worker.ts).
+ */
+
+export interface SimulationTeam {
+  name: string;
+  points: number;
+  played: number;
+  goalDifference: number;
+  goalsFor: number;
+}
+
+export interface SimulationFixture {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeWin: number; // Probabilities in any scale; normalised per fixture
+  draw: number;
+  awayWin: number;
+  homeXg: number;
+  awayXg: number;
+  source: 'prediction' | 'model';
+}
+
+export interface LeagueZones {
+  european: number;    // Places counted as "top" (Champions League / promotion)
+  relegation: number;  // Places counted from the bottom
+  europeanLabel: string;
+}
+
+export interface SeasonSimulationInput {
+  league: League;
+  table: SimulationTeam[];
+  fixtures: SimulationFixture[];
+  iterations?: number;
+  seed?: number;
+  zones?: LeagueZones;
+}
+
+export interface TeamProjection {
+  team: string;
+  currentPoints: number;
+  currentPosition: number;
+  remainingFixtures: number;
+  expectedPoints: number;
+  expectedPosition: number;
+  titleProbability: number;
+  europeanProbability: number;
+  relegationProbability: number;
+  positionProbabilities: number[]; // Index 0 = 1st place
+}
+
+export interface SeasonSimulationResult {
+  league: League;
+  iterations: number;
+  fixturesSimulated: number;
+  fixturesFromPredictions: number;
+  zones: LeagueZones;
+  teams: TeamProjection[]; // Sorted by expected points
+  generatedAt: string;
+  durationMs: number;
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 10000;
+
+const DEFAULT_ZONES: LeagueZones = { european: 4, relegation: 3, europeanLabel: 'Top 4' };
+
+const LEAGUE_ZONES: Partial<Record<League, LeagueZones>> = {
+  [League.PremierLeague]: DEFAULT_ZONES,
+  [League.LaLiga]: DEFAULT_ZONES,
+  [League.SerieA]: DEFAULT_ZONES,
+  [League.Bundesliga]: { european: 4, relegation: 2, europeanLabel: 'Top 4' },
+  [League.Ligue1]: { european: 3, relegation: 2, europeanLabel: 'Top 3' },
+  [League.Eredivisie]: { european: 2, relegation: 2, europeanLabel: 'Top 2' },
+  [League.PrimeiraLiga]: { european: 2, relegation: 2, europeanLabel: 'Top 2' },
+  [League.ScottishPremiership]: { european: 2, relegation: 1, europeanLabel: 'Top 2' },
+  [League.SuperLig]: { european: 2, relegation: 4, europeanLabel: 'Top 2' },
+  [League.Championship]: { european: 2, relegation: 3, europeanLabel: 'Promotion' },
+  [League.LeagueOne]: { european: 2, relegation: 4, europeanLabel: 'Promotion' },
+  [League.LeagueTwo]: { european: 3, relegation: 2, europeanLabel: 'Promotion' },
+  [League.Bundesliga2]: { european: 2, relegation: 2, europeanLabel: 'Promotion' },
+  [League.Ligue2]: { european: 2, relegation: 2, europeanLabel: 'Promotion' },
+  [League.SerieB]: { european: 2, relegation: 3, europeanLabel: 'Promotion' },
+  [League.SegundaDivision]: { european: 2, relegation: 4, europeanLabel: 'Promotion' }
+};
+
+export const getLeagueZones = (league: League): LeagueZones => LEAGUE_ZONES[league] || DEFAULT_ZONES;
+
+// Mulberry32: small, fast and seedable so runs are reproducible
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const samplePoisson = (lambda: number, rng: () => number): number => {
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = rng();
+  while (p > limit && k < 15) {
+    k++;
+    p *= rng();
+  }
+  return k;
+};
+
+/**
+ * Draw the result from the 1X2 probabilities, then a scoreline consistent with
+ * it from independent Poisson goals (so goal difference tiebreaks stay realistic)
+ */
+export const sampleFixture = (fixture: SimulationFixture, rng: () => number): [number, number] => {
+  const total = fixture.homeWin + fixture.draw + fixture.awayWin;
+  const roll = rng() * (total > 0 ? total : 3);
+  const outcome = total <= 0
+    ? (roll < 1 ? 'H' : roll < 2 ? 'D' : 'A')
+    : (roll < fixture.homeWin ? 'H' : roll < fixture.homeWin + fixture.draw ? 'D' : 'A');
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const home = samplePoisson(fixture.homeXg, rng);
+    const away = samplePoisson(fixture.awayXg, rng);
+    const result = home > away ? 'H' : home < away ? 'A' : 'D';
+    if (result === outcome) return [home, away];
+  }
+  return outcome === 'H' ? [1, 0] : outcome === 'A' ? [0, 1] : [1, 1];
+};
+
+export const simulateSeason = (
+  input: SeasonSimulationInput,
+  onProgress?: (completed: number, total: number) => void
+): SeasonSimulationResult => {
+  const started = Date.now();
+  const iterations = Math.max(1, Math.floor(input.iterations ?? DEFAULT_SIMULATION_ITERATIONS));
+  const zones = input.zones || getLeagueZones(input.league);
+  const rng = createRng(input.seed ?? Date.now());
+
+  const teams = input.table;
+  const teamCount = teams.length;
+  const index = new Map(teams.map((t, i) => [t.name, i]));
+  const fixtures = input.fixtures.filter(f => index.has(f.homeTeam) && index.has(f.awayTeam) && f.homeTeam !== f.awayTeam);
+  const homeIdx = fixtures.map(f => index.get(f.homeTeam)!);
+  const awayIdx = fixtures.map(f => index.get(f.awayTeam)!);
+
+  // Current standing for position reporting: points, goal difference, goals for
+  const compare = (points: number[], gd: number[], gf: number[], tiebreak: number[]) => (a: number, b: number) =>
+    points[b] - points[a] || gd[b] - gd[a] || gf[b] - gf[a] || tiebreak[a] - tiebreak[b];
+  const currentOrder = teams.map((_, i) => i).sort(compare(
+    teams.map(t => t.points), teams.map(t => t.goalDifference), teams.map(t => t.goalsFor), teams.map((_, i) => i)
+  ));
+  const currentPosition = new Array(teamCount);
+  currentOrder.forEach((teamIndex, pos) => { currentPosition[teamIndex] = pos + 1; });
+
+  const positionCounts = teams.map(() => new Array(teamCount).fill(0));
+  const pointsTotal = new Array(teamCount).fill(0);
+  const remaining = new Array(teamCount).fill(0);
+  fixtures.forEach((_, i) => { remaining[homeIdx[i]]++; remaining[awayIdx[i]]++; });
+
+  const points = new Array(teamCount);
+  const gd = new Array(teamCount);
+  const gf = new Array(teamCount);
+  const tiebreak = new Array(teamCount);
+  const order = teams.map((_, i) => i);
+  const progressEvery = Math.max(1, Math.floor(iterations / 20));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    for (let t = 0; t < teamCount; t++) {
+      points[t] = teams[t].points;
+      gd[t] = teams[t].goalDifference;
+      gf[t] = teams[t].goalsFor;
+      tiebreak[t] = rng();
+    }
+
+    for (let i = 0; i < fixtures.length; i++) {
+      const [homeGoals, awayGoals] = sampleFixture(fixtures[i], rng);
+      const h = homeIdx[i];
+      const a = awayIdx[i];
+      gd[h] += homeGoals - awayGoals;
+      gd[a] += awayGoals - homeGoals;
+      gf[h] += homeGoals;
+      gf[a] += awayGoals;
+      if (homeGoals > awayGoals) points[h] += 3;
+      else if (homeGoals < awayGoals) points[a] += 3;
+      else { points[h] += 1; points[a] += 1; }
+    }
+
+    order.sort(compare(points, gd, gf, tiebreak));
+    for (let pos = 0; pos < teamCount; pos++) {
+      positionCounts[order[pos]][pos]++;
+    }
+    for (let t = 0; t < teamCount; t++) pointsTotal[t] += points[t];
+
+    if (onProgress && (iter + 1) % progressEvery === 0) onProgress(iter + 1, iterations);
+  }
+
+  const relegationStart = Math.max(0, teamCount - zones.relegation);
+  const projections: TeamProjection[] = teams.map((team, t) => {
+    const distribution = positionCounts[t].map(count => count / iterations);
+    const sumRange = (from: number, to: number) => distribution.slice(from, to).reduce((s, p) => s + p, 0);
+    return {
+      team: team.name,
+      currentPoints: team.points,
+      currentPosition: currentPosition[t],
+      remainingFixtures: remaining[t],
+      expectedPoints: pointsTotal[t] / iterations,
+      expectedPosition: distribution.reduce((s, p, pos) => s + p * (pos + 1), 0),
+      titleProbability: distribution[0] || 0,
+      europeanProbability: sumRange(0, zones.european),
+      relegationProbability: zones.relegation > 0 ? sumRange(relegationStart, teamCount) : 0,
+      positionProbabilities: distribution
+    };
+  });
+
+  projections.sort((a, b) => b.expectedPoints - a.expectedPoints || a.expectedPosition - b.expectedPosition);
+
+  return {
+    league: input.league,
+    iterations,
+    fixturesSimulated: fixtures.length,
+    fixturesFromPredictions: fixtures.filter(f => f.source === 'prediction').length,
+    zones,
+    teams: projections,
+    generatedAt: new Date().toISOString(),
+    durationMs: Date.now() - started
+  };
+};
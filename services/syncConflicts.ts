@@ -0,0 +1,249 @@
+/**
+ * Conflict detection and resolution for predictions synced between devices.
+ *
+ * Every record carries a version vector (device id -> edits made on that
+ * device). Comparing vectors tells whether one copy already includes the
+ * other's edits or whether two devices changed the same record independently,
+ * e.g. while both were offline. Only the latter is a conflict.
+ *
+ * Resolution strategies:
+ *  - local / cloud: keep one copy whole
+ *  - merge: model output goes to the latest prediction generated before
+ *    kickoff; user annotations merge field by field, latest edit winning
+ *  - manual: leave both copies for the user to choose between
+ *
+ * Runtime-neutral: shared by the app and the /api/predictions/sync Pages Function.
+ */
+
+import type { Prediction } from '../types';
+
+export type VersionVector = Record<string, number>;
+
+export type VectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export interface PredictionAnnotations {
+  note?: string;
+  tags?: string[];
+  starred?: boolean;
+}
+
+export type AnnotationField = keyof PredictionAnnotations;
+
+export const ANNOTATION_FIELDS: AnnotationField[] = ['note', 'tags', 'starred'];
+
+// When and where an annotation field was last edited
+export interface AnnotationStamp {
+  at: number;
+  deviceId: string;
+}
+
+export interface PredictionSyncRecord {
+  id: string;
+  matchId: string;
+  prediction: Prediction;
+  annotations?: PredictionAnnotations;
+  annotationStamps?: Partial<Record<AnnotationField, AnnotationStamp>>;
+  metadata: {
+    created: number;
+    modified: number;
+    deviceId: string;          // Device that made the latest edit
+    version: number;           // Total edits across devices (sum of the vector)
+    vector?: VersionVector;    // Missing on records written before vectors existed
+    checksum: string;
+    platform: 'web' | 'mobile' | 'desktop';
+    generatedAt?: number;      // When the model produced `prediction`
+    kickoff?: string;          // ISO kickoff of the match
+  };
+  syncStatus: {
+    local: boolean;
+    cloud: boolean;
+    pending: boolean;
+    conflicted: boolean;
+  };
+}
+
+export type ConflictStrategy = 'local' | 'cloud' | 'merge' | 'manual';
+
+export interface SyncConflict {
+  matchId: string;
+  localVersion: PredictionSyncRecord;
+  cloudVersion: PredictionSyncRecord;
+  resolution: ConflictStrategy;
+  detectedAt?: number;
+  // Why an automatic merge was not possible
+  reason?: string;
+}
+
+export type ReconcileAction = 'none' | 'pull' | 'push' | 'resolved' | 'queued';
+
+export interface ReconcileResult {
+  action: ReconcileAction;
+  // Record to keep locally (and push, for 'push' and 'resolved')
+  record?: PredictionSyncRecord;
+  conflict?: SyncConflict;
+}
+
+export const vectorOf = (record: PredictionSyncRecord): VersionVector =>
+  record.metadata.vector || { [record.metadata.deviceId]: record.metadata.version || 1 };
+
+/**
+ * How `a` relates to `b`: 'after' means `a` has seen every edit in `b` and more
+ */
+export const compareVectors = (a: VersionVector, b: VersionVector): VectorOrder => {
+  let ahead = false;
+  let behind = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] || 0;
+    const right = b[device] || 0;
+    if (left > right) ahead = true;
+    if (left < right) behind = true;
+  }
+  if (ahead && behind) return 'concurrent';
+  if (ahead) return 'after';
+  if (behind) return 'before';
+  return 'equal';
+};
+
+export const mergeVectors = (a: VersionVector, b: VersionVector): VersionVector => {
+  const merged: VersionVector = { ...a };
+  Object.entries(b).forEach(([device, count]) => {
+    merged[device] = Math.max(merged[device] || 0, count);
+  });
+  return merged;
+};
+
+export const incrementVector = (vector: VersionVector, deviceId: string): VersionVector =>
+  ({ ...vector, [deviceId]: (vector[deviceId] || 0) + 1 });
+
+const vectorTotal = (vector: VersionVector) => Object.values(vector).reduce((sum, count) => sum + count, 0);
+
+/**
+ * Metadata for a new edit on `deviceId` on top of everything in `vector`
+ */
+export const stampEdit = (
+  metadata: PredictionSyncRecord['metadata'],
+  vector: VersionVector,
+  deviceId: string,
+  now: number
+): PredictionSyncRecord['metadata'] => {
+  const next = incrementVector(vector, deviceId);
+  return { ...metadata, vector: next, version: vectorTotal(next), deviceId, modified: now };
+};
+
+const sameAnnotations = (a: PredictionSyncRecord, b: PredictionSyncRecord) =>
+  JSON.stringify(a.annotations || {}) === JSON.stringify(b.annotations || {});
+
+const sameContent = (a: PredictionSyncRecord, b: PredictionSyncRecord) =>
+  a.metadata.checksum === b.metadata.checksum && sameAnnotations(a, b);
+
+const generatedAt = (record: PredictionSyncRecord) => record.metadata.generatedAt ?? record.metadata.created;
+
+const beforeKickoff = (record: PredictionSyncRecord): boolean => {
+  const kickoff = Date.parse(record.metadata.kickoff || '');
+  return !Number.isNaN(kickoff) && generatedAt(record) < kickoff;
+};
+
+/**
+ * The model output to keep: the latest one generated before kickoff. Null when
+ * neither copy can be shown to predate kickoff.
+ */
+export const latestPreKickoff = (a: PredictionSyncRecord, b: PredictionSyncRecord): PredictionSyncRecord | null => {
+  const candidates = [a, b].filter(beforeKickoff);
+  if (!candidates.length) return null;
+  return candidates.sort((x, y) => generatedAt(y) - generatedAt(x) || y.metadata.checksum.localeCompare(x.metadata.checksum))[0];
+};
+
+const laterStamp = (a?: AnnotationStamp, b?: AnnotationStamp): 'a' | 'b' => {
+  if (!b) return 'a';
+  if (!a) return 'b';
+  if (a.at !== b.at) return a.at > b.at ? 'a' : 'b';
+  return a.deviceId >= b.deviceId ? 'a' : 'b';
+};
+
+/**
+ * Field-level merge of user annotations; each field keeps its latest edit
+ */
+export const mergeAnnotations = (
+  a: PredictionSyncRecord,
+  b: PredictionSyncRecord
+): Pick<PredictionSyncRecord, 'annotations' | 'annotationStamps'> => {
+  const annotations: PredictionAnnotations = {};
+  const annotationStamps: Partial<Record<AnnotationField, AnnotationStamp>> = {};
+  for (const field of ANNOTATION_FIELDS) {
+    const winner = laterStamp(a.annotationStamps?.[field], b.annotationStamps?.[field]) === 'a' ? a : b;
+    const value = winner.annotations?.[field];
+    const stamp = winner.annotationStamps?.[field];
+    if (value !== undefined) (annotations as Record<AnnotationField, unknown>)[field] = value;
+    if (stamp) annotationStamps[field] = stamp;
+  }
+  return { annotations, annotationStamps };
+};
+
+/**
+ * Applies a strategy to a conflict, as an edit by `deviceId` that supersedes
+ * both copies. Null when the conflict needs a person ('manual', or a merge
+ * with no pre-kickoff prediction to keep).
+ */
+export const resolveConflict = (
+  conflict: SyncConflict,
+  strategy: ConflictStrategy,
+  deviceId: string,
+  now: number = Date.now()
+): PredictionSyncRecord | null => {
+  const { localVersion: local, cloudVersion: cloud } = conflict;
+  const vector = mergeVectors(vectorOf(local), vectorOf(cloud));
+
+  let base: PredictionSyncRecord;
+  let annotations: Pick<PredictionSyncRecord, 'annotations' | 'annotationStamps'>;
+  if (strategy === 'local' || strategy === 'cloud') {
+    base = strategy === 'local' ? local : cloud;
+    annotations = { annotations: base.annotations, annotationStamps: base.annotationStamps };
+  } else if (strategy === 'merge') {
+    const model = latestPreKickoff(local, cloud);
+    if (!model) return null;
+    base = model;
+    annotations = mergeAnnotations(local, cloud);
+  } else {
+    return null;
+  }
+
+  return {
+    ...base,
+    ...annotations,
+    metadata: stampEdit(base.metadata, vector, deviceId, now),
+    syncStatus: { local: true, cloud: false, pending: true, conflicted: false }
+  };
+};
+
+/**
+ * Decides what one sync pass does with a device's copy and the cloud's copy
+ */
+export const reconcile = (
+  local: PredictionSyncRecord | null,
+  cloud: PredictionSyncRecord | null,
+  options: { deviceId: string; strategy?: ConflictStrategy; now?: number }
+): ReconcileResult => {
+  if (!local) return cloud ? { action: 'pull', record: cloud } : { action: 'none' };
+  if (!cloud) return { action: 'push', record: local };
+
+  const order = compareVectors(vectorOf(local), vectorOf(cloud));
+  if (order === 'after') return { action: 'push', record: local };
+  if (order === 'before') return { action: 'pull', record: cloud };
+  if (order === 'equal' && sameContent(local, cloud)) return { action: 'none', record: local };
+
+  const now = options.now ?? Date.now();
+  const conflict: SyncConflict = { matchId: local.matchId, localVersion: local, cloudVersion: cloud, resolution: options.strategy || 'merge', detectedAt: now };
+  // Independent edits that ended up identical only need their histories joined
+  const strategy = sameContent(local, cloud) ? 'local' : conflict.resolution;
+  const resolved = resolveConflict(conflict, strategy, options.deviceId, now);
+  if (resolved) return { action: 'resolved', record: resolved };
+
+  return {
+    action: 'queued',
+    conflict: {
+      ...conflict,
+      resolution: 'manual',
+      reason: strategy === 'manual' ? 'Manual review requested' : 'Neither prediction was generated before kickoff'
+    }
+  };
+};
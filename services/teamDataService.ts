@@ -894,3 +894,14 @@ export const getAllKnownTeams = (): { [key: string]: Team } => {
 export const isKnownTeam = (teamName: string): boolean => {
   return teamName in TEAM_DATA;
 };
+
+// Other names a team is known by (the aliases that resolve to it)
+export const getTeamAliases = (teamName: string): string[] => {
+  return Object.keys(TEAM_ALIASES).filter(alias => TEAM_ALIASES[alias] === teamName);
+};
+
+// API-Football team id of a known team, read from its api-sports logo URL
+export const getTeamApiId = (teamName: string): number | null => {
+  const match = TEAM_DATA[resolveTeamName(teamName)]?.logo.match(/\/football\/teams\/(\d+)\.png$/);
+  return match ? Number(match[1]) : null;
+};
@@ -0,0 +1,264 @@
+import type { TeamColors } from './colorSystemService';
+import { resolveTeamName } from './teamDataService';
+import { clientStore } from './clientStore';
+import defaultMetadata from '../data/team-metadata.json';
+
+/**
+ * Team metadata store
+ * One source for team prestige, derby pairs, ratings, colours and aliases,
+ * keyed by API-Football team id and seeded from data/team-metadata.json.
+ * Admin overrides are merged on top and persisted locally, so adding a team
+ * or league is a data change rather than an edit to every consumer.
+ */
+
+// API-Football team id, or a team name for clubs without a known id
+export type TeamRef = number | string;
+
+// Fixture-side lookup: the id is preferred, the name covers teams the store has no id for
+export type TeamLookup = TeamRef | { id?: number | null; name: string };
+
+export interface TeamRatings {
+  attack: number;
+  defence: number;
+  form: number;
+}
+
+export interface TeamMetadata {
+  name: string;
+  aliases?: string[];
+  league?: string;
+  prestige?: number;
+  ratings?: Partial<TeamRatings>;
+  colors?: TeamColors;
+  highExpectations?: boolean; // Fan and board pressure regardless of table position
+  european?: boolean;         // Plays in Europe this season, so rotates more
+}
+
+export interface LeagueMetadata {
+  multiplier?: number;
+  venueAdvantage?: number;
+}
+
+export interface DerbyPair {
+  teams: [TeamRef, TeamRef];
+  intensity?: number;
+}
+
+export interface TeamMetadataDefaults {
+  prestige: number;
+  ratings: TeamRatings;
+  leagueMultiplier: number;
+  venueAdvantage: number;
+  rivalryIntensity: number; // Any non-derby fixture
+  derbyIntensity: number;   // Derbies without their own intensity
+}
+
+export interface TeamMetadataFile {
+  version: number;
+  defaults: TeamMetadataDefaults;
+  leagues: Record<string, LeagueMetadata>;
+  teams: Record<string, TeamMetadata>;
+  derbies: DerbyPair[];
+}
+
+export interface TeamMetadataOverrides {
+  teams?: Record<string, Partial<TeamMetadata>>;
+  leagues?: Record<string, LeagueMetadata>;
+  derbies?: DerbyPair[];
+}
+
+export interface ResolvedTeam extends TeamMetadata {
+  id: number;
+}
+
+const normalise = (name: string): string => resolveTeamName(name).trim().toLowerCase();
+
+export class TeamMetadataService {
+  private base: TeamMetadataFile;
+  private overrides: TeamMetadataOverrides = {};
+  private data!: TeamMetadataFile;
+  private nameIndex = new Map<string, number>();
+  private derbyIndex = new Map<string, number>();
+  private loaded = false;
+
+  constructor(base: TeamMetadataFile = defaultMetadata as unknown as TeamMetadataFile, private persistOverrides = true) {
+    this.base = base;
+  }
+
+  /**
+   * Replace the seeded metadata, e.g. with a freshly deployed data file
+   */
+  loadData(data: TeamMetadataFile): void {
+    this.base = data;
+    this.ensureLoaded();
+    this.rebuild();
+  }
+
+  getTeam(team: TeamLookup): ResolvedTeam | null {
+    this.ensureLoaded();
+    const { id, name } = this.split(team);
+    const resolvedId = id != null && this.data.teams[id] ? id : name ? this.nameIndex.get(normalise(name)) : undefined;
+    return resolvedId != null ? { id: resolvedId, ...this.data.teams[resolvedId] } : null;
+  }
+
+  getAllTeams(): ResolvedTeam[] {
+    this.ensureLoaded();
+    return Object.entries(this.data.teams).map(([id, team]) => ({ id: Number(id), ...team }));
+  }
+
+  getPrestige(team: TeamLookup): number {
+    return this.getTeam(team)?.prestige ?? this.getDefaults().prestige;
+  }
+
+  getRatings(team: TeamLookup): TeamRatings {
+    return { ...this.getDefaults().ratings, ...this.getTeam(team)?.ratings };
+  }
+
+  getColors(team: TeamLookup): TeamColors | null {
+    return this.getTeam(team)?.colors ?? null;
+  }
+
+  getLeagueMultiplier(league: string): number {
+    return this.getLeague(league).multiplier ?? this.getDefaults().leagueMultiplier;
+  }
+
+  getVenueAdvantage(league: string): number {
+    return this.getLeague(league).venueAdvantage ?? this.getDefaults().venueAdvantage;
+  }
+
+  areRivals(home: TeamLookup, away: TeamLookup): boolean {
+    return this.findDerby(home, away) !== undefined;
+  }
+
+  getRivalryIntensity(home: TeamLookup, away: TeamLookup): number {
+    const index = this.findDerby(home, away);
+    if (index === undefined) return this.getDefaults().rivalryIntensity;
+    return this.data.derbies[index].intensity ?? this.getDefaults().derbyIntensity;
+  }
+
+  getDefaults(): TeamMetadataDefaults {
+    this.ensureLoaded();
+    return this.data.defaults;
+  }
+
+  getOverrides(): TeamMetadataOverrides {
+    this.ensureLoaded();
+    return JSON.parse(JSON.stringify(this.overrides));
+  }
+
+  /**
+   * Admin override for one team; fields are merged over the seeded entry.
+   * Unknown ids create a new team, which then needs at least a name.
+   */
+  setTeamOverride(id: number, patch: Partial<TeamMetadata>): void {
+    this.ensureLoaded();
+    if (!this.base.teams[id] && !this.overrides.teams?.[id]?.name && !patch.name) {
+      throw new Error(`Team ${id} is not in the metadata store; a name is required to add it`);
+    }
+    this.overrides.teams = { ...this.overrides.teams, [id]: { ...this.overrides.teams?.[id], ...patch } };
+    this.commit();
+  }
+
+  setLeagueOverride(league: string, patch: LeagueMetadata): void {
+    this.ensureLoaded();
+    this.overrides.leagues = { ...this.overrides.leagues, [league]: { ...this.overrides.leagues?.[league], ...patch } };
+    this.commit();
+  }
+
+  addDerby(derby: DerbyPair): void {
+    this.ensureLoaded();
+    this.overrides.derbies = [...(this.overrides.derbies || []), derby];
+    this.commit();
+  }
+
+  /**
+   * Replace all overrides at once (admin import)
+   */
+  setOverrides(overrides: TeamMetadataOverrides): void {
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      throw new Error('Team metadata overrides must be a JSON object');
+    }
+    this.ensureLoaded();
+    this.overrides = overrides;
+    this.commit();
+  }
+
+  resetOverrides(): void {
+    this.setOverrides({});
+  }
+
+  private getLeague(league: string): LeagueMetadata {
+    this.ensureLoaded();
+    return this.data.leagues[league] || {};
+  }
+
+  private split(team: TeamLookup): { id?: number | null; name?: string } {
+    if (typeof team === 'number') return { id: team };
+    if (typeof team === 'string') return { name: team };
+    return team;
+  }
+
+  // Stored id when the store knows the team, otherwise its normalised name
+  private keyOf(team: TeamLookup): string | null {
+    const resolved = this.getTeam(team);
+    if (resolved) return `id:${resolved.id}`;
+    const { id, name } = this.split(team);
+    if (name) return `name:${normalise(name)}`;
+    return id != null ? `id:${id}` : null;
+  }
+
+  private findDerby(home: TeamLookup, away: TeamLookup): number | undefined {
+    const homeKey = this.keyOf(home);
+    const awayKey = this.keyOf(away);
+    if (!homeKey || !awayKey || homeKey === awayKey) return undefined;
+    return this.derbyIndex.get([homeKey, awayKey].sort().join('|'));
+  }
+
+  private commit(): void {
+    this.rebuild();
+    this.persist();
+  }
+
+  private rebuild(): void {
+    const teams: Record<string, TeamMetadata> = { ...this.base.teams };
+    Object.entries(this.overrides.teams || {}).forEach(([id, patch]) => {
+      const ratings = patch.ratings ? { ...teams[id]?.ratings, ...patch.ratings } : teams[id]?.ratings;
+      teams[id] = { ...teams[id], ...patch, ratings } as TeamMetadata;
+    });
+    const leagues: Record<string, LeagueMetadata> = { ...this.base.leagues };
+    Object.entries(this.overrides.leagues || {}).forEach(([league, patch]) => {
+      leagues[league] = { ...leagues[league], ...patch };
+    });
+    this.data = {
+      ...this.base,
+      teams,
+      leagues,
+      derbies: [...this.base.derbies, ...(this.overrides.derbies || [])]
+    };
+
+    this.nameIndex.clear();
+    Object.entries(teams).forEach(([id, team]) => {
+      [team.name, ...(team.aliases || [])].forEach(name => this.nameIndex.set(normalise(name), Number(id)));
+    });
+
+    // Later entries win, so an admin derby can re-rate a seeded one
+    this.derbyIndex.clear();
+    this.data.derbies.forEach((derby, index) => {
+      const keys = derby.teams.map(team => this.keyOf(team));
+      if (keys[0] && keys[1]) this.derbyIndex.set([keys[0], keys[1]].sort().join('|'), index);
+    });
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (this.persistOverrides) this.overrides = clientStore.get('teamMetadataOverrides');
+    this.rebuild();
+  }
+
+  private persist(): void {
+    if (this.persistOverrides) clientStore.set('teamMetadataOverrides', this.overrides);
+  }
+}
+
+export const teamMetadataService = new TeamMetadataService();
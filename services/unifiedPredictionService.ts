@@ -1,19 +1,37 @@
-import { Prediction, Match, PredictionContext } from '../types';
-import { getMatchPrediction as getGeminiPrediction } from './geminiService';
+import { Prediction, Match, PredictionContext, ConfidenceLevel } from '../types';
 import { predictionCacheService } from './predictionCacheService';
+import {
+  predictionProviderRegistry,
+  PredictionProvider,
+  PredictionProviderId,
+  ProviderStatus,
+  RoutingPolicy,
+  RoutingStrategy
+} from './predictionProviderRegistry';
 
-export type PredictionModel = 'gemini';
+// 'auto' follows the registry's routing policy; 'ensemble' runs every available provider
+export type PredictionModel = 'auto' | 'ensemble' | 'gemini' | 'deepseek' | 'dixon-coles' | 'elo';
 
 export interface ModelPredictionResult {
   model: string;
+  providerId?: PredictionProviderId;
   prediction?: Prediction;
   error?: string;
-  responseTime: number;
+  responseTime: number; // Latency in ms
+}
+
+export interface ConsensusPrediction {
+  prediction: Prediction;
+  weights: Record<string, number>; // Normalised weight per contributing provider
+  agreement: number;               // 0-100, how closely providers agree on 1X2
 }
 
 export interface UnifiedPredictionResult {
+  strategy?: RoutingStrategy;
   primary?: ModelPredictionResult;
   secondary?: ModelPredictionResult;
+  providers?: ModelPredictionResult[]; // Every provider attempted, in call order
+  consensus?: ConsensusPrediction;
   comparison?: {
     similar: boolean;
     differences: string[];
@@ -21,7 +39,7 @@ export interface UnifiedPredictionResult {
 }
 
 /**
- * Unified prediction service that uses Gemini Flash only
+ * Unified prediction service routing requests through the provider registry
  */
 export class UnifiedPredictionService {
   
@@ -31,10 +49,10 @@ export class UnifiedPredictionService {
   async getPrediction(
     match: Match,
     context?: PredictionContext,
-    model: PredictionModel = 'gemini',
+    model: PredictionModel = 'auto',
     accuracyStats?: any
   ): Promise<UnifiedPredictionResult> {
-    console.log(`🤖 Getting prediction for ${match.homeTeam} vs ${match.awayTeam} using: Smart Cache + Gemini Flash`);
+    console.log(`🤖 Getting prediction for ${match.homeTeam} vs ${match.awayTeam} using: Smart Cache + ${model}`);
     
     // First, check if we already have a prediction for this match
     const existingPrediction = await predictionCacheService.getExistingPrediction(match.id);
@@ -43,7 +61,7 @@ export class UnifiedPredictionService {
       console.log(`✅ Using cached prediction for ${match.homeTeam} vs ${match.awayTeam}`);
       return {
         primary: {
-          model: 'Gemini 2.5 Flash (Cached)',
+          model: 'Cached Prediction',
           prediction: existingPrediction,
           responseTime: 0 // Instant from cache
         }
@@ -52,38 +70,122 @@ export class UnifiedPredictionService {
 
     // No cached prediction found, generate new one
     console.log(`🔮 No cached prediction found, generating new prediction for ${match.homeTeam} vs ${match.awayTeam}`);
-    const results: UnifiedPredictionResult = {};
-    results.primary = await this.runGemini(match, context, accuracyStats);
+    const route = predictionProviderRegistry.resolveRoute(this.getPolicyForModel(model));
+    if (route.providers.length === 0) {
+      return { strategy: route.strategy, providers: [] };
+    }
+
+    const results = route.strategy === 'ensemble'
+      ? await this.runEnsemble(route.providers, match, context, accuracyStats)
+      : await this.runWithFallback(route.providers, match, context, accuracyStats);
+    results.strategy = route.strategy;
     
-    // If prediction was successful, save it to cache
-    if (results.primary?.prediction) {
-      await predictionCacheService.savePrediction(match, results.primary.prediction);
+    // Cache only when the route's first provider answered; a fallback pick
+    // stays uncached so the next request tries that provider again
+    const best = this.getBestPrediction(results);
+    const firstProvider = results.providers?.find(r => r.providerId === route.providers[0].id);
+    if (best && firstProvider?.prediction) {
+      await predictionCacheService.savePrediction(match, best);
       console.log(`💾 Prediction saved to cache for future use`);
+    } else if (best) {
+      console.log(`↪️ ${route.providers[0].label} unavailable, fallback prediction not cached`);
     }
     
     return results;
   }
+
+  /**
+   * Map a user-facing model choice onto a routing policy
+   */
+  getPolicyForModel(model: PredictionModel): RoutingPolicy {
+    const defaults = predictionProviderRegistry.getDefaultPolicy();
+    if (model === 'auto') return predictionProviderRegistry.getPolicy();
+    if (model === 'ensemble') return { ...defaults, strategy: 'ensemble' };
+
+    // A specific provider, still backed by the offline models if it fails
+    const localFallbacks = predictionProviderRegistry.list()
+      .filter(p => !p.capabilities.requiresNetwork && p.id !== model)
+      .map(p => p.id);
+    return { ...defaults, strategy: 'fallback', primary: model, fallbacks: localFallbacks };
+  }
+
+  /**
+   * Try providers in order until one succeeds
+   */
+  private async runWithFallback(
+    providers: PredictionProvider[],
+    match: Match,
+    context?: PredictionContext,
+    accuracyStats?: any
+  ): Promise<UnifiedPredictionResult> {
+    const attempts: ModelPredictionResult[] = [];
+
+    for (const provider of providers) {
+      const result = await this.runProvider(provider, match, context, accuracyStats);
+      attempts.push(result);
+      if (result.prediction) {
+        return { primary: result, providers: attempts };
+      }
+      console.warn(`↪️ ${provider.label} failed, trying next provider...`);
+    }
+
+    return { primary: attempts[0], providers: attempts };
+  }
+
+  /**
+   * Run all providers in parallel and blend their outputs
+   */
+  private async runEnsemble(
+    providers: PredictionProvider[],
+    match: Match,
+    context?: PredictionContext,
+    accuracyStats?: any
+  ): Promise<UnifiedPredictionResult> {
+    const attempts = await Promise.all(providers.map(p => this.runProvider(p, match, context, accuracyStats)));
+    const successful = attempts
+      .filter(r => r.prediction)
+      .sort((a, b) => this.getWeight(b.providerId) - this.getWeight(a.providerId));
+
+    const results: UnifiedPredictionResult = {
+      primary: successful[0] || attempts[0],
+      secondary: successful[1],
+      providers: attempts
+    };
+
+    if (successful.length >= 2) {
+      results.comparison = this.comparePredictions(successful[0].prediction!, successful[1].prediction!);
+      results.consensus = this.buildConsensus(successful);
+    }
+
+    return results;
+  }
   
   /**
-   * Run Gemini prediction with error handling
+   * Run one provider with timing and error handling
    */
-  private async runGemini(match: Match, context?: PredictionContext, accuracyStats?: any): Promise<ModelPredictionResult> {
+  private async runProvider(
+    provider: PredictionProvider,
+    match: Match,
+    context?: PredictionContext,
+    accuracyStats?: any
+  ): Promise<ModelPredictionResult> {
     const startTime = Date.now();
     
     try {
-      const prediction = await getGeminiPrediction(match, context, accuracyStats);
+      const prediction = await provider.predict(match, context, accuracyStats);
       const responseTime = Date.now() - startTime;
       
-      console.log(`✅ Gemini completed in ${responseTime}ms`);
+      console.log(`✅ ${provider.label} completed in ${responseTime}ms`);
       
       return {
-        model: 'Gemini 2.5 Flash',
+        model: provider.label,
+        providerId: provider.id,
         prediction,
         responseTime
       };
     } catch (error: any) {
       const responseTime = Date.now() - startTime;
-      console.error(`❌ Gemini failed after ${responseTime}ms:`, error);
+      console.error(`❌ ${provider.label} failed after ${responseTime}ms:`, error);
       
       // Check if it's a rate limit error and provide better messaging
       const isRateLimitError = 
@@ -92,16 +194,89 @@ export class UnifiedPredictionService {
         error.message?.toLowerCase().includes('try again later');
       
       const errorMessage = isRateLimitError 
-        ? 'Gemini rate limit exceeded. Please try again in a few minutes.'
+        ? `${provider.label} rate limit exceeded. Please try again in a few minutes.`
         : error.message;
       
       return {
-        model: 'Gemini 2.5 Flash',
+        model: provider.label,
+        providerId: provider.id,
         error: errorMessage,
         responseTime
       };
     }
   }
+
+  private getWeight(providerId?: PredictionProviderId): number {
+    return (providerId && predictionProviderRegistry.get(providerId)?.ensembleWeight) || 0;
+  }
+
+  /**
+   * Weighted average of provider probabilities. The scoreline and key factors come
+   * from the highest-weighted provider; probabilities are blended market by market.
+   */
+  buildConsensus(results: ModelPredictionResult[]): ConsensusPrediction {
+    const entries = results
+      .filter(r => r.prediction)
+      .map(r => ({ id: r.providerId || r.model, prediction: r.prediction!, weight: Math.max(0, this.getWeight(r.providerId)) || 1 }))
+      .sort((a, b) => b.weight - a.weight);
+    const totalWeight = entries.reduce((sum, e) => sum + e.weight, 0);
+    const weights: Record<string, number> = {};
+    entries.forEach(e => { weights[e.id] = e.weight / totalWeight; });
+
+    const blend = (pick: (p: Prediction) => number | undefined): number | undefined => {
+      const usable = entries.filter(e => Number.isFinite(pick(e.prediction)));
+      const w = usable.reduce((sum, e) => sum + e.weight, 0);
+      if (usable.length === 0 || w === 0) return undefined;
+      return usable.reduce((sum, e) => sum + (pick(e.prediction) as number) * e.weight, 0) / w;
+    };
+
+    const lead = entries[0].prediction;
+    const home = blend(p => p.homeWinProbability) || 0;
+    const draw = blend(p => p.drawProbability) || 0;
+    const away = blend(p => p.awayWinProbability) || 0;
+    const sum = home + draw + away || 1;
+    const homeWinProbability = Math.round((home / sum) * 100);
+    const awayWinProbability = Math.round((away / sum) * 100);
+    const drawProbability = 100 - homeWinProbability - awayWinProbability;
+
+    // Agreement: 100 minus the average absolute distance from the blended 1X2
+    const spread = entries.reduce((acc, e) => acc + (
+      Math.abs(e.prediction.homeWinProbability - homeWinProbability) +
+      Math.abs(e.prediction.drawProbability - drawProbability) +
+      Math.abs(e.prediction.awayWinProbability - awayWinProbability)
+    ) / 3 * (e.weight / totalWeight), 0);
+    const agreement = Math.max(0, Math.round(100 - spread * 2));
+
+    const over = blend(p => p.goalLine?.overProbability);
+    const bttsYes = blend(p => p.btts?.yesProbability);
+    const homeXg = blend(p => p.expectedGoals?.homeXg);
+    const awayXg = blend(p => p.expectedGoals?.awayXg);
+    const top = Math.max(homeWinProbability, drawProbability, awayWinProbability);
+
+    const prediction: Prediction = {
+      ...lead,
+      homeWinProbability,
+      drawProbability,
+      awayWinProbability,
+      confidence: top >= 55 && agreement >= 80 ? ConfidenceLevel.High : top >= 42 ? ConfidenceLevel.Medium : ConfidenceLevel.Low,
+      goalLine: over !== undefined
+        ? { line: lead.goalLine?.line ?? 2.5, overProbability: Math.round(over), underProbability: 100 - Math.round(over) }
+        : lead.goalLine,
+      btts: bttsYes !== undefined
+        ? { yesProbability: Math.round(bttsYes), noProbability: 100 - Math.round(bttsYes) }
+        : lead.btts,
+      expectedGoals: homeXg !== undefined && awayXg !== undefined
+        ? { homeXg: Math.round(homeXg * 100) / 100, awayXg: Math.round(awayXg * 100) / 100 }
+        : lead.expectedGoals,
+      uncertaintyMetrics: {
+        predictionVariance: Math.min(100, Math.round(spread * 2)),
+        dataQuality: lead.uncertaintyMetrics?.dataQuality || 'Medium',
+        modelAgreement: agreement
+      }
+    };
+
+    return { prediction, weights, agreement };
+  }
   
   // DeepSeek support removed
   
@@ -155,9 +330,12 @@ export class UnifiedPredictionService {
   }
   
   /**
-   * Get the best available prediction (primary if successful, otherwise secondary)
+   * Get the best available prediction (consensus, then primary, then secondary)
    */
   getBestPrediction(result: UnifiedPredictionResult): Prediction | null {
+    if (result.consensus?.prediction) {
+      return result.consensus.prediction;
+    }
     if (result.primary?.prediction) {
       return result.primary.prediction;
     }
@@ -168,11 +346,18 @@ export class UnifiedPredictionService {
   }
   
   /**
-   * Check which models are available
+   * Check which providers are available (configured and not rate limited)
    */
-  getAvailableModels(): { gemini: boolean } {
-    // Gemini now always proxied via server; assume available (server will error if misconfigured)
-    return { gemini: true };
+  getAvailableModels(): Record<string, boolean> {
+    const available: Record<string, boolean> = {};
+    predictionProviderRegistry.getAllStatuses().forEach(status => {
+      available[status.id] = status.available;
+    });
+    return available;
+  }
+
+  getProviderStatuses(): ProviderStatus[] {
+    return predictionProviderRegistry.getAllStatuses();
   }
 }
 
@@ -185,10 +370,10 @@ export const getMatchPrediction = async (
   context?: PredictionContext,
   accuracyStats?: any
 ): Promise<Prediction> => {
-  const result = await unifiedPredictionService.getPrediction(match, context, 'gemini', accuracyStats);
+  const result = await unifiedPredictionService.getPrediction(match, context, 'auto', accuracyStats);
   const prediction = unifiedPredictionService.getBestPrediction(result);
   if (!prediction) {
-    throw new Error('Failed to generate prediction with Gemini Flash');
+    throw new Error(result.primary?.error || 'Failed to generate prediction with any provider');
   }
   return prediction;
 };
@@ -198,7 +383,6 @@ export const getMatchPrediction = async (
  * @param matches Array of Match objects
  * @param isPredictionComplete Function to check if prediction is complete for a match
  * @param context Optional PredictionContext
- * @param model PredictionModel to use
  * @param delayMs Delay in milliseconds between each retry (default: 60000)
  */
 export const retryIncompletePredictions = async (
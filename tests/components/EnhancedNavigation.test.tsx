@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Routes, Route } from 'react-router-dom';
+import { render, screen, fireEvent, within, openSearchModal, mockMatch } from '../utils/testUtils';
+import EnhancedNavigation from '../../components/EnhancedNavigation';
+import { searchService } from '../../services/searchService';
+import { getAllKnownTeams } from '../../services/teamDataService';
+import { View } from '../../types';
+
+describe('EnhancedNavigation', () => {
+  beforeEach(() => {
+    searchService.indexContent([mockMatch], getAllKnownTeams());
+  });
+
+  it('opens global search with Ctrl+K and navigates to the picked result', async () => {
+    render(
+      <>
+        <EnhancedNavigation onNavigate={vi.fn()} currentView={View.Dashboard} />
+        <Routes>
+          <Route path="/team/:team" element={<div>Team page</div>} />
+          <Route path="*" element={null} />
+        </Routes>
+      </>
+    );
+
+    openSearchModal();
+    const searchModal = await screen.findByTestId('global-search-modal');
+    fireEvent.change(within(searchModal).getByPlaceholderText('Search for teams, leagues or matches'), { target: { value: 'Bayern Munchen' } });
+
+    const result = await within(searchModal).findByText('Also known as', { exact: false });
+    fireEvent.click(result.closest('button')!);
+
+    expect(await screen.findByText('Team page')).toBeInTheDocument();
+    expect(screen.queryByTestId('global-search-modal')).not.toBeInTheDocument();
+  });
+});
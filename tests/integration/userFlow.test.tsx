@@ -8,7 +8,10 @@ import { mockMatch, mockTeams, mockPrediction } from '../utils/testUtils';
 // Mock services
 vi.mock('../../services/footballApiService');
 vi.mock('../../services/geminiService');
-vi.mock('../../services/newsService');
+vi.mock('../../services/newsService', () => ({
+  getFootballNews: vi.fn(),
+  getNewInjuryAlerts: vi.fn().mockResolvedValue([])
+}));
 
 // Mock context with realistic data
 setMockAppContextValue({
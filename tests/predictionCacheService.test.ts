@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { predictionCacheService } from '../services/predictionCacheService';
+import { clientStore } from '../services/clientStore';
 import { Match, Prediction, League, ConfidenceLevel } from '../types';
 
 // Mock fetch globally
@@ -65,30 +66,30 @@ describe('PredictionCacheService', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    clientStore.reset('matchPredictions');
   });
 
   describe('getExistingPrediction', () => {
-    it('should return cached prediction from localStorage if available', async () => {
-      // Setup: Mock localStorage to return a cached prediction
-      const cachedData = {
-        prediction: mockPrediction,
-        timestamp: new Date().toISOString(),
-        matchId: mockMatch.id
-      };
-      localStorageMock.getItem.mockReturnValue(JSON.stringify(cachedData));
+    it('should return cached prediction from the client store if available', async () => {
+      // Setup: Seed the client store with today's prediction
+      clientStore.set('matchPredictions', {
+        [mockMatch.id]: {
+          prediction: mockPrediction,
+          timestamp: new Date().toISOString(),
+          matchId: mockMatch.id
+        }
+      });
 
       // Act
       const result = await predictionCacheService.getExistingPrediction(mockMatch.id);
 
       // Assert
       expect(result).toEqual(mockPrediction);
-      expect(localStorageMock.getItem).toHaveBeenCalledWith(`prediction_${mockMatch.id}`);
       expect(mockFetch).not.toHaveBeenCalled(); // Should not call API if local cache hits
     });
 
     it('should return null if no prediction found', async () => {
-      // Setup: Mock both local and cloud to return empty
-      localStorageMock.getItem.mockReturnValue(null);
+      // Setup: Empty client store and cloud
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve({ prediction: null })
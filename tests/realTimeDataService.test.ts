@@ -9,6 +9,7 @@ vi.mock('../services/footballApiService', () => ({
   getHeadToHead: vi.fn(),
   getRecentTeamForm: vi.fn(),
   getTeamDetails: vi.fn(),
+  getSquadPlayerStats: vi.fn(),
   getApiUsage: vi.fn(() => ({ totalCalls: 100, callsToday: 50 })),
   hasBudget: vi.fn(() => true)
 }));
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  absencesFromApi,
+  absencesFromTeam,
+  assessTeamAbsences,
+  topAbsences
+} from '../../services/absenceImpactModel';
+import { Player } from '../../types';
+
+let nextId = 1;
+const player = (name: string, position: Player['position'], rating: number, minutes: number): Player =>
+  ({ id: nextId++, name, position, rating, minutes, age: 25, nationality: 'England' });
+
+const squad: Player[] = [
+  player('Jordan Pickford', 'Goalkeeper', 7.0, 900),
+  player('Backup Keeper', 'Goalkeeper', 6.3, 0),
+  player('Alex Back', 'Defender', 6.9, 900),
+  player('Ben Back', 'Defender', 6.8, 880),
+  player('Carl Back', 'Defender', 6.8, 850),
+  player('Dan Back', 'Defender', 6.7, 800),
+  player('Eli Back', 'Defender', 6.7, 500),
+  player('Finn Mid', 'Midfielder', 7.1, 900),
+  player('Gus Mid', 'Midfielder', 6.9, 850),
+  player('Hal Mid', 'Midfielder', 6.8, 700),
+  player('Ian Mid', 'Midfielder', 6.6, 400),
+  player('Erling Striker', 'Attacker', 7.8, 900),
+  player('Kai Wing', 'Attacker', 6.9, 750),
+  player('Youth Forward', 'Attacker', 6.2, 60)
+];
+
+const out = (name: string, reason = 'Injury') => ({ name, reason, kind: 'injury' as const });
+
+describe('absenceImpactModel', () => {
+  it('costs a regular with a weak replacement more than a rotation player with cover', () => {
+    const impact = assessTeamAbsences([out('Eli Back'), out('Erling Striker')], squad);
+    const [striker, defender] = impact.absences;
+
+    expect(striker).toMatchObject({ name: 'Erling Striker', position: 'Attacker', importance: 'critical', replacement: { name: 'Kai Wing', rating: 6.9 } });
+    expect(striker.minutesShare).toBe(1);
+    expect(defender).toMatchObject({ name: 'Eli Back', importance: 'moderate', scarcity: 1 });
+    expect(defender.cost).toBeLessThan(striker.cost / 5);
+
+    expect(impact.attackAdjustment).toBeLessThan(0.95);
+    expect(impact.defenceAdjustment).toBeLessThan(1.02);
+    expect(impact.attackingImpact).toBeGreaterThan(impact.defensiveImpact);
+    expect(impact.squadKnown).toBe(true);
+  });
+
+  it('raises the cost when a position runs out of regulars', () => {
+    const one = assessTeamAbsences([out('Kai Wing')], squad).absences[0];
+    const both = assessTeamAbsences([out('Kai Wing'), out('Erling Striker')], squad);
+    const wing = both.absences.find(absence => absence.name === 'Kai Wing')!;
+
+    // Only the youth forward is left, and he has barely played
+    expect(one.scarcity).toBe(1.5);
+    expect(wing.scarcity).toBe(2);
+    expect(wing.replacement?.name).toBe('Youth Forward');
+    expect(wing.cost).toBeGreaterThan(one.cost);
+    expect(both.attackAdjustment).toBeCloseTo(0.75, 2);
+
+    const keeper = assessTeamAbsences([out('Jordan Pickford'), out('Backup Keeper')], squad).absences[0];
+    expect(keeper).toMatchObject({ name: 'Jordan Pickford', importance: 'critical', defenceCost: keeper.cost, attackCost: 0 });
+    expect(keeper.replacement).toBeUndefined();
+  });
+
+  it('falls back to position priors when the squad is unknown', () => {
+    const impact = assessTeamAbsences([
+      { name: 'Keeper', position: 'Goalkeeper', reason: 'Finger', kind: 'injury' },
+      { name: 'Centre Back', position: 'Defender', reason: 'Calf', kind: 'injury' }
+    ]);
+    expect(impact.absences.map(absence => absence.importance)).toEqual(['critical', 'important']);
+    expect(impact.squadKnown).toBe(false);
+    expect(impact.totalImpactScore).toBeGreaterThan(30);
+    expect(assessTeamAbsences([])).toMatchObject({ absences: [], attackAdjustment: 1, defenceAdjustment: 1, totalImpactScore: 0 });
+  });
+
+  it('reads current absences from API-Football injuries and team details', () => {
+    const now = new Date('2025-10-20T12:00:00Z');
+    const absentees = absencesFromApi([
+      { player: { id: 9011, name: 'E. Striker', type: 'Missing Fixture', reason: 'Hamstring' }, fixture: { date: '2025-09-01T15:00:00Z' } },
+      { player: { id: 9011, name: 'E. Striker', type: 'Missing Fixture', reason: 'Knee Injury' }, fixture: { date: '2025-10-18T15:00:00Z' } },
+      { player: { id: 9012, name: 'K. Wing', type: 'Missing Fixture', reason: 'Red Card' }, fixture: { date: '2025-10-22T15:00:00Z' } },
+      { player: { id: 9013, name: 'G. Mid', type: 'Questionable', reason: 'Illness' }, fixture: { date: '2025-10-22T15:00:00Z' } },
+      { player: { id: 9014, name: 'Old Injury', type: 'Missing Fixture', reason: 'Ankle' }, fixture: { date: '2025-08-10T15:00:00Z' } }
+    ], now);
+
+    expect(absentees.map(a => [a.name, a.reason, a.kind, !!a.doubtful])).toEqual([
+      ['E. Striker', 'Knee Injury', 'injury', false],
+      ['K. Wing', 'Red Card', 'suspension', false],
+      ['G. Mid', 'Illness', 'injury', true]
+    ]);
+
+    // Abbreviated names still find the squad player
+    const impact = assessTeamAbsences(absentees, squad);
+    expect(impact.absences.map(absence => absence.name)).toEqual(['Erling Striker', 'Kai Wing', 'Gus Mid']);
+    const doubtful = impact.absences[2];
+    expect(doubtful.cost).toBeCloseTo(assessTeamAbsences([out('Gus Mid')], squad).absences[0].cost / 2, 3);
+
+    expect(absencesFromTeam({
+      injuries: [{ player: 'Finn Mid', type: 'Hamstring', expectedReturn: '2025-11-01' }],
+      suspensions: [{ player: 'Alex Back', reason: 'Five yellow cards', matchesRemaining: 1 }]
+    })).toEqual([
+      { name: 'Finn Mid', reason: 'Hamstring', kind: 'injury', expectedReturn: '2025-11-01' },
+      { name: 'Alex Back', reason: 'Five yellow cards', kind: 'suspension', expectedReturn: undefined }
+    ]);
+  });
+
+  it('lists the three costliest absences across both teams', () => {
+    const home = assessTeamAbsences([out('Eli Back'), out('Erling Striker')], squad);
+    const away = assessTeamAbsences([out('Jordan Pickford'), out('Ian Mid'), out('Finn Mid')], squad);
+    const top = topAbsences(home, away);
+
+    expect(top).toHaveLength(3);
+    expect(top.map(absence => absence.impact)).toEqual([...top.map(absence => absence.impact)].sort((a, b) => b - a));
+    expect(top.map(absence => absence.player)).not.toContain('Eli Back');
+    expect(top.find(absence => absence.player === 'Erling Striker')).toMatchObject({ team: 'home', position: 'Attacker', replacement: 'Kai Wing' });
+  });
+});
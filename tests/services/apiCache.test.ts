@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiCache, ApiCacheEntry, KVCacheBackend, categorizeEndpoint, CACHE_POLICIES } from '../../services/apiCache';
+import { ApiQuotaPlanner, QuotaUsage } from '../../services/apiQuotaPlanner';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+describe('ApiCache', () => {
+  let now: number;
+  beforeEach(() => {
+    now = Date.UTC(2025, 9, 18, 12);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('categorises endpoints with and without query strings', () => {
+    expect(categorizeEndpoint('/fixtures', { live: 'all' })).toBe('live');
+    expect(categorizeEndpoint('/fixtures?date=2025-10-18&league=39')).toBe('fixtures');
+    expect(categorizeEndpoint('/fixtures/lineups', { fixture: 1 })).toBe('lineups');
+    expect(categorizeEndpoint('/standings')).toBe('standings');
+    expect(categorizeEndpoint('/teams/statistics')).toBe('teams');
+    expect(categorizeEndpoint('/odds')).toBe('other');
+  });
+
+  it('coalesces concurrent identical requests into one loader call', async () => {
+    const cache = new ApiCache({ now: () => now });
+    const response = deferred<{ response: number[] }>();
+    const loader = vi.fn(() => response.promise);
+
+    const first = cache.fetch('k', 'fixtures', loader);
+    const second = cache.fetch('k', 'fixtures', loader);
+    response.resolve({ response: [1] });
+
+    expect(await first).toEqual({ data: { response: [1] }, status: 'miss' });
+    expect(await second).toEqual({ data: { response: [1] }, status: 'coalesced' });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves fresh, then stale while revalidating once, then refetches after the stale window', async () => {
+    const cache = new ApiCache({ now: () => now });
+    const loader = vi.fn()
+      .mockResolvedValueOnce('v1')
+      .mockResolvedValueOnce('v2')
+      .mockResolvedValueOnce('v3');
+    const { ttlMs, staleMs } = CACHE_POLICIES.standings;
+
+    await cache.fetch('table', 'standings', loader);
+    now += ttlMs - 1;
+    expect(await cache.fetch('table', 'standings', loader)).toEqual({ data: 'v1', status: 'fresh' });
+
+    now += 2;
+    const [a, b] = await Promise.all([cache.fetch('table', 'standings', loader), cache.fetch('table', 'standings', loader)]);
+    expect([a.status, b.status]).toEqual(['stale', 'stale']);
+    expect(a.data).toBe('v1');
+    await vi.waitFor(() => expect(cache.stats().revalidations).toBe(1));
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(await cache.fetch('table', 'standings', loader)).toEqual({ data: 'v2', status: 'fresh' });
+
+    now += ttlMs + staleMs;
+    expect(await cache.fetch('table', 'standings', loader)).toEqual({ data: 'v3', status: 'miss' });
+  });
+
+  it('hands the background refresh of a stale entry to waitUntil', async () => {
+    const cache = new ApiCache({ now: () => now });
+    const refreshed = deferred<string>();
+    const loader = vi.fn().mockResolvedValueOnce('v1').mockReturnValueOnce(refreshed.promise);
+    await cache.fetch('table', 'standings', loader);
+    now += CACHE_POLICIES.standings.ttlMs;
+
+    const waitUntil = vi.fn();
+    expect(await cache.fetch('table', 'standings', loader, { waitUntil })).toEqual({ data: 'v1', status: 'stale' });
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+
+    let settled = false;
+    waitUntil.mock.calls[0][0].then(() => { settled = true; });
+    await Promise.resolve();
+    expect(settled).toBe(false);
+    refreshed.resolve('v2');
+    await vi.waitFor(() => expect(settled).toBe(true));
+    expect(await cache.fetch('table', 'standings', loader)).toEqual({ data: 'v2', status: 'fresh' });
+  });
+
+  it('persists through a KV backend with an expiry covering the stale window', async () => {
+    const kv = new MemoryKV();
+    const put = vi.spyOn(kv, 'put');
+    const writer = new ApiCache({ backend: new KVCacheBackend(kv), now: () => now });
+    await writer.fetch('/fixtures?date=2025-10-18', 'fixtures', async () => ({ response: ['f'] }));
+
+    const { ttlMs, staleMs } = CACHE_POLICIES.fixtures;
+    expect(put).toHaveBeenCalledWith('apicache:/fixtures?date=2025-10-18', expect.any(String), { expirationTtl: (ttlMs + staleMs) / 1000 });
+
+    // A new isolate (fresh memory) reads it back without calling the API
+    const reader = new ApiCache({ backend: new KVCacheBackend(kv), now: () => now + 1000 });
+    const loader = vi.fn();
+    expect(await reader.fetch('/fixtures?date=2025-10-18', 'fixtures', loader)).toEqual({ data: { response: ['f'] }, status: 'fresh' });
+    expect(loader).not.toHaveBeenCalled();
+    expect(((await reader.peek('/fixtures?date=2025-10-18')) as ApiCacheEntry).storedAt).toBe(now);
+  });
+});
+
+describe('ApiQuotaPlanner', () => {
+  const config = { dailyLimit: 1000, softLimitRatio: 0.8, backgroundShare: 0.5, lineupCallsPerFixture: 2, livePollIntervalMinutes: 1, liveWindowMinutes: 120, postMatchCallsPerFixture: 2 };
+
+  it('reserves lineup, live and post-match calls around kickoffs and releases them as windows pass', () => {
+    let now = Date.UTC(2025, 9, 18, 12);
+    const planner = new ApiQuotaPlanner(config, null, () => now);
+    planner.registerFixtures([
+      { id: 1, date: '2025-10-18T14:00:00Z' },
+      { id: 2, date: '2025-10-18T15:00:00Z' }, // Overlaps match 1: live polling is shared
+      { id: 3, date: '2025-10-19T15:00:00Z' }  // Tomorrow: not part of today's plan
+    ]);
+
+    // Live: 14:00 -> 17:00 is 180 one-minute polls
+    expect(planner.getReservations()).toEqual({ lineups: 4, live: 180, postMatch: 4, total: 188 });
+
+    now = Date.UTC(2025, 9, 18, 16);
+    expect(planner.getReservations()).toEqual({ lineups: 0, live: 60, postMatch: 2, total: 62 });
+  });
+
+  it('lets critical calls use the whole limit while lower priorities stop at the plan', () => {
+    const now = Date.UTC(2025, 9, 18, 12);
+    const planner = new ApiQuotaPlanner(config, null, () => now);
+    planner.registerFixtures([{ id: 1, date: '2025-10-18T13:00:00Z' }]); // 2 lineups + 120 live + 2 post-match reserved
+    planner.recordCall('fixtures', 300);
+
+    expect(planner.canSpend('teams', 800 - 124 - 300)).toBe(true);
+    expect(planner.canSpend('teams', 800 - 124 - 300 + 1)).toBe(false);
+    expect(planner.canSpend('squads', 101)).toBe(false); // Background capped at half the soft limit
+    expect(planner.canSpend('events', 500)).toBe(true);
+    expect(planner.canSpend('lineups', 700)).toBe(true);
+    expect(planner.canSpend('live', 701)).toBe(false);
+
+    const plan = planner.getPlan();
+    expect(plan).toMatchObject({ used: 300, softLimit: 800, availableForNormal: 376, availableForBackground: 100, fixturesTracked: 1 });
+    expect(plan.usedByPriority.normal).toBe(300);
+  });
+
+  it('persists usage per UTC day and starts over after midnight', () => {
+    let now = Date.UTC(2025, 9, 18, 23, 59);
+    let stored: QuotaUsage | null = null;
+    const persistence = { load: () => stored, save: (usage: QuotaUsage) => { stored = usage; } };
+
+    new ApiQuotaPlanner(config, persistence, () => now).recordCall('live', 5);
+    const reopened = new ApiQuotaPlanner(config, persistence, () => now);
+    expect(reopened.totalUsed()).toBe(5);
+
+    now += 2 * 60 * 1000;
+    expect(reopened.totalUsed()).toBe(0);
+    expect(stored).toEqual({ date: '2025-10-19', byCategory: {} });
+  });
+});
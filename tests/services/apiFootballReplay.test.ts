@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { League } from '../../types';
+import { ApiFootballReplay, recordingFileName, shiftPayloadDates } from '../../services/apiFootballReplay';
+import { loadRecordings, recordFromUpstream } from '../../scripts/apiFootballRecordings';
+import { fetchAllFixtures } from '../../worker-cron/src/football';
+
+const RECORDED_DAY = Date.UTC(2025, 9, 18, 9);
+const WEEK_LATER = RECORDED_DAY + 7 * 24 * 60 * 60 * 1000;
+const recordings = loadRecordings('tests/fixtures/api-football');
+
+vi.mock('../../services/teamDataService', () => ({
+  resolveTeamName: (name: string) => name,
+  getTeamData: vi.fn(() => null),
+  isKnownTeam: vi.fn(() => false),
+}));
+
+describe('ApiFootballReplay', () => {
+  it('matches direct and proxy-style URLs regardless of parameter order', async () => {
+    const replay = new ApiFootballReplay(recordings);
+    const fetchReplay = replay.toFetch();
+
+    const direct = await (await fetchReplay('https://v3.football.api-sports.io/standings?season=2025&league=39')).json();
+    const proxied = await (await fetchReplay('/api/proxy/standings?league=39&season=2025')).json();
+    expect(direct.response[0].league.standings[0]).toHaveLength(4);
+    expect(proxied).toEqual(direct);
+  });
+
+  it('shifts request and response dates by whole days to follow the replay clock', () => {
+    const replay = new ApiFootballReplay(recordings, { clock: () => WEEK_LATER });
+    const { body, hit } = replay.handle('/fixtures', { date: '2025-10-25', league: 39, season: 2025 });
+
+    expect(hit).toBe(true);
+    expect(body.response[0].fixture).toMatchObject({ date: '2025-10-25T11:30:00+00:00', timestamp: 1760787000 + 7 * 86400 });
+    // The original recording is left untouched
+    expect(replay.handle('/fixtures', { date: '2025-10-18', league: 39, season: 2025 }).hit).toBe(false);
+    expect(shiftPayloadDates({ update: '2025-10-18', name: '2025 season' }, -1)).toEqual({ update: '2025-10-17', name: '2025 season' });
+  });
+
+  it('answers unknown requests with an empty envelope, or a 404 when strict', () => {
+    const lenient = new ApiFootballReplay(recordings);
+    expect(lenient.handle('/fixtures', { date: '2030-01-01' })).toMatchObject({ status: 200, hit: false, body: { results: 0, response: [] } });
+    expect(lenient.misses).toEqual(['/fixtures?date=2030-01-01']);
+
+    const strict = new ApiFootballReplay(recordings, { strict: true });
+    expect(strict.handle('/odds', { fixture: 1 }).status).toBe(404);
+  });
+
+  it('records upstream responses to files it can load back', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'api-football-'));
+    try {
+      const upstream = vi.fn(async () => new Response(JSON.stringify({ errors: [], results: 1, response: [{ id: 1 }] })));
+      const result = await recordFromUpstream('/injuries', { team: 42, season: 2025 }, {
+        apiKey: 'key', dir, fetchImpl: upstream as unknown as typeof fetch, now: () => RECORDED_DAY
+      });
+
+      expect(String((upstream.mock.calls[0] as unknown[])[0])).toBe('https://v3.football.api-sports.io/injuries?season=2025&team=42');
+      expect(result.savedTo).toBe(join(dir, recordingFileName('/injuries', { team: 42, season: 2025 })));
+      expect(JSON.parse(readFileSync(result.savedTo!, 'utf-8')).recordedAt).toBe(new Date(RECORDED_DAY).toISOString());
+
+      // Errors and endpoints outside the replay set are passed through but not saved
+      const rejected = vi.fn(async () => new Response(JSON.stringify({ errors: { rateLimit: 'Too many requests' }, response: [] })));
+      expect((await recordFromUpstream('/fixtures', { date: '2025-10-18' }, { apiKey: 'key', dir, fetchImpl: rejected as unknown as typeof fetch })).savedTo).toBeNull();
+      expect((await recordFromUpstream('/odds', { fixture: 1 }, { apiKey: 'key', dir, fetchImpl: upstream as unknown as typeof fetch })).savedTo).toBeNull();
+
+      expect(loadRecordings(dir).map(r => r.endpoint)).toEqual(['/injuries']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('running against the replay offline', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(WEEK_LATER);
+    vi.stubGlobal('fetch', new ApiFootballReplay(recordings, { clock: () => Date.now() }).toFetch());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('serves the app service layer', async () => {
+    const api = await import('../../services/footballApiService');
+
+    const table = await api.getLeagueTable(League.PremierLeague);
+    expect(table.map(row => row.teamName)).toEqual(['Arsenal', 'Liverpool', 'Tottenham', 'Bournemouth']);
+
+    const fixtures = await api.getUpcomingFixtures(League.PremierLeague, 2);
+    expect(fixtures).toHaveLength(2);
+    expect(fixtures[0]).toMatchObject({ homeTeam: 'Nottingham Forest', awayTeam: 'Chelsea', date: '2025-10-25T11:30:00+00:00' });
+
+    expect(await api.getHeadToHead(36, 42)).toHaveLength(1);
+    // League-scoped injuries are not recorded: the team-wide fallback is
+    expect((await api.getInjuries(42, 39))[0].player.name).toBe('Kai Havertz');
+  });
+
+  it('serves the cron worker', async () => {
+    const fixtures = await fetchAllFixtures('2025-10-25', { API_FOOTBALL_BASE_URL: 'http://localhost:3002' });
+    expect(fixtures.map(f => f.teams.away.name)).toEqual(['Chelsea', 'Everton', 'Arsenal']);
+  });
+});
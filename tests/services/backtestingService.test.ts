@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { ConfidenceLevel, Prediction } from '../../types';
+
+vi.mock('../../services/geminiService', () => ({
+  getGeminiMatchPrediction: vi.fn(),
+}));
+
+vi.mock('../../services/deepSeekService', () => ({
+  getDeepSeekApiUsage: vi.fn(() => ({ isConfigured: false })),
+  getDeepSeekMatchPrediction: vi.fn(),
+}));
+
+vi.mock('../../services/footballApiService', () => ({
+  getFinishedFixtures: vi.fn(async () => []),
+}));
+
+import {
+  BacktestFixture,
+  BacktestPredictor,
+  dixonColesPredictor,
+  eloPredictor,
+  fixturesFromPastPredictions,
+  recordedPredictor,
+  runBacktest,
+} from '../../services/backtestingService';
+
+// Recorded fixtures shipped with the app
+const recorded = fixturesFromPastPredictions(
+  JSON.parse(readFileSync(path.resolve(__dirname, '../../public/data/past-predictions.json'), 'utf-8'))
+);
+
+const prediction = (home: number, draw: number, away: number): Prediction => ({
+  homeWinProbability: home,
+  drawProbability: draw,
+  awayWinProbability: away,
+  predictedScoreline: '1-0',
+  confidence: ConfidenceLevel.Medium,
+  goalLine: { line: 2.5, overProbability: 40, underProbability: 60 },
+});
+
+const fixture = (id: string, date: string, homeScore: number, awayScore: number, extras: Partial<BacktestFixture> = {}): BacktestFixture => ({
+  id,
+  homeTeam: 'Home FC',
+  awayTeam: 'Away FC',
+  league: 'Test League',
+  date,
+  homeScore,
+  awayScore,
+  ...extras,
+});
+
+describe('backtestingService', () => {
+  it('only shows a predictor results that kicked off earlier', async () => {
+    const fixtures = [
+      fixture('c', '2024-09-03T15:00:00Z', 0, 0),
+      fixture('a', '2024-09-01T15:00:00Z', 1, 0),
+      fixture('b', '2024-09-01T15:00:00Z', 2, 0),
+    ];
+    const seen: Record<string, string[]> = {};
+    const spy: BacktestPredictor = {
+      id: 'spy',
+      label: 'Spy',
+      predict: (match, history) => {
+        seen[match.id] = history.map(f => f.id);
+        return prediction(50, 30, 20);
+      },
+    };
+
+    await runBacktest(fixtures, spy);
+
+    // Same-kickoff fixtures are not visible to each other
+    expect(seen).toEqual({ a: [], b: [], c: ['a', 'b'] });
+  });
+
+  it('scores accuracy, Brier, log-loss and flat-stake ROI', async () => {
+    const fixtures = [
+      fixture('w', '2024-09-01T15:00:00Z', 2, 0, { odds: { home: 2, draw: 3.5, away: 4 } }),
+      fixture('l', '2024-09-08T15:00:00Z', 0, 1, { odds: { home: 2, draw: 3.5, away: 4 } }),
+    ];
+    const alwaysHome: BacktestPredictor = { id: 'home', label: 'Home', predict: () => prediction(50, 30, 20) };
+
+    const { overall } = await runBacktest(fixtures, alwaysHome);
+
+    expect(overall.predicted).toBe(2);
+    expect(overall.accuracy).toBe(0.5);
+    // (0.5² + 0.3² + 0.2²) + (0.5² + 0.3² + 0.8²) over two matches
+    expect(overall.brierScore).toBeCloseTo((0.38 + 0.98) / 2, 10);
+    expect(overall.logLoss).toBeCloseTo((-Math.log(0.5) - Math.log(0.2)) / 2, 10);
+    expect(overall.profit).toBe(0); // +1 then -1 at evens
+    expect(overall.roi).toBe(0);
+    expect(overall.baselineRoi).toBe(0);
+    expect(overall.overUnderAccuracy).toBe(1);
+  });
+
+  it('replays recorded predictions with per-league breakdowns and a date range', async () => {
+    const report = await runBacktest(recorded, recordedPredictor(), { from: '2024-08-01', to: '2024-08-31' });
+
+    expect(report.overall.matches).toBe(recorded.filter(f => f.date >= '2024-08-01').length);
+    expect(report.overall.skipped).toBe(0);
+    expect(Object.keys(report.byLeague)).toContain('Premier League');
+    const leagueTotal = Object.values(report.byLeague).reduce((sum, m) => sum + m.matches, 0);
+    expect(leagueTotal).toBe(report.overall.matches);
+  });
+
+  it('runs the offline models deterministically over the recorded fixtures', async () => {
+    const first = await runBacktest(recorded, eloPredictor());
+    const second = await runBacktest(recorded, eloPredictor());
+    expect(second.overall).toEqual(first.overall);
+    expect(first.overall.predicted).toBe(recorded.length);
+
+    // Dixon-Coles needs at least one earlier result, so the opening fixture is skipped
+    const dixonColes = await runBacktest(recorded, dixonColesPredictor());
+    expect(dixonColes.overall.skipped).toBe(1);
+    expect(dixonColes.overall.logLoss).toBeGreaterThan(0);
+  });
+});
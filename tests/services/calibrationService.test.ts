@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { ConfidenceLevel, Prediction, PredictionAccuracy } from '../../types';
+import {
+  buildReliabilityTable,
+  buildCalibrationReport,
+  decomposeBrierScore,
+  expectedCalibrationError,
+  extractCalibrationSamples,
+  fitIsotonicRegression,
+  fitPlattScaling,
+  fitRecalibrationModels,
+  recalibratePrediction,
+  refreshRecalibrationModels,
+  loadRecalibrationModels,
+  saveRecalibrationModels,
+  CalibrationSample,
+} from '../../services/calibrationService';
+import { clientStore } from '../../services/clientStore';
+
+const prediction = (home: number, draw: number, away: number, extras: Partial<Prediction> = {}): Prediction => ({
+  homeWinProbability: home,
+  drawProbability: draw,
+  awayWinProbability: away,
+  predictedScoreline: '1-0',
+  confidence: ConfidenceLevel.Medium,
+  goalLine: { line: 2.5, overProbability: 60, underProbability: 40 },
+  btts: { yesProbability: 55, noProbability: 45 },
+  ...extras,
+});
+
+const record = (p: Prediction, homeScore: number, awayScore: number, date = '2024-09-02T15:00:00Z'): PredictionAccuracy => ({
+  matchId: `${date}-${homeScore}-${awayScore}-${Math.random()}`,
+  prediction: p,
+  actualResult: { homeScore, awayScore },
+  accuracy: {
+    outcome: false, scoreline: false, btts: false, goalLine: false, htft: false,
+    scoreRange: false, firstGoalscorer: false, cleanSheet: false, corners: false,
+  },
+  timestamp: date,
+  matchDate: date,
+});
+
+// Forecasts that say 80% but only come true half the time
+const overconfident = (n: number): CalibrationSample[] =>
+  Array.from({ length: n }, (_, i) => ({ p: 0.8, y: (i % 2) as 0 | 1, date: '2024-09-02T15:00:00Z' }));
+
+describe('calibrationService', () => {
+  it('extracts class-wise 1X2 samples and binary BTTS/over-under samples', () => {
+    const records = [record(prediction(50, 30, 20), 2, 1)];
+
+    const oneXTwo = extractCalibrationSamples(records, '1X2');
+    expect(oneXTwo.map(s => [s.p, s.y])).toEqual([[0.5, 1], [0.3, 0], [0.2, 0]]);
+    expect(extractCalibrationSamples(records, 'BTTS')).toEqual([expect.objectContaining({ p: 0.55, y: 1 })]);
+    expect(extractCalibrationSamples(records, 'OVER_UNDER')).toEqual([expect.objectContaining({ p: 0.6, y: 1 })]);
+  });
+
+  it('measures calibration error and decomposes the Brier score', () => {
+    const samples = overconfident(100);
+    const bins = buildReliabilityTable(samples, 10);
+    expect(bins[8].count).toBe(100);
+    expect(bins[8].meanPredicted).toBeCloseTo(0.8, 5);
+    expect(bins[8].observedFrequency).toBeCloseTo(0.5, 5);
+    expect(expectedCalibrationError(bins)).toBeCloseTo(0.3, 5);
+
+    const { brierScore, reliability, resolution, uncertainty } = decomposeBrierScore(samples, bins);
+    expect(reliability).toBeCloseTo(0.09, 5);
+    expect(resolution).toBeCloseTo(0, 5);
+    expect(uncertainty).toBeCloseTo(0.25, 5);
+    expect(brierScore).toBeCloseTo(reliability - resolution + uncertainty, 5);
+  });
+
+  it('fits Platt scaling and isotonic regression toward observed frequencies', () => {
+    const samples = overconfident(200);
+    const { a, b } = fitPlattScaling(samples);
+    const calibrated = 1 / (1 + Math.exp(-(a * Math.log(0.8 / 0.2) + b)));
+    expect(calibrated).toBeCloseTo(0.5, 2);
+
+    const steps = fitIsotonicRegression([
+      { p: 0.1, y: 0, date: '' },
+      { p: 0.2, y: 1, date: '' },
+      { p: 0.3, y: 0, date: '' },
+      { p: 0.9, y: 1, date: '' },
+    ]);
+    const values = steps.map(s => s.y);
+    expect(values).toEqual([...values].sort((x, y) => x - y));
+    expect(steps[steps.length - 1]).toEqual({ x: 0.9, y: 1 });
+  });
+
+  it('recalibrates predictions before storage and keeps the raw probabilities', () => {
+    const records = Array.from({ length: 60 }, (_, i) => record(prediction(80, 10, 10), i % 2 ? 1 : 0, i % 2 ? 0 : 2));
+    const models = fitRecalibrationModels(records, 'platt', 50);
+    expect(models.markets['1X2']).toBeDefined();
+
+    const adjusted = recalibratePrediction(prediction(80, 10, 10), models);
+    expect(adjusted.homeWinProbability).toBeLessThan(80);
+    expect(adjusted.homeWinProbability + adjusted.drawProbability + adjusted.awayWinProbability).toBeCloseTo(100, 5);
+    expect(adjusted.recalibration?.raw).toMatchObject({ home: 80, draw: 10, away: 10 });
+
+    // Already recalibrated predictions are not adjusted twice
+    expect(recalibratePrediction(adjusted, models)).toBe(adjusted);
+    // Disabled models leave predictions untouched
+    const raw = prediction(80, 10, 10);
+    expect(recalibratePrediction(raw, { ...models, enabled: false })).toBe(raw);
+  });
+
+  it('refits and stores recalibration models once enough records settle', () => {
+    clientStore.reset('recalibrationModels');
+    const settled = (n: number) => Array.from({ length: n }, (_, i) => record(prediction(80, 10, 10), i % 2 ? 1 : 0, i % 2 ? 0 : 2));
+
+    expect(refreshRecalibrationModels(settled(10))).toBeNull();
+    expect(loadRecalibrationModels()).toBeNull();
+
+    const models = refreshRecalibrationModels(settled(60))!;
+    expect(models).toMatchObject({ enabled: true, method: 'platt' });
+    expect(loadRecalibrationModels()).toEqual(models);
+    expect(recalibratePrediction(prediction(80, 10, 10), loadRecalibrationModels()).homeWinProbability).toBeLessThan(80);
+
+    // A switched-off store stays switched off after refitting
+    saveRecalibrationModels({ ...models, enabled: false });
+    expect(refreshRecalibrationModels(settled(60))!.enabled).toBe(false);
+  });
+
+  it('builds weekly log-loss trends per market', () => {
+    const records = [
+      record(prediction(60, 20, 20), 1, 0, '2024-09-02T15:00:00Z'),
+      record(prediction(60, 20, 20), 0, 1, '2024-09-10T15:00:00Z'),
+    ];
+    const report = buildCalibrationReport(records, '1X2');
+    expect(report.sampleSize).toBe(6);
+    expect(report.logLossTrend.map(t => t.period)).toEqual(['2024-09-02', '2024-09-09']);
+    expect(report.logLossTrend[1].logLoss).toBeGreaterThan(report.logLossTrend[0].logLoss);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ClientStore, CollectionDefinitions, FIXTURECAST_COLLECTIONS } from '../../services/clientStore';
+
+const memoryStorage = (quotaBytes = Infinity): Storage => {
+  const data = new Map<string, string>();
+  const size = () => [...data.entries()].reduce((sum, [k, v]) => sum + k.length + v.length, 0);
+  return {
+    get length() { return data.size; },
+    key: (i: number) => [...data.keys()][i] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      const previous = data.get(key);
+      data.set(key, value);
+      if (size() > quotaBytes) {
+        if (previous === undefined) data.delete(key); else data.set(key, previous);
+        throw Object.assign(new Error('quota'), { name: 'QuotaExceededError' });
+      }
+    },
+    removeItem: (key: string) => { data.delete(key); },
+    clear: () => data.clear(),
+  };
+};
+
+// Just enough of IndexedDB for the store: one object store keyed by name
+const fakeIndexedDB = (records = new Map<string, any>()) => {
+  const request = (result: () => any) => {
+    const req: any = {};
+    setTimeout(() => { req.result = result(); req.onsuccess?.(); }, 0);
+    return req;
+  };
+  const db = {
+    objectStoreNames: { contains: () => true },
+    createObjectStore: () => undefined,
+    transaction: () => {
+      const tx: any = {
+        objectStore: () => ({
+          getAll: () => request(() => [...records.values()].map(r => structuredClone(r))),
+          put: (value: any) => { records.set(value.name, structuredClone(value)); },
+        }),
+      };
+      setTimeout(() => tx.oncomplete?.(), 0);
+      return tx;
+    },
+  };
+  return { factory: { open: () => request(() => db) } as unknown as IDBFactory, records };
+};
+
+interface TestSchema {
+  settings: { theme: string; fontScale: number };
+  history: { id: string; at: string }[];
+  shared: Record<string, unknown>;
+  alsoShared: Record<string, unknown>;
+}
+
+const definitions: CollectionDefinitions<TestSchema> = {
+  settings: {
+    version: 2,
+    defaultValue: () => ({ theme: 'dark', fontScale: 1 }),
+    legacyKeys: ['old-settings'],
+    migrations: { 2: (value: any) => ({ theme: value.theme, fontScale: value.large ? 1.25 : 1 }) },
+    mirror: true,
+  },
+  history: {
+    version: 1,
+    defaultValue: () => [],
+    legacyKeys: key => key.startsWith('history_'),
+    fromLegacy: entries => Object.values(entries).sort((a: any, b: any) => a.at.localeCompare(b.at)),
+    merge: (stored, local) => [...stored, ...local.filter(l => !stored.some(s => s.id === l.id))],
+    evict: value => value.slice(-2),
+  },
+  shared: { version: 1, defaultValue: () => ({}), legacyKeys: ['shared-key'] },
+  alsoShared: { version: 1, defaultValue: () => ({}), legacyKeys: ['shared-key'] },
+};
+
+describe('ClientStore', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('imports and migrates legacy keys, then retires them once persisted', async () => {
+    const storage = memoryStorage();
+    storage.setItem('old-settings', JSON.stringify({ theme: 'light', large: true }));
+    storage.setItem('history_b', JSON.stringify({ id: 'b', at: '2025-02-01' }));
+    storage.setItem('history_a', JSON.stringify({ id: 'a', at: '2025-01-01' }));
+    storage.setItem('shared-key', JSON.stringify({ on: true }));
+
+    const store = new ClientStore(definitions, { indexedDB: null, storage: () => storage });
+    expect(store.get('settings')).toEqual({ theme: 'light', fontScale: 1.25 });
+    expect(store.get('history').map(h => h.id)).toEqual(['a', 'b']);
+
+    await store.ready();
+    expect(store.activeBackend).toBe('localStorage');
+    expect(storage.getItem('old-settings')).toBeNull();
+    expect(storage.getItem('history_a')).toBeNull();
+    // A key shared by two collections is imported into both before removal
+    expect(store.get('shared')).toEqual({ on: true });
+    expect(store.get('alsoShared')).toEqual({ on: true });
+    expect(storage.getItem('shared-key')).toBeNull();
+
+    const envelope = JSON.parse(storage.getItem('fixturecast_store:settings')!);
+    expect(envelope).toMatchObject({ name: 'settings', version: 2, value: { theme: 'light', fontScale: 1.25 } });
+
+    // A fresh store reads the versioned copy, writes go straight through and notify subscribers
+    const reopened = new ClientStore(definitions, { indexedDB: null, storage: () => storage });
+    await reopened.ready();
+    const listener = vi.fn();
+    reopened.subscribe('settings', listener);
+    reopened.update('settings', s => ({ ...s, theme: 'contrast' }));
+    expect(listener).toHaveBeenCalledWith({ theme: 'contrast', fontScale: 1.25 });
+    expect(JSON.parse(storage.getItem('fixturecast_store:settings')!).value.theme).toBe('contrast');
+  });
+
+  it('trims evictable collections when the quota is exceeded instead of losing the write', async () => {
+    const storage = memoryStorage(900);
+    const store = new ClientStore(definitions, { indexedDB: null, storage: () => storage });
+    await store.ready();
+
+    store.set('history', Array.from({ length: 5 }, (_, i) => ({ id: `h${i}`, at: `2025-01-0${i + 1}` })));
+    store.set('settings', { theme: 'x'.repeat(600), fontScale: 1 });
+
+    expect(store.get('history').map(h => h.id)).toEqual(['h3', 'h4']);
+    expect(JSON.parse(storage.getItem('fixturecast_store:settings')!).value.theme).toHaveLength(600);
+    expect(JSON.parse(storage.getItem('fixturecast_store:history')!).value).toHaveLength(2);
+  });
+
+  it('persists to IndexedDB, merging writes made before it finished loading', async () => {
+    const storage = memoryStorage();
+    const { factory, records } = fakeIndexedDB(new Map([
+      ['history', { name: 'history', version: 1, updatedAt: 1, value: [{ id: 'stored', at: '2025-01-01' }] }],
+      ['settings', { name: 'settings', version: 1, updatedAt: 1, value: { theme: 'light', large: false } }],
+    ]));
+    const store = new ClientStore(definitions, { indexedDB: factory, storage: () => storage });
+
+    // Written before IndexedDB has been read
+    store.update('history', history => [...history, { id: 'early', at: '2025-03-01' }]);
+    await store.ready();
+    await store.flush();
+
+    expect(store.activeBackend).toBe('indexeddb');
+    expect(store.get('history').map(h => h.id)).toEqual(['stored', 'early']);
+    expect(records.get('history').value).toHaveLength(2);
+    // Stored at an older schema version: migrated on read
+    expect(store.get('settings')).toEqual({ theme: 'light', fontScale: 1 });
+
+    store.set('settings', { theme: 'dark', fontScale: 2 });
+    await store.flush();
+    expect(records.get('settings')).toMatchObject({ version: 2, value: { theme: 'dark', fontScale: 2 } });
+    // Mirrored collections keep a synchronous localStorage copy; others don't
+    expect(JSON.parse(storage.getItem('fixturecast_store:settings')!).value.fontScale).toBe(2);
+    expect(storage.getItem('fixturecast_store:history')).toBeNull();
+  });
+
+  it('moves model state kept under raw localStorage keys into its collections', async () => {
+    const storage = memoryStorage();
+    const result = { id: 'm1', homeTeam: 'Arsenal', awayTeam: 'Chelsea', homeScore: 2, awayScore: 0, date: '2025-01-01T15:00:00Z' };
+    storage.setItem('fixturecast_elo_results', JSON.stringify([result]));
+    storage.setItem('fixturecast_recalibration', JSON.stringify({ enabled: true, method: 'platt', fittedAt: '2025-01-02', markets: {} }));
+    storage.setItem('fixturecast_team_metadata_overrides', JSON.stringify({ teams: { 42: { prestige: 90 } } }));
+    storage.setItem('fixturecast_prompt_experiments', JSON.stringify({ 'gemini-match': [{ version: 'v2', weight: 1 }] }));
+
+    const store = new ClientStore(FIXTURECAST_COLLECTIONS, { indexedDB: null, storage: () => storage });
+    await store.ready();
+
+    expect(store.get('eloResults')).toEqual([result]);
+    expect(store.get('recalibrationModels')).toMatchObject({ enabled: true, method: 'platt' });
+    expect(store.get('teamMetadataOverrides')).toEqual({ teams: { 42: { prestige: 90 } } });
+    expect(store.get('promptExperiments')['gemini-match']).toEqual([{ version: 'v2', weight: 1 }]);
+    ['fixturecast_elo_results', 'fixturecast_recalibration', 'fixturecast_team_metadata_overrides', 'fixturecast_prompt_experiments']
+      .forEach(key => expect(storage.getItem(key)).toBeNull());
+  });
+
+  it('imports the old single news list as the unfiltered page next to the per-query pages', async () => {
+    const storage = memoryStorage();
+    const article = { id: 'a1', title: 'Saka injury update', publishedDate: '2025-01-01T10:00:00Z' };
+    const teamPage = { articles: [article], total: 1, page: 1, pageSize: 20, hasMore: false, updatedAt: '2025-01-01T10:30:00Z' };
+    storage.setItem('fixturecast_news_cache', JSON.stringify({ data: [article], timestamp: 1000 }));
+    storage.setItem('fixturecast_news_pages', JSON.stringify({ 'team=Arsenal': { data: teamPage, timestamp: 2000 } }));
+
+    const store = new ClientStore(FIXTURECAST_COLLECTIONS, { indexedDB: null, storage: () => storage });
+    await store.ready();
+
+    expect(store.get('newsPages')).toEqual({
+      '': { data: { articles: [article], total: 1, page: 1, pageSize: 1, hasMore: false, updatedAt: null }, timestamp: 1000 },
+      'team=Arsenal': { data: teamPage, timestamp: 2000 }
+    });
+    expect(storage.getItem('fixturecast_news_cache')).toBeNull();
+    expect(storage.getItem('fixturecast_news_pages')).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { ConfidenceLevel, League, Prediction, PredictionAccuracy } from '../../types';
+import {
+  estimateConfidence,
+  extractConfidenceFeatures,
+  fitConfidenceModel
+} from '../../services/confidenceModel';
+import { calculatePredictionConfidence } from '../../services/confidenceService';
+
+const prediction = (home: number, draw: number, away: number, extras: Partial<Prediction> = {}): Prediction => ({
+  homeWinProbability: home,
+  drawProbability: draw,
+  awayWinProbability: away,
+  predictedScoreline: '1-0',
+  confidence: ConfidenceLevel.Medium,
+  goalLine: { line: 2.5, overProbability: 60, underProbability: 40 },
+  btts: { yesProbability: 55, noProbability: 45 },
+  uncertaintyMetrics: { predictionVariance: 20, dataQuality: 'High', modelAgreement: 80 },
+  ...extras
+});
+
+let counter = 0;
+const record = (p: Prediction, outcome: boolean, league: League = League.PremierLeague, extras: Partial<PredictionAccuracy> = {}): PredictionAccuracy => ({
+  matchId: `m-${counter++}`,
+  prediction: p,
+  actualResult: { homeScore: 1, awayScore: 0 },
+  accuracy: {
+    outcome, scoreline: false, btts: false, goalLine: false, htft: false,
+    scoreRange: false, firstGoalscorer: false, cleanSheet: false, corners: false
+  },
+  timestamp: '2026-10-01T15:00:00Z',
+  league,
+  ...extras
+});
+
+// `hits` of `n` settled picks made with the same probabilities
+const history = (n: number, hits: number, p: Prediction, league?: League): PredictionAccuracy[] =>
+  Array.from({ length: n }, (_, i) => record(p, i < hits, league));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('confidenceModel', () => {
+  it('describes the pick by band, margin, data quality and league', () => {
+    expect(extractConfidenceFeatures(prediction(55, 25, 20), '1X2', League.SerieA)).toMatchObject({
+      topProbability: 55, margin: 30, band: '50-60', marginBand: 'wide', dataQuality: 'High', league: League.SerieA
+    });
+    expect(extractConfidenceFeatures(prediction(40, 30, 30, { btts: { yesProbability: 46, noProbability: 54 } }), 'BTTS'))
+      .toMatchObject({ topProbability: 54, band: '50-60', marginBand: 'narrow', league: 'Unknown' });
+    expect(extractConfidenceFeatures(prediction(40, 30, 30, { btts: undefined }), 'BTTS')).toBeNull();
+  });
+
+  it("falls back to the pick's own probability with a wide interval when nothing has settled", () => {
+    const estimate = estimateConfidence(fitConfidenceModel([], NOW), prediction(62, 23, 15))!;
+    expect(estimate.probability).toBeCloseTo(0.62, 5);
+    expect(estimate.upper - estimate.lower).toBeGreaterThan(0.2);
+    expect(estimate.reasons[0]).toMatch(/No settled match result picks yet/);
+  });
+
+  it('learns the hit rate of similar picks and narrows the interval as they settle', () => {
+    const pick = prediction(65, 20, 15);
+    const few = estimateConfidence(fitConfidenceModel(history(10, 4, pick), NOW), pick, { league: League.PremierLeague })!;
+    const many = estimateConfidence(fitConfidenceModel(history(400, 160, pick), NOW), pick, { league: League.PremierLeague })!;
+
+    // The model claims 65% but similar picks hit 40%
+    expect(few.probability).toBeLessThan(0.65);
+    expect(few.probability).toBeGreaterThan(many.probability);
+    expect(many.probability).toBeCloseTo(0.4, 1);
+    expect(many.upper - many.lower).toBeLessThan(few.upper - few.lower);
+    expect(many.lower).toBeLessThan(0.4);
+    expect(many.upper).toBeGreaterThan(0.4);
+  });
+
+  it('shrinks a thin league toward the wider band and says so', () => {
+    const pick = prediction(65, 20, 15);
+    const records = [
+      ...history(200, 140, pick, League.PremierLeague),
+      ...history(3, 0, pick, League.Ligue1)
+    ];
+    const model = fitConfidenceModel(records, NOW);
+
+    const ligue1 = estimateConfidence(model, pick, { league: League.Ligue1 })!;
+    expect(ligue1.sampleSize).toBe(3);
+    expect(ligue1.probability).toBeGreaterThan(0.55);
+    expect(ligue1.reasons.join('; ')).toMatch(/only 3 similar Ligue 1 picks/);
+
+    // A close call lands in a different group and keeps its own record
+    const closeCall = estimateConfidence(model, prediction(40, 35, 25), { league: League.PremierLeague })!;
+    expect(closeCall.levels[2].n).toBe(0);
+  });
+
+  it('conditions on market and skips void markets', () => {
+    const pick = prediction(50, 30, 20);
+    const records = Array.from({ length: 30 }, (_, i) => record(pick, true, League.PremierLeague, {
+      accuracy: {
+        outcome: true, scoreline: false, btts: i < 25, goalLine: false, htft: false,
+        scoreRange: false, firstGoalscorer: false, cleanSheet: false, corners: false
+      },
+      voidMarkets: i >= 20 ? ['goalLine'] : []
+    }));
+    const model = fitConfidenceModel(records, NOW);
+
+    expect(model.groups['BTTS'].hits).toBe(25);
+    expect(model.groups['OVER_UNDER'].n).toBe(20);
+    const btts = estimateConfidence(model, pick, { market: 'BTTS' })!;
+    const overUnder = estimateConfidence(model, pick, { market: 'OVER_UNDER' })!;
+    expect(btts.probability).toBeGreaterThan(overUnder.probability);
+  });
+
+  it('explains the estimate and its range in the confidence reason', () => {
+    const pick = prediction(65, 20, 15);
+    const analysis = calculatePredictionConfidence(pick, history(60, 45, pick), { league: League.PremierLeague });
+
+    expect(analysis.interval.lower).toBeLessThan(analysis.percentage);
+    expect(analysis.interval.upper).toBeGreaterThan(analysis.percentage);
+    expect(analysis.sampleSize).toBe(60);
+    expect(analysis.reason).toContain(`likely ${analysis.interval.lower}-${analysis.interval.upper}%`);
+    expect(analysis.reason).toContain('45/60 match result picks with a 60-70% favourite and a wide margin hit');
+    expect(analysis.reason).toContain('Premier League: 45/60 similar picks hit');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { League } from '../../types';
+
+vi.mock('../../services/footballApiService', () => ({
+  getFinishedFixtures: vi.fn(async () => []),
+}));
+
+import { EloResultInput } from '../../services/eloRatingService';
+import {
+  buildScoreMatrix,
+  fitDixonColes,
+  lowScoreCorrection,
+  predictionFromScoreMatrix,
+  predictWithDixonColes,
+} from '../../services/dixonColesModel';
+
+const teams = ['Strong FC', 'Middle FC', 'Weak FC', 'Other FC'];
+
+// Double round robin repeated over several weeks with fixed, deterministic scores
+const season = (): EloResultInput[] => {
+  const goals: Record<string, number> = { 'Strong FC': 3, 'Middle FC': 1, 'Weak FC': 0, 'Other FC': 1 };
+  const results: EloResultInput[] = [];
+  let day = 0;
+  for (let round = 0; round < 4; round++) {
+    for (const home of teams) {
+      for (const away of teams) {
+        if (home === away) continue;
+        day++;
+        results.push({
+          id: `${round}-${home}-${away}`,
+          homeTeam: home,
+          awayTeam: away,
+          homeScore: goals[home] + (round % 2),
+          awayScore: goals[away],
+          date: new Date(Date.UTC(2024, 7, 1) + day * 86400000).toISOString(),
+          league: League.PremierLeague,
+        });
+      }
+    }
+  }
+  return results;
+};
+
+describe('dixonColesModel', () => {
+  it('builds a normalised score matrix with the low-score correction', () => {
+    const matrix = buildScoreMatrix(1.4, 1.1, -0.1);
+    const total = matrix.flat().reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1, 10);
+    expect(lowScoreCorrection(0, 0, 1.4, 1.1, -0.1)).toBeGreaterThan(1);
+    expect(lowScoreCorrection(1, 0, 1.4, 1.1, -0.1)).toBeLessThan(1);
+    expect(lowScoreCorrection(2, 1, 1.4, 1.1, -0.1)).toBe(1);
+  });
+
+  it('derives every market from the score matrix with consistent percentages', () => {
+    const prediction = predictionFromScoreMatrix(buildScoreMatrix(1.8, 0.9), 1.8, 0.9);
+
+    expect(prediction.homeWinProbability + prediction.drawProbability + prediction.awayWinProbability).toBe(100);
+    expect(prediction.goalLine.overProbability + prediction.goalLine.underProbability).toBe(100);
+    expect(prediction.btts!.yesProbability + prediction.btts!.noProbability).toBe(100);
+    const { zeroToOne, twoToThree, fourPlus } = prediction.scoreRange!;
+    expect(zeroToOne + twoToThree + fourPlus).toBe(100);
+    expect(Object.values(prediction.htft!).reduce((sum, v) => sum + v, 0)).toBe(100);
+    expect(prediction.homeWinProbability).toBeGreaterThan(prediction.awayWinProbability);
+    // Away clean sheet equals P(home scores 0) = e^-1.8
+    expect(prediction.cleanSheet!.awayTeam).toBe(Math.round(Math.exp(-1.8) * 100));
+    expect(prediction.modelWeights).toEqual({ xgboost: 0, poisson: 100, neuralNet: 0, bayesian: 0 });
+  });
+
+  it('fits attack and defence strengths that rank teams by their results', () => {
+    const params = fitDixonColes(season(), { timeDecay: 0 });
+
+    expect(params.matchCount).toBe(48);
+    expect(params.attack['Strong FC']).toBeGreaterThan(params.attack['Middle FC']);
+    expect(params.attack['Middle FC']).toBeGreaterThan(params.attack['Weak FC']);
+    expect(params.homeAdvantage).toBeGreaterThan(1);
+    expect(params.rho).toBeGreaterThanOrEqual(-0.25);
+    expect(params.rho).toBeLessThanOrEqual(0.25);
+    const meanDefence = teams.reduce((sum, t) => sum + params.defence[t], 0) / teams.length;
+    expect(meanDefence).toBeCloseTo(1, 6);
+  });
+
+  it('predicts deterministically and treats unknown teams as league average', () => {
+    const params = fitDixonColes(season(), { timeDecay: 0 });
+    const match = { homeTeam: 'Strong FC', awayTeam: 'Weak FC' };
+
+    const first = predictWithDixonColes(params, match);
+    expect(predictWithDixonColes(params, match)).toEqual(first);
+    expect(first.homeWinProbability).toBeGreaterThan(60);
+    expect(first.expectedGoals!.homeXg).toBeGreaterThan(first.expectedGoals!.awayXg);
+
+    const unknown = predictWithDixonColes(params, { homeTeam: 'New FC', awayTeam: 'Newer FC' });
+    expect(unknown.uncertaintyMetrics?.dataQuality).toBe('Low');
+    expect(unknown.homeWinProbability).toBeGreaterThan(unknown.awayWinProbability); // Home advantage only
+  });
+
+  it('down-weights old results with the time decay', () => {
+    const results = season();
+    const flipped = results.map(r => ({ ...r, id: `old-${r.id}`, date: '2020-01-01T15:00:00Z', homeScore: r.awayScore, awayScore: r.homeScore }));
+    const recentOnly = fitDixonColes(results);
+    const withHistory = fitDixonColes([...flipped, ...results]);
+    const undecayed = fitDixonColes([...flipped, ...results], { timeDecay: 0 });
+
+    const gap = (params: typeof recentOnly) => params.attack['Strong FC'] / params.attack['Weak FC'];
+
+    expect(gap(withHistory)).toBeGreaterThan(gap(undecayed));
+    expect(gap(withHistory)).toBeLessThanOrEqual(gap(recentOnly));
+  });
+});
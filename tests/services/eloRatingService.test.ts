@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { League } from '../../types';
+
+vi.mock('../../services/footballApiService', () => ({
+  getFinishedFixtures: vi.fn(async () => []),
+}));
+
+import { EloRatingService, EloResultInput, goalDifferenceMultiplier } from '../../services/eloRatingService';
+import { clientStore } from '../../services/clientStore';
+
+const result = (overrides: Partial<EloResultInput>): EloResultInput => ({
+  id: 'm1',
+  homeTeam: 'Arsenal',
+  awayTeam: 'Chelsea',
+  homeScore: 1,
+  awayScore: 0,
+  date: '2024-09-01T15:00:00Z',
+  league: League.PremierLeague,
+  ...overrides,
+});
+
+describe('EloRatingService', () => {
+  beforeEach(() => {
+    clientStore.reset('eloResults');
+  });
+
+  it('starts unknown teams at their league starting rating', () => {
+    const service = new EloRatingService({ leagueStartingRatings: { [League.PremierLeague]: 1600 } });
+    expect(service.getRating('Unknown FC', League.PremierLeague)).toBe(1600);
+    expect(service.getRating('Unknown FC')).toBe(1400);
+  });
+
+  it('moves ratings zero-sum and scales K with goal difference', () => {
+    // Two independent engines, so neither shares the stored results
+    const narrow = new EloRatingService({ homeAdvantage: 0, persist: false });
+    narrow.ingestResults([result({ homeScore: 1, awayScore: 0 })]);
+    const wide = new EloRatingService({ homeAdvantage: 0, persist: false });
+    wide.ingestResults([result({ homeScore: 4, awayScore: 0 })]);
+
+    const narrowGain = narrow.getRating('Arsenal') - 1600;
+    expect(narrowGain).toBeCloseTo(10, 5); // K=20 * (1 - 0.5)
+    expect(narrow.getRating('Chelsea')).toBeCloseTo(1600 - narrowGain, 5);
+    expect(wide.getRating('Arsenal') - 1600).toBeCloseTo(narrowGain * goalDifferenceMultiplier(4), 5);
+  });
+
+  it('expects the home side to win more often with home advantage', () => {
+    const service = new EloRatingService({ homeAdvantage: 100 });
+    const ratings = service.getMatchRatings('Arsenal', 'Chelsea', League.PremierLeague);
+    expect(ratings.eloDifference).toBe(0);
+    expect(ratings.winProbabilityFromElo).toBeGreaterThan(0.6);
+
+    // A home draw costs the home side rating when it was expected to win
+    service.ingestResults([result({ homeScore: 0, awayScore: 0 })]);
+    expect(service.getRating('Arsenal')).toBeLessThan(1600);
+  });
+
+  it('regresses ratings toward the league baseline between seasons', () => {
+    const service = new EloRatingService({ seasonRegression: 0.5, homeAdvantage: 0 });
+    service.ingestResults([
+      result({ id: 'a', homeScore: 3, awayScore: 0, date: '2024-04-01T15:00:00Z' }),
+      result({ id: 'b', homeTeam: 'Arsenal', awayTeam: 'Fulham', homeScore: 1, awayScore: 1, date: '2024-08-20T15:00:00Z' }),
+    ]);
+
+    const [first, second] = service.getRatingHistory('Arsenal');
+    expect(first.season).toBe(2023);
+    expect(second.season).toBe(2024);
+    expect(second.ratingBefore - 1600).toBeCloseTo((first.rating - 1600) * 0.5, 5);
+  });
+
+  it('ignores duplicate matches and replays out-of-order results chronologically', () => {
+    const service = new EloRatingService();
+    service.ingestResults([result({ id: 'late', date: '2024-10-01T15:00:00Z' })]);
+    service.ingestResults([
+      result({ id: 'late', date: '2024-10-01T15:00:00Z' }),
+      result({ id: 'early', homeScore: 0, awayScore: 2, date: '2024-09-01T15:00:00Z' }),
+    ]);
+
+    const history = service.getRatingHistory('Arsenal');
+    expect(history.map(h => h.matchId)).toEqual(['early', 'late']);
+  });
+
+  it('only replays finished fixtures that carry team details', () => {
+    const service = new EloRatingService();
+    const added = service.ingestFinishedFixtures([
+      { id: '1', homeScore: 2, awayScore: 1, status: 'FT', homeTeam: 'Arsenal', awayTeam: 'Chelsea', date: '2024-09-01T15:00:00Z', league: League.PremierLeague },
+      { id: '2', homeScore: 0, awayScore: 0, status: 'FT' },
+      { id: '3', homeScore: 1, awayScore: 0, status: 'LIVE', homeTeam: 'Fulham', awayTeam: 'Brentford', date: '2024-09-01T15:00:00Z' },
+    ]);
+    expect(added).toBe(1);
+    expect(service.getRankings(League.PremierLeague).map(t => t.team)).toEqual(['Arsenal', 'Chelsea']);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { League, LeagueTableRow, LiveMatchUpdate, Match } from '../../types';
+import { buildLeagueTable, buildGroupTables, buildLiveTable } from '../../services/leagueTableEngine';
+
+let nextId = 1;
+const result = (homeTeam: string, awayTeam: string, homeScore: number, awayScore: number, day = 1, league = League.PremierLeague): Match => ({
+  id: String(nextId++),
+  homeTeam,
+  awayTeam,
+  homeTeamId: 0,
+  awayTeamId: 0,
+  league,
+  date: new Date(Date.UTC(2025, 0, day)).toISOString(),
+  status: 'FT',
+  homeScore,
+  awayScore
+});
+
+const order = (rows: LeagueTableRow[]) => rows.map(r => r.teamName);
+
+describe('leagueTableEngine', () => {
+  it('builds rows in both the flat and API shapes and applies deductions', () => {
+    const matches = [result('A', 'B', 2, 0), result('C', 'A', 1, 1), result('B', 'C', 3, 1)];
+    const table = buildLeagueTable(League.PremierLeague, matches);
+
+    expect(order(table)).toEqual(['A', 'B', 'C']);
+    expect(table[0]).toMatchObject({
+      rank: 1, played: 2, won: 1, drawn: 1, lost: 0, goalDifference: 2, points: 4,
+      all: { played: 2, win: 1, draw: 1, lose: 0, goals: { for: 3, against: 1 } }
+    });
+
+    const deducted = buildLeagueTable(League.PremierLeague, matches, { deductions: { A: 2 } });
+    expect(order(deducted)).toEqual(['B', 'A', 'C']);
+    expect(deducted[1].points).toBe(2);
+  });
+
+  it('uses head-to-head before goal difference in La Liga but not in the Premier League', () => {
+    // A and B finish level on points; B has the better goal difference, A won the meeting
+    const matches = (league: League) => [
+      result('A', 'B', 1, 0, 1, league),
+      result('B', 'C', 5, 0, 2, league),
+      result('C', 'A', 1, 0, 3, league),
+      result('A', 'D', 0, 0, 4, league),
+      result('D', 'B', 0, 0, 5, league)
+    ];
+    expect(order(buildLeagueTable(League.PremierLeague, matches(League.PremierLeague))).slice(0, 2)).toEqual(['B', 'A']);
+    expect(order(buildLeagueTable(League.LaLiga, matches(League.LaLiga))).slice(0, 2)).toEqual(['A', 'B']);
+  });
+
+  it('re-applies head-to-head among the remaining tied teams', () => {
+    // Three-way tie on points and head-to-head points; mini-league goal difference decides
+    const matches = [
+      result('A', 'B', 3, 0, 1, League.LaLiga),
+      result('B', 'C', 1, 0, 2, League.LaLiga),
+      result('C', 'A', 1, 0, 3, League.LaLiga)
+    ];
+    expect(order(buildLeagueTable(League.LaLiga, matches))).toEqual(['A', 'C', 'B']);
+  });
+
+  it('overlays live scores on an official baseline "as it stands"', () => {
+    const baseline = [
+      { rank: 1, teamName: 'Arsenal', played: 10, won: 7, drawn: 2, lost: 1, goalDifference: 12, points: 23 },
+      { rank: 2, teamName: 'Liverpool', played: 10, won: 7, drawn: 1, lost: 2, goalDifference: 14, points: 22 }
+    ] as LeagueTableRow[];
+    const fixtures: Match[] = [
+      { ...result('Liverpool', 'Everton', 0, 0), id: 'live', status: 'NS', homeScore: undefined, awayScore: undefined },
+      { ...result('Arsenal', 'Chelsea', 0, 0), id: 'later', status: 'NS', homeScore: undefined, awayScore: undefined }
+    ];
+    const updates: Record<string, LiveMatchUpdate> = {
+      live: { matchId: 'live', status: 'LIVE', homeScore: 2, awayScore: 0, minute: 60, events: [], lastUpdated: '' }
+    };
+
+    const live = buildLiveTable(League.PremierLeague, baseline, fixtures, updates);
+    expect(order(live).slice(0, 2)).toEqual(['Liverpool', 'Arsenal']);
+    expect(live[0]).toMatchObject({ played: 11, points: 25, goalDifference: 16 });
+    expect(live.find(r => r.teamName === 'Arsenal')!.played).toBe(10);
+
+    // Live scores are ignored when only finished matches should count
+    expect(buildLeagueTable(League.PremierLeague, fixtures, { liveUpdates: updates, includeLive: false })).toEqual([]);
+  });
+
+  it('keeps the official order where the baseline cannot be re-ranked', () => {
+    // Level on points; the official table has Girona ahead on head-to-head despite the worse goal difference
+    const laLiga = [
+      { rank: 1, teamName: 'Girona', played: 10, won: 6, drawn: 2, lost: 2, goalDifference: 5, points: 20 },
+      { rank: 2, teamName: 'Sevilla', played: 10, won: 6, drawn: 2, lost: 2, goalDifference: 9, points: 20 },
+      { rank: 3, teamName: 'Getafe', played: 10, won: 5, drawn: 2, lost: 3, goalDifference: 1, points: 17 }
+    ] as LeagueTableRow[];
+    expect(buildLiveTable(League.LaLiga, laLiga, [], {})).toBe(laLiga);
+
+    const fixtures: Match[] = [{ ...result('Getafe', 'Osasuna', 0, 0, 1, League.LaLiga), id: 'live', status: 'LIVE' }];
+    expect(order(buildLiveTable(League.LaLiga, laLiga, fixtures, {}))).toEqual(['Girona', 'Sevilla', 'Getafe', 'Osasuna']);
+
+    // Group membership is not guessed from a baseline plus one live match
+    const ucl = [
+      { rank: 1, teamName: 'Inter', played: 4, won: 2, drawn: 2, lost: 0, goalDifference: 3, points: 8 },
+      { rank: 2, teamName: 'Arsenal', played: 4, won: 2, drawn: 2, lost: 0, goalDifference: 5, points: 8 },
+      { rank: 3, teamName: 'Benfica', played: 4, won: 1, drawn: 1, lost: 2, goalDifference: -2, points: 4 }
+    ] as LeagueTableRow[];
+    expect(buildLiveTable(League.ChampionsLeague, ucl, [], {})).toBe(ucl);
+    const uclLive = buildLiveTable(League.ChampionsLeague, ucl, [{ ...result('Benfica', 'Ajax', 1, 1, 1, League.ChampionsLeague), id: 'b', status: 'HT' }], {});
+    expect(order(uclLive)).toEqual(['Inter', 'Arsenal', 'Benfica', 'Ajax']);
+    expect(uclLive.map(r => r.rank)).toEqual([1, 2, 3, 4]);
+    expect(buildGroupTables(League.ChampionsLeague, [])).toEqual({});
+  });
+
+  it('ranks Scottish Premiership halves separately after the split', () => {
+    const teams = ['T1', 'T2', 'T3', 'T4'];
+    const split = { afterGames: 3, topSize: 2 };
+    // Round robin: T1 > T2 > T3 > T4 at the split
+    const matches = [
+      result('T1', 'T2', 1, 0, 1, League.ScottishPremiership), result('T3', 'T4', 1, 0, 1, League.ScottishPremiership),
+      result('T1', 'T3', 1, 0, 2, League.ScottishPremiership), result('T2', 'T4', 1, 0, 2, League.ScottishPremiership),
+      result('T1', 'T4', 1, 0, 3, League.ScottishPremiership), result('T2', 'T3', 1, 0, 3, League.ScottishPremiership),
+      // Post-split: bottom-half T3 wins big but cannot climb above T2
+      result('T3', 'T4', 9, 0, 4, League.ScottishPremiership), result('T3', 'T4', 9, 0, 5, League.ScottishPremiership),
+      result('T2', 'T1', 0, 0, 4, League.ScottishPremiership), result('T2', 'T1', 0, 0, 5, League.ScottishPremiership)
+    ];
+    const table = buildLeagueTable(League.ScottishPremiership, matches, { rules: { split } });
+    expect(table.find(r => r.teamName === 'T3')!.points).toBeGreaterThan(table.find(r => r.teamName === 'T2')!.points);
+    expect(order(table)).toEqual(['T1', 'T2', 'T3', 'T4']);
+    expect(teams.every(t => table.some(r => r.teamName === t))).toBe(true);
+
+    // Before every team reaches the split the table is a single ranking
+    expect(order(buildLeagueTable(League.ScottishPremiership, matches.slice(0, 4), { rules: { split } }))).toEqual(['T1', 'T2', 'T3', 'T4']);
+  });
+
+  it('builds UEFA group tables from explicit or inferred groups', () => {
+    const matches = [
+      result('A1', 'A2', 2, 0, 1, League.ChampionsLeague),
+      result('B1', 'B2', 0, 1, 1, League.ChampionsLeague)
+    ];
+    const inferred = buildGroupTables(League.ChampionsLeague, matches);
+    expect(Object.keys(inferred)).toEqual(['Group A', 'Group B']);
+    expect(order(inferred['Group A'])).toEqual(['A1', 'A2']);
+    expect(order(inferred['Group B'])).toEqual(['B2', 'B1']);
+    expect(inferred['Group B'][0].rank).toBe(1);
+
+    const explicit = buildGroupTables(League.ChampionsLeague, matches, { groups: { H: ['A1', 'A2', 'A3'] } });
+    expect(order(explicit.H)).toEqual(['A1', 'A3', 'A2']);
+  });
+});
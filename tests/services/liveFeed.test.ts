@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { League, LiveMatch, MatchEvent } from '../../types';
+import {
+  advanceLiveFeed,
+  applyLiveFeedEvent,
+  createLiveFeedState,
+  diffLiveMatches,
+  eventsSince,
+  formatSseEvent,
+  mapLiveFixture,
+  snapshotEvent,
+} from '../../services/liveFeed';
+
+const goal = (minute: number, team: 'home' | 'away', player: string): MatchEvent => ({
+  id: `g-${minute}`,
+  type: 'goal',
+  minute,
+  period: minute <= 45 ? '1H' : '2H',
+  team,
+  player,
+  description: `Normal Goal - ${player}`,
+  timestamp: '2024-09-14T15:00:00Z',
+  detail: 'Normal Goal',
+});
+
+const live = (overrides: Partial<LiveMatch> = {}): LiveMatch => ({
+  id: '100',
+  homeTeam: 'Arsenal',
+  awayTeam: 'Chelsea',
+  homeTeamId: 42,
+  awayTeamId: 49,
+  league: League.PremierLeague,
+  date: '2024-09-14T14:00:00Z',
+  status: 'LIVE',
+  homeScore: 0,
+  awayScore: 0,
+  minute: 10,
+  period: '1H',
+  events: [],
+  lastUpdated: '2024-09-14T14:10:00Z',
+  ...overrides,
+});
+
+describe('liveFeed', () => {
+  it('diffs snapshots into match, goal, card, status and removed deltas', () => {
+    const card: MatchEvent = { ...goal(30, 'away', 'Palmer'), id: 'c-30', type: 'card', detail: 'Yellow Card' };
+    const previous = [live(), live({ id: '200', homeTeam: 'Inter', awayTeam: 'AC Milan' })];
+    const next = [
+      live({ homeScore: 1, minute: 31, events: [goal(25, 'home', 'Saka'), card] }),
+      live({ id: '300', homeTeam: 'Real Madrid', awayTeam: 'Barcelona' }),
+    ];
+
+    const deltas = diffLiveMatches(previous, next);
+
+    expect(deltas.map(d => `${d.type}:${d.matchId}`)).toEqual([
+      'goal:100', 'card:100', 'status:100', 'match:300', 'removed:200',
+    ]);
+    expect(deltas[0].event?.player).toBe('Saka');
+    expect(deltas[0].score).toMatchObject({ homeScore: 1, awayScore: 0, minute: 31 });
+    // Unchanged snapshots produce nothing
+    expect(diffLiveMatches(next, next)).toEqual([]);
+    // A score change that arrives before its event still emits a goal
+    expect(diffLiveMatches([live()], [live({ awayScore: 1 })]).map(d => d.type)).toEqual(['goal']);
+  });
+
+  it('numbers events and resumes from Last-Event-ID, falling back to a snapshot', () => {
+    let state = advanceLiveFeed(createLiveFeedState(), [live()], '2024-09-14T14:10:00Z');
+    state = advanceLiveFeed(state, [live({ minute: 11 })], '2024-09-14T14:11:00Z');
+    state = advanceLiveFeed(state, [live({ minute: 12, homeScore: 1, events: [goal(12, 'home', 'Saka')] })], '2024-09-14T14:12:00Z', 2);
+
+    expect(state.lastEventId).toBe(4);
+    expect(state.events.map(e => e.id)).toEqual([3, 4]); // trimmed to the newest two
+
+    expect(eventsSince(state, 2)?.map(e => e.type)).toEqual(['goal', 'status']);
+    expect(eventsSince(state, 4)).toEqual([]);
+    expect(eventsSince(state, 1)).toBeNull(); // event 2 was trimmed away
+    expect(eventsSince(state, null)).toBeNull();
+    expect(eventsSince(state, 99)).toBeNull(); // log was reset on the server
+
+    const snapshot = snapshotEvent(state);
+    expect(formatSseEvent(snapshot)).toBe(`id: 4\ndata: ${JSON.stringify(snapshot)}\n\n`);
+  });
+
+  it('applies deltas on the client to rebuild the server snapshot', () => {
+    const initial = [live(), live({ id: '200' })];
+    const next = [
+      live({ homeScore: 1, minute: 40, events: [goal(38, 'home', 'Saka')] }),
+      live({ id: '300', homeTeam: 'Real Madrid', awayTeam: 'Barcelona' }),
+    ];
+    let state = advanceLiveFeed(createLiveFeedState(), initial);
+    const client = applyLiveFeedEvent(new Map(), snapshotEvent(state));
+    const seen = state.lastEventId;
+    state = advanceLiveFeed(state, next);
+
+    eventsSince(state, seen)!.forEach(event => applyLiveFeedEvent(client, event));
+    // Replaying the same deltas again is harmless
+    eventsSince(state, seen)!.forEach(event => applyLiveFeedEvent(client, event));
+
+    expect([...client.keys()].sort()).toEqual(['100', '300']);
+    expect(client.get('100')).toMatchObject({ homeScore: 1, minute: 40 });
+    expect(client.get('100')?.events).toHaveLength(1);
+  });
+
+  it('maps API-Football live fixtures including in-play events', () => {
+    const match = mapLiveFixture({
+      fixture: { id: 555, date: '2024-09-14T14:00:00Z', status: { short: '2H', elapsed: 67 }, venue: { name: 'Emirates Stadium' }, referee: null },
+      league: { name: 'Premier League' },
+      teams: { home: { id: 42, name: 'Arsenal' }, away: { id: 49, name: 'Chelsea' } },
+      goals: { home: 1, away: 1 },
+      score: { halftime: { home: 1, away: 0 } },
+      events: [
+        { time: { elapsed: 20, extra: null }, team: { id: 42 }, player: { name: 'Saka' }, type: 'Goal', detail: 'Normal Goal' },
+        { time: { elapsed: 60, extra: null }, team: { id: 42 }, player: { name: 'White' }, type: 'Goal', detail: 'Own Goal' },
+        { time: { elapsed: 61, extra: null }, team: { id: 49 }, player: { name: 'Mudryk' }, type: 'subst', detail: 'Substitution 1' },
+      ],
+    });
+
+    expect(match).toMatchObject({ id: '555', status: 'LIVE', period: '2H', minute: 67, homeScoreHT: 1, awayScoreHT: 0 });
+    expect(match.events?.map(e => `${e.team}:${e.period}`)).toEqual(['home:1H', 'away:2H']);
+  });
+});
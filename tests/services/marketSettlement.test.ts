@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ConfidenceLevel, MatchEvent, Prediction, PredictionAccuracy } from '../../types';
+import {
+  buildSettlementResult,
+  findFirstScoringTeam,
+  getVoidMarkets,
+  settlePrediction,
+} from '../../services/marketSettlement';
+import { calculateAccuracyStats, getSettledCount } from '../../services/accuracyService';
+
+const prediction: Prediction = {
+  homeWinProbability: 55,
+  drawProbability: 25,
+  awayWinProbability: 20,
+  predictedScoreline: '2-1',
+  confidence: ConfidenceLevel.Medium,
+  goalLine: { line: 2.5, overProbability: 60, underProbability: 40 },
+  btts: { yesProbability: 58, noProbability: 42 },
+  htft: {
+    homeHome: 30, homeDraw: 5, homeAway: 2,
+    drawHome: 15, drawDraw: 20, drawAway: 8,
+    awayHome: 3, awayDraw: 5, awayAway: 12,
+  },
+  scoreRange: { zeroToOne: 20, twoToThree: 50, fourPlus: 30 },
+  firstGoalscorer: { homeTeam: 55, awayTeam: 37, noGoalscorer: 8 },
+  cleanSheet: { homeTeam: 30, awayTeam: 20 },
+  corners: { over: 60, under: 40 },
+};
+
+const event = (overrides: Partial<MatchEvent>): MatchEvent => ({
+  id: 'e',
+  type: 'goal',
+  minute: 10,
+  period: '1H',
+  team: 'home',
+  player: 'Player',
+  description: '',
+  timestamp: '2024-09-01T15:10:00Z',
+  ...overrides,
+});
+
+describe('marketSettlement', () => {
+  it('settles HT/FT, first scorer and corners from the extended result record', () => {
+    const result = buildSettlementResult({
+      homeScore: 2,
+      awayScore: 1,
+      homeScoreHT: 1,
+      awayScoreHT: 0,
+      events: [
+        event({ minute: 70, period: '2H', team: 'away' }),
+        event({ minute: 12, team: 'home' }),
+        event({ type: 'card', minute: 30, team: 'away' }),
+      ],
+      statistics: { homeCorners: 6, awayCorners: 5, homeYellowCards: 1, awayYellowCards: 2, homeRedCards: 0, awayRedCards: 1 },
+    });
+
+    expect(result).toEqual({
+      homeScore: 2, awayScore: 1, homeScoreHT: 1, awayScoreHT: 0,
+      firstScoringTeam: 'home', homeCorners: 6, awayCorners: 5,
+      cards: { home: 1, away: 3 },
+    });
+
+    const { accuracy, voidMarkets } = settlePrediction(prediction, result);
+    expect(voidMarkets).toEqual([]);
+    expect(accuracy).toMatchObject({ outcome: true, scoreline: true, htft: true, firstGoalscorer: true, corners: true });
+  });
+
+  it('marks markets without settlement data as void instead of wrong', () => {
+    const { accuracy, voidMarkets } = settlePrediction(prediction, { homeScore: 1, awayScore: 1 });
+    expect(voidMarkets).toEqual(['htft', 'firstGoalscorer', 'corners']);
+    expect(accuracy.htft).toBe(false);
+
+    // Markets the prediction never offered are void too
+    const bare = settlePrediction({ ...prediction, btts: undefined, corners: undefined }, { homeScore: 0, awayScore: 0 });
+    expect(bare.voidMarkets).toEqual(['btts', 'htft', 'corners']);
+    // A goalless draw settles "first to score" without events
+    expect(bare.accuracy.firstGoalscorer).toBe(false);
+  });
+
+  it('ignores missed penalties and shoot-out kicks when finding the first scorer', () => {
+    expect(findFirstScoringTeam([
+      event({ minute: 5, team: 'away', detail: 'Missed Penalty' }),
+      event({ minute: 120, period: 'PEN', team: 'away' }),
+      event({ minute: 44, team: 'home' }),
+    ])).toBe('home');
+    expect(findFirstScoringTeam([])).toBeNull();
+  });
+
+  it('reports void counts and excludes legacy placeholder markets', () => {
+    const settled = settlePrediction(prediction, { homeScore: 2, awayScore: 1, homeScoreHT: 0, awayScoreHT: 0 });
+    const records: PredictionAccuracy[] = [
+      { matchId: 'new', prediction, actualResult: { homeScore: 2, awayScore: 1 }, timestamp: '', ...settled },
+      {
+        matchId: 'legacy',
+        prediction,
+        actualResult: { homeScore: 0, awayScore: 2 },
+        timestamp: '',
+        accuracy: { ...settled.accuracy, htft: false, firstGoalscorer: false, corners: false },
+      },
+    ];
+
+    expect(getVoidMarkets(records[1])).toEqual(['htft', 'firstGoalscorer', 'corners']);
+    const stats = calculateAccuracyStats(records);
+    expect(stats.voidCounts).toEqual({ firstGoalscorer: 2, corners: 2, htft: 1 });
+    expect(getSettledCount(stats, 'htft')).toBe(1);
+    expect(getSettledCount(stats, 'outcome')).toBe(2);
+  });
+});
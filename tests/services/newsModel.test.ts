@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NewsTagger,
+  canonicalLink,
+  detectAlertKind,
+  mergeArticles,
+  parseFeed,
+  queryNews,
+  tagArticle
+} from '../../services/newsModel';
+import { League, NewsArticle } from '../../types';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+const article = (id: string, title: string, publishedDate: string, extra: Partial<NewsArticle> = {}): NewsArticle => ({
+  id,
+  title,
+  link: `https://example.com/${id}`,
+  snippet: '',
+  source: 'BBC Sport',
+  publishedDate,
+  ...extra
+});
+
+describe('newsModel', () => {
+  it('parses RSS and Atom items with CDATA, entities and tracking links', () => {
+    const rss = `<rss><channel><title>BBC</title>
+      <item>
+        <title><![CDATA[Saka &amp; Rice start for Arsenal]]></title>
+        <link>https://www.bbc.co.uk/sport/football/123?at_medium=RSS&amp;at_campaign=rss</link>
+        <description>&lt;p&gt;Arteta names &lt;b&gt;unchanged&lt;/b&gt; side&lt;/p&gt;</description>
+        <pubDate>Sun, 19 Oct 2026 10:30:00 GMT</pubDate>
+      </item>
+      <item><title>No link</title></item>
+    </channel></rss>`;
+    const atom = `<feed><entry>
+      <title>Inter&#8217;s plan</title>
+      <link rel="self" href="https://example.com/api/1"/>
+      <link rel="alternate" href="https://example.com/inter-plan"/>
+      <updated>2026-10-19T09:00:00Z</updated>
+      <summary>Short</summary>
+    </entry></feed>`;
+
+    const [item, ...rest] = parseFeed(rss, 'BBC Sport', NOW);
+    expect(rest).toHaveLength(0);
+    expect(item).toMatchObject({
+      title: 'Saka & Rice start for Arsenal',
+      snippet: 'Arteta names unchanged side',
+      publishedDate: '2026-10-19T10:30:00.000Z'
+    });
+    expect(canonicalLink(item.link)).toBe('bbc.co.uk/sport/football/123');
+    expect(parseFeed(atom, 'Goal.com', NOW)[0]).toMatchObject({ title: 'Inter’s plan', link: 'https://example.com/inter-plan' });
+  });
+
+  it('tags teams by name or alias, preferring the longest name, and leagues by name', () => {
+    const tagger = new NewsTagger();
+    expect(tagger.entities('Inter Milan edge Man Utd in Champions League thriller').teams).toEqual(['Inter', 'Manchester United']);
+
+    const tagged = tagArticle(article('a', 'Spurs boss on Premier League title race', NOW.toISOString(), { snippet: 'Tottenham host Liverpool' }));
+    expect(tagged.teams).toEqual(['Tottenham', 'Liverpool']);
+    expect(tagged.leagues).toEqual([League.PremierLeague]);
+    expect(tagged.alert).toBeUndefined();
+  });
+
+  it('flags injury and suspension headlines but not comebacks', () => {
+    expect(detectAlertKind('Saka ruled out for six weeks with hamstring injury')).toBe('injury');
+    expect(detectAlertKind('Rice handed three-match ban after red card')).toBe('suspension');
+    expect(detectAlertKind('Saka returns from injury for Arsenal')).toBeNull();
+    expect(detectAlertKind('Chelsea hit with transfer ban')).toBeNull();
+
+    const tagged = tagArticle(article('b', 'Arsenal sweat on Saka knee injury before Liverpool trip', NOW.toISOString()));
+    expect(tagged.alert).toEqual({ kind: 'injury', teams: ['Arsenal'] });
+  });
+
+  it('keeps syndicated stories once, under the outlet that published first', () => {
+    const stored = [article('old', 'Arsenal beat Chelsea', '2026-10-01T10:00:00Z')];
+    const fresh = [
+      article('sky', 'Saka ruled out of North London derby with hamstring injury', '2026-10-19T09:30:00Z', { source: 'Sky Sports' }),
+      article('bbc', 'Saka ruled out of north London derby by hamstring injury', '2026-10-19T09:00:00Z'),
+      article('bbc2', 'Saka ruled out of north London derby by hamstring injury', '2026-10-19T09:00:00Z', { link: 'https://example.com/bbc?utm_source=x' })
+    ];
+
+    const { articles, added } = mergeArticles(stored, fresh, NOW, WEEK, 10);
+    expect(articles.map(a => a.id)).toEqual(['bbc']);
+    expect(articles[0].syndicatedBy).toEqual(['Sky Sports']);
+    expect(added.map(a => a.id)).toEqual(['bbc']);
+
+    const again = mergeArticles(articles, [article('bbc', 'Saka ruled out of north London derby by hamstring injury', '2026-10-19T09:00:00Z')], NOW, WEEK, 10);
+    expect(again.added).toEqual([]);
+  });
+
+  it('filters by team, league, alert and text, and paginates', () => {
+    const articles = [
+      tagArticle(article('1', 'Arsenal injury blow as Saka limps off', '2026-10-19T11:00:00Z')),
+      tagArticle(article('2', 'Liverpool go top of the Premier League at Anfield', '2026-10-19T10:00:00Z')),
+      tagArticle(article('3', 'Arsenal sign new deal', '2026-10-19T09:00:00Z'))
+    ];
+
+    expect(queryNews(articles, { team: 'arsenal' }).articles.map(a => a.id)).toEqual(['1', '3']);
+    expect(queryNews(articles, { alerts: 'injury' }).articles.map(a => a.id)).toEqual(['1']);
+    expect(queryNews(articles, { league: League.PremierLeague, q: 'anfield' }).articles.map(a => a.id)).toEqual(['2']);
+    expect(queryNews(articles, { since: '2026-10-19T09:30:00Z' }).total).toBe(2);
+
+    const page = queryNews(articles, { page: 2, pageSize: 2 }, NOW.toISOString());
+    expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2, hasMore: false, updatedAt: NOW.toISOString() });
+    expect(page.articles.map(a => a.id)).toEqual(['3']);
+  });
+});
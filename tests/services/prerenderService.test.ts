@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildManifest,
+  buildSnapshots,
+  renderSnapshot,
+  snapshotFile
+} from '../../services/prerenderService';
+import { sitemapGenerator } from '../../utils/sitemapGenerator';
+import { League, Match, Team } from '../../types';
+
+const template = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <title>FixtureCast</title>
+    <script type="module" crossorigin src="/assets/index-abc123.js"></script>
+  </head>
+  <body class="bg-gray-900">
+    <div id="root"></div>
+  </body>
+</html>`;
+
+const teams = {
+  'Arsenal': { logo: 'https://media.api-sports.io/football/teams/42.png', shortName: 'ARS', jerseyColors: { primary: '#EF0107', secondary: '#FFFFFF' }, league: League.PremierLeague, venue: 'Emirates Stadium' },
+  'Chelsea': { logo: 'https://media.api-sports.io/football/teams/49.png', shortName: 'CHE', jerseyColors: { primary: '#034694', secondary: '#FFFFFF' }, league: League.PremierLeague }
+} as Record<string, Team>;
+
+const fixture = { id: '1035', homeTeam: 'Arsenal', awayTeam: 'Chelsea', league: League.PremierLeague, date: '2026-10-19T15:00:00Z', venue: 'Emirates Stadium' } as Match;
+
+const build = (fixtures: Match[] = [fixture]) =>
+  buildSnapshots({ origin: 'https://fixturecast.com', fixtures, teams, leagues: [League.PremierLeague, League.SuperLig] });
+
+describe('prerenderService', () => {
+  it('builds a snapshot per fixture, team and league', () => {
+    const pages = build();
+
+    expect(pages.map(page => page.path)).toEqual([
+      '/match/1035',
+      '/team/arsenal',
+      '/team/chelsea',
+      '/league/premier-league',
+      '/league/super-lig'
+    ]);
+    expect(snapshotFile('/team/arsenal')).toBe('team/arsenal.html');
+  });
+
+  it('renders head tags, canonical URL, JSON-LD and a summary into the built template', () => {
+    const match = build().find(page => page.route === 'match')!;
+    const html = renderSnapshot(template, match);
+
+    expect(html).toContain('<title>Arsenal vs Chelsea Prediction · Premier League | FixtureCast</title>');
+    expect(html).not.toContain('<title>FixtureCast</title>');
+    expect(html).toContain('<link rel="canonical" href="https://www.fixturecast.com/match/1035" />');
+    expect(html).toContain('<meta property="og:url" content="https://www.fixturecast.com/match/1035" />');
+    expect(html).toContain('<meta property="og:image" content="https://media.api-sports.io/football/teams/42.png" />');
+    expect(html).toContain('<meta name="twitter:card" content="summary" />');
+    expect(html).toContain('"@type": "SportsEvent"');
+    expect(html).toContain('"url": "https://www.fixturecast.com/team/chelsea"');
+    expect(html).toContain('<div id="root" data-prerendered="/match/1035"><main');
+    expect(html).toContain('<a href="/league/premier-league">Premier League</a>');
+    // The SPA still boots on top
+    expect(html).toContain('src="/assets/index-abc123.js"');
+  });
+
+  it('escapes names in markup and rejects templates without an empty root', () => {
+    const team = build([{ ...fixture, awayTeam: 'Brighton & Hove <Albion>' }]).find(page => page.path === '/team/brighton-and-hove-albion')!;
+
+    expect(renderSnapshot(template, team)).toContain('<h1 class="text-3xl font-bold mb-4">Brighton &amp; Hove &lt;Albion&gt;</h1>');
+    expect(() => renderSnapshot('<html><body></body></html>', team)).toThrow(/root/);
+  });
+
+  it('keeps lastmod for unchanged pages and lists them in the sitemap', async () => {
+    const first = await buildManifest(build(), 'https://fixturecast.com', new Date('2026-10-18T06:00:00Z'));
+    const moved = { ...fixture, date: '2026-10-19T17:30:00Z' };
+    const second = await buildManifest(build([moved]), 'https://fixturecast.com', new Date('2026-10-19T06:00:00Z'), first);
+    const lastmod = (path: string) => second.pages.find(page => page.path === path)?.lastmod;
+
+    expect(second.origin).toBe('https://www.fixturecast.com');
+    expect(lastmod('/team/chelsea')).toBe('2026-10-19T06:00:00.000Z');
+    expect(lastmod('/match/1035')).toBe('2026-10-19T06:00:00.000Z');
+    expect(lastmod('/league/super-lig')).toBe('2026-10-18T06:00:00.000Z');
+
+    const xml = sitemapGenerator.generateSitemapFromManifest(second);
+    expect(xml).toContain('<loc>https://www.fixturecast.com/league/super-lig</loc>\n    <lastmod>2026-10-18T06:00:00.000Z</lastmod>');
+    expect(xml).toContain('<loc>https://www.fixturecast.com/fixtures</loc>');
+    expect(xml).not.toContain('/prediction<');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { League, Match } from '../../types';
+import { promptRegistry, hashToUnit } from '../../services/promptRegistry';
+import { clientStore } from '../../services/clientStore';
+import { mlTrainingDataService } from '../../services/mlTrainingDataService';
+import { onRequest } from '../../functions/api/ai/gemini/predict.js';
+
+const match = (id: string): Match => ({
+  id,
+  homeTeam: 'Arsenal',
+  awayTeam: 'Chelsea',
+  homeTeamId: 42,
+  awayTeamId: 49,
+  league: League.PremierLeague,
+  date: '2024-09-14T15:00:00Z',
+});
+
+const realTimeContext: any = {
+  dataQuality: { overall: 82 },
+  homeTeamAbsences: { keyPlayersOut: [{ name: 'Saka', position: 'RW', importance: 'critical', reason: 'Injury' }], totalImpactScore: 7 },
+  awayTeamAbsences: { keyPlayersOut: [], totalImpactScore: 0 },
+};
+
+// tests/setup.ts replaces localStorage with bare mocks; these tests need a working store
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (i: number) => [...items.keys()][i] ?? null,
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => { items.set(k, String(v)); },
+    removeItem: (k: string) => { items.delete(k); },
+    clear: () => items.clear(),
+  };
+};
+
+describe('promptRegistry', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    promptRegistry.resetExperiments();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('buckets matches deterministically and roughly by weight', () => {
+    const first = promptRegistry.assign('gemini-match', 1234);
+    expect(promptRegistry.assign('gemini-match', '1234')).toEqual(first);
+    expect(first.promptVersion).toBe(`gemini-match@${first.version}`);
+    expect(first.bucket).toBe(hashToUnit('gemini-match:1234'));
+
+    const counts: Record<string, number> = {};
+    for (let id = 0; id < 2000; id++) {
+      const { version } = promptRegistry.assign('gemini-match', id);
+      counts[version] = (counts[version] || 0) + 1;
+    }
+    expect(Object.keys(counts).sort()).toEqual(['v1', 'v2']);
+    expect(counts.v1 / 2000).toBeGreaterThan(0.45);
+    expect(counts.v1 / 2000).toBeLessThan(0.55);
+
+    expect(promptRegistry.assign('deepseek-match', 1234).version).toBe('v1');
+  });
+
+  it('fills PredictionContext and RealTimeDataContext slots', () => {
+    const slots = promptRegistry.buildSlots(match('1'), {
+      context: { leagueTableSnippet: 'Arsenal 1st', headToHeadSnippet: 'W W D' },
+      realTimeContext,
+      realTimeSummary: 'REAL-TIME BLOCK',
+    });
+    expect(slots.contextSnippets).toBe('- League Table: Arsenal 1st\n- Head-to-Head: W W D');
+    expect(slots.dataQuality).toBe('82%');
+    expect(slots.homeAbsences).toBe('Saka (RW, critical); impact score 7');
+    expect(slots.awayAbsences).toBe('None reported');
+
+    const v2 = promptRegistry.render('gemini-match', 'v2', slots);
+    expect(v2).toContain('- Home Team: Arsenal');
+    expect(v2).toContain('Key absences (Arsenal): Saka (RW, critical)');
+    expect(v2).toContain('REAL-TIME BLOCK');
+    expect(v2).not.toMatch(/\{\{\w+\}\}/);
+
+    const v1 = promptRegistry.render('gemini-match', 'v1', slots);
+    expect(v1).toContain('- leagueTableSnippet: Arsenal 1st');
+    expect(v1).not.toContain('REAL-TIME BLOCK');
+    expect(() => promptRegistry.render('gemini-match', 'v9', slots)).toThrow('Unknown prompt version gemini-match@v9');
+  });
+
+  it('persists experiment overrides and rejects unknown versions', () => {
+    promptRegistry.setExperiment('gemini-match', [{ version: 'v2', weight: 1 }]);
+    expect(promptRegistry.prepare('gemini-match', match('77')).promptVersion).toBe('gemini-match@v2');
+    expect(clientStore.get('promptExperiments')['gemini-match']).toEqual([{ version: 'v2', weight: 1 }]);
+
+    expect(() => promptRegistry.setExperiment('deepseek-match', [{ version: 'v2', weight: 1 }])).toThrow('Unknown prompt version');
+    expect(() => promptRegistry.setExperiment('gemini-match', [{ version: 'v1', weight: 0 }])).toThrow('positive weight');
+  });
+
+  it('renders the requested version in the Gemini proxy and reports it', async () => {
+    const upstream = vi.fn(async (_url: string, init: RequestInit) => {
+      const prompt = JSON.parse(init.body as string).contents[0].parts[0].text;
+      expect(prompt).toContain('REAL-TIME BLOCK');
+      expect(prompt).not.toContain('injected');
+      const prediction = { homeWinProbability: 50, drawProbability: 25, awayWinProbability: 25, keyFactors: [] };
+      return new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: JSON.stringify(prediction) }] } }] }));
+    });
+    vi.stubGlobal('fetch', upstream);
+
+    const request = new Request('https://fixturecast.test/api/ai/gemini/predict', {
+      method: 'POST',
+      body: JSON.stringify({
+        match: match('5'),
+        promptVersion: 'v2',
+        promptSlots: { realTimeSummary: 'REAL-TIME BLOCK', homeTeam: 'injected' },
+      }),
+    });
+    const response = await onRequest({ request, env: { GEMINI_API_KEY: 'key' } });
+    expect((await response.json()).meta.promptVersion).toBe('gemini-match@v2');
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it('splits model performance by prompt version', async () => {
+    const record = (id: string, promptVersion: string | undefined, home: number, actualResult: 'H' | 'D' | 'A') => {
+      localStorage.setItem(`ml_training_${id}`, JSON.stringify({
+        id,
+        matchId: id,
+        predictionDate: new Date().toISOString().split('T')[0],
+        league: League.PremierLeague,
+        promptVersion,
+        predictedHomeWin: home,
+        predictedDraw: 20,
+        predictedAwayWin: 80 - home,
+        predictionConfidence: 60,
+        dataQualityOverall: 80,
+        actualResult,
+      }));
+    };
+    record('a', 'gemini-match@v1', 60, 'H');
+    record('b', 'gemini-match@v1', 60, 'A');
+    record('c', 'gemini-match@v2', 60, 'H');
+    record('d', undefined, 10, 'A');
+    localStorage.setItem('ml_training_pending', JSON.stringify({ id: 'pending', predictionDate: '2024-01-01' }));
+
+    const performance = await mlTrainingDataService.getModelPerformance(30);
+    expect(performance).toMatchObject({ totalPredictions: 4, correct1x2Predictions: 3, premierLeagueAccuracy: 0.75 });
+    expect(performance!.byPromptVersion['gemini-match@v1']).toMatchObject({ totalPredictions: 2, accuracy1x2: 0.5 });
+    expect(performance!.byPromptVersion['gemini-match@v2']).toMatchObject({ totalPredictions: 1, accuracy1x2: 1 });
+    expect(performance!.byPromptVersion.unversioned.avgBrierScore).toBeCloseTo(0.01 + 0.04 + 0.09);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  href,
+  leagueFromSlug,
+  legacyRedirect,
+  matchRoute,
+  pathForView,
+  resolveSlug,
+  slugify,
+  teamFromParam,
+  viewForPath
+} from '../../services/routeTable';
+import { routeLoader } from '../../services/routeLoaders';
+import { sitemapGenerator } from '../../utils/sitemapGenerator';
+import { League, Match, View } from '../../types';
+
+const teams = ['Manchester United', 'Brighton & Hove Albion', 'Atlético Madrid'];
+
+describe('routeTable', () => {
+  it('builds slug links for team and league params and encodes the rest', () => {
+    expect(href('team', { team: 'Manchester United' })).toBe('/team/manchester-united');
+    expect(href('team', { team: 'Brighton & Hove Albion' })).toBe('/team/brighton-and-hove-albion');
+    expect(href('league', { league: League.SuperLig })).toBe('/league/super-lig');
+    expect(href('match', { matchId: 1035 })).toBe('/match/1035');
+    expect(href('myTeams')).toBe('/my-teams');
+    expect(slugify('Atlético Madrid')).toBe('atletico-madrid');
+  });
+
+  it('matches pathnames to routes with decoded params', () => {
+    expect(matchRoute('/team/manchester-united')).toEqual({ name: 'team', params: { team: 'manchester-united' } });
+    expect(matchRoute('/match/42/')).toEqual({ name: 'match', params: { matchId: '42' } });
+    expect(matchRoute('/prediction')).toEqual({ name: 'predictionPreview', params: {} });
+    expect(matchRoute('/nowhere')).toBeNull();
+    expect(viewForPath('/match/42')).toBe(View.Fixtures);
+    expect(pathForView(View.MyTeams)).toBe('/my-teams');
+    expect(pathForView(View.TeamPage)).toBe('/dashboard');
+  });
+
+  it('redirects hash router URLs to paths', () => {
+    expect(legacyRedirect('#fixtures')).toBe('/fixtures');
+    expect(legacyRedirect('#myTeams')).toBe('/my-teams');
+    expect(legacyRedirect('#match/123')).toBe('/match/123');
+    expect(legacyRedirect('#match-123')).toBe('/match/123');
+    expect(legacyRedirect('#team/Manchester%20United')).toBe('/team/manchester-united');
+    expect(legacyRedirect('#fixtures-list')).toBeNull();
+    expect(legacyRedirect('')).toBeNull();
+  });
+
+  it('resolves slugs and legacy encoded names back to display names', () => {
+    expect(resolveSlug('atletico-madrid', teams)).toBe('Atlético Madrid');
+    expect(resolveSlug('Manchester%20United', teams)).toBe('Manchester United');
+    expect(teamFromParam('brighton-and-hove-albion', teams)).toBe('Brighton & Hove Albion');
+    expect(teamFromParam('real-sociedad', teams)).toBe('Real Sociedad');
+    expect(teamFromParam('Real%20Betis', teams)).toBe('Real Betis');
+
+    expect(leagueFromSlug('premier-league')).toBe(League.PremierLeague);
+    expect(leagueFromSlug('super-lig')).toBe(League.SuperLig);
+    expect(leagueFromSlug('championship')).toBe(League.Championship);
+    expect(leagueFromSlug('UEFA%20Champions%20League')).toBe(League.ChampionsLeague);
+    expect(leagueFromSlug('not-a-league')).toBeNull();
+  });
+
+  it('builds the sitemap from the route table', () => {
+    const match = { id: 42, homeTeam: 'Manchester United', awayTeam: 'Atlético Madrid', league: League.ChampionsLeague, date: '2026-10-21T19:00:00Z' } as unknown as Match;
+    const xml = sitemapGenerator.generateSitemap([match]);
+
+    expect(xml).toContain('/match/42</loc>');
+    expect(xml).toContain('/team/atletico-madrid</loc>');
+    expect(xml).toContain('/league/uefa-champions-league</loc>');
+    expect(xml).toContain('/my-teams</loc>');
+    expect(xml).not.toContain('#');
+    expect(xml).not.toContain('/prediction</loc>');
+  });
+});
+
+describe('routeLoader', () => {
+  const context = () => ({
+    teamNames: () => teams,
+    getTeamDetails: vi.fn(async (name: string) => ({ id: 1, name } as any)),
+    loadLeagueTable: vi.fn(async () => {}),
+    loadLeagueFixtures: vi.fn(async () => {})
+  });
+
+  beforeEach(() => routeLoader.invalidate());
+
+  it('shares one load between prefetch and the page', async () => {
+    const ctx = context();
+    routeLoader.configure(ctx);
+
+    routeLoader.prefetch('/team/atletico-madrid');
+    const data = await routeLoader.load('/team/atletico-madrid');
+
+    expect(data).toEqual({ teamName: 'Atlético Madrid', team: { id: 1, name: 'Atlético Madrid' } });
+    expect(routeLoader.peek('/team/atletico-madrid')).toEqual(data);
+    expect(ctx.getTeamDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads league fixtures and table for league routes', async () => {
+    const ctx = context();
+    routeLoader.configure(ctx);
+
+    await expect(routeLoader.load('/league/premier-league')).resolves.toEqual({ league: League.PremierLeague });
+    expect(ctx.loadLeagueFixtures).toHaveBeenCalledWith(League.PremierLeague);
+    expect(ctx.loadLeagueTable).toHaveBeenCalledWith(League.PremierLeague);
+  });
+
+  it('retries loads that failed', async () => {
+    const ctx = context();
+    ctx.getTeamDetails.mockRejectedValueOnce(new Error('offline'));
+    routeLoader.configure(ctx);
+
+    await expect(routeLoader.load('/team/manchester-united')).rejects.toThrow('offline');
+    await expect(routeLoader.load('/team/manchester-united')).resolves.toMatchObject({ teamName: 'Manchester United' });
+    expect(ctx.getTeamDetails).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { editDistance, foldText, SearchIndex } from '../../services/searchIndex';
+import { searchService } from '../../services/searchService';
+import { League, Match, Team } from '../../types';
+
+const team = (league: League, extra: Partial<Team> = {}): Team =>
+  ({ logo: '', shortName: '', jerseyColors: { primary: '#000', secondary: '#fff' }, league, ...extra });
+
+const teams: Record<string, Team> = {
+  'Bayern Munich': team(League.Bundesliga, {
+    venue: 'Allianz Arena',
+    city: 'München',
+    coach: { id: 1, name: 'Vincent Kompany', nationality: 'Belgium' },
+    squad: [{ id: 9, name: 'Harry Kane', position: 'Attacker', age: 32, nationality: 'England' }]
+  }),
+  'Fenerbahçe': team(League.SuperLig, { venue: 'Şükrü Saracoğlu Stadium' }),
+  'Flamengo': team(League.BrasileiraoSerieA, { venue: 'Maracanã' }),
+  'Arsenal': team(League.PremierLeague, { venue: 'Emirates Stadium' }),
+  'Chelsea': team(League.PremierLeague, { venue: 'Stamford Bridge' })
+};
+
+const now = new Date('2026-10-19T12:00:00Z');
+const fixture = (id: string, homeTeam: string, awayTeam: string, league: League, date: string): Match =>
+  ({ id, homeTeam, awayTeam, league, date, status: 'NS' } as Match);
+
+const fixtures = [
+  fixture('1', 'Arsenal', 'Chelsea', League.PremierLeague, '2026-10-26T15:00:00Z'),
+  fixture('2', 'Chelsea', 'Arsenal', League.PremierLeague, '2026-10-19T16:00:00Z')
+];
+
+describe('searchIndex', () => {
+  it('folds accents and spelled-out letters', () => {
+    expect(foldText('Fenerbahçe')).toBe('fenerbahce');
+    expect(foldText('Brasileirão Série A')).toBe('brasileirao serie a');
+    expect(foldText('Weißwasser')).toBe('weisswasser');
+  });
+
+  it('counts transpositions as one edit and stops past the limit', () => {
+    expect(editDistance('arsenal', 'arsneal')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('abc', 'uvwxyz', 1)).toBe(2);
+  });
+
+  it('highlights the original characters of accented matches', () => {
+    const index = new SearchIndex();
+    index.add({ id: 'f', title: 'Fenerbahçe', description: 'Süper Lig' });
+
+    const [hit] = index.search('fenerbahce super');
+    expect(hit.highlights.title).toEqual([{ start: 0, end: 10 }]);
+    expect(hit.highlights.description).toEqual([{ start: 0, end: 5 }]);
+  });
+});
+
+describe('searchService', () => {
+  beforeEach(() => searchService.indexContent(fixtures, teams));
+
+  it('finds accented and differently named entries', () => {
+    expect(searchService.search('Fenerbahce')[0]).toMatchObject({ type: 'team', title: 'Fenerbahçe' });
+    expect(searchService.search('brasileirao')[0]).toMatchObject({ type: 'league', title: League.BrasileiraoSerieA });
+
+    const bayern = searchService.search('Bayern Munchen')[0];
+    expect(bayern).toMatchObject({ type: 'team', title: 'Bayern Munich' });
+    expect(bayern.alias).toEqual({ text: 'Bayern München', ranges: [{ start: 7, end: 14 }] });
+  });
+
+  it('tolerates typos and prefixes', () => {
+    expect(searchService.search('Arsneal').find(result => result.type === 'team')?.title).toBe('Arsenal');
+    expect(searchService.search('chel').find(result => result.type === 'match')?.highlights?.title).toEqual([{ start: 11, end: 15 }]);
+    expect(searchService.search('xyzzy')).toEqual([]);
+  });
+
+  it('indexes players, coaches and venues', () => {
+    expect(searchService.search('harry kane')[0]).toMatchObject({ type: 'player', description: 'Attacker • Bayern Munich', url: '/team/bayern-munich' });
+    expect(searchService.search('kompany')[0]).toMatchObject({ type: 'coach', title: 'Vincent Kompany' });
+    expect(searchService.search('maracana')[0]).toMatchObject({ type: 'venue', title: 'Maracanã' });
+    expect(searchService.search('sukru saracoglu')[0].highlights?.title).toEqual([{ start: 0, end: 5 }, { start: 6, end: 15 }]);
+  });
+
+  it('ranks imminent kickoffs and followed teams higher', () => {
+    const matches = searchService.search('arsenal chelsea', undefined, { now }).filter(result => result.type === 'match');
+    expect(matches.map(result => result.id)).toEqual(['2', '1']);
+
+    const topVenue = (favoriteTeams: string[]) => searchService.search('stadium', undefined, { now, favoriteTeams })[0].title;
+    expect(topVenue(['Arsenal'])).toBe('Emirates Stadium');
+    expect(topVenue(['Fenerbahçe'])).toBe('Şükrü Saracoğlu Stadium');
+  });
+});
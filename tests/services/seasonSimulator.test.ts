@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { League, LeagueTableRow, Match, Prediction } from '../../types';
+import { simulateSeason, sampleFixture, createRng, getLeagueZones, SimulationFixture, SimulationTeam } from '../../services/seasonSimulator';
+import { seasonSimulationService } from '../../services/seasonSimulationService';
+
+const team = (name: string, points: number, goalDifference = 0): SimulationTeam => ({ name, points, played: 30, goalDifference, goalsFor: 40 });
+
+const fixture = (homeTeam: string, awayTeam: string, homeWin = 45, draw = 27, awayWin = 28): SimulationFixture => ({
+  id: `${homeTeam}-${awayTeam}`,
+  homeTeam,
+  awayTeam,
+  homeWin,
+  draw,
+  awayWin,
+  homeXg: 1.5,
+  awayXg: 1.1,
+  source: 'prediction',
+});
+
+describe('seasonSimulator', () => {
+  it('samples scorelines that agree with the drawn outcome', () => {
+    const rng = createRng(7);
+    const certainHome = fixture('A', 'B', 100, 0, 0);
+    const certainDraw = fixture('A', 'B', 0, 100, 0);
+    for (let i = 0; i < 200; i++) {
+      const [h, a] = sampleFixture(certainHome, rng);
+      expect(h).toBeGreaterThan(a);
+      const [dh, da] = sampleFixture(certainDraw, rng);
+      expect(dh).toBe(da);
+    }
+  });
+
+  it('is reproducible for a seed and produces valid position distributions', () => {
+    const input = {
+      league: League.PremierLeague,
+      table: [team('Arsenal', 70, 40), team('Liverpool', 68, 35), team('Fulham', 40), team('Burnley', 20, -30)],
+      fixtures: [fixture('Arsenal', 'Liverpool'), fixture('Liverpool', 'Fulham'), fixture('Fulham', 'Burnley'), fixture('Burnley', 'Arsenal', 15, 20, 65)],
+      iterations: 2000,
+      seed: 42,
+      zones: { european: 2, relegation: 1, europeanLabel: 'Top 2' },
+    };
+    const first = simulateSeason(input);
+    const second = simulateSeason(input);
+    expect(second.teams).toEqual(first.teams);
+
+    for (const projection of first.teams) {
+      expect(projection.positionProbabilities.reduce((s, p) => s + p, 0)).toBeCloseTo(1);
+      expect(projection.remainingFixtures).toBe(2);
+    }
+    const positionsTaken = [0, 1, 2, 3].map(pos => first.teams.reduce((s, t) => s + t.positionProbabilities[pos], 0));
+    positionsTaken.forEach(p => expect(p).toBeCloseTo(1));
+
+    const burnley = first.teams.find(t => t.team === 'Burnley')!;
+    expect(burnley.relegationProbability).toBe(1);
+    expect(burnley.currentPosition).toBe(4);
+    expect(first.teams.find(t => t.team === 'Fulham')!.europeanProbability).toBe(0);
+
+    // Title race between the top two only; expected points track the 1X2 probabilities
+    const arsenal = first.teams.find(t => t.team === 'Arsenal')!;
+    const liverpool = first.teams.find(t => t.team === 'Liverpool')!;
+    expect(arsenal.titleProbability + liverpool.titleProbability).toBeCloseTo(1);
+    expect(arsenal.titleProbability).toBeGreaterThan(liverpool.titleProbability);
+    const expectedArsenal = 70 + (0.45 * 3 + 0.27) + (0.65 * 3 + 0.2);
+    expect(arsenal.expectedPoints).toBeCloseTo(expectedArsenal, 0);
+  });
+
+  it('ignores fixtures for teams outside the table and uses league zones', () => {
+    const result = simulateSeason({
+      league: League.Bundesliga,
+      table: [team('Bayern', 60), team('Dortmund', 50)],
+      fixtures: [fixture('Bayern', 'Dortmund'), fixture('Bayern', 'Unknown FC')],
+      iterations: 100,
+      seed: 1,
+    });
+    expect(result.fixturesSimulated).toBe(1);
+    expect(result.zones).toEqual(getLeagueZones(League.Bundesliga));
+    expect(result.teams[0].titleProbability).toBe(1);
+  });
+});
+
+describe('seasonSimulationService', () => {
+  it('normalises API tables, prefers stored predictions and runs inline without Worker', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const table = [
+      { rank: 1, teamName: 'Arsenal', played: 37, won: 25, drawn: 5, lost: 7, goalDifference: 40, points: 80 },
+      { rank: 2, teamName: '', team: { id: 40, name: 'Liverpool', logo: '' }, all: { played: 37, win: 24, draw: 6, lose: 7, goals: { for: 80, against: 40 } }, points: 78 },
+    ] as LeagueTableRow[];
+    const match = (id: string, homeTeam: string, awayTeam: string): Match => ({ id, homeTeam, awayTeam, homeTeamId: 0, awayTeamId: 0, league: League.PremierLeague, date: '2025-05-25T15:00:00Z' });
+    const stored = { homeWinProbability: 90, drawProbability: 5, awayWinProbability: 5, expectedGoals: { homeXg: 2.5, awayXg: 0.5 } } as Prediction;
+
+    const teams = seasonSimulationService.toSimulationTeams(table);
+    expect(teams[1]).toEqual({ name: 'Liverpool', points: 78, played: 37, goalDifference: 40, goalsFor: 80 });
+
+    const result = await seasonSimulationService.simulate(League.PremierLeague, table, {
+      fixtures: [match('1', 'Arsenal', 'Liverpool'), match('2', 'Liverpool', 'Arsenal')],
+      getPrediction: id => (id === '1' ? stored : null),
+      iterations: 500,
+      seed: 3,
+    });
+    expect(result.fixturesSimulated).toBe(2);
+    expect(result.fixturesFromPredictions).toBe(1);
+    expect(result.teams[0].team).toBe('Arsenal');
+
+    // Same table again is served from cache
+    expect(await seasonSimulationService.simulate(League.PremierLeague, table, { fixtures: [] })).toBe(result);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { onRequest } from '../../functions/api/predictions/sync.js';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+import {
+  PredictionAnnotations,
+  PredictionSyncRecord,
+  compareVectors,
+  reconcile,
+  resolveConflict,
+  stampEdit,
+  vectorOf
+} from '../../services/syncConflicts';
+import { Prediction } from '../../types';
+
+const KICKOFF = Date.UTC(2025, 9, 25, 15);
+const HOUR = 60 * 60 * 1000;
+
+const prediction = (scoreline: string): Prediction => ({
+  homeWinProbability: 50,
+  drawProbability: 25,
+  awayWinProbability: 25,
+  predictedScoreline: scoreline
+} as Prediction);
+
+// One device with its local copy, syncing against the real Pages Function
+class Device {
+  record: PredictionSyncRecord | null = null;
+  queued: ReturnType<typeof reconcile>['conflict'] | undefined;
+
+  constructor(readonly id: string, private env: { PREDICTIONS_KV: MemoryKV }, private syncId: string) {}
+
+  predict(scoreline: string, generatedAt: number) {
+    const base = this.record?.metadata || { created: generatedAt, modified: generatedAt, deviceId: this.id, version: 0, checksum: '', platform: 'web' as const };
+    this.record = {
+      id: 'pred_1001',
+      matchId: '1001',
+      prediction: prediction(scoreline),
+      annotations: this.record?.annotations,
+      annotationStamps: this.record?.annotationStamps,
+      metadata: { ...stampEdit(base, this.record ? vectorOf(this.record) : {}, this.id, generatedAt), checksum: scoreline, generatedAt, kickoff: new Date(KICKOFF).toISOString() },
+      syncStatus: { local: true, cloud: false, pending: true, conflicted: false }
+    };
+  }
+
+  annotate(changes: PredictionAnnotations, at: number) {
+    const record = this.record!;
+    const stamps = { ...record.annotationStamps };
+    Object.keys(changes).forEach(field => { stamps[field as keyof PredictionAnnotations] = { at, deviceId: this.id }; });
+    this.record = { ...record, annotations: { ...record.annotations, ...changes }, annotationStamps: stamps, metadata: stampEdit(record.metadata, vectorOf(record), this.id, at) };
+  }
+
+  private async call(method: string, body?: unknown) {
+    const url = `https://fixturecast.test/api/predictions/sync${method === 'GET' ? '?matchId=1001' : ''}`;
+    const request = new Request(url, { method, headers: { 'X-Sync-Id': this.syncId }, body: body ? JSON.stringify(body) : undefined });
+    const response = await onRequest({ request, env: this.env });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async push(record: PredictionSyncRecord) {
+    return this.call('PUT', { record });
+  }
+
+  async sync(now: number) {
+    const cloud = await this.call('GET');
+    const result = reconcile(this.record, cloud.status === 200 ? cloud.body.record : null, { deviceId: this.id, now });
+    if (result.action === 'queued') this.queued = result.conflict;
+    if (result.record) this.record = result.record;
+    if (result.action === 'push' || result.action === 'resolved') expect((await this.push(result.record!)).status).toBe(200);
+    return result.action;
+  }
+}
+
+const issueSyncId = async (env: { PREDICTIONS_KV: MemoryKV }): Promise<string> => {
+  const response = await onRequest({ request: new Request('https://fixturecast.test/api/predictions/sync', { method: 'POST' }), env });
+  return (await response.json()).syncId;
+};
+
+// Two devices of one user, sharing a sync id
+const devices = async () => {
+  const env = { PREDICTIONS_KV: new MemoryKV() };
+  const syncId = await issueSyncId(env);
+  return { phone: new Device('phone', env, syncId), laptop: new Device('laptop', env, syncId), env };
+};
+
+describe('sync conflicts', () => {
+  it('orders version vectors', () => {
+    expect(compareVectors({ a: 2, b: 1 }, { a: 1, b: 1 })).toBe('after');
+    expect(compareVectors({ a: 1 }, { a: 1, b: 1 })).toBe('before');
+    expect(compareVectors({ a: 2 }, { a: 1, b: 1 })).toBe('concurrent');
+    expect(compareVectors({ a: 1, b: 0 }, { a: 1 })).toBe('equal');
+  });
+
+  it('keeps records per issued sync id and rejects unscoped requests', async () => {
+    const { phone, env } = await devices();
+    const stranger = new Device('stranger', env, await issueSyncId(env));
+    phone.predict('2-1', KICKOFF - 5 * HOUR);
+    expect(await phone.sync(KICKOFF - 5 * HOUR)).toBe('push');
+    expect(await stranger.sync(KICKOFF - 4 * HOUR)).toBe('none');
+    expect(stranger.record).toBeNull();
+
+    expect((await new Device('unscoped', env, '').push(phone.record!)).status).toBe(401);
+    expect((await new Device('forged', env, '00000000-0000-4000-8000-000000000000').push(phone.record!)).status).toBe(401);
+  });
+
+  it('pulls and pushes without conflicts when one device already has the other edits', async () => {
+    const { phone, laptop } = await devices();
+    phone.predict('2-1', KICKOFF - 5 * HOUR);
+    expect(await phone.sync(KICKOFF - 5 * HOUR)).toBe('push');
+    expect(await laptop.sync(KICKOFF - 4 * HOUR)).toBe('pull');
+
+    laptop.annotate({ note: 'Derby day' }, KICKOFF - 3 * HOUR);
+    expect(await laptop.sync(KICKOFF - 3 * HOUR)).toBe('push');
+    expect(await phone.sync(KICKOFF - 2 * HOUR)).toBe('pull');
+    expect(phone.record!.annotations).toEqual({ note: 'Derby day' });
+  });
+
+  it('merges annotations edited offline on two devices field by field', async () => {
+    const { phone, laptop } = await devices();
+    phone.predict('2-1', KICKOFF - 6 * HOUR);
+    await phone.sync(KICKOFF - 6 * HOUR);
+    await laptop.sync(KICKOFF - 6 * HOUR);
+
+    // Both offline
+    phone.annotate({ note: 'Phone note', starred: true }, KICKOFF - 5 * HOUR);
+    laptop.annotate({ note: 'Laptop note', tags: ['derby'] }, KICKOFF - 4 * HOUR);
+
+    expect(await phone.sync(KICKOFF - 3 * HOUR)).toBe('push');
+    expect(await laptop.sync(KICKOFF - 3 * HOUR)).toBe('resolved');
+    expect(laptop.record!.annotations).toEqual({ note: 'Laptop note', tags: ['derby'], starred: true });
+    expect(vectorOf(laptop.record!)).toEqual({ phone: 2, laptop: 2 });
+
+    expect(await phone.sync(KICKOFF - 2 * HOUR)).toBe('pull');
+    expect(phone.record!.annotations).toEqual(laptop.record!.annotations);
+    expect(await phone.sync(KICKOFF - HOUR)).toBe('none');
+  });
+
+  it('keeps the latest model output generated before kickoff', async () => {
+    const { phone, laptop } = await devices();
+    phone.predict('1-0', KICKOFF - 10 * HOUR);
+    await phone.sync(KICKOFF - 10 * HOUR);
+    await laptop.sync(KICKOFF - 10 * HOUR);
+
+    phone.predict('2-2', KICKOFF - 2 * HOUR);
+    laptop.predict('3-1', KICKOFF + HOUR); // regenerated after kickoff
+    laptop.annotate({ note: 'Late team news' }, KICKOFF + HOUR);
+
+    await phone.sync(KICKOFF - HOUR);
+    expect(await laptop.sync(KICKOFF + 2 * HOUR)).toBe('resolved');
+    expect(laptop.record!.prediction.predictedScoreline).toBe('2-2');
+    expect(laptop.record!.annotations?.note).toBe('Late team news');
+  });
+
+  it('queues conflicts no prediction before kickoff can settle and resolves them by choice', async () => {
+    const { phone, laptop } = await devices();
+    phone.predict('1-0', KICKOFF + HOUR);
+    await phone.sync(KICKOFF + HOUR);
+    laptop.predict('0-0', KICKOFF + 2 * HOUR);
+
+    expect(await laptop.sync(KICKOFF + 3 * HOUR)).toBe('queued');
+    expect(laptop.queued).toMatchObject({ matchId: '1001', resolution: 'manual', reason: 'Neither prediction was generated before kickoff' });
+    expect(laptop.record!.prediction.predictedScoreline).toBe('0-0');
+
+    // The cloud refuses a copy that has not seen the phone's edit
+    expect((await laptop.push(laptop.record!)).status).toBe(409);
+
+    const chosen = resolveConflict(laptop.queued!, 'cloud', 'laptop', KICKOFF + 4 * HOUR)!;
+    expect(chosen.prediction.predictedScoreline).toBe('1-0');
+    expect((await laptop.push(chosen)).status).toBe(200);
+    expect(resolveConflict(laptop.queued!, 'manual', 'laptop')).toBeNull();
+  });
+});
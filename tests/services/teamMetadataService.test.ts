@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { League, Match } from '../../types';
+
+// jsdom has no matchMedia; the colour service reads it on construction
+vi.hoisted(() => {
+  window.matchMedia = ((query: string) => ({ matches: false, media: query })) as unknown as typeof window.matchMedia;
+});
+
+import { TeamMetadataService, teamMetadataService } from '../../services/teamMetadataService';
+import { scoreMatch } from '../../services/matchScoringService';
+import { colorSystemService } from '../../services/colorSystemService';
+
+const match = (overrides: Partial<Match>): Match => ({
+  id: 'm1',
+  homeTeam: 'Arsenal',
+  awayTeam: 'Tottenham',
+  homeTeamId: 42,
+  awayTeamId: 47,
+  league: League.PremierLeague,
+  date: '2024-09-18T19:00:00Z', // Wednesday, no weekend bonus
+  ...overrides,
+});
+
+describe('teamMetadataService', () => {
+  let store: TeamMetadataService;
+
+  beforeEach(() => {
+    store = new TeamMetadataService(undefined, false);
+  });
+
+  it('resolves teams by API-Football id, name or alias', () => {
+    expect(store.getTeam(33)?.name).toBe('Manchester United');
+    expect(store.getTeam('Man Utd')?.id).toBe(33);
+    expect(store.getTeam('PSG')?.id).toBe(85);
+    // An id the store does not know falls back to the fixture's team name
+    expect(store.getTeam({ id: 999999, name: 'Inter Milan' })?.id).toBe(505);
+    expect(store.getPrestige('Unknown FC')).toBe(30);
+    expect(store.getRatings('Unknown FC')).toEqual({ attack: 65, defence: 65, form: 50 });
+  });
+
+  it('matches derby pairs in either order, including teams referenced by name', () => {
+    expect(store.areRivals(42, 47)).toBe(true);
+    expect(store.areRivals('Tottenham', 'Arsenal')).toBe(true);
+    expect(store.getRivalryIntensity('Arsenal', 'Tottenham')).toBe(85);
+    expect(store.getRivalryIntensity('Real Madrid', 'Barcelona')).toBe(70);
+    expect(store.getRivalryIntensity('Arsenal', 'Getafe')).toBe(25);
+    // Sunderland has no stored id, so the fixture name is used
+    expect(store.areRivals({ id: 34, name: 'Newcastle United' }, { id: 746, name: 'Sunderland' })).toBe(true);
+  });
+
+  it('merges admin overrides over the seeded data', () => {
+    store.setTeamOverride(42, { prestige: 99, ratings: { form: 90 } });
+    store.setLeagueOverride('Eredivisie', { multiplier: 0.9 });
+    store.addDerby({ teams: [42, 'Getafe'], intensity: 60 });
+
+    expect(store.getPrestige(42)).toBe(99);
+    expect(store.getRatings(42)).toEqual({ attack: 78, defence: 75, form: 90 });
+    expect(store.getLeagueMultiplier(League.Eredivisie)).toBe(0.9);
+    expect(store.getRivalryIntensity('Getafe', 'Arsenal')).toBe(60);
+
+    expect(() => store.setTeamOverride(123456, { prestige: 50 })).toThrow();
+    store.setTeamOverride(123456, { name: 'New Club', aliases: ['NC'], prestige: 50 });
+    expect(store.getPrestige('NC')).toBe(50);
+
+    store.resetOverrides();
+    expect(store.getPrestige(42)).toBe(90);
+    expect(store.areRivals('Arsenal', 'Getafe')).toBe(false);
+  });
+
+  it('feeds match scoring and team colours', () => {
+    // (90 + 85) * 1.3 + 50 rivalry bonus
+    expect(scoreMatch(match({}))).toBe(278);
+    expect(scoreMatch(match({ homeTeam: 'Man Utd', awayTeam: 'Man City', homeTeamId: 33, awayTeamId: 50 }))).toBe(297);
+
+    teamMetadataService.setTeamOverride(47, { prestige: 50 });
+    expect(scoreMatch(match({}))).toBe(232);
+    teamMetadataService.resetOverrides();
+
+    expect(colorSystemService.getTeamColors('Inter Milan').secondary).toBe(teamMetadataService.getColors(505)?.secondary);
+  });
+});
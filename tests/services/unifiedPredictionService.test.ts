@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConfidenceLevel, League, Match, Prediction } from '../../types';
+
+vi.mock('../../services/geminiService', () => ({
+  getGeminiMatchPrediction: vi.fn(),
+}));
+
+vi.mock('../../services/deepSeekService', () => ({
+  getDeepSeekApiUsage: vi.fn(() => ({ isConfigured: false })),
+  getDeepSeekMatchPrediction: vi.fn(),
+}));
+
+vi.mock('../../services/predictionCacheService', () => ({
+  predictionCacheService: {
+    getExistingPrediction: vi.fn(async () => null),
+    savePrediction: vi.fn(async () => undefined),
+  },
+}));
+
+import {
+  predictionProviderRegistry,
+  PredictionProvider,
+  buildEloPrediction,
+} from '../../services/predictionProviderRegistry';
+import { unifiedPredictionService } from '../../services/unifiedPredictionService';
+import { predictionCacheService } from '../../services/predictionCacheService';
+
+const match: Match = {
+  id: 'm-1',
+  homeTeam: 'Arsenal',
+  awayTeam: 'Chelsea',
+  homeTeamId: 42,
+  awayTeamId: 49,
+  league: League.PremierLeague,
+  date: '2025-01-15T15:00:00Z',
+};
+
+const makePrediction = (home: number, draw: number, away: number): Prediction => ({
+  homeWinProbability: home,
+  drawProbability: draw,
+  awayWinProbability: away,
+  predictedScoreline: '1-0',
+  confidence: ConfidenceLevel.Medium,
+  goalLine: { line: 2.5, overProbability: 50, underProbability: 50 },
+});
+
+const fakeProvider = (id: string, overrides: Partial<PredictionProvider> = {}): PredictionProvider => ({
+  id,
+  label: id,
+  description: id,
+  icon: '🧪',
+  capabilities: { markets: ['1X2'], requiresNetwork: true, usesContext: false, deterministic: true },
+  costPerPrediction: 0,
+  expectedLatencyMs: 1,
+  ensembleWeight: 1,
+  isConfigured: () => true,
+  predict: vi.fn(async () => makePrediction(50, 30, 20)),
+  ...overrides,
+});
+
+describe('unifiedPredictionService', () => {
+  beforeEach(() => {
+    predictionProviderRegistry.list().forEach(p => predictionProviderRegistry.unregister(p.id));
+    predictionProviderRegistry.setPolicy(null);
+    vi.mocked(predictionCacheService.savePrediction).mockClear();
+  });
+
+  it('falls back to the next provider when the primary fails', async () => {
+    const failing = fakeProvider('gemini', { predict: vi.fn(async () => { throw new Error('quota exceeded'); }) });
+    const backup = fakeProvider('backup', { capabilities: { markets: ['1X2'], requiresNetwork: false, usesContext: false, deterministic: true } });
+    predictionProviderRegistry.register(failing);
+    predictionProviderRegistry.register(backup);
+
+    const result = await unifiedPredictionService.getPrediction(match, undefined, 'auto');
+
+    expect(result.strategy).toBe('fallback');
+    expect(result.providers?.map(p => p.providerId)).toEqual(['gemini', 'backup']);
+    expect(result.providers?.[0].error).toMatch(/rate limit/);
+    expect(result.primary?.providerId).toBe('backup');
+    expect(unifiedPredictionService.getBestPrediction(result)?.homeWinProbability).toBe(50);
+    // Not cached, so the next request tries the primary provider again
+    expect(predictionCacheService.savePrediction).not.toHaveBeenCalled();
+  });
+
+  it('skips providers that are not configured when resolving a route', () => {
+    predictionProviderRegistry.register(fakeProvider('gemini'));
+    predictionProviderRegistry.register(fakeProvider('deepseek', { isConfigured: () => false }));
+
+    const route = predictionProviderRegistry.resolveRoute({
+      strategy: 'fallback', primary: 'deepseek', fallbacks: ['gemini'], ensemble: [],
+    });
+    expect(route.providers.map(p => p.id)).toEqual(['gemini']);
+  });
+
+  it('blends ensemble members into a weighted consensus', async () => {
+    predictionProviderRegistry.register(fakeProvider('gemini', { ensembleWeight: 3, predict: vi.fn(async () => makePrediction(60, 20, 20)) }));
+    predictionProviderRegistry.register(fakeProvider('elo', { ensembleWeight: 1, predict: vi.fn(async () => makePrediction(20, 40, 40)) }));
+
+    const result = await unifiedPredictionService.getPrediction(match, undefined, 'ensemble');
+
+    expect(result.strategy).toBe('ensemble');
+    expect(result.primary?.providerId).toBe('gemini');
+    expect(result.secondary?.providerId).toBe('elo');
+    expect(result.comparison?.differences.length).toBeGreaterThan(0);
+    expect(result.consensus?.weights).toEqual({ gemini: 0.75, elo: 0.25 });
+
+    const consensus = unifiedPredictionService.getBestPrediction(result)!;
+    expect(consensus.homeWinProbability).toBe(50);
+    expect(consensus.homeWinProbability + consensus.drawProbability + consensus.awayWinProbability).toBe(100);
+    expect(consensus.uncertaintyMetrics?.modelAgreement).toBeLessThan(100);
+    expect(predictionCacheService.savePrediction).toHaveBeenCalledWith(match, consensus);
+  });
+
+  it('produces a complete deterministic Elo baseline prediction', () => {
+    const first = buildEloPrediction(match);
+    expect(buildEloPrediction(match)).toEqual(first);
+    expect(first.homeWinProbability + first.drawProbability + first.awayWinProbability).toBe(100);
+    expect(first.homeWinProbability).toBeGreaterThan(first.awayWinProbability);
+    expect(first.goalLine.overProbability + first.goalLine.underProbability).toBe(100);
+  });
+});
@@ -157,6 +157,8 @@ const createMockAppContextValue = () => ({
   lastUpdated: { fixtures: Date.now() },
   accuracyRecords: [],
   accuracyStats: createAccuracyStats(),
+  // Settled match result picks hitting at the same 70% as accuracyStats
+  confidenceModel: { fittedAt: '2024-01-01T00:00:00.000Z', sampleSize: 100, groups: { '1X2': { n: 100, hits: 70 } } },
   liveMatches: [],
   liveMatchUpdates: {},
   teamCache: {},
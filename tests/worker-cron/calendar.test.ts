@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../../worker-cron/src/index';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+import { CALENDAR_TV_LISTINGS_KEY, calendarFollowsKey, calendarSequenceKey } from '../../worker-cron/src/calendar';
+import { Env } from '../../worker-cron/src/types';
+import { apiFixtureToMatch } from '../../services/fixtureMapping';
+import { buildCalendar, foldIcsLine, matchToFeedEvent, nextSequences } from '../../services/icalFeed';
+
+const NOW = Date.UTC(2025, 9, 18, 9, 0);
+
+const apiFixture = (id: number, date: string, status = 'NS', home = 'Arsenal', away = 'Chelsea') => ({
+  fixture: { id, date, venue: { name: 'Emirates Stadium' }, status: { short: status } },
+  league: { id: 39, name: 'Premier League' },
+  teams: { home: { id: 42, name: home }, away: { id: 49, name: away } },
+  goals: { home: null, away: null }
+});
+
+// Unfolded VEVENT properties by UID
+const events = (ics: string) => ics.replace(/\r\n /g, '').split('BEGIN:VEVENT').slice(1).map(block =>
+  Object.fromEntries(block.split('\r\n').filter(line => /^[A-Z-]+[:;]/.test(line)).map(line => {
+    const index = line.indexOf(':');
+    return [line.slice(0, index), line.slice(index + 1)];
+  }))
+);
+
+describe('iCalendar builder', () => {
+  it('keeps one UID per fixture and marks postponed fixtures cancelled', () => {
+    const match = apiFixtureToMatch(apiFixture(1001, '2025-10-25T14:00:00+00:00'))!;
+    const postponed = apiFixtureToMatch(apiFixture(1001, '2025-10-25T14:00:00+00:00', 'PST'))!;
+
+    const [scheduled] = events(buildCalendar({ name: 'Test', events: [matchToFeedEvent(match, { tv: ['Sky Sports'], prediction: { outcome: 'Home Win', score: '2-1', confidence: 68 } })] }, new Date(NOW)));
+    expect(scheduled).toMatchObject({
+      UID: 'fixture-1001@fixturecast.com',
+      SEQUENCE: '0',
+      DTSTART: '20251025T140000Z',
+      DTEND: '20251025T160000Z',
+      STATUS: 'CONFIRMED',
+      LOCATION: 'Emirates Stadium'
+    });
+    expect(scheduled.DESCRIPTION).toContain('📺 Sky Sports');
+    expect(scheduled.DESCRIPTION).toContain('🔮 Prediction: Home Win (2-1\\, 68% confidence)');
+
+    const [calledOff] = events(buildCalendar({ name: 'Test', events: [matchToFeedEvent(postponed, { sequence: 1 })] }, new Date(NOW)));
+    expect(calledOff).toMatchObject({ UID: scheduled.UID, SEQUENCE: '1', STATUS: 'CANCELLED' });
+    expect(calledOff.SUMMARY).toMatch(/^POSTPONED: /);
+  });
+
+  it('bumps SEQUENCE only when kickoff or cancellation changes', () => {
+    const original = apiFixtureToMatch(apiFixture(1001, '2025-10-25T14:00:00+00:00'))!;
+    const first = nextSequences({}, [original]);
+    expect(first).toMatchObject({ changed: true, sequences: { 1001: { sequence: 0 } } });
+
+    expect(nextSequences(first.sequences, [{ ...original, status: 'LIVE' }]).changed).toBe(false);
+
+    const moved = nextSequences(first.sequences, [{ ...original, date: '2025-10-26T16:30:00+00:00' }]);
+    expect(moved.sequences['1001']).toEqual({ kickoff: '2025-10-26T16:30:00.000Z', cancelled: false, sequence: 1 });
+    expect(nextSequences(moved.sequences, [{ ...original, date: '2025-10-26T16:30:00+00:00', status: 'CANC' }]).sequences['1001'].sequence).toBe(2);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'Brasileirão Série A · '.repeat(8)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(folded.replace(/\r\n /g, '')).toBe(`DESCRIPTION:${'Brasileirão Série A · '.repeat(8)}`);
+  });
+});
+
+describe('calendar feed routes', () => {
+  let kv: MemoryKV;
+  let env: Env;
+  let leagueFixtures: any[];
+  const requested: string[] = [];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    requested.length = 0;
+    leagueFixtures = [
+      apiFixture(1001, '2025-10-25T14:00:00+00:00'),
+      apiFixture(1002, '2025-10-26T16:30:00+00:00', 'NS', 'Everton', 'Fulham'),
+      apiFixture(900, '2025-08-01T14:00:00+00:00', 'FT')
+    ];
+    vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+      const url = new URL(input);
+      requested.push(`${url.pathname}${url.search}`);
+      return new Response(JSON.stringify({ response: url.searchParams.get('league') === '39' || url.searchParams.get('team') ? leagueFixtures : [] }));
+    }));
+    kv = new MemoryKV();
+    env = { PREDICTIONS_KV: kv, FOOTBALL_API_KEY: 'football', FIXTURECAST_DOMAIN: 'https://fixturecast.test' };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const feed = async (query: string) => {
+    const response = await worker.fetch(new Request(`https://worker.test/calendar/feed.ics?${query}`), env);
+    return { status: response.status, type: response.headers.get('Content-Type'), body: await response.text() };
+  };
+
+  it('serves a league feed and re-sends rescheduled fixtures with a higher SEQUENCE', async () => {
+    await kv.put(CALENDAR_TV_LISTINGS_KEY, JSON.stringify({ 1001: ['Sky Sports Main Event'] }));
+    const first = await feed('league=Premier%20League');
+
+    expect(first.type).toContain('text/calendar');
+    expect(requested).toEqual(['/fixtures?league=39&season=2025']);
+    const served = events(first.body);
+    // Results older than 30 days drop out of the feed
+    expect(served.map(event => event.UID)).toEqual(['fixture-1001@fixturecast.com', 'fixture-1002@fixturecast.com']);
+    expect(served[0]).toMatchObject({ SEQUENCE: '0', URL: 'https://fixturecast.test/match/1001' });
+    expect(served[0].DESCRIPTION).toContain('Sky Sports Main Event');
+
+    leagueFixtures[0] = apiFixture(1001, '2025-10-25T17:30:00+00:00');
+    const [rescheduled] = events((await feed('league=39')).body);
+    expect(rescheduled).toMatchObject({ UID: 'fixture-1001@fixturecast.com', SEQUENCE: '1', DTSTART: '20251025T173000Z' });
+    expect(await kv.get(calendarSequenceKey('1001'), 'json')).toMatchObject({ sequence: 1 });
+    expect(await kv.get(calendarSequenceKey('1002'), 'json')).toMatchObject({ sequence: 0 });
+  });
+
+  it('builds a followed-teams feed from one season query per followed team', async () => {
+    const registered = await worker.fetch(new Request('https://worker.test/calendar/follows', {
+      method: 'POST',
+      body: JSON.stringify({ id: 'device_1760000000000_abc123', teams: ['Everton'], leagues: [] })
+    }), env);
+    expect(await registered.json()).toMatchObject({ saved: true, teams: 1, leagues: 0 });
+    expect(await kv.get(calendarFollowsKey('device_1760000000000_abc123'), 'json')).toMatchObject({ teams: ['Everton'] });
+
+    const served = events((await feed('follows=device_1760000000000_abc123')).body);
+    expect(served.map(event => event.UID)).toEqual(['fixture-1002@fixturecast.com']);
+    expect(served[0].SUMMARY).toBe('⚽ Everton vs Fulham');
+    expect(requested).toEqual(['/fixtures?team=45&season=2025']);
+  });
+
+  it('looks up teams the app does not know once and remembers the id', async () => {
+    leagueFixtures = [apiFixture(1003, '2025-10-25T19:00:00+00:00', 'NS', 'Kilmarnock', 'Hibernian')];
+    vi.mocked(fetch).mockImplementation(async (input: any) => {
+      const url = new URL(input);
+      requested.push(`${url.pathname}${url.search}`);
+      const body = url.pathname === '/teams'
+        ? { response: [{ team: { id: 250, name: 'Kilmarnock' } }] }
+        : { response: url.searchParams.get('team') === '250' ? leagueFixtures : [] };
+      return new Response(JSON.stringify(body));
+    });
+    await worker.fetch(new Request('https://worker.test/calendar/follows', {
+      method: 'POST',
+      body: JSON.stringify({ id: 'device_1760000000000_def456', teams: ['Kilmarnock'], leagues: [] })
+    }), env);
+
+    const served = events((await feed('follows=device_1760000000000_def456')).body);
+    expect(served.map(event => event.UID)).toEqual(['fixture-1003@fixturecast.com']);
+    await feed('follows=device_1760000000000_def456');
+    expect(requested).toEqual(['/teams?search=Kilmarnock', '/fixtures?team=250&season=2025', '/fixtures?team=250&season=2025']);
+  });
+
+  it('rejects ambiguous, unknown and unregistered feeds', async () => {
+    expect(JSON.parse((await feed('team=42&league=39')).body).error.code).toBe('invalid-feed');
+    expect(await feed('league=Sunday%20League')).toMatchObject({ status: 404 });
+    expect(JSON.parse((await feed('follows=device_unknown_123')).body).error.code).toBe('unknown-follows');
+    expect(requested).toEqual([]);
+  });
+
+  it('adds stored predictions for the coming week when asked', async () => {
+    vi.setSystemTime(Date.UTC(2025, 9, 24, 9, 0));
+    await kv.put('daily:2025-10-25:predictions', JSON.stringify({
+      predictions: [{ matchId: 1001, prediction: { outcome: 'Home Win', predictedScore: '2-0', confidence: 71 } }]
+    }));
+    const [withPrediction] = events((await feed(`team=42&predictions=true`)).body);
+    expect(withPrediction.DESCRIPTION).toContain('🔮 Prediction: Home Win (2-0\\, 71% confidence)');
+    expect(requested).toEqual(['/fixtures?team=42&season=2025']);
+
+    const [withoutPrediction] = events((await feed('team=42')).body);
+    expect(withoutPrediction.DESCRIPTION).not.toContain('Prediction');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../../worker-cron/src/index';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+import { getLedgerChain, getLedgerProof, sealPendingLedgerDays } from '../../worker-cron/src/ledger';
+import { Env } from '../../worker-cron/src/types';
+import {
+  LEDGER_GENESIS_HASH,
+  appendLedgerLeaf,
+  merkleProof,
+  merkleRoot,
+  sha256Hex,
+  verifyMerkleProof,
+  verifyPredictionInclusion
+} from '../../services/predictionLedger';
+import { ledgerVerifier } from '../../services/ledgerVerifier';
+import { onRequest as storePrediction } from '../../functions/api/predictions/store.js';
+import { PredictionAccuracy } from '../../types';
+
+const prediction = { outcome: 'Home Win', predictedScore: '2-1', confidence: 64 };
+
+describe('prediction ledger', () => {
+  let ledger: MemoryKV;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2025, 9, 20, 12));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    ledger = new MemoryKV();
+    // Two days of predictions around an empty one
+    await appendLedgerLeaf(ledger, { matchId: 1001, kickoff: '2025-10-18T14:00:00Z', prediction, source: 'app' }, new Date(Date.UTC(2025, 9, 17, 9)));
+    await appendLedgerLeaf(ledger, { matchId: 1002, kickoff: '2025-10-18T16:30:00Z', prediction: { ...prediction, outcome: 'Draw' }, source: 'worker' }, new Date(Date.UTC(2025, 9, 17, 10)));
+    await appendLedgerLeaf(ledger, { matchId: 1003, kickoff: '2025-10-19T15:00:00Z', prediction, source: 'worker' }, new Date(Date.UTC(2025, 9, 17, 11)));
+    await appendLedgerLeaf(ledger, { matchId: 1004, kickoff: '2025-10-19T18:00:00Z', prediction, source: 'app' }, new Date(Date.UTC(2025, 9, 19, 8)));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('proves every leaf of odd and even sized trees', async () => {
+    for (let size = 1; size <= 7; size++) {
+      const hashes = await Promise.all(Array.from({ length: size }, (_, i) => sha256Hex(`leaf-${i}`)));
+      const root = await merkleRoot(hashes);
+      for (let i = 0; i < size; i++) {
+        expect(await verifyMerkleProof(hashes[i], await merkleProof(hashes, i), root)).toBe(true);
+      }
+      expect(await verifyMerkleProof(await sha256Hex('other'), await merkleProof(hashes, 0), root)).toBe(false);
+    }
+  });
+
+  it('seals finished days in order and chains them from genesis', async () => {
+    const sealed = await sealPendingLedgerDays(ledger);
+    expect(sealed.map(entry => [entry.date, entry.index, entry.leafCount])).toEqual([
+      ['2025-10-17', 0, 3],
+      ['2025-10-18', 1, 0],
+      ['2025-10-19', 2, 1]
+    ]);
+    expect(sealed[0].previousHash).toBe(LEDGER_GENESIS_HASH);
+    expect(sealed[2]).toMatchObject({ previousHash: sealed[1].entryHash, previousDate: '2025-10-18' });
+
+    // Nothing new until another day finishes; sealed days never change
+    expect(await sealPendingLedgerDays(ledger)).toEqual([]);
+    await appendLedgerLeaf(ledger, { matchId: 1005, kickoff: '2025-10-21T15:00:00Z', prediction, source: 'app' });
+    expect(await getLedgerChain(ledger, '2025-10-17')).toEqual([...sealed].reverse());
+  });
+
+  it('verifies included predictions and rejects edited, tampered or late ones', async () => {
+    await sealPendingLedgerDays(ledger);
+    const proof = (await getLedgerProof(ledger, '2025-10-17', '1001'))!;
+    const chain = await getLedgerChain(ledger, '2025-10-17');
+
+    const verified = await verifyPredictionInclusion({ matchId: '1001', prediction }, proof, chain);
+    expect(verified.status).toBe('verified');
+    expect(verified.checks).toEqual({ predictionMatches: true, inclusion: true, entryIntact: true, chainIntact: true, beforeKickoff: true });
+
+    expect((await verifyPredictionInclusion({ matchId: '1001', prediction: { ...prediction, predictedScore: '1-0' } }, proof, chain)).status).toBe('mismatch');
+
+    const rewrittenRoot = { ...proof, entry: { ...proof.entry, merkleRoot: LEDGER_GENESIS_HASH } };
+    expect((await verifyPredictionInclusion({ matchId: '1001', prediction }, rewrittenRoot, chain)).checks.inclusion).toBe(false);
+
+    const brokenChain = [{ ...chain[0], previousHash: LEDGER_GENESIS_HASH }, ...chain.slice(1)];
+    expect(await verifyPredictionInclusion({ matchId: '1001', prediction }, proof, brokenChain)).toMatchObject({ status: 'invalid', checks: { chainIntact: false } });
+
+    await appendLedgerLeaf(ledger, { matchId: 2001, kickoff: '2025-10-20T11:00:00Z', prediction, source: 'app' });
+    vi.setSystemTime(Date.UTC(2025, 9, 21, 12));
+    await sealPendingLedgerDays(ledger);
+    const late = await verifyPredictionInclusion({ matchId: 2001, prediction }, await getLedgerProof(ledger, '2025-10-20', '2001'));
+    expect(late).toMatchObject({ status: 'invalid', message: 'The prediction was recorded after kickoff', checks: { inclusion: true, beforeKickoff: false } });
+  });
+
+  it('only verifies the last prediction recorded for a match before kickoff', async () => {
+    const outcomes = ['Home Win', 'Draw', 'Away Win'].map(outcome => ({ ...prediction, outcome }));
+    for (const [hour, each] of outcomes.entries()) {
+      await appendLedgerLeaf(ledger, { matchId: 3001, kickoff: '2025-10-19T15:00:00Z', prediction: each, source: 'app' }, new Date(Date.UTC(2025, 9, 17, 12 + hour)));
+    }
+    await sealPendingLedgerDays(ledger);
+    const proof = (await getLedgerProof(ledger, '2025-10-17', '3001'))!;
+    const chain = await getLedgerChain(ledger, '2025-10-17');
+    expect(proof.proofs).toHaveLength(3);
+
+    expect((await verifyPredictionInclusion({ matchId: 3001, prediction: outcomes[2] }, proof, chain)).status).toBe('verified');
+    for (const replaced of outcomes.slice(0, 2)) {
+      expect(await verifyPredictionInclusion({ matchId: 3001, prediction: replaced }, proof, chain)).toMatchObject({
+        status: 'mismatch',
+        message: 'A different prediction for this match was recorded later, before kickoff; only the last one counts'
+      });
+    }
+  });
+
+  it('keeps the worker leaf canonical when an app leaf for the match is recorded later', async () => {
+    const junk = { ...prediction, outcome: 'Away Win' };
+    await appendLedgerLeaf(ledger, { matchId: 3002, kickoff: '2025-10-19T15:00:00Z', prediction, source: 'worker' }, new Date(Date.UTC(2025, 9, 17, 12)));
+    await appendLedgerLeaf(ledger, { matchId: 3002, kickoff: '2025-10-19T15:00:00Z', prediction: junk, source: 'app' }, new Date(Date.UTC(2025, 9, 17, 14)));
+    await sealPendingLedgerDays(ledger);
+    const proof = (await getLedgerProof(ledger, '2025-10-17', '3002'))!;
+    const chain = await getLedgerChain(ledger, '2025-10-17');
+
+    expect((await verifyPredictionInclusion({ matchId: 3002, prediction }, proof, chain)).status).toBe('verified');
+    expect((await verifyPredictionInclusion({ matchId: 3002, prediction: junk }, proof, chain)).status).toBe('mismatch');
+  });
+
+  it('only lets callers holding the prediction key add ledger leaves through the store endpoint', async () => {
+    const env = { PREDICTIONS_KV: new MemoryKV(), LEDGER_KV: ledger, PREDICTION_API_KEY: 'server-key' };
+    const store = (headers: Record<string, string>) => storePrediction({
+      env,
+      request: new Request('https://pages.test/api/predictions/store', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': 'server-key', ...headers },
+        body: JSON.stringify({ matchId: 3003, homeTeam: 'Arsenal', awayTeam: 'Chelsea', matchDate: '2025-10-21T15:00:00Z', prediction })
+      })
+    });
+
+    const anonymous = await (await store({})).json();
+    expect(anonymous.ledger).toBeNull();
+    const trusted = await (await store({ Authorization: 'Bearer server-key' })).json();
+    expect(trusted.ledger).toMatchObject({ date: '2025-10-20' });
+  });
+
+  it('serves proofs over HTTP that the client verifier checks end to end', async () => {
+    const env: Env = { PREDICTIONS_KV: new MemoryKV(), LEDGER_KV: ledger };
+    const draw = { ...prediction, outcome: 'Draw' };
+    await appendLedgerLeaf(ledger, { matchId: 1006, kickoff: '2025-10-19T20:00:00Z', prediction: draw, source: 'app' }, new Date(Date.UTC(2025, 9, 18, 9)));
+    await appendLedgerLeaf(ledger, { matchId: 1006, kickoff: '2025-10-19T20:00:00Z', prediction, source: 'app' }, new Date(Date.UTC(2025, 9, 19, 9)));
+    await sealPendingLedgerDays(ledger);
+    vi.stubGlobal('fetch', vi.fn((input: string) => {
+      const url = new URL(input);
+      return worker.fetch(new Request(`https://worker.test${url.pathname}${url.search}`), env);
+    }));
+
+    const record = {
+      id: '1003-1',
+      matchId: '1003',
+      prediction,
+      predictionTime: '2025-10-17T11:00:00.250Z'
+    } as unknown as PredictionAccuracy;
+    expect((await ledgerVerifier.verifyRecord(record)).status).toBe('verified');
+    expect(await ledgerVerifier.getHead()).toMatchObject({ date: '2025-10-19', index: 2 });
+
+    // A prediction replaced on a later day, still before kickoff, no longer verifies
+    const replaced = { ...record, id: '1006-1', matchId: '1006', prediction: draw, predictionTime: '2025-10-18T09:00:00.000Z' } as unknown as PredictionAccuracy;
+    expect(await ledgerVerifier.verifyRecord(replaced)).toMatchObject({
+      status: 'mismatch',
+      message: 'A different prediction for this match was recorded on 2025-10-19, before kickoff; only the last one counts'
+    });
+    expect(await ledgerVerifier.verifyChainSince('2025-10-17')).toBe(true);
+
+    const day = await worker.fetch(new Request('https://worker.test/ledger/day?date=2025-10-17'), env);
+    expect((await day.json()).leaves.map((leaf: any) => leaf.matchId)).toEqual(['1001', '1002', '1003']);
+
+    const errorCode = async (path: string, routeEnv: Env = env) =>
+      (await (await worker.fetch(new Request(`https://worker.test${path}`), routeEnv)).json()).error.code;
+    expect(await errorCode('/ledger/proof?date=2025-10-17')).toBe('invalid-param');
+    expect(await errorCode('/ledger/proof?date=2025-10-17&matchId=1004')).toBe('not-in-ledger');
+    expect(await errorCode('/ledger/proof?date=2025-10-20&matchId=1004')).toBe('not-sealed');
+    expect(await errorCode('/ledger/head', { PREDICTIONS_KV: env.PREDICTIONS_KV })).toBe('ledger-unavailable');
+  });
+});
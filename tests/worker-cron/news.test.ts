@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../../worker-cron/src/index';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+import { NEWS_CRON } from '../../worker-cron/src/cron';
+import { NEWS_ARTICLES_KEY, refreshNews } from '../../worker-cron/src/news';
+import { saveSubscription } from '../../worker-cron/src/push';
+import { PushSubscriptionRecord } from '../../services/pushSubscriptionModel';
+import { NEWS_FEEDS, NewsFeed } from '../../services/newsModel';
+import { Env } from '../../worker-cron/src/types';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const KEY = 'test-secret';
+
+const FEEDS: NewsFeed[] = [
+  { url: 'https://feeds.test/bbc.xml', source: 'BBC Sport' },
+  { url: 'https://feeds.test/sky.xml', source: 'Sky Sports' },
+  { url: 'https://feeds.test/down.xml', source: 'Goal.com' }
+];
+
+const item = (title: string, link: string, pubDate: string) =>
+  `<item><title>${title}</title><link>${link}</link><description>Latest</description><pubDate>${pubDate}</pubDate></item>`;
+
+let feeds: Record<string, string[]>;
+const fakeFeeds = vi.fn(async (input: string) => {
+  const items = feeds[input];
+  return items ? new Response(`<rss><channel>${items.join('')}</channel></rss>`) : new Response('gone', { status: 503 });
+});
+
+const follower = (id: string, team: string): PushSubscriptionRecord => ({
+  id,
+  transport: 'native',
+  token: `token-${id}`,
+  topics: ['news'],
+  followedTeams: [team],
+  followedLeagues: [],
+  followedOnly: true,
+  quietHours: { enabled: false, start: '23:00', end: '07:00' },
+  timezone: 'UTC',
+  createdAt: NOW.toISOString(),
+  updatedAt: NOW.toISOString()
+});
+
+let kv: MemoryKV;
+let env: Env;
+
+describe('news aggregation', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fakeFeeds);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    kv = new MemoryKV();
+    env = { PREDICTIONS_KV: kv, PREDICTION_API_KEY: KEY, VAPID_PUBLIC_KEY: 'public', VAPID_PRIVATE_KEY: 'private' };
+    feeds = {
+      'https://feeds.test/bbc.xml': [
+        item('Arsenal beat Chelsea in the Premier League', 'https://bbc.test/1', 'Sun, 19 Oct 2026 08:00:00 GMT'),
+        item('Weather delays cricket', 'https://bbc.test/2', 'Sun, 19 Oct 2026 08:00:00 GMT')
+      ],
+      'https://feeds.test/sky.xml': [
+        item('Arsenal beat Chelsea in Premier League', 'https://sky.test/1', 'Sun, 19 Oct 2026 09:00:00 GMT')
+      ]
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('stores a tagged, deduped baseline without announcing anything', async () => {
+    await saveSubscription(kv, follower('a', 'Arsenal'));
+    const summary = await refreshNews(env, FEEDS, NOW);
+
+    expect(summary).toMatchObject({ feeds: 3, failedFeeds: ['Goal.com'], fetched: 3, added: 1, stored: 1, alerts: 0, push: null });
+    const stored = await kv.get<{ articles: any[] }>(NEWS_ARTICLES_KEY, 'json');
+    expect(stored!.articles).toHaveLength(1);
+    expect(stored!.articles[0]).toMatchObject({ link: 'https://bbc.test/1', teams: ['Arsenal', 'Chelsea'], syndicatedBy: ['Sky Sports'] });
+  });
+
+  it('pushes new injury stories to followers of the team', async () => {
+    await saveSubscription(kv, follower('a', 'Arsenal'));
+    await saveSubscription(kv, follower('c', 'Chelsea'));
+    await refreshNews(env, FEEDS, NOW);
+
+    feeds['https://feeds.test/sky.xml'].push(
+      item('Arsenal sweat on Saka hamstring injury before Chelsea clash', 'https://sky.test/2', 'Sun, 19 Oct 2026 11:00:00 GMT'),
+      item('Arsenal old knee injury story resurfaces', 'https://sky.test/3', 'Mon, 13 Oct 2026 11:00:00 GMT')
+    );
+    const summary = await refreshNews(env, FEEDS, NOW);
+
+    expect(summary).toMatchObject({ added: 2, alerts: 1 });
+    // Only the Arsenal follower matches; native tokens are counted but not sent
+    expect(summary!.push).toMatchObject({ events: 1, subscribers: 1, nativeSkipped: 1 });
+  });
+
+  it('serves filtered pages at /news and refreshes on the news cron', async () => {
+    const call = async (path: string, init: RequestInit = {}) => {
+      const response = await worker.fetch(new Request(`https://worker.test${path}`, init), env);
+      return { status: response.status, body: await response.json() };
+    };
+
+    expect((await call('/news')).body).toMatchObject({ articles: [], total: 0, updatedAt: null });
+
+    // The cron reads the real feed list; serve one of them
+    feeds[NEWS_FEEDS[0].url] = feeds['https://feeds.test/bbc.xml'];
+    await worker.scheduled({ cron: NEWS_CRON }, env);
+    const page = await call('/news?team=chelsea&pageSize=5');
+    expect(page.status).toBe(200);
+    expect(page.body).toMatchObject({ total: 1, page: 1, pageSize: 5, hasMore: false });
+    expect(page.body.articles[0].title).toBe('Arsenal beat Chelsea in the Premier League');
+
+    expect((await call('/news?team=Liverpool')).body.total).toBe(0);
+    expect((await call('/news?alerts=maybe')).status).toBe(400);
+    expect((await call('/trigger-news', { method: 'POST' })).status).toBe(401);
+    expect((await call('/trigger-news', { method: 'POST', headers: { Authorization: `Bearer ${KEY}` } })).body).toMatchObject({ feeds: expect.any(Number) });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../../worker-cron/src/index';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+import { PUSH_LIVE_STATE_KEY, notifyScoreChanges, pushSubscriptionKey } from '../../worker-cron/src/push';
+import { base64UrlDecode, base64UrlEncode, deriveContentKeys, encryptPayload, vapidAuthorization } from '../../worker-cron/src/webPush';
+import { isInQuietHours, matchesSubscription, validateSubscription } from '../../services/pushSubscriptionModel';
+import { Env } from '../../worker-cron/src/types';
+
+const NOW = Date.UTC(2025, 9, 18, 15, 30);
+
+const generateKeys = async (name: 'ECDH' | 'ECDSA') =>
+  crypto.subtle.generateKey({ name, namedCurve: 'P-256' }, true, name === 'ECDH' ? ['deriveBits'] : ['sign', 'verify']) as Promise<CryptoKeyPair>;
+
+const rawPublic = async (keys: CryptoKeyPair) => new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+
+// A browser's side of a push subscription
+const makeBrowser = async () => {
+  const keys = await generateKeys('ECDH');
+  const auth = crypto.getRandomValues(new Uint8Array(16));
+  return { keys, auth, p256dh: base64UrlEncode(await rawPublic(keys)), authKey: base64UrlEncode(auth) };
+};
+
+// What the browser does with an aes128gcm body (RFC 8291)
+const decrypt = async (body: Uint8Array, browser: Awaited<ReturnType<typeof makeBrowser>>) => {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const serverPublic = body.slice(21, 21 + idLength);
+  const serverKey = await crypto.subtle.importKey('raw', serverPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const shared = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: serverKey }, browser.keys.privateKey, 256));
+  const { key, nonce } = await deriveContentKeys(shared, browser.auth, base64UrlDecode(browser.p256dh), serverPublic, salt);
+  const aes = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['decrypt']);
+  const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aes, body.slice(21 + idLength)));
+  expect(plain[plain.length - 1]).toBe(2);
+  return new TextDecoder().decode(plain.slice(0, -1));
+};
+
+const vapidKeys = async () => {
+  const keys = await generateKeys('ECDSA');
+  const jwk = await crypto.subtle.exportKey('jwk', keys.privateKey);
+  return { keys, publicKey: base64UrlEncode(await rawPublic(keys)), privateKey: jwk.d! };
+};
+
+const subscriptionBody = (browser: Awaited<ReturnType<typeof makeBrowser>>, overrides: Record<string, unknown> = {}) => ({
+  id: 'device_1760000000000_abc123',
+  endpoint: 'https://push.example.com/send/abc',
+  keys: { p256dh: browser.p256dh, auth: browser.authKey },
+  topics: ['goals', 'full-time', 'match-start', 'predictions'],
+  followedTeams: ['Arsenal'],
+  followedOnly: true,
+  timezone: 'Asia/Tokyo',
+  quietHours: { enabled: true, start: '23:00', end: '07:00' },
+  ...overrides
+});
+
+describe('web push encryption and VAPID', () => {
+  it('encrypts a payload the subscriber can decrypt', async () => {
+    const browser = await makeBrowser();
+    const body = await encryptPayload('{"title":"GOAL"}', { endpoint: 'https://push.example.com/x', keys: { p256dh: browser.p256dh, auth: browser.authKey } });
+
+    expect(new DataView(body.buffer, body.byteOffset).getUint32(16)).toBe(4096);
+    expect(body[20]).toBe(65);
+    expect(await decrypt(body, browser)).toBe('{"title":"GOAL"}');
+  });
+
+  it('signs a VAPID JWT for the push service origin', async () => {
+    const vapid = await vapidKeys();
+    const header = await vapidAuthorization('https://push.example.com/send/abc', { ...vapid, subject: 'mailto:ops@example.com' }, NOW);
+
+    const [, token, key] = /^vapid t=([^,]+), k=(.+)$/.exec(header)!;
+    expect(key).toBe(vapid.publicKey);
+    const [head, claims, signature] = token.split('.');
+    expect(JSON.parse(new TextDecoder().decode(base64UrlDecode(claims)))).toEqual({
+      aud: 'https://push.example.com', exp: NOW / 1000 + 12 * 3600, sub: 'mailto:ops@example.com'
+    });
+    const valid = await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, vapid.keys.publicKey, base64UrlDecode(signature), new TextEncoder().encode(`${head}.${claims}`));
+    expect(valid).toBe(true);
+  });
+});
+
+describe('push subscription model', () => {
+  it('evaluates quiet hours on the subscriber\'s own clock', () => {
+    const overnight = { enabled: true, start: '22:00', end: '08:00' };
+    // 15:30 UTC is 00:30 in Tokyo and 11:30 in New York
+    expect(isInQuietHours(overnight, 'Asia/Tokyo', new Date(NOW))).toBe(true);
+    expect(isInQuietHours(overnight, 'America/New_York', new Date(NOW))).toBe(false);
+    expect(isInQuietHours({ enabled: true, start: '15:00', end: '15:30' }, 'UTC', new Date(NOW))).toBe(false); // End is exclusive
+    expect(isInQuietHours({ ...overnight, enabled: false }, 'Asia/Tokyo', new Date(NOW))).toBe(false);
+  });
+
+  it('validates bodies and matches events by topic and follows', async () => {
+    const browser = await makeBrowser();
+    const record = validateSubscription(subscriptionBody(browser), new Date(NOW));
+    const goal = { topic: 'goals' as const, title: 'GOAL', body: '', teams: ['arsenal ', 'Chelsea'], league: 'Premier League' };
+
+    expect(matchesSubscription(record, goal)).toBe(true);
+    expect(matchesSubscription(record, { ...goal, teams: ['Everton', 'Fulham'] })).toBe(false);
+    expect(matchesSubscription(record, { ...goal, topic: 'lineup-posted' })).toBe(false);
+    expect(() => validateSubscription(subscriptionBody(browser, { timezone: 'Mars/Olympus' }))).toThrow(/timezone/);
+    expect(() => validateSubscription(subscriptionBody(browser, { topics: ['gossip'] }))).toThrow(/Unknown topics/);
+  });
+});
+
+describe('push routes and fan-out', () => {
+  let kv: MemoryKV;
+  let env: Env;
+  const pushService = vi.fn(async (_input: string, _init?: RequestInit) => new Response(null, { status: 201 }));
+
+  const live = (goals: [number, number], status = '1H') => ({
+    response: [{
+      fixture: { id: 7, date: '2025-10-18T15:00:00Z', status: { short: status } },
+      league: { id: 39, name: 'Premier League' },
+      teams: { home: { name: 'Arsenal' }, away: { name: 'Chelsea' } },
+      goals: { home: goals[0], away: goals[1] }
+    }]
+  });
+  let liveFeed = live([0, 0]);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pushService.mockClear();
+    liveFeed = live([0, 0]);
+    vi.stubGlobal('fetch', vi.fn(async (input: string, init?: RequestInit) => {
+      const url = new URL(input);
+      if (url.hostname === 'push.example.com') return pushService(input, init);
+      return new Response(JSON.stringify(url.searchParams.get('live') ? liveFeed : live([2, 1], 'FT')));
+    }));
+    kv = new MemoryKV();
+    const vapid = await vapidKeys();
+    env = { PREDICTIONS_KV: kv, FOOTBALL_API_KEY: 'football', VAPID_PUBLIC_KEY: vapid.publicKey, VAPID_PRIVATE_KEY: vapid.privateKey };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const post = async (path: string, body: unknown, overrides: Partial<Env> = {}) => {
+    const response = await worker.fetch(new Request(`https://worker.test${path}`, { method: 'POST', body: JSON.stringify(body) }), { ...env, ...overrides });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('registers, validates and removes subscriptions', async () => {
+    const browser = await makeBrowser();
+    const key = await worker.fetch(new Request('https://worker.test/push/vapid-public-key'), env);
+    expect((await key.json()).publicKey).toBe(env.VAPID_PUBLIC_KEY);
+
+    expect(await post('/push/subscribe', subscriptionBody(browser))).toMatchObject({ status: 200, body: { subscribed: true, transport: 'webpush' } });
+    expect(kv.keys()).toEqual([pushSubscriptionKey('device_1760000000000_abc123')]);
+
+    const invalid = await post('/push/subscribe', subscriptionBody(browser, { endpoint: 'http://insecure' }));
+    expect(invalid).toMatchObject({ status: 400, body: { error: { code: 'invalid-subscription', details: { field: 'endpoint' } } } });
+
+    expect((await post('/push/unsubscribe', { id: 'device_1760000000000_abc123' })).body).toEqual({ unsubscribed: true, id: 'device_1760000000000_abc123' });
+    expect(kv.keys()).toEqual([]);
+  });
+
+  it('pushes kick-offs, goals and results to awake followers and drops expired subscriptions', async () => {
+    const browser = await makeBrowser();
+    await post('/push/subscribe', subscriptionBody(browser, { timezone: 'Europe/London' }));
+    await post('/push/subscribe', subscriptionBody(browser, { id: 'device_sleeping_tokyo' }));
+
+    // First poll only records a baseline
+    expect(await notifyScoreChanges(env)).toBeNull();
+    expect(await kv.get(PUSH_LIVE_STATE_KEY, 'json')).toMatchObject({ 7: { goals: [0, 0] } });
+
+    liveFeed = live([1, 0]);
+    const goal = await notifyScoreChanges(env);
+    expect(goal).toMatchObject({ events: 1, subscribers: 2, delivered: 1, quietHoursSkipped: 1 });
+    const [endpoint, init] = pushService.mock.calls[0];
+    expect(endpoint).toBe('https://push.example.com/send/abc');
+    expect(init!.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm', Urgency: 'high', TTL: '900' });
+    expect(JSON.parse(await decrypt(init!.body as Uint8Array, browser))).toMatchObject({
+      title: '⚽ GOAL! Arsenal', body: 'Arsenal 1-0 Chelsea', data: { topic: 'goals', url: '/match/7' }
+    });
+
+    // The match leaves the live feed and is looked up as finished; the push service says the London device is gone
+    liveFeed = { response: [] };
+    pushService.mockResolvedValueOnce(new Response(null, { status: 410 }));
+    expect(await notifyScoreChanges(env)).toMatchObject({ events: 1, removed: 1, delivered: 0 });
+    expect(kv.keys()).toEqual([PUSH_LIVE_STATE_KEY, pushSubscriptionKey('device_sleeping_tokyo')]);
+  });
+
+  it('matches followed teams stored under app names against API team names', async () => {
+    const browser = await makeBrowser();
+    await post('/push/subscribe', subscriptionBody(browser, { followedTeams: ['Bayern Munich'], timezone: 'Europe/London' }));
+    const bayern = (goals: [number, number]) => ({
+      response: [{ ...live(goals).response[0], teams: { home: { name: 'Bayern München' }, away: { name: 'Bayer 04 Leverkusen' } } }]
+    });
+
+    liveFeed = bayern([0, 0]);
+    await notifyScoreChanges(env);
+    liveFeed = bayern([1, 0]);
+    expect(await notifyScoreChanges(env)).toMatchObject({ events: 1, delivered: 1 });
+    expect(JSON.parse(await decrypt(pushService.mock.calls[0][1]!.body as Uint8Array, browser))).toMatchObject({
+      title: '⚽ GOAL! Bayern Munich', body: 'Bayern Munich 1-0 Bayer Leverkusen'
+    });
+  });
+
+  it('stays idle without VAPID keys', async () => {
+    expect(await notifyScoreChanges({ ...env, VAPID_PRIVATE_KEY: undefined })).toBeNull();
+    const key = await worker.fetch(new Request('https://worker.test/push/vapid-public-key'), { ...env, VAPID_PUBLIC_KEY: undefined });
+    expect(key.status).toBe(503);
+  });
+});
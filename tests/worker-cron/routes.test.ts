@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import worker from '../../worker-cron/src/index';
+import { MemoryKV } from '../../worker-cron/src/memoryKV';
+import { resetCronState } from '../../worker-cron/src/cron';
+import { routes } from '../../worker-cron/src/routes';
+import { Env } from '../../worker-cron/src/types';
+
+const TODAY = '2024-09-15';
+const YESTERDAY = '2024-09-14';
+const KEY = 'test-secret';
+
+const fixture = (id: number, leagueId: number, home: string, away: string, goals: [number, number] | null = null) => ({
+  fixture: { id, date: `${TODAY}T15:00:00Z`, venue: { name: 'Ground' }, status: { short: goals ? 'FT' : 'NS' } },
+  league: { id: leagueId, name: leagueId === 39 ? 'Premier League' : 'Other League', country: 'England', season: 2024 },
+  teams: { home: { id: id * 10, name: home }, away: { id: id * 10 + 1, name: away } },
+  goals: { home: goals?.[0] ?? null, away: goals?.[1] ?? null },
+});
+
+const FIXTURES = [fixture(1, 39, 'Arsenal', 'Chelsea'), fixture(2, 39, 'Everton', 'Fulham'), fixture(3, 999, 'Foo', 'Bar')];
+const FINISHED = [fixture(1, 39, 'Arsenal', 'Chelsea', [2, 1]), fixture(2, 39, 'Everton', 'Fulham', [0, 0])];
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// API-Football and Gemini stand-in, routed on the request URL
+const fakeUpstream = vi.fn(async (input: string) => {
+  const url = new URL(input);
+  if (url.hostname === 'generativelanguage.googleapis.com') {
+    return jsonResponse({ candidates: [{ content: { parts: [{ text: 'Tight game' }] } }] });
+  }
+  if (url.pathname === '/fixtures/statistics') {
+    return jsonResponse({ response: [{ statistics: [{ type: 'Corner Kicks', value: 6 }] }, { statistics: [{ type: 'Corner Kicks', value: 5 }] }] });
+  }
+  if (url.searchParams.get('status') === 'FT') return jsonResponse({ response: FINISHED });
+  const league = url.searchParams.get('league');
+  return jsonResponse({ response: league ? FIXTURES.filter(f => f.league.id === Number(league)) : FIXTURES });
+});
+
+let kv: MemoryKV;
+let env: Env;
+
+const call = async (path: string, init: RequestInit & { auth?: boolean } = {}, overrides: Partial<Env> = {}) => {
+  const headers = new Headers(init.headers);
+  if (init.auth) headers.set('Authorization', `Bearer ${KEY}`);
+  const response = await worker.fetch(new Request(`https://worker.test${path}`, { ...init, headers }), { ...env, ...overrides });
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+};
+
+describe('cron worker routes', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(`${TODAY}T10:00:00Z`));
+    vi.stubGlobal('fetch', fakeUpstream);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fakeUpstream.mockClear();
+    kv = new MemoryKV();
+    env = { PREDICTIONS_KV: kv, FOOTBALL_API_KEY: 'football', GEMINI_API_KEY: 'gemini', PREDICTION_API_KEY: KEY };
+    resetCronState();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('handles CORS, the route index, unknown paths and wrong methods', async () => {
+    const preflight = await worker.fetch(new Request('https://worker.test/trigger-predictions', { method: 'OPTIONS' }), env);
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('Access-Control-Allow-Headers')).toContain('Authorization');
+
+    const index = await call('/');
+    expect(index.body.routes.map((r: any) => r.path)).toEqual(routes.map(r => r.path));
+
+    const missing = await call('/nope');
+    expect(missing.status).toBe(404);
+    expect(missing.body.error.code).toBe('not-found');
+
+    const wrongMethod = await call('/accuracy/today', { method: 'POST' });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('GET, OPTIONS');
+  });
+
+  it('requires the bearer key on every mutating route', async () => {
+    const mutating = routes.filter(r => r.auth && r.methods.includes('POST')).map(r => r.path);
+    expect(mutating).toEqual(['/trigger-predictions', '/clear-predictions', '/rebuild-daily', '/trigger-scores', '/backfill-accuracy', '/trigger-news']);
+
+    for (const path of mutating) {
+      const anonymous = await call(path, { method: 'POST' });
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.body).toEqual({ error: { code: 'unauthorized', message: expect.any(String) } });
+      expect((await call(path, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    }
+    expect((await call('/trigger-scores', { auth: true }, { PREDICTION_API_KEY: undefined })).body.error.code).toBe('auth-not-configured');
+    expect(fakeUpstream).not.toHaveBeenCalled();
+  });
+
+  it('requires the bearer key on read-only routes that spend API quota', async () => {
+    const quota = routes.filter(r => r.auth && !r.methods.includes('POST')).map(r => r.path);
+    expect(quota).toEqual(['/missing-predictions', '/fixtures-debug']);
+
+    for (const path of quota) {
+      const anonymous = await call(path);
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.body).toEqual({ error: { code: 'unauthorized', message: expect.any(String) } });
+    }
+    expect(fakeUpstream).not.toHaveBeenCalled();
+  });
+
+  it('validates query parameters with 400 envelopes', async () => {
+    const badDate = await call('/predictions/today?date=15-09-2024');
+    expect(badDate.status).toBe(400);
+    expect(badDate.body.error).toMatchObject({ code: 'invalid-date', details: { param: 'date', provided: '15-09-2024' } });
+
+    expect((await call('/accuracy/trend?days=abc')).body.error.code).toBe('invalid-integer');
+    expect((await call('/missing-predictions?featuredOnly=yes', { auth: true })).body.error.code).toBe('invalid-boolean');
+    expect((await call('/trigger-predictions?model=../x', { auth: true })).body.error.code).toBe('invalid-param');
+    expect((await call('/backfill-accuracy', { auth: true })).body.error.code).toBe('missing-params');
+    expect((await call(`/backfill-accuracy?start=${TODAY}&end=${YESTERDAY}`, { auth: true })).body.error.code).toBe('start-after-end');
+
+    const noKv = await call('/cron-history', {}, { PREDICTIONS_KV: undefined });
+    expect(noKv.status).toBe(500);
+    expect(noKv.body.error.code).toBe('kv-unavailable');
+  });
+
+  it('generates, skips, lists missing, rebuilds and clears predictions', async () => {
+    expect((await call('/predictions/today')).body).toMatchObject({ date: TODAY, predictions: [], stale: true });
+
+    const generated = await call('/trigger-predictions?wave=1', { method: 'POST', auth: true });
+    expect(generated.status).toBe(200);
+    expect(generated.body).toMatchObject({ processedPredictions: 1, featuredMatches: 2, remainingAfterWave: 1, model: 'gemini-2.5-flash' });
+    expect(await kv.get(`pred:1:gemini-2.5-flash:${TODAY}`)).not.toBeNull();
+
+    // Daily aggregate exists, so a plain re-run is skipped while resume fills the gap
+    expect((await call('/trigger-predictions', { auth: true })).body).toMatchObject({ skipped: true, reason: 'already-generated' });
+    expect((await call('/trigger-predictions?resume=true', { auth: true })).body.processedPredictions).toBe(1);
+
+    const today = await call('/predictions/today');
+    expect(today.body.predictions.map((p: any) => p.matchId).sort()).toEqual([1, 2]);
+
+    const missing = await call('/missing-predictions', { auth: true });
+    expect(missing.body).toMatchObject({ totalFixtures: 3, missingCount: 1, missing: [{ fixtureId: 3, home: 'Foo' }] });
+
+    await kv.delete(`daily:${TODAY}:predictions`);
+    const rebuilt = await call(`/rebuild-daily?date=${TODAY}`, { auth: true });
+    expect(rebuilt.body).toEqual({ rebuilt: true, date: TODAY, processed: 2, total: 3, featuredMatches: 2 });
+    expect((await call('/prediction-health')).body).toMatchObject({ status: 'completed', model: 'gemini-2.5-flash' });
+
+    await kv.put(`pred:9:gemini-2.5-flash:${YESTERDAY}`, '{}');
+    const unconfirmed = await call(`/clear-predictions?date=${TODAY}`, { auth: true });
+    expect(unconfirmed.body.error.code).toBe('confirmation-required');
+    const cleared = await call(`/clear-predictions?date=${TODAY}&confirm=true`, { method: 'POST', auth: true });
+    expect(cleared.body).toMatchObject({ success: true, date: TODAY });
+    expect(kv.keys()).toEqual([`pred:9:gemini-2.5-flash:${YESTERDAY}`]);
+  });
+
+  it('scores finished fixtures and serves accuracy, trend and backfill', async () => {
+    await kv.put(`pred:1:gemini-2.5-flash:${YESTERDAY}`, JSON.stringify({ numeric_predictions: { outcome: 'Home Win', predictedScore: '2-1', btts: 'Yes' } }));
+    await kv.put('prediction:2', JSON.stringify({ prediction: { predictedScore: '1-0', overUnder: 'Under 2.5' } }));
+
+    const scored = await call('/trigger-scores', { auth: true });
+    expect(scored.body).toMatchObject({ updatedMatches: 2, accuracyUpdates: 2 });
+
+    const accuracy = await call('/accuracy/today');
+    expect(accuracy.body.stats).toMatchObject({ date: YESTERDAY, processed: 2, correctOutcome: 1, correctScore: 1, goalLineAccuracyPct: 100 });
+
+    const trend = await call('/accuracy/trend?days=2');
+    expect(trend.body.trend.map((d: any) => [d.date, d.processed])).toEqual([['2024-09-13', 0], [YESTERDAY, 2]]);
+
+    const backfill = await call('/backfill-accuracy?days=2', { auth: true });
+    expect(backfill.body.summaries).toEqual([
+      { date: YESTERDAY, skipped: true, reason: 'exists' },
+      // Legacy prediction:<id> keys carry no date, so fixture 2 is scored again
+      { date: '2024-09-13', finished: 2, accuracyProcessed: 1, overallAccuracyPct: 0 },
+    ]);
+    // Today is never backfilled
+    expect((await call(`/backfill-accuracy?date=${TODAY}&force=true`, { auth: true })).body.processedDays).toBe(0);
+  });
+
+  it('reports environment, cron status, history and fixture diagnostics', async () => {
+    expect((await call('/test-env')).body).toEqual({ hasFootballKey: true, hasGeminiKey: true, hasPredictionKey: true });
+
+    await worker.scheduled({ cron: '15 * * * *' }, env);
+    const status = await call('/cron-status');
+    expect(status.body.lastCronExecution).toMatchObject({ status: 'completed', type: 'scores' });
+    expect(status.body.nextTriggers.scores).toBe(`${TODAY}T10:15:00.000Z`);
+
+    const history = await call('/cron-history');
+    expect(history.body).toMatchObject({ count: 1, history: [{ schedule: '15 * * * *', status: 'completed' }] });
+
+    const debug = await call('/fixtures-debug?league=39&details=true', { auth: true });
+    expect(debug.body).toMatchObject({ leagueFilter: 39, global: null, featuredAggregate: { total: 2 } });
+  });
+
+  it('MemoryKV expires keys and pages through list results', async () => {
+    const store = new MemoryKV({ 'a:1': { x: 1 }, 'a:2': 'two', 'b:1': 'other' });
+    await store.put('a:3', 'short-lived', { expirationTtl: 60 });
+    expect(await store.get('a:1', 'json')).toEqual({ x: 1 });
+
+    const first = await store.list({ prefix: 'a:', limit: 2 });
+    expect(first.keys.map(k => k.name)).toEqual(['a:1', 'a:2']);
+    const second = await store.list({ prefix: 'a:', cursor: first.cursor });
+    expect(second).toMatchObject({ list_complete: true, keys: [{ name: 'a:3' }] });
+
+    vi.setSystemTime(new Date(`${TODAY}T10:01:00Z`));
+    expect(await store.get('a:3')).toBeNull();
+    expect(store.keys()).toEqual(['a:1', 'a:2', 'b:1']);
+  });
+});
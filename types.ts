@@ -97,6 +97,8 @@ export interface Player {
   number?: number;
   injured?: boolean;
   rating?: number;
+  minutes?: number;      // League minutes this season
+  appearances?: number;
 }
 
 export interface Coach {
@@ -310,6 +312,17 @@ export interface UncertaintyMetrics {
   modelAgreement: number;        // Model consensus percentage (0-100)
 }
 
+// An absent player as weighed by services/absenceImpactModel.ts
+export interface KeyAbsence {
+  team: 'home' | 'away';
+  player: string;
+  position: string;
+  reason: string;
+  importance: 'critical' | 'important' | 'moderate';
+  impact: number;        // Model cost; ~0.5+ is a starter with a weak replacement
+  replacement?: string;  // Best available player in the same position
+}
+
 export interface Prediction {
   homeWinProbability: number;
   drawProbability: number;
@@ -330,6 +343,15 @@ export interface Prediction {
   uncertaintyMetrics?: UncertaintyMetrics;
   confidencePercentage?: number; // 0-100 based on historical accuracy
   confidenceReason?: string; // Explanation of confidence level
+  confidenceInterval?: { lower: number; upper: number }; // Likely range of confidencePercentage (0-100)
+  promptVersion?: string; // Prompt template that produced an LLM prediction, e.g. "gemini-match@v2"
+  keyAbsences?: KeyAbsence[]; // Costliest absences across both teams
+  // Present when stored probabilities were recalibrated; raw values are kept for refitting
+  recalibration?: {
+    method: 'platt' | 'isotonic';
+    fittedAt: string;
+    raw: { home: number; draw: number; away: number; bttsYes?: number; over?: number };
+  };
   prediction?: Prediction; // Self-reference for nested prediction data
 }
 
@@ -360,13 +382,24 @@ export interface Alert {
     read: boolean;
 }
 
+export type NewsSource = 'BBC Sport' | 'Sky Sports' | 'ESPN' | 'NBC Sports' | 'BeIN Sports' | 'Goal.com' | 'The False 9' | 'Football365' | 'talkSPORT' | 'GiveMeSport' | 'FourFourTwo' | 'TalkSport Football' | 'The Athletic' | 'ESPN FC' | 'Sky Sports Football' | 'BBC Sport Football' | 'Guardian Sport' | 'Independent Sport' | 'Telegraph Sport' | 'CNN Sports' | 'Transfermarkt' | '90min' | 'Football Italia' | 'Marca' | 'Sport.es' | 'Mundo Deportivo' | 'Football London';
+
+export interface NewsAlert {
+  kind: 'injury' | 'suspension';
+  teams: string[];        // Teams the story is about, from the headline where possible
+}
+
 export interface NewsArticle {
   id: string;
   title: string;
   link: string;
   snippet: string;
-  source: 'BBC Sport' | 'Sky Sports' | 'ESPN' | 'NBC Sports' | 'BeIN Sports' | 'Goal.com' | 'The False 9' | 'Football365' | 'talkSPORT' | 'GiveMeSport' | 'FourFourTwo' | 'TalkSport Football' | 'The Athletic' | 'ESPN FC' | 'Sky Sports Football' | 'BBC Sport Football' | 'Guardian Sport' | 'Independent Sport' | 'Telegraph Sport' | 'CNN Sports' | 'Transfermarkt' | '90min';
+  source: NewsSource;
   publishedDate: string; // ISO 8601
+  teams?: string[];      // TEAM_DATA names mentioned, by name or alias
+  leagues?: League[];
+  alert?: NewsAlert;     // Injury or suspension story
+  syndicatedBy?: NewsSource[]; // Other outlets that ran the same story
 }
 
 export interface LeagueTableRow {
@@ -406,14 +439,36 @@ export interface PastPrediction extends Match {
   predictedScoreline?: string;
 }
 
+// Per-team match statistics used for settling corner and card markets
+export interface FixtureStatistics {
+  homeCorners?: number;
+  awayCorners?: number;
+  homeYellowCards?: number;
+  awayYellowCards?: number;
+  homeRedCards?: number;
+  awayRedCards?: number;
+}
+
+// Everything known about a finished match; markets without data settle as void
+export interface SettlementResult {
+  homeScore: number;
+  awayScore: number;
+  homeScoreHT?: number;
+  awayScoreHT?: number;
+  homeCorners?: number;
+  awayCorners?: number;
+  firstScoringTeam?: 'home' | 'away' | 'none';
+  cards?: {
+    home: number;
+    away: number;
+  };
+}
+
 export interface PredictionAccuracy {
   id?: string;
   matchId: string;
   prediction: Prediction;
-  actualResult: {
-    homeScore: number;
-    awayScore: number;
-  };
+  actualResult: SettlementResult;
   accuracy: {
     outcome: boolean;        // Win/Draw/Loss prediction correct
     scoreline: boolean;      // Exact scoreline correct
@@ -425,6 +480,8 @@ export interface PredictionAccuracy {
     cleanSheet: boolean;    // Clean sheet prediction correct
     corners: boolean;       // Corner prediction correct
   };
+  // Markets that could not be settled (no prediction or no result data); they count neither way
+  voidMarkets?: AccuracyMarket[];
   // Calibration and diagnostics (optional)
   calibration?: {
     brierScore?: number;         // Multi-class Brier score for 1X2
@@ -438,6 +495,9 @@ export interface PredictionAccuracy {
   cloudVerified?: boolean;
   cloudPredictionId?: string;
   integrityHash?: string;
+  // Where the public ledger recorded this prediction (see services/predictionLedger.ts)
+  ledgerDate?: string;
+  ledgerLeafHash?: string;
   homeTeam?: string;
   awayTeam?: string;
   league?: League;
@@ -447,6 +507,8 @@ export interface PredictionAccuracy {
   cloudStored?: boolean;
 }
 
+export type AccuracyMarket = keyof PredictionAccuracy['accuracy'];
+
 export interface AccuracyStats {
   totalPredictions: number;
   correctOutcomes: number;
@@ -465,6 +527,14 @@ export interface AccuracyStats {
   };
   overallAccuracy: number;
   verifiedPredictions?: number;
+  // Records per market that settled as void; subtract from totalPredictions for hit rates
+  voidCounts?: Partial<Record<AccuracyMarket, number>>;
+  // Probability quality for the 1X2 market (lower is better)
+  calibration?: {
+    brierScore: number;
+    logLoss: number;
+    expectedCalibrationError: number;
+  };
 }
 
 export interface Toast {
@@ -1,12 +1,18 @@
 import { Match } from '../types';
+import { ChangeFrequency, ROUTES, RouteName, absoluteUrl, href } from '../services/routeTable';
+import type { PrerenderManifest } from '../services/prerenderService';
 
 interface SitemapUrl {
   loc: string;
   lastmod: string;
-  changefreq: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+  changefreq: ChangeFrequency;
   priority: number;
 }
 
+// Routes without params are listed as-is; match, team and league pages come from the fixtures
+const STATIC_ROUTES = (Object.keys(ROUTES) as RouteName[])
+  .filter(name => ROUTES[name].sitemap && !ROUTES[name].path.includes(':'));
+
 class SitemapGenerator {
   private baseUrl: string;
 
@@ -14,66 +20,47 @@ class SitemapGenerator {
     this.baseUrl = typeof window !== 'undefined' ? window.location.origin : 'https://www.yourdomain.com';
   }
 
+  private entry(name: RouteName, path: string, lastmod: string, origin: string = this.baseUrl): SitemapUrl {
+    const { changefreq, priority } = ROUTES[name].sitemap!;
+    return { loc: absoluteUrl(path, origin), lastmod, changefreq, priority };
+  }
+
   // Generate sitemap XML
   generateSitemap(matches: Match[]): string {
-    const urls: SitemapUrl[] = [
-      // Main pages
-      {
-        loc: `${this.baseUrl}/`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'daily',
-        priority: 1.0
-      },
-      {
-        loc: `${this.baseUrl}/#dashboard`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'daily',
-        priority: 0.9
-      },
-      {
-        loc: `${this.baseUrl}/#fixtures`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'hourly',
-        priority: 0.9
-      },
-      {
-        loc: `${this.baseUrl}/#news`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'daily',
-        priority: 0.8
-      },
-      {
-        loc: `${this.baseUrl}/#my-teams`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'weekly',
-        priority: 0.7
-      }
-    ];
+    const now = new Date().toISOString();
+    const urls: SitemapUrl[] = STATIC_ROUTES.map(name => this.entry(name, ROUTES[name].path, now));
 
     // Add match pages
     matches.forEach(match => {
-      urls.push({
-        loc: `${this.baseUrl}/#match/${match.id}`,
-        lastmod: new Date(match.date).toISOString(),
-        changefreq: 'daily',
-        priority: 0.8
-      });
+      urls.push(this.entry('match', href('match', { matchId: match.id }), new Date(match.date).toISOString()));
     });
 
-    // Add team pages (unique teams from matches)
+    // Add team and league pages (unique names from matches)
     const uniqueTeams = new Set<string>();
+    const uniqueLeagues = new Set<string>();
     matches.forEach(match => {
       uniqueTeams.add(match.homeTeam);
       uniqueTeams.add(match.awayTeam);
+      uniqueLeagues.add(match.league);
     });
 
     uniqueTeams.forEach(team => {
-      urls.push({
-        loc: `${this.baseUrl}/#team/${team.toLowerCase().replace(/\s+/g, '-')}`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'weekly',
-        priority: 0.7
-      });
+      urls.push(this.entry('team', href('team', { team }), now));
+    });
+    uniqueLeagues.forEach(league => {
+      urls.push(this.entry('league', href('league', { league }), now));
+    });
+
+    return this.generateXML(urls);
+  }
+
+  // Generate sitemap XML for the pages the prerender step wrote, with each page's last content change
+  generateSitemapFromManifest(manifest: PrerenderManifest): string {
+    const urls: SitemapUrl[] = STATIC_ROUTES.map(name =>
+      this.entry(name, ROUTES[name].path, manifest.generatedAt, manifest.origin));
+
+    manifest.pages.forEach(page => {
+      if (ROUTES[page.route]?.sitemap) urls.push(this.entry(page.route, page.path, page.lastmod, manifest.origin));
     });
 
     return this.generateXML(urls);
@@ -117,11 +104,7 @@ Disallow: /*.json$
 Disallow: /*.xml$
 
 # Allow important pages
-Allow: /
-Allow: /fixtures
-Allow: /teams
-Allow: /news
-Allow: /matches`;
+${STATIC_ROUTES.map(name => `Allow: ${ROUTES[name].path}`).join('\n')}`;
   }
 
   // Update sitemap in the DOM
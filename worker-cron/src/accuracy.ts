@@ -0,0 +1,291 @@
+import { apiFootballJson, fetchFinishedMatches } from './football';
+import { notifyScoreChanges } from './push';
+import { daysAgoIso } from './validation';
+import {
+  AccuracyStats,
+  Env,
+  ExecutionContextLike,
+  FinishedMatch,
+  FixtureAccuracyRecord,
+  KVNamespaceLike,
+  LeagueAccuracy,
+  StoredPrediction
+} from './types';
+
+/**
+ * Accuracy scoring of stored predictions against finished fixtures.
+ * Keys:
+ *  - accuracy:<date>:fixture:<fixtureId>
+ *  - accuracy:<date>:aggregate
+ */
+
+export const accuracyAggregateKey = (date: string) => `accuracy:${date}:aggregate`;
+
+/**
+ * Trigger score updates for accuracy tracking
+ */
+export async function triggerScoreUpdate(env: Env, ctx?: ExecutionContextLike) {
+  console.log('📊 Triggering score update...');
+
+  try {
+    // Get yesterday's finished matches to update accuracy
+    const dateStr = daysAgoIso(1);
+    const finishedMatches = await fetchFinishedMatches(dateStr, env, ctx);
+    console.log(`✅ Found ${finishedMatches.length} finished matches for accuracy tracking`);
+
+    // Enrich with corner statistics (total corners) – optional best-effort
+    if (finishedMatches.length) {
+      await enrichWithCorners(finishedMatches, env, ctx);
+    }
+
+    // If KV present, compute accuracy vs stored predictions (legacy or structured)
+    let accuracySummary = null;
+    if (env.PREDICTIONS_KV && finishedMatches.length) {
+      accuracySummary = await computeAndPersistAccuracy(env.PREDICTIONS_KV, finishedMatches, dateStr);
+    }
+
+    // Kick-off, goal and full-time pushes; never fails the score run
+    const push = await notifyScoreChanges(env, ctx).catch(error => {
+      console.warn('⚠️ Score push fan-out failed:', error.message);
+      return null;
+    });
+
+    return {
+      message: `Processed ${finishedMatches.length} finished matches`,
+      updatedMatches: finishedMatches.length,
+      accuracyUpdates: accuracySummary ? accuracySummary.processed : 0,
+      accuracy: accuracySummary || null,
+      ...(push ? { push } : {})
+    };
+
+  } catch (error) {
+    console.error('❌ Score update failed:', error);
+    throw error;
+  }
+}
+
+async function enrichWithCorners(finishedMatches: FinishedMatch[], env: Env, ctx?: ExecutionContextLike) {
+  const MAX_CONCURRENT = 6;
+  for (let i = 0; i < finishedMatches.length; i += MAX_CONCURRENT) {
+    const batch = finishedMatches.slice(i, i + MAX_CONCURRENT);
+    await Promise.all(batch.map(async m => {
+      try {
+        const statsJson = await apiFootballJson(`/fixtures/statistics?fixture=${m.fixtureId}`, env, ctx);
+        // statsJson.response is array [home, away]; each has statistics array with type 'Corner Kicks'
+        const entries = statsJson.response || [];
+        let totalCorners = 0;
+        for (const side of entries) {
+          const stat = (side.statistics || []).find((s: any) => /corner/i.test(s.type));
+          if (stat && typeof stat.value === 'number') totalCorners += stat.value;
+        }
+        if (totalCorners > 0) m.totalCorners = totalCorners;
+      } catch {}
+    }));
+  }
+  const withCorners = finishedMatches.filter(m => m.totalCorners !== undefined).length;
+  console.log(`🧩 Corner stats enrichment complete (${withCorners}/${finishedMatches.length} with totals)`);
+}
+
+const SCORE_PATTERN = /^(\d+)[-:](\d+)$/;
+
+const parseScore = (score: string): [number, number] => {
+  const [home, away] = score.split(/[-:]/).map(n => parseInt(n, 10));
+  return [home, away];
+};
+
+export function inferOutcomeFromPrediction(p: StoredPrediction | null | undefined): 'HOME' | 'AWAY' | 'DRAW' {
+  if (!p) return 'DRAW';
+  // If explicit outcome
+  if (p.outcome) {
+    const o = p.outcome.toUpperCase();
+    if (o.includes('HOME')) return 'HOME';
+    if (o.includes('AWAY')) return 'AWAY';
+    if (o.includes('DRAW')) return 'DRAW';
+  }
+  // Try predictedScore
+  if (p.predictedScore && SCORE_PATTERN.test(p.predictedScore)) {
+    const [hs, as] = parseScore(p.predictedScore);
+    if (hs > as) return 'HOME';
+    if (hs < as) return 'AWAY';
+    return 'DRAW';
+  }
+  return 'DRAW';
+}
+
+// Weighted accuracy similar to update-results logic (3 outcome, 5 score, 2 BTTS => %)
+export function calculateWeightedAccuracy(outcomeCorrect: boolean, scoreCorrect: boolean, bttsCorrect: boolean | null): number {
+  let points = 0; let total = 0;
+  total += 3; if (outcomeCorrect) points += 3;
+  total += 5; if (scoreCorrect) points += 5;
+  if (bttsCorrect !== null) { total += 2; if (bttsCorrect) points += 2; }
+  return total ? (points / total) * 100 : 0;
+}
+
+async function readStoredPrediction(kv: KVNamespaceLike, fixtureId: number, dateStr: string): Promise<StoredPrediction | null> {
+  // Structured first: one model version per day (gemini-2.5-flash + dateStr as dataVersion)
+  const structured = await kv.get<{ numeric_predictions?: StoredPrediction; prediction?: StoredPrediction }>(
+    `pred:${fixtureId}:gemini-2.5-flash:${dateStr}`, 'json'
+  );
+  if (structured) return structured.numeric_predictions || structured.prediction || {};
+  // fallback to legacy
+  const legacy = await kv.get<{ prediction?: StoredPrediction }>(`prediction:${fixtureId}`, 'json');
+  return legacy?.prediction || null;
+}
+
+// Yes/No from the worker's prompts, a boolean, or the app's BTTS probabilities
+function bttsPrediction(p: StoredPrediction): boolean | undefined {
+  if (typeof p.btts === 'string') return /yes/i.test(p.btts);
+  if (p.btts && typeof p.btts === 'object') return p.btts.yesProbability >= p.btts.noProbability;
+  return typeof p.btts === 'boolean' ? p.btts : undefined;
+}
+
+function goalLineResult(p: StoredPrediction, totalGoals: number): boolean | null {
+  if (p.overUnder && typeof p.overUnder === 'string') {
+    if (/over/i.test(p.overUnder)) return totalGoals > 2.5;
+    if (/under/i.test(p.overUnder)) return totalGoals <= 2.5;
+  } else if (p.goalLine && typeof p.goalLine === 'object') {
+    const line = typeof p.goalLine.line === 'number' ? p.goalLine.line : 2.5;
+    const picked = (p.goalLine.overProbability ?? 0) >= (p.goalLine.underProbability ?? 0) ? 'OVER' : 'UNDER';
+    return picked === 'OVER' ? totalGoals > line : totalGoals <= line;
+  }
+  return null;
+}
+
+// A predicted 0 for either side implies a clean sheet; otherwise use clean sheet probabilities above 50%
+function cleanSheetResult(p: StoredPrediction, m: FinishedMatch): boolean | null {
+  if (p.predictedScore && SCORE_PATTERN.test(p.predictedScore)) {
+    const [ph, pa] = parseScore(p.predictedScore);
+    if (pa === 0 || ph === 0) {
+      const homeCs = pa === 0 && m.awayScore === 0; // predicted away 0 => home clean sheet
+      const awayCs = ph === 0 && m.homeScore === 0; // predicted home 0 => away clean sheet
+      return homeCs || awayCs;
+    }
+    return false; // predicted no clean sheet scenario
+  }
+  if (p.cleanSheet && typeof p.cleanSheet === 'object') {
+    const homeProb = p.cleanSheet.homeTeam ?? 0;
+    const awayProb = p.cleanSheet.awayTeam ?? 0;
+    if (homeProb > 50 || awayProb > 50) {
+      return homeProb >= awayProb ? m.awayScore === 0 : m.homeScore === 0;
+    }
+  }
+  return null;
+}
+
+// Corners use the standard 9.5 line, so 10 or more is over
+function cornersResult(p: StoredPrediction, m: FinishedMatch): boolean | null {
+  if (m.totalCorners === undefined || !p.corners || typeof p.corners !== 'object') return null;
+  const overProb = p.corners.overProbability ?? p.corners.over ?? null;
+  const underProb = p.corners.underProbability ?? p.corners.under ?? null;
+  if (overProb === null || underProb === null) return null;
+  const isOver = m.totalCorners > 9;
+  return overProb >= underProb ? isOver : !isOver;
+}
+
+/**
+ * Compute accuracy for a list of finished matches and persist per-fixture + aggregate keys
+ */
+export async function computeAndPersistAccuracy(kv: KVNamespaceLike, finishedMatches: FinishedMatch[], dateStr: string) {
+  const perFixture: FixtureAccuracyRecord[] = [];
+  let correctOutcome = 0;
+  let correctScore = 0;
+  let correctBtts = 0;
+  let correctCorners = 0;
+  let applicableCorners = 0;
+  const leagueMap = new Map<number | 'unknown', Omit<LeagueAccuracy, 'outcomeAccuracyPct' | 'exactScoreAccuracyPct' | 'bttsAccuracyPct' | 'overallAccuracyPct'>>();
+
+  for (const m of finishedMatches) {
+    const p = await readStoredPrediction(kv, m.fixtureId, dateStr);
+    if (!p) continue;
+
+    const outcomePick = inferOutcomeFromPrediction(p);
+    const actualOutcome = m.homeScore > m.awayScore ? 'HOME' : m.homeScore < m.awayScore ? 'AWAY' : 'DRAW';
+    const outcomeCorrect = outcomePick === actualOutcome;
+    const predictedScore = p.predictedScore || p.score || '';
+    let scoreCorrect = false;
+    if (predictedScore && SCORE_PATTERN.test(predictedScore)) {
+      const [ph, pa] = parseScore(predictedScore);
+      scoreCorrect = ph === m.homeScore && pa === m.awayScore;
+    }
+    const bttsPick = bttsPrediction(p);
+    const bttsActual = m.homeScore > 0 && m.awayScore > 0;
+    const bttsCorrect = bttsPick === undefined ? null : !!bttsPick === bttsActual;
+    const goalLineCorrect = goalLineResult(p, m.homeScore + m.awayScore);
+    const cleanSheetCorrect = cleanSheetResult(p, m);
+    const cornersCorrect = cornersResult(p, m);
+
+    if (outcomeCorrect) correctOutcome++;
+    if (scoreCorrect) correctScore++;
+    if (bttsCorrect) correctBtts++;
+    if (cornersCorrect !== null) { applicableCorners++; if (cornersCorrect) correctCorners++; }
+
+    const lid = m.leagueId || 'unknown';
+    if (!leagueMap.has(lid)) {
+      leagueMap.set(lid, { leagueId: lid, league: m.league || 'Unknown', processed: 0, correctOutcome: 0, correctScore: 0, correctBtts: 0 });
+    }
+    const bucket = leagueMap.get(lid)!;
+    bucket.processed += 1;
+    if (outcomeCorrect) bucket.correctOutcome += 1;
+    if (scoreCorrect) bucket.correctScore += 1;
+    if (bttsCorrect) bucket.correctBtts += 1;
+
+    const record: FixtureAccuracyRecord = {
+      fixtureId: m.fixtureId,
+      date: dateStr,
+      leagueId: m.leagueId,
+      league: m.league,
+      homeTeam: m.homeTeam,
+      awayTeam: m.awayTeam,
+      homeScore: m.homeScore,
+      awayScore: m.awayScore,
+      prediction: p,
+      outcomeCorrect,
+      scoreCorrect,
+      bttsCorrect,
+      cornersCorrect,
+      goalLineCorrect,
+      cleanSheetCorrect,
+      accuracy: calculateWeightedAccuracy(outcomeCorrect, scoreCorrect, bttsCorrect),
+      computedAt: new Date().toISOString()
+    };
+    perFixture.push(record);
+    await kv.put(`accuracy:${dateStr}:fixture:${m.fixtureId}`, JSON.stringify(record));
+  }
+
+  const total = perFixture.length;
+  const pct = (correct: number, applicable: number) => applicable ? (correct / applicable) * 100 : 0;
+  const bttsApplicable = perFixture.filter(r => r.bttsCorrect !== null).length;
+  const goalLineApplicable = perFixture.filter(r => r.goalLineCorrect !== null);
+  const goalLineCorrectCount = goalLineApplicable.filter(r => r.goalLineCorrect === true).length;
+  const cleanSheetApplicable = perFixture.filter(r => r.cleanSheetCorrect !== null);
+  const cleanSheetCorrectCount = cleanSheetApplicable.filter(r => r.cleanSheetCorrect === true).length;
+  const leagueBreakdown: LeagueAccuracy[] = Array.from(leagueMap.values()).map(l => ({
+    ...l,
+    outcomeAccuracyPct: pct(l.correctOutcome, l.processed),
+    exactScoreAccuracyPct: pct(l.correctScore, l.processed),
+    bttsAccuracyPct: pct(l.correctBtts, l.processed),
+    overallAccuracyPct: l.processed ? ((l.correctOutcome * 3 + l.correctScore * 5 + l.correctBtts * 2) / (l.processed * 10)) * 100 : 0
+  })).sort((a, b) => b.overallAccuracyPct - a.overallAccuracyPct);
+
+  const aggregate: AccuracyStats = {
+    date: dateStr,
+    processed: total,
+    correctOutcome,
+    correctScore,
+    correctBtts,
+    correctCorners,
+    correctGoalLine: goalLineCorrectCount,
+    correctCleanSheet: cleanSheetCorrectCount,
+    outcomeAccuracyPct: pct(correctOutcome, total),
+    exactScoreAccuracyPct: pct(correctScore, total),
+    bttsAccuracyPct: pct(correctBtts, bttsApplicable),
+    cornersAccuracyPct: pct(correctCorners, applicableCorners),
+    goalLineAccuracyPct: pct(goalLineCorrectCount, goalLineApplicable.length),
+    cleanSheetAccuracyPct: pct(cleanSheetCorrectCount, cleanSheetApplicable.length),
+    overallAccuracyPct: total ? perFixture.reduce((s, r) => s + r.accuracy, 0) / total : 0,
+    processedAt: new Date().toISOString(),
+    leagueBreakdown: leagueBreakdown.slice(0, 50)
+  };
+  await kv.put(accuracyAggregateKey(dateStr), JSON.stringify({ stats: aggregate, fixtures: perFixture.slice(0, 50) }));
+  return { ...aggregate, fixturesStored: perFixture.length };
+}
@@ -0,0 +1,304 @@
+import { League, Match } from '../../types';
+import { LEAGUE_IDS, apiFixtureToMatch, getLeagueById, seasonForDate } from '../../services/fixtureMapping';
+import { getTeamApiId, resolveTeamName } from '../../services/teamDataService';
+import {
+  CalendarPredictionSummary,
+  FixtureSequence,
+  buildCalendar,
+  matchToFeedEvent,
+  nextSequences
+} from '../../services/icalFeed';
+import { absoluteUrl, href } from '../../services/routeTable';
+import { apiFootballJson } from './football';
+import { HttpError } from './http';
+import { dailyPredictionsKey } from './predictions';
+import { DailyAggregate, Env, ExecutionContextLike, KVNamespaceLike } from './types';
+
+/**
+ * webcal:// fixture feeds per team, per league and per device's followed set.
+ *
+ * Fixtures come from the same API-Football queries and fixture-to-Match
+ * transform the app uses; a follows feed queries each followed team's and
+ * league's season. SEQUENCE state lives in one KV key per fixture
+ * (calendar:sequence:<id>) so a rescheduled fixture is re-sent as an update
+ * of the event calendars already hold, and feeds built at the same time
+ * cannot overwrite each other's bumps.
+ *
+ * TV details are read from calendar:tv-listings, a { "<fixture id>": ["Sky Sports", ...] }
+ * map maintained outside the worker; API-Football carries no broadcaster data.
+ */
+
+export const CALENDAR_SEQUENCE_PREFIX = 'calendar:sequence:';
+export const CALENDAR_TV_LISTINGS_KEY = 'calendar:tv-listings';
+export const CALENDAR_FOLLOWS_PREFIX = 'calendar:follows:';
+export const CALENDAR_TEAM_ID_PREFIX = 'calendar:team-id:';
+
+export const calendarFollowsKey = (id: string) => `${CALENDAR_FOLLOWS_PREFIX}${id}`;
+export const calendarSequenceKey = (fixtureId: string) => `${CALENDAR_SEQUENCE_PREFIX}${fixtureId}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Devices that stop syncing follows age out like push subscriptions
+const FOLLOWS_TTL_SECONDS = 180 * 24 * 60 * 60;
+const PAST_DAYS = 30;
+// Sequence state outlives the feed window so a late reschedule still bumps
+const SEQUENCE_RETENTION_DAYS = 60;
+// Team ids found by search are stable; a miss is retried the next day
+const TEAM_ID_TTL_SECONDS = 90 * 24 * 60 * 60;
+const TEAM_ID_MISS_TTL_SECONDS = 24 * 60 * 60;
+const PREDICTION_DAYS_AHEAD = 7;
+const MAX_FOLLOWED = 200;
+const FETCH_CONCURRENCY = 5;
+
+export interface CalendarFollows {
+  id: string;
+  teams: string[];
+  leagues: string[];
+  updatedAt: string;
+}
+
+export type CalendarFeedTarget =
+  | { kind: 'team'; teamId: number }
+  | { kind: 'league'; league: League; leagueId: number }
+  | { kind: 'follows'; follows: CalendarFollows };
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const nameList = (value: unknown, field: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new HttpError(400, 'invalid-follows', `${field} must be an array of strings`, { field });
+  }
+  if (value.length > MAX_FOLLOWED) throw new HttpError(400, 'invalid-follows', `${field} holds at most ${MAX_FOLLOWED} entries`, { field });
+  return Array.from(new Set(value.map(item => item.trim().slice(0, 100)).filter(Boolean)));
+};
+
+/**
+ * Validates an untrusted POST /calendar/follows body
+ */
+export const validateFollows = (input: any, now: Date = new Date()): CalendarFollows => {
+  if (!input || typeof input !== 'object') throw new HttpError(400, 'invalid-follows', 'Body must be a JSON object', { field: 'body' });
+  if (typeof input.id !== 'string' || !/^[\w.-]{8,128}$/.test(input.id)) {
+    throw new HttpError(400, 'invalid-follows', 'id must be 8-128 letters, digits, dots, dashes or underscores', { field: 'id' });
+  }
+  return { id: input.id, teams: nameList(input.teams, 'teams'), leagues: nameList(input.leagues, 'leagues'), updatedAt: now.toISOString() };
+};
+
+export async function saveFollows(kv: KVNamespaceLike, follows: CalendarFollows): Promise<void> {
+  await kv.put(calendarFollowsKey(follows.id), JSON.stringify(follows), { expirationTtl: FOLLOWS_TTL_SECONDS });
+}
+
+export async function getFollows(kv: KVNamespaceLike, id: string): Promise<CalendarFollows | null> {
+  try {
+    return await kv.get<CalendarFollows>(calendarFollowsKey(id), 'json');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * League enum value and API id for a league query value (display name or numeric id)
+ */
+export const resolveLeague = (value: string): { league: League; leagueId: number } | null => {
+  if (/^\d+$/.test(value)) {
+    const league = getLeagueById(Number(value));
+    return league ? { league, leagueId: Number(value) } : null;
+  }
+  const leagueId = LEAGUE_IDS[value as keyof typeof LEAGUE_IDS];
+  return leagueId ? { league: value as League, leagueId } : null;
+};
+
+async function fetchMatches(path: string, env: Env, ctx?: ExecutionContextLike, league?: League): Promise<Match[]> {
+  const json = await apiFootballJson(path, env, ctx);
+  return ((json.response || []) as any[]).map(item => apiFixtureToMatch(item, league)).filter((m): m is Match => m !== null);
+}
+
+const readJson = async <T>(kv: KVNamespaceLike | undefined, key: string): Promise<T | null> => {
+  if (!kv) return null;
+  try {
+    return await kv.get<T>(key, 'json');
+  } catch {
+    return null;
+  }
+};
+
+async function fetchSeasons(paths: string[], env: Env, ctx?: ExecutionContextLike): Promise<Match[]> {
+  const matches: Match[] = [];
+  for (let i = 0; i < paths.length; i += FETCH_CONCURRENCY) {
+    const batch = await Promise.all(paths.slice(i, i + FETCH_CONCURRENCY).map(async path => {
+      try {
+        return await fetchMatches(path, env, ctx);
+      } catch (error) {
+        console.warn(`⚠️ Calendar fixtures for ${path} failed:`, error.message);
+        return [];
+      }
+    }));
+    batch.forEach(list => matches.push(...list));
+  }
+  return matches;
+}
+
+/**
+ * API-Football id of a followed team: from TEAM_DATA when the app knows the
+ * team, otherwise from a /teams search remembered in KV
+ */
+async function teamIdFor(name: string, env: Env, ctx?: ExecutionContextLike): Promise<number | null> {
+  const known = getTeamApiId(name);
+  if (known) return known;
+
+  const kv = env.PREDICTIONS_KV;
+  const key = `${CALENDAR_TEAM_ID_PREFIX}${normalizeName(name)}`;
+  const cached = await readJson<{ id: number | null }>(kv, key);
+  if (cached) return cached.id;
+
+  // The search takes letters, digits and spaces only
+  const search = name.normalize('NFD').replace(/[^A-Za-z0-9 ]/g, '').trim();
+  if (search.length < 3) return null;
+  try {
+    const json = await apiFootballJson(`/teams?search=${encodeURIComponent(search)}`, env, ctx);
+    const found = ((json.response || []) as any[]).find(item =>
+      normalizeName(resolveTeamName(item.team?.name || '')) === normalizeName(name)
+    );
+    const id: number | null = found?.team?.id ?? null;
+    await kv?.put(key, JSON.stringify({ id }), { expirationTtl: id ? TEAM_ID_TTL_SECONDS : TEAM_ID_MISS_TTL_SECONDS });
+    return id;
+  } catch (error) {
+    console.warn(`⚠️ Calendar team lookup for ${name} failed:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Feed title and fixtures for a target, oldest dropped after PAST_DAYS
+ */
+export async function loadFeedMatches(
+  target: CalendarFeedTarget,
+  env: Env,
+  now: Date = new Date(),
+  ctx?: ExecutionContextLike
+): Promise<{ name: string; matches: Match[] }> {
+  const season = seasonForDate(now);
+  let name: string;
+  let matches: Match[];
+
+  try {
+    if (target.kind === 'team') {
+      const json = await apiFootballJson(`/fixtures?team=${target.teamId}&season=${season}`, env, ctx);
+      const items = (json.response || []) as any[];
+      matches = items.map(item => apiFixtureToMatch(item)).filter((m): m is Match => m !== null);
+      const side = items.map(item => item.teams).find(teams => teams?.home?.id === target.teamId || teams?.away?.id === target.teamId);
+      name = `${side ? (side.home.id === target.teamId ? side.home.name : side.away.name) : `Team ${target.teamId}`} fixtures`;
+    } else if (target.kind === 'league') {
+      matches = await fetchMatches(`/fixtures?league=${target.leagueId}&season=${season}`, env, ctx, target.league);
+      name = `${target.league} fixtures`;
+    } else {
+      const { teams, leagues } = target.follows;
+      const leagueIds = new Set(leagues.map(league => resolveLeague(league)?.leagueId).filter((id): id is number => !!id));
+      const teamIds = new Set<number>();
+      for (let i = 0; i < teams.length; i += FETCH_CONCURRENCY) {
+        const ids = await Promise.all(teams.slice(i, i + FETCH_CONCURRENCY).map(team => teamIdFor(team, env, ctx)));
+        ids.forEach(id => id && teamIds.add(id));
+      }
+      if (teamIds.size < teams.length) console.warn(`⚠️ Calendar follows ${target.follows.id}: ${teams.length - teamIds.size} teams without an API-Football id`);
+
+      const followedTeams = new Set(teams.map(normalizeName));
+      const followedLeagues = new Set(leagues.map(normalizeName));
+      const paths = [
+        ...Array.from(teamIds, id => `/fixtures?team=${id}&season=${season}`),
+        ...Array.from(leagueIds, id => `/fixtures?league=${id}&season=${season}`)
+      ];
+      matches = (await fetchSeasons(paths, env, ctx)).filter(match =>
+        teamIds.has(match.homeTeamId) ||
+        teamIds.has(match.awayTeamId) ||
+        followedTeams.has(normalizeName(match.homeTeam)) ||
+        followedTeams.has(normalizeName(match.awayTeam)) ||
+        followedLeagues.has(normalizeName(String(match.league)))
+      );
+      name = 'My FixtureCast teams';
+    }
+  } catch (error) {
+    throw new HttpError(502, 'fixtures-unavailable', `Fixtures could not be loaded: ${error.message}`);
+  }
+
+  const cutoff = now.getTime() - PAST_DAYS * DAY_MS;
+  const byId = new Map(matches.filter(match => Date.parse(match.date) >= cutoff).map(match => [match.id, match]));
+  return { name, matches: Array.from(byId.values()).sort((a, b) => Date.parse(a.date) - Date.parse(b.date)) };
+}
+
+/**
+ * SEQUENCE per fixture; only new or changed fixtures are written, each to its
+ * own key, which expires SEQUENCE_RETENTION_DAYS after kickoff
+ */
+async function sequencesFor(matches: Match[], kv: KVNamespaceLike | undefined): Promise<Record<string, FixtureSequence>> {
+  const previous: Record<string, FixtureSequence> = {};
+  await Promise.all(matches.map(async match => {
+    const entry = await readJson<FixtureSequence>(kv, calendarSequenceKey(match.id));
+    if (entry) previous[match.id] = entry;
+  }));
+
+  const { sequences, changed } = nextSequences(previous, matches);
+  if (changed && kv) {
+    // Unchanged entries are carried over as the same objects
+    await Promise.all(matches.filter(match => sequences[match.id] !== previous[match.id]).map(match => {
+      const entry = sequences[match.id];
+      const expiration = Math.floor((Date.parse(entry.kickoff) + SEQUENCE_RETENTION_DAYS * DAY_MS) / 1000);
+      return kv.put(calendarSequenceKey(match.id), JSON.stringify(entry), { expiration });
+    }));
+  }
+  return sequences;
+}
+
+/**
+ * Prediction summaries by fixture id from the daily aggregates of upcoming match days
+ */
+async function predictionsFor(matches: Match[], kv: KVNamespaceLike | undefined, now: Date): Promise<Map<string, CalendarPredictionSummary>> {
+  const summaries = new Map<string, CalendarPredictionSummary>();
+  const from = now.getTime() - DAY_MS;
+  const to = now.getTime() + PREDICTION_DAYS_AHEAD * DAY_MS;
+  const dates = new Set(matches.filter(match => {
+    const kickoff = Date.parse(match.date);
+    return kickoff >= from && kickoff <= to;
+  }).map(match => match.date.slice(0, 10)));
+
+  for (const date of dates) {
+    const aggregate = await readJson<DailyAggregate>(kv, dailyPredictionsKey(date));
+    for (const record of aggregate?.predictions || []) {
+      const prediction = record.prediction || {};
+      summaries.set(String(record.matchId), {
+        outcome: prediction.outcome,
+        score: prediction.predictedScore || prediction.score,
+        confidence: typeof prediction.confidence === 'number' ? prediction.confidence : undefined
+      });
+    }
+  }
+  return summaries;
+}
+
+/**
+ * The iCalendar document for a feed target
+ */
+export async function buildCalendarFeed(
+  target: CalendarFeedTarget,
+  env: Env,
+  options: { predictions?: boolean; ctx?: ExecutionContextLike } = {},
+  now: Date = new Date()
+): Promise<string> {
+  const kv = env.PREDICTIONS_KV;
+  const { name, matches } = await loadFeedMatches(target, env, now, options.ctx);
+  const sequences = await sequencesFor(matches, kv);
+  const tvListings = (await readJson<Record<string, string[]>>(kv, CALENDAR_TV_LISTINGS_KEY)) || {};
+  const predictions = options.predictions ? await predictionsFor(matches, kv, now) : new Map<string, CalendarPredictionSummary>();
+  const domain = (env.FIXTURECAST_DOMAIN || 'https://fixturecast.com').replace(/\/+$/, '');
+
+  console.log(`📅 Calendar feed "${name}": ${matches.length} fixtures`);
+  return buildCalendar({
+    name,
+    description: 'Fixtures from FixtureCast',
+    refreshMinutes: 60,
+    events: matches.map(match => matchToFeedEvent(match, {
+      sequence: sequences[match.id]?.sequence ?? 0,
+      tv: Array.isArray(tvListings[match.id]) ? tvListings[match.id] : undefined,
+      prediction: predictions.get(match.id),
+      url: absoluteUrl(href('match', { matchId: match.id }), domain)
+    }))
+  }, now);
+}
@@ -0,0 +1,170 @@
+import { triggerScoreUpdate } from './accuracy';
+import { sealPendingLedgerDays } from './ledger';
+import { refreshNews } from './news';
+import { notifyScoreChanges } from './push';
+import { CronExecution, CronHistoryEntry, Env, ExecutionContextLike, ScheduledEventLike } from './types';
+
+/**
+ * Scheduled (cron trigger) handling and execution history
+ */
+
+export const SCORES_CRON = '15 * * * *';
+// Live push polling; a no-op until VAPID keys are set and someone has subscribed
+export const PUSH_CRON = '*/5 * * * *';
+// News feeds; injury/suspension stories go out on the news push topic
+export const NEWS_CRON = '*/30 * * * *';
+export const CRON_LAST_EXECUTION_KEY = 'cron:lastExecution';
+export const CRON_HISTORY_KEY = 'cron:history:index';
+const CRON_HISTORY_LIMIT = 25;
+
+// Last execution in this isolate; KV holds the durable copy
+let lastCronExecution: CronExecution | null = null;
+
+export const getLastCronExecution = () => lastCronExecution;
+
+export const resetCronState = () => {
+  lastCronExecution = null;
+};
+
+export async function handleScheduled(event: ScheduledEventLike, env: Env, ctx?: ExecutionContextLike): Promise<CronExecution> {
+  const timestamp = new Date().toISOString();
+  // Too frequent for the KV execution history; only the live snapshot or news list is written
+  if (event.cron === PUSH_CRON || event.cron === NEWS_CRON) {
+    const type = event.cron === PUSH_CRON ? 'push' : 'news';
+    const execution: CronExecution = { schedule: event.cron, timestamp, status: 'completed', type };
+    try {
+      execution.result = type === 'push' ? await notifyScoreChanges(env, ctx) : await refreshNews(env);
+    } catch (error) {
+      console.error(`❌ ${type === 'push' ? 'Live push poll' : 'News refresh'} failed:`, error);
+      execution.status = 'failed';
+      execution.error = error.message;
+    }
+    execution.completedAt = new Date().toISOString();
+    return execution;
+  }
+
+  console.log(`🕐 Cron trigger fired: ${event.cron} at ${timestamp}`);
+  const execution: CronExecution = { schedule: event.cron, timestamp, status: 'running' };
+  lastCronExecution = execution;
+
+  try {
+    // Persist a running marker early (KV durability)
+    if (env.PREDICTIONS_KV) {
+      try {
+        const execId = `${timestamp}_${event.cron.replace(/\s+/g, '_')}`;
+        const marker = JSON.stringify({ schedule: event.cron, startedAt: timestamp, status: 'running' });
+        await env.PREDICTIONS_KV.put(CRON_LAST_EXECUTION_KEY, marker);
+        await env.PREDICTIONS_KV.put(`cron:exec:${execId}`, marker);
+      } catch (e) {
+        console.warn('KV persist (start) failed:', e.message);
+      }
+    }
+
+    // Only score updates are scheduled automatically now
+    if (event.cron === SCORES_CRON) {
+      const scores = await triggerScoreUpdate(env, ctx);
+      execution.result = scores;
+      execution.type = 'scores';
+      // Seal finished days into the prediction ledger; never fails the score run
+      if (env.LEDGER_KV) {
+        try {
+          const sealed = await sealPendingLedgerDays(env.LEDGER_KV);
+          if (sealed.length) execution.result = { ...scores, ledgerSealed: sealed.map(entry => entry.date) };
+        } catch (error) {
+          console.warn('⚠️ Ledger sealing failed:', error.message);
+        }
+      }
+    } else {
+      console.log(`⚠️ Unknown cron schedule: ${event.cron} - skipping`);
+      execution.result = { message: 'Unknown schedule - skipped' };
+      execution.type = 'unknown';
+    }
+
+    execution.status = 'completed';
+    execution.completedAt = new Date().toISOString();
+    console.log('✅ Cron job completed successfully');
+
+    if (env.PREDICTIONS_KV) {
+      try {
+        await env.PREDICTIONS_KV.put(CRON_LAST_EXECUTION_KEY, JSON.stringify(execution));
+        let list: CronHistoryEntry[] = [];
+        const listRaw = await env.PREDICTIONS_KV.get(CRON_HISTORY_KEY);
+        if (listRaw) { try { list = JSON.parse(listRaw); } catch {} }
+        list.unshift({ schedule: execution.schedule, startedAt: execution.timestamp, completedAt: execution.completedAt, type: execution.type, status: execution.status });
+        await env.PREDICTIONS_KV.put(CRON_HISTORY_KEY, JSON.stringify(list.slice(0, CRON_HISTORY_LIMIT)));
+      } catch (e) {
+        console.warn('KV persist (complete) failed:', e.message);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Cron job failed:', error);
+    execution.status = 'failed';
+    execution.error = error.message;
+
+    if (env.PREDICTIONS_KV) {
+      try {
+        await env.PREDICTIONS_KV.put(CRON_LAST_EXECUTION_KEY, JSON.stringify(execution));
+      } catch (e) {
+        console.warn('KV persist (failure) failed:', e.message);
+      }
+    }
+
+    if (env.ERROR_WEBHOOK_URL) {
+      await sendErrorAlert(error, event.cron, env);
+    }
+  }
+
+  return execution;
+}
+
+/**
+ * Send error alert to monitoring service (optional)
+ */
+async function sendErrorAlert(error: Error, cronSchedule: string, env: Env) {
+  if (!env.ERROR_WEBHOOK_URL) return;
+
+  try {
+    await fetch(env.ERROR_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        service: 'FixtureCast Cron Worker',
+        error: error.message,
+        schedule: cronSchedule,
+        timestamp: new Date().toISOString(),
+        stack: error.stack
+      })
+    });
+  } catch (alertError) {
+    console.error('Failed to send error alert:', alertError);
+  }
+}
+
+/**
+ * Calculate next hourly trigger (scores update)
+ */
+export function getNextHourlyTrigger(now = new Date()): string {
+  const next = new Date(now);
+  // If current minute is past 15, go to next hour
+  if (now.getMinutes() >= 15) {
+    next.setHours(next.getHours() + 1);
+  }
+  next.setMinutes(15, 0, 0);
+  return next.toISOString();
+}
+
+/**
+ * Calculate next prediction trigger (every 6 hours at 6,12,18,23)
+ */
+export function getNextPredictionTrigger(now = new Date()): string {
+  const next = new Date(now);
+  const triggers = [6, 12, 18, 23];
+  let nextHour = triggers.find(hour => hour > now.getHours());
+  if (!nextHour) {
+    // Next trigger is tomorrow at 6AM
+    next.setDate(next.getDate() + 1);
+    nextHour = 6;
+  }
+  next.setHours(nextHour, 0, 0, 0);
+  return next.toISOString();
+}
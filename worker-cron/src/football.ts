@@ -0,0 +1,132 @@
+import { ApiCache, KVCacheBackend, categorizeEndpoint } from '../../services/apiCache';
+import { ApiFixture, Env, ExecutionContextLike, FinishedMatch, KVNamespaceLike } from './types';
+
+/**
+ * API-Football access for the worker
+ */
+
+export const API_FOOTBALL_BASE = 'https://v3.football.api-sports.io';
+
+// Featured leagues / competitions (API-SPORTS league IDs) to generate predictions for
+// NOTE: Keep this list aligned with frontend featured leagues (see footballApiService)
+// Premier League(39), Championship(40), League One(41), League Two(42), FA Cup(45), League Cup(48)
+// Ligue 1(61), Bundesliga(78), Serie A(135), La Liga(140), Eredivisie(88), Primeira Liga(94)
+// Scottish Premiership(179), Brazil Serie A(71), Argentina Liga Profesional(128)
+// UEFA Champions League(2), UEFA Europa League(3)
+export const FEATURED_LEAGUE_IDS = new Set([
+  39, 40, 41, 42, 45, 48,
+  61, 78, 88, 94, 135, 140, 179,
+  71, 128,
+  2, 3
+]);
+
+export const apiFootballFetch = (path: string, env: Env): Promise<Response> =>
+  fetch(`${(env.API_FOOTBALL_BASE_URL || API_FOOTBALL_BASE).replace(/\/+$/, '')}${path}`, {
+    method: 'GET',
+    headers: { 'x-apisports-key': env.FOOTBALL_API_KEY || '' }
+  });
+
+// One response cache per KV binding. Without API_CACHE_KV nothing is kept
+// between requests, but concurrent identical calls still share one fetch.
+const kvApiCaches = new WeakMap<KVNamespaceLike, ApiCache>();
+const coalescingOnlyCache = new ApiCache({ useMemory: false });
+
+const apiCacheFor = (env: Env): ApiCache => {
+  if (!env.API_CACHE_KV) return coalescingOnlyCache;
+  let cache = kvApiCaches.get(env.API_CACHE_KV);
+  if (!cache) {
+    cache = new ApiCache({ backend: new KVCacheBackend(env.API_CACHE_KV) });
+    kvApiCaches.set(env.API_CACHE_KV, cache);
+  }
+  return cache;
+};
+
+/**
+ * Parsed API-Football JSON for a path, served from the response cache
+ * under the endpoint's TTL policy; throws when the API is unavailable.
+ * With ctx, a stale entry's background refresh is kept alive by waitUntil.
+ */
+export async function apiFootballJson(path: string, env: Env, ctx?: ExecutionContextLike): Promise<any> {
+  const { data } = await apiCacheFor(env).fetch(path, categorizeEndpoint(path), async () => {
+    const response = await apiFootballFetch(path, env);
+    if (!response.ok) {
+      throw new Error(`Football API error: ${response.status}`);
+    }
+    return response.json();
+  }, { waitUntil: ctx && (promise => ctx.waitUntil(promise)) });
+  return data;
+}
+
+/**
+ * Fetch fixtures only for featured leagues by iterating league IDs.
+ * This reduces payload size and API noise when we only care about featured.
+ * NOTE: Sequential with small concurrency to avoid rate limiting.
+ */
+export async function fetchFeaturedLeagueFixtures(dateStr: string, env: Env, ctx?: ExecutionContextLike): Promise<ApiFixture[]> {
+  const leagueIds = Array.from(FEATURED_LEAGUE_IDS);
+  const results: ApiFixture[] = [];
+  const MAX_CONCURRENT = 5;
+  for (let i = 0; i < leagueIds.length; i += MAX_CONCURRENT) {
+    const batch = leagueIds.slice(i, i + MAX_CONCURRENT);
+    const batchResults = await Promise.all(batch.map(async (lid) => {
+      try {
+        const json = await apiFootballJson(`/fixtures?date=${dateStr}&league=${lid}`, env, ctx);
+        return (json.response || []) as ApiFixture[];
+      } catch (e) {
+        console.warn('Featured league fetch failed', lid, e.message);
+        return [];
+      }
+    }));
+    for (const arr of batchResults) results.push(...arr);
+  }
+  console.log(`📦 Featured-only aggregate fetched ${results.length} fixtures across ${leagueIds.length} leagues`);
+  return results;
+}
+
+/**
+ * All fixtures for a date, throwing when the API is unavailable
+ */
+export async function fetchAllFixtures(dateStr: string, env: Env, ctx?: ExecutionContextLike): Promise<ApiFixture[]> {
+  const data = await apiFootballJson(`/fixtures?date=${dateStr}`, env, ctx);
+  return data.response || [];
+}
+
+// Fetch fixtures helper for endpoints (featured or global); empty on failure
+export async function fetchFixturesForDate(dateStr: string, env: Env, featuredOnly: boolean, ctx?: ExecutionContextLike): Promise<ApiFixture[]> {
+  if (featuredOnly) return await fetchFeaturedLeagueFixtures(dateStr, env, ctx);
+  try {
+    return await fetchAllFixtures(dateStr, env, ctx);
+  } catch {
+    return [];
+  }
+}
+
+export const toFinishedMatch = (f: ApiFixture): FinishedMatch => ({
+  fixtureId: f.fixture.id,
+  leagueId: f.league.id,
+  league: f.league.name,
+  date: f.fixture.date,
+  homeTeam: f.teams.home.name,
+  awayTeam: f.teams.away.name,
+  homeScore: f.goals.home ?? 0,
+  awayScore: f.goals.away ?? 0
+});
+
+/**
+ * Finished (FT) fixtures for a date
+ */
+export async function fetchFinishedMatches(dateStr: string, env: Env, ctx?: ExecutionContextLike): Promise<FinishedMatch[]> {
+  const data = await apiFootballJson(`/fixtures?date=${dateStr}&status=FT`, env, ctx);
+  return ((data.response || []) as ApiFixture[]).map(toFinishedMatch);
+}
+
+// Helper: aggregate fixtures by league (count only)
+export function aggregateByLeague(fixtures: ApiFixture[]) {
+  const map = new Map<number, { leagueId: number; league: string; country?: string; count: number }>();
+  for (const f of fixtures) {
+    const lid = f?.league?.id; if (!lid) continue;
+    if (!map.has(lid)) map.set(lid, { leagueId: lid, league: f.league.name, country: f.league.country, count: 0 });
+    map.get(lid)!.count += 1;
+  }
+  return Array.from(map.values()).sort((a, b) => b.count - a.count).slice(0, 100);
+}
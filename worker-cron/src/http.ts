@@ -0,0 +1,58 @@
+/**
+ * JSON responses and the error envelope shared by every route:
+ *   { "error": { "code": "invalid-date", "message": "...", "details": { ... } } }
+ */
+
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+};
+
+export interface ErrorEnvelope {
+  error: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Thrown by handlers and validators; the router turns it into an error envelope
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const json = (body: unknown, status = 200, pretty = false): Response =>
+  new Response(pretty ? JSON.stringify(body, null, 2) : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...CORS_HEADERS }
+  });
+
+// KV already holds serialised JSON; pass it through without a parse/stringify round trip
+export const rawJson = (body: string): Response =>
+  new Response(body, { headers: { 'Content-Type': 'application/json', ...CORS_HEADERS } });
+
+export const errorResponse = (
+  status: number,
+  code: string,
+  message: string,
+  details?: Record<string, unknown>
+): Response => {
+  const envelope: ErrorEnvelope = { error: { code, message, ...(details ? { details } : {}) } };
+  return json(envelope, status);
+};
+
+export const requireKV = <T>(kv: T | undefined): T => {
+  if (!kv) throw new HttpError(500, 'kv-unavailable', 'PREDICTIONS_KV binding is not configured');
+  return kv;
+};
@@ -0,0 +1,24 @@
+/**
+ * Cloudflare Worker - Cron Triggers for FixtureCast
+ *
+ * Runs the hourly score/accuracy task on schedule and serves the prediction
+ * pipeline endpoints listed in ./routes. Deploy as a separate Worker with
+ * cron triggers enabled.
+ */
+
+import { handleScheduled } from './cron';
+import { createRouter } from './router';
+import { routes } from './routes';
+import { Env, ExecutionContextLike, ScheduledEventLike } from './types';
+
+const handleFetch = createRouter(routes);
+
+export default {
+  async scheduled(event: ScheduledEventLike, env: Env, ctx?: ExecutionContextLike): Promise<void> {
+    await handleScheduled(event, env, ctx);
+  },
+
+  fetch(request: Request, env: Env, ctx?: ExecutionContextLike): Promise<Response> {
+    return handleFetch(request, env, ctx);
+  }
+};
@@ -0,0 +1,138 @@
+import {
+  LEDGER_GENESIS_HASH,
+  LEDGER_HEAD_KEY,
+  LEDGER_LEAF_PREFIX,
+  LedgerDay,
+  LedgerEntry,
+  LedgerKV,
+  LedgerLeaf,
+  LedgerProof,
+  entryHash,
+  ledgerDayKey,
+  merkleProof,
+  merkleRoot,
+  sortLeaves
+} from '../../services/predictionLedger';
+import { daysAgoIso } from './validation';
+
+/**
+ * Sealing and serving of the prediction ledger (services/predictionLedger.ts).
+ * It lives in its own LEDGER_KV namespace so clean-up tooling that works on
+ * PREDICTIONS_KV can never rewrite it. Keys:
+ *  - ledger:leaf:<date>:<leaf hash>  leaves waiting to be sealed
+ *  - ledger:day:<date>               sealed day: chain entry and its ordered leaves
+ *  - ledger:head                     newest chain entry
+ */
+
+// Catch-up limit per run after the worker was down for a while
+const MAX_DAYS_PER_RUN = 7;
+export const MAX_CHAIN_ENTRIES = 90;
+
+const nextDay = (date: string) => new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const readJson = async <T>(kv: LedgerKV, key: string): Promise<T | null> => {
+  try {
+    return await kv.get<T>(key, 'json');
+  } catch {
+    return null;
+  }
+};
+
+export const getLedgerHead = (kv: LedgerKV) => readJson<LedgerEntry>(kv, LEDGER_HEAD_KEY);
+
+export const getLedgerDay = (kv: LedgerKV, date: string) => readJson<LedgerDay>(kv, ledgerDayKey(date));
+
+async function leavesFor(kv: LedgerKV, date: string): Promise<LedgerLeaf[]> {
+  const leaves: LedgerLeaf[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: `${LEDGER_LEAF_PREFIX}${date}:`, cursor });
+    for (const key of page.keys) {
+      const leaf = await readJson<LedgerLeaf>(kv, key.name);
+      if (leaf) leaves.push(leaf);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return leaves;
+}
+
+/**
+ * Seal one day on top of the current head. Days are sealed in order and
+ * never rewritten; an already sealed day is returned as it is.
+ */
+export async function sealLedgerDay(kv: LedgerKV, date: string, now: Date = new Date()): Promise<LedgerEntry> {
+  const sealed = await getLedgerDay(kv, date);
+  if (sealed) return sealed.entry;
+
+  const head = await getLedgerHead(kv);
+  if (head && head.date >= date) {
+    throw new Error(`Ledger head is at ${head.date}; ${date} can no longer be sealed`);
+  }
+
+  const { leaves, hashes } = await sortLeaves(await leavesFor(kv, date));
+  const content: Omit<LedgerEntry, 'entryHash'> = {
+    index: head ? head.index + 1 : 0,
+    date,
+    leafCount: leaves.length,
+    merkleRoot: await merkleRoot(hashes),
+    previousHash: head?.entryHash || LEDGER_GENESIS_HASH,
+    previousDate: head?.date || null,
+    sealedAt: now.toISOString()
+  };
+  const entry: LedgerEntry = { ...content, entryHash: await entryHash(content) };
+
+  await kv.put(ledgerDayKey(date), JSON.stringify({ entry, leaves }));
+  await kv.put(LEDGER_HEAD_KEY, JSON.stringify(entry));
+  console.log(`🔏 Ledger sealed ${date}: ${leaves.length} predictions, root ${entry.merkleRoot.slice(0, 12)}…`);
+  return entry;
+}
+
+/**
+ * Seal every finished day since the head (or since the oldest waiting leaf
+ * when the chain is new). Returns the entries sealed in this run.
+ */
+export async function sealPendingLedgerDays(kv: LedgerKV, now: Date = new Date()): Promise<LedgerEntry[]> {
+  const yesterday = daysAgoIso(1, now);
+  const head = await getLedgerHead(kv);
+  let date: string | null = head ? nextDay(head.date) : null;
+  if (!date) {
+    const oldest = (await kv.list({ prefix: LEDGER_LEAF_PREFIX, limit: 1 })).keys[0];
+    if (!oldest) return [];
+    date = oldest.name.slice(LEDGER_LEAF_PREFIX.length, LEDGER_LEAF_PREFIX.length + 10);
+  }
+
+  const entries: LedgerEntry[] = [];
+  while (date <= yesterday && entries.length < MAX_DAYS_PER_RUN) {
+    entries.push(await sealLedgerDay(kv, date, now));
+    date = nextDay(date);
+  }
+  return entries;
+}
+
+/**
+ * Inclusion proofs for every leaf of a match in a sealed day
+ */
+export async function getLedgerProof(kv: LedgerKV, date: string, matchId: string): Promise<LedgerProof | null> {
+  const day = await getLedgerDay(kv, date);
+  if (!day) return null;
+  const { hashes } = await sortLeaves(day.leaves);
+  const proofs = await Promise.all(day.leaves
+    .map((leaf, leafIndex) => ({ leaf, leafIndex }))
+    .filter(({ leaf }) => leaf.matchId === matchId)
+    .map(async ({ leaf, leafIndex }) => ({ leaf, leafIndex, path: await merkleProof(hashes, leafIndex) })));
+  return { entry: day.entry, proofs };
+}
+
+/**
+ * Chain entries newest first, from the head back to `until` (inclusive) or `limit` entries
+ */
+export async function getLedgerChain(kv: LedgerKV, until: string | null, limit: number = MAX_CHAIN_ENTRIES): Promise<LedgerEntry[]> {
+  const entries: LedgerEntry[] = [];
+  let entry = await getLedgerHead(kv);
+  while (entry && entries.length < limit) {
+    entries.push(entry);
+    if (!entry.previousDate || (until && entry.date <= until)) break;
+    entry = (await getLedgerDay(kv, entry.previousDate))?.entry || null;
+  }
+  return entries;
+}
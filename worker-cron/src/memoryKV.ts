@@ -0,0 +1,78 @@
+import { KVNamespaceLike } from './types';
+
+interface StoredValue {
+  value: string;
+  expiresAt?: number; // epoch ms
+}
+
+/**
+ * In-memory stand-in for a KV namespace, in the spirit of Miniflare's.
+ * Used by the route tests and for running the worker locally without a binding.
+ * Like the real KV, list() returns keys in lexicographic order.
+ */
+export class MemoryKV implements KVNamespaceLike {
+  private store = new Map<string, StoredValue>();
+
+  constructor(seed: Record<string, unknown> = {}, private now: () => number = () => Date.now()) {
+    Object.entries(seed).forEach(([key, value]) => {
+      this.store.set(key, { value: typeof value === 'string' ? value : JSON.stringify(value) });
+    });
+  }
+
+  private read(key: string): string | null {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.store.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async get(key: string): Promise<string | null>;
+  async get(key: string, type: 'text'): Promise<string | null>;
+  async get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  async get(key: string, type: 'text' | 'json' = 'text'): Promise<unknown> {
+    const value = this.read(key);
+    if (value === null || type === 'text') return value;
+    return JSON.parse(value);
+  }
+
+  async put(key: string, value: string, options: { expirationTtl?: number; expiration?: number } = {}): Promise<void> {
+    let expiresAt: number | undefined;
+    if (options.expirationTtl !== undefined) expiresAt = this.now() + options.expirationTtl * 1000;
+    else if (options.expiration !== undefined) expiresAt = options.expiration * 1000;
+    this.store.set(key, { value: String(value), expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async list(options: { prefix?: string; limit?: number; cursor?: string } = {}) {
+    const { prefix = '', limit = 1000 } = options;
+    const start = options.cursor ? parseInt(options.cursor, 10) : 0;
+    const names = Array.from(this.store.keys())
+      .filter(name => name.startsWith(prefix) && this.read(name) !== null)
+      .sort();
+    const page = names.slice(start, start + limit);
+    const listComplete = start + limit >= names.length;
+    return {
+      keys: page.map(name => {
+        const expiresAt = this.store.get(name)?.expiresAt;
+        return expiresAt !== undefined ? { name, expiration: Math.floor(expiresAt / 1000) } : { name };
+      }),
+      list_complete: listComplete,
+      ...(listComplete ? {} : { cursor: String(start + limit) })
+    };
+  }
+
+  // Test helpers
+  keys(): string[] {
+    return Array.from(this.store.keys()).filter(name => this.read(name) !== null).sort();
+  }
+
+  clear(): void {
+    this.store.clear();
+  }
+}
@@ -0,0 +1,104 @@
+import { PushEvent } from '../../services/pushSubscriptionModel';
+import { NEWS_FEEDS, NewsFeed, mergeArticles, parseFeed, tagArticle } from '../../services/newsModel';
+import { NewsArticle } from '../../types';
+import { FanOutSummary, fanOut } from './push';
+import { Env, KVNamespaceLike } from './types';
+
+/**
+ * Server-side news aggregation (PREDICTIONS_KV, news:articles). The news cron
+ * fetches every feed, tags and dedupes the items and pushes injury and
+ * suspension stories to subscribers following the teams involved.
+ */
+
+export const NEWS_ARTICLES_KEY = 'news:articles';
+
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_STORED_ARTICLES = 500;
+const FEED_TIMEOUT_MS = 8000;
+const FEED_CONCURRENCY = 6;
+// Older stories that only now reached a feed are stored but not announced
+const ALERT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+export interface StoredNews {
+  updatedAt: string;
+  articles: NewsArticle[];
+}
+
+export interface NewsRefreshSummary {
+  feeds: number;
+  failedFeeds: string[];
+  fetched: number;
+  added: number;
+  stored: number;
+  alerts: number;
+  push: FanOutSummary | null;
+}
+
+export async function getStoredNews(kv: KVNamespaceLike): Promise<StoredNews | null> {
+  try {
+    return await kv.get<StoredNews>(NEWS_ARTICLES_KEY, 'json');
+  } catch {
+    return null;
+  }
+}
+
+async function fetchFeed(feed: NewsFeed, now: Date): Promise<NewsArticle[]> {
+  const response = await fetch(feed.url, {
+    headers: { 'User-Agent': 'FixtureCast News/1.0', 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS)
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return parseFeed(await response.text(), feed.source, now);
+}
+
+const alertEvent = (article: NewsArticle): PushEvent => {
+  const { kind, teams } = article.alert!;
+  return {
+    topic: 'news',
+    title: `${kind === 'injury' ? '🚑' : '🟥'} ${teams.join(' & ')}: ${kind} news`,
+    body: article.title,
+    tag: `news-${article.id}`,
+    url: article.link,
+    teams,
+    data: { articleId: article.id, kind }
+  };
+};
+
+/**
+ * Fetch all feeds, merge the tagged items into the stored list and announce
+ * new injury/suspension stories. The first run only stores a baseline.
+ */
+export async function refreshNews(env: Env, feeds: NewsFeed[] = NEWS_FEEDS, now: Date = new Date()): Promise<NewsRefreshSummary | null> {
+  const kv = env.PREDICTIONS_KV;
+  if (!kv) return null;
+
+  const failedFeeds: string[] = [];
+  const fetched: NewsArticle[] = [];
+  for (let i = 0; i < feeds.length; i += FEED_CONCURRENCY) {
+    const batch = feeds.slice(i, i + FEED_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map(feed => fetchFeed(feed, now)));
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        fetched.push(...result.value.map(tagArticle));
+      } else {
+        console.warn(`⚠️ News feed ${batch[index].source} failed:`, result.reason?.message || result.reason);
+        failedFeeds.push(batch[index].source);
+      }
+    });
+  }
+
+  // Only stories about a team or league we cover
+  const relevant = fetched.filter(article => article.teams?.length || article.leagues?.length);
+  const previous = await getStoredNews(kv);
+  const { articles, added } = mergeArticles(previous?.articles || [], relevant, now, RETENTION_MS, MAX_STORED_ARTICLES);
+  const stored: StoredNews = { updatedAt: now.toISOString(), articles };
+  await kv.put(NEWS_ARTICLES_KEY, JSON.stringify(stored));
+
+  const alerts = previous
+    ? added.filter(article => article.alert && now.getTime() - Date.parse(article.publishedDate) <= ALERT_MAX_AGE_MS)
+    : [];
+  const push = alerts.length ? await fanOut(env, alerts.map(alertEvent), now) : null;
+
+  console.log(`📰 News refresh: ${fetched.length} items from ${feeds.length - failedFeeds.length}/${feeds.length} feeds, ${added.length} new, ${alerts.length} absence alerts`);
+  return { feeds: feeds.length, failedFeeds, fetched: fetched.length, added: added.length, stored: articles.length, alerts: alerts.length, push };
+}
@@ -0,0 +1,269 @@
+import {
+  PushEvent,
+  PushSubscriptionRecord,
+  PushTopic,
+  isInQuietHours,
+  matchesSubscription,
+  toPushPayload
+} from '../../services/pushSubscriptionModel';
+import { href } from '../../services/routeTable';
+import { resolveTeamName } from '../../services/teamDataService';
+import { FEATURED_LEAGUE_IDS, apiFootballJson } from './football';
+import { ApiFixture, DailyPredictionRecord, Env, ExecutionContextLike, KVNamespaceLike } from './types';
+import { VapidConfig, sendWebPush, vapidConfig } from './webPush';
+
+/**
+ * Push subscription registry (PREDICTIONS_KV, push:sub:<device id>) and the
+ * fan-out that turns score changes and new predictions into notifications.
+ * Everything here is a no-op until VAPID keys are configured.
+ */
+
+export const PUSH_SUBSCRIPTION_PREFIX = 'push:sub:';
+export const PUSH_LIVE_STATE_KEY = 'push:live-state';
+
+export const pushSubscriptionKey = (id: string) => `${PUSH_SUBSCRIPTION_PREFIX}${id}`;
+
+// Devices that stop re-registering age out of the registry
+const SUBSCRIPTION_TTL_SECONDS = 180 * 24 * 60 * 60;
+const LIVE_STATE_TTL_SECONDS = 6 * 60 * 60;
+const SEND_CONCURRENCY = 6;
+// More matching events than this in one run arrive as a single digest
+const DIGEST_THRESHOLD = 3;
+const FINISHED_STATUSES = new Set(['FT', 'AET', 'PEN']);
+const FIXTURE_IDS_PER_REQUEST = 20;
+
+const DELIVERY: Record<PushTopic, { ttlSeconds: number; urgency: 'low' | 'normal' | 'high' }> = {
+  'match-start': { ttlSeconds: 15 * 60, urgency: 'high' },
+  'lineup-posted': { ttlSeconds: 60 * 60, urgency: 'normal' },
+  goals: { ttlSeconds: 15 * 60, urgency: 'high' },
+  'full-time': { ttlSeconds: 2 * 60 * 60, urgency: 'normal' },
+  predictions: { ttlSeconds: 12 * 60 * 60, urgency: 'low' },
+  'match-reminders': { ttlSeconds: 30 * 60, urgency: 'normal' },
+  news: { ttlSeconds: 12 * 60 * 60, urgency: 'low' }
+};
+
+export interface FanOutSummary {
+  events: number;
+  subscribers: number;
+  delivered: number;
+  quietHoursSkipped: number;
+  nativeSkipped: number;
+  removed: number;
+  failed: number;
+}
+
+export const isPushConfigured = (env: Env): boolean => !!vapidConfig(env) && !!env.PREDICTIONS_KV;
+
+export async function saveSubscription(kv: KVNamespaceLike, record: PushSubscriptionRecord): Promise<void> {
+  await kv.put(pushSubscriptionKey(record.id), JSON.stringify(record), { expirationTtl: SUBSCRIPTION_TTL_SECONDS });
+}
+
+export async function getSubscription(kv: KVNamespaceLike, id: string): Promise<PushSubscriptionRecord | null> {
+  try {
+    return await kv.get<PushSubscriptionRecord>(pushSubscriptionKey(id), 'json');
+  } catch {
+    return null;
+  }
+}
+
+export async function removeSubscription(kv: KVNamespaceLike, id: string): Promise<void> {
+  await kv.delete(pushSubscriptionKey(id));
+}
+
+export async function listSubscriptionIds(kv: KVNamespaceLike): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: PUSH_SUBSCRIPTION_PREFIX, cursor });
+    ids.push(...page.keys.map(key => key.name.slice(PUSH_SUBSCRIPTION_PREFIX.length)));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return ids;
+}
+
+const digestOf = (events: PushEvent[]): PushEvent => ({
+  topic: events[0].topic,
+  title: `⚽ ${events.length} FixtureCast updates`,
+  body: events.slice(0, DIGEST_THRESHOLD).map(event => event.title).join(' · ') + (events.length > DIGEST_THRESHOLD ? ' …' : ''),
+  tag: 'fixturecast-digest',
+  url: '/',
+  teams: [],
+  data: { digest: true }
+});
+
+async function deliver(subscription: PushSubscriptionRecord, events: PushEvent[], vapid: VapidConfig, kv: KVNamespaceLike, summary: FanOutSummary) {
+  const notifications = events.length > DIGEST_THRESHOLD ? [digestOf(events)] : events;
+  for (const event of notifications) {
+    try {
+      const result = await sendWebPush(
+        { endpoint: subscription.endpoint!, keys: subscription.keys! },
+        JSON.stringify(toPushPayload(event)),
+        vapid,
+        { ...DELIVERY[event.topic], topic: event.tag }
+      );
+      if (result.gone) {
+        await removeSubscription(kv, subscription.id);
+        summary.removed++;
+        return;
+      }
+      if (result.ok) summary.delivered++; else summary.failed++;
+    } catch (error) {
+      console.warn(`⚠️ Push to ${subscription.id} failed:`, error.message);
+      summary.failed++;
+    }
+  }
+}
+
+/**
+ * Deliver events to every matching subscription, honouring each one's topics,
+ * follows and quiet hours (in the subscriber's timezone)
+ */
+export async function fanOut(env: Env, events: PushEvent[], now: Date = new Date()): Promise<FanOutSummary> {
+  const summary: FanOutSummary = { events: events.length, subscribers: 0, delivered: 0, quietHoursSkipped: 0, nativeSkipped: 0, removed: 0, failed: 0 };
+  const vapid = vapidConfig(env);
+  const kv = env.PREDICTIONS_KV;
+  if (!vapid || !kv || !events.length) return summary;
+
+  const ids = await listSubscriptionIds(kv);
+  for (let i = 0; i < ids.length; i += SEND_CONCURRENCY) {
+    await Promise.all(ids.slice(i, i + SEND_CONCURRENCY).map(async id => {
+      const subscription = await getSubscription(kv, id);
+      if (!subscription) return;
+      const matching = events.filter(event => matchesSubscription(subscription, event));
+      if (!matching.length) return;
+      summary.subscribers++;
+
+      if (isInQuietHours(subscription.quietHours, subscription.timezone, now)) {
+        summary.quietHoursSkipped++;
+        return;
+      }
+      // Native tokens are registered for the Capacitor app; delivery needs an FCM/APNs sender
+      if (subscription.transport !== 'webpush' || !subscription.endpoint || !subscription.keys) {
+        summary.nativeSkipped++;
+        return;
+      }
+      await deliver(subscription, matching, vapid, kv, summary);
+    }));
+  }
+  console.log(`📣 Push fan-out: ${summary.events} events, ${summary.delivered} delivered to ${summary.subscribers} subscribers (${summary.quietHoursSkipped} in quiet hours, ${summary.removed} expired)`);
+  return summary;
+}
+
+// ---------------------------------------------------------------------------
+// Event sources
+// ---------------------------------------------------------------------------
+
+interface LiveFixtureState {
+  home: string;
+  away: string;
+  league: string;
+  goals: [number, number];
+  status: string;
+}
+
+type LiveState = Record<string, LiveFixtureState>;
+
+const scoreLine = (state: LiveFixtureState) => `${state.home} ${state.goals[0]}-${state.goals[1]} ${state.away}`;
+
+// Team names resolved as in fixtureMapping, so they compare with the app's followed teams
+const stateOf = (fixture: ApiFixture): LiveFixtureState => ({
+  home: resolveTeamName(fixture.teams.home.name),
+  away: resolveTeamName(fixture.teams.away.name),
+  league: fixture.league.name,
+  goals: [fixture.goals.home ?? 0, fixture.goals.away ?? 0],
+  status: fixture.fixture.status?.short || 'NS'
+});
+
+const matchEvent = (topic: PushTopic, fixtureId: string, state: LiveFixtureState, title: string, body: string): PushEvent => ({
+  topic,
+  title,
+  body,
+  tag: `${topic}-${fixtureId}`,
+  url: href('match', { matchId: fixtureId }),
+  teams: [state.home, state.away],
+  league: state.league,
+  data: { matchId: fixtureId }
+});
+
+/**
+ * Kickoff, goal and full-time events from the difference between two live snapshots
+ */
+export function diffLiveState(previous: LiveState, live: LiveState, finished: LiveState): PushEvent[] {
+  const events: PushEvent[] = [];
+  for (const [id, current] of Object.entries(live)) {
+    const before = previous[id];
+    if (!before) {
+      events.push(matchEvent('match-start', id, current, `⚽ ${current.home} vs ${current.away}`, `Kick-off in the ${current.league}`));
+    }
+    const [home, away] = before?.goals || [0, 0];
+    if (current.goals[0] > home || current.goals[1] > away) {
+      const scorer = current.goals[0] > home ? current.home : current.away;
+      events.push(matchEvent('goals', id, current, `⚽ GOAL! ${scorer}`, scoreLine(current)));
+    }
+  }
+  for (const [id, result] of Object.entries(finished)) {
+    events.push(matchEvent('full-time', id, result, `🏁 Full Time: ${result.goals[0]}-${result.goals[1]}`, scoreLine(result)));
+  }
+  return events;
+}
+
+/**
+ * Poll in-play featured fixtures, compare with the last snapshot and notify
+ * subscribers of kick-offs, goals and results
+ */
+export async function notifyScoreChanges(env: Env, ctx?: ExecutionContextLike): Promise<FanOutSummary | null> {
+  if (!isPushConfigured(env)) return null;
+  const kv = env.PREDICTIONS_KV!;
+  // Nobody to tell: don't spend API quota
+  if (!(await kv.list({ prefix: PUSH_SUBSCRIPTION_PREFIX, limit: 1 })).keys.length) return null;
+
+  const previous = await kv.get<LiveState>(PUSH_LIVE_STATE_KEY, 'json').catch(() => null);
+  const liveJson = await apiFootballJson('/fixtures?live=all', env, ctx);
+  const live: LiveState = Object.fromEntries(
+    ((liveJson.response || []) as ApiFixture[])
+      .filter(fixture => FEATURED_LEAGUE_IDS.has(fixture.league.id))
+      .map(fixture => [String(fixture.fixture.id), stateOf(fixture)])
+  );
+
+  // Fixtures that dropped out of the live feed: look up how they ended
+  const finished: LiveState = {};
+  const departed = Object.keys(previous || {}).filter(id => !live[id]);
+  for (let i = 0; i < departed.length; i += FIXTURE_IDS_PER_REQUEST) {
+    try {
+      const json = await apiFootballJson(`/fixtures?ids=${departed.slice(i, i + FIXTURE_IDS_PER_REQUEST).join('-')}`, env, ctx);
+      for (const fixture of (json.response || []) as ApiFixture[]) {
+        if (FINISHED_STATUSES.has(fixture.fixture.status?.short || '')) finished[String(fixture.fixture.id)] = stateOf(fixture);
+      }
+    } catch (error) {
+      console.warn('⚠️ Final score lookup failed:', error.message);
+    }
+  }
+
+  await kv.put(PUSH_LIVE_STATE_KEY, JSON.stringify(live), { expirationTtl: LIVE_STATE_TTL_SECONDS });
+  // The first snapshot is only a baseline, so a fresh deploy doesn't announce every game in progress
+  if (!previous) return null;
+  return fanOut(env, diffLiveState(previous, live, finished));
+}
+
+/**
+ * Tell subscribers about newly generated predictions for their teams
+ */
+export async function notifyPredictions(env: Env, predictions: DailyPredictionRecord[]): Promise<FanOutSummary | null> {
+  if (!isPushConfigured(env) || !predictions.length) return null;
+  const events: PushEvent[] = predictions.map(p => {
+    const outcome = p.prediction?.outcome || 'Prediction ready';
+    const score = p.prediction?.predictedScore || p.prediction?.score;
+    const [home, away] = [resolveTeamName(p.homeTeam), resolveTeamName(p.awayTeam)];
+    return {
+      topic: 'predictions',
+      title: `🔮 ${home} vs ${away}`,
+      body: [outcome, score].filter(Boolean).join(' · '),
+      tag: `predictions-${p.matchId}`,
+      url: href('match', { matchId: p.matchId }),
+      teams: [home, away],
+      league: p.league,
+      data: { matchId: String(p.matchId) }
+    };
+  });
+  return fanOut(env, events);
+}
@@ -0,0 +1,93 @@
+import { CORS_HEADERS, HttpError, errorResponse, json } from './http';
+import { Env, ExecutionContextLike } from './types';
+
+export type HttpMethod = 'GET' | 'POST';
+
+export interface RouteContext {
+  request: Request;
+  url: URL;
+  params: URLSearchParams;
+  env: Env;
+  ctx?: ExecutionContextLike;
+}
+
+export interface Route {
+  path: string;
+  methods: HttpMethod[];
+  description: string;
+  // Mutating routes require Authorization: Bearer <PREDICTION_API_KEY>
+  auth?: boolean;
+  // A plain value is sent as JSON; return a Response for anything else
+  handler: (context: RouteContext) => Promise<unknown>;
+}
+
+export type FetchHandler = (request: Request, env: Env, ctx?: ExecutionContextLike) => Promise<Response>;
+
+// Length-independent comparison so the key can't be recovered from response timing
+const safeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+const checkAuth = (request: Request, env: Env): Response | null => {
+  if (!env.PREDICTION_API_KEY) {
+    return errorResponse(503, 'auth-not-configured', 'PREDICTION_API_KEY secret is not set on this worker');
+  }
+  const header = request.headers.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token || !safeEqual(token, env.PREDICTION_API_KEY)) {
+    return errorResponse(401, 'unauthorized', 'Send Authorization: Bearer <PREDICTION_API_KEY>');
+  }
+  return null;
+};
+
+export const describeRoutes = (routes: Route[]) =>
+  routes.map(route => ({ path: route.path, methods: route.methods, auth: !!route.auth, description: route.description }));
+
+/**
+ * Build the worker's fetch handler from a route table
+ */
+export function createRouter(routes: Route[]): FetchHandler {
+  const table = new Map(routes.map(route => [route.path, route]));
+
+  return async (request, env, ctx) => {
+    const method = request.method.toUpperCase();
+    if (method === 'OPTIONS') {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+
+    const url = new URL(request.url);
+    const path = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : url.pathname;
+    if (path === '/') {
+      return json({ service: 'FixtureCast Cron Worker', routes: describeRoutes(routes) });
+    }
+
+    const route = table.get(path);
+    if (!route) {
+      return errorResponse(404, 'not-found', `No route for ${url.pathname}`, { routes: routes.map(r => r.path) });
+    }
+    if (!route.methods.includes(method as HttpMethod)) {
+      const response = errorResponse(405, 'method-not-allowed', `${method} is not supported on ${route.path}`, { allowed: route.methods });
+      response.headers.set('Allow', [...route.methods, 'OPTIONS'].join(', '));
+      return response;
+    }
+    if (route.auth) {
+      const denied = checkAuth(request, env);
+      if (denied) return denied;
+    }
+
+    try {
+      const result = await route.handler({ request, url, params: url.searchParams, env, ctx });
+      return result instanceof Response ? result : json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return errorResponse(error.status, error.code, error.message, error.details);
+      }
+      console.error(`❌ ${route.path} failed:`, error);
+      return errorResponse(500, 'internal', error?.message || 'Unexpected error');
+    }
+  };
+}
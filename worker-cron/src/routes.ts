@@ -0,0 +1,603 @@
+import { PushSubscriptionError, validateSubscription } from '../../services/pushSubscriptionModel';
+import { MAX_NEWS_PAGE_SIZE, NEWS_PAGE_SIZE, NewsQuery, queryNews } from '../../services/newsModel';
+import { accuracyAggregateKey, computeAndPersistAccuracy, triggerScoreUpdate } from './accuracy';
+import { CalendarFeedTarget, buildCalendarFeed, getFollows, resolveLeague, saveFollows, validateFollows } from './calendar';
+import {
+  CRON_HISTORY_KEY,
+  CRON_LAST_EXECUTION_KEY,
+  getLastCronExecution,
+  getNextHourlyTrigger,
+  getNextPredictionTrigger
+} from './cron';
+import {
+  FEATURED_LEAGUE_IDS,
+  aggregateByLeague,
+  apiFootballFetch,
+  fetchFinishedMatches,
+  fetchFixturesForDate
+} from './football';
+import { CORS_HEADERS, HttpError, json, rawJson, requireKV } from './http';
+import { MAX_CHAIN_ENTRIES, getLedgerChain, getLedgerDay, getLedgerHead, getLedgerProof } from './ledger';
+import {
+  DEFAULT_MODEL,
+  dailyPredictionsKey,
+  dailyProgressKey,
+  structuredPredictionKey,
+  suggestPredictionHints,
+  triggerPredictionUpdate
+} from './predictions';
+import { getStoredNews, refreshNews } from './news';
+import { getSubscription, removeSubscription, saveSubscription } from './push';
+import { Route, RouteContext } from './router';
+import {
+  AccuracyAggregate,
+  CronExecution,
+  CronHistoryEntry,
+  DailyAggregate,
+  DailyPredictionRecord,
+  DailyProgress,
+  KVNamespaceLike,
+  StoredPrediction
+} from './types';
+import {
+  booleanParam,
+  dateParam,
+  daysAgoIso,
+  intParam,
+  isIsoDate,
+  requiredDateParam,
+  stringParam,
+  todayIso
+} from './validation';
+import { vapidConfig } from './webPush';
+
+/**
+ * Route table for the cron worker. Operator routes that generate, clear or
+ * rebuild data, or that spend API-Football quota, require the bearer key.
+ * Everything else is public: reads served from KV, plus the device routes
+ * (/push/subscribe, /push/unsubscribe, /calendar/follows) that browsers call
+ * without a key. Those write one record per device id; the id is chosen by the
+ * client, and knowing it is the only thing that lets a caller overwrite or
+ * delete a device's subscription or follows record.
+ */
+
+const MUTATING: Route['methods'] = ['GET', 'POST'];
+const MODEL_PATTERN = /^[\w.-]+$/;
+
+async function listAllKeys(kv: KVNamespaceLike, prefix: string): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    names.push(...page.keys.map(key => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return names;
+}
+
+const readJson = async <T>(kv: KVNamespaceLike, key: string): Promise<T | null> => {
+  try {
+    return await kv.get<T>(key, 'json');
+  } catch {
+    return null; // unparseable values read as missing
+  }
+};
+
+async function predictionsToday({ env, params }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const date = dateParam(params, 'date', todayIso());
+  const data = await kv.get(dailyPredictionsKey(date));
+  if (!data) return { date, predictions: [], message: 'No daily aggregate yet', stale: true };
+  return rawJson(data);
+}
+
+// Aggregated accuracy stats for a day (default yesterday), computed by the hourly score task
+async function accuracyToday({ env, params }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const date = dateParam(params, 'date', daysAgoIso(1));
+  const data = await kv.get(accuracyAggregateKey(date));
+  if (!data) return { date, stats: null, message: 'No accuracy aggregate yet', stale: true };
+  return rawJson(data);
+}
+
+// Past fully processed days, oldest first (today is still live)
+async function accuracyTrend({ env, params }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const days = intParam(params, 'days', 1, 60, 7);
+  const trend = [];
+  for (let i = days; i >= 1; i--) {
+    const date = daysAgoIso(i);
+    const stats = (await readJson<AccuracyAggregate>(kv, accuracyAggregateKey(date)))?.stats;
+    trend.push(stats ? {
+      date,
+      overallAccuracyPct: stats.overallAccuracyPct,
+      processed: stats.processed,
+      outcomeAccuracyPct: stats.outcomeAccuracyPct ?? null,
+      exactScoreAccuracyPct: stats.exactScoreAccuracyPct ?? null,
+      // Generic alias of exactScoreAccuracyPct for the UI
+      scoreAccuracyPct: stats.exactScoreAccuracyPct ?? null,
+      bttsAccuracyPct: stats.bttsAccuracyPct ?? null
+    } : { date, overallAccuracyPct: null, processed: 0, outcomeAccuracyPct: null, exactScoreAccuracyPct: null, scoreAccuracyPct: null, bttsAccuracyPct: null });
+  }
+  return { days: trend.length, trend };
+}
+
+async function triggerPredictions({ env, params, ctx }: RouteContext) {
+  return triggerPredictionUpdate(env, {
+    force: booleanParam(params, 'force'),
+    featuredOnly: booleanParam(params, 'featuredOnly') || env.FEATURED_ONLY_FETCH === 'true',
+    date: dateParam(params, 'date'),
+    resume: booleanParam(params, 'resume'),
+    waveSize: intParam(params, 'wave', 1, 60), // cap a single wave to 60
+    preferredModel: stringParam(params, 'model', MODEL_PATTERN),
+    ctx
+  });
+}
+
+// Fixtures for a date that have no stored prediction
+async function missingPredictions({ env, params, ctx }: RouteContext) {
+  const date = dateParam(params, 'date', todayIso());
+  const featuredOnly = booleanParam(params, 'featuredOnly');
+  const fixtures = await fetchFixturesForDate(date, env, featuredOnly, ctx);
+  const missing = [];
+  for (const f of fixtures) {
+    const found = env.PREDICTIONS_KV ? await env.PREDICTIONS_KV.get(structuredPredictionKey(f.fixture.id, DEFAULT_MODEL, date)) : null;
+    if (!found) missing.push({ fixtureId: f.fixture.id, home: f.teams.home.name, away: f.teams.away.name, league: f.league.name });
+    if (missing.length >= 500) break; // safety cap
+  }
+  return { date, featuredOnly, totalFixtures: fixtures.length, missingCount: missing.length, missing };
+}
+
+async function clearPredictions({ env, params }: RouteContext) {
+  const date = requiredDateParam(params, 'date', '/clear-predictions?date=YYYY-MM-DD&confirm=true');
+  if (!booleanParam(params, 'confirm')) {
+    throw new HttpError(400, 'confirmation-required', 'Add &confirm=true to confirm clearing predictions', { date });
+  }
+  const kv = requireKV(env.PREDICTIONS_KV);
+
+  console.log(`🧹 Clearing predictions for ${date}...`);
+  const errors: string[] = [];
+  const structured = (await listAllKeys(kv, 'pred:')).filter(name => name.endsWith(`:${date}`));
+  // Legacy keys carry no date, so they are all cleared
+  const legacy = await listAllKeys(kv, 'prediction:');
+  const targets = [dailyPredictionsKey(date), dailyProgressKey(date), ...structured, ...legacy, 'recent_predictions'];
+
+  let clearedKeys = 0;
+  for (const key of targets) {
+    try {
+      await kv.delete(key);
+      clearedKeys++;
+    } catch (err) {
+      errors.push(`Failed to delete ${key}: ${err.message}`);
+    }
+  }
+  console.log(`✅ Cleared ${clearedKeys} keys for ${date}`);
+
+  return {
+    success: true,
+    message: `Cleared ${clearedKeys} prediction keys for ${date}`,
+    clearedKeys,
+    date,
+    errors: errors.length > 0 ? errors : undefined
+  };
+}
+
+// Rebuild the daily aggregate from per-fixture prediction keys (data recovery)
+async function rebuildDaily({ env, params, ctx }: RouteContext) {
+  const date = requiredDateParam(params, 'date', '/rebuild-daily?date=YYYY-MM-DD&featuredOnly=true');
+  const featuredOnly = booleanParam(params, 'featuredOnly');
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const fixtures = await fetchFixturesForDate(date, env, featuredOnly, ctx);
+  if (!fixtures.length) throw new HttpError(404, 'no-fixtures', `No fixtures found for ${date}`, { date });
+
+  const predictions: DailyPredictionRecord[] = [];
+  for (const f of fixtures) {
+    const rec = await readJson<{ numeric_predictions?: StoredPrediction; prediction?: StoredPrediction; meta?: { last_updated?: string } }>(
+      kv, structuredPredictionKey(f.fixture.id, DEFAULT_MODEL, date)
+    );
+    if (!rec) continue;
+    predictions.push({
+      id: `rebuild_${f.fixture.id}_${Date.now()}`,
+      matchId: f.fixture.id,
+      homeTeam: f.teams.home.name,
+      awayTeam: f.teams.away.name,
+      league: f.league.name,
+      leagueId: f.league.id,
+      season: f.league.season,
+      matchDate: f.fixture.date,
+      venue: f.fixture.venue?.name || '',
+      country: f.league.country || '',
+      prediction: rec.numeric_predictions || rec.prediction || {},
+      timestamp: rec.meta?.last_updated || new Date().toISOString(),
+      automated: true,
+      source: 'rebuild'
+    });
+  }
+  const featuredCount = fixtures.filter(m => FEATURED_LEAGUE_IDS.has(m.league.id)).length;
+  const aggregate: DailyAggregate = {
+    date,
+    generatedAt: new Date().toISOString(),
+    totalMatches: fixtures.length,
+    featuredMatches: featuredCount,
+    processed: predictions.length,
+    failures: 0,
+    usingFallbackAllMatches: featuredCount === 0,
+    fetchMode: featuredOnly ? 'featured-only' : 'global',
+    model: DEFAULT_MODEL,
+    resume: false,
+    waveSizeApplied: null,
+    remainingAfterWave: Math.max(0, featuredCount - predictions.length),
+    newlyGenerated: predictions.length,
+    predictions
+  };
+  await kv.put(dailyPredictionsKey(date), JSON.stringify(aggregate));
+  return { rebuilt: true, date, processed: predictions.length, total: fixtures.length, featuredMatches: featuredCount };
+}
+
+async function testEnv({ env }: RouteContext) {
+  return {
+    hasFootballKey: !!env.FOOTBALL_API_KEY,
+    hasGeminiKey: !!env.GEMINI_API_KEY,
+    hasPredictionKey: !!env.PREDICTION_API_KEY,
+    domain: env.FIXTURECAST_DOMAIN
+  };
+}
+
+async function cronStatus({ env }: RouteContext) {
+  const now = new Date();
+  const ukTime = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Europe/London',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).format(now);
+  const persistedLast = env.PREDICTIONS_KV ? await readJson<CronExecution>(env.PREDICTIONS_KV, CRON_LAST_EXECUTION_KEY) : null;
+  return {
+    currentTime: now.toISOString(),
+    ukTime,
+    lastCronExecution: getLastCronExecution() || persistedLast || 'No cron execution recorded yet',
+    cronSchedules: {
+      predictions: '0 6,12,18,23 * * * (6AM, 12PM, 6PM, 11PM UK)',
+      scores: '15 * * * * (Every hour at 15 minutes past)',
+      news: '*/30 * * * * (Every 30 minutes)'
+    },
+    nextTriggers: {
+      scores: getNextHourlyTrigger(now),
+      predictions: getNextPredictionTrigger(now)
+    },
+    persistence: !!env.PREDICTIONS_KV
+  };
+}
+
+async function cronHistory({ env }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const history = (await readJson<CronHistoryEntry[]>(kv, CRON_HISTORY_KEY)) || [];
+  return { count: history.length, history };
+}
+
+// Lightweight health + state inspection for the prediction pipeline
+async function predictionHealth({ env, params }: RouteContext) {
+  const date = dateParam(params, 'date', todayIso());
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const [progress, aggregate, cron] = await Promise.all([
+    readJson<DailyProgress>(kv, dailyProgressKey(date)),
+    readJson<DailyAggregate>(kv, dailyPredictionsKey(date)),
+    readJson<CronExecution>(kv, CRON_LAST_EXECUTION_KEY)
+  ]);
+  let status = 'idle';
+  if (progress && !progress.done && (progress.predicted || 0) > 0) status = 'running';
+  if (progress && progress.done) status = 'completed';
+  if (progress && (progress.predicted || 0) === 0 && (progress.failures || 0) > 0 && !progress.done) status = 'stalled';
+  if (!progress && aggregate && aggregate.processed > 0) status = 'completed';
+  const keys = {
+    football: !!env.FOOTBALL_API_KEY,
+    gemini: !!env.GEMINI_API_KEY,
+    deepseek: !!env.DEEPSEEK_API_KEY
+  };
+  return {
+    date,
+    status,
+    model: aggregate?.model || 'unknown',
+    keys,
+    progress,
+    aggregateSummary: aggregate ? {
+      processed: aggregate.processed,
+      failures: aggregate.failures,
+      waveSizeApplied: aggregate.waveSizeApplied,
+      remainingAfterWave: aggregate.remainingAfterWave,
+      fetchMode: aggregate.fetchMode,
+      resume: aggregate.resume,
+      generatedAt: aggregate.generatedAt
+    } : null,
+    ratePressure: progress?.consecutiveRateLimit > 0 ? progress.consecutiveRateLimit : 0,
+    cron,
+    suggestions: suggestPredictionHints({ progress, aggregate, keys })
+  };
+}
+
+const BACKFILL_USAGE = '/backfill-accuracy?date=YYYY-MM-DD | ?start=YYYY-MM-DD&end=YYYY-MM-DD | ?days=N';
+
+const backfillDates = (params: URLSearchParams): string[] => {
+  const single = dateParam(params, 'date');
+  if (single) return [single];
+
+  const start = dateParam(params, 'start');
+  const end = dateParam(params, 'end');
+  if (start && end) {
+    if (start > end) throw new HttpError(400, 'start-after-end', 'start must not be after end', { start, end });
+    const dates: string[] = [];
+    for (const cursor = new Date(`${start}T00:00:00Z`); cursor.toISOString().slice(0, 10) <= end; cursor.setUTCDate(cursor.getUTCDate() + 1)) {
+      dates.push(cursor.toISOString().slice(0, 10));
+      if (dates.length > 366) throw new HttpError(400, 'range-too-large', 'Backfill at most one year at a time', { start, end });
+    }
+    return dates;
+  }
+
+  const days = intParam(params, 'days', 1, 60); // cap at 60 days
+  if (days !== null) return Array.from({ length: days }, (_, i) => daysAgoIso(i + 1)); // exclude today (incomplete)
+
+  throw new HttpError(400, 'missing-params', 'Provide date, start and end, or days', { usage: BACKFILL_USAGE });
+};
+
+// Recompute historical accuracy aggregates
+async function backfillAccuracy({ env, params, ctx }: RouteContext) {
+  const force = booleanParam(params, 'force');
+  const dates = backfillDates(params).filter(d => d < todayIso()); // today is not finished
+  if (!env.FOOTBALL_API_KEY) throw new HttpError(500, 'missing-football-api-key', 'FOOTBALL_API_KEY is not configured');
+  const kv = requireKV(env.PREDICTIONS_KV);
+
+  const summaries = [];
+  for (const date of dates) {
+    if (!force && await kv.get(accuracyAggregateKey(date))) {
+      summaries.push({ date, skipped: true, reason: 'exists' });
+      continue;
+    }
+    let finished;
+    try {
+      finished = await fetchFinishedMatches(date, env, ctx);
+    } catch (e) {
+      summaries.push({ date, error: true, message: e.message });
+      continue;
+    }
+    if (!finished.length) {
+      summaries.push({ date, processed: 0, note: 'no-finished-matches' });
+      continue;
+    }
+    const agg = await computeAndPersistAccuracy(kv, finished, date);
+    summaries.push({ date, finished: finished.length, accuracyProcessed: agg.processed, overallAccuracyPct: agg.overallAccuracyPct });
+  }
+  return { processedDays: summaries.length, force, summaries };
+}
+
+// Diagnostics: compare global vs featured-only fetch for a date
+async function fixturesDebug({ env, params }: RouteContext) {
+  const date = dateParam(params, 'date', todayIso());
+  const includeFixtures = booleanParam(params, 'details');
+  const runFeatured = booleanParam(params, 'featured', true);
+  const leagueFilter = intParam(params, 'league', 1, Number.MAX_SAFE_INTEGER);
+  const out: Record<string, any> = { date, global: null, featuredAggregate: null, notes: [], leagueFilter };
+
+  // Global fetch (only if no explicit league filter)
+  let globalFixtures: any[] = [];
+  if (leagueFilter === null) {
+    try {
+      const r = await apiFootballFetch(`/fixtures?date=${date}`, env);
+      const j = await r.json();
+      globalFixtures = j.response || [];
+      out.global = { ok: r.ok, status: r.status, count: globalFixtures.length, leagues: aggregateByLeague(globalFixtures) };
+    } catch (e) {
+      out.global = { ok: false, error: e.message };
+    }
+  }
+
+  // Featured-only per-league fetch or single league fetch
+  if (runFeatured) {
+    const targetLeagueIds = leagueFilter !== null ? [leagueFilter] : Array.from(FEATURED_LEAGUE_IDS);
+    const perLeague = [];
+    for (const lid of targetLeagueIds) {
+      try {
+        const r = await apiFootballFetch(`/fixtures?date=${date}&league=${lid}`, env);
+        const j = await r.json();
+        perLeague.push({ leagueId: lid, status: r.status, ok: r.ok, count: j.response?.length || 0 });
+      } catch (e) {
+        perLeague.push({ leagueId: lid, ok: false, error: e.message, count: 0 });
+      }
+    }
+    const total = perLeague.reduce((s, l) => s + l.count, 0);
+    out.featuredAggregate = { total, perLeague: perLeague.sort((a, b) => b.count - a.count).slice(0, 50) };
+  }
+
+  // Truncated raw fixtures for inspection when the day is small
+  if (includeFixtures && out.global?.count && out.global.count <= 60) {
+    out.sample = globalFixtures.slice(0, 25).map(f => ({ id: f.fixture.id, league: f.league.name, home: f.teams.home.name, away: f.teams.away.name, status: f.fixture.status?.short }));
+  }
+  out.meta = { featuredLeagueCount: FEATURED_LEAGUE_IDS.size, keyPresent: !!env.FOOTBALL_API_KEY };
+  return json(out, 200, true);
+}
+
+const MAX_JSON_BODY_BYTES = 16 * 1024;
+
+const readJsonBody = async (request: Request): Promise<any> => {
+  const text = await request.text();
+  if (text.length > MAX_JSON_BODY_BYTES) throw new HttpError(413, 'body-too-large', `Body must be under ${MAX_JSON_BODY_BYTES} bytes`);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'invalid-json', 'Body must be JSON');
+  }
+};
+
+// Public key the browser passes to pushManager.subscribe()
+async function pushVapidKey({ env }: RouteContext) {
+  const vapid = vapidConfig(env);
+  if (!vapid) throw new HttpError(503, 'push-not-configured', 'VAPID keys are not set on this worker');
+  return { publicKey: vapid.publicKey };
+}
+
+// Register or update a device (web push subscription or native token) with its topics, follows and quiet hours
+async function pushSubscribe({ request, env }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const body = await readJsonBody(request);
+  const existing = typeof body?.id === 'string' ? await getSubscription(kv, body.id) : null;
+  let record;
+  try {
+    record = validateSubscription(body, new Date(), existing);
+  } catch (error) {
+    if (error instanceof PushSubscriptionError) {
+      throw new HttpError(400, 'invalid-subscription', error.message, { field: error.field });
+    }
+    throw error;
+  }
+  await saveSubscription(kv, record);
+  return { subscribed: true, id: record.id, transport: record.transport, topics: record.topics, updatedAt: record.updatedAt };
+}
+
+async function pushUnsubscribe({ request, env }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const { id } = (await readJsonBody(request)) || {};
+  if (typeof id !== 'string' || !id) throw new HttpError(400, 'invalid-subscription', 'id is required', { field: 'id' });
+  const existed = !!(await getSubscription(kv, id));
+  await removeSubscription(kv, id);
+  return { unsubscribed: existed, id };
+}
+
+const FEED_ID_PATTERN = /^[\w.-]{8,128}$/;
+
+// webcal:// feed for one of team=<API team id>, league=<League name or API id> or follows=<device id>
+async function calendarFeed({ env, params, ctx }: RouteContext) {
+  const teamId = intParam(params, 'team', 1, Number.MAX_SAFE_INTEGER);
+  const leagueValue = stringParam(params, 'league');
+  const followsId = stringParam(params, 'follows', FEED_ID_PATTERN);
+  if ([teamId, leagueValue, followsId].filter(value => value !== null).length !== 1) {
+    throw new HttpError(400, 'invalid-feed', 'Pass exactly one of team, league or follows', { usage: '/calendar/feed.ics?team=42 | ?league=Premier League | ?follows=<device id>' });
+  }
+
+  let target: CalendarFeedTarget;
+  if (teamId !== null) {
+    target = { kind: 'team', teamId };
+  } else if (leagueValue !== null) {
+    const league = resolveLeague(leagueValue);
+    if (!league) throw new HttpError(404, 'unknown-league', `No feed for league ${leagueValue}`, { param: 'league', provided: leagueValue });
+    target = { kind: 'league', ...league };
+  } else {
+    const follows = await getFollows(requireKV(env.PREDICTIONS_KV), followsId!);
+    if (!follows) throw new HttpError(404, 'unknown-follows', 'No follows registered for this device; POST /calendar/follows first', { param: 'follows' });
+    target = { kind: 'follows', follows };
+  }
+
+  const body = await buildCalendarFeed(target, env, { predictions: booleanParam(params, 'predictions'), ctx });
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="fixturecast.ics"',
+      'Cache-Control': 'public, max-age=900',
+      ...CORS_HEADERS
+    }
+  });
+}
+
+// Teams and leagues behind a device's follows=<id> feed
+async function calendarFollows({ request, env }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const follows = validateFollows(await readJsonBody(request));
+  await saveFollows(kv, follows);
+  return { saved: true, id: follows.id, teams: follows.teams.length, leagues: follows.leagues.length, updatedAt: follows.updatedAt };
+}
+
+const MATCH_ID_PATTERN = /^\d{1,12}$/;
+
+const requireLedger = (kv: KVNamespaceLike | undefined): KVNamespaceLike => {
+  if (!kv) throw new HttpError(500, 'ledger-unavailable', 'LEDGER_KV binding is not configured');
+  return kv;
+};
+
+// Newest sealed entry; verifiers anchor their chain walk here
+async function ledgerHead({ env }: RouteContext) {
+  return { head: await getLedgerHead(requireLedger(env.LEDGER_KV)) };
+}
+
+async function ledgerDay({ env, params }: RouteContext) {
+  const date = requiredDateParam(params, 'date', '/ledger/day?date=YYYY-MM-DD');
+  const day = await getLedgerDay(requireLedger(env.LEDGER_KV), date);
+  if (!day) throw new HttpError(404, 'not-sealed', `${date} has not been sealed yet`, { date });
+  return day;
+}
+
+// Merkle inclusion proofs for a match's predictions recorded on a sealed day
+async function ledgerProof({ env, params }: RouteContext) {
+  const usage = '/ledger/proof?date=YYYY-MM-DD&matchId=123';
+  const date = requiredDateParam(params, 'date', usage);
+  const matchId = stringParam(params, 'matchId', MATCH_ID_PATTERN);
+  if (matchId === null) throw new HttpError(400, 'invalid-param', 'matchId is required', { param: 'matchId', usage });
+  const proof = await getLedgerProof(requireLedger(env.LEDGER_KV), date, matchId);
+  if (!proof) throw new HttpError(404, 'not-sealed', `${date} has not been sealed yet`, { date });
+  if (!proof.proofs.length) throw new HttpError(404, 'not-in-ledger', `No prediction for match ${matchId} was recorded on ${date}`, { date, matchId });
+  return proof;
+}
+
+// Entries newest first from the head back to `until`
+async function ledgerChain({ env, params }: RouteContext) {
+  const until = dateParam(params, 'until');
+  const limit = intParam(params, 'limit', 1, MAX_CHAIN_ENTRIES, until ? MAX_CHAIN_ENTRIES : 30);
+  const entries = await getLedgerChain(requireLedger(env.LEDGER_KV), until, limit);
+  return { count: entries.length, entries };
+}
+
+const ALERT_KINDS = /^(injury|suspension|any)$/;
+const NAME_PATTERN = /^[^<>]{1,80}$/;
+
+// Aggregated news, newest first; empty until the news cron has run once
+async function newsList({ env, params }: RouteContext) {
+  const kv = requireKV(env.PREDICTIONS_KV);
+  const since = stringParam(params, 'since');
+  if (since !== null && Number.isNaN(Date.parse(since))) {
+    throw new HttpError(400, 'invalid-param', 'since must be an ISO date-time', { param: 'since', provided: since });
+  }
+  const query: NewsQuery = {
+    team: stringParam(params, 'team', NAME_PATTERN) ?? undefined,
+    league: stringParam(params, 'league', NAME_PATTERN) ?? undefined,
+    alerts: (stringParam(params, 'alerts', ALERT_KINDS) ?? undefined) as NewsQuery['alerts'],
+    q: stringParam(params, 'q', NAME_PATTERN) ?? undefined,
+    since: since ?? undefined,
+    page: intParam(params, 'page', 1, 1000, 1),
+    pageSize: intParam(params, 'pageSize', 1, MAX_NEWS_PAGE_SIZE, NEWS_PAGE_SIZE)
+  };
+  const stored = await getStoredNews(kv);
+  return queryNews(stored?.articles || [], query, stored?.updatedAt ?? null);
+}
+
+async function triggerNews({ env }: RouteContext) {
+  requireKV(env.PREDICTIONS_KV);
+  return refreshNews(env);
+}
+
+export const routes: Route[] = [
+  { path: '/predictions/today', methods: ['GET'], description: 'Daily prediction aggregate (params: date)', handler: predictionsToday },
+  { path: '/accuracy/today', methods: ['GET'], description: 'Accuracy aggregate, default yesterday (params: date)', handler: accuracyToday },
+  { path: '/accuracy/trend', methods: ['GET'], description: 'Accuracy for the last N days (params: days)', handler: accuracyTrend },
+  { path: '/trigger-predictions', methods: MUTATING, auth: true, description: 'Generate predictions (params: force, featuredOnly, date, resume, wave, model)', handler: triggerPredictions },
+  { path: '/missing-predictions', methods: ['GET'], auth: true, description: 'Fixtures without a stored prediction (params: date, featuredOnly)', handler: missingPredictions },
+  { path: '/clear-predictions', methods: MUTATING, auth: true, description: 'Clear predictions for a date (params: date, confirm=true)', handler: clearPredictions },
+  { path: '/rebuild-daily', methods: MUTATING, auth: true, description: 'Rebuild the daily aggregate from per-fixture keys (params: date, featuredOnly)', handler: rebuildDaily },
+  { path: '/trigger-scores', methods: MUTATING, auth: true, description: 'Score yesterday\'s finished fixtures', handler: ({ env, ctx }) => triggerScoreUpdate(env, ctx) },
+  { path: '/test-env', methods: ['GET'], description: 'Which secrets are configured', handler: testEnv },
+  { path: '/cron-status', methods: ['GET'], description: 'Last cron execution and next triggers', handler: cronStatus },
+  { path: '/cron-history', methods: ['GET'], description: 'Recent cron executions', handler: cronHistory },
+  { path: '/prediction-health', methods: ['GET'], description: 'Prediction pipeline diagnostics (params: date)', handler: predictionHealth },
+  { path: '/backfill-accuracy', methods: MUTATING, auth: true, description: 'Recompute historical accuracy (params: date | start&end | days, force)', handler: backfillAccuracy },
+  { path: '/fixtures-debug', methods: ['GET'], auth: true, description: 'Diagnose fixture availability (params: date, details, featured, league)', handler: fixturesDebug },
+  { path: '/push/vapid-public-key', methods: ['GET'], description: 'VAPID public key for Web Push subscriptions', handler: pushVapidKey },
+  { path: '/push/subscribe', methods: ['POST'], description: 'Register a device for push (JSON body: PushSubscriptionRecord)', handler: pushSubscribe },
+  { path: '/push/unsubscribe', methods: ['POST'], description: 'Remove a device from push (JSON body: { id })', handler: pushUnsubscribe },
+  { path: '/calendar/feed.ics', methods: ['GET'], description: 'iCalendar fixture feed (params: team | league | follows, predictions)', handler: calendarFeed },
+  { path: '/calendar/follows', methods: ['POST'], description: 'Register the teams and leagues behind a follows feed (JSON body: { id, teams, leagues })', handler: calendarFollows },
+  { path: '/ledger/head', methods: ['GET'], description: 'Newest sealed prediction ledger entry', handler: ledgerHead },
+  { path: '/ledger/day', methods: ['GET'], description: 'Sealed ledger day with its ordered leaves (params: date)', handler: ledgerDay },
+  { path: '/ledger/proof', methods: ['GET'], description: 'Inclusion proofs for a match on a sealed day (params: date, matchId)', handler: ledgerProof },
+  { path: '/ledger/chain', methods: ['GET'], description: 'Ledger entries newest first (params: until, limit)', handler: ledgerChain },
+  { path: '/news', methods: ['GET'], description: 'Aggregated news tagged with teams and leagues (params: team, league, alerts=injury|suspension|any, q, since, page, pageSize)', handler: newsList },
+  { path: '/trigger-news', methods: MUTATING, auth: true, description: 'Refresh the news feeds now and push new injury/suspension stories', handler: triggerNews }
+];
@@ -0,0 +1,226 @@
+import type { Match, Prediction, PredictionAccuracy } from '../../types';
+
+/**
+ * The subset of Cloudflare's KVNamespace the worker uses, so it runs against
+ * the real binding in production and MemoryKV in tests
+ */
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>;
+  get(key: string, type: 'text'): Promise<string | null>;
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number; expiration?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; limit?: number; cursor?: string }): Promise<{
+    keys: { name: string; expiration?: number }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+export interface ExecutionContextLike {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+export interface ScheduledEventLike {
+  cron: string;
+  scheduledTime?: number;
+}
+
+export interface Env {
+  PREDICTIONS_KV?: KVNamespaceLike;
+  API_CACHE_KV?: KVNamespaceLike; // Optional namespace for cached API-Football responses
+  LEDGER_KV?: KVNamespaceLike; // Optional append-only prediction ledger; off when unbound
+  FOOTBALL_API_KEY?: string;
+  API_FOOTBALL_BASE_URL?: string; // Override for the local record/replay stand-in
+  GEMINI_API_KEY?: string;
+  DEEPSEEK_API_KEY?: string;
+  PREDICTION_API_KEY?: string;
+  ERROR_WEBHOOK_URL?: string;
+  FIXTURECAST_DOMAIN?: string;
+  FEATURED_ONLY_FETCH?: string;
+  // Web Push (VAPID) keys; push notifications are off until both are set
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+}
+
+/**
+ * API-Football /fixtures entry (only the fields the worker reads)
+ */
+export interface ApiFixture {
+  fixture: {
+    id: number;
+    date: string;
+    venue?: { name?: string | null };
+    status?: { short?: string; elapsed?: number | null };
+  };
+  league: { id: number; name: string; country?: string; season?: number };
+  teams: { home: { id?: number; name: string }; away: { id?: number; name: string } };
+  goals: { home: number | null; away: number | null };
+}
+
+/**
+ * Output of the worker's own Gemini/DeepSeek prompts. Records written by the
+ * app carry the full Prediction instead, so accuracy scoring accepts both.
+ */
+export interface ModelPrediction {
+  analysis: string;
+  outcome: 'Home Win' | 'Draw' | 'Away Win';
+  confidence: number;
+  predictedScore: string;
+  btts: 'Yes' | 'No';
+  overUnder: 'Over 2.5' | 'Under 2.5';
+  keyFactors?: string;
+  model: string;
+  generatedAt: string;
+  usedDeepSeek?: boolean;
+}
+
+export type StoredPrediction = Partial<Omit<ModelPrediction, 'btts'>> & Partial<Omit<Prediction, 'keyFactors' | 'confidence' | 'btts' | 'corners'>> & {
+  score?: string;
+  btts?: string | boolean | Prediction['btts'];
+  corners?: Prediction['corners'] & { overProbability?: number; underProbability?: number };
+};
+
+export interface DailyPredictionRecord {
+  id: string;
+  matchId: number;
+  homeTeam: Match['homeTeam'];
+  awayTeam: Match['awayTeam'];
+  league: string;
+  leagueId: number;
+  season?: number;
+  matchDate: Match['date'];
+  venue: string;
+  country: string;
+  prediction: StoredPrediction;
+  timestamp: string;
+  automated: boolean;
+  source: string;
+  attempts?: number;
+  modelUsed?: string;
+}
+
+export interface DailyAggregate {
+  date: string;
+  generatedAt: string;
+  totalMatches: number;
+  featuredMatches: number;
+  processed: number;
+  failures: number;
+  usingFallbackAllMatches: boolean;
+  fetchMode: 'featured-only' | 'global';
+  model: string;
+  resume: boolean;
+  waveSizeApplied: number | null;
+  remainingAfterWave: number;
+  newlyGenerated: number;
+  predictions: DailyPredictionRecord[];
+}
+
+export interface DailyProgress {
+  date?: string;
+  totalMatches?: number;
+  featuredMatches?: number;
+  predicted?: number;
+  remaining?: number;
+  failures?: number;
+  waveSizeApplied?: number | null;
+  resume?: boolean;
+  fetchMode?: 'featured-only' | 'global';
+  adaptiveDelayMs?: number;
+  dynamicConcurrency?: number;
+  consecutiveRateLimit?: number;
+  circuitBreaker?: boolean;
+  pauseMs?: number;
+  lastBatchAt?: string;
+  done?: boolean;
+}
+
+/**
+ * Finished fixture as scored by the accuracy task
+ */
+export interface FinishedMatch extends Pick<Match, 'homeTeam' | 'awayTeam' | 'date'> {
+  fixtureId: number;
+  leagueId: number;
+  league: string;
+  homeScore: number;
+  awayScore: number;
+  totalCorners?: number;
+}
+
+type MarketResult = boolean | null;
+
+export interface FixtureAccuracyRecord extends Pick<PredictionAccuracy, 'homeTeam' | 'awayTeam'> {
+  fixtureId: number;
+  date: string;
+  leagueId: number;
+  league: string;
+  homeScore: number;
+  awayScore: number;
+  prediction: StoredPrediction;
+  outcomeCorrect: boolean;
+  scoreCorrect: boolean;
+  bttsCorrect: MarketResult;
+  cornersCorrect: MarketResult;
+  goalLineCorrect: MarketResult;
+  cleanSheetCorrect: MarketResult;
+  accuracy: number;
+  computedAt: string;
+}
+
+export interface AccuracyStats {
+  date: string;
+  processed: number;
+  correctOutcome: number;
+  correctScore: number;
+  correctBtts: number;
+  correctCorners: number;
+  correctGoalLine: number;
+  correctCleanSheet: number;
+  outcomeAccuracyPct: number;
+  exactScoreAccuracyPct: number;
+  bttsAccuracyPct: number;
+  cornersAccuracyPct: number;
+  goalLineAccuracyPct: number;
+  cleanSheetAccuracyPct: number;
+  overallAccuracyPct: number;
+  processedAt: string;
+  leagueBreakdown: LeagueAccuracy[];
+}
+
+export interface LeagueAccuracy {
+  leagueId: number | 'unknown';
+  league: string;
+  processed: number;
+  correctOutcome: number;
+  correctScore: number;
+  correctBtts: number;
+  outcomeAccuracyPct: number;
+  exactScoreAccuracyPct: number;
+  bttsAccuracyPct: number;
+  overallAccuracyPct: number;
+}
+
+export interface AccuracyAggregate {
+  stats: AccuracyStats;
+  fixtures: FixtureAccuracyRecord[];
+}
+
+export interface CronExecution {
+  schedule: string;
+  timestamp: string;
+  status: 'running' | 'completed' | 'failed';
+  type?: 'scores' | 'push' | 'news' | 'unknown';
+  result?: unknown;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface CronHistoryEntry {
+  schedule: string;
+  startedAt: string;
+  completedAt?: string;
+  type?: CronExecution['type'];
+  status: CronExecution['status'];
+}
@@ -0,0 +1,66 @@
+import { HttpError } from './http';
+
+/**
+ * Query string parsers. Each one throws an HttpError(400) naming the parameter,
+ * so handlers only ever see well-formed values.
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isIsoDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+
+export const todayIso = (now = new Date()): string => now.toISOString().slice(0, 10);
+
+export const daysAgoIso = (days: number, now = new Date()): string =>
+  new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export function dateParam(params: URLSearchParams, name: string): string | null;
+export function dateParam(params: URLSearchParams, name: string, fallback: string): string;
+export function dateParam(params: URLSearchParams, name: string, fallback: string | null = null): string | null {
+  const value = params.get(name);
+  if (value === null || value === '') return fallback;
+  if (!isIsoDate(value)) {
+    throw new HttpError(400, 'invalid-date', `${name} must be a date in YYYY-MM-DD format`, { param: name, provided: value });
+  }
+  return value;
+}
+
+export const requiredDateParam = (params: URLSearchParams, name: string, usage: string): string => {
+  const value = dateParam(params, name);
+  if (value === null) {
+    throw new HttpError(400, 'invalid-date', `${name} is required`, { param: name, usage });
+  }
+  return value;
+};
+
+export const booleanParam = (params: URLSearchParams, name: string, fallback = false): boolean => {
+  const value = params.get(name);
+  if (value === null || value === '') return fallback;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new HttpError(400, 'invalid-boolean', `${name} must be true or false`, { param: name, provided: value });
+};
+
+/**
+ * Integer parameter clamped to [min, max]; absent means fallback
+ */
+export function intParam(params: URLSearchParams, name: string, min: number, max: number): number | null;
+export function intParam(params: URLSearchParams, name: string, min: number, max: number, fallback: number): number;
+export function intParam(params: URLSearchParams, name: string, min: number, max: number, fallback: number | null = null): number | null {
+  const value = params.get(name);
+  if (value === null || value === '') return fallback;
+  if (!/^-?\d+$/.test(value)) {
+    throw new HttpError(400, 'invalid-integer', `${name} must be an integer`, { param: name, provided: value });
+  }
+  return Math.min(max, Math.max(min, parseInt(value, 10)));
+}
+
+export const stringParam = (params: URLSearchParams, name: string, pattern?: RegExp): string | null => {
+  const value = params.get(name);
+  if (value === null || value === '') return null;
+  if (pattern && !pattern.test(value)) {
+    throw new HttpError(400, 'invalid-param', `${name} has an unsupported value`, { param: name, provided: value });
+  }
+  return value;
+};
@@ -0,0 +1,161 @@
+import { Env } from './types';
+
+/**
+ * Web Push delivery with WebCrypto only (no Node APIs, so it runs on Workers):
+ *   - VAPID (RFC 8292): an ES256 JWT signed with VAPID_PRIVATE_KEY identifies the sender
+ *   - Message encryption (RFC 8291, aes128gcm content coding) to the browser's p256dh/auth keys
+ *
+ * Keys use the base64url format printed by `npx web-push generate-vapid-keys`.
+ */
+
+export interface WebPushTarget {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export interface WebPushResult {
+  ok: boolean;
+  status: number;
+  // The push service no longer knows this subscription; drop it
+  gone: boolean;
+}
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const encoder = new TextEncoder();
+
+export const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlDecode = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const vapidConfig = (env: Env): VapidConfig | null =>
+  env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY
+    ? { publicKey: env.VAPID_PUBLIC_KEY, privateKey: env.VAPID_PRIVATE_KEY, subject: env.VAPID_SUBJECT || 'mailto:push@fixturecast.com' }
+    : null;
+
+/**
+ * HKDF-SHA256 extract-and-expand
+ */
+export async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+/**
+ * Key and nonce for one aes128gcm record (RFC 8291 section 3.4), shared by
+ * the sender and, in tests, the receiving side
+ */
+export async function deriveContentKeys(
+  sharedSecret: Uint8Array,
+  authSecret: Uint8Array,
+  userAgentPublic: Uint8Array,
+  serverPublic: Uint8Array,
+  salt: Uint8Array
+): Promise<{ key: Uint8Array; nonce: Uint8Array }> {
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), userAgentPublic, serverPublic);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+  return {
+    key: await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16),
+    nonce: await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12)
+  };
+}
+
+/**
+ * Encrypts a payload for a subscription as a single aes128gcm record:
+ * salt(16) | rs(4) | idlen(1) | server public key(65) | ciphertext
+ */
+export async function encryptPayload(payload: string, target: WebPushTarget, salt = crypto.getRandomValues(new Uint8Array(16))): Promise<Uint8Array> {
+  const userAgentPublic = base64UrlDecode(target.keys.p256dh);
+  const authSecret = base64UrlDecode(target.keys.auth);
+
+  const serverKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const serverPublic = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey));
+  const userAgentKey = await crypto.subtle.importKey('raw', userAgentPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: userAgentKey }, serverKeys.privateKey, 256));
+
+  const { key, nonce } = await deriveContentKeys(sharedSecret, authSecret, userAgentPublic, serverPublic, salt);
+  const contentKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt']);
+  // 0x02 marks the last (and only) record
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  if (plaintext.length + 16 > RECORD_SIZE) throw new Error(`Push payload too large (${plaintext.length} bytes)`);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, contentKey, plaintext));
+
+  const header = new Uint8Array(21);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = serverPublic.length;
+  return concat(header, serverPublic, ciphertext);
+}
+
+const importVapidPrivateKey = (vapid: VapidConfig): Promise<CryptoKey> => {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  return crypto.subtle.importKey('jwk', {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    d: vapid.privateKey,
+    ext: true
+  }, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+};
+
+/**
+ * Authorization header value for a push service origin
+ */
+export async function vapidAuthorization(endpoint: string, vapid: VapidConfig, now: number = Date.now()): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + JWT_LIFETIME_SECONDS,
+    sub: vapid.subject
+  })));
+  const unsigned = `${header}.${claims}`;
+  // WebCrypto ECDSA signatures are already the raw r||s form JWS expects
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, await importVapidPrivateKey(vapid), encoder.encode(unsigned));
+  return `vapid t=${unsigned}.${base64UrlEncode(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+export async function sendWebPush(
+  target: WebPushTarget,
+  payload: string,
+  vapid: VapidConfig,
+  options: { ttlSeconds?: number; urgency?: 'very-low' | 'low' | 'normal' | 'high'; topic?: string } = {}
+): Promise<WebPushResult> {
+  const body = await encryptPayload(payload, target);
+  const headers: Record<string, string> = {
+    Authorization: await vapidAuthorization(target.endpoint, vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttlSeconds ?? 60 * 60),
+    Urgency: options.urgency || 'normal'
+  };
+  // Collapses undelivered messages with the same topic on the push service
+  if (options.topic) headers.Topic = options.topic.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 32);
+
+  const response = await fetch(target.endpoint, { method: 'POST', headers, body });
+  return { ok: response.ok, status: response.status, gone: response.status === 404 || response.status === 410 };
+}
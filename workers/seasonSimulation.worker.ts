@@ -0,0 +1,32 @@
+// Season simulation Web Worker
+// Runs the Monte Carlo season simulator off the main thread so league and team
+// pages stay responsive. Spawned by services/seasonSimulationService.ts.
+import { simulateSeason, SeasonSimulationInput } from '../services/seasonSimulator';
+
+export interface SeasonSimulationRequest {
+  id: number;
+  input: SeasonSimulationInput;
+}
+
+export type SeasonSimulationMessage =
+  | { id: number; type: 'progress'; completed: number; total: number }
+  | { id: number; type: 'result'; result: ReturnType<typeof simulateSeason> }
+  | { id: number; type: 'error'; message: string };
+
+// DOM lib types `self` as Window; the worker scope only needs these two members
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SeasonSimulationRequest>) => void) | null;
+  postMessage(message: SeasonSimulationMessage): void;
+};
+
+scope.onmessage = (event) => {
+  const { id, input } = event.data;
+  try {
+    const result = simulateSeason(input, (completed, total) => {
+      scope.postMessage({ id, type: 'progress', completed, total });
+    });
+    scope.postMessage({ id, type: 'result', result });
+  } catch (error) {
+    scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};